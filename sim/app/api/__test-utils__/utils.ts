@@ -575,6 +575,7 @@ export function mockDrizzleOrm() {
     asc: vi.fn((field) => ({ field, type: 'asc' })),
     desc: vi.fn((field) => ({ field, type: 'desc' })),
     isNull: vi.fn((field) => ({ field, type: 'isNull' })),
+    inArray: vi.fn((field, values) => ({ field, values, type: 'inArray' })),
     count: vi.fn((field) => ({ field, type: 'count' })),
     sql: vi.fn((strings, ...values) => ({
       type: 'sql',
@@ -618,6 +619,7 @@ export function mockKnowledgeSchemas() {
       processingCompletedAt: 'processing_completed_at',
       processingError: 'processing_error',
       enabled: 'enabled',
+      tags: 'tags',
       uploadedAt: 'uploaded_at',
       deletedAt: 'deleted_at',
     },
@@ -630,8 +632,21 @@ export function mockKnowledgeSchemas() {
       embedding: 'embedding',
       tokenCount: 'token_count',
       characterCount: 'character_count',
+      tags: 'tags',
       createdAt: 'created_at',
     },
+    knowledgeBaseSource: {
+      id: 'source_id',
+      knowledgeBaseId: 'kb_id',
+      provider: 'provider',
+      status: 'status',
+      createdAt: 'created_at',
+    },
+    account: {
+      id: 'account_id',
+      userId: 'user_id',
+      providerId: 'provider_id',
+    },
   }))
 }
 
@@ -0,0 +1,95 @@
+import type { NextRequest } from 'next/server'
+import { createLogger } from '@/lib/logs/console-logger'
+import { createErrorResponse, createSuccessResponse } from '@/app/api/workflows/utils'
+import {
+  deleteChatConversation,
+  findChatDeployment,
+  getChatConversation,
+  getChatVisitorId,
+} from '../../../conversations'
+import { addCorsHeaders, validateChatAuth } from '../../../utils'
+
+const logger = createLogger('ChatConversationByIdAPI')
+
+type RouteParams = { params: Promise<{ subdomain: string; conversationId: string }> }
+
+/**
+ * Find the chat and the visitor a conversation request is made for
+ */
+async function authorizeVisitor(request: NextRequest, subdomain: string, requestId: string) {
+  const deployment = await findChatDeployment(subdomain)
+
+  if (!deployment) {
+    logger.warn(`[${requestId}] Chat not found for subdomain: ${subdomain}`)
+    return { error: createErrorResponse('Chat not found', 404) }
+  }
+
+  if (!deployment.isActive) {
+    return { error: createErrorResponse('This chat is currently unavailable', 403) }
+  }
+
+  const authResult = await validateChatAuth(requestId, deployment, request)
+  if (!authResult.authorized) {
+    return { error: createErrorResponse(authResult.error || 'Authentication required', 401) }
+  }
+
+  return { chatId: deployment.id, visitorId: getChatVisitorId(request, deployment.id) }
+}
+
+// Returns a conversation of the visitor with its messages, to resume it
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const { subdomain, conversationId } = await params
+  const requestId = crypto.randomUUID().slice(0, 8)
+
+  try {
+    const visitor = await authorizeVisitor(request, subdomain, requestId)
+    if (visitor.error) {
+      return addCorsHeaders(visitor.error, request)
+    }
+
+    const conversation = visitor.visitorId
+      ? await getChatConversation(visitor.chatId, visitor.visitorId, conversationId)
+      : null
+
+    if (!conversation) {
+      return addCorsHeaders(createErrorResponse('Conversation not found', 404), request)
+    }
+
+    return addCorsHeaders(createSuccessResponse(conversation), request)
+  } catch (error: any) {
+    logger.error(`[${requestId}] Error fetching chat conversation:`, error)
+    return addCorsHeaders(
+      createErrorResponse(error.message || 'Failed to fetch conversation', 500),
+      request
+    )
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  const { subdomain, conversationId } = await params
+  const requestId = crypto.randomUUID().slice(0, 8)
+
+  try {
+    const visitor = await authorizeVisitor(request, subdomain, requestId)
+    if (visitor.error) {
+      return addCorsHeaders(visitor.error, request)
+    }
+
+    const deleted = visitor.visitorId
+      ? await deleteChatConversation(visitor.chatId, visitor.visitorId, conversationId)
+      : false
+
+    if (!deleted) {
+      return addCorsHeaders(createErrorResponse('Conversation not found', 404), request)
+    }
+
+    logger.info(`[${requestId}] Deleted chat conversation: ${conversationId}`)
+    return addCorsHeaders(createSuccessResponse({ deleted: true }), request)
+  } catch (error: any) {
+    logger.error(`[${requestId}] Error deleting chat conversation:`, error)
+    return addCorsHeaders(
+      createErrorResponse(error.message || 'Failed to delete conversation', 500),
+      request
+    )
+  }
+}
@@ -0,0 +1,127 @@
+/**
+ * Tests for the chat conversations API routes
+ *
+ * @vitest-environment node
+ */
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { createMockRequest } from '@/app/api/__test-utils__/utils'
+
+describe('Chat Conversations API Routes', () => {
+  const mockFindChatDeployment = vi.fn()
+  const mockGetChatVisitorId = vi.fn()
+  const mockListChatConversations = vi.fn()
+  const mockGetChatConversation = vi.fn()
+  const mockDeleteChatConversation = vi.fn()
+  const mockValidateChatAuth = vi.fn()
+
+  beforeEach(() => {
+    vi.resetModules()
+
+    mockFindChatDeployment.mockResolvedValue({ id: 'chat-id', isActive: true, authType: 'public' })
+    mockGetChatVisitorId.mockReturnValue('visitor-1')
+    mockValidateChatAuth.mockResolvedValue({ authorized: true })
+
+    vi.doMock('../../conversations', () => ({
+      findChatDeployment: mockFindChatDeployment,
+      getChatVisitorId: mockGetChatVisitorId,
+      listChatConversations: mockListChatConversations,
+      getChatConversation: mockGetChatConversation,
+      deleteChatConversation: mockDeleteChatConversation,
+    }))
+
+    vi.doMock('../../../conversations', () => ({
+      findChatDeployment: mockFindChatDeployment,
+      getChatVisitorId: mockGetChatVisitorId,
+      listChatConversations: mockListChatConversations,
+      getChatConversation: mockGetChatConversation,
+      deleteChatConversation: mockDeleteChatConversation,
+    }))
+
+    const utils = {
+      addCorsHeaders: vi.fn().mockImplementation((response) => response),
+      validateChatAuth: mockValidateChatAuth,
+    }
+    vi.doMock('../../utils', () => utils)
+    vi.doMock('../../../utils', () => utils)
+
+    vi.doMock('@/lib/logs/console-logger', () => ({
+      createLogger: vi.fn().mockReturnValue({
+        debug: vi.fn(),
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+      }),
+    }))
+  })
+
+  afterEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should list the conversations of the visitor', async () => {
+    mockListChatConversations.mockResolvedValue([{ id: 'conv-1', title: 'Pricing question' }])
+
+    const { GET } = await import('./route')
+    const response = await GET(createMockRequest('GET'), {
+      params: Promise.resolve({ subdomain: 'test-chat' }),
+    })
+
+    expect(response.status).toBe(200)
+    const data = await response.json()
+    expect(data.conversations).toEqual([{ id: 'conv-1', title: 'Pricing question' }])
+    expect(mockListChatConversations).toHaveBeenCalledWith('chat-id', 'visitor-1')
+  })
+
+  it('should return no conversations to a visitor without a cookie', async () => {
+    mockGetChatVisitorId.mockReturnValue(null)
+
+    const { GET } = await import('./route')
+    const response = await GET(createMockRequest('GET'), {
+      params: Promise.resolve({ subdomain: 'test-chat' }),
+    })
+
+    const data = await response.json()
+    expect(data.conversations).toEqual([])
+    expect(mockListChatConversations).not.toHaveBeenCalled()
+  })
+
+  it('should require authentication for protected chats', async () => {
+    mockValidateChatAuth.mockResolvedValue({ authorized: false, error: 'auth_required_password' })
+
+    const { GET } = await import('./route')
+    const response = await GET(createMockRequest('GET'), {
+      params: Promise.resolve({ subdomain: 'test-chat' }),
+    })
+
+    expect(response.status).toBe(401)
+  })
+
+  it('should return a conversation with its messages', async () => {
+    mockGetChatConversation.mockResolvedValue({
+      id: 'conv-1',
+      title: 'Pricing question',
+      messages: [{ id: 'msg-1', role: 'user', content: 'How much is it?' }],
+    })
+
+    const { GET } = await import('./[conversationId]/route')
+    const response = await GET(createMockRequest('GET'), {
+      params: Promise.resolve({ subdomain: 'test-chat', conversationId: 'conv-1' }),
+    })
+
+    expect(response.status).toBe(200)
+    const data = await response.json()
+    expect(data.messages).toHaveLength(1)
+    expect(mockGetChatConversation).toHaveBeenCalledWith('chat-id', 'visitor-1', 'conv-1')
+  })
+
+  it('should not delete conversations of other visitors', async () => {
+    mockDeleteChatConversation.mockResolvedValue(false)
+
+    const { DELETE } = await import('./[conversationId]/route')
+    const response = await DELETE(createMockRequest('DELETE'), {
+      params: Promise.resolve({ subdomain: 'test-chat', conversationId: 'conv-other' }),
+    })
+
+    expect(response.status).toBe(404)
+  })
+})
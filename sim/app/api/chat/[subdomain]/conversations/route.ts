@@ -0,0 +1,49 @@
+import type { NextRequest } from 'next/server'
+import { createLogger } from '@/lib/logs/console-logger'
+import { createErrorResponse, createSuccessResponse } from '@/app/api/workflows/utils'
+import { findChatDeployment, getChatVisitorId, listChatConversations } from '../../conversations'
+import { addCorsHeaders, validateChatAuth } from '../../utils'
+
+const logger = createLogger('ChatConversationsAPI')
+
+// Lists the past conversations of the visitor
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ subdomain: string }> }
+) {
+  const { subdomain } = await params
+  const requestId = crypto.randomUUID().slice(0, 8)
+
+  try {
+    const deployment = await findChatDeployment(subdomain)
+
+    if (!deployment) {
+      logger.warn(`[${requestId}] Chat not found for subdomain: ${subdomain}`)
+      return addCorsHeaders(createErrorResponse('Chat not found', 404), request)
+    }
+
+    if (!deployment.isActive) {
+      return addCorsHeaders(createErrorResponse('This chat is currently unavailable', 403), request)
+    }
+
+    const authResult = await validateChatAuth(requestId, deployment, request)
+    if (!authResult.authorized) {
+      return addCorsHeaders(
+        createErrorResponse(authResult.error || 'Authentication required', 401),
+        request
+      )
+    }
+
+    // Visitors without a cookie have not started a conversation yet
+    const visitorId = getChatVisitorId(request, deployment.id)
+    const conversations = visitorId ? await listChatConversations(deployment.id, visitorId) : []
+
+    return addCorsHeaders(createSuccessResponse({ conversations }), request)
+  } catch (error: any) {
+    logger.error(`[${requestId}] Error listing chat conversations:`, error)
+    return addCorsHeaders(
+      createErrorResponse(error.message || 'Failed to list conversations', 500),
+      request
+    )
+  }
+}
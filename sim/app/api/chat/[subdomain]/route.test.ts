@@ -28,12 +28,16 @@ describe('Chat Subdomain API Route', () => {
   const mockValidateChatAuth = vi.fn().mockResolvedValue({ authorized: true })
   const mockSetChatAuthCookie = vi.fn()
   const mockExecuteWorkflowForChat = vi.fn().mockResolvedValue(createMockStream())
+  const mockResolveChatConversation = vi.fn()
+  const mockSaveChatMessages = vi.fn().mockResolvedValue(undefined)
+  const mockSetChatVisitorCookie = vi.fn()
 
   const mockChatResult = [
     {
       id: 'chat-id',
       workflowId: 'workflow-id',
       userId: 'user-id',
+      slot: 'prod',
       isActive: true,
       authType: 'public',
       title: 'Test Chat',
@@ -75,6 +79,17 @@ describe('Chat Subdomain API Route', () => {
       executeWorkflowForChat: mockExecuteWorkflowForChat,
     }))
 
+    mockResolveChatConversation.mockImplementation(
+      async (_chatId, _visitorId, conversationId) => conversationId || 'new-conversation'
+    )
+
+    vi.doMock('../conversations', () => ({
+      getChatVisitorId: vi.fn().mockReturnValue('visitor-1'),
+      resolveChatConversation: mockResolveChatConversation,
+      saveChatMessages: mockSaveChatMessages,
+      setChatVisitorCookie: mockSetChatVisitorCookie,
+    }))
+
     vi.doMock('@/lib/logs/console-logger', () => ({
       createLogger: vi.fn().mockReturnValue({
         debug: vi.fn(),
@@ -312,6 +327,7 @@ describe('Chat Subdomain API Route', () => {
                 id: 'chat-id',
                 workflowId: 'unavailable-workflow',
                 userId: 'user-id',
+                slot: 'prod',
                 isActive: true,
                 authType: 'public',
                 outputConfigs: [{ blockId: 'block-1', path: 'output' }],
@@ -373,6 +389,51 @@ describe('Chat Subdomain API Route', () => {
       expect(mockExecuteWorkflowForChat).toHaveBeenCalledWith('chat-id', 'Hello world', 'conv-123')
     })
 
+    it('should save the message in the visitor conversation', async () => {
+      const req = createMockRequest('POST', { message: 'Hello world' })
+      const params = Promise.resolve({ subdomain: 'test-chat' })
+
+      const { POST } = await import('./route')
+
+      const response = await POST(req, { params })
+
+      expect(response.status).toBe(200)
+      expect(response.headers.get('X-Conversation-Id')).toBe('new-conversation')
+      expect(mockResolveChatConversation).toHaveBeenCalledWith(
+        'chat-id',
+        'visitor-1',
+        undefined,
+        'Hello world'
+      )
+      expect(mockSaveChatMessages).toHaveBeenCalledWith('new-conversation', [
+        { role: 'user', content: 'Hello world' },
+      ])
+      expect(mockSetChatVisitorCookie).toHaveBeenCalledWith(
+        expect.anything(),
+        'chat-id',
+        'visitor-1'
+      )
+      expect(mockExecuteWorkflowForChat).toHaveBeenCalledWith(
+        'chat-id',
+        'Hello world',
+        'new-conversation'
+      )
+    })
+
+    it('should return 404 for a conversation of another visitor', async () => {
+      mockResolveChatConversation.mockResolvedValueOnce(null)
+
+      const req = createMockRequest('POST', { message: 'Hello', conversationId: 'conv-other' })
+      const params = Promise.resolve({ subdomain: 'test-chat' })
+
+      const { POST } = await import('./route')
+
+      const response = await POST(req, { params })
+
+      expect(response.status).toBe(404)
+      expect(mockExecuteWorkflowForChat).not.toHaveBeenCalled()
+    })
+
     it('should handle streaming response body correctly', async () => {
       const req = createMockRequest('POST', { message: 'Hello world' })
       const params = Promise.resolve({ subdomain: 'test-chat' })
@@ -460,7 +521,7 @@ describe('Chat Subdomain API Route', () => {
       )
     })
 
-    it('should handle missing conversationId gracefully', async () => {
+    it('should start a conversation when conversationId is missing', async () => {
       const req = createMockRequest('POST', { message: 'Hello world' })
       const params = Promise.resolve({ subdomain: 'test-chat' })
 
@@ -468,7 +529,11 @@ describe('Chat Subdomain API Route', () => {
 
       await POST(req, { params })
 
-      expect(mockExecuteWorkflowForChat).toHaveBeenCalledWith('chat-id', 'Hello world', undefined)
+      expect(mockExecuteWorkflowForChat).toHaveBeenCalledWith(
+        'chat-id',
+        'Hello world',
+        'new-conversation'
+      )
     })
   })
 })
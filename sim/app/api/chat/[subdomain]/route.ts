@@ -1,9 +1,16 @@
 import { eq } from 'drizzle-orm'
 import { type NextRequest, NextResponse } from 'next/server'
 import { createLogger } from '@/lib/logs/console-logger'
+import { isSlotDeployed } from '@/lib/workflows/deployment-slots'
 import { createErrorResponse, createSuccessResponse } from '@/app/api/workflows/utils'
 import { db } from '@/db'
 import { chat, workflow } from '@/db/schema'
+import {
+  getChatVisitorId,
+  resolveChatConversation,
+  saveChatMessages,
+  setChatVisitorCookie,
+} from '../conversations'
 import {
   addCorsHeaders,
   executeWorkflowForChat,
@@ -39,6 +46,7 @@ export async function POST(
         id: chat.id,
         workflowId: chat.workflowId,
         userId: chat.userId,
+        slot: chat.slot,
         isActive: chat.isActive,
         authType: chat.authType,
         password: chat.password,
@@ -99,14 +107,38 @@ export async function POST(
       .where(eq(workflow.id, deployment.workflowId))
       .limit(1)
 
-    if (workflowResult.length === 0 || !workflowResult[0].isDeployed) {
-      logger.warn(`[${requestId}] Workflow not found or not deployed: ${deployment.workflowId}`)
+    // Chats of the dev and staging slots need a deployment in their own slot
+    const isDeployed =
+      deployment.slot === 'prod'
+        ? workflowResult[0]?.isDeployed
+        : await isSlotDeployed(deployment.workflowId, deployment.slot as 'dev' | 'staging')
+
+    if (workflowResult.length === 0 || !isDeployed) {
+      logger.warn(
+        `[${requestId}] Workflow not found or not deployed to ${deployment.slot}: ${deployment.workflowId}`
+      )
       return addCorsHeaders(createErrorResponse('Chat workflow is not available', 503), request)
     }
 
     try {
+      // Continue the visitor's conversation, or start one that the workflow sees as the
+      // conversationId of its input
+      const visitorId = getChatVisitorId(request, deployment.id) || crypto.randomUUID()
+      const activeConversationId = await resolveChatConversation(
+        deployment.id,
+        visitorId,
+        conversationId,
+        message
+      )
+      if (!activeConversationId) {
+        logger.warn(`[${requestId}] Conversation not found for visitor: ${conversationId}`)
+        return addCorsHeaders(createErrorResponse('Conversation not found', 404), request)
+      }
+
+      await saveChatMessages(activeConversationId, [{ role: 'user', content: message }])
+
       // Execute workflow with structured input (message + conversationId for context)
-      const result = await executeWorkflowForChat(deployment.id, message, conversationId)
+      const result = await executeWorkflowForChat(deployment.id, message, activeConversationId)
 
       // The result is always a ReadableStream that we can pipe to the client
       const streamResponse = new NextResponse(result, {
@@ -116,8 +148,10 @@ export async function POST(
           'Cache-Control': 'no-cache',
           Connection: 'keep-alive',
           'X-Accel-Buffering': 'no',
+          'X-Conversation-Id': activeConversationId,
         },
       })
+      setChatVisitorCookie(streamResponse, deployment.id, visitorId)
       return addCorsHeaders(streamResponse, request)
     } catch (error: any) {
       logger.error(`[${requestId}] Error processing chat request:`, error)
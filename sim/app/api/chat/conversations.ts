@@ -0,0 +1,329 @@
+import { and, asc, desc, eq } from 'drizzle-orm'
+import type { NextRequest, NextResponse } from 'next/server'
+import { env } from '@/lib/env'
+import { createLogger } from '@/lib/logs/console-logger'
+import { db } from '@/db'
+import { chat, chatConversation, chatMessage } from '@/db/schema'
+import type { BlockLog } from '@/executor/types'
+
+const logger = createLogger('ChatConversations')
+const isDevelopment = env.NODE_ENV === 'development'
+
+// Conversations listed in the sidebar of a deployed chat
+const MAX_LISTED_CONVERSATIONS = 50
+
+const MAX_TITLE_LENGTH = 80
+
+// Conversation IDs may come from the client, which generates UUIDs
+const CONVERSATION_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/
+
+export interface ChatConversationMessage {
+  role: 'user' | 'assistant'
+  content: string
+  blockId?: string
+}
+
+/**
+ * The output blocks of a chat and the paths of their answers. Older chats keep them in
+ * their customizations.
+ */
+export function getChatOutputs(deployment: { outputConfigs: unknown; customizations: unknown }): {
+  outputBlockIds: string[]
+  outputPaths: string[]
+} {
+  const customizations = (deployment.customizations || {}) as Record<string, any>
+  const outputConfigs = Array.isArray(deployment.outputConfigs) ? deployment.outputConfigs : []
+
+  if (outputConfigs.length > 0) {
+    return {
+      outputBlockIds: outputConfigs.map((config) => config.blockId),
+      outputPaths: outputConfigs.map((config) => config.path || ''),
+    }
+  }
+
+  const outputBlockIds: string[] = Array.isArray(customizations.outputBlockIds)
+    ? customizations.outputBlockIds
+    : []
+  const outputPaths: string[] = Array.isArray(customizations.outputPaths)
+    ? customizations.outputPaths
+    : new Array(outputBlockIds.length).fill('')
+  return { outputBlockIds, outputPaths }
+}
+
+/**
+ * The answers of the chat's output blocks: what a block streamed, or else the value at
+ * the output's path, with values other than strings formatted as JSON
+ */
+export function getChatAnswers(
+  logs: BlockLog[],
+  outputBlockIds: string[],
+  outputPaths: string[],
+  streamedContent: Map<string, string> = new Map()
+): ChatConversationMessage[] {
+  const answers: ChatConversationMessage[] = []
+  outputBlockIds.forEach((blockId, index) => {
+    let content: string | undefined
+    if (streamedContent.has(blockId)) {
+      // A block streams once, whichever of its outputs are selected
+      if (answers.some((answer) => answer.blockId === blockId)) return
+      content = streamedContent.get(blockId)
+    } else {
+      const output = logs.find((log) => log.blockId === blockId)?.output
+      const path = outputPaths[index]
+      const value = path
+        ? path
+            .split('.')
+            .reduce<any>((current, part) => (current != null ? current[part] : undefined), output)
+        : output
+      if (value != null) {
+        content = typeof value === 'string' ? value : JSON.stringify(value, null, 2)
+      }
+    }
+    if (content?.trim()) {
+      answers.push({ role: 'assistant', content, blockId })
+    }
+  })
+  return answers
+}
+
+export const getChatVisitorCookieName = (chatId: string) => `chat_visitor_${chatId}`
+
+/**
+ * The anonymous ID of the visitor, which ties conversations to a browser
+ */
+export function getChatVisitorId(request: NextRequest, chatId: string): string | null {
+  return request.cookies.get(getChatVisitorCookieName(chatId))?.value || null
+}
+
+export const setChatVisitorCookie = (
+  response: NextResponse,
+  chatId: string,
+  visitorId: string
+): void => {
+  response.cookies.set({
+    name: getChatVisitorCookieName(chatId),
+    value: visitorId,
+    httpOnly: true,
+    secure: !isDevelopment,
+    sameSite: 'lax',
+    path: '/',
+    domain: isDevelopment ? undefined : '.simstudio.ai',
+    maxAge: 60 * 60 * 24 * 365, // 1 year
+  })
+}
+
+/**
+ * Find the chat deployment of a subdomain with the fields needed to authorize a visitor
+ */
+export async function findChatDeployment(subdomain: string) {
+  const deployments = await db
+    .select({
+      id: chat.id,
+      isActive: chat.isActive,
+      authType: chat.authType,
+      password: chat.password,
+      allowedEmails: chat.allowedEmails,
+    })
+    .from(chat)
+    .where(eq(chat.subdomain, subdomain))
+    .limit(1)
+
+  return deployments.length > 0 ? deployments[0] : null
+}
+
+function createTitle(message: string): string {
+  const title = message.replace(/\s+/g, ' ').trim()
+  return title.length > MAX_TITLE_LENGTH ? `${title.slice(0, MAX_TITLE_LENGTH - 1)}…` : title
+}
+
+/**
+ * Whether the conversation belongs to the visitor of the chat, or null if it does not exist
+ */
+async function isConversationOwned(
+  conversationId: string,
+  chatId: string,
+  visitorId: string
+): Promise<boolean | null> {
+  const existing = await db
+    .select({ chatId: chatConversation.chatId, visitorId: chatConversation.visitorId })
+    .from(chatConversation)
+    .where(eq(chatConversation.id, conversationId))
+    .limit(1)
+
+  if (existing.length === 0) return null
+  return existing[0].chatId === chatId && existing[0].visitorId === visitorId
+}
+
+/**
+ * Resume the conversation of a visitor, or start one titled after its first message.
+ * A conversation ID sent by the client that is new is used for the new conversation.
+ *
+ * @returns The conversation ID, or null if the ID belongs to another chat or visitor
+ */
+export async function resolveChatConversation(
+  chatId: string,
+  visitorId: string,
+  conversationId: string | undefined,
+  message: string
+): Promise<string | null> {
+  if (conversationId) {
+    if (!CONVERSATION_ID_PATTERN.test(conversationId)) return null
+
+    const owned = await isConversationOwned(conversationId, chatId, visitorId)
+    if (owned !== null) {
+      return owned ? conversationId : null
+    }
+  }
+
+  const id = conversationId || crypto.randomUUID()
+  const now = new Date()
+  const inserted = await db
+    .insert(chatConversation)
+    .values({
+      id,
+      chatId,
+      visitorId,
+      title: createTitle(message) || 'New conversation',
+      createdAt: now,
+      updatedAt: now,
+    })
+    .onConflictDoNothing({ target: chatConversation.id })
+    .returning({ id: chatConversation.id })
+
+  // A concurrent first message started the conversation with the same ID
+  if (inserted.length === 0) {
+    return (await isConversationOwned(id, chatId, visitorId)) ? id : null
+  }
+
+  logger.debug(`Started chat conversation ${id} for chat ${chatId}`)
+  return id
+}
+
+/**
+ * Append messages to a conversation, which moves it to the top of the visitor's list
+ */
+export async function saveChatMessages(
+  conversationId: string,
+  messages: ChatConversationMessage[]
+): Promise<void> {
+  if (messages.length === 0) return
+
+  const now = Date.now()
+  await db.insert(chatMessage).values(
+    messages.map((message, index) => ({
+      id: crypto.randomUUID(),
+      conversationId,
+      role: message.role,
+      content: message.content,
+      blockId: message.blockId ?? null,
+      // Keep the order of messages saved together
+      createdAt: new Date(now + index),
+    }))
+  )
+
+  await db
+    .update(chatConversation)
+    .set({ updatedAt: new Date(now) })
+    .where(eq(chatConversation.id, conversationId))
+}
+
+/**
+ * Save the answers of a chat run that finished outside of the chat's request, e.g. in the
+ * run worker after its approvals were decided
+ */
+export async function saveChatRunAnswers(conversationId: string, logs: BlockLog[]): Promise<void> {
+  const deployments = await db
+    .select({ outputConfigs: chat.outputConfigs, customizations: chat.customizations })
+    .from(chatConversation)
+    .innerJoin(chat, eq(chat.id, chatConversation.chatId))
+    .where(eq(chatConversation.id, conversationId))
+    .limit(1)
+  if (deployments.length === 0) return
+
+  const { outputBlockIds, outputPaths } = getChatOutputs(deployments[0])
+  await saveChatMessages(conversationId, getChatAnswers(logs, outputBlockIds, outputPaths))
+}
+
+/**
+ * The most recent conversations of a visitor in a chat
+ */
+export async function listChatConversations(chatId: string, visitorId: string) {
+  return db
+    .select({
+      id: chatConversation.id,
+      title: chatConversation.title,
+      createdAt: chatConversation.createdAt,
+      updatedAt: chatConversation.updatedAt,
+    })
+    .from(chatConversation)
+    .where(and(eq(chatConversation.chatId, chatId), eq(chatConversation.visitorId, visitorId)))
+    .orderBy(desc(chatConversation.updatedAt))
+    .limit(MAX_LISTED_CONVERSATIONS)
+}
+
+/**
+ * A conversation of a visitor with its messages, or null if the visitor has no such
+ * conversation in the chat
+ */
+export async function getChatConversation(
+  chatId: string,
+  visitorId: string,
+  conversationId: string
+) {
+  const conversations = await db
+    .select({
+      id: chatConversation.id,
+      title: chatConversation.title,
+      createdAt: chatConversation.createdAt,
+      updatedAt: chatConversation.updatedAt,
+    })
+    .from(chatConversation)
+    .where(
+      and(
+        eq(chatConversation.id, conversationId),
+        eq(chatConversation.chatId, chatId),
+        eq(chatConversation.visitorId, visitorId)
+      )
+    )
+    .limit(1)
+
+  if (conversations.length === 0) return null
+
+  const messages = await db
+    .select({
+      id: chatMessage.id,
+      role: chatMessage.role,
+      content: chatMessage.content,
+      blockId: chatMessage.blockId,
+      createdAt: chatMessage.createdAt,
+    })
+    .from(chatMessage)
+    .where(eq(chatMessage.conversationId, conversationId))
+    .orderBy(asc(chatMessage.createdAt))
+
+  return { ...conversations[0], messages }
+}
+
+/**
+ * Delete a conversation of a visitor with its messages
+ *
+ * @returns Whether the visitor had the conversation
+ */
+export async function deleteChatConversation(
+  chatId: string,
+  visitorId: string,
+  conversationId: string
+): Promise<boolean> {
+  const deleted = await db
+    .delete(chatConversation)
+    .where(
+      and(
+        eq(chatConversation.id, conversationId),
+        eq(chatConversation.chatId, chatId),
+        eq(chatConversation.visitorId, visitorId)
+      )
+    )
+    .returning({ id: chatConversation.id })
+
+  return deleted.length > 0
+}
@@ -6,6 +6,7 @@ import { getSession } from '@/lib/auth'
 import { env } from '@/lib/env'
 import { createLogger } from '@/lib/logs/console-logger'
 import { encryptSecret } from '@/lib/utils'
+import { DEPLOYMENT_SLOTS, isSlotDeployed } from '@/lib/workflows/deployment-slots'
 import { createErrorResponse, createSuccessResponse } from '@/app/api/workflows/utils'
 import { db } from '@/db'
 import { chat, workflow } from '@/db/schema'
@@ -18,6 +19,7 @@ const chatSchema = z.object({
     .string()
     .min(1, 'Subdomain is required')
     .regex(/^[a-z0-9-]+$/, 'Subdomain can only contain lowercase letters, numbers, and hyphens'),
+  slot: z.enum(DEPLOYMENT_SLOTS).default('prod'),
   title: z.string().min(1, 'Title is required'),
   description: z.string().optional(),
   customizations: z.object({
@@ -74,6 +76,7 @@ export async function POST(request: NextRequest) {
       const {
         workflowId,
         subdomain,
+        slot,
         title,
         description = '',
         customizations,
@@ -117,9 +120,16 @@ export async function POST(request: NextRequest) {
         return createErrorResponse('Workflow not found or access denied', 404)
       }
 
-      // Verify the workflow is deployed (required for chat deployment)
-      if (!workflowExists[0].isDeployed) {
-        return createErrorResponse('Workflow must be deployed before creating a chat', 400)
+      // Verify the workflow is deployed to the chat's slot (required for chat deployment)
+      const isDeployed =
+        slot === 'prod' ? workflowExists[0].isDeployed : await isSlotDeployed(workflowId, slot)
+      if (!isDeployed) {
+        return createErrorResponse(
+          slot === 'prod'
+            ? 'Workflow must be deployed before creating a chat'
+            : `Workflow must be deployed to ${slot} before creating a chat`,
+          400
+        )
       }
 
       // Encrypt password if provided
@@ -136,6 +146,7 @@ export async function POST(request: NextRequest) {
       logger.info('Creating chat deployment with values:', {
         workflowId,
         subdomain,
+        slot,
         title,
         authType,
         hasPassword: !!encryptedPassword,
@@ -155,6 +166,7 @@ export async function POST(request: NextRequest) {
         workflowId,
         userId: session.user.id,
         subdomain,
+        slot,
         title,
         description: description || '',
         customizations: mergedCustomizations,
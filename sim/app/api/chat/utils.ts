@@ -6,6 +6,14 @@ import { createLogger } from '@/lib/logs/console-logger'
 import { persistExecutionLogs } from '@/lib/logs/execution-logger'
 import { buildTraceSpans } from '@/lib/logs/trace-spans'
 import { decryptSecret } from '@/lib/utils'
+import { pauseExecutionRun } from '@/lib/workflows/approvals'
+import {
+  type DeploymentSlot,
+  getSlotDeployedState,
+  getSlotVariables,
+} from '@/lib/workflows/deployment-slots'
+import { trackExecutionRun } from '@/lib/workflows/execution-cancellation'
+import { createExecutionRun, finishExecutionRun } from '@/lib/workflows/execution-runs'
 import { db } from '@/db'
 import { chat, environment as envTable, userStats, workflow } from '@/db/schema'
 import { Executor } from '@/executor'
@@ -13,6 +21,7 @@ import type { BlockLog } from '@/executor/types'
 import { Serializer } from '@/serializer'
 import { mergeSubblockState } from '@/stores/workflows/server-utils'
 import type { WorkflowState } from '@/stores/workflows/workflow/types'
+import { getChatAnswers, getChatOutputs, saveChatMessages } from './conversations'
 
 declare global {
   var __chatStreamProcessingTasks: Promise<{ success: boolean; error?: any }>[] | undefined
@@ -216,7 +225,7 @@ export async function validateChatAuth(
  *
  * @param chatId - Chat deployment identifier
  * @param message - User's chat message
- * @param conversationId - Optional ID for maintaining conversation context
+ * @param conversationId - Optional ID of the conversation, which the streamed answers are saved to
  * @returns Workflow execution result formatted for the chat interface
  */
 export async function executeWorkflowForChat(
@@ -238,6 +247,7 @@ export async function executeWorkflowForChat(
       id: chat.id,
       workflowId: chat.workflowId,
       userId: chat.userId,
+      slot: chat.slot,
       outputConfigs: chat.outputConfigs,
       customizations: chat.customizations,
     })
@@ -253,43 +263,7 @@ export async function executeWorkflowForChat(
   const deployment = deploymentResult[0]
   const workflowId = deployment.workflowId
 
-  // Check for multi-output configuration in customizations
-  const customizations = (deployment.customizations || {}) as Record<string, any>
-  let outputBlockIds: string[] = []
-  let outputPaths: string[] = []
-
-  // Extract output configs from the new schema format
-  if (deployment.outputConfigs && Array.isArray(deployment.outputConfigs)) {
-    // Extract block IDs and paths from the new outputConfigs array format
-    logger.debug(
-      `[${requestId}] Found ${deployment.outputConfigs.length} output configs in deployment`
-    )
-    deployment.outputConfigs.forEach((config) => {
-      logger.debug(
-        `[${requestId}] Processing output config: blockId=${config.blockId}, path=${config.path || 'none'}`
-      )
-    })
-
-    outputBlockIds = deployment.outputConfigs.map((config) => config.blockId)
-    outputPaths = deployment.outputConfigs.map((config) => config.path || '')
-  } else {
-    // Use customizations as fallback
-    outputBlockIds = Array.isArray(customizations.outputBlockIds)
-      ? customizations.outputBlockIds
-      : []
-    outputPaths = Array.isArray(customizations.outputPaths) ? customizations.outputPaths : []
-  }
-
-  // Fall back to customizations if we still have no outputs
-  if (
-    outputBlockIds.length === 0 &&
-    customizations.outputBlockIds &&
-    customizations.outputBlockIds.length > 0
-  ) {
-    outputBlockIds = customizations.outputBlockIds
-    outputPaths = customizations.outputPaths || new Array(outputBlockIds.length).fill('')
-  }
-
+  const { outputBlockIds, outputPaths } = getChatOutputs(deployment)
   logger.debug(`[${requestId}] Using ${outputBlockIds.length} output blocks for extraction`)
 
   // Find the workflow
@@ -308,8 +282,19 @@ export async function executeWorkflowForChat(
     throw new Error('Workflow not available')
   }
 
-  // Use deployed state for execution
-  const state = workflowResult[0].deployedState || workflowResult[0].state
+  // Use deployed state for execution, or the version deployed in the chat's slot
+  let state = workflowResult[0].deployedState || workflowResult[0].state
+  if (deployment.slot !== 'prod') {
+    const slotDeployment = await getSlotDeployedState(
+      workflowId,
+      deployment.slot as Exclude<DeploymentSlot, 'prod'>
+    )
+    if (!slotDeployment) {
+      logger.warn(`[${requestId}] Workflow not deployed to ${deployment.slot}: ${workflowId}`)
+      throw new Error('Workflow not available')
+    }
+    state = slotDeployment.state
+  }
   const { blocks, edges, loops, parallels } = state as WorkflowState
 
   // Prepare for execution, similar to use-workflow-execution.ts
@@ -340,6 +325,12 @@ export async function executeWorkflowForChat(
     if (envResult.length > 0 && envResult[0].variables) {
       envVars = envResult[0].variables as Record<string, string>
     }
+
+    // Slot variables win over the user's
+    envVars = {
+      ...envVars,
+      ...(await getSlotVariables(workflowId, deployment.slot as DeploymentSlot)),
+    }
   } catch (error) {
     logger.warn(`[${requestId}] Could not fetch environment variables:`, error)
   }
@@ -439,11 +430,24 @@ export async function executeWorkflowForChat(
         }
       }
 
+      // Record the run so it can pause at approval blocks and be resumed once they are decided
+      const executionId = uuidv4()
+      const workflowInput = { input: message, conversationId }
+      await createExecutionRun({
+        id: executionId,
+        workflowId,
+        trigger: 'chat',
+        slot: deployment.slot,
+        input: workflowInput,
+        workflowState: state,
+      })
+      const runTracking = trackExecutionRun(executionId)
+
       const executor = new Executor({
         workflow: serializedWorkflow,
         currentBlockStates: processedBlockStates,
         envVarValues: decryptedEnvVars,
-        workflowInput: { input: message, conversationId },
+        workflowInput,
         workflowVariables,
         contextExtensions: {
           stream: true,
@@ -453,10 +457,36 @@ export async function executeWorkflowForChat(
             target: e.target,
           })),
           onStream,
+          onCheckpoint: runTracking.onCheckpoint,
+          abortSignal: runTracking.abortSignal,
         },
       })
 
-      const result = await executor.execute(workflowId)
+      let result: Awaited<ReturnType<Executor['execute']>>
+      try {
+        result = await executor.execute(workflowId)
+      } catch (error: any) {
+        await finishExecutionRun(executionId, { success: false, error: error.message })
+        throw error
+      } finally {
+        runTracking.release()
+      }
+
+      // Logs are written once the run finishes, after its approvals have been decided
+      if ('success' in result && result.metadata?.isPaused) {
+        logger.info(`[${requestId}] Chat workflow paused for approvals: ${workflowId}`)
+        await pauseExecutionRun(executionId, workflowId, result.metadata.pendingApprovals || [])
+        controller.enqueue(
+          encoder.encode(
+            `data: ${JSON.stringify({
+              event: 'final',
+              data: { success: true, status: 'paused', runId: executionId },
+            })}\n\n`
+          )
+        )
+        controller.close()
+        return
+      }
 
       if (result && 'success' in result) {
         result.logs?.forEach((log: BlockLog) => {
@@ -478,10 +508,25 @@ export async function executeWorkflowForChat(
           }
           ;(enrichedResult.metadata as any).conversationId = conversationId
         }
-        const executionId = uuidv4()
         await persistExecutionLogs(workflowId, executionId, enrichedResult, 'chat')
+        await finishExecutionRun(executionId, result)
         logger.debug(`Persisted logs for deployed chat: ${executionId}`)
 
+        // Keep the answers in the conversation history, also those of blocks that did not stream
+        if (conversationId) {
+          try {
+            await saveChatMessages(
+              conversationId,
+              getChatAnswers(result.logs || [], outputBlockIds, outputPaths, streamedContent)
+            )
+          } catch (error) {
+            logger.error(
+              `Failed to save the answers of chat conversation ${conversationId}:`,
+              error
+            )
+          }
+        }
+
         if (result.success) {
           try {
             await db
@@ -2,10 +2,24 @@ import { NextResponse } from 'next/server'
 import { OpenAI } from 'openai'
 import type { ChatCompletionMessageParam } from 'openai/resources/chat/completions'
 import { z } from 'zod'
+import {
+  GetBlockSchemasSchema,
+  getCopilotActions,
+  ProposeChangesSchema,
+} from '@/lib/copilot/actions'
+import { getBlockCatalog, getBlockSchema, SUBFLOW_BLOCKS } from '@/lib/copilot/catalog'
+import type { CopilotProposal, CopilotWorkflowState } from '@/lib/copilot/types'
+import { validateOperations } from '@/lib/copilot/validation'
 import { createLogger } from '@/lib/logs/console-logger'
 
 const logger = createLogger('CopilotAPI')
 
+// Model round trips per message, covering schema lookups and corrections of invalid proposals
+const MAX_STEPS = 6
+
+// Longest sub-block value shown to the model in the workflow summary
+const MAX_VALUE_LENGTH = 200
+
 const MessageSchema = z.object({
   role: z.enum(['user', 'assistant', 'system']),
   content: z.string(),
@@ -19,120 +33,63 @@ const RequestSchema = z.object({
   }),
 })
 
-const workflowActions = {
-  addBlock: {
-    description: 'Add one new block to the workflow',
-    parameters: {
-      type: 'object',
-      required: ['type'],
-      properties: {
-        type: {
-          type: 'string',
-          enum: ['agent', 'api', 'condition', 'function', 'router'],
-          description: 'The type of block to add',
-        },
-        name: {
-          type: 'string',
-          description:
-            'Optional custom name for the block. Do not provide a name unless the user has specified it.',
-        },
-        position: {
-          type: 'object',
-          description:
-            'Optional position for the block. Do not provide a position unless the user has specified it.',
-          properties: {
-            x: { type: 'number' },
-            y: { type: 'number' },
-          },
-        },
-      },
-    },
-  },
-  addEdge: {
-    description: 'Create a connection (edge) between two blocks',
-    parameters: {
-      type: 'object',
-      required: ['sourceId', 'targetId'],
-      properties: {
-        sourceId: {
-          type: 'string',
-          description: 'ID of the source block',
-        },
-        targetId: {
-          type: 'string',
-          description: 'ID of the target block',
-        },
-        sourceHandle: {
-          type: 'string',
-          description: 'Optional handle identifier for the source connection point',
-        },
-        targetHandle: {
-          type: 'string',
-          description: 'Optional handle identifier for the target connection point',
-        },
-      },
-    },
-  },
-  removeBlock: {
-    description: 'Remove a block from the workflow',
-    parameters: {
-      type: 'object',
-      required: ['id'],
-      properties: {
-        id: { type: 'string', description: 'ID of the block to remove' },
-      },
-    },
-  },
-  removeEdge: {
-    description: 'Remove a connection (edge) between blocks',
-    parameters: {
-      type: 'object',
-      required: ['id'],
-      properties: {
-        id: { type: 'string', description: 'ID of the edge to remove' },
-      },
-    },
-  },
+const summarizeValue = (value: unknown) => {
+  const text = typeof value === 'string' ? value : JSON.stringify(value)
+  return text.length > MAX_VALUE_LENGTH ? `${text.slice(0, MAX_VALUE_LENGTH)}...` : text
 }
 
 // System prompt that references workflow state
-const getSystemPrompt = (workflowState: any) => {
-  const blockCount = Object.keys(workflowState.blocks).length
-  const edgeCount = workflowState.edges.length
-
-  // Create a summary of existing blocks
-  const blockSummary = Object.values(workflowState.blocks)
-    .map((block: any) => `- ${block.type} block named "${block.name}" with id ${block.id}`)
+const getSystemPrompt = (workflowState: CopilotWorkflowState) => {
+  const blocks = Object.values(workflowState.blocks)
+
+  // Create a summary of existing blocks with their configured values
+  const blockSummary = blocks
+    .map((block) => {
+      const parent = block.data?.parentId ? ` inside ${block.data.parentId}` : ''
+      const values = Object.values(block.subBlocks ?? {})
+        .filter((subBlock) => subBlock.value !== null && subBlock.value !== '')
+        .map((subBlock) => `\n    ${subBlock.id}: ${summarizeValue(subBlock.value)}`)
+        .join('')
+      return `- ${block.type} block named "${block.name}" with id ${block.id}${parent}${values}`
+    })
     .join('\n')
 
   // Create a summary of existing edges
   const edgeSummary = workflowState.edges
-    .map((edge: any) => `- ${edge.source} -> ${edge.target} with id ${edge.id}`)
+    .map(
+      (edge) =>
+        `- ${edge.source} -> ${edge.target} from handle ${edge.sourceHandle ?? 'source'} with id ${edge.id}`
+    )
     .join('\n')
 
-  return `You are a workflow assistant that helps users modify their workflow by adding/removing blocks and connections.
+  return `You are a workflow assistant that builds and edits workflows made of blocks connected by edges.
 
 Current Workflow State:
 ${
-  blockCount === 0
+  blocks.length === 0
     ? 'The workflow is empty.'
     : `${blockSummary}
 
 Connections:
-${edgeCount === 0 ? 'No connections between blocks.' : edgeSummary}`
+${workflowState.edges.length === 0 ? 'No connections between blocks.' : edgeSummary}`
 }
 
-When users request changes:
-- Consider existing blocks when suggesting connections
-- Provide clear feedback about what actions you've taken
-
-Use the following functions to modify the workflow:
-1. Use the addBlock function to create a new block
-2. Use the addEdge function to connect one block to another
-3. Use the removeBlock function to remove a block
-4. Use the removeEdge function to remove a connection
-
-Only use the provided functions and respond naturally to the user's requests.`
+Available block types:
+${getBlockCatalog()}
+
+How to make changes:
+1. Call getBlockSchemas for the block types you plan to use, to learn their sub-blocks and tools
+2. Call proposeChanges once with all operations needed for the request. The user previews them and accepts or rejects them.
+3. If proposeChanges reports errors, fix them and call it again
+
+Rules:
+- The workflow starts at the starter block; connect the first new block from it
+- Refer to new blocks by their ref and to existing blocks by their id
+- Set sub-block values so blocks work out of the box. Reference outputs of other blocks as <blockname.response.field>, with the block name lowercased and without spaces
+- Leave sub-blocks marked configuredByUser (credentials, channels, files) to the user and mention them in your reply
+- To give an agent tools, set its "tools" sub-block rather than adding separate tool blocks
+- Blocks placed in a ${Object.keys(SUBFLOW_BLOCKS).join(' or ')} run for every iteration; connect the container to the first block inside it
+- Only propose changes the user asked for, and reply briefly in plain language`
 }
 
 export async function POST(request: Request) {
@@ -148,55 +105,105 @@ export async function POST(request: Request) {
     // Parse and validate request body
     const body = await request.json()
     const validatedData = RequestSchema.parse(body)
-    const { messages, workflowState } = validatedData
+    const { messages } = validatedData
+    const workflowState = validatedData.workflowState as CopilotWorkflowState
 
     // Initialize OpenAI client
     const openai = new OpenAI({ apiKey })
+    const tools = Object.entries(getCopilotActions()).map(([name, config]) => ({
+      type: 'function' as const,
+      function: {
+        name,
+        description: config.description,
+        parameters: config.parameters,
+      },
+    }))
 
     // Create message history with workflow context
-    const messageHistory = [
+    const messageHistory: ChatCompletionMessageParam[] = [
       { role: 'system', content: getSystemPrompt(workflowState) },
-      ...messages,
+      ...(messages as ChatCompletionMessageParam[]),
     ]
 
-    // Make OpenAI API call with workflow context
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-4o',
-      messages: messageHistory as ChatCompletionMessageParam[],
-      tools: Object.entries(workflowActions).map(([name, config]) => ({
-        type: 'function',
-        function: {
-          name,
-          description: config.description,
-          parameters: config.parameters,
-        },
-      })),
-      tool_choice: 'auto',
-    })
-
-    const message = completion.choices[0].message
-
-    // Process tool calls if present
-    if (message.tool_calls) {
-      logger.debug(`[${requestId}] Tool calls:`, {
-        toolCalls: message.tool_calls,
-      })
-      const actions = message.tool_calls.map((call) => ({
-        name: call.function.name,
-        parameters: JSON.parse(call.function.arguments),
-      }))
-
-      return NextResponse.json({
-        message: message.content || "I've updated the workflow based on your request.",
-        actions,
+    for (let step = 0; step < MAX_STEPS; step++) {
+      const completion = await openai.chat.completions.create({
+        model: 'gpt-4o',
+        messages: messageHistory,
+        tools,
+        tool_choice: 'auto',
       })
+
+      const message = completion.choices[0].message
+
+      // Return response with no changes
+      if (!message.tool_calls?.length) {
+        return NextResponse.json({
+          message:
+            message.content ||
+            "I'm not sure what changes to make to the workflow. Can you please provide more specific instructions?",
+        })
+      }
+
+      logger.debug(`[${requestId}] Tool calls:`, { toolCalls: message.tool_calls })
+      messageHistory.push(message)
+
+      let proposal: CopilotProposal | null = null
+
+      // Every tool call needs a result before the model can continue
+      for (const call of message.tool_calls) {
+        let result: unknown
+
+        try {
+          const args = JSON.parse(call.function.arguments)
+
+          if (call.function.name === 'getBlockSchemas') {
+            const { types } = GetBlockSchemasSchema.parse(args)
+            result = types.map(
+              (type) =>
+                getBlockSchema(type) ?? {
+                  type,
+                  description: SUBFLOW_BLOCKS[type as keyof typeof SUBFLOW_BLOCKS] ?? 'Unknown',
+                }
+            )
+          } else if (call.function.name === 'proposeChanges') {
+            const { summary, operations } = ProposeChangesSchema.parse(args)
+            const errors = validateOperations(operations, workflowState)
+
+            if (errors.length > 0) {
+              logger.info(`[${requestId}] Invalid proposal`, { errors })
+              result = { errors }
+            } else {
+              proposal = { id: crypto.randomUUID(), summary, operations }
+              result = { status: 'Proposed to the user for review' }
+            }
+          } else {
+            result = { error: `Unknown function ${call.function.name}` }
+          }
+        } catch (error) {
+          result = {
+            error: error instanceof z.ZodError ? error.errors : 'Invalid function arguments',
+          }
+        }
+
+        messageHistory.push({
+          role: 'tool',
+          tool_call_id: call.id,
+          content: JSON.stringify(result),
+        })
+      }
+
+      if (proposal) {
+        return NextResponse.json({
+          message: message.content || proposal.summary,
+          proposal,
+        })
+      }
     }
 
-    // Return response with no actions
+    logger.warn(`[${requestId}] No valid proposal after ${MAX_STEPS} steps`)
     return NextResponse.json({
       message:
-        message.content ||
-        "I'm not sure what changes to make to the workflow. Can you please provide more specific instructions?",
+        "I couldn't work out a valid set of changes for this request. Can you try describing it in smaller steps?",
     })
   } catch (error) {
     logger.error(`[${requestId}] Copilot API error:`, { error })
@@ -8,8 +8,8 @@ import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
 import { createMockRequest } from '@/app/api/__test-utils__/utils'
 
 const mockFreestyleExecuteScript = vi.fn()
-const mockCreateContext = vi.fn()
-const mockRunInContext = vi.fn()
+const mockExecuteJavaScript = vi.fn()
+const mockExecutePython = vi.fn()
 const mockLogger = {
   info: vi.fn(),
   error: vi.fn(),
@@ -22,11 +22,12 @@ describe('Function Execute API Route', () => {
     vi.resetModules()
     vi.resetAllMocks()
 
-    vi.doMock('vm', () => ({
-      createContext: mockCreateContext,
-      Script: vi.fn().mockImplementation(() => ({
-        runInContext: mockRunInContext,
-      })),
+    vi.doMock('@/lib/sandbox/javascript', () => ({
+      executeJavaScript: mockExecuteJavaScript,
+    }))
+
+    vi.doMock('@/lib/sandbox/python', () => ({
+      executePython: mockExecutePython,
     }))
 
     vi.doMock('freestyle-sandboxes', () => ({
@@ -50,8 +51,7 @@ describe('Function Execute API Route', () => {
       logs: [],
     })
 
-    mockRunInContext.mockResolvedValue('vm success')
-    mockCreateContext.mockReturnValue({})
+    mockExecuteJavaScript.mockResolvedValue({ success: true, result: 'vm success', stdout: '' })
   })
 
   afterEach(() => {
@@ -254,7 +254,7 @@ describe('Function Execute API Route', () => {
       const response = await POST(req)
 
       expect(mockFreestyleExecuteScript).toHaveBeenCalled()
-      expect(mockRunInContext).toHaveBeenCalled()
+      expect(mockExecuteJavaScript).toHaveBeenCalled()
       expect(mockLogger.error).toHaveBeenCalledWith(
         expect.stringMatching(/\[.*\] Freestyle API call failed, falling back to VM:/),
         expect.any(Object)
@@ -297,7 +297,7 @@ describe('Function Execute API Route', () => {
       await POST(req)
 
       expect(mockFreestyleExecuteScript).not.toHaveBeenCalled()
-      expect(mockRunInContext).toHaveBeenCalled()
+      expect(mockExecuteJavaScript).toHaveBeenCalled()
       expect(mockLogger.info).toHaveBeenCalledWith(
         expect.stringMatching(
           /\[.*\] Using VM for code execution \(no Freestyle API key available\)/
@@ -313,7 +313,11 @@ describe('Function Execute API Route', () => {
         },
       }))
 
-      mockRunInContext.mockRejectedValueOnce(new Error('VM execution error'))
+      mockExecuteJavaScript.mockResolvedValueOnce({
+        success: false,
+        error: 'VM execution error',
+        stdout: '',
+      })
 
       const req = createMockRequest('POST', {
         code: 'return invalidCode(',
@@ -344,6 +348,48 @@ describe('Function Execute API Route', () => {
 
       expect(response.status).toBe(200)
       // For custom tools, parameters should be directly accessible as variables
+      expect(mockExecuteJavaScript).toHaveBeenCalledWith(
+        expect.objectContaining({
+          isCustomTool: true,
+          params: expect.objectContaining({ location: 'San Francisco' }),
+        })
+      )
+    })
+  })
+
+  describe('Python Execution', () => {
+    it('should run Python code in the Python sandbox with resolved variables', async () => {
+      mockExecutePython.mockResolvedValueOnce({ success: true, result: 84, stdout: 'hello\n' })
+
+      const req = createMockRequest('POST', {
+        code: 'print("hello")\nreturn <value> * 2',
+        language: 'python',
+        params: { value: 42 },
+      })
+
+      const { POST } = await import('./route')
+      const response = await POST(req)
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.output).toEqual(expect.objectContaining({ result: 84, stdout: 'hello\n' }))
+      expect(mockExecutePython).toHaveBeenCalledWith(
+        expect.objectContaining({ code: 'print("hello")\nreturn 42 * 2' })
+      )
+      expect(mockExecuteJavaScript).not.toHaveBeenCalled()
+    })
+
+    it('should reject unsupported languages', async () => {
+      const req = createMockRequest('POST', { code: 'puts 1', language: 'ruby' })
+
+      const { POST } = await import('./route')
+      const response = await POST(req)
+      const data = await response.json()
+
+      expect(response.status).toBe(500)
+      expect(data.error).toBe('Unsupported language: ruby')
+      expect(mockExecutePython).not.toHaveBeenCalled()
+      expect(mockExecuteJavaScript).not.toHaveBeenCalled()
     })
   })
 
@@ -448,11 +494,12 @@ describe('Function Execute API - Template Variable Edge Cases', () => {
       },
     }))
 
-    vi.doMock('vm', () => ({
-      createContext: mockCreateContext,
-      Script: vi.fn().mockImplementation(() => ({
-        runInContext: mockRunInContext,
-      })),
+    vi.doMock('@/lib/sandbox/javascript', () => ({
+      executeJavaScript: mockExecuteJavaScript,
+    }))
+
+    vi.doMock('@/lib/sandbox/python', () => ({
+      executePython: mockExecutePython,
     }))
 
     vi.doMock('freestyle-sandboxes', () => ({
@@ -466,8 +513,7 @@ describe('Function Execute API - Template Variable Edge Cases', () => {
       logs: [],
     })
 
-    mockRunInContext.mockResolvedValue('vm success')
-    mockCreateContext.mockReturnValue({})
+    mockExecuteJavaScript.mockResolvedValue({ success: true, result: 'vm success', stdout: '' })
   })
 
   it.skip('should handle nested template variables', async () => {
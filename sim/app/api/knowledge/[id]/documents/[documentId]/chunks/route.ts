@@ -7,7 +7,11 @@ import { createLogger } from '@/lib/logs/console-logger'
 import { getUserId } from '@/app/api/auth/oauth/utils'
 import { db } from '@/db'
 import { document, embedding } from '@/db/schema'
-import { checkDocumentAccess, generateEmbeddings } from '../../../../utils'
+import {
+  checkDocumentAccess,
+  generateEmbeddings,
+  getKnowledgeBaseEmbeddingModel,
+} from '../../../../utils'
 
 const logger = createLogger('DocumentChunksAPI')
 
@@ -209,7 +213,8 @@ export async function POST(
 
       // Generate embedding for the content first (outside transaction for performance)
       logger.info(`[${requestId}] Generating embedding for manual chunk`)
-      const embeddings = await generateEmbeddings([validatedData.content])
+      const embeddingModel = await getKnowledgeBaseEmbeddingModel(knowledgeBaseId)
+      const embeddings = await generateEmbeddings([validatedData.content], embeddingModel)
 
       const chunkId = crypto.randomUUID()
       const now = new Date()
@@ -236,10 +241,11 @@ export async function POST(
           contentLength: validatedData.content.length,
           tokenCount: Math.ceil(validatedData.content.length / 4), // Rough approximation
           embedding: embeddings[0],
-          embeddingModel: 'text-embedding-3-small',
+          embeddingModel,
           startOffset: 0, // Manual chunks don't have document offsets
           endOffset: validatedData.content.length,
           metadata: { manual: true }, // Mark as manually created
+          tags: doc.tags ?? {},
           enabled: validatedData.enabled,
           createdAt: now,
           updatedAt: now,
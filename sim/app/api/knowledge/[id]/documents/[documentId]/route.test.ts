@@ -223,6 +223,41 @@ describe('Document By ID API Route', () => {
       expect(mockDbChain.select).toHaveBeenCalled()
     })
 
+    it('should copy updated tags to the chunks of the document', async () => {
+      mockAuth$.mockAuthenticatedUser()
+      mockCheckDocumentAccess.mockResolvedValue({
+        hasAccess: true,
+        document: mockDocument,
+      })
+
+      const tags = { product: 'pro', language: 'en' }
+      const updateChain = {
+        set: vi.fn().mockReturnValue({
+          where: vi.fn().mockResolvedValue(undefined),
+        }),
+      }
+      const selectChain = {
+        from: vi.fn().mockReturnValue({
+          where: vi.fn().mockReturnValue({
+            limit: vi.fn().mockResolvedValue([{ ...mockDocument, tags }]),
+          }),
+        }),
+      }
+      mockDbChain.update.mockReturnValue(updateChain)
+      mockDbChain.select.mockReturnValue(selectChain)
+
+      const req = createMockRequest('PUT', { tags })
+      const { PUT } = await import('./route')
+      const response = await PUT(req, { params: mockParams })
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.data.tags).toEqual(tags)
+      expect(mockDbChain.update).toHaveBeenCalledTimes(2)
+      expect(updateChain.set).toHaveBeenNthCalledWith(1, { tags })
+      expect(updateChain.set).toHaveBeenNthCalledWith(2, expect.objectContaining({ tags }))
+    })
+
     it('should validate update data', async () => {
       mockAuth$.mockAuthenticatedUser()
       mockCheckDocumentAccess.mockResolvedValue({
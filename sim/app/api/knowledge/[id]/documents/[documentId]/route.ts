@@ -5,7 +5,8 @@ import { getSession } from '@/lib/auth'
 import { createLogger } from '@/lib/logs/console-logger'
 import { db } from '@/db'
 import { document, embedding } from '@/db/schema'
-import { checkDocumentAccess, processDocumentAsync } from '../../../utils'
+import { DocumentTagsSchema } from '../../../tags'
+import { checkDocumentAccess, processDocumentAsync, rechunkDocuments } from '../../../utils'
 
 const logger = createLogger('DocumentByIdAPI')
 
@@ -19,6 +20,8 @@ const UpdateDocumentSchema = z.object({
   processingError: z.string().optional(),
   markFailedDueToTimeout: z.boolean().optional(),
   retryProcessing: z.boolean().optional(),
+  rechunk: z.boolean().optional(),
+  tags: DocumentTagsSchema.optional(),
 })
 
 export async function GET(
@@ -176,6 +179,7 @@ export async function PUT(
           fileUrl: doc.fileUrl,
           fileSize: doc.fileSize,
           mimeType: doc.mimeType,
+          tags: doc.tags,
         }
 
         processDocumentAsync(knowledgeBaseId, documentId, docData, processingOptions).catch(
@@ -194,6 +198,27 @@ export async function PUT(
             message: 'Document retry processing started',
           },
         })
+      } else if (validatedData.rechunk) {
+        // Re-chunk with the knowledge base's current chunking configuration
+        const rechunked = await rechunkDocuments(knowledgeBaseId, [documentId], requestId)
+
+        if (rechunked.length === 0) {
+          return NextResponse.json(
+            { error: 'Document is already being processed' },
+            { status: 400 }
+          )
+        }
+
+        logger.info(`[${requestId}] Document re-chunk initiated: ${documentId}`)
+
+        return NextResponse.json({
+          success: true,
+          data: {
+            documentId,
+            status: 'pending',
+            message: 'Document re-chunking started',
+          },
+        })
       } else {
         // Regular field updates
         if (validatedData.filename !== undefined) updateData.filename = validatedData.filename
@@ -206,10 +231,19 @@ export async function PUT(
           updateData.processingStatus = validatedData.processingStatus
         if (validatedData.processingError !== undefined)
           updateData.processingError = validatedData.processingError
+        if (validatedData.tags !== undefined) updateData.tags = validatedData.tags
       }
 
       await db.update(document).set(updateData).where(eq(document.id, documentId))
 
+      // Chunks carry a copy of the document's tags so that searches can filter on them
+      if (updateData.tags !== undefined) {
+        await db
+          .update(embedding)
+          .set({ tags: updateData.tags, updatedAt: new Date() })
+          .where(eq(embedding.documentId, documentId))
+      }
+
       // Fetch the updated document
       const updatedDocument = await db
         .select()
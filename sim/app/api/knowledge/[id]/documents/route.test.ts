@@ -17,6 +17,7 @@ mockKnowledgeSchemas()
 vi.mock('../../utils', () => ({
   checkKnowledgeBaseAccess: vi.fn(),
   processDocumentAsync: vi.fn(),
+  rechunkDocuments: vi.fn(),
 }))
 
 mockDrizzleOrm()
@@ -39,6 +40,7 @@ describe('Knowledge Base Documents API Route', () => {
 
   const mockCheckKnowledgeBaseAccess = vi.fn()
   const mockProcessDocumentAsync = vi.fn()
+  const mockRechunkDocuments = vi.fn()
 
   const mockDocument = {
     id: 'doc-123',
@@ -70,6 +72,7 @@ describe('Knowledge Base Documents API Route', () => {
     })
     mockCheckKnowledgeBaseAccess.mockClear().mockReset()
     mockProcessDocumentAsync.mockClear().mockReset()
+    mockRechunkDocuments.mockClear().mockReset()
   }
 
   beforeEach(async () => {
@@ -82,6 +85,7 @@ describe('Knowledge Base Documents API Route', () => {
     vi.doMock('../../utils', () => ({
       checkKnowledgeBaseAccess: mockCheckKnowledgeBaseAccess,
       processDocumentAsync: mockProcessDocumentAsync,
+      rechunkDocuments: mockRechunkDocuments,
     }))
 
     vi.stubGlobal('crypto', {
@@ -220,6 +224,37 @@ describe('Knowledge Base Documents API Route', () => {
       expect(mockDbChain.insert).toHaveBeenCalled()
     })
 
+    it('should store the tags of a new document', async () => {
+      mockAuth$.mockAuthenticatedUser()
+      mockCheckKnowledgeBaseAccess.mockResolvedValue({ hasAccess: true })
+      mockDbChain.values.mockResolvedValue(undefined)
+
+      const tags = { product: 'pro', version: 2, publishedAt: '2024-05-01' }
+      const req = createMockRequest('POST', { ...validDocumentData, tags })
+      const { POST } = await import('./route')
+      const response = await POST(req, { params: mockParams })
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.data.tags).toEqual(tags)
+      expect(mockDbChain.values).toHaveBeenCalledWith(expect.objectContaining({ tags }))
+    })
+
+    it('should reject invalid tag names', async () => {
+      mockAuth$.mockAuthenticatedUser()
+      mockCheckKnowledgeBaseAccess.mockResolvedValue({ hasAccess: true })
+
+      const req = createMockRequest('POST', {
+        ...validDocumentData,
+        tags: { 'product"; drop': 'pro' },
+      })
+      const { POST } = await import('./route')
+      const response = await POST(req, { params: mockParams })
+
+      expect(response.status).toBe(400)
+      expect(mockDbChain.insert).not.toHaveBeenCalled()
+    })
+
     it('should validate single document data', async () => {
       mockAuth$.mockAuthenticatedUser()
       mockCheckKnowledgeBaseAccess.mockResolvedValue({ hasAccess: true })
@@ -421,4 +456,48 @@ describe('Knowledge Base Documents API Route', () => {
       expect(data.error).toBe('Failed to create document')
     })
   })
+
+  describe('PATCH /api/knowledge/[id]/documents - Bulk Operations', () => {
+    const mockParams = Promise.resolve({ id: 'kb-123' })
+
+    it('should re-chunk documents with the knowledge base configuration', async () => {
+      mockAuth$.mockAuthenticatedUser()
+      mockCheckKnowledgeBaseAccess.mockResolvedValue({ hasAccess: true })
+      mockDbChain.where.mockResolvedValueOnce([
+        { id: 'doc-1', enabled: true },
+        { id: 'doc-2', enabled: true },
+      ])
+      mockRechunkDocuments.mockResolvedValue(['doc-1'])
+
+      const req = createMockRequest('PATCH', {
+        operation: 'rechunk',
+        documentIds: ['doc-1', 'doc-2'],
+      })
+      const { PATCH } = await import('./route')
+      const response = await PATCH(req, { params: mockParams })
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.success).toBe(true)
+      expect(data.data.successCount).toBe(1)
+      expect(mockRechunkDocuments).toHaveBeenCalledWith(
+        'kb-123',
+        ['doc-1', 'doc-2'],
+        expect.any(String)
+      )
+      expect(mockDbChain.update).not.toHaveBeenCalled()
+    })
+
+    it('should reject unknown bulk operations', async () => {
+      mockAuth$.mockAuthenticatedUser()
+      mockCheckKnowledgeBaseAccess.mockResolvedValue({ hasAccess: true })
+
+      const req = createMockRequest('PATCH', { operation: 'archive', documentIds: ['doc-1'] })
+      const { PATCH } = await import('./route')
+      const response = await PATCH(req, { params: mockParams })
+
+      expect(response.status).toBe(400)
+      expect(mockRechunkDocuments).not.toHaveBeenCalled()
+    })
+  })
 })
@@ -3,10 +3,12 @@ import { and, desc, eq, inArray, isNull } from 'drizzle-orm'
 import { type NextRequest, NextResponse } from 'next/server'
 import { z } from 'zod'
 import { getSession } from '@/lib/auth'
+import { CHUNKING_STRATEGIES, type ChunkingStrategy } from '@/lib/documents/chunking'
 import { createLogger } from '@/lib/logs/console-logger'
 import { db } from '@/db'
 import { document } from '@/db/schema'
-import { checkKnowledgeBaseAccess, processDocumentAsync } from '../../utils'
+import { type DocumentTags, DocumentTagsSchema } from '../../tags'
+import { checkKnowledgeBaseAccess, processDocumentAsync, rechunkDocuments } from '../../utils'
 
 const logger = createLogger('DocumentsAPI')
 
@@ -24,6 +26,7 @@ async function processDocumentsWithConcurrencyControl(
     fileUrl: string
     fileSize: number
     mimeType: string
+    tags?: DocumentTags
   }>,
   knowledgeBaseId: string,
   processingOptions: {
@@ -32,6 +35,7 @@ async function processDocumentsWithConcurrencyControl(
     recipe: string
     lang: string
     chunkOverlap: number
+    strategy?: ChunkingStrategy
   },
   requestId: string
 ): Promise<void> {
@@ -66,6 +70,7 @@ async function processBatchWithConcurrency(
     fileUrl: string
     fileSize: number
     mimeType: string
+    tags?: DocumentTags
   }>,
   knowledgeBaseId: string,
   processingOptions: {
@@ -74,6 +79,7 @@ async function processBatchWithConcurrency(
     recipe: string
     lang: string
     chunkOverlap: number
+    strategy?: ChunkingStrategy
   },
   requestId: string
 ): Promise<void> {
@@ -109,6 +115,7 @@ async function processBatchWithConcurrency(
           fileUrl: doc.fileUrl,
           fileSize: doc.fileSize,
           mimeType: doc.mimeType,
+          tags: doc.tags,
         },
         processingOptions
       )
@@ -153,6 +160,7 @@ const CreateDocumentSchema = z.object({
   fileUrl: z.string().url('File URL must be valid'),
   fileSize: z.number().min(1, 'File size must be greater than 0'),
   mimeType: z.string().min(1, 'MIME type is required'),
+  tags: DocumentTagsSchema.optional(),
 })
 
 const BulkCreateDocumentsSchema = z.object({
@@ -163,12 +171,13 @@ const BulkCreateDocumentsSchema = z.object({
     recipe: z.string(),
     lang: z.string(),
     chunkOverlap: z.number().min(0).max(500),
+    strategy: z.enum(CHUNKING_STRATEGIES).optional(),
   }),
   bulk: z.literal(true),
 })
 
 const BulkUpdateDocumentsSchema = z.object({
-  operation: z.enum(['enable', 'disable', 'delete']),
+  operation: z.enum(['enable', 'disable', 'delete', 'rechunk']),
   documentIds: z
     .array(z.string())
     .min(1, 'At least one document ID is required')
@@ -228,6 +237,7 @@ export async function GET(req: NextRequest, { params }: { params: Promise<{ id:
         processingCompletedAt: document.processingCompletedAt,
         processingError: document.processingError,
         enabled: document.enabled,
+        tags: document.tags,
         uploadedAt: document.uploadedAt,
       })
       .from(document)
@@ -297,6 +307,7 @@ export async function POST(req: NextRequest, { params }: { params: Promise<{ id:
               characterCount: 0,
               processingStatus: 'pending' as const,
               enabled: true,
+              tags: docData.tags ?? {},
               uploadedAt: now,
             }
 
@@ -371,6 +382,7 @@ export async function POST(req: NextRequest, { params }: { params: Promise<{ id:
           tokenCount: 0,
           characterCount: 0,
           enabled: true,
+          tags: validatedData.tags ?? {},
           uploadedAt: now,
         }
 
@@ -482,6 +494,12 @@ export async function PATCH(req: NextRequest, { params }: { params: Promise<{ id
           )
           .returning({ id: document.id, deletedAt: document.deletedAt })
 
+        successCount = updateResult.length
+      } else if (operation === 'rechunk') {
+        // Re-chunk with the knowledge base's current chunking configuration
+        const rechunkedIds = await rechunkDocuments(knowledgeBaseId, documentIds, requestId)
+
+        updateResult = rechunkedIds.map((id) => ({ id }))
         successCount = updateResult.length
       } else {
         // Handle bulk enable/disable
@@ -16,6 +16,14 @@ mockKnowledgeSchemas()
 mockDrizzleOrm()
 mockConsoleLogger()
 
+const mockStartEmbeddingMigration = vi.fn()
+const mockIsEmbeddingMigrationStale = vi.fn()
+
+vi.mock('../utils', () => ({
+  startEmbeddingMigration: (...args: unknown[]) => mockStartEmbeddingMigration(...args),
+  isEmbeddingMigrationStale: (...args: unknown[]) => mockIsEmbeddingMigrationStale(...args),
+}))
+
 describe('Knowledge Base By ID API Route', () => {
   const mockAuth$ = mockAuth()
 
@@ -54,6 +62,7 @@ describe('Knowledge Base By ID API Route', () => {
 
   beforeEach(async () => {
     vi.clearAllMocks()
+    mockIsEmbeddingMigrationStale.mockReturnValue(false)
 
     vi.doMock('@/db', () => ({
       db: mockDbChain,
@@ -226,6 +235,109 @@ describe('Knowledge Base By ID API Route', () => {
       expect(data.details).toBeDefined()
     })
 
+    it('should re-embed the knowledge base when its embedding model changes', async () => {
+      mockAuth$.mockAuthenticatedUser()
+
+      resetMocks()
+
+      mockDbChain.where.mockReturnValueOnce(mockDbChain) // Return this to continue chain
+      mockDbChain.limit.mockResolvedValueOnce([
+        { id: 'kb-123', userId: 'user-123', embeddingModel: 'text-embedding-3-small' },
+      ])
+
+      mockDbChain.where.mockResolvedValueOnce(undefined)
+
+      mockDbChain.where.mockReturnValueOnce(mockDbChain) // Return this to continue chain
+      mockDbChain.limit.mockResolvedValueOnce([mockKnowledgeBase])
+
+      const req = createMockRequest('PUT', { embeddingModel: 'ollama/nomic-embed-text' })
+      const { PUT } = await import('./route')
+      const response = await PUT(req, { params: mockParams })
+
+      expect(response.status).toBe(200)
+      expect(mockStartEmbeddingMigration).toHaveBeenCalledWith(
+        'kb-123',
+        'ollama/nomic-embed-text',
+        expect.any(String)
+      )
+      // The model is switched by the migration once all chunks are re-embedded
+      expect(mockDbChain.set).toHaveBeenCalledWith(
+        expect.not.objectContaining({ embeddingModel: expect.anything() })
+      )
+    })
+
+    it('should not start a second re-embedding while one is running', async () => {
+      mockAuth$.mockAuthenticatedUser()
+
+      resetMocks()
+
+      mockDbChain.where.mockReturnValueOnce(mockDbChain) // Return this to continue chain
+      mockDbChain.limit.mockResolvedValueOnce([
+        {
+          id: 'kb-123',
+          userId: 'user-123',
+          embeddingModel: 'text-embedding-3-small',
+          embeddingMigration: { targetModel: 'ollama/bge-m3', status: 'running' },
+        },
+      ])
+
+      const req = createMockRequest('PUT', { embeddingModel: 'ollama/nomic-embed-text' })
+      const { PUT } = await import('./route')
+      const response = await PUT(req, { params: mockParams })
+
+      expect(response.status).toBe(409)
+      expect(mockStartEmbeddingMigration).not.toHaveBeenCalled()
+    })
+
+    it('should replace a re-embedding that stopped making progress', async () => {
+      mockAuth$.mockAuthenticatedUser()
+      mockIsEmbeddingMigrationStale.mockReturnValue(true)
+
+      resetMocks()
+
+      mockDbChain.where.mockReturnValueOnce(mockDbChain) // Return this to continue chain
+      mockDbChain.limit.mockResolvedValueOnce([
+        {
+          id: 'kb-123',
+          userId: 'user-123',
+          embeddingModel: 'text-embedding-3-small',
+          embeddingMigration: { targetModel: 'ollama/bge-m3', status: 'running' },
+        },
+      ])
+
+      mockDbChain.where.mockResolvedValueOnce(undefined)
+
+      mockDbChain.where.mockReturnValueOnce(mockDbChain) // Return this to continue chain
+      mockDbChain.limit.mockResolvedValueOnce([mockKnowledgeBase])
+
+      const req = createMockRequest('PUT', { embeddingModel: 'ollama/bge-m3' })
+      const { PUT } = await import('./route')
+      const response = await PUT(req, { params: mockParams })
+
+      expect(response.status).toBe(200)
+      expect(mockStartEmbeddingMigration).toHaveBeenCalledWith(
+        'kb-123',
+        'ollama/bge-m3',
+        expect.any(String)
+      )
+    })
+
+    it('should reject unknown embedding models', async () => {
+      mockAuth$.mockAuthenticatedUser()
+
+      resetMocks()
+
+      mockDbChain.where.mockReturnValueOnce(mockDbChain) // Return this to continue chain
+      mockDbChain.limit.mockResolvedValueOnce([{ id: 'kb-123', userId: 'user-123' }])
+
+      const req = createMockRequest('PUT', { embeddingModel: 'unknown-model' })
+      const { PUT } = await import('./route')
+      const response = await PUT(req, { params: mockParams })
+
+      expect(response.status).toBe(400)
+      expect(mockStartEmbeddingMigration).not.toHaveBeenCalled()
+    })
+
     it('should handle database errors during update', async () => {
       mockAuth$.mockAuthenticatedUser()
 
@@ -2,22 +2,29 @@ import { and, eq, isNull } from 'drizzle-orm'
 import { type NextRequest, NextResponse } from 'next/server'
 import { z } from 'zod'
 import { getSession } from '@/lib/auth'
+import { CHUNKING_STRATEGIES } from '@/lib/documents/chunking'
 import { createLogger } from '@/lib/logs/console-logger'
 import { db } from '@/db'
 import { knowledgeBase } from '@/db/schema'
+import { EMBEDDING_MODEL_IDS } from '@/providers/embeddings/models'
+import {
+  type EmbeddingMigration,
+  isEmbeddingMigrationStale,
+  startEmbeddingMigration,
+} from '../utils'
 
 const logger = createLogger('KnowledgeBaseByIdAPI')
 
 const UpdateKnowledgeBaseSchema = z.object({
   name: z.string().min(1, 'Name is required').optional(),
   description: z.string().optional(),
-  embeddingModel: z.literal('text-embedding-3-small').optional(),
-  embeddingDimension: z.literal(1536).optional(),
+  embeddingModel: z.enum(EMBEDDING_MODEL_IDS).optional(),
   chunkingConfig: z
     .object({
       maxSize: z.number(),
       minSize: z.number(),
       overlap: z.number(),
+      strategy: z.enum(CHUNKING_STRATEGIES).optional(),
     })
     .optional(),
 })
@@ -27,6 +34,8 @@ async function checkKnowledgeBaseAccess(knowledgeBaseId: string, userId: string)
     .select({
       id: knowledgeBase.id,
       userId: knowledgeBase.userId,
+      embeddingModel: knowledgeBase.embeddingModel,
+      embeddingMigration: knowledgeBase.embeddingMigration,
     })
     .from(knowledgeBase)
     .where(and(eq(knowledgeBase.id, knowledgeBaseId), isNull(knowledgeBase.deletedAt)))
@@ -131,13 +140,24 @@ export async function PUT(req: NextRequest, { params }: { params: Promise<{ id:
       if (validatedData.description !== undefined)
         updateData.description = validatedData.description
 
-      // Handle embedding model and dimension together to ensure consistency
+      // A new embedding model needs all chunks re-embedded, so the knowledge base switches
+      // to it once the background migration has finished. Failed migrations, and running
+      // ones that stopped making progress, can be started again.
+      const migration = accessCheck.knowledgeBase?.embeddingMigration as EmbeddingMigration | null
+      const currentModel = migration?.targetModel ?? accessCheck.knowledgeBase?.embeddingModel
+      const isStale = migration ? isEmbeddingMigrationStale(migration) : false
       if (
-        validatedData.embeddingModel !== undefined ||
-        validatedData.embeddingDimension !== undefined
+        validatedData.embeddingModel !== undefined &&
+        (validatedData.embeddingModel !== currentModel || migration?.status === 'failed' || isStale)
       ) {
-        updateData.embeddingModel = 'text-embedding-3-small'
-        updateData.embeddingDimension = 1536
+        if (migration?.status === 'running' && !isStale) {
+          return NextResponse.json(
+            { error: 'The knowledge base is already being re-embedded' },
+            { status: 409 }
+          )
+        }
+
+        await startEmbeddingMigration(id, validatedData.embeddingModel, requestId)
       }
 
       if (validatedData.chunkingConfig !== undefined)
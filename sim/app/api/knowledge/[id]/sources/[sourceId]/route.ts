@@ -0,0 +1,165 @@
+import crypto from 'node:crypto'
+import { and, eq, isNull } from 'drizzle-orm'
+import { type NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getSession } from '@/lib/auth'
+import { createLogger } from '@/lib/logs/console-logger'
+import { db } from '@/db'
+import { document, knowledgeBaseSource } from '@/db/schema'
+import { checkKnowledgeBaseAccess } from '../../../utils'
+
+const logger = createLogger('KnowledgeSourceByIdAPI')
+
+const UpdateSourceSchema = z.object({
+  syncIntervalMinutes: z.number().int().min(15).max(10080).optional(),
+  enabled: z.boolean().optional(),
+})
+
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string; sourceId: string }> }
+) {
+  const requestId = crypto.randomUUID().slice(0, 8)
+  const { id: knowledgeBaseId, sourceId } = await params
+
+  try {
+    const session = await getSession()
+    if (!session?.user?.id) {
+      logger.warn(`[${requestId}] Unauthorized knowledge source update attempt`)
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const accessCheck = await checkKnowledgeBaseAccess(knowledgeBaseId, session.user.id)
+
+    if (!accessCheck.hasAccess) {
+      if ('notFound' in accessCheck && accessCheck.notFound) {
+        logger.warn(`[${requestId}] Knowledge base not found: ${knowledgeBaseId}`)
+        return NextResponse.json({ error: 'Knowledge base not found' }, { status: 404 })
+      }
+      logger.warn(
+        `[${requestId}] User ${session.user.id} attempted to update a source of unauthorized knowledge base ${knowledgeBaseId}`
+      )
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await req.json()
+
+    try {
+      const validatedData = UpdateSourceSchema.parse(body)
+
+      const updateData: Partial<typeof knowledgeBaseSource.$inferInsert> = {
+        ...validatedData,
+        updatedAt: new Date(),
+      }
+      // Re-enabled sources and new intervals take effect with the next run of the sync job
+      if (validatedData.enabled || validatedData.syncIntervalMinutes !== undefined) {
+        updateData.nextSyncAt = new Date()
+      }
+
+      const updated = await db
+        .update(knowledgeBaseSource)
+        .set(updateData)
+        .where(
+          and(
+            eq(knowledgeBaseSource.id, sourceId),
+            eq(knowledgeBaseSource.knowledgeBaseId, knowledgeBaseId)
+          )
+        )
+        .returning()
+
+      if (updated.length === 0) {
+        return NextResponse.json({ error: 'Knowledge source not found' }, { status: 404 })
+      }
+
+      logger.info(`[${requestId}] Knowledge source updated: ${sourceId}`)
+
+      return NextResponse.json({
+        success: true,
+        data: updated[0],
+      })
+    } catch (validationError) {
+      if (validationError instanceof z.ZodError) {
+        logger.warn(`[${requestId}] Invalid knowledge source update data`, {
+          errors: validationError.errors,
+        })
+        return NextResponse.json(
+          { error: 'Invalid request data', details: validationError.errors },
+          { status: 400 }
+        )
+      }
+      throw validationError
+    }
+  } catch (error) {
+    logger.error(`[${requestId}] Error updating knowledge source`, error)
+    return NextResponse.json({ error: 'Failed to update knowledge source' }, { status: 500 })
+  }
+}
+
+/**
+ * Unlink a source. The documents synced from it are deleted with it.
+ */
+export async function DELETE(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string; sourceId: string }> }
+) {
+  const requestId = crypto.randomUUID().slice(0, 8)
+  const { id: knowledgeBaseId, sourceId } = await params
+
+  try {
+    const session = await getSession()
+    if (!session?.user?.id) {
+      logger.warn(`[${requestId}] Unauthorized knowledge source delete attempt`)
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const accessCheck = await checkKnowledgeBaseAccess(knowledgeBaseId, session.user.id)
+
+    if (!accessCheck.hasAccess) {
+      if ('notFound' in accessCheck && accessCheck.notFound) {
+        logger.warn(`[${requestId}] Knowledge base not found: ${knowledgeBaseId}`)
+        return NextResponse.json({ error: 'Knowledge base not found' }, { status: 404 })
+      }
+      logger.warn(
+        `[${requestId}] User ${session.user.id} attempted to delete a source of unauthorized knowledge base ${knowledgeBaseId}`
+      )
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const deleted = await db.transaction(async (tx) => {
+      await tx
+        .update(document)
+        .set({ deletedAt: new Date() })
+        .where(
+          and(
+            eq(document.knowledgeBaseId, knowledgeBaseId),
+            eq(document.sourceId, sourceId),
+            isNull(document.deletedAt)
+          )
+        )
+
+      return tx
+        .delete(knowledgeBaseSource)
+        .where(
+          and(
+            eq(knowledgeBaseSource.id, sourceId),
+            eq(knowledgeBaseSource.knowledgeBaseId, knowledgeBaseId)
+          )
+        )
+        .returning({ id: knowledgeBaseSource.id })
+    })
+
+    if (deleted.length === 0) {
+      return NextResponse.json({ error: 'Knowledge source not found' }, { status: 404 })
+    }
+
+    logger.info(`[${requestId}] Knowledge source deleted: ${sourceId}`)
+
+    return NextResponse.json({
+      success: true,
+      data: { message: 'Knowledge source deleted successfully' },
+    })
+  } catch (error) {
+    logger.error(`[${requestId}] Error deleting knowledge source`, error)
+    return NextResponse.json({ error: 'Failed to delete knowledge source' }, { status: 500 })
+  }
+}
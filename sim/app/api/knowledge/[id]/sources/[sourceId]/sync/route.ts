@@ -0,0 +1,77 @@
+import crypto from 'node:crypto'
+import { and, eq } from 'drizzle-orm'
+import { type NextRequest, NextResponse } from 'next/server'
+import { getSession } from '@/lib/auth'
+import { syncKnowledgeSource } from '@/lib/knowledge/sources/sync'
+import { createLogger } from '@/lib/logs/console-logger'
+import { db } from '@/db'
+import { knowledgeBaseSource } from '@/db/schema'
+import { checkKnowledgeBaseAccess } from '../../../../utils'
+
+const logger = createLogger('KnowledgeSourceSyncAPI')
+
+/**
+ * Sync a source now instead of waiting for its next scheduled sync
+ */
+export async function POST(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string; sourceId: string }> }
+) {
+  const requestId = crypto.randomUUID().slice(0, 8)
+  const { id: knowledgeBaseId, sourceId } = await params
+
+  try {
+    const session = await getSession()
+    if (!session?.user?.id) {
+      logger.warn(`[${requestId}] Unauthorized knowledge source sync attempt`)
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const accessCheck = await checkKnowledgeBaseAccess(knowledgeBaseId, session.user.id)
+
+    if (!accessCheck.hasAccess) {
+      if ('notFound' in accessCheck && accessCheck.notFound) {
+        logger.warn(`[${requestId}] Knowledge base not found: ${knowledgeBaseId}`)
+        return NextResponse.json({ error: 'Knowledge base not found' }, { status: 404 })
+      }
+      logger.warn(
+        `[${requestId}] User ${session.user.id} attempted to sync a source of unauthorized knowledge base ${knowledgeBaseId}`
+      )
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const sources = await db
+      .select({ id: knowledgeBaseSource.id, status: knowledgeBaseSource.status })
+      .from(knowledgeBaseSource)
+      .where(
+        and(
+          eq(knowledgeBaseSource.id, sourceId),
+          eq(knowledgeBaseSource.knowledgeBaseId, knowledgeBaseId)
+        )
+      )
+      .limit(1)
+
+    if (sources.length === 0) {
+      return NextResponse.json({ error: 'Knowledge source not found' }, { status: 404 })
+    }
+
+    if (sources[0].status === 'syncing') {
+      return NextResponse.json({ error: 'The source is already syncing' }, { status: 409 })
+    }
+
+    // Syncing a large source takes a while, so it runs in the background
+    syncKnowledgeSource(sourceId, requestId).catch((error: unknown) => {
+      logger.error(`[${requestId}] Manual sync of source ${sourceId} failed:`, error)
+    })
+
+    logger.info(`[${requestId}] Started sync of knowledge source ${sourceId}`)
+
+    return NextResponse.json({
+      success: true,
+      data: { message: 'Sync started' },
+    })
+  } catch (error) {
+    logger.error(`[${requestId}] Error starting knowledge source sync`, error)
+    return NextResponse.json({ error: 'Failed to start sync' }, { status: 500 })
+  }
+}
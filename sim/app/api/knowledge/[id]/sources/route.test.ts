@@ -0,0 +1,149 @@
+/**
+ * Tests for knowledge base sources API route
+ *
+ * @vitest-environment node
+ */
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+  createMockRequest,
+  mockAuth,
+  mockConsoleLogger,
+  mockDrizzleOrm,
+  mockKnowledgeSchemas,
+} from '@/app/api/__test-utils__/utils'
+
+mockKnowledgeSchemas()
+mockDrizzleOrm()
+mockConsoleLogger()
+
+const mockSyncKnowledgeSource = vi.fn()
+
+vi.mock('@/lib/knowledge/sources/sync', () => ({
+  syncKnowledgeSource: (...args: unknown[]) => mockSyncKnowledgeSource(...args),
+}))
+
+describe('Knowledge Base Sources API Route', () => {
+  const mockAuth$ = mockAuth()
+
+  const mockDbChain = {
+    select: vi.fn().mockReturnThis(),
+    from: vi.fn().mockReturnThis(),
+    where: vi.fn().mockReturnThis(),
+    limit: vi.fn().mockReturnThis(),
+    insert: vi.fn().mockReturnThis(),
+    values: vi.fn().mockResolvedValue(undefined),
+  }
+
+  const mockParams = Promise.resolve({ id: 'kb-123' })
+
+  beforeEach(async () => {
+    vi.clearAllMocks()
+    mockSyncKnowledgeSource.mockResolvedValue(null)
+
+    vi.doMock('@/db', () => ({
+      db: mockDbChain,
+    }))
+  })
+
+  afterEach(() => {
+    vi.clearAllMocks()
+  })
+
+  describe('POST /api/knowledge/[id]/sources', () => {
+    it('should link a source and start its first sync', async () => {
+      mockAuth$.mockAuthenticatedUser()
+      mockDbChain.limit
+        .mockResolvedValueOnce([{ id: 'kb-123', userId: 'user-123' }])
+        .mockResolvedValueOnce([{ id: 'credential-1' }])
+
+      const req = createMockRequest('POST', {
+        provider: 'confluence',
+        credentialId: 'credential-1',
+        config: { domain: 'team.atlassian.net', spaceId: '42' },
+      })
+      const { POST } = await import('./route')
+      const response = await POST(req, { params: mockParams })
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.data).toMatchObject({
+        knowledgeBaseId: 'kb-123',
+        provider: 'confluence',
+        config: { domain: 'team.atlassian.net', spaceId: '42' },
+        syncIntervalMinutes: 60,
+      })
+      expect(mockDbChain.values).toHaveBeenCalledWith(
+        expect.objectContaining({ credentialId: 'credential-1', userId: 'user-123' })
+      )
+      expect(mockSyncKnowledgeSource).toHaveBeenCalledWith(data.data.id, expect.any(String))
+    })
+
+    it('should reject credentials the user cannot use for the provider', async () => {
+      mockAuth$.mockAuthenticatedUser()
+      mockDbChain.limit
+        .mockResolvedValueOnce([{ id: 'kb-123', userId: 'user-123' }])
+        .mockResolvedValueOnce([])
+
+      const req = createMockRequest('POST', {
+        provider: 'notion',
+        credentialId: 'someone-elses-credential',
+        config: { databaseId: 'db-1' },
+      })
+      const { POST } = await import('./route')
+      const response = await POST(req, { params: mockParams })
+
+      expect(response.status).toBe(404)
+      expect(mockDbChain.insert).not.toHaveBeenCalled()
+      expect(mockSyncKnowledgeSource).not.toHaveBeenCalled()
+    })
+
+    it('should validate the config of the connector', async () => {
+      mockAuth$.mockAuthenticatedUser()
+      mockDbChain.limit.mockResolvedValueOnce([{ id: 'kb-123', userId: 'user-123' }])
+
+      const req = createMockRequest('POST', {
+        provider: 'google-drive',
+        credentialId: 'credential-1',
+        config: { databaseId: 'db-1' },
+      })
+      const { POST } = await import('./route')
+      const response = await POST(req, { params: mockParams })
+      const data = await response.json()
+
+      expect(response.status).toBe(400)
+      expect(data.error).toBe('Invalid request data')
+      expect(mockDbChain.insert).not.toHaveBeenCalled()
+    })
+
+    it('should link a website without a credential', async () => {
+      mockAuth$.mockAuthenticatedUser()
+      mockDbChain.limit.mockResolvedValueOnce([{ id: 'kb-123', userId: 'user-123' }])
+
+      const req = createMockRequest('POST', {
+        provider: 'website',
+        config: { url: 'https://docs.example.com', excludePaths: ['/blog/*'] },
+      })
+      const { POST } = await import('./route')
+      const response = await POST(req, { params: mockParams })
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.data).toMatchObject({
+        provider: 'website',
+        credentialId: null,
+        config: { url: 'https://docs.example.com', maxDepth: 2, excludePaths: ['/blog/*'] },
+      })
+      expect(mockDbChain.limit).toHaveBeenCalledTimes(1)
+    })
+
+    it('should return unauthorized for unauthenticated user', async () => {
+      mockAuth$.mockUnauthenticated()
+
+      const req = createMockRequest('POST', {})
+      const { POST } = await import('./route')
+      const response = await POST(req, { params: mockParams })
+
+      expect(response.status).toBe(401)
+    })
+  })
+})
@@ -0,0 +1,169 @@
+import crypto from 'node:crypto'
+import { and, desc, eq } from 'drizzle-orm'
+import { type NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getSession } from '@/lib/auth'
+import { getKnowledgeSourceConnector, KNOWLEDGE_SOURCE_PROVIDERS } from '@/lib/knowledge/sources'
+import { syncKnowledgeSource } from '@/lib/knowledge/sources/sync'
+import { createLogger } from '@/lib/logs/console-logger'
+import { db } from '@/db'
+import { account, knowledgeBaseSource } from '@/db/schema'
+import { checkKnowledgeBaseAccess } from '../../utils'
+
+const logger = createLogger('KnowledgeSourcesAPI')
+
+const CreateSourceSchema = z.object({
+  provider: z.enum(KNOWLEDGE_SOURCE_PROVIDERS),
+  credentialId: z.string().min(1).optional(),
+  config: z.record(z.unknown()),
+  syncIntervalMinutes: z.number().int().min(15).max(10080).default(60),
+})
+
+export async function GET(_req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const requestId = crypto.randomUUID().slice(0, 8)
+  const { id: knowledgeBaseId } = await params
+
+  try {
+    const session = await getSession()
+    if (!session?.user?.id) {
+      logger.warn(`[${requestId}] Unauthorized knowledge sources access attempt`)
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const accessCheck = await checkKnowledgeBaseAccess(knowledgeBaseId, session.user.id)
+
+    if (!accessCheck.hasAccess) {
+      if ('notFound' in accessCheck && accessCheck.notFound) {
+        logger.warn(`[${requestId}] Knowledge base not found: ${knowledgeBaseId}`)
+        return NextResponse.json({ error: 'Knowledge base not found' }, { status: 404 })
+      }
+      logger.warn(
+        `[${requestId}] User ${session.user.id} attempted to access unauthorized knowledge base sources ${knowledgeBaseId}`
+      )
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const sources = await db
+      .select()
+      .from(knowledgeBaseSource)
+      .where(eq(knowledgeBaseSource.knowledgeBaseId, knowledgeBaseId))
+      .orderBy(desc(knowledgeBaseSource.createdAt))
+
+    return NextResponse.json({
+      success: true,
+      data: sources,
+    })
+  } catch (error) {
+    logger.error(`[${requestId}] Error fetching knowledge sources`, error)
+    return NextResponse.json({ error: 'Failed to fetch knowledge sources' }, { status: 500 })
+  }
+}
+
+export async function POST(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const requestId = crypto.randomUUID().slice(0, 8)
+  const { id: knowledgeBaseId } = await params
+
+  try {
+    const session = await getSession()
+    if (!session?.user?.id) {
+      logger.warn(`[${requestId}] Unauthorized knowledge source creation attempt`)
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const accessCheck = await checkKnowledgeBaseAccess(knowledgeBaseId, session.user.id)
+
+    if (!accessCheck.hasAccess) {
+      if ('notFound' in accessCheck && accessCheck.notFound) {
+        logger.warn(`[${requestId}] Knowledge base not found: ${knowledgeBaseId}`)
+        return NextResponse.json({ error: 'Knowledge base not found' }, { status: 404 })
+      }
+      logger.warn(
+        `[${requestId}] User ${session.user.id} attempted to add a source to unauthorized knowledge base ${knowledgeBaseId}`
+      )
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await req.json()
+
+    try {
+      const validatedData = CreateSourceSchema.parse(body)
+      const connector = getKnowledgeSourceConnector(validatedData.provider)
+      const config = connector.configSchema.parse(validatedData.config)
+
+      if (connector.requiresCredential) {
+        if (!validatedData.credentialId) {
+          return NextResponse.json(
+            { error: `A ${connector.name} credential is required` },
+            { status: 400 }
+          )
+        }
+
+        // The credential must be the user's own account with the connector's provider
+        const credentials = await db
+          .select({ id: account.id })
+          .from(account)
+          .where(
+            and(
+              eq(account.id, validatedData.credentialId),
+              eq(account.userId, session.user.id),
+              eq(account.providerId, validatedData.provider)
+            )
+          )
+          .limit(1)
+
+        if (credentials.length === 0) {
+          logger.warn(
+            `[${requestId}] Credential ${validatedData.credentialId} cannot be used for ${validatedData.provider}`
+          )
+          return NextResponse.json({ error: 'Credential not found' }, { status: 404 })
+        }
+      }
+
+      const now = new Date()
+      const newSource = {
+        id: crypto.randomUUID(),
+        knowledgeBaseId,
+        userId: session.user.id,
+        provider: validatedData.provider,
+        credentialId: connector.requiresCredential ? validatedData.credentialId : null,
+        config,
+        syncIntervalMinutes: validatedData.syncIntervalMinutes,
+        enabled: true,
+        status: 'idle',
+        nextSyncAt: now,
+        createdAt: now,
+        updatedAt: now,
+      }
+
+      await db.insert(knowledgeBaseSource).values(newSource)
+
+      logger.info(
+        `[${requestId}] Linked ${connector.name} source ${newSource.id} to knowledge base ${knowledgeBaseId}`
+      )
+
+      // Run the first sync right away rather than waiting for the schedule
+      syncKnowledgeSource(newSource.id, requestId).catch((error: unknown) => {
+        logger.error(`[${requestId}] Initial sync of source ${newSource.id} failed:`, error)
+      })
+
+      return NextResponse.json({
+        success: true,
+        data: newSource,
+      })
+    } catch (validationError) {
+      if (validationError instanceof z.ZodError) {
+        logger.warn(`[${requestId}] Invalid knowledge source data`, {
+          errors: validationError.errors,
+        })
+        return NextResponse.json(
+          { error: 'Invalid request data', details: validationError.errors },
+          { status: 400 }
+        )
+      }
+      throw validationError
+    }
+  } catch (error) {
+    logger.error(`[${requestId}] Error creating knowledge source`, error)
+    return NextResponse.json({ error: 'Failed to create knowledge source' }, { status: 500 })
+  }
+}
@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server'
+import { env } from '@/lib/env'
+import { createLogger } from '@/lib/logs/console-logger'
+import { resumeStaleEmbeddingMigrations } from '../../utils'
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+export const maxDuration = 300 // Allow up to 5 minutes for re-embedding chunks
+
+const logger = createLogger('EmbeddingMigrationWorker')
+
+/**
+ * Resumes embedding migrations that stopped making progress, e.g. because the server
+ * restarted. A migration that outlasts this invocation is resumed by a later one.
+ */
+export async function GET(request: Request) {
+  const requestId = crypto.randomUUID().slice(0, 8)
+
+  try {
+    const authHeader = request.headers.get('authorization')
+
+    if (!env.CRON_SECRET) {
+      return new NextResponse('Configuration error: Cron secret is not set', { status: 500 })
+    }
+
+    if (!authHeader || authHeader !== `Bearer ${env.CRON_SECRET}`) {
+      logger.warn('Unauthorized access attempt to embedding migration worker endpoint')
+      return new NextResponse('Unauthorized', { status: 401 })
+    }
+
+    const resumedMigrations = await resumeStaleEmbeddingMigrations(requestId)
+    logger.info(`[${requestId}] Resumed ${resumedMigrations} embedding migrations`)
+
+    return NextResponse.json({ message: 'Stale embedding migrations resumed', resumedMigrations })
+  } catch (error: any) {
+    logger.error(`[${requestId}] Error resuming embedding migrations`, error)
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+}
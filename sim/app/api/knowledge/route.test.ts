@@ -201,6 +201,7 @@ describe('Knowledge Base API Route', () => {
         maxSize: 1024,
         minSize: 100,
         overlap: 200,
+        strategy: 'recursive',
       })
     })
 
@@ -2,9 +2,15 @@ import { and, count, eq, isNull } from 'drizzle-orm'
 import { type NextRequest, NextResponse } from 'next/server'
 import { z } from 'zod'
 import { getSession } from '@/lib/auth'
+import { CHUNKING_STRATEGIES } from '@/lib/documents/chunking'
 import { createLogger } from '@/lib/logs/console-logger'
 import { db } from '@/db'
 import { document, knowledgeBase } from '@/db/schema'
+import {
+  DEFAULT_EMBEDDING_MODEL,
+  EMBEDDING_MODEL_IDS,
+  getEmbeddingModel,
+} from '@/providers/embeddings/models'
 
 const logger = createLogger('KnowledgeBaseAPI')
 
@@ -13,18 +19,19 @@ const CreateKnowledgeBaseSchema = z.object({
   name: z.string().min(1, 'Name is required'),
   description: z.string().optional(),
   workspaceId: z.string().optional(),
-  embeddingModel: z.literal('text-embedding-3-small').default('text-embedding-3-small'),
-  embeddingDimension: z.literal(1536).default(1536),
+  embeddingModel: z.enum(EMBEDDING_MODEL_IDS).default(DEFAULT_EMBEDDING_MODEL),
   chunkingConfig: z
     .object({
       maxSize: z.number().min(100).max(4000).default(1024),
       minSize: z.number().min(50).max(2000).default(100),
       overlap: z.number().min(0).max(500).default(200),
+      strategy: z.enum(CHUNKING_STRATEGIES).default('recursive'),
     })
     .default({
       maxSize: 1024,
       minSize: 100,
       overlap: 200,
+      strategy: 'recursive',
     })
     .refine((data) => data.minSize < data.maxSize, {
       message: 'Min chunk size must be less than max chunk size',
@@ -107,11 +114,12 @@ export async function POST(req: NextRequest) {
         description: validatedData.description || null,
         tokenCount: 0,
         embeddingModel: validatedData.embeddingModel,
-        embeddingDimension: validatedData.embeddingDimension,
+        embeddingDimension: getEmbeddingModel(validatedData.embeddingModel).dimensions,
         chunkingConfig: validatedData.chunkingConfig || {
           maxSize: 1024,
           minSize: 100,
           overlap: 200,
+          strategy: 'recursive',
         },
         docCount: 0,
         createdAt: now,
@@ -15,6 +15,7 @@ vi.mock('drizzle-orm', () => ({
   eq: vi.fn().mockImplementation((a, b) => ({ eq: [a, b] })),
   inArray: vi.fn().mockImplementation((field, values) => ({ inArray: [field, values] })),
   isNull: vi.fn().mockImplementation((arg) => ({ isNull: arg })),
+  or: vi.fn().mockImplementation((...args) => ({ or: args })),
   sql: vi.fn().mockImplementation((strings, ...values) => ({
     sql: strings,
     values,
@@ -108,6 +109,8 @@ describe('Knowledge Search API Route', () => {
         id: 'kb-123',
         userId: 'user-123',
         name: 'Test KB',
+        embeddingModel: 'text-embedding-3-small',
+        embeddingMigration: null,
         deletedAt: null,
       },
     ]
@@ -149,7 +152,14 @@ describe('Knowledge Search API Route', () => {
 
       const multiKbs = [
         ...mockKnowledgeBases,
-        { id: 'kb-456', userId: 'user-123', name: 'Test KB 2', deletedAt: null },
+        {
+          id: 'kb-456',
+          userId: 'user-123',
+          name: 'Test KB 2',
+          embeddingModel: 'text-embedding-3-small',
+          embeddingMigration: null,
+          deletedAt: null,
+        },
       ]
 
       mockGetUserId.mockResolvedValue('user-123')
@@ -314,6 +324,137 @@ describe('Knowledge Search API Route', () => {
       expect(data.data.topK).toBe(10) // Default value
     })
 
+    it('should fuse keyword and vector results in hybrid mode', async () => {
+      mockGetUserId.mockResolvedValue('user-123')
+      mockDbChain.where.mockResolvedValueOnce(mockKnowledgeBases)
+      // Vector results, then keyword results that rank chunk-2 first
+      mockDbChain.limit.mockResolvedValueOnce(mockSearchResults)
+      mockDbChain.limit.mockResolvedValueOnce([
+        { ...mockSearchResults[1], rank: 0.9 },
+        {
+          id: 'chunk-3',
+          content: 'Error ERR-4021 means the license expired',
+          documentId: 'doc-3',
+          chunkIndex: 0,
+          metadata: {},
+          distance: 0.7,
+          rank: 0.5,
+        },
+      ])
+
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: () => Promise.resolve({ data: [{ embedding: mockEmbedding }] }),
+      })
+
+      const req = createMockRequest('POST', { ...validSearchData, searchMode: 'hybrid' })
+      const { POST } = await import('./route')
+      const response = await POST(req)
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.data.searchMode).toBe('hybrid')
+      expect(data.data.results.map((result: any) => result.id)).toEqual([
+        'chunk-2',
+        'chunk-1',
+        'chunk-3',
+      ])
+      expect(data.data.results[0].score).toBeCloseTo(1 / 62 + 1 / 61)
+      expect(data.data.results[2].similarity).toBeCloseTo(0.3)
+      expect(mockDbChain.limit).toHaveBeenCalledWith(30)
+    })
+
+    it('should search the chunks of both models while a knowledge base is re-embedded', async () => {
+      mockGetUserId.mockResolvedValue('user-123')
+      mockDbChain.where.mockResolvedValueOnce([
+        {
+          ...mockKnowledgeBases[0],
+          embeddingMigration: { targetModel: 'ollama/nomic-embed-text', status: 'running' },
+        },
+      ])
+      mockDbChain.limit.mockResolvedValueOnce([mockSearchResults[0]])
+      mockDbChain.limit.mockResolvedValueOnce([mockSearchResults[1]])
+
+      mockFetch.mockImplementation((url: string) =>
+        Promise.resolve({
+          ok: true,
+          json: () =>
+            Promise.resolve(
+              String(url).includes('/api/embed')
+                ? { embeddings: [[0.5, 0.4, 0.3]] }
+                : { data: [{ embedding: mockEmbedding, index: 0 }] }
+            ),
+        })
+      )
+
+      const req = createMockRequest('POST', validSearchData)
+      const { POST } = await import('./route')
+      const response = await POST(req)
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(mockFetch).toHaveBeenCalledTimes(2)
+      expect(data.data.results.map((result: any) => result.id)).toEqual(['chunk-1', 'chunk-2'])
+    })
+
+    it('should search by keywords without generating an embedding in keyword mode', async () => {
+      mockGetUserId.mockResolvedValue('user-123')
+      mockDbChain.where.mockResolvedValueOnce(mockKnowledgeBases)
+      mockDbChain.limit.mockResolvedValueOnce([
+        { ...mockSearchResults[0], distance: null, rank: 0.4 },
+      ])
+
+      const req = createMockRequest('POST', { ...validSearchData, searchMode: 'keyword' })
+      const { POST } = await import('./route')
+      const response = await POST(req)
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.data.results).toHaveLength(1)
+      expect(data.data.results[0].similarity).toBeNull()
+      expect(mockFetch).not.toHaveBeenCalled()
+    })
+
+    it('should restrict results to the requested document tags', async () => {
+      mockGetUserId.mockResolvedValue('user-123')
+      mockDbChain.where.mockResolvedValueOnce(mockKnowledgeBases)
+      mockDbChain.limit.mockResolvedValueOnce([
+        { ...mockSearchResults[0], tags: { product: 'pro' } },
+      ])
+
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: () => Promise.resolve({ data: [{ embedding: mockEmbedding }] }),
+      })
+
+      const req = createMockRequest('POST', { ...validSearchData, filters: { product: 'pro' } })
+      const { POST } = await import('./route')
+      const response = await POST(req)
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.data.results[0].tags).toEqual({ product: 'pro' })
+      const searchConditions = mockDbChain.where.mock.calls[1][0].and
+      expect(searchConditions).toContainEqual(
+        expect.objectContaining({ values: ['tags', '{"product":"pro"}'] })
+      )
+    })
+
+    it('should reject invalid tag filters', async () => {
+      mockGetUserId.mockResolvedValue('user-123')
+
+      const req = createMockRequest('POST', {
+        ...validSearchData,
+        filters: { product: { contains: 'pro' } },
+      })
+      const { POST } = await import('./route')
+      const response = await POST(req)
+      const data = await response.json()
+
+      expect(response.status).toBe(400)
+      expect(data.error).toBe('Invalid request data')
+    })
+
     it('should handle OpenAI API errors', async () => {
       mockGetUserId.mockResolvedValue('user-123')
       mockDbChain.limit.mockResolvedValueOnce(mockKnowledgeBases)
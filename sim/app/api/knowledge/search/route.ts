@@ -1,25 +1,16 @@
-import { and, eq, inArray, isNull, sql } from 'drizzle-orm'
+import { and, eq, inArray, isNull, type SQL, sql } from 'drizzle-orm'
 import { type NextRequest, NextResponse } from 'next/server'
 import { z } from 'zod'
-import { retryWithExponentialBackoff } from '@/lib/documents/utils'
-import { env } from '@/lib/env'
 import { createLogger } from '@/lib/logs/console-logger'
 import { getUserId } from '@/app/api/auth/oauth/utils'
 import { db } from '@/db'
 import { embedding, knowledgeBase } from '@/db/schema'
+import { generateEmbeddings } from '@/providers/embeddings'
+import type { EmbeddingMigration } from '../utils'
+import { buildTagFilterConditions, fuseRankings, rerankResults, TagFiltersSchema } from './utils'
 
 const logger = createLogger('VectorSearchAPI')
 
-class APIError extends Error {
-  public status: number
-
-  constructor(message: string, status: number) {
-    super(message)
-    this.name = 'APIError'
-    this.status = status
-  }
-}
-
 const VectorSearchSchema = z.object({
   knowledgeBaseIds: z.union([
     z.string().min(1, 'Knowledge base ID is required'),
@@ -27,56 +18,19 @@ const VectorSearchSchema = z.object({
   ]),
   query: z.string().min(1, 'Search query is required'),
   topK: z.number().min(1).max(100).default(10),
+  searchMode: z.enum(['vector', 'keyword', 'hybrid']).default('vector'),
+  rerank: z.boolean().default(false),
+  filters: TagFiltersSchema.optional(),
 })
 
-async function generateSearchEmbedding(query: string): Promise<number[]> {
-  const openaiApiKey = env.OPENAI_API_KEY
-  if (!openaiApiKey) {
-    throw new Error('OPENAI_API_KEY not configured')
-  }
+// Candidates fetched per ranking when results are fused or reranked, relative to topK
+const CANDIDATE_MULTIPLIER = 3
+const MAX_CANDIDATES = 100
 
+async function generateSearchEmbedding(query: string, embeddingModel: string): Promise<number[]> {
   try {
-    const embedding = await retryWithExponentialBackoff(
-      async () => {
-        const response = await fetch('https://api.openai.com/v1/embeddings', {
-          method: 'POST',
-          headers: {
-            Authorization: `Bearer ${openaiApiKey}`,
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            input: query,
-            model: 'text-embedding-3-small',
-            encoding_format: 'float',
-          }),
-        })
-
-        if (!response.ok) {
-          const errorText = await response.text()
-          const error = new APIError(
-            `OpenAI API error: ${response.status} ${response.statusText} - ${errorText}`,
-            response.status
-          )
-          throw error
-        }
-
-        const data = await response.json()
-
-        if (!data.data || !Array.isArray(data.data) || data.data.length === 0) {
-          throw new Error('Invalid response format from OpenAI embeddings API')
-        }
-
-        return data.data[0].embedding
-      },
-      {
-        maxRetries: 5,
-        initialDelayMs: 1000,
-        maxDelayMs: 30000,
-        backoffMultiplier: 2,
-      }
-    )
-
-    return embedding
+    const [queryEmbedding] = await generateEmbeddings([query], embeddingModel)
+    return queryEmbedding
   } catch (error) {
     logger.error('Failed to generate search embedding:', error)
     throw new Error(
@@ -85,6 +39,26 @@ async function generateSearchEmbedding(query: string): Promise<number[]> {
   }
 }
 
+/**
+ * The embedding models whose chunks a search has to cover. A knowledge base that is being
+ * re-embedded has chunks of both its current model and the model it is migrating to.
+ */
+function getSearchEmbeddingModels(
+  knowledgeBases: Array<{ id: string; embeddingModel: string; embeddingMigration: unknown }>
+): Map<string, string[]> {
+  const models = new Map<string, string[]>()
+
+  for (const kb of knowledgeBases) {
+    const migration = kb.embeddingMigration as EmbeddingMigration | null
+    const kbModels = new Set([kb.embeddingModel, migration?.targetModel].filter(Boolean))
+    for (const model of kbModels as Set<string>) {
+      models.set(model, [...(models.get(model) ?? []), kb.id])
+    }
+  }
+
+  return models
+}
+
 function getQueryStrategy(kbCount: number, topK: number) {
   const useParallel = kbCount > 4 || (kbCount > 2 && topK > 50)
   const distanceThreshold = kbCount > 3 ? 0.8 : 1.0
@@ -102,7 +76,8 @@ async function executeParallelQueries(
   knowledgeBaseIds: string[],
   queryVector: string,
   topK: number,
-  distanceThreshold: number
+  distanceThreshold: number,
+  conditions: SQL[]
 ) {
   const parallelLimit = Math.ceil(topK / knowledgeBaseIds.length) + 5
 
@@ -114,6 +89,7 @@ async function executeParallelQueries(
         documentId: embedding.documentId,
         chunkIndex: embedding.chunkIndex,
         metadata: embedding.metadata,
+        tags: embedding.tags,
         distance: sql<number>`${embedding.embedding} <=> ${queryVector}::vector`.as('distance'),
         knowledgeBaseId: embedding.knowledgeBaseId,
       })
@@ -122,7 +98,8 @@ async function executeParallelQueries(
         and(
           eq(embedding.knowledgeBaseId, kbId),
           eq(embedding.enabled, true),
-          sql`${embedding.embedding} <=> ${queryVector}::vector < ${distanceThreshold}`
+          sql`${embedding.embedding} <=> ${queryVector}::vector < ${distanceThreshold}`,
+          ...conditions
         )
       )
       .orderBy(sql`${embedding.embedding} <=> ${queryVector}::vector`)
@@ -139,7 +116,8 @@ async function executeSingleQuery(
   knowledgeBaseIds: string[],
   queryVector: string,
   topK: number,
-  distanceThreshold: number
+  distanceThreshold: number,
+  conditions: SQL[]
 ) {
   return await db
     .select({
@@ -148,6 +126,7 @@ async function executeSingleQuery(
       documentId: embedding.documentId,
       chunkIndex: embedding.chunkIndex,
       metadata: embedding.metadata,
+      tags: embedding.tags,
       distance: sql<number>`${embedding.embedding} <=> ${queryVector}::vector`.as('distance'),
     })
     .from(embedding)
@@ -155,7 +134,8 @@ async function executeSingleQuery(
       and(
         inArray(embedding.knowledgeBaseId, knowledgeBaseIds),
         eq(embedding.enabled, true),
-        sql`${embedding.embedding} <=> ${queryVector}::vector < ${distanceThreshold}`
+        sql`${embedding.embedding} <=> ${queryVector}::vector < ${distanceThreshold}`,
+        ...conditions
       )
     )
     .orderBy(sql`${embedding.embedding} <=> ${queryVector}::vector`)
@@ -166,6 +146,78 @@ function mergeAndRankResults(results: any[], topK: number) {
   return results.sort((a, b) => a.distance - b.distance).slice(0, topK)
 }
 
+/**
+ * Full-text search over the chunks' tsvector column. The query's terms are OR-ed so that
+ * chunks matching only some of them are still found, and ts_rank_cd with length
+ * normalization orders them by how densely they contain the terms.
+ */
+async function executeKeywordQuery(
+  knowledgeBaseIds: string[],
+  query: string,
+  queryVector: string | null,
+  limit: number,
+  conditions: SQL[]
+) {
+  const tsQuery = sql`replace(plainto_tsquery('english', ${query})::text, '&', '|')::tsquery`
+  const rank = sql`ts_rank_cd(${embedding.contentTsv}, ${tsQuery}, 1)`
+
+  return await db
+    .select({
+      id: embedding.id,
+      content: embedding.content,
+      documentId: embedding.documentId,
+      chunkIndex: embedding.chunkIndex,
+      metadata: embedding.metadata,
+      tags: embedding.tags,
+      distance: queryVector
+        ? sql<number>`${embedding.embedding} <=> ${queryVector}::vector`.as('distance')
+        : sql<null>`null`.as('distance'),
+      rank: sql<number>`${rank}`.as('rank'),
+    })
+    .from(embedding)
+    .where(
+      and(
+        inArray(embedding.knowledgeBaseId, knowledgeBaseIds),
+        eq(embedding.enabled, true),
+        sql`${embedding.contentTsv} @@ ${tsQuery}`,
+        ...conditions
+      )
+    )
+    .orderBy(sql`${rank} desc`)
+    .limit(limit)
+}
+
+async function executeVectorQuery(
+  knowledgeBaseIds: string[],
+  queryVector: string,
+  limit: number,
+  conditions: SQL[]
+) {
+  // Adaptive query strategy based on KB count and parameters
+  const strategy = getQueryStrategy(knowledgeBaseIds.length, limit)
+
+  if (strategy.useParallel) {
+    // Execute parallel queries for better performance with many KBs
+    const parallelResults = await executeParallelQueries(
+      knowledgeBaseIds,
+      queryVector,
+      limit,
+      strategy.distanceThreshold,
+      conditions
+    )
+    return mergeAndRankResults(parallelResults, limit)
+  }
+
+  // Execute single optimized query for fewer KBs
+  return await executeSingleQuery(
+    knowledgeBaseIds,
+    queryVector,
+    limit,
+    strategy.distanceThreshold,
+    conditions
+  )
+}
+
 export async function POST(request: NextRequest) {
   const requestId = crypto.randomUUID().slice(0, 8)
 
@@ -188,19 +240,19 @@ export async function POST(request: NextRequest) {
         ? validatedData.knowledgeBaseIds
         : [validatedData.knowledgeBaseIds]
 
-      const [kb, queryEmbedding] = await Promise.all([
-        db
-          .select()
-          .from(knowledgeBase)
-          .where(
-            and(
-              inArray(knowledgeBase.id, knowledgeBaseIds),
-              eq(knowledgeBase.userId, userId),
-              isNull(knowledgeBase.deletedAt)
-            )
-          ),
-        generateSearchEmbedding(validatedData.query),
-      ])
+      const { searchMode, topK } = validatedData
+      const usesVectors = searchMode !== 'keyword'
+
+      const kb = await db
+        .select()
+        .from(knowledgeBase)
+        .where(
+          and(
+            inArray(knowledgeBase.id, knowledgeBaseIds),
+            eq(knowledgeBase.userId, userId),
+            isNull(knowledgeBase.deletedAt)
+          )
+        )
 
       if (kb.length === 0) {
         return NextResponse.json(
@@ -219,30 +271,52 @@ export async function POST(request: NextRequest) {
         )
       }
 
-      // Adaptive query strategy based on KB count and parameters
-      const strategy = getQueryStrategy(foundKbIds.length, validatedData.topK)
-      const queryVector = JSON.stringify(queryEmbedding)
-
-      let results: any[]
+      // Query vectors are only comparable with chunks embedded by the same model
+      const kbEmbeddingModels = getSearchEmbeddingModels(kb)
+      const embeddingModels = usesVectors ? kbEmbeddingModels : new Map()
+      const queryVectors = await Promise.all(
+        Array.from(embeddingModels, async ([model, kbIds]) => ({
+          model,
+          kbIds: kbIds as string[],
+          vector: JSON.stringify(await generateSearchEmbedding(validatedData.query, model)),
+        }))
+      )
+      const candidateCount =
+        searchMode === 'vector' && !validatedData.rerank
+          ? topK
+          : Math.min(MAX_CANDIDATES, topK * CANDIDATE_MULTIPLIER)
+
+      const tagConditions = buildTagFilterConditions(validatedData.filters ?? {})
+
+      const vectorQueries = queryVectors.map(({ model, kbIds, vector }) =>
+        executeVectorQuery(kbIds, vector, candidateCount, [
+          eq(embedding.embeddingModel, model),
+          ...tagConditions,
+        ])
+      )
+      const [keywordResults, ...vectorResults] = await Promise.all([
+        searchMode !== 'vector'
+          ? executeKeywordQuery(
+              foundKbIds,
+              validatedData.query,
+              // Keyword results only get a similarity if all chunks share one model
+              queryVectors.length === 1 ? queryVectors[0].vector : null,
+              candidateCount,
+              tagConditions
+            )
+          : [],
+        ...vectorQueries,
+      ])
 
-      if (strategy.useParallel) {
-        // Execute parallel queries for better performance with many KBs
-        const parallelResults = await executeParallelQueries(
-          foundKbIds,
-          queryVector,
-          validatedData.topK,
-          strategy.distanceThreshold
-        )
-        results = mergeAndRankResults(parallelResults, validatedData.topK)
-      } else {
-        // Execute single optimized query for fewer KBs
-        results = await executeSingleQuery(
-          foundKbIds,
-          queryVector,
-          validatedData.topK,
-          strategy.distanceThreshold
-        )
+      // Vector-only searches of one model keep their order, since fusing a single ranking
+      // does not reorder it
+      let results = fuseRankings([...vectorResults, keywordResults])
+      if (validatedData.rerank) {
+        results = await rerankResults(validatedData.query, results, [
+          ...kbEmbeddingModels.keys(),
+        ])
       }
+      results = results.slice(0, topK)
 
       return NextResponse.json({
         success: true,
@@ -253,12 +327,16 @@ export async function POST(request: NextRequest) {
             documentId: result.documentId,
             chunkIndex: result.chunkIndex,
             metadata: result.metadata,
-            similarity: 1 - result.distance,
+            tags: result.tags,
+            similarity: result.distance != null ? 1 - result.distance : null,
+            score: result.score,
           })),
           query: validatedData.query,
           knowledgeBaseIds: foundKbIds,
           knowledgeBaseId: foundKbIds[0],
-          topK: validatedData.topK,
+          topK,
+          searchMode,
+          reranked: validatedData.rerank,
           totalResults: results.length,
         },
       })
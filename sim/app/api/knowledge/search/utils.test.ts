@@ -0,0 +1,150 @@
+/**
+ * Tests for knowledge search ranking utilities
+ *
+ * @vitest-environment node
+ */
+import { PgDialect } from 'drizzle-orm/pg-core'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { mockConsoleLogger } from '@/app/api/__test-utils__/utils'
+import {
+  buildTagFilterConditions,
+  fuseRankings,
+  RRF_K,
+  rerankResults,
+  TagFiltersSchema,
+} from './utils'
+
+vi.mock('@/lib/env', () => ({
+  env: {
+    OPENAI_API_KEY: 'test-api-key',
+  },
+}))
+
+vi.mock('@/lib/documents/utils', () => ({
+  retryWithExponentialBackoff: vi.fn().mockImplementation((fn) => fn()),
+}))
+
+mockConsoleLogger()
+
+const chunk = (id: string, extra: Record<string, any> = {}) => ({
+  id,
+  content: `Content of ${id}`,
+  documentId: 'doc-1',
+  chunkIndex: 0,
+  metadata: {},
+  ...extra,
+})
+
+describe('Knowledge Search Utils', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  describe('fuseRankings', () => {
+    it('should rank results found by both searches above results found by one', () => {
+      const vector = [chunk('a', { distance: 0.1 }), chunk('b', { distance: 0.2 })]
+      const keyword = [chunk('c', { rank: 0.9 }), chunk('b', { rank: 0.5 })]
+
+      const fused = fuseRankings([vector, keyword])
+
+      expect(fused.map((result) => result.id)).toEqual(['b', 'a', 'c'])
+      expect(fused[0].score).toBeCloseTo(2 / (RRF_K + 2))
+      expect(fused[0]).toEqual(expect.objectContaining({ distance: 0.2, rank: 0.5 }))
+    })
+
+    it('should keep the order of a single ranking', () => {
+      const fused = fuseRankings([[chunk('a'), chunk('b'), chunk('c')], []])
+
+      expect(fused.map((result) => result.id)).toEqual(['a', 'b', 'c'])
+    })
+  })
+
+  describe('buildTagFilterConditions', () => {
+    const toQuery = (filters: Record<string, any>) => {
+      const conditions = buildTagFilterConditions(TagFiltersSchema.parse(filters))
+      return conditions.map((condition) => new PgDialect().sqlToQuery(condition))
+    }
+
+    it('should match exact tag values by containment', () => {
+      const [query] = toQuery({ product: 'pro' })
+
+      expect(query.sql).toBe('"embedding"."tags" @> $1::jsonb')
+      expect(query.params).toEqual(['{"product":"pro"}'])
+    })
+
+    it('should combine value lists and range bounds into one condition', () => {
+      const queries = toQuery({
+        language: { in: ['en', 'de'] },
+        publishedAt: { gte: '2024-01-01' },
+        version: { lt: 3 },
+      })
+
+      expect(queries).toHaveLength(1)
+      expect(queries[0].sql).toContain(
+        '"embedding"."tags" @> $1::jsonb or "embedding"."tags" @> $2::jsonb'
+      )
+      expect(queries[0].sql).toContain('("embedding"."tags" ->> $3) >= $4')
+      expect(queries[0].sql).toContain('jsonb_typeof("embedding"."tags" -> $5) = \'number\'')
+      expect(queries[0].params).toEqual([
+        '{"language":"en"}',
+        '{"language":"de"}',
+        'publishedAt',
+        '2024-01-01',
+        'version',
+        'version',
+        3,
+      ])
+    })
+
+    it('should reject filters without a value or bound', () => {
+      expect(TagFiltersSchema.safeParse({ product: {} }).success).toBe(false)
+      expect(TagFiltersSchema.safeParse({ product: { equals: 'pro' } }).success).toBe(false)
+    })
+  })
+
+  describe('rerankResults', () => {
+    it('should order results by the scores of the reranker', async () => {
+      const mockFetch = vi.fn().mockResolvedValue({
+        ok: true,
+        json: () =>
+          Promise.resolve({
+            choices: [{ message: { content: JSON.stringify({ scores: [2, 9, 5] }) } }],
+          }),
+      })
+      vi.stubGlobal('fetch', mockFetch)
+
+      const results = fuseRankings([[chunk('a'), chunk('b'), chunk('c')]])
+      const reranked = await rerankResults('license error', results, ['text-embedding-3-small'])
+
+      expect(reranked.map((result) => result.id)).toEqual(['b', 'c', 'a'])
+      expect(reranked[0].score).toBe(0.9)
+      expect(mockFetch).toHaveBeenCalledTimes(1)
+    })
+
+    it('should keep the fused order when the reranker fails', async () => {
+      vi.stubGlobal(
+        'fetch',
+        vi.fn().mockResolvedValue({ ok: false, status: 500, statusText: 'Server Error' })
+      )
+
+      const results = fuseRankings([[chunk('a'), chunk('b')]])
+      const reranked = await rerankResults('license error', results, ['text-embedding-3-small'])
+
+      expect(reranked).toBe(results)
+    })
+
+    it('should not send chunks of knowledge bases on other providers to OpenAI', async () => {
+      const mockFetch = vi.fn()
+      vi.stubGlobal('fetch', mockFetch)
+
+      const results = fuseRankings([[chunk('a'), chunk('b')]])
+      const reranked = await rerankResults('license error', results, [
+        'text-embedding-3-small',
+        'ollama/nomic-embed-text',
+      ])
+
+      expect(reranked).toBe(results)
+      expect(mockFetch).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,207 @@
+import { and, or, type SQL, sql } from 'drizzle-orm'
+import { z } from 'zod'
+import { retryWithExponentialBackoff } from '@/lib/documents/utils'
+import { env } from '@/lib/env'
+import { createLogger } from '@/lib/logs/console-logger'
+import { embedding } from '@/db/schema'
+import { getEmbeddingModel } from '@/providers/embeddings'
+import { TagNameSchema, TagValueSchema } from '../tags'
+
+const logger = createLogger('KnowledgeSearchUtils')
+
+export type SearchMode = 'vector' | 'keyword' | 'hybrid'
+
+// Smoothing constant of reciprocal rank fusion, as proposed in the original paper
+export const RRF_K = 60
+
+// Characters of each chunk sent to the reranker
+const RERANK_CONTENT_LENGTH = 1500
+
+const RangeBoundSchema = z.union([z.string(), z.number()])
+
+/**
+ * A filter on one tag: either the value the tag must have, or a list of allowed values
+ * and/or range bounds. String bounds compare lexicographically, which orders ISO dates.
+ */
+export const TagFilterSchema = z.union([
+  TagValueSchema,
+  z
+    .object({
+      in: z.array(TagValueSchema).min(1).max(50).optional(),
+      gt: RangeBoundSchema.optional(),
+      gte: RangeBoundSchema.optional(),
+      lt: RangeBoundSchema.optional(),
+      lte: RangeBoundSchema.optional(),
+    })
+    .strict()
+    .refine((filter) => Object.values(filter).some((value) => value !== undefined), {
+      message: 'A tag filter needs a value, an "in" list or a range bound',
+    }),
+])
+
+export const TagFiltersSchema = z.record(TagNameSchema, TagFilterSchema)
+
+export type TagFilters = z.infer<typeof TagFiltersSchema>
+
+const RANGE_OPERATORS = {
+  gt: (left: SQL, right: unknown) => sql`${left} > ${right}`,
+  gte: (left: SQL, right: unknown) => sql`${left} >= ${right}`,
+  lt: (left: SQL, right: unknown) => sql`${left} < ${right}`,
+  lte: (left: SQL, right: unknown) => sql`${left} <= ${right}`,
+} as const
+
+function tagEquals(name: string, value: unknown): SQL {
+  // Containment queries can use the GIN index on the tags column
+  return sql`${embedding.tags} @> ${JSON.stringify({ [name]: value })}::jsonb`
+}
+
+/**
+ * Turns tag filters into conditions on the chunks' inherited tags. All filters must match.
+ */
+export function buildTagFilterConditions(filters: TagFilters): SQL[] {
+  const conditions: SQL[] = []
+
+  for (const [name, filter] of Object.entries(filters)) {
+    if (typeof filter !== 'object') {
+      conditions.push(tagEquals(name, filter))
+      continue
+    }
+
+    if (filter.in) {
+      const matches = or(...filter.in.map((value) => tagEquals(name, value)))
+      if (matches) conditions.push(matches)
+    }
+
+    for (const operator of Object.keys(RANGE_OPERATORS) as Array<keyof typeof RANGE_OPERATORS>) {
+      const bound = filter[operator]
+      if (bound === undefined) continue
+
+      // Numeric bounds only match numeric tags, so that other values are never cast
+      const tagValue =
+        typeof bound === 'number'
+          ? sql`(case when jsonb_typeof(${embedding.tags} -> ${name}) = 'number' then (${embedding.tags} ->> ${name})::numeric end)`
+          : sql`(${embedding.tags} ->> ${name})`
+      conditions.push(RANGE_OPERATORS[operator](tagValue, bound))
+    }
+  }
+
+  return conditions.length > 1 ? [and(...conditions) as SQL] : conditions
+}
+
+export interface SearchCandidate {
+  id: string
+  content: string
+  documentId: string
+  chunkIndex: number
+  metadata: unknown
+  tags?: unknown
+  distance?: number | null
+  rank?: number | null
+}
+
+export interface RankedSearchResult extends SearchCandidate {
+  score: number
+}
+
+/**
+ * Fuses ranked result lists with reciprocal rank fusion: each list adds 1 / (k + rank)
+ * to the score of the results it contains, so results found by both keyword and vector
+ * search rise to the top without having to normalize their incomparable scores.
+ *
+ * @param rankings - Result lists, each ordered from best to worst
+ * @returns The results of all lists ordered by fused score
+ */
+export function fuseRankings(rankings: SearchCandidate[][], k = RRF_K): RankedSearchResult[] {
+  const fused = new Map<string, RankedSearchResult>()
+
+  for (const ranking of rankings) {
+    ranking.forEach((candidate, index) => {
+      const contribution = 1 / (k + index + 1)
+      const existing = fused.get(candidate.id)
+
+      if (existing) {
+        existing.score += contribution
+        existing.distance ??= candidate.distance
+        existing.rank ??= candidate.rank
+      } else {
+        fused.set(candidate.id, { ...candidate, score: contribution })
+      }
+    })
+  }
+
+  return Array.from(fused.values()).sort((a, b) => b.score - a.score)
+}
+
+/**
+ * Reorders search results by how well they answer the query, as judged by an OpenAI chat
+ * model that reads the query and each chunk together. Scores range from 0 to 1.
+ * Chunks are only sent to OpenAI if their knowledge bases embed them with OpenAI models,
+ * so results of knowledge bases on other providers, e.g. a local Ollama, keep their order.
+ * Falls back to the given order if the model cannot be reached.
+ *
+ * @param embeddingModels - Embedding models of the searched knowledge bases
+ */
+export async function rerankResults(
+  query: string,
+  results: RankedSearchResult[],
+  embeddingModels: string[]
+): Promise<RankedSearchResult[]> {
+  const openaiApiKey = env.OPENAI_API_KEY
+  const usesOpenAI = embeddingModels.every(
+    (model) => getEmbeddingModel(model).provider === 'openai'
+  )
+  if (!openaiApiKey || !usesOpenAI || results.length < 2) {
+    return results
+  }
+
+  const passages = results
+    .map((result, index) => `[${index}] ${result.content.slice(0, RERANK_CONTENT_LENGTH)}`)
+    .join('\n\n')
+
+  try {
+    const scores = await retryWithExponentialBackoff(
+      async () => {
+        const response = await fetch('https://api.openai.com/v1/chat/completions', {
+          method: 'POST',
+          headers: {
+            Authorization: `Bearer ${openaiApiKey}`,
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            model: 'gpt-4o-mini',
+            temperature: 0,
+            response_format: { type: 'json_object' },
+            messages: [
+              {
+                role: 'system',
+                content:
+                  'You rate how relevant passages are to a search query. Respond with JSON of the form {"scores": [number, ...]} holding one score between 0 and 10 per passage, in passage order. Exact matches of codes, identifiers and error messages in the query are highly relevant.',
+              },
+              { role: 'user', content: `Query: ${query}\n\nPassages:\n${passages}` },
+            ],
+          }),
+        })
+
+        if (!response.ok) {
+          throw new Error(`OpenAI API error: ${response.status} ${response.statusText}`)
+        }
+
+        const data = await response.json()
+        const parsed = JSON.parse(data.choices?.[0]?.message?.content ?? '{}')
+        if (!Array.isArray(parsed.scores) || parsed.scores.length !== results.length) {
+          throw new Error('Invalid response format from reranker')
+        }
+
+        return parsed.scores.map((score: unknown) => Number(score) || 0) as number[]
+      },
+      { maxRetries: 2, initialDelayMs: 500, maxDelayMs: 2000, backoffMultiplier: 2 }
+    )
+
+    return results
+      .map((result, index) => ({ ...result, score: Math.min(10, Math.max(0, scores[index])) / 10 }))
+      .sort((a, b) => b.score - a.score)
+  } catch (error) {
+    logger.warn('Reranking failed, keeping the fused order:', error)
+    return results
+  }
+}
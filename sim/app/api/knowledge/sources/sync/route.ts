@@ -0,0 +1,73 @@
+import { nanoid } from 'nanoid'
+import { type NextRequest, NextResponse } from 'next/server'
+import { env } from '@/lib/env'
+import { syncDueKnowledgeSources } from '@/lib/knowledge/sources/sync'
+import { Logger } from '@/lib/logs/console-logger'
+import { acquireLock, releaseLock } from '@/lib/redis'
+
+const logger = new Logger('KnowledgeSourceSyncJobAPI')
+
+export const dynamic = 'force-dynamic'
+export const maxDuration = 300 // Allow up to 5 minutes for syncing sources
+
+const LOCK_KEY = 'knowledge-source-sync-lock'
+const LOCK_TTL_SECONDS = 300 // Same as maxDuration (5 min)
+
+export async function GET(request: NextRequest) {
+  const requestId = nanoid()
+  logger.info(`Knowledge source sync triggered (${requestId})`)
+
+  let lockValue: string | undefined
+
+  try {
+    const authHeader = request.headers.get('authorization')
+    const cronSecret = env.CRON_SECRET
+
+    if (!cronSecret) {
+      return new NextResponse('Configuration error: Cron secret is not set', { status: 500 })
+    }
+
+    if (!authHeader || authHeader !== `Bearer ${cronSecret}`) {
+      logger.warn(`Unauthorized access attempt to knowledge source sync endpoint (${requestId})`)
+      return new NextResponse('Unauthorized', { status: 401 })
+    }
+
+    lockValue = requestId // unique value to identify the holder
+    const locked = await acquireLock(LOCK_KEY, lockValue, LOCK_TTL_SECONDS)
+
+    if (!locked) {
+      return NextResponse.json(
+        {
+          success: true,
+          message: 'Sync already in progress – skipped',
+          requestId,
+          status: 'skip',
+        },
+        { status: 202 }
+      )
+    }
+
+    const results = await syncDueKnowledgeSources(requestId)
+
+    return NextResponse.json({
+      success: true,
+      message: 'Knowledge source sync completed',
+      requestId,
+      status: 'completed',
+      ...results,
+    })
+  } catch (error) {
+    logger.error(`Error during knowledge source sync (${requestId}):`, error)
+    return NextResponse.json(
+      {
+        success: false,
+        message: 'Knowledge source sync failed',
+        error: error instanceof Error ? error.message : 'Unknown error',
+        requestId,
+      },
+      { status: 500 }
+    )
+  } finally {
+    await releaseLock(LOCK_KEY).catch(() => {})
+  }
+}
@@ -0,0 +1,23 @@
+import { z } from 'zod'
+
+export type DocumentTagValue = string | number | boolean
+
+export type DocumentTags = Record<string, DocumentTagValue>
+
+export const MAX_DOCUMENT_TAGS = 20
+
+export const TagNameSchema = z
+  .string()
+  .regex(/^[\w\-. ]{1,64}$/, 'Tag names may only contain letters, digits, spaces, _, - and .')
+
+export const TagValueSchema = z.union([z.string().max(256), z.number(), z.boolean()])
+
+/**
+ * Tags of a document, such as its product line, language or publication date.
+ * Dates should be ISO 8601 strings so that they can be filtered by range.
+ */
+export const DocumentTagsSchema = z
+  .record(TagNameSchema, TagValueSchema)
+  .refine((tags) => Object.keys(tags).length <= MAX_DOCUMENT_TAGS, {
+    message: `A document can have at most ${MAX_DOCUMENT_TAGS} tags`,
+  })
@@ -6,6 +6,7 @@
  * This file contains unit tests for the knowledge base utility functions,
  * including access checks, document processing, and embedding generation.
  */
+import crypto from 'crypto'
 import { beforeEach, describe, expect, it, vi } from 'vitest'
 
 vi.mock('drizzle-orm', () => ({
@@ -81,27 +82,27 @@ vi.stubGlobal(
 )
 
 vi.mock('@/db', () => {
+  const rowsOf = (table: any) => {
+    const tableSymbols = Object.getOwnPropertySymbols(table || {})
+    const baseNameSymbol = tableSymbols.find((s) => s.toString().includes('BaseName'))
+    const tableName = baseNameSymbol ? table[baseNameSymbol] : ''
+
+    if (tableName === 'knowledge_base') return kbRows
+    if (tableName === 'document') return docRows
+    if (tableName === 'embedding') return chunkRows
+    return []
+  }
+
   const selectBuilder = {
     from(table: any) {
       return {
         where() {
           return {
             limit(n: number) {
-              const tableSymbols = Object.getOwnPropertySymbols(table || {})
-              const baseNameSymbol = tableSymbols.find((s) => s.toString().includes('BaseName'))
-              const tableName = baseNameSymbol ? table[baseNameSymbol] : ''
-
-              if (tableName === 'knowledge_base') {
-                return Promise.resolve(kbRows.slice(0, n))
-              }
-              if (tableName === 'document') {
-                return Promise.resolve(docRows.slice(0, n))
-              }
-              if (tableName === 'embedding') {
-                return Promise.resolve(chunkRows.slice(0, n))
-              }
-
-              return Promise.resolve([])
+              return Promise.resolve(rowsOf(table).slice(0, n))
+            },
+            then(resolve: (rows: any[]) => unknown, reject: (error: unknown) => unknown) {
+              return Promise.resolve(rowsOf(table)).then(resolve, reject)
             },
           }
         },
@@ -119,6 +120,12 @@ vi.mock('@/db', () => {
       }),
       transaction: vi.fn(async (fn: any) => {
         await fn({
+          delete: () => ({
+            where: () => {
+              dbOps.order.push('delete')
+              return Promise.resolve()
+            },
+          }),
           insert: (table: any) => ({
             values: (records: any) => {
               dbOps.order.push('insert')
@@ -185,6 +192,55 @@ describe('Knowledge Utils', () => {
 
       expect(dbOps.insertRecords[0].length).toBe(2)
     })
+
+    it('should reuse the embeddings of unchanged chunks when reprocessing', async () => {
+      const unchangedEmbedding = new Array(1536).fill(0.5)
+      chunkRows.push({
+        chunkHash: crypto.createHash('sha256').update('alpha').digest('hex'),
+        embedding: unchangedEmbedding,
+        embeddingModel: 'text-embedding-3-small',
+        tokenCount: 1,
+      })
+      vi.mocked(fetch).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ data: [{ embedding: [0.9], index: 0 }] }),
+      } as Response)
+
+      await processDocumentAsync(
+        'kb1',
+        'doc1',
+        {
+          filename: 'file.txt',
+          fileUrl: 'https://example.com/file.txt',
+          fileSize: 10,
+          mimeType: 'text/plain',
+        },
+        {}
+      )
+
+      const [, init] = vi.mocked(fetch).mock.calls[0]
+      expect(JSON.parse(init?.body as string).input).toEqual(['beta'])
+      expect(dbOps.order).toEqual(['delete', 'insert', 'updateDoc', 'updateKb'])
+      expect(dbOps.insertRecords[0][0].embedding).toBe(unchangedEmbedding)
+      expect(dbOps.insertRecords[0][1].embedding[0]).toBe(0.9)
+    })
+    it('should replace the previous token count of the document in the knowledge base', async () => {
+      docRows.push({ tokenCount: 5 })
+
+      await processDocumentAsync(
+        'kb1',
+        'doc1',
+        {
+          filename: 'file.txt',
+          fileUrl: 'https://example.com/file.txt',
+          fileSize: 10,
+          mimeType: 'text/plain',
+        },
+        {}
+      )
+
+      expect(dbOps.updatePayloads[1].tokenCount.expr[1]).toBe(-2)
+    })
   })
 
   describe('checkKnowledgeBaseAccess', () => {
@@ -1,30 +1,24 @@
 import crypto from 'crypto'
-import { and, eq, isNull, sql } from 'drizzle-orm'
-import { processDocument } from '@/lib/documents/document-processor'
-import { retryWithExponentialBackoff } from '@/lib/documents/utils'
-import { env } from '@/lib/env'
+import { and, eq, inArray, isNull, lt, ne, notInArray, or, sql } from 'drizzle-orm'
+import type { ChunkingStrategy } from '@/lib/documents/chunking'
+import { processDocument, processDocumentContent } from '@/lib/documents/document-processor'
 import { createLogger } from '@/lib/logs/console-logger'
 import { db } from '@/db'
 import { document, embedding, knowledgeBase } from '@/db/schema'
+import {
+  DEFAULT_EMBEDDING_MODEL,
+  generateEmbeddings as generateModelEmbeddings,
+  getEmbeddingModel,
+} from '@/providers/embeddings'
+import type { DocumentTags } from './tags'
 
 const logger = createLogger('KnowledgeUtils')
 
 // Timeout constants (in milliseconds)
 const TIMEOUTS = {
   OVERALL_PROCESSING: 150000, // 150 seconds (2.5 minutes)
-  EMBEDDINGS_API: 60000, // 60 seconds per batch
 } as const
 
-class APIError extends Error {
-  public status: number
-
-  constructor(message: string, status: number) {
-    super(message)
-    this.name = 'APIError'
-    this.status = status
-  }
-}
-
 /**
  * Create a timeout wrapper for async operations
  */
@@ -50,12 +44,26 @@ export interface KnowledgeBaseData {
   tokenCount: number
   embeddingModel: string
   embeddingDimension: number
+  embeddingMigration?: EmbeddingMigration | null
   chunkingConfig: unknown
   deletedAt?: Date | null
   createdAt: Date
   updatedAt: Date
 }
 
+/**
+ * Progress of moving a knowledge base's chunks to another embedding model
+ */
+export interface EmbeddingMigration {
+  targetModel: string
+  status: 'running' | 'failed'
+  processedChunks: number
+  totalChunks: number
+  error?: string
+  startedAt: string
+  heartbeatAt?: string // Last progress of a running migration
+}
+
 export interface DocumentData {
   id: string
   knowledgeBaseId: string
@@ -72,6 +80,7 @@ export interface DocumentData {
   processingError?: string | null
   enabled: boolean
   deletedAt?: Date | null
+  tags: DocumentTags
   uploadedAt: Date
 }
 
@@ -89,23 +98,12 @@ export interface EmbeddingData {
   startOffset: number
   endOffset: number
   metadata: unknown
+  tags: DocumentTags
   enabled: boolean
   createdAt: Date
   updatedAt: Date
 }
 
-interface OpenAIEmbeddingResponse {
-  data: Array<{
-    embedding: number[]
-    index: number
-  }>
-  model: string
-  usage: {
-    prompt_tokens: number
-    total_tokens: number
-  }
-}
-
 export interface KnowledgeBaseAccessResult {
   hasAccess: true
   knowledgeBase: Pick<KnowledgeBaseData, 'id' | 'userId'>
@@ -308,81 +306,14 @@ export async function checkChunkAccess(
 }
 
 /**
- * Generate embeddings using OpenAI API with retry logic for rate limiting
+ * Generate embeddings for chunks with a knowledge base's embedding model
  */
 export async function generateEmbeddings(
   texts: string[],
-  embeddingModel = 'text-embedding-3-small'
+  embeddingModel = DEFAULT_EMBEDDING_MODEL
 ): Promise<number[][]> {
-  const openaiApiKey = env.OPENAI_API_KEY
-  if (!openaiApiKey) {
-    throw new Error('OPENAI_API_KEY not configured')
-  }
-
   try {
-    const batchSize = 100
-    const allEmbeddings: number[][] = []
-
-    for (let i = 0; i < texts.length; i += batchSize) {
-      const batch = texts.slice(i, i + batchSize)
-
-      logger.info(
-        `Generating embeddings for batch ${Math.floor(i / batchSize) + 1} (${batch.length} texts)`
-      )
-
-      const batchEmbeddings = await retryWithExponentialBackoff(
-        async () => {
-          const controller = new AbortController()
-          const timeoutId = setTimeout(() => controller.abort(), TIMEOUTS.EMBEDDINGS_API)
-
-          try {
-            const response = await fetch('https://api.openai.com/v1/embeddings', {
-              method: 'POST',
-              headers: {
-                Authorization: `Bearer ${openaiApiKey}`,
-                'Content-Type': 'application/json',
-              },
-              body: JSON.stringify({
-                input: batch,
-                model: embeddingModel,
-                encoding_format: 'float',
-              }),
-              signal: controller.signal,
-            })
-
-            clearTimeout(timeoutId)
-
-            if (!response.ok) {
-              const errorText = await response.text()
-              const error = new APIError(
-                `OpenAI API error: ${response.status} ${response.statusText} - ${errorText}`,
-                response.status
-              )
-              throw error
-            }
-
-            const data: OpenAIEmbeddingResponse = await response.json()
-            return data.data.map((item) => item.embedding)
-          } catch (error) {
-            clearTimeout(timeoutId)
-            if (error instanceof Error && error.name === 'AbortError') {
-              throw new Error('OpenAI API request timed out')
-            }
-            throw error
-          }
-        },
-        {
-          maxRetries: 5,
-          initialDelayMs: 1000,
-          maxDelayMs: 60000, // Max 1 minute delay for embeddings
-          backoffMultiplier: 2,
-        }
-      )
-
-      allEmbeddings.push(...batchEmbeddings)
-    }
-
-    return allEmbeddings
+    return await generateModelEmbeddings(texts, embeddingModel)
   } catch (error) {
     logger.error('Failed to generate embeddings:', error)
     throw error
@@ -390,7 +321,32 @@ export async function generateEmbeddings(
 }
 
 /**
- * Process a document asynchronously with full error handling
+ * The model that new chunks of a knowledge base are embedded with. While the knowledge
+ * base is being re-embedded, that is the model it is migrating to.
+ */
+export async function getKnowledgeBaseEmbeddingModel(knowledgeBaseId: string): Promise<string> {
+  const kb = await db
+    .select({
+      embeddingModel: knowledgeBase.embeddingModel,
+      embeddingMigration: knowledgeBase.embeddingMigration,
+    })
+    .from(knowledgeBase)
+    .where(eq(knowledgeBase.id, knowledgeBaseId))
+    .limit(1)
+
+  if (kb.length === 0) {
+    return DEFAULT_EMBEDDING_MODEL
+  }
+
+  const migration = kb[0].embeddingMigration as EmbeddingMigration | null
+  return migration?.targetModel ?? kb[0].embeddingModel
+}
+
+/**
+ * Process a document asynchronously with full error handling. Documents whose content is
+ * given, such as pages synced from a source, are chunked without downloading a file.
+ * Chunks the document already has are replaced, and the embeddings of chunks whose
+ * content did not change are reused instead of being generated again.
  */
 export async function processDocumentAsync(
   knowledgeBaseId: string,
@@ -400,6 +356,8 @@ export async function processDocumentAsync(
     fileUrl: string
     fileSize: number
     mimeType: string
+    tags?: DocumentTags
+    content?: string
   },
   processingOptions: {
     chunkSize?: number
@@ -407,6 +365,7 @@ export async function processDocumentAsync(
     recipe?: string
     lang?: string
     chunkOverlap?: number
+    strategy?: ChunkingStrategy
   }
 ): Promise<void> {
   const startTime = Date.now()
@@ -428,13 +387,24 @@ export async function processDocumentAsync(
     // Wrap the entire processing operation with a 5-minute timeout
     await withTimeout(
       (async () => {
-        const processed = await processDocument(
-          docData.fileUrl,
-          docData.filename,
-          docData.mimeType,
-          processingOptions.chunkSize || 1000,
-          processingOptions.chunkOverlap || 200
-        )
+        const processed =
+          docData.content !== undefined
+            ? await processDocumentContent(
+                docData.content,
+                docData.filename,
+                docData.mimeType,
+                processingOptions.chunkSize || 1000,
+                processingOptions.chunkOverlap || 200,
+                processingOptions.strategy
+              )
+            : await processDocument(
+                docData.fileUrl,
+                docData.filename,
+                docData.mimeType,
+                processingOptions.chunkSize || 1000,
+                processingOptions.chunkOverlap || 200,
+                processingOptions.strategy
+              )
 
         const now = new Date()
 
@@ -442,30 +412,84 @@ export async function processDocumentAsync(
           `[${documentId}] Document parsed successfully, generating embeddings for ${processed.chunks.length} chunks`
         )
 
-        const chunkTexts = processed.chunks.map((chunk) => chunk.text)
-        const embeddings = chunkTexts.length > 0 ? await generateEmbeddings(chunkTexts) : []
+        const embeddingModel = await getKnowledgeBaseEmbeddingModel(knowledgeBaseId)
+        const chunkHashes = processed.chunks.map((chunk) =>
+          crypto.createHash('sha256').update(chunk.text).digest('hex')
+        )
+
+        const previousChunks = await db
+          .select({
+            chunkHash: embedding.chunkHash,
+            embedding: embedding.embedding,
+            embeddingModel: embedding.embeddingModel,
+          })
+          .from(embedding)
+          .where(eq(embedding.documentId, documentId))
+
+        // The knowledge base counts the tokens of its documents, so the document's previous
+        // count is what it replaces
+        const [previousDocument] = await db
+          .select({ tokenCount: document.tokenCount })
+          .from(document)
+          .where(eq(document.id, documentId))
+          .limit(1)
+        const previousTokens = previousDocument?.tokenCount ?? 0
+
+        const reusableEmbeddings = new Map<string, number[]>()
+        for (const chunk of previousChunks) {
+          if (chunk.embedding && chunk.embeddingModel === embeddingModel) {
+            reusableEmbeddings.set(chunk.chunkHash, chunk.embedding)
+          }
+        }
+
+        const embeddings = chunkHashes.map((hash) => reusableEmbeddings.get(hash) ?? null)
+        const missing = embeddings.flatMap((vector, index) => (vector ? [] : [index]))
+        if (missing.length > 0) {
+          const generated = await generateEmbeddings(
+            missing.map((index) => processed.chunks[index].text),
+            embeddingModel
+          )
+          missing.forEach((chunkIndex, i) => {
+            embeddings[chunkIndex] = generated[i]
+          })
+        }
+
+        if (previousChunks.length > 0) {
+          logger.info(
+            `[${documentId}] Reused ${processed.chunks.length - missing.length} unchanged chunk embeddings`
+          )
+        }
 
         logger.info(`[${documentId}] Embeddings generated, updating document record`)
 
-        const embeddingRecords = processed.chunks.map((chunk, chunkIndex) => ({
-          id: crypto.randomUUID(),
-          knowledgeBaseId,
-          documentId,
-          chunkIndex,
-          chunkHash: crypto.createHash('sha256').update(chunk.text).digest('hex'),
-          content: chunk.text,
-          contentLength: chunk.text.length,
-          tokenCount: Math.ceil(chunk.text.length / 4),
-          embedding: embeddings[chunkIndex] || null,
-          embeddingModel: 'text-embedding-3-small',
-          startOffset: chunk.metadata.startIndex,
-          endOffset: chunk.metadata.endIndex,
-          metadata: {},
-          createdAt: now,
-          updatedAt: now,
-        }))
+        const embeddingRecords = processed.chunks.map((chunk, chunkIndex) => {
+          // Context such as the heading path or sheet of a chunk is kept as its metadata
+          const { startIndex, endIndex, ...context } = chunk.metadata
+          return {
+            id: crypto.randomUUID(),
+            knowledgeBaseId,
+            documentId,
+            chunkIndex,
+            chunkHash: chunkHashes[chunkIndex],
+            content: chunk.text,
+            contentLength: chunk.text.length,
+            tokenCount: chunk.tokenCount,
+            embedding: embeddings[chunkIndex] || null,
+            embeddingModel,
+            startOffset: startIndex,
+            endOffset: endIndex,
+            metadata: context,
+            tags: docData.tags ?? {},
+            createdAt: now,
+            updatedAt: now,
+          }
+        })
 
         await db.transaction(async (tx) => {
+          if (previousChunks.length > 0) {
+            await tx.delete(embedding).where(eq(embedding.documentId, documentId))
+          }
+
           if (embeddingRecords.length > 0) {
             await tx.insert(embedding).values(embeddingRecords)
           }
@@ -485,7 +509,7 @@ export async function processDocumentAsync(
           await tx
             .update(knowledgeBase)
             .set({
-              tokenCount: sql`${knowledgeBase.tokenCount} + ${processed.metadata.tokenCount}`,
+              tokenCount: sql`${knowledgeBase.tokenCount} + ${processed.metadata.tokenCount - previousTokens}`,
               updatedAt: now,
             })
             .where(eq(knowledgeBase.id, knowledgeBaseId))
@@ -517,3 +541,320 @@ export async function processDocumentAsync(
       .where(eq(document.id, documentId))
   }
 }
+
+/**
+ * Chunking configuration stored on a knowledge base
+ */
+export interface KnowledgeBaseChunkingConfig {
+  maxSize: number
+  minSize: number
+  overlap: number
+  strategy?: ChunkingStrategy
+}
+
+/**
+ * Re-chunk documents with the current chunking configuration of their knowledge base,
+ * e.g. after its strategy changed. The documents are claimed for processing and then
+ * processed one at a time in the background. Their current chunks stay searchable until
+ * the new chunks replace them in a single transaction, and stay in place if processing
+ * fails. Documents that are still waiting for or in processing are skipped, unless their
+ * processing started so long ago that it must have been interrupted.
+ *
+ * @returns The IDs of the documents that are being re-chunked
+ */
+export async function rechunkDocuments(
+  knowledgeBaseId: string,
+  documentIds: string[],
+  requestId: string
+): Promise<string[]> {
+  const kb = await db
+    .select({ chunkingConfig: knowledgeBase.chunkingConfig })
+    .from(knowledgeBase)
+    .where(eq(knowledgeBase.id, knowledgeBaseId))
+    .limit(1)
+
+  if (kb.length === 0) {
+    throw new Error(`Knowledge base not found: ${knowledgeBaseId}`)
+  }
+
+  const chunkingConfig = kb[0].chunkingConfig as KnowledgeBaseChunkingConfig
+  const now = new Date()
+  const staleBefore = new Date(now.getTime() - TIMEOUTS.OVERALL_PROCESSING)
+
+  // Claiming the documents in one update keeps concurrent requests from processing them twice
+  const documents = await db
+    .update(document)
+    .set({
+      processingStatus: 'processing',
+      processingStartedAt: now,
+      processingError: null,
+    })
+    .where(
+      and(
+        eq(document.knowledgeBaseId, knowledgeBaseId),
+        inArray(document.id, documentIds),
+        isNull(document.deletedAt),
+        or(
+          notInArray(document.processingStatus, ['pending', 'processing']),
+          and(
+            eq(document.processingStatus, 'processing'),
+            lt(document.processingStartedAt, staleBefore)
+          )
+        )
+      )
+    )
+    .returning({
+      id: document.id,
+      filename: document.filename,
+      fileUrl: document.fileUrl,
+      fileSize: document.fileSize,
+      mimeType: document.mimeType,
+      tags: document.tags,
+    })
+
+  if (documents.length === 0) {
+    return []
+  }
+
+  const ids = documents.map((doc) => doc.id)
+
+  const processingOptions = {
+    chunkSize: chunkingConfig.maxSize,
+    minCharactersPerChunk: chunkingConfig.minSize,
+    chunkOverlap: chunkingConfig.overlap,
+    strategy: chunkingConfig.strategy,
+    recipe: 'default',
+    lang: 'en',
+  }
+
+  logger.info(
+    `[${requestId}] Re-chunking ${ids.length} documents with the ${chunkingConfig.strategy ?? 'recursive'} strategy`
+  )
+
+  // Process one document at a time so that a large re-chunk does not flood the embeddings API
+  ;(async () => {
+    for (const doc of documents) {
+      await processDocumentAsync(
+        knowledgeBaseId,
+        doc.id,
+        {
+          filename: doc.filename,
+          fileUrl: doc.fileUrl,
+          fileSize: doc.fileSize,
+          mimeType: doc.mimeType,
+          tags: doc.tags as DocumentTags,
+        },
+        processingOptions
+      )
+    }
+  })().catch((error: unknown) => {
+    logger.error(`[${requestId}] Error re-chunking documents:`, error)
+  })
+
+  return ids
+}
+
+// Chunks re-embedded per batch of an embedding migration
+const MIGRATION_BATCH_SIZE = 100
+
+// A running migration without progress for this long was interrupted, e.g. by a restart
+export const MIGRATION_STALE_THRESHOLD_MS = 5 * 60 * 1000
+
+/**
+ * Whether a migration is marked as running although its process stopped making progress
+ */
+export function isEmbeddingMigrationStale(migration: EmbeddingMigration): boolean {
+  const heartbeatAt = Date.parse(migration.heartbeatAt ?? migration.startedAt)
+  return migration.status === 'running' && Date.now() - heartbeatAt > MIGRATION_STALE_THRESHOLD_MS
+}
+
+/**
+ * Start moving a knowledge base to another embedding model in the background. Chunks are
+ * re-embedded in batches and keep being searchable with their current model until then;
+ * the knowledge base switches to the new model once all of its chunks have been moved.
+ * Chunks that already have the target model, e.g. from an interrupted migration, are kept.
+ */
+export async function startEmbeddingMigration(
+  knowledgeBaseId: string,
+  targetModel: string,
+  requestId: string
+): Promise<EmbeddingMigration> {
+  const [{ totalChunks, remainingChunks }] = await db
+    .select({
+      totalChunks: sql<number>`count(*)::int`,
+      remainingChunks: sql<number>`(count(*) filter (where ${embedding.embeddingModel} <> ${targetModel}))::int`,
+    })
+    .from(embedding)
+    .where(eq(embedding.knowledgeBaseId, knowledgeBaseId))
+
+  const now = new Date().toISOString()
+  const migration: EmbeddingMigration = {
+    targetModel,
+    status: 'running',
+    processedChunks: totalChunks - remainingChunks,
+    totalChunks,
+    startedAt: now,
+    heartbeatAt: now,
+  }
+
+  await db
+    .update(knowledgeBase)
+    .set({ embeddingMigration: migration, updatedAt: new Date() })
+    .where(eq(knowledgeBase.id, knowledgeBaseId))
+
+  logger.info(
+    `[${requestId}] Re-embedding ${remainingChunks} chunks of knowledge base ${knowledgeBaseId} with ${targetModel}`
+  )
+
+  runEmbeddingMigration(knowledgeBaseId, migration, requestId).catch((error: unknown) => {
+    logger.error(`[${requestId}] Critical error in embedding migration:`, error)
+  })
+
+  return migration
+}
+
+/**
+ * Resume migrations whose process stopped, e.g. because the server restarted. Each one is
+ * claimed by renewing its heartbeat, so overlapping calls never resume the same migration,
+ * and continues with the chunks that do not have the target model yet.
+ *
+ * @returns The number of migrations that were resumed
+ */
+export async function resumeStaleEmbeddingMigrations(requestId: string): Promise<number> {
+  const staleBefore = new Date(Date.now() - MIGRATION_STALE_THRESHOLD_MS).toISOString()
+  const heartbeatAt = new Date().toISOString()
+
+  const claimed = await db
+    .update(knowledgeBase)
+    .set({
+      embeddingMigration: sql`jsonb_set(${knowledgeBase.embeddingMigration}, '{heartbeatAt}', to_jsonb(${heartbeatAt}::text))`,
+    })
+    .where(
+      and(
+        isNull(knowledgeBase.deletedAt),
+        sql`${knowledgeBase.embeddingMigration} ->> 'status' = 'running'`,
+        sql`coalesce(${knowledgeBase.embeddingMigration} ->> 'heartbeatAt', ${knowledgeBase.embeddingMigration} ->> 'startedAt') < ${staleBefore}`
+      )
+    )
+    .returning({ id: knowledgeBase.id, embeddingMigration: knowledgeBase.embeddingMigration })
+
+  // One at a time, like a single migration, so that they do not flood the embeddings API
+  for (const kb of claimed) {
+    logger.info(`[${requestId}] Resuming the embedding migration of knowledge base ${kb.id}`)
+    await runEmbeddingMigration(kb.id, kb.embeddingMigration as EmbeddingMigration, requestId)
+  }
+
+  return claimed.length
+}
+
+/**
+ * Records the progress of a migration, which doubles as its heartbeat.
+ * Returns false once the migration was replaced by another one, which ends this run.
+ */
+async function saveMigrationProgress(
+  knowledgeBaseId: string,
+  migration: EmbeddingMigration
+): Promise<boolean> {
+  migration.heartbeatAt = new Date().toISOString()
+
+  const updated = await db
+    .update(knowledgeBase)
+    .set({ embeddingMigration: migration })
+    .where(
+      and(
+        eq(knowledgeBase.id, knowledgeBaseId),
+        sql`${knowledgeBase.embeddingMigration} ->> 'startedAt' = ${migration.startedAt}`
+      )
+    )
+    .returning({ id: knowledgeBase.id })
+
+  return updated.length > 0
+}
+
+async function runEmbeddingMigration(
+  knowledgeBaseId: string,
+  migration: EmbeddingMigration,
+  requestId: string
+): Promise<void> {
+  const { targetModel } = migration
+
+  try {
+    while (true) {
+      const chunks = await db
+        .select({ id: embedding.id, content: embedding.content })
+        .from(embedding)
+        .where(
+          and(
+            eq(embedding.knowledgeBaseId, knowledgeBaseId),
+            ne(embedding.embeddingModel, targetModel)
+          )
+        )
+        .limit(MIGRATION_BATCH_SIZE)
+
+      if (chunks.length === 0) break
+
+      const vectors = await generateEmbeddings(
+        chunks.map((chunk) => chunk.content),
+        targetModel
+      )
+      const now = new Date()
+
+      await db.transaction(async (tx) => {
+        for (const [index, chunk] of chunks.entries()) {
+          await tx
+            .update(embedding)
+            .set({ embedding: vectors[index], embeddingModel: targetModel, updatedAt: now })
+            .where(eq(embedding.id, chunk.id))
+        }
+      })
+
+      migration.processedChunks = Math.min(
+        migration.totalChunks,
+        migration.processedChunks + chunks.length
+      )
+      if (!(await saveMigrationProgress(knowledgeBaseId, migration))) {
+        logger.info(
+          `[${requestId}] Embedding migration of knowledge base ${knowledgeBaseId} to ${targetModel} was replaced`
+        )
+        return
+      }
+    }
+
+    await db
+      .update(knowledgeBase)
+      .set({
+        embeddingModel: targetModel,
+        embeddingDimension: getEmbeddingModel(targetModel).dimensions,
+        embeddingMigration: null,
+        updatedAt: new Date(),
+      })
+      .where(
+        and(
+          eq(knowledgeBase.id, knowledgeBaseId),
+          sql`${knowledgeBase.embeddingMigration} ->> 'startedAt' = ${migration.startedAt}`
+        )
+      )
+
+    logger.info(
+      `[${requestId}] Knowledge base ${knowledgeBaseId} re-embedded with ${targetModel} (${migration.processedChunks} chunks)`
+    )
+  } catch (error) {
+    logger.error(`[${requestId}] Failed to re-embed knowledge base ${knowledgeBaseId}:`, error)
+
+    await db
+      .update(knowledgeBase)
+      .set({
+        embeddingMigration: {
+          ...migration,
+          status: 'failed',
+          error: error instanceof Error ? error.message : 'Unknown error',
+        },
+      })
+      .where(
+        and(
+          eq(knowledgeBase.id, knowledgeBaseId),
+          sql`${knowledgeBase.embeddingMigration} ->> 'startedAt' = ${migration.startedAt}`
+        )
+      )
+  }
+}
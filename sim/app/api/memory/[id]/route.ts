@@ -1,6 +1,7 @@
 import { and, eq, isNull } from 'drizzle-orm'
 import { type NextRequest, NextResponse } from 'next/server'
 import { createLogger } from '@/lib/logs/console-logger'
+import { clearDerivedAgentMemory } from '@/lib/memory/agent-memory'
 import { db } from '@/db'
 import { memory } from '@/db/schema'
 
@@ -19,9 +20,10 @@ export async function GET(request: NextRequest, { params }: { params: Promise<{
   try {
     logger.info(`[${requestId}] Processing memory get request for ID: ${id}`)
 
-    // Get workflowId from query parameter (required)
+    // Get workflowId (required) and conversationId from query parameters
     const url = new URL(request.url)
     const workflowId = url.searchParams.get('workflowId')
+    const conversationId = url.searchParams.get('conversationId') || ''
 
     if (!workflowId) {
       logger.warn(`[${requestId}] Missing required parameter: workflowId`)
@@ -40,7 +42,14 @@ export async function GET(request: NextRequest, { params }: { params: Promise<{
     const memories = await db
       .select()
       .from(memory)
-      .where(and(eq(memory.key, id), eq(memory.workflowId, workflowId), isNull(memory.deletedAt)))
+      .where(
+        and(
+          eq(memory.key, id),
+          eq(memory.workflowId, workflowId),
+          eq(memory.conversationId, conversationId),
+          isNull(memory.deletedAt)
+        )
+      )
       .orderBy(memory.createdAt)
       .limit(1)
 
@@ -91,9 +100,10 @@ export async function DELETE(
   try {
     logger.info(`[${requestId}] Processing memory delete request for ID: ${id}`)
 
-    // Get workflowId from query parameter (required)
+    // Get workflowId (required) and conversationId from query parameters
     const url = new URL(request.url)
     const workflowId = url.searchParams.get('workflowId')
+    const conversationId = url.searchParams.get('conversationId') || ''
 
     if (!workflowId) {
       logger.warn(`[${requestId}] Missing required parameter: workflowId`)
@@ -112,7 +122,14 @@ export async function DELETE(
     const existingMemory = await db
       .select({ id: memory.id })
       .from(memory)
-      .where(and(eq(memory.key, id), eq(memory.workflowId, workflowId), isNull(memory.deletedAt)))
+      .where(
+        and(
+          eq(memory.key, id),
+          eq(memory.workflowId, workflowId),
+          eq(memory.conversationId, conversationId),
+          isNull(memory.deletedAt)
+        )
+      )
       .limit(1)
 
     if (existingMemory.length === 0) {
@@ -135,7 +152,16 @@ export async function DELETE(
         deletedAt: new Date(),
         updatedAt: new Date(),
       })
-      .where(and(eq(memory.key, id), eq(memory.workflowId, workflowId)))
+      .where(
+        and(
+          eq(memory.key, id),
+          eq(memory.workflowId, workflowId),
+          eq(memory.conversationId, conversationId)
+        )
+      )
+
+    // The summary and embeddings of an agent conversation go with it
+    await clearDerivedAgentMemory({ workflowId, conversationId, key: id })
 
     logger.info(`[${requestId}] Memory deleted successfully: ${id} for workflow: ${workflowId}`)
     return NextResponse.json(
@@ -170,7 +196,7 @@ export async function PUT(request: NextRequest, { params }: { params: Promise<{
 
     // Parse request body
     const body = await request.json()
-    const { data, workflowId } = body
+    const { data, workflowId, conversationId = '' } = body
 
     if (!data) {
       logger.warn(`[${requestId}] Missing required field: data`)
@@ -202,7 +228,14 @@ export async function PUT(request: NextRequest, { params }: { params: Promise<{
     const existingMemories = await db
       .select()
       .from(memory)
-      .where(and(eq(memory.key, id), eq(memory.workflowId, workflowId), isNull(memory.deletedAt)))
+      .where(
+        and(
+          eq(memory.key, id),
+          eq(memory.workflowId, workflowId),
+          eq(memory.conversationId, conversationId),
+          isNull(memory.deletedAt)
+        )
+      )
       .limit(1)
 
     if (existingMemories.length === 0) {
@@ -256,13 +289,25 @@ export async function PUT(request: NextRequest, { params }: { params: Promise<{
         data,
         updatedAt: new Date(),
       })
-      .where(and(eq(memory.key, id), eq(memory.workflowId, workflowId)))
+      .where(
+        and(
+          eq(memory.key, id),
+          eq(memory.workflowId, workflowId),
+          eq(memory.conversationId, conversationId)
+        )
+      )
 
     // Fetch the updated memory
     const updatedMemories = await db
       .select()
       .from(memory)
-      .where(and(eq(memory.key, id), eq(memory.workflowId, workflowId)))
+      .where(
+        and(
+          eq(memory.key, id),
+          eq(memory.workflowId, workflowId),
+          eq(memory.conversationId, conversationId)
+        )
+      )
       .limit(1)
 
     logger.info(`[${requestId}] Memory updated successfully: ${id} for workflow: ${workflowId}`)
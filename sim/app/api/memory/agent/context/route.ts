@@ -0,0 +1,74 @@
+import { type NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { createLogger } from '@/lib/logs/console-logger'
+import {
+  AGENT_MEMORY_STRATEGIES,
+  DEFAULT_MEMORY_TOKEN_BUDGET,
+  loadAgentMemory,
+} from '@/lib/memory/agent-memory'
+import { validateAgentMemoryAccess } from '../utils'
+
+const logger = createLogger('AgentMemoryContextAPI')
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+const LoadAgentMemorySchema = z.object({
+  workflowId: z.string().min(1, 'workflowId is required'),
+  conversationId: z.string().default(''),
+  key: z.string().min(1, 'Memory key is required'),
+  strategy: z.enum(AGENT_MEMORY_STRATEGIES),
+  tokenBudget: z.number().int().min(100).default(DEFAULT_MEMORY_TOKEN_BUDGET),
+  query: z.string().optional(),
+})
+
+/**
+ * POST handler for loading the memory of an Agent block for a new turn of a conversation.
+ * The new user message is sent as the query, which is too long for a query parameter.
+ */
+export async function POST(request: NextRequest) {
+  const requestId = crypto.randomUUID().slice(0, 8)
+
+  try {
+    const body = await request.json()
+    const { workflowId, conversationId, key, strategy, tokenBudget, query } =
+      LoadAgentMemorySchema.parse(body)
+
+    const access = await validateAgentMemoryAccess(request, workflowId)
+    if (access.error) {
+      return access.error
+    }
+
+    const memoryContext = await loadAgentMemory(
+      { workflowId, conversationId, key },
+      strategy,
+      tokenBudget,
+      query
+    )
+
+    logger.info(
+      `[${requestId}] Loaded ${memoryContext.messages.length} messages of agent memory: ${key}`
+    )
+    return NextResponse.json({ success: true, data: memoryContext }, { status: 200 })
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      logger.warn(`[${requestId}] Invalid agent memory request`, { errors: error.errors })
+      return NextResponse.json(
+        {
+          success: false,
+          error: { message: 'Invalid request data', details: error.errors },
+        },
+        { status: 400 }
+      )
+    }
+
+    logger.error(`[${requestId}] Error loading agent memory`, error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: { message: error.message || 'Failed to load agent memory' },
+      },
+      { status: 500 }
+    )
+  }
+}
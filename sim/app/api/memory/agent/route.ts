@@ -0,0 +1,83 @@
+import { type NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { createLogger } from '@/lib/logs/console-logger'
+import {
+  AGENT_MEMORY_STRATEGIES,
+  DEFAULT_MEMORY_TOKEN_BUDGET,
+  recordAgentMemory,
+} from '@/lib/memory/agent-memory'
+import { validateAgentMemoryAccess } from './utils'
+
+const logger = createLogger('AgentMemoryAPI')
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+const RecordAgentMemorySchema = z.object({
+  workflowId: z.string().min(1, 'workflowId is required'),
+  conversationId: z.string().default(''),
+  key: z.string().min(1, 'Memory key is required'),
+  strategy: z.enum(AGENT_MEMORY_STRATEGIES),
+  tokenBudget: z.number().int().min(100).default(DEFAULT_MEMORY_TOKEN_BUDGET),
+  messages: z
+    .array(
+      z.object({
+        role: z.enum(['user', 'assistant']),
+        content: z.string(),
+      })
+    )
+    .min(1),
+  model: z.string().min(1),
+  apiKey: z.string().optional(),
+  azureEndpoint: z.string().optional(),
+  azureApiVersion: z.string().optional(),
+})
+
+/**
+ * POST handler for recording a turn of a conversation in the memory of an Agent block
+ */
+export async function POST(request: NextRequest) {
+  const requestId = crypto.randomUUID().slice(0, 8)
+
+  try {
+    const body = await request.json()
+    const { workflowId, conversationId, key, strategy, tokenBudget, messages, ...summaryModel } =
+      RecordAgentMemorySchema.parse(body)
+
+    const access = await validateAgentMemoryAccess(request, workflowId)
+    if (access.error) {
+      return access.error
+    }
+
+    await recordAgentMemory(
+      { workflowId, conversationId, key },
+      messages,
+      strategy,
+      tokenBudget,
+      summaryModel
+    )
+
+    logger.info(`[${requestId}] Recorded ${messages.length} messages in agent memory: ${key}`)
+    return NextResponse.json({ success: true, data: { key } }, { status: 200 })
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      logger.warn(`[${requestId}] Invalid agent memory data`, { errors: error.errors })
+      return NextResponse.json(
+        {
+          success: false,
+          error: { message: 'Invalid request data', details: error.errors },
+        },
+        { status: 400 }
+      )
+    }
+
+    logger.error(`[${requestId}] Error recording agent memory`, error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: { message: error.message || 'Failed to record agent memory' },
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,46 @@
+import { type NextRequest, NextResponse } from 'next/server'
+import { getSession } from '@/lib/auth'
+import { getUserEntityPermissions } from '@/lib/permissions/utils'
+import { verifyExecutionToken } from '@/lib/workflows/execution-token'
+import { getWorkflowById } from '@/lib/workflows/utils'
+
+function errorResponse(message: string, status: number): { error: NextResponse } {
+  return { error: NextResponse.json({ success: false, error: { message } }, { status }) }
+}
+
+/**
+ * Checks that a request may use the agent memory of a workflow. Server-side executions
+ * of the workflow send an execution token; runs in the editor need the signed-in user
+ * to own the workflow or have access to its workspace.
+ */
+export async function validateAgentMemoryAccess(
+  request: NextRequest,
+  workflowId: string
+): Promise<{ error?: NextResponse }> {
+  const authHeader = request.headers.get('authorization')
+  if (authHeader?.startsWith('Bearer ')) {
+    const isValid = await verifyExecutionToken(authHeader.slice('Bearer '.length), workflowId)
+    return isValid ? {} : errorResponse('Invalid execution token', 401)
+  }
+
+  const session = await getSession()
+  if (!session?.user?.id) {
+    return errorResponse('Unauthorized', 401)
+  }
+
+  const workflow = await getWorkflowById(workflowId)
+  if (!workflow) {
+    return errorResponse('Workflow not found', 404)
+  }
+
+  if (workflow.userId !== session.user.id) {
+    const permission = workflow.workspaceId
+      ? await getUserEntityPermissions(session.user.id, 'workspace', workflow.workspaceId)
+      : null
+    if (permission === null) {
+      return errorResponse('Access denied', 403)
+    }
+  }
+
+  return {}
+}
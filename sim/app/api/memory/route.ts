@@ -16,6 +16,7 @@ export const runtime = 'nodejs'
  * - type: Filter by memory type
  * - limit: Maximum number of results (default: 50)
  * - workflowId: Filter by workflow ID (required)
+ * - conversationId: Filter by end user or conversation ID
  */
 export async function GET(request: NextRequest) {
   const requestId = crypto.randomUUID().slice(0, 8)
@@ -26,6 +27,7 @@ export async function GET(request: NextRequest) {
     // Extract workflowId from query parameters
     const url = new URL(request.url)
     const workflowId = url.searchParams.get('workflowId')
+    const conversationId = url.searchParams.get('conversationId')
     const searchQuery = url.searchParams.get('query')
     const type = url.searchParams.get('type')
     const limit = Number.parseInt(url.searchParams.get('limit') || '50')
@@ -53,6 +55,11 @@ export async function GET(request: NextRequest) {
     // Filter by workflow ID (required)
     conditions.push(eq(memory.workflowId, workflowId))
 
+    // Filter by conversation if provided, otherwise all memories of the workflow are searched
+    if (conversationId !== null) {
+      conditions.push(eq(memory.conversationId, conversationId))
+    }
+
     // Add type filter if provided
     if (type) {
       conditions.push(eq(memory.type, type))
@@ -99,6 +106,7 @@ export async function GET(request: NextRequest) {
  * - type: Memory type ('agent')
  * - data: Memory content (agent message with role and content)
  * - workflowId: ID of the workflow this memory belongs to
+ * - conversationId: End user or conversation the memory belongs to (optional)
  */
 export async function POST(request: NextRequest) {
   const requestId = crypto.randomUUID().slice(0, 8)
@@ -108,7 +116,7 @@ export async function POST(request: NextRequest) {
 
     // Parse request body
     const body = await request.json()
-    const { key, type, data, workflowId } = body
+    const { key, type, data, workflowId, conversationId = '' } = body
 
     // Validate required fields
     if (!key) {
@@ -196,7 +204,14 @@ export async function POST(request: NextRequest) {
     const existingMemory = await db
       .select()
       .from(memory)
-      .where(and(eq(memory.key, key), eq(memory.workflowId, workflowId), isNull(memory.deletedAt)))
+      .where(
+        and(
+          eq(memory.key, key),
+          eq(memory.workflowId, workflowId),
+          eq(memory.conversationId, conversationId),
+          isNull(memory.deletedAt)
+        )
+      )
       .limit(1)
 
     let statusCode = 201 // Default status code for new memory
@@ -243,7 +258,13 @@ export async function POST(request: NextRequest) {
           data: updatedData,
           updatedAt: new Date(),
         })
-        .where(and(eq(memory.key, key), eq(memory.workflowId, workflowId)))
+        .where(
+          and(
+            eq(memory.key, key),
+            eq(memory.workflowId, workflowId),
+            eq(memory.conversationId, conversationId)
+          )
+        )
 
       statusCode = 200 // Status code for updated memory
     } else {
@@ -251,6 +272,7 @@ export async function POST(request: NextRequest) {
       const newMemory = {
         id: `mem_${crypto.randomUUID().replace(/-/g, '')}`,
         workflowId,
+        conversationId,
         key,
         type,
         data: Array.isArray(data) ? data : [data],
@@ -266,7 +288,14 @@ export async function POST(request: NextRequest) {
     const allMemories = await db
       .select()
       .from(memory)
-      .where(and(eq(memory.key, key), eq(memory.workflowId, workflowId), isNull(memory.deletedAt)))
+      .where(
+        and(
+          eq(memory.key, key),
+          eq(memory.workflowId, workflowId),
+          eq(memory.conversationId, conversationId),
+          isNull(memory.deletedAt)
+        )
+      )
       .orderBy(memory.createdAt)
 
     if (allMemories.length === 0) {
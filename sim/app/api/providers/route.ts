@@ -99,6 +99,7 @@ export async function POST(request: NextRequest) {
       stream,
       messages,
       environmentVariables,
+      abortSignal: request.signal,
     })
 
     const executionTime = Date.now() - startTime
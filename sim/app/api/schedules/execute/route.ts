@@ -14,6 +14,9 @@ import {
 } from '@/lib/schedules/utils'
 import { checkServerSideUsageLimits } from '@/lib/usage-monitor'
 import { decryptSecret } from '@/lib/utils'
+import { pauseExecutionRun } from '@/lib/workflows/approvals'
+import { trackExecutionRun } from '@/lib/workflows/execution-cancellation'
+import { createExecutionRun, finishExecutionRun } from '@/lib/workflows/execution-runs'
 import { updateWorkflowRunCounts } from '@/lib/workflows/utils'
 import { db } from '@/db'
 import { environment, userStats, workflow, workflowSchedule } from '@/db/schema'
@@ -287,14 +290,34 @@ export async function GET(req: NextRequest) {
           logger.debug(`[${requestId}] No workflow variables found for: ${schedule.workflowId}`)
         }
 
-        const executor = new Executor(
-          serializedWorkflow,
-          processedBlockStates,
-          decryptedEnvVars,
+        // Record the run so long scheduled executions can be resumed after a restart
+        await createExecutionRun({
+          id: executionId,
+          workflowId: schedule.workflowId,
+          trigger: 'schedule',
           input,
-          workflowVariables
-        )
-        const result = await executor.execute(schedule.workflowId)
+          workflowState: state,
+        })
+
+        const runTracking = trackExecutionRun(executionId)
+        const executor = new Executor({
+          workflow: serializedWorkflow,
+          currentBlockStates: processedBlockStates,
+          envVarValues: decryptedEnvVars,
+          workflowInput: input,
+          workflowVariables,
+          contextExtensions: {
+            onCheckpoint: runTracking.onCheckpoint,
+            abortSignal: runTracking.abortSignal,
+          },
+        })
+
+        let result: Awaited<ReturnType<typeof executor.execute>>
+        try {
+          result = await executor.execute(schedule.workflowId)
+        } finally {
+          runTracking.release()
+        }
 
         const executionResult =
           'stream' in result && 'execution' in result ? result.execution : result
@@ -304,7 +327,18 @@ export async function GET(req: NextRequest) {
           executionTime: executionResult.metadata?.duration,
         })
 
-        if (executionResult.success) {
+        // A paused run is logged once its approvals are decided and it finishes
+        const isPaused = executionResult.metadata?.isPaused === true
+        if (isPaused) {
+          logger.info(`[${requestId}] Workflow ${schedule.workflowId} paused for approvals`)
+          await pauseExecutionRun(
+            executionId,
+            schedule.workflowId,
+            executionResult.metadata?.pendingApprovals || []
+          )
+        }
+
+        if (executionResult.success && !isPaused) {
           await updateWorkflowRunCounts(schedule.workflowId)
 
           try {
@@ -322,15 +356,18 @@ export async function GET(req: NextRequest) {
           }
         }
 
-        const { traceSpans, totalDuration } = buildTraceSpans(executionResult)
+        if (!isPaused) {
+          const { traceSpans, totalDuration } = buildTraceSpans(executionResult)
 
-        const enrichedResult = {
-          ...executionResult,
-          traceSpans,
-          totalDuration,
-        }
+          const enrichedResult = {
+            ...executionResult,
+            traceSpans,
+            totalDuration,
+          }
 
-        await persistExecutionLogs(schedule.workflowId, executionId, enrichedResult, 'schedule')
+          await persistExecutionLogs(schedule.workflowId, executionId, enrichedResult, 'schedule')
+          await finishExecutionRun(executionId, executionResult)
+        }
 
         if (executionResult.success) {
           logger.info(`[${requestId}] Workflow ${schedule.workflowId} executed successfully`)
@@ -395,6 +432,7 @@ export async function GET(req: NextRequest) {
         )
 
         await persistExecutionError(schedule.workflowId, executionId, error, 'schedule')
+        await finishExecutionRun(executionId, { success: false, error: error.message })
 
         let nextRunAt: Date
         try {
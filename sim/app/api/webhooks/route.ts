@@ -4,6 +4,7 @@ import { type NextRequest, NextResponse } from 'next/server'
 import { getSession } from '@/lib/auth'
 import { env } from '@/lib/env'
 import { createLogger } from '@/lib/logs/console-logger'
+import { isDeploymentSlot } from '@/lib/workflows/deployment-slots'
 import { db } from '@/db'
 import { webhook, workflow } from '@/db/schema'
 import { getOAuthToken } from '../auth/oauth/utils'
@@ -68,7 +69,7 @@ export async function POST(request: NextRequest) {
 
   try {
     const body = await request.json()
-    const { workflowId, path, provider, providerConfig } = body
+    const { workflowId, path, provider, providerConfig, slot = 'prod' } = body
 
     // Validate input
     if (!workflowId || !path) {
@@ -79,6 +80,11 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Missing required fields' }, { status: 400 })
     }
 
+    if (!isDeploymentSlot(slot)) {
+      logger.warn(`[${requestId}] Unknown deployment slot for webhook: ${slot}`)
+      return NextResponse.json({ error: `Unknown deployment slot: ${slot}` }, { status: 400 })
+    }
+
     // Check if the workflow belongs to the user
     const workflows = await db
       .select({ id: workflow.id }) // Select only necessary field
@@ -117,6 +123,7 @@ export async function POST(request: NextRequest) {
         .set({
           provider,
           providerConfig,
+          slot,
           isActive: true,
           updatedAt: new Date(),
         })
@@ -135,6 +142,7 @@ export async function POST(request: NextRequest) {
           path,
           provider,
           providerConfig,
+          slot,
           isActive: true,
           createdAt: new Date(),
           updatedAt: new Date(),
@@ -0,0 +1,138 @@
+import { eq } from 'drizzle-orm'
+import { type NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getSession } from '@/lib/auth'
+import { createLogger } from '@/lib/logs/console-logger'
+import { getUserEntityPermissions } from '@/lib/permissions/utils'
+import { getApproval, recordApprovalDecision } from '@/lib/workflows/approvals'
+import { queueRunAfterApprovals } from '@/lib/workflows/execution-resume'
+import { db } from '@/db'
+import { workflow } from '@/db/schema'
+
+const logger = createLogger('WorkflowApprovalDecisionAPI')
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+const DecisionSchema = z
+  .object({
+    action: z.enum(['approve', 'reject', 'edit']),
+    data: z.any().optional(),
+    comment: z.string().optional(),
+  })
+  .refine((decision) => decision.action !== 'edit' || decision.data !== undefined, {
+    message: 'Edited data is required when the action is "edit"',
+    path: ['data'],
+  })
+
+/**
+ * Records a decision for a pending approval. Once the run has no pending approvals
+ * left, it is queued to resume from its last checkpoint in the run worker.
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string; approvalId: string }> }
+) {
+  const requestId = crypto.randomUUID().slice(0, 8)
+  const { id: workflowId, approvalId } = await params
+
+  try {
+    const session = await getSession()
+    if (!session?.user?.id) {
+      logger.warn(`[${requestId}] Unauthorized approval decision attempt`)
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const workflowRecord = await db
+      .select()
+      .from(workflow)
+      .where(eq(workflow.id, workflowId))
+      .limit(1)
+
+    if (!workflowRecord.length) {
+      logger.warn(`[${requestId}] Workflow not found: ${workflowId}`)
+      return NextResponse.json({ error: 'Workflow not found' }, { status: 404 })
+    }
+
+    const workflowData = workflowRecord[0]
+
+    // Deciding requires ownership or write access to the workspace
+    let isAuthorized = workflowData.userId === session.user.id
+    if (!isAuthorized && workflowData.workspaceId) {
+      const userPermission = await getUserEntityPermissions(
+        session.user.id,
+        'workspace',
+        workflowData.workspaceId
+      )
+      isAuthorized = userPermission === 'write' || userPermission === 'admin'
+    }
+
+    if (!isAuthorized) {
+      logger.warn(
+        `[${requestId}] User ${session.user.id} attempted to decide approval ${approvalId} without permission`
+      )
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const approval = await getApproval(approvalId)
+    if (!approval || approval.workflowId !== workflowId) {
+      return NextResponse.json({ error: 'Approval not found' }, { status: 404 })
+    }
+
+    const body = await req.json()
+
+    try {
+      const { action, data, comment } = DecisionSchema.parse(body)
+
+      const updated = await recordApprovalDecision(approvalId, {
+        action,
+        data,
+        comment,
+        decidedBy: session.user.id,
+        decidedAt: new Date().toISOString(),
+      })
+
+      if (!updated) {
+        const isExpired =
+          approval.status === 'pending' && !!approval.expiresAt && approval.expiresAt <= new Date()
+        return NextResponse.json(
+          { error: isExpired ? 'Approval has expired' : 'Approval has already been decided' },
+          { status: 409 }
+        )
+      }
+
+      logger.info(
+        `[${requestId}] User ${session.user.id} decided approval ${approvalId}: ${action}`
+      )
+
+      // The decision is stored even if queueing fails; the run can still be resumed by hand
+      let status: 'paused' | 'queued' = 'paused'
+      try {
+        if (await queueRunAfterApprovals(approval.runId, requestId)) {
+          status = 'queued'
+        }
+      } catch (error) {
+        logger.error(`[${requestId}] Error queueing run ${approval.runId}`, error)
+      }
+
+      return NextResponse.json({ success: true, approval: updated, runId: approval.runId, status })
+    } catch (validationError) {
+      if (validationError instanceof z.ZodError) {
+        logger.warn(`[${requestId}] Invalid approval decision`, {
+          errors: validationError.errors,
+        })
+        return NextResponse.json(
+          { error: 'Invalid request data', details: validationError.errors },
+          { status: 400 }
+        )
+      }
+      throw validationError
+    }
+  } catch (error: any) {
+    logger.error(`[${requestId}] Error deciding approval ${approvalId}`, error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to decide approval' },
+      { status: 500 }
+    )
+  }
+}
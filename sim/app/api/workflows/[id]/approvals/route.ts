@@ -0,0 +1,66 @@
+import { eq } from 'drizzle-orm'
+import { type NextRequest, NextResponse } from 'next/server'
+import { getSession } from '@/lib/auth'
+import { createLogger } from '@/lib/logs/console-logger'
+import { getUserEntityPermissions } from '@/lib/permissions/utils'
+import { getPendingApprovals } from '@/lib/workflows/approvals'
+import { db } from '@/db'
+import { workflow } from '@/db/schema'
+
+const logger = createLogger('WorkflowApprovalsAPI')
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * Lists the approvals of a workflow that are waiting on a decision.
+ */
+export async function GET(_req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const requestId = crypto.randomUUID().slice(0, 8)
+  const workflowId = (await params).id
+
+  try {
+    const session = await getSession()
+    if (!session?.user?.id) {
+      logger.warn(`[${requestId}] Unauthorized approvals access attempt`)
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const workflowRecord = await db
+      .select()
+      .from(workflow)
+      .where(eq(workflow.id, workflowId))
+      .limit(1)
+
+    if (!workflowRecord.length) {
+      logger.warn(`[${requestId}] Workflow not found: ${workflowId}`)
+      return NextResponse.json({ error: 'Workflow not found' }, { status: 404 })
+    }
+
+    const workflowData = workflowRecord[0]
+
+    // Check authorization - either the user owns the workflow or has workspace permissions
+    let isAuthorized = workflowData.userId === session.user.id
+    if (!isAuthorized && workflowData.workspaceId) {
+      const userPermission = await getUserEntityPermissions(
+        session.user.id,
+        'workspace',
+        workflowData.workspaceId
+      )
+      isAuthorized = userPermission !== null
+    }
+
+    if (!isAuthorized) {
+      logger.warn(
+        `[${requestId}] User ${session.user.id} attempted to list approvals for workflow ${workflowId} without permission`
+      )
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const approvals = await getPendingApprovals(workflowId)
+
+    return NextResponse.json({ data: approvals }, { status: 200 })
+  } catch (error: any) {
+    logger.error(`[${requestId}] Error fetching approvals for workflow ${workflowId}`, error)
+    return NextResponse.json({ error: 'Failed to fetch approvals' }, { status: 500 })
+  }
+}
@@ -7,9 +7,22 @@ import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
 import { createMockRequest } from '@/app/api/__test-utils__/utils'
 
 describe('Workflow Deployment API Route', () => {
+  const mockCreateDeploymentVersion = vi.fn()
+
   beforeEach(() => {
     vi.resetModules()
 
+    mockCreateDeploymentVersion.mockResolvedValue({
+      id: 'version-id',
+      workflowId: 'workflow-id',
+      version: 1,
+      label: null,
+      createdAt: new Date('2024-01-01T00:00:00.000Z'),
+    })
+    vi.doMock('@/lib/workflows/versions', () => ({
+      createDeploymentVersion: mockCreateDeploymentVersion,
+    }))
+
     vi.doMock('@/lib/utils', () => ({
       generateApiKey: vi.fn().mockReturnValue('sim_testkeygenerated12345'),
     }))
@@ -183,9 +196,15 @@ describe('Workflow Deployment API Route', () => {
     expect(data).toHaveProperty('apiKey', 'sim_testkeygenerated12345')
     expect(data).toHaveProperty('isDeployed', true)
     expect(data).toHaveProperty('deployedAt')
+    expect(data).toHaveProperty('deployedVersion', 1)
 
     expect(mockInsert).toHaveBeenCalled()
-    expect(mockUpdate).toHaveBeenCalled()
+    expect(mockCreateDeploymentVersion).toHaveBeenCalledWith(
+      'workflow-id',
+      expect.objectContaining({ blocks: expect.any(Object) }),
+      null,
+      'prod'
+    )
   })
 
   /**
@@ -259,7 +278,7 @@ describe('Workflow Deployment API Route', () => {
       },
     }))
 
-    const req = createMockRequest('POST')
+    const req = createMockRequest('POST', { label: ' First release ' })
 
     const params = Promise.resolve({ id: 'workflow-id' })
 
@@ -275,7 +294,95 @@ describe('Workflow Deployment API Route', () => {
     expect(data).toHaveProperty('isDeployed', true)
 
     expect(mockInsert).not.toHaveBeenCalled()
-    expect(mockUpdate).toHaveBeenCalled()
+    expect(mockCreateDeploymentVersion).toHaveBeenCalledWith(
+      'workflow-id',
+      expect.any(Object),
+      'First release',
+      'prod'
+    )
+  })
+
+  /**
+   * Test POST deployment snapshots block settings stored in their own columns
+   */
+  it('should include retry policy and advanced mode in the deployed state', async () => {
+    const retryPolicy = {
+      maxRetries: 2,
+      backoff: 'exponential',
+      initialDelayMs: 500,
+      retryOn: ['5xx'],
+    }
+
+    vi.doMock('@/db', () => ({
+      db: {
+        select: vi
+          .fn()
+          .mockReturnValueOnce({
+            from: vi.fn().mockReturnValue({
+              where: vi.fn().mockReturnValue({
+                limit: vi.fn().mockResolvedValue([
+                  {
+                    userId: 'user-id',
+                  },
+                ]),
+              }),
+            }),
+          })
+          // Mock normalized table queries (blocks, edges, subflows)
+          .mockReturnValueOnce({
+            from: vi.fn().mockReturnValue({
+              where: vi.fn().mockResolvedValue([
+                {
+                  id: 'block-1',
+                  type: 'api',
+                  name: 'API',
+                  positionX: '100',
+                  positionY: '100',
+                  enabled: true,
+                  advancedMode: true,
+                  retryPolicy,
+                  subBlocks: {},
+                  data: {},
+                },
+              ]),
+            }),
+          })
+          .mockReturnValueOnce({
+            from: vi.fn().mockReturnValue({
+              where: vi.fn().mockResolvedValue([]), // No edges
+            }),
+          })
+          .mockReturnValueOnce({
+            from: vi.fn().mockReturnValue({
+              where: vi.fn().mockResolvedValue([]), // No subflows
+            }),
+          })
+          .mockReturnValueOnce({
+            from: vi.fn().mockReturnValue({
+              where: vi.fn().mockReturnValue({
+                limit: vi.fn().mockResolvedValue([
+                  {
+                    key: 'sim_existingtestapikey12345',
+                  },
+                ]), // Existing API key
+              }),
+            }),
+          }),
+      },
+    }))
+
+    const req = createMockRequest('POST')
+
+    const params = Promise.resolve({ id: 'workflow-id' })
+
+    const { POST } = await import('./route')
+
+    const response = await POST(req, { params })
+
+    expect(response.status).toBe(200)
+
+    const deployedState = mockCreateDeploymentVersion.mock.calls[0][1]
+    expect(deployedState.blocks['block-1']).toMatchObject({ advancedMode: true, retryPolicy })
   })
 
   /**
@@ -3,8 +3,16 @@ import type { NextRequest } from 'next/server'
 import { v4 as uuidv4 } from 'uuid'
 import { createLogger } from '@/lib/logs/console-logger'
 import { generateApiKey } from '@/lib/utils'
+import { loadWorkflowFromNormalizedTables } from '@/lib/workflows/db-helpers'
+import {
+  type DeploymentSlot,
+  isDeploymentSlot,
+  undeploySlot,
+} from '@/lib/workflows/deployment-slots'
+import { createDeploymentVersion } from '@/lib/workflows/versions'
 import { db } from '@/db'
-import { apiKey, workflow, workflowBlocks, workflowEdges, workflowSubflows } from '@/db/schema'
+import { apiKey, workflow } from '@/db/schema'
+import type { WorkflowState } from '@/stores/workflows/workflow/types'
 import { validateWorkflowAccess } from '../../middleware'
 import { createErrorResponse, createSuccessResponse } from '../../utils'
 
@@ -34,6 +42,7 @@ export async function GET(request: NextRequest, { params }: { params: Promise<{
         userId: workflow.userId,
         state: workflow.state,
         deployedState: workflow.deployedState,
+        deployedVersion: workflow.deployedVersion,
       })
       .from(workflow)
       .where(eq(workflow.id, id))
@@ -52,6 +61,7 @@ export async function GET(request: NextRequest, { params }: { params: Promise<{
       return createSuccessResponse({
         isDeployed: false,
         deployedAt: null,
+        deployedVersion: null,
         apiKey: null,
         needsRedeployment: false,
       })
@@ -105,6 +115,7 @@ export async function GET(request: NextRequest, { params }: { params: Promise<{
       apiKey: userKey,
       isDeployed: workflowData.isDeployed,
       deployedAt: workflowData.deployedAt,
+      deployedVersion: workflowData.deployedVersion,
       needsRedeployment,
     })
   } catch (error: any) {
@@ -126,6 +137,25 @@ export async function POST(request: NextRequest, { params }: { params: Promise<{
       return createErrorResponse(validation.error.message, validation.error.status)
     }
 
+    // An optional label names the version created by this deploy, and an optional
+    // slot deploys it to dev or staging instead of prod
+    let label: string | null = null
+    let slot: DeploymentSlot = 'prod'
+    try {
+      const body = await request.json()
+      if (typeof body?.label === 'string' && body.label.trim()) {
+        label = body.label.trim()
+      }
+      if (body?.slot !== undefined) {
+        if (!isDeploymentSlot(body.slot)) {
+          return createErrorResponse(`Unknown deployment slot: ${body.slot}`, 400)
+        }
+        slot = body.slot
+      }
+    } catch {
+      // Deploying without a body is fine
+    }
+
     // Get the workflow to find the user
     const workflowData = await db
       .select({
@@ -145,89 +175,29 @@ export async function POST(request: NextRequest, { params }: { params: Promise<{
 
     // Get the current live state from normalized tables instead of stale JSON
     logger.debug(`[${requestId}] Getting current workflow state for deployment`)
+    const normalizedData = await loadWorkflowFromNormalizedTables(id)
 
-    // Get blocks from normalized table
-    const blocks = await db.select().from(workflowBlocks).where(eq(workflowBlocks.workflowId, id))
-
-    // Get edges from normalized table
-    const edges = await db.select().from(workflowEdges).where(eq(workflowEdges.workflowId, id))
-
-    // Get subflows from normalized table
-    const subflows = await db
-      .select()
-      .from(workflowSubflows)
-      .where(eq(workflowSubflows.workflowId, id))
-
-    // Build current state from normalized data
-    const blocksMap: Record<string, any> = {}
-    const loops: Record<string, any> = {}
-    const parallels: Record<string, any> = {}
-
-    // Process blocks
-    blocks.forEach((block) => {
-      blocksMap[block.id] = {
-        id: block.id,
-        type: block.type,
-        name: block.name,
-        position: { x: Number(block.positionX), y: Number(block.positionY) },
-        data: block.data,
-        enabled: block.enabled,
-        subBlocks: block.subBlocks || {},
-      }
-    })
-
-    // Process subflows (loops and parallels)
-    subflows.forEach((subflow) => {
-      const config = (subflow.config as any) || {}
-      if (subflow.type === 'loop') {
-        loops[subflow.id] = {
-          nodes: config.nodes || [],
-          iterationCount: config.iterationCount || 1,
-          iterationType: config.iterationType || 'fixed',
-          collection: config.collection || '',
-        }
-      } else if (subflow.type === 'parallel') {
-        parallels[subflow.id] = {
-          nodes: config.nodes || [],
-          parallelCount: config.parallelCount || 2,
-          collection: config.collection || '',
-        }
-      }
-    })
+    if (!normalizedData) {
+      logger.error(`[${requestId}] Invalid workflow state retrieved`, { workflowId: id })
+      throw new Error('Invalid workflow state: missing blocks')
+    }
 
-    // Convert edges to the expected format
-    const edgesArray = edges.map((edge) => ({
-      id: edge.id,
-      source: edge.sourceBlockId,
-      target: edge.targetBlockId,
-      sourceHandle: edge.sourceHandle,
-      targetHandle: edge.targetHandle,
-      type: 'default',
-      data: {},
-    }))
-
-    const currentState = {
-      blocks: blocksMap,
-      edges: edgesArray,
-      loops,
-      parallels,
+    const currentState: WorkflowState = {
+      blocks: normalizedData.blocks,
+      edges: normalizedData.edges,
+      loops: normalizedData.loops,
+      parallels: normalizedData.parallels,
       lastSaved: Date.now(),
     }
 
     logger.debug(`[${requestId}] Current state retrieved from normalized tables:`, {
-      blocksCount: Object.keys(blocksMap).length,
-      edgesCount: edgesArray.length,
-      loopsCount: Object.keys(loops).length,
-      parallelsCount: Object.keys(parallels).length,
+      blocksCount: Object.keys(currentState.blocks).length,
+      edgesCount: currentState.edges.length,
+      loopsCount: Object.keys(currentState.loops).length,
+      parallelsCount: Object.keys(currentState.parallels).length,
     })
 
-    if (!currentState || !currentState.blocks) {
-      logger.error(`[${requestId}] Invalid workflow state retrieved`, { currentState })
-      throw new Error('Invalid workflow state: missing blocks')
-    }
-
-    const deployedAt = new Date()
-    logger.debug(`[${requestId}] Proceeding with deployment at ${deployedAt.toISOString()}`)
+    logger.debug(`[${requestId}] Proceeding with deployment`)
 
     // Check if the user already has an API key
     const userApiKey = await db
@@ -262,18 +232,19 @@ export async function POST(request: NextRequest, { params }: { params: Promise<{
       userKey = userApiKey[0].key
     }
 
-    // Update the workflow deployment status and save current state as deployed state
-    await db
-      .update(workflow)
-      .set({
-        isDeployed: true,
-        deployedAt,
-        deployedState: currentState,
-      })
-      .where(eq(workflow.id, id))
+    // Snapshot the current state as a new version and make it live in the slot
+    const version = await createDeploymentVersion(id, currentState, label, slot)
 
-    logger.info(`[${requestId}] Workflow deployed successfully: ${id}`)
-    return createSuccessResponse({ apiKey: userKey, isDeployed: true, deployedAt })
+    logger.info(
+      `[${requestId}] Workflow deployed successfully to ${slot} as version ${version.version}: ${id}`
+    )
+    return createSuccessResponse({
+      apiKey: userKey,
+      isDeployed: true,
+      deployedAt: version.createdAt,
+      deployedVersion: version.version,
+      slot,
+    })
   } catch (error: any) {
     logger.error(`[${requestId}] Error deploying workflow: ${id}`, {
       error: error.message,
@@ -302,6 +273,17 @@ export async function DELETE(
       return createErrorResponse(validation.error.message, validation.error.status)
     }
 
+    const slot = new URL(request.url).searchParams.get('slot') ?? 'prod'
+    if (!isDeploymentSlot(slot)) {
+      return createErrorResponse(`Unknown deployment slot: ${slot}`, 400)
+    }
+
+    if (slot !== 'prod') {
+      await undeploySlot(id, slot)
+      logger.info(`[${requestId}] Workflow undeployed from ${slot}: ${id}`)
+      return createSuccessResponse({ isDeployed: false, slot })
+    }
+
     // Update the workflow to remove deployment status and deployed state
     await db
       .update(workflow)
@@ -309,6 +291,7 @@ export async function DELETE(
         isDeployed: false,
         deployedAt: null,
         deployedState: null,
+        deployedVersion: null,
       })
       .where(eq(workflow.id, id))
 
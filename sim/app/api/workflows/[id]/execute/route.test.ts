@@ -198,7 +198,12 @@ describe('Workflow Execution API Route', () => {
     // Verify middleware was called
     const validateWorkflowAccess = (await import('@/app/api/workflows/middleware'))
       .validateWorkflowAccess
-    expect(validateWorkflowAccess).toHaveBeenCalledWith(expect.any(Object), 'workflow-id')
+    expect(validateWorkflowAccess).toHaveBeenCalledWith(
+      expect.any(Object),
+      'workflow-id',
+      true,
+      'prod'
+    )
 
     // Verify executor was initialized
     const Executor = (await import('@/executor')).Executor
@@ -255,7 +260,12 @@ describe('Workflow Execution API Route', () => {
     // Verify middleware was called
     const validateWorkflowAccess = (await import('@/app/api/workflows/middleware'))
       .validateWorkflowAccess
-    expect(validateWorkflowAccess).toHaveBeenCalledWith(expect.any(Object), 'workflow-id')
+    expect(validateWorkflowAccess).toHaveBeenCalledWith(
+      expect.any(Object),
+      'workflow-id',
+      true,
+      'prod'
+    )
 
     // Verify executor was constructed
     const Executor = (await import('@/executor')).Executor
@@ -264,17 +274,17 @@ describe('Workflow Execution API Route', () => {
     // Verify execute was called with the input body
     expect(executeMock).toHaveBeenCalledWith('workflow-id')
 
-    // Updated expectations to match actual implementation
-    // The structure should match: serializedWorkflow, processedBlockStates, decryptedEnvVars, processedInput, workflowVariables
+    // The executor is constructed with an options object carrying the structured input
     expect(Executor).toHaveBeenCalledWith(
-      expect.anything(), // serializedWorkflow
-      expect.anything(), // processedBlockStates
-      expect.anything(), // decryptedEnvVars
       expect.objectContaining({
-        // processedInput
-        input: requestBody,
-      }),
-      expect.anything() // workflowVariables
+        workflow: expect.anything(),
+        currentBlockStates: expect.anything(),
+        envVarValues: expect.anything(),
+        workflowInput: expect.objectContaining({
+          input: requestBody,
+        }),
+        workflowVariables: expect.anything(),
+      })
     )
   })
 
@@ -311,17 +321,14 @@ describe('Workflow Execution API Route', () => {
     const data = await response.json()
     expect(data).toHaveProperty('success', true)
 
-    // Verify the executor was constructed with the structured input - updated to match implementation
+    // Verify the executor was constructed with the structured input
     const Executor = (await import('@/executor')).Executor
     expect(Executor).toHaveBeenCalledWith(
-      expect.anything(), // serializedWorkflow
-      expect.anything(), // processedBlockStates
-      expect.anything(), // decryptedEnvVars
       expect.objectContaining({
-        // processedInput
-        input: structuredInput,
-      }),
-      expect.anything() // workflowVariables
+        workflowInput: expect.objectContaining({
+          input: structuredInput,
+        }),
+      })
     )
   })
 
@@ -349,14 +356,12 @@ describe('Workflow Execution API Route', () => {
     const data = await response.json()
     expect(data).toHaveProperty('success', true)
 
-    // Verify the executor was constructed with an empty object - updated to match implementation
+    // Verify the executor was constructed with an empty input object
     const Executor = (await import('@/executor')).Executor
     expect(Executor).toHaveBeenCalledWith(
-      expect.anything(), // serializedWorkflow
-      expect.anything(), // processedBlockStates
-      expect.anything(), // decryptedEnvVars
-      expect.objectContaining({}), // processedInput with empty input
-      expect.anything() // workflowVariables
+      expect.objectContaining({
+        workflowInput: expect.objectContaining({}),
+      })
     )
   })
 
@@ -425,6 +430,38 @@ describe('Workflow Execution API Route', () => {
     expect(data).toHaveProperty('error', 'Unauthorized')
   })
 
+  /**
+   * Test the execution endpoint of a deployment slot
+   */
+  it('should validate deployment of the requested slot', async () => {
+    const req = createMockRequest('GET')
+    const params = Promise.resolve({ id: 'workflow-id', slot: 'staging' })
+
+    const { GET } = await import('./route')
+    await GET(req, { params })
+
+    const validateWorkflowAccess = (await import('@/app/api/workflows/middleware'))
+      .validateWorkflowAccess
+    expect(validateWorkflowAccess).toHaveBeenCalledWith(
+      expect.any(Object),
+      'workflow-id',
+      true,
+      'staging'
+    )
+  })
+
+  it('should return 404 for an unknown deployment slot', async () => {
+    const req = createMockRequest('GET')
+    const params = Promise.resolve({ id: 'workflow-id', slot: 'qa' })
+
+    const { GET } = await import('./route')
+    const response = await GET(req, { params })
+
+    expect(response.status).toBe(404)
+    const data = await response.json()
+    expect(data.error).toContain('Unknown deployment slot')
+  })
+
   /**
    * Test handling of execution errors
    */
@@ -545,15 +582,66 @@ describe('Workflow Execution API Route', () => {
     // Verify the Executor was constructed with workflow variables
     expect(executorConstructorMock).toHaveBeenCalled()
 
-    // Check that the 5th parameter (workflow variables) was passed
+    // Check that the workflow variables were passed in the options object
     const executorCalls = executorConstructorMock.mock.calls
     expect(executorCalls.length).toBeGreaterThan(0)
 
-    // Each call to the constructor should have at least 5 parameters
     const lastCall = executorCalls[executorCalls.length - 1]
-    expect(lastCall.length).toBeGreaterThanOrEqual(5)
+    expect(lastCall[0].workflowVariables).toEqual(workflowVariables)
+  })
+  /**
+   * Test async mode, which leaves the run to the run worker
+   */
+  it('should queue async executions for the run worker', async () => {
+    const createExecutionRun = vi.fn().mockResolvedValue(true)
+    vi.doMock('@/lib/workflows/execution-runs', () => ({
+      createExecutionRun,
+      finishExecutionRun: vi.fn(),
+      saveExecutionRecording: vi.fn(),
+    }))
+    vi.doMock('@/lib/usage-monitor', () => ({
+      checkServerSideUsageLimits: vi.fn().mockResolvedValue({ isExceeded: false }),
+    }))
+    vi.doMock('@/lib/workflows/utils', async () => ({
+      ...(await vi.importActual<typeof import('@/lib/workflows/utils')>('@/lib/workflows/utils')),
+      updateWorkflowRunCounts: vi.fn().mockResolvedValue(undefined),
+    }))
+
+    const req = new NextRequest('http://localhost:3000/api/test?async=true', {
+      method: 'POST',
+      body: JSON.stringify({ message: 'hello' }),
+    })
+    const params = Promise.resolve({ id: 'workflow-id' })
+
+    const { POST } = await import('./route')
+    const response = await POST(req, { params })
 
-    // The 5th parameter should be the workflow variables
-    expect(lastCall[4]).toEqual(workflowVariables)
+    expect(response.status).toBe(202)
+    const data = await response.json()
+    expect(data.status).toBe('queued')
+    expect(createExecutionRun).toHaveBeenCalledWith(
+      expect.objectContaining({
+        id: data.runId,
+        input: { input: { message: 'hello' } },
+        queued: true,
+      })
+    )
+    expect(executeMock).not.toHaveBeenCalled()
+  })
+
+  it('should reject callback URLs that point to a private network', async () => {
+    const req = new NextRequest(
+      'http://localhost:3000/api/test?callbackUrl=http%3A%2F%2F169.254.169.254%2Flatest',
+      { method: 'GET' }
+    )
+    const params = Promise.resolve({ id: 'workflow-id' })
+
+    const { GET } = await import('./route')
+    const response = await GET(req, { params })
+
+    expect(response.status).toBe(400)
+    const data = await response.json()
+    expect(data.error).toContain('Invalid callback URL')
+    expect(executeMock).not.toHaveBeenCalled()
   })
 })
@@ -5,18 +5,33 @@ import { z } from 'zod'
 import { createLogger } from '@/lib/logs/console-logger'
 import { persistExecutionError, persistExecutionLogs } from '@/lib/logs/execution-logger'
 import { buildTraceSpans } from '@/lib/logs/trace-spans'
+import { assertPublicUrl, UnsafeUrlError } from '@/lib/urls/safe-fetch'
 import { checkServerSideUsageLimits } from '@/lib/usage-monitor'
-import { decryptSecret } from '@/lib/utils'
+import { pauseExecutionRun } from '@/lib/workflows/approvals'
 import {
+  type DeploymentSlot,
+  getSlotDeployedState,
+  isDeploymentSlot,
+} from '@/lib/workflows/deployment-slots'
+import { trackExecutionRun } from '@/lib/workflows/execution-cancellation'
+import { prepareWorkflowExecution } from '@/lib/workflows/execution-preparation'
+import {
+  createExecutionRun,
+  finishExecutionRun,
+  saveExecutionRecording,
+} from '@/lib/workflows/execution-runs'
+import {
+  createAsyncExecutionResponse,
   createHttpResponseFromBlock,
+  createPausedExecutionResponse,
   updateWorkflowRunCounts,
   workflowHasResponseBlock,
 } from '@/lib/workflows/utils'
 import { db } from '@/db'
-import { environment, userStats } from '@/db/schema'
+import { userStats } from '@/db/schema'
 import { Executor } from '@/executor'
-import { Serializer } from '@/serializer'
-import { mergeSubblockState } from '@/stores/workflows/server-utils'
+import { ExecutionReplay } from '@/executor/replay'
+import type { ExecutionEvent, ExecutionResult } from '@/executor/types'
 import type { WorkflowState } from '@/stores/workflows/workflow/types'
 import { validateWorkflowAccess } from '../../middleware'
 import { createErrorResponse, createSuccessResponse } from '../../utils'
@@ -26,9 +41,6 @@ const logger = createLogger('WorkflowExecuteAPI')
 export const dynamic = 'force-dynamic'
 export const runtime = 'nodejs'
 
-// Define the schema for environment variables
-const EnvVarsSchema = z.record(z.string())
-
 // Keep track of running executions to prevent duplicate requests
 // Use a combination of workflow ID and request ID to allow concurrent executions with different inputs
 const runningExecutions = new Set<string>()
@@ -44,21 +56,31 @@ class UsageLimitError extends Error {
   }
 }
 
-async function executeWorkflow(workflow: any, requestId: string, input?: any) {
-  const workflowId = workflow.id
-  const executionId = uuidv4()
-
-  // Create a unique execution key combining workflow ID and request ID
-  // This allows concurrent executions of the same workflow with different inputs
-  const executionKey = `${workflowId}:${requestId}`
-
-  // Skip if this exact execution is already running (prevents duplicate requests)
-  if (runningExecutions.has(executionKey)) {
-    logger.warn(`[${requestId}] Execution is already running: ${executionKey}`)
-    throw new Error('Execution is already running')
-  }
+const ExecutionOptionsSchema = z.object({
+  async: z.enum(['true', 'false']).optional(),
+  stream: z.enum(['true', 'false']).optional(),
+  record: z.enum(['true', 'false']).optional(),
+  callbackUrl: z
+    .string()
+    .url()
+    .refine((url) => url.startsWith('https://') || url.startsWith('http://'), {
+      message: 'Callback URL must use http or https',
+    })
+    .optional(),
+})
+
+interface ExecuteWorkflowOptions {
+  slot?: DeploymentSlot // Deployment slot to run, prod when omitted
+  callbackUrl?: string // Notified with the final result once the run finishes
+  record?: boolean // Records the tool and provider responses so the run can be replayed
+  onRunCreated?: (runId: string) => void // Called once the run record exists and can be polled
+  onEvent?: (event: ExecutionEvent) => void // Receives block-level progress events
+}
 
-  // Check if the user has exceeded their usage limits
+/**
+ * Fails with a UsageLimitError when the workflow owner has exceeded their usage limits.
+ */
+async function assertWithinUsageLimits(workflow: any, requestId: string): Promise<void> {
   const usageCheck = await checkServerSideUsageLimits(workflow.userId)
   if (usageCheck.isExceeded) {
     logger.warn(`[${requestId}] User ${workflow.userId} has exceeded usage limits`, {
@@ -69,7 +91,12 @@ async function executeWorkflow(workflow: any, requestId: string, input?: any) {
       usageCheck.message || 'Usage limit exceeded. Please upgrade your plan to continue.'
     )
   }
+}
 
+/**
+ * Nests the request input under "input" so the starter block can read it.
+ */
+function structureInput(input: any, requestId: string): any {
   // Log input to help debug
   logger.info(
     `[${requestId}] Executing workflow with input:`,
@@ -89,167 +116,111 @@ async function executeWorkflow(workflow: any, requestId: string, input?: any) {
       )
     }
   }
+  return processedInput
+}
 
-  try {
-    runningExecutions.add(executionKey)
-    logger.info(`[${requestId}] Starting workflow execution: ${workflowId}`)
-
-    // Use the deployed state if available, otherwise fall back to current state
-    const workflowState = workflow.deployedState || workflow.state
+/**
+ * Picks the workflow state to run: the version deployed to the slot.
+ */
+async function resolveWorkflowState(
+  workflow: any,
+  requestId: string,
+  slot: DeploymentSlot
+): Promise<WorkflowState> {
+  const workflowId = workflow.id
 
-    if (!workflow.deployedState) {
-      logger.warn(
-        `[${requestId}] No deployed state found for workflow: ${workflowId}, using current state`
-      )
-    } else {
-      logger.info(`[${requestId}] Using deployed state for workflow execution: ${workflowId}`)
+  if (slot !== 'prod') {
+    // Dev and staging run the version deployed in their own slot
+    const slotDeployment = await getSlotDeployedState(workflowId, slot)
+    if (!slotDeployment) {
+      throw new Error(`Workflow is not deployed to ${slot}`)
     }
+    logger.info(
+      `[${requestId}] Using version ${slotDeployment.version} deployed to ${slot} for workflow execution: ${workflowId}`
+    )
+    return slotDeployment.state
+  }
+
+  // Use the deployed state if available, otherwise fall back to current state
+  if (!workflow.deployedState) {
+    logger.warn(
+      `[${requestId}] No deployed state found for workflow: ${workflowId}, using current state`
+    )
+  } else {
+    logger.info(`[${requestId}] Using deployed state for workflow execution: ${workflowId}`)
+  }
+  return workflow.deployedState || workflow.state
+}
 
-    const state = workflowState as WorkflowState
-    const { blocks, edges, loops, parallels } = state
+async function executeWorkflow(
+  workflow: any,
+  requestId: string,
+  input?: any,
+  options: ExecuteWorkflowOptions = {}
+): Promise<ExecutionResult & { runId?: string }> {
+  const workflowId = workflow.id
+  const executionId = uuidv4()
+  const slot = options.slot ?? 'prod'
 
-    // Use the same execution flow as in scheduled executions
-    const mergedStates = mergeSubblockState(blocks)
+  // Create a unique execution key combining workflow ID and request ID
+  // This allows concurrent executions of the same workflow with different inputs
+  const executionKey = `${workflowId}:${requestId}`
 
-    // Fetch the user's environment variables (if any)
-    const [userEnv] = await db
-      .select()
-      .from(environment)
-      .where(eq(environment.userId, workflow.userId))
-      .limit(1)
+  // Skip if this exact execution is already running (prevents duplicate requests)
+  if (runningExecutions.has(executionKey)) {
+    logger.warn(`[${requestId}] Execution is already running: ${executionKey}`)
+    throw new Error('Execution is already running')
+  }
 
-    if (!userEnv) {
-      logger.debug(
-        `[${requestId}] No environment record found for user ${workflow.userId}. Proceeding with empty variables.`
-      )
-    }
+  // Check if the user has exceeded their usage limits
+  await assertWithinUsageLimits(workflow, requestId)
 
-    // Parse and validate environment variables.
-    const variables = EnvVarsSchema.parse(userEnv?.variables ?? {})
-
-    // Replace environment variables in the block states
-    const currentBlockStates = await Object.entries(mergedStates).reduce(
-      async (accPromise, [id, block]) => {
-        const acc = await accPromise
-        acc[id] = await Object.entries(block.subBlocks).reduce(
-          async (subAccPromise, [key, subBlock]) => {
-            const subAcc = await subAccPromise
-            let value = subBlock.value
-
-            // If the value is a string and contains environment variable syntax
-            if (typeof value === 'string' && value.includes('{{') && value.includes('}}')) {
-              const matches = value.match(/{{([^}]+)}}/g)
-              if (matches) {
-                // Process all matches sequentially
-                for (const match of matches) {
-                  const varName = match.slice(2, -2) // Remove {{ and }}
-                  const encryptedValue = variables[varName]
-                  if (!encryptedValue) {
-                    throw new Error(`Environment variable "${varName}" was not found`)
-                  }
-
-                  try {
-                    const { decrypted } = await decryptSecret(encryptedValue)
-                    value = (value as string).replace(match, decrypted)
-                  } catch (error: any) {
-                    logger.error(
-                      `[${requestId}] Error decrypting environment variable "${varName}"`,
-                      error
-                    )
-                    throw new Error(
-                      `Failed to decrypt environment variable "${varName}": ${error.message}`
-                    )
-                  }
-                }
-              }
-            }
-
-            subAcc[key] = value
-            return subAcc
-          },
-          Promise.resolve({} as Record<string, any>)
-        )
-        return acc
-      },
-      Promise.resolve({} as Record<string, Record<string, any>>)
-    )
+  const processedInput = structureInput(input, requestId)
 
-    // Create a map of decrypted environment variables
-    const decryptedEnvVars: Record<string, string> = {}
-    for (const [key, encryptedValue] of Object.entries(variables)) {
-      try {
-        const { decrypted } = await decryptSecret(encryptedValue)
-        decryptedEnvVars[key] = decrypted
-      } catch (error: any) {
-        logger.error(`[${requestId}] Failed to decrypt environment variable "${key}"`, error)
-        throw new Error(`Failed to decrypt environment variable "${key}": ${error.message}`)
-      }
-    }
+  // Lets the cancel endpoint stop this run while it executes
+  const runTracking = trackExecutionRun(executionId)
+  const replay = options.record ? ExecutionReplay.record() : undefined
 
-    // Process the block states to ensure response formats are properly parsed
-    const processedBlockStates = Object.entries(currentBlockStates).reduce(
-      (acc, [blockId, blockState]) => {
-        // Check if this block has a responseFormat that needs to be parsed
-        if (blockState.responseFormat && typeof blockState.responseFormat === 'string') {
-          try {
-            logger.debug(`[${requestId}] Parsing responseFormat for block ${blockId}`)
-            // Attempt to parse the responseFormat if it's a string
-            const parsedResponseFormat = JSON.parse(blockState.responseFormat)
-
-            acc[blockId] = {
-              ...blockState,
-              responseFormat: parsedResponseFormat,
-            }
-          } catch (error) {
-            logger.warn(`[${requestId}] Failed to parse responseFormat for block ${blockId}`, error)
-            acc[blockId] = blockState
-          }
-        } else {
-          acc[blockId] = blockState
-        }
-        return acc
-      },
-      {} as Record<string, Record<string, any>>
-    )
+  try {
+    runningExecutions.add(executionKey)
+    logger.info(`[${requestId}] Starting workflow execution: ${workflowId}`)
 
-    // Get workflow variables
-    let workflowVariables = {}
-    if (workflow.variables) {
-      try {
-        // Parse workflow variables if they're stored as a string
-        if (typeof workflow.variables === 'string') {
-          workflowVariables = JSON.parse(workflow.variables)
-        } else {
-          // Otherwise use as is (already parsed JSON)
-          workflowVariables = workflow.variables
-        }
-        logger.debug(
-          `[${requestId}] Loaded ${Object.keys(workflowVariables).length} workflow variables for: ${workflowId}`
-        )
-      } catch (error) {
-        logger.error(`[${requestId}] Failed to parse workflow variables: ${workflowId}`, error)
-        // Continue execution even if variables can't be parsed
+    const workflowState = await resolveWorkflowState(workflow, requestId, slot)
+
+    const { serializedWorkflow, processedBlockStates, decryptedEnvVars, workflowVariables } =
+      await prepareWorkflowExecution(workflow, workflowState, requestId, slot)
+
+    // Record the run so each completed layer can be checkpointed and resumed later
+    const isRecorded = await createExecutionRun({
+      id: executionId,
+      workflowId,
+      trigger: 'api',
+      slot,
+      input: processedInput,
+      workflowState,
+      callbackUrl: options.callbackUrl,
+    })
+    if (options.onRunCreated) {
+      // The caller hands the run ID out to be polled, which only works if the run exists
+      if (!isRecorded) {
+        throw new Error('Failed to record the workflow run')
       }
-    } else {
-      logger.debug(`[${requestId}] No workflow variables found for: ${workflowId}`)
+      options.onRunCreated(executionId)
     }
 
-    // Serialize and execute the workflow
-    logger.debug(`[${requestId}] Serializing workflow: ${workflowId}`)
-    const serializedWorkflow = new Serializer().serializeWorkflow(
-      mergedStates,
-      edges,
-      loops,
-      parallels
-    )
-
-    const executor = new Executor(
-      serializedWorkflow,
-      processedBlockStates,
-      decryptedEnvVars,
-      processedInput,
-      workflowVariables
-    )
+    const executor = new Executor({
+      workflow: serializedWorkflow,
+      currentBlockStates: processedBlockStates,
+      envVarValues: decryptedEnvVars,
+      workflowInput: processedInput,
+      workflowVariables,
+      contextExtensions: {
+        onCheckpoint: runTracking.onCheckpoint,
+        abortSignal: runTracking.abortSignal,
+        onEvent: options.onEvent,
+        replay,
+      },
+    })
 
     const result = await executor.execute(workflowId)
 
@@ -257,6 +228,17 @@ async function executeWorkflow(workflow: any, requestId: string, input?: any) {
     // For API routes, we only care about the ExecutionResult part, not the stream
     const executionResult = 'stream' in result && 'execution' in result ? result.execution : result
 
+    // Logs are written once the run finishes, after its approvals have been decided
+    if (executionResult.metadata?.isPaused) {
+      logger.info(`[${requestId}] Workflow execution paused for approvals: ${workflowId}`)
+      await pauseExecutionRun(
+        executionId,
+        workflowId,
+        executionResult.metadata.pendingApprovals || []
+      )
+      return { ...executionResult, runId: executionId }
+    }
+
     logger.info(`[${requestId}] Workflow execution completed: ${workflowId}`, {
       success: executionResult.success,
       executionTime: executionResult.metadata?.duration,
@@ -288,31 +270,234 @@ async function executeWorkflow(workflow: any, requestId: string, input?: any) {
 
     // Log each execution step and the final result
     await persistExecutionLogs(workflowId, executionId, enrichedResult, 'api')
+    await finishExecutionRun(executionId, executionResult)
 
     return executionResult
   } catch (error: any) {
     logger.error(`[${requestId}] Workflow execution failed: ${workflowId}`, error)
     // Log the error
     await persistExecutionError(workflowId, executionId, error, 'api')
+    await finishExecutionRun(executionId, { success: false, error: error.message })
     throw error
   } finally {
+    if (replay) {
+      await saveExecutionRecording(executionId, replay.getRecording())
+    }
     runningExecutions.delete(executionKey)
+    runTracking.release()
   }
 }
 
-export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+/**
+ * Reads the async mode, event stream mode, recording and callback URL from the request.
+ * The event stream can also be requested with an "Accept: text/event-stream" header.
+ * Callback URLs must point to a public host, since the server posts the result to them.
+ */
+async function parseExecutionOptions(
+  request: NextRequest
+): Promise<
+  { isAsync: boolean; isStream: boolean; record: boolean; callbackUrl?: string } | { error: string }
+> {
+  const { searchParams } = new URL(request.url)
+  const parsed = ExecutionOptionsSchema.safeParse({
+    async: searchParams.get('async') ?? undefined,
+    stream: searchParams.get('stream') ?? undefined,
+    record: searchParams.get('record') ?? undefined,
+    callbackUrl: searchParams.get('callbackUrl') ?? undefined,
+  })
+
+  if (!parsed.success) {
+    return { error: parsed.error.errors.map((error) => error.message).join(', ') }
+  }
+
+  const isAsync = parsed.data.async === 'true'
+  const isStream =
+    parsed.data.stream === 'true' ||
+    (parsed.data.stream === undefined &&
+      (request.headers.get('accept') || '').includes('text/event-stream'))
+
+  if (isAsync && isStream) {
+    return { error: 'Async and stream modes cannot be combined' }
+  }
+
+  if (parsed.data.callbackUrl) {
+    try {
+      await assertPublicUrl(parsed.data.callbackUrl)
+    } catch (error) {
+      if (error instanceof UnsafeUrlError) {
+        return { error: `Invalid callback URL: ${error.message}` }
+      }
+      throw error
+    }
+  }
+
+  return {
+    isAsync,
+    isStream,
+    record: parsed.data.record === 'true',
+    callbackUrl: parsed.data.callbackUrl,
+  }
+}
+
+/**
+ * Queues an execution for the run worker instead of running it in the request, which
+ * could be stopped as soon as the response is sent. Fails if the usage limit is exceeded
+ * or the slot has nothing deployed.
+ *
+ * @returns The ID of the queued run
+ */
+async function queueAsyncExecution(
+  workflow: any,
+  requestId: string,
+  input: any,
+  options: ExecuteWorkflowOptions
+): Promise<string> {
+  const slot = options.slot ?? 'prod'
+  await assertWithinUsageLimits(workflow, requestId)
+
+  const runId = uuidv4()
+  const isQueued = await createExecutionRun({
+    id: runId,
+    workflowId: workflow.id,
+    trigger: 'api',
+    slot,
+    input: structureInput(input, requestId),
+    workflowState: await resolveWorkflowState(workflow, requestId, slot),
+    callbackUrl: options.callbackUrl,
+    queued: true,
+    recording: options.record ? ExecutionReplay.record().getRecording() : undefined,
+  })
+  if (!isQueued) {
+    throw new Error('Failed to queue the workflow run')
+  }
+
+  return runId
+}
+
+/**
+ * Starts an execution and streams its progress events as Server-Sent Events.
+ * Resolves with the stream once the run has been recorded, and rejects if the
+ * execution fails before that. Every event carries the run ID; the stream closes
+ * after the run finishes or pauses for approvals.
+ */
+function startStreamingExecution(
+  workflow: any,
+  requestId: string,
+  input: any,
+  options: ExecuteWorkflowOptions
+): Promise<ReadableStream<Uint8Array>> {
+  return new Promise((resolve, reject) => {
+    const encoder = new TextEncoder()
+    let streamController: ReadableStreamDefaultController<Uint8Array>
+    let runId: string | undefined
+    let isClosed = false
+
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        streamController = controller
+      },
+      cancel() {
+        // The run keeps going when the client disconnects, it just stops receiving events
+        isClosed = true
+      },
+    })
+
+    const sendEvent = (event: ExecutionEvent) => {
+      if (isClosed) return
+      streamController.enqueue(
+        encoder.encode(`event: ${event.type}\ndata: ${JSON.stringify({ runId, ...event })}\n\n`)
+      )
+    }
+
+    const closeStream = () => {
+      if (isClosed) return
+      isClosed = true
+      streamController.close()
+    }
+
+    executeWorkflow(workflow, requestId, input, {
+      ...options,
+      onEvent: sendEvent,
+      onRunCreated: (createdRunId) => {
+        runId = createdRunId
+        resolve(stream)
+      },
+    }).then(closeStream, (error) => {
+      logger.error(`[${requestId}] Streamed workflow execution failed: ${workflow.id}`, error)
+      reject(error)
+      closeStream()
+    })
+  })
+}
+
+/**
+ * Builds the Server-Sent Events response for a streamed execution.
+ */
+function createEventStreamResponse(stream: ReadableStream<Uint8Array>): NextResponse {
+  return new NextResponse(stream, {
+    status: 200,
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  })
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; slot?: string }> }
+) {
   const requestId = crypto.randomUUID().slice(0, 8)
-  const { id } = await params
+  const { id, slot = 'prod' } = await params
 
   try {
-    logger.debug(`[${requestId}] GET execution request for workflow: ${id}`)
-    const validation = await validateWorkflowAccess(request, id)
+    logger.debug(`[${requestId}] GET execution request for workflow: ${id} (${slot})`)
+    if (!isDeploymentSlot(slot)) {
+      return createErrorResponse(`Unknown deployment slot: ${slot}`, 404)
+    }
+
+    const validation = await validateWorkflowAccess(request, id, true, slot)
     if (validation.error) {
       logger.warn(`[${requestId}] Workflow access validation failed: ${validation.error.message}`)
       return createErrorResponse(validation.error.message, validation.error.status)
     }
 
-    const result = await executeWorkflow(validation.workflow, requestId)
+    const executionOptions = await parseExecutionOptions(request)
+    if ('error' in executionOptions) {
+      return createErrorResponse(executionOptions.error, 400, 'INVALID_EXECUTION_OPTIONS')
+    }
+    const { isAsync, isStream, record, callbackUrl } = executionOptions
+
+    if (isAsync) {
+      const runId = await queueAsyncExecution(validation.workflow, requestId, undefined, {
+        slot,
+        record,
+        callbackUrl,
+      })
+      logger.info(`[${requestId}] Queued async run ${runId} of workflow ${id}`)
+      return createAsyncExecutionResponse(id, runId)
+    }
+
+    if (isStream) {
+      const stream = await startStreamingExecution(validation.workflow, requestId, undefined, {
+        slot,
+        record,
+        callbackUrl,
+      })
+      return createEventStreamResponse(stream)
+    }
+
+    const result = await executeWorkflow(validation.workflow, requestId, undefined, {
+      slot,
+      record,
+      callbackUrl,
+    })
+
+    if (result.metadata?.isPaused && result.runId) {
+      return createPausedExecutionResponse(result, result.runId)
+    }
 
     // Check if the workflow execution contains a response block output
     const hasResponseBlock = workflowHasResponseBlock(result)
@@ -337,18 +522,31 @@ export async function GET(request: NextRequest, { params }: { params: Promise<{
   }
 }
 
-export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; slot?: string }> }
+) {
   const requestId = crypto.randomUUID().slice(0, 8)
-  const { id } = await params
+  const { id, slot = 'prod' } = await params
 
   try {
-    logger.debug(`[${requestId}] POST execution request for workflow: ${id}`)
-    const validation = await validateWorkflowAccess(request, id)
+    logger.debug(`[${requestId}] POST execution request for workflow: ${id} (${slot})`)
+    if (!isDeploymentSlot(slot)) {
+      return createErrorResponse(`Unknown deployment slot: ${slot}`, 404)
+    }
+
+    const validation = await validateWorkflowAccess(request, id, true, slot)
     if (validation.error) {
       logger.warn(`[${requestId}] Workflow access validation failed: ${validation.error.message}`)
       return createErrorResponse(validation.error.message, validation.error.status)
     }
 
+    const executionOptions = await parseExecutionOptions(request)
+    if ('error' in executionOptions) {
+      return createErrorResponse(executionOptions.error, 400, 'INVALID_EXECUTION_OPTIONS')
+    }
+    const { isAsync, isStream, record, callbackUrl } = executionOptions
+
     const bodyText = await request.text()
     logger.info(`[${requestId}] Raw request body:`, bodyText)
 
@@ -371,8 +569,37 @@ export async function POST(request: NextRequest, { params }: { params: Promise<{
 
     logger.info(`[${requestId}] Input passed to workflow:`, JSON.stringify(input, null, 2))
 
+    // In async mode the run worker executes the run and the caller polls the run endpoints
+    if (isAsync) {
+      const runId = await queueAsyncExecution(validation.workflow, requestId, input, {
+        slot,
+        record,
+        callbackUrl,
+      })
+      logger.info(`[${requestId}] Queued async run ${runId} of workflow ${id}`)
+      return createAsyncExecutionResponse(id, runId)
+    }
+
+    // In stream mode the caller receives block-level progress events as they happen
+    if (isStream) {
+      const stream = await startStreamingExecution(validation.workflow, requestId, input, {
+        slot,
+        record,
+        callbackUrl,
+      })
+      return createEventStreamResponse(stream)
+    }
+
     // Execute workflow with the structured input
-    const result = await executeWorkflow(validation.workflow, requestId, input)
+    const result = await executeWorkflow(validation.workflow, requestId, input, {
+      slot,
+      record,
+      callbackUrl,
+    })
+
+    if (result.metadata?.isPaused && result.runId) {
+      return createPausedExecutionResponse(result, result.runId)
+    }
 
     // Check if the workflow execution contains a response block output
     const hasResponseBlock = workflowHasResponseBlock(result)
@@ -0,0 +1,50 @@
+import type { NextRequest } from 'next/server'
+import { createLogger } from '@/lib/logs/console-logger'
+import { getExecutionRun } from '@/lib/workflows/execution-runs'
+import type { ExecutionCheckpoint } from '@/executor/checkpoint'
+import type { ExecutionResult } from '@/executor/types'
+import { validateWorkflowAccess } from '../../../../middleware'
+import { createErrorResponse, createSuccessResponse } from '../../../../utils'
+
+const logger = createLogger('WorkflowRunBlocksAPI')
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+/**
+ * Returns the block outputs a run has produced so far. While the run is executing these
+ * come from its last checkpoint, so blocks show up once their execution layer completes.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; runId: string }> }
+) {
+  const requestId = crypto.randomUUID().slice(0, 8)
+  const { id, runId } = await params
+
+  try {
+    const validation = await validateWorkflowAccess(request, id)
+    if (validation.error) {
+      logger.warn(`[${requestId}] Workflow access validation failed: ${validation.error.message}`)
+      return createErrorResponse(validation.error.message, validation.error.status)
+    }
+
+    const run = await getExecutionRun(runId)
+    if (!run || run.workflowId !== id) {
+      return createErrorResponse('Run not found', 404)
+    }
+
+    const result = run.result as ExecutionResult | null
+    const checkpoint = run.checkpoint as ExecutionCheckpoint | null
+
+    return createSuccessResponse({
+      runId: run.id,
+      status: run.status,
+      completedLayers: run.completedLayers,
+      blocks: result?.logs ?? checkpoint?.blockLogs ?? [],
+    })
+  } catch (error: any) {
+    logger.error(`[${requestId}] Error fetching block outputs of run ${runId}`, error)
+    return createErrorResponse(error.message || 'Failed to fetch block outputs', 500)
+  }
+}
@@ -0,0 +1,52 @@
+import type { NextRequest } from 'next/server'
+import { createLogger } from '@/lib/logs/console-logger'
+import { cancelExecutionRun } from '@/lib/workflows/execution-cancellation'
+import { getExecutionRun } from '@/lib/workflows/execution-runs'
+import { validateWorkflowAccess } from '../../../../middleware'
+import { createErrorResponse, createSuccessResponse } from '../../../../utils'
+
+const logger = createLogger('WorkflowRunCancelAPI')
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+/**
+ * Cancels a running or paused run. Blocks that are still executing are aborted and the
+ * run is logged as cancelled together with the blocks that already ran.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; runId: string }> }
+) {
+  const requestId = crypto.randomUUID().slice(0, 8)
+  const { id, runId } = await params
+
+  try {
+    const validation = await validateWorkflowAccess(request, id)
+    if (validation.error) {
+      logger.warn(`[${requestId}] Workflow access validation failed: ${validation.error.message}`)
+      return createErrorResponse(validation.error.message, validation.error.status)
+    }
+
+    const run = await getExecutionRun(runId)
+    if (!run || run.workflowId !== id) {
+      return createErrorResponse('Run not found', 404)
+    }
+
+    if (!['queued', 'running', 'paused'].includes(run.status)) {
+      return createErrorResponse(`Run has already ${run.status}`, 409, 'RUN_NOT_CANCELLABLE')
+    }
+
+    const cancelledRun = await cancelExecutionRun(run)
+    if (!cancelledRun) {
+      return createErrorResponse('Run has already finished', 409, 'RUN_NOT_CANCELLABLE')
+    }
+
+    logger.info(`[${requestId}] Cancelled run ${runId} of workflow ${id}`)
+
+    return createSuccessResponse({ runId, status: cancelledRun.status })
+  } catch (error: any) {
+    logger.error(`[${requestId}] Error cancelling run ${runId} of workflow ${id}`, error)
+    return createErrorResponse(error.message || 'Failed to cancel run', 500, 'CANCEL_ERROR')
+  }
+}
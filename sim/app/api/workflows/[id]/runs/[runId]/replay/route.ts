@@ -0,0 +1,74 @@
+import type { NextRequest } from 'next/server'
+import { z } from 'zod'
+import { createLogger } from '@/lib/logs/console-logger'
+import { loadWorkflowFromNormalizedTables } from '@/lib/workflows/db-helpers'
+import { replayExecutionRun } from '@/lib/workflows/execution-replay'
+import { getExecutionRun } from '@/lib/workflows/execution-runs'
+import type { WorkflowState } from '@/stores/workflows/workflow/types'
+import { validateWorkflowPermission } from '../../../../middleware'
+import { createErrorResponse, createSuccessResponse } from '../../../../utils'
+
+const logger = createLogger('WorkflowRunReplayAPI')
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+const ReplayRunSchema = z.object({
+  useRunState: z.boolean().optional(), // Replays the state the run was recorded with instead of the editor state
+})
+
+/**
+ * Replays a run recorded with the execute endpoint's "record" option.
+ * Tools and providers answer with the recorded responses, so the replay is
+ * deterministic and does not call external services.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; runId: string }> }
+) {
+  const requestId = crypto.randomUUID().slice(0, 8)
+  const { id, runId } = await params
+
+  try {
+    const access = await validateWorkflowPermission(request, id, true)
+    if (access.error) {
+      return access.error
+    }
+
+    const parsed = ReplayRunSchema.safeParse(await request.json().catch(() => ({})))
+    if (!parsed.success) {
+      return createErrorResponse('Invalid replay options', 400)
+    }
+
+    const run = await getExecutionRun(runId)
+    if (!run || run.workflowId !== id) {
+      return createErrorResponse('Run not found', 404)
+    }
+
+    if (!run.recording) {
+      return createErrorResponse(
+        'Run was not recorded; execute the workflow with record=true to replay it',
+        409,
+        'RUN_NOT_RECORDED'
+      )
+    }
+
+    let state: WorkflowState
+    if (parsed.data.useRunState) {
+      state = run.workflowState as WorkflowState
+    } else {
+      const normalized = await loadWorkflowFromNormalizedTables(id)
+      state = (normalized ?? access.workflow.state) as WorkflowState
+    }
+
+    const result = await replayExecutionRun(access.workflow, state, run, requestId)
+    logger.info(`[${requestId}] Replayed run ${runId} of workflow ${id}`, {
+      success: result.success,
+    })
+
+    return createSuccessResponse({ runId, result })
+  } catch (error: any) {
+    logger.error(`[${requestId}] Error replaying run ${runId} of workflow ${id}`, error)
+    return createErrorResponse(error.message || 'Failed to replay run', 500)
+  }
+}
@@ -0,0 +1,52 @@
+import { type NextRequest, NextResponse } from 'next/server'
+import { createLogger } from '@/lib/logs/console-logger'
+import { getExecutionRun } from '@/lib/workflows/execution-runs'
+import type { ExecutionResult } from '@/executor/types'
+import { validateWorkflowAccess } from '../../../../middleware'
+import { createErrorResponse, createSuccessResponse } from '../../../../utils'
+
+const logger = createLogger('WorkflowRunResultAPI')
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+/**
+ * Returns the final ExecutionResult of a run. Runs that are still executing or waiting
+ * for approvals respond with 202 and their status, so callers can keep polling.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; runId: string }> }
+) {
+  const requestId = crypto.randomUUID().slice(0, 8)
+  const { id, runId } = await params
+
+  try {
+    const validation = await validateWorkflowAccess(request, id)
+    if (validation.error) {
+      logger.warn(`[${requestId}] Workflow access validation failed: ${validation.error.message}`)
+      return createErrorResponse(validation.error.message, validation.error.status)
+    }
+
+    const run = await getExecutionRun(runId)
+    if (!run || run.workflowId !== id) {
+      return createErrorResponse('Run not found', 404)
+    }
+
+    if (['queued', 'running', 'paused'].includes(run.status)) {
+      return NextResponse.json({ runId: run.id, status: run.status }, { status: 202 })
+    }
+
+    // Runs that failed before the executor produced a result only have their error
+    const result = (run.result as ExecutionResult | null) ?? {
+      success: false,
+      output: { response: {} },
+      error: run.error || 'Workflow execution failed',
+    }
+
+    return createSuccessResponse({ ...result, runId: run.id, status: run.status })
+  } catch (error: any) {
+    logger.error(`[${requestId}] Error fetching result of run ${runId}`, error)
+    return createErrorResponse(error.message || 'Failed to fetch run result', 500)
+  }
+}
@@ -0,0 +1,93 @@
+import type { NextRequest } from 'next/server'
+import { createLogger } from '@/lib/logs/console-logger'
+import { checkServerSideUsageLimits } from '@/lib/usage-monitor'
+import { resumeExecutionRun } from '@/lib/workflows/execution-resume'
+import {
+  claimExecutionRunForResume,
+  getExecutionRun,
+  isExecutionRunResumable,
+} from '@/lib/workflows/execution-runs'
+import {
+  createHttpResponseFromBlock,
+  createPausedExecutionResponse,
+  workflowHasResponseBlock,
+} from '@/lib/workflows/utils'
+import { validateWorkflowAccess } from '../../../../middleware'
+import { createErrorResponse, createSuccessResponse } from '../../../../utils'
+
+const logger = createLogger('WorkflowRunResumeAPI')
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+/**
+ * Resumes an interrupted or failed run from its last completed execution layer.
+ * Runs paused for approvals are resumed by deciding their approvals instead.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; runId: string }> }
+) {
+  const requestId = crypto.randomUUID().slice(0, 8)
+  const { id, runId } = await params
+
+  try {
+    const validation = await validateWorkflowAccess(request, id)
+    if (validation.error) {
+      logger.warn(`[${requestId}] Workflow access validation failed: ${validation.error.message}`)
+      return createErrorResponse(validation.error.message, validation.error.status)
+    }
+    const workflow = validation.workflow
+
+    const run = await getExecutionRun(runId)
+    if (!run || run.workflowId !== id) {
+      return createErrorResponse('Run not found', 404)
+    }
+
+    if (!isExecutionRunResumable(run)) {
+      logger.warn(`[${requestId}] Run ${runId} with status ${run.status} cannot be resumed`)
+      return createErrorResponse(
+        run.status === 'completed'
+          ? 'Run has already completed'
+          : run.status === 'paused'
+            ? 'Run is waiting for approval'
+            : run.status === 'queued'
+              ? 'Run is queued for the run worker'
+              : run.status === 'cancelled'
+                ? 'Run was cancelled'
+                : 'Run is still in progress',
+        409,
+        'RUN_NOT_RESUMABLE'
+      )
+    }
+
+    const usageCheck = await checkServerSideUsageLimits(workflow.userId)
+    if (usageCheck.isExceeded) {
+      return createErrorResponse(
+        usageCheck.message || 'Usage limit exceeded. Please upgrade your plan to continue.',
+        402,
+        'USAGE_LIMIT_EXCEEDED'
+      )
+    }
+
+    const claimedRun = await claimExecutionRunForResume(run)
+    if (!claimedRun) {
+      return createErrorResponse('Run is already being resumed', 409, 'RUN_NOT_RESUMABLE')
+    }
+
+    const executionResult = await resumeExecutionRun(claimedRun, workflow, requestId)
+
+    if (executionResult.metadata?.isPaused) {
+      return createPausedExecutionResponse(executionResult, runId)
+    }
+
+    if (workflowHasResponseBlock(executionResult)) {
+      return createHttpResponseFromBlock(executionResult)
+    }
+
+    return createSuccessResponse({ ...executionResult, runId })
+  } catch (error: any) {
+    logger.error(`[${requestId}] Error resuming run ${runId} of workflow ${id}`, error)
+    return createErrorResponse(error.message || 'Failed to resume run', 500, 'EXECUTION_ERROR')
+  }
+}
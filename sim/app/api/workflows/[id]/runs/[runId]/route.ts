@@ -0,0 +1,50 @@
+import type { NextRequest } from 'next/server'
+import { createLogger } from '@/lib/logs/console-logger'
+import { getExecutionRun } from '@/lib/workflows/execution-runs'
+import { validateWorkflowAccess } from '../../../middleware'
+import { createErrorResponse, createSuccessResponse } from '../../../utils'
+
+const logger = createLogger('WorkflowRunStatusAPI')
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+/**
+ * Returns the status of a run, so callers of the async execute mode can poll for completion.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; runId: string }> }
+) {
+  const requestId = crypto.randomUUID().slice(0, 8)
+  const { id, runId } = await params
+
+  try {
+    const validation = await validateWorkflowAccess(request, id)
+    if (validation.error) {
+      logger.warn(`[${requestId}] Workflow access validation failed: ${validation.error.message}`)
+      return createErrorResponse(validation.error.message, validation.error.status)
+    }
+
+    const run = await getExecutionRun(runId)
+    if (!run || run.workflowId !== id) {
+      return createErrorResponse('Run not found', 404)
+    }
+
+    return createSuccessResponse({
+      runId: run.id,
+      workflowId: run.workflowId,
+      status: run.status,
+      trigger: run.trigger,
+      completedLayers: run.completedLayers,
+      resumeCount: run.resumeCount,
+      error: run.error,
+      startedAt: run.startedAt,
+      updatedAt: run.updatedAt,
+      completedAt: run.completedAt,
+    })
+  } catch (error: any) {
+    logger.error(`[${requestId}] Error fetching run ${runId} of workflow ${id}`, error)
+    return createErrorResponse(error.message || 'Failed to fetch run', 500)
+  }
+}
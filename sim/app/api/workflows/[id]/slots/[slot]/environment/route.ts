@@ -0,0 +1,113 @@
+import type { NextRequest } from 'next/server'
+import { z } from 'zod'
+import { createLogger } from '@/lib/logs/console-logger'
+import { decryptSecret, encryptSecret } from '@/lib/utils'
+import {
+  getSlotVariables,
+  isDeploymentSlot,
+  setSlotVariables,
+} from '@/lib/workflows/deployment-slots'
+import { validateWorkflowPermission } from '../../../../middleware'
+import { createErrorResponse, createSuccessResponse } from '../../../../utils'
+
+const logger = createLogger('WorkflowSlotEnvironmentAPI')
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+const EnvVarSchema = z.object({
+  variables: z.record(z.string()),
+})
+
+/**
+ * Checks the slot name and that the signed-in user owns the workflow,
+ * since slot variables hold secrets.
+ */
+async function validateSlotAccess(request: NextRequest, id: string, slot: string) {
+  if (!isDeploymentSlot(slot)) {
+    return { error: createErrorResponse(`Unknown deployment slot: ${slot}`, 404) }
+  }
+
+  const access = await validateWorkflowPermission(request, id, true)
+  if (access.error) {
+    return { error: access.error }
+  }
+
+  return { slot }
+}
+
+/**
+ * Returns the decrypted environment variables of a slot. They override the
+ * user's environment variables when the slot executes.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; slot: string }> }
+) {
+  const requestId = crypto.randomUUID().slice(0, 8)
+  const { id, slot } = await params
+
+  try {
+    const access = await validateSlotAccess(request, id, slot)
+    if (access.error) {
+      return access.error
+    }
+
+    const encryptedVariables = await getSlotVariables(id, access.slot)
+    const variables: Record<string, string> = {}
+    for (const [key, encryptedValue] of Object.entries(encryptedVariables)) {
+      try {
+        const { decrypted } = await decryptSecret(encryptedValue)
+        variables[key] = decrypted
+      } catch (error) {
+        logger.error(`[${requestId}] Error decrypting variable ${key} of ${slot}`, error)
+        variables[key] = ''
+      }
+    }
+
+    return createSuccessResponse({ slot, variables })
+  } catch (error: any) {
+    logger.error(`[${requestId}] Error fetching ${slot} variables of workflow: ${id}`, error)
+    return createErrorResponse(error.message || 'Failed to fetch environment variables', 500)
+  }
+}
+
+/**
+ * Replaces the environment variables of a slot.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; slot: string }> }
+) {
+  const requestId = crypto.randomUUID().slice(0, 8)
+  const { id, slot } = await params
+
+  try {
+    const access = await validateSlotAccess(request, id, slot)
+    if (access.error) {
+      return access.error
+    }
+
+    const parsed = EnvVarSchema.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      logger.warn(`[${requestId}] Invalid ${slot} variables for workflow ${id}`, {
+        errors: parsed.error.errors,
+      })
+      return createErrorResponse('Invalid request data', 400)
+    }
+
+    const encryptedVariables: Record<string, string> = {}
+    for (const [key, value] of Object.entries(parsed.data.variables)) {
+      const { encrypted } = await encryptSecret(value)
+      encryptedVariables[key] = encrypted
+    }
+
+    await setSlotVariables(id, access.slot, encryptedVariables)
+
+    logger.info(`[${requestId}] Updated ${slot} variables of workflow ${id}`)
+    return createSuccessResponse({ slot, success: true })
+  } catch (error: any) {
+    logger.error(`[${requestId}] Error updating ${slot} variables of workflow: ${id}`, error)
+    return createErrorResponse(error.message || 'Failed to update environment variables', 500)
+  }
+}
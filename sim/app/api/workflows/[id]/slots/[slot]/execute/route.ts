@@ -0,0 +1,8 @@
+/**
+ * Execution endpoint of a single deployment slot, e.g. /api/workflows/{id}/slots/staging/execute.
+ * The handlers are shared with the prod endpoint and read the slot from the route params.
+ */
+export { GET, OPTIONS, POST } from '../../../execute/route'
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
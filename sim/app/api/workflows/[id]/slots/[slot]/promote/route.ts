@@ -0,0 +1,65 @@
+import type { NextRequest } from 'next/server'
+import { z } from 'zod'
+import { createLogger } from '@/lib/logs/console-logger'
+import {
+  DEPLOYMENT_SLOTS,
+  isDeploymentSlot,
+  promoteDeployment,
+} from '@/lib/workflows/deployment-slots'
+import { validateWorkflowPermission } from '../../../../middleware'
+import { createErrorResponse, createSuccessResponse } from '../../../../utils'
+
+const logger = createLogger('WorkflowSlotPromoteAPI')
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+const PromoteSchema = z.object({
+  from: z.enum(DEPLOYMENT_SLOTS),
+})
+
+/**
+ * Copies the version deployed in another slot into this one, e.g. staging to prod.
+ * No new version is created, so prod runs exactly what was tested.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; slot: string }> }
+) {
+  const requestId = crypto.randomUUID().slice(0, 8)
+  const { id, slot } = await params
+
+  try {
+    if (!isDeploymentSlot(slot)) {
+      return createErrorResponse(`Unknown deployment slot: ${slot}`, 404)
+    }
+
+    const access = await validateWorkflowPermission(request, id, true)
+    if (access.error) {
+      return access.error
+    }
+
+    const parsed = PromoteSchema.safeParse(await request.json().catch(() => ({})))
+    if (!parsed.success) {
+      return createErrorResponse('A source slot (dev, staging or prod) is required', 400)
+    }
+
+    const { from } = parsed.data
+    if (from === slot) {
+      return createErrorResponse('Cannot promote a slot to itself', 400)
+    }
+
+    const version = await promoteDeployment(id, from, slot)
+    if (version === undefined) {
+      return createErrorResponse(`Nothing is deployed to ${from}`, 409)
+    }
+
+    logger.info(
+      `[${requestId}] Promoted version ${version} of workflow ${id} from ${from} to ${slot}`
+    )
+    return createSuccessResponse({ slot, isDeployed: true, deployedVersion: version })
+  } catch (error: any) {
+    logger.error(`[${requestId}] Error promoting workflow ${id} to ${slot}`, error)
+    return createErrorResponse(error.message || 'Failed to promote deployment', 500)
+  }
+}
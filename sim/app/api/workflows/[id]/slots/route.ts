@@ -0,0 +1,40 @@
+import type { NextRequest } from 'next/server'
+import { createLogger } from '@/lib/logs/console-logger'
+import { getBaseUrl } from '@/lib/urls/utils'
+import { listSlotDeployments } from '@/lib/workflows/deployment-slots'
+import { validateWorkflowPermission } from '../../middleware'
+import { createErrorResponse, createSuccessResponse } from '../../utils'
+
+const logger = createLogger('WorkflowSlotsAPI')
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+/**
+ * Lists the dev, staging and prod deployments of a workflow with their API endpoints.
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const requestId = crypto.randomUUID().slice(0, 8)
+  const { id } = await params
+
+  try {
+    const access = await validateWorkflowPermission(request, id, true)
+    if (access.error) {
+      return access.error
+    }
+
+    const baseUrl = getBaseUrl()
+    const slots = (await listSlotDeployments(id)).map((deployment) => ({
+      ...deployment,
+      endpoint:
+        deployment.slot === 'prod'
+          ? `${baseUrl}/api/workflows/${id}/execute`
+          : `${baseUrl}/api/workflows/${id}/slots/${deployment.slot}/execute`,
+    }))
+
+    return createSuccessResponse({ slots })
+  } catch (error: any) {
+    logger.error(`[${requestId}] Error listing deployment slots of workflow: ${id}`, error)
+    return createErrorResponse(error.message || 'Failed to list deployment slots', 500)
+  }
+}
@@ -0,0 +1,112 @@
+import { and, eq } from 'drizzle-orm'
+import type { NextRequest } from 'next/server'
+import { createLogger } from '@/lib/logs/console-logger'
+import { TestCaseSchema } from '@/lib/workflows/test-suites'
+import { db } from '@/db'
+import { workflowTestCase } from '@/db/schema'
+import { validateWorkflowPermission } from '../../../middleware'
+import { createErrorResponse, createSuccessResponse } from '../../../utils'
+
+const logger = createLogger('WorkflowTestCaseAPI')
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+type RouteParams = { params: Promise<{ id: string; testId: string }> }
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const requestId = crypto.randomUUID().slice(0, 8)
+  const { id, testId } = await params
+
+  try {
+    const access = await validateWorkflowPermission(request, id)
+    if (access.error) {
+      return access.error
+    }
+
+    const [test] = await db
+      .select()
+      .from(workflowTestCase)
+      .where(and(eq(workflowTestCase.id, testId), eq(workflowTestCase.workflowId, id)))
+      .limit(1)
+    if (!test) {
+      return createErrorResponse('Test case not found', 404)
+    }
+
+    return createSuccessResponse({ test })
+  } catch (error: any) {
+    logger.error(`[${requestId}] Error fetching test case ${testId} of workflow: ${id}`, error)
+    return createErrorResponse(error.message || 'Failed to fetch test case', 500)
+  }
+}
+
+/**
+ * Replaces a test case's name, fixtures, mocks and assertions.
+ */
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  const requestId = crypto.randomUUID().slice(0, 8)
+  const { id, testId } = await params
+
+  try {
+    const access = await validateWorkflowPermission(request, id, true)
+    if (access.error) {
+      return access.error
+    }
+
+    const parsed = TestCaseSchema.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      return createErrorResponse(
+        parsed.error.errors.map((error) => error.message).join(', '),
+        400,
+        'INVALID_TEST_CASE'
+      )
+    }
+
+    const [test] = await db
+      .update(workflowTestCase)
+      .set({
+        name: parsed.data.name,
+        description: parsed.data.description ?? null,
+        input: parsed.data.input ?? null,
+        mocks: parsed.data.mocks,
+        assertions: parsed.data.assertions,
+        updatedAt: new Date(),
+      })
+      .where(and(eq(workflowTestCase.id, testId), eq(workflowTestCase.workflowId, id)))
+      .returning()
+    if (!test) {
+      return createErrorResponse('Test case not found', 404)
+    }
+
+    return createSuccessResponse({ test })
+  } catch (error: any) {
+    logger.error(`[${requestId}] Error updating test case ${testId} of workflow: ${id}`, error)
+    return createErrorResponse(error.message || 'Failed to update test case', 500)
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  const requestId = crypto.randomUUID().slice(0, 8)
+  const { id, testId } = await params
+
+  try {
+    const access = await validateWorkflowPermission(request, id, true)
+    if (access.error) {
+      return access.error
+    }
+
+    const deleted = await db
+      .delete(workflowTestCase)
+      .where(and(eq(workflowTestCase.id, testId), eq(workflowTestCase.workflowId, id)))
+      .returning({ id: workflowTestCase.id })
+    if (deleted.length === 0) {
+      return createErrorResponse('Test case not found', 404)
+    }
+
+    logger.info(`[${requestId}] Deleted test case ${testId} of workflow ${id}`)
+    return createSuccessResponse({ success: true })
+  } catch (error: any) {
+    logger.error(`[${requestId}] Error deleting test case ${testId} of workflow: ${id}`, error)
+    return createErrorResponse(error.message || 'Failed to delete test case', 500)
+  }
+}
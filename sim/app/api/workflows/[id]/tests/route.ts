@@ -0,0 +1,77 @@
+import type { NextRequest } from 'next/server'
+import { v4 as uuidv4 } from 'uuid'
+import { createLogger } from '@/lib/logs/console-logger'
+import { listTestCases, TestCaseSchema } from '@/lib/workflows/test-suites'
+import { db } from '@/db'
+import { workflowTestCase } from '@/db/schema'
+import { validateWorkflowPermission } from '../../middleware'
+import { createErrorResponse, createSuccessResponse } from '../../utils'
+
+const logger = createLogger('WorkflowTestsAPI')
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+/**
+ * Lists the test cases of a workflow.
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const requestId = crypto.randomUUID().slice(0, 8)
+  const { id } = await params
+
+  try {
+    const access = await validateWorkflowPermission(request, id)
+    if (access.error) {
+      return access.error
+    }
+
+    const tests = await listTestCases(id)
+    return createSuccessResponse({ tests })
+  } catch (error: any) {
+    logger.error(`[${requestId}] Error listing test cases of workflow: ${id}`, error)
+    return createErrorResponse(error.message || 'Failed to list test cases', 500)
+  }
+}
+
+/**
+ * Adds a test case to a workflow.
+ */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const requestId = crypto.randomUUID().slice(0, 8)
+  const { id } = await params
+
+  try {
+    const access = await validateWorkflowPermission(request, id, true)
+    if (access.error) {
+      return access.error
+    }
+
+    const parsed = TestCaseSchema.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      return createErrorResponse(
+        parsed.error.errors.map((error) => error.message).join(', '),
+        400,
+        'INVALID_TEST_CASE'
+      )
+    }
+
+    const [test] = await db
+      .insert(workflowTestCase)
+      .values({
+        id: uuidv4(),
+        workflowId: id,
+        name: parsed.data.name,
+        description: parsed.data.description ?? null,
+        input: parsed.data.input ?? null,
+        mocks: parsed.data.mocks,
+        assertions: parsed.data.assertions,
+      })
+      .returning()
+
+    logger.info(`[${requestId}] Created test case ${test.id} for workflow ${id}`)
+    return createSuccessResponse({ test })
+  } catch (error: any) {
+    logger.error(`[${requestId}] Error creating test case for workflow: ${id}`, error)
+    return createErrorResponse(error.message || 'Failed to create test case', 500)
+  }
+}
@@ -0,0 +1,81 @@
+import type { NextRequest } from 'next/server'
+import { z } from 'zod'
+import { createLogger } from '@/lib/logs/console-logger'
+import { loadWorkflowFromNormalizedTables } from '@/lib/workflows/db-helpers'
+import { listTestCases, runWorkflowTestCase } from '@/lib/workflows/test-suites'
+import { getDeploymentVersion } from '@/lib/workflows/versions'
+import type { WorkflowState } from '@/stores/workflows/workflow/types'
+import { validateWorkflowPermission } from '../../../middleware'
+import { createErrorResponse, createSuccessResponse } from '../../../utils'
+
+const logger = createLogger('WorkflowTestRunAPI')
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+const RunTestsSchema = z.object({
+  testIds: z.array(z.string()).optional(), // Runs every test case when omitted
+  version: z.number().int().positive().optional(), // Tests a deployed version instead of the editor state
+  includeResults: z.boolean().optional(), // Adds each case's full ExecutionResult to the report
+})
+
+/**
+ * Runs a workflow's test cases against the editor state (or a deployed version)
+ * and reports pass/fail per case. Cases run one after another in sandbox mode.
+ */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const requestId = crypto.randomUUID().slice(0, 8)
+  const { id } = await params
+
+  try {
+    const access = await validateWorkflowPermission(request, id, true)
+    if (access.error) {
+      return access.error
+    }
+
+    // Running without a body runs every test case against the editor state
+    const parsed = RunTestsSchema.safeParse(await request.json().catch(() => ({})))
+    if (!parsed.success) {
+      return createErrorResponse('Invalid test run options', 400)
+    }
+    const { testIds, version, includeResults } = parsed.data
+
+    let state: WorkflowState
+    if (version !== undefined) {
+      const deployed = await getDeploymentVersion(id, version)
+      if (!deployed) {
+        return createErrorResponse(`Version ${version} not found`, 404)
+      }
+      state = deployed.state as WorkflowState
+    } else {
+      const normalized = await loadWorkflowFromNormalizedTables(id)
+      state = (normalized ?? access.workflow.state) as WorkflowState
+    }
+
+    const tests = (await listTestCases(id)).filter((test) => !testIds || testIds.includes(test.id))
+    if (tests.length === 0) {
+      return createErrorResponse('No test cases to run', 404)
+    }
+
+    logger.info(`[${requestId}] Running ${tests.length} test cases of workflow ${id}`)
+    const results = []
+    for (const test of tests) {
+      const result = await runWorkflowTestCase(access.workflow, state, test, requestId)
+      results.push(includeResults ? result : { ...result, result: undefined })
+    }
+
+    const passed = results.filter((result) => result.passed).length
+    logger.info(`[${requestId}] ${passed}/${results.length} test cases of workflow ${id} passed`)
+
+    return createSuccessResponse({
+      success: passed === results.length,
+      total: results.length,
+      passed,
+      failed: results.length - passed,
+      results,
+    })
+  } catch (error: any) {
+    logger.error(`[${requestId}] Error running test cases of workflow: ${id}`, error)
+    return createErrorResponse(error.message || 'Failed to run test cases', 500)
+  }
+}
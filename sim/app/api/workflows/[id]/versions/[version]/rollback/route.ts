@@ -0,0 +1,45 @@
+import type { NextRequest } from 'next/server'
+import { createLogger } from '@/lib/logs/console-logger'
+import { rollbackToDeploymentVersion } from '@/lib/workflows/versions'
+import { validateWorkflowPermission } from '../../../../middleware'
+import { createErrorResponse, createSuccessResponse } from '../../../../utils'
+
+const logger = createLogger('WorkflowVersionRollbackAPI')
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+/**
+ * Makes an earlier version the live deployment. The editor state is left untouched.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; version: string }> }
+) {
+  const requestId = crypto.randomUUID().slice(0, 8)
+  const { id, version } = await params
+
+  try {
+    const access = await validateWorkflowPermission(request, id, true)
+    if (access.error) {
+      return access.error
+    }
+
+    const versionNumber = Number.parseInt(version, 10)
+    const target = Number.isNaN(versionNumber)
+      ? undefined
+      : await rollbackToDeploymentVersion(id, versionNumber)
+    if (!target) {
+      return createErrorResponse('Version not found', 404)
+    }
+
+    logger.info(`[${requestId}] Rolled back workflow ${id} to version ${target.version}`)
+    return createSuccessResponse({
+      isDeployed: true,
+      deployedVersion: target.version,
+    })
+  } catch (error: any) {
+    logger.error(`[${requestId}] Error rolling back workflow ${id} to version ${version}`, error)
+    return createErrorResponse(error.message || 'Failed to roll back deployment', 500)
+  }
+}
@@ -0,0 +1,91 @@
+import type { NextRequest } from 'next/server'
+import { z } from 'zod'
+import { createLogger } from '@/lib/logs/console-logger'
+import { getDeploymentVersion, updateDeploymentVersionLabel } from '@/lib/workflows/versions'
+import { validateWorkflowPermission } from '../../../middleware'
+import { createErrorResponse, createSuccessResponse } from '../../../utils'
+
+const logger = createLogger('WorkflowVersionAPI')
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+const LabelSchema = z.object({
+  label: z.string().trim().max(100).nullable(),
+})
+
+/**
+ * Returns a deployed version including its workflow state.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; version: string }> }
+) {
+  const requestId = crypto.randomUUID().slice(0, 8)
+  const { id, version } = await params
+
+  try {
+    const access = await validateWorkflowPermission(request, id)
+    if (access.error) {
+      return access.error
+    }
+
+    const versionNumber = Number.parseInt(version, 10)
+    const deploymentVersion = Number.isNaN(versionNumber)
+      ? undefined
+      : await getDeploymentVersion(id, versionNumber)
+    if (!deploymentVersion) {
+      return createErrorResponse('Version not found', 404)
+    }
+
+    return createSuccessResponse({
+      version: {
+        ...deploymentVersion,
+        isLive:
+          access.workflow.isDeployed &&
+          access.workflow.deployedVersion === deploymentVersion.version,
+      },
+    })
+  } catch (error: any) {
+    logger.error(`[${requestId}] Error fetching version ${version} of workflow: ${id}`, error)
+    return createErrorResponse(error.message || 'Failed to fetch version', 500)
+  }
+}
+
+/**
+ * Updates the label of a deployed version. The deployed state itself is immutable.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; version: string }> }
+) {
+  const requestId = crypto.randomUUID().slice(0, 8)
+  const { id, version } = await params
+
+  try {
+    const access = await validateWorkflowPermission(request, id, true)
+    if (access.error) {
+      return access.error
+    }
+
+    const parsed = LabelSchema.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      return createErrorResponse('Invalid label', 400)
+    }
+
+    const versionNumber = Number.parseInt(version, 10)
+    const updated = Number.isNaN(versionNumber)
+      ? undefined
+      : await updateDeploymentVersionLabel(id, versionNumber, parsed.data.label || null)
+    if (!updated) {
+      return createErrorResponse('Version not found', 404)
+    }
+
+    logger.info(`[${requestId}] Relabeled version ${version} of workflow: ${id}`)
+    const { state: _state, ...summary } = updated
+    return createSuccessResponse({ version: summary })
+  } catch (error: any) {
+    logger.error(`[${requestId}] Error updating version ${version} of workflow: ${id}`, error)
+    return createErrorResponse(error.message || 'Failed to update version', 500)
+  }
+}
@@ -0,0 +1,51 @@
+import type { NextRequest } from 'next/server'
+import { createLogger } from '@/lib/logs/console-logger'
+import { diffWorkflowStates } from '@/lib/workflows/utils'
+import { getDeploymentVersion } from '@/lib/workflows/versions'
+import type { WorkflowState } from '@/stores/workflows/workflow/types'
+import { validateWorkflowPermission } from '../../../middleware'
+import { createErrorResponse, createSuccessResponse } from '../../../utils'
+
+const logger = createLogger('WorkflowVersionDiffAPI')
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+/**
+ * Returns the structural diff between two deployed versions, e.g. ?from=3&to=5.
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const requestId = crypto.randomUUID().slice(0, 8)
+  const { id } = await params
+
+  try {
+    const access = await validateWorkflowPermission(request, id)
+    if (access.error) {
+      return access.error
+    }
+
+    const { searchParams } = new URL(request.url)
+    const from = Number.parseInt(searchParams.get('from') || '', 10)
+    const to = Number.parseInt(searchParams.get('to') || '', 10)
+    if (Number.isNaN(from) || Number.isNaN(to)) {
+      return createErrorResponse('Both "from" and "to" versions are required', 400)
+    }
+
+    const [fromVersion, toVersion] = await Promise.all([
+      getDeploymentVersion(id, from),
+      getDeploymentVersion(id, to),
+    ])
+    if (!fromVersion || !toVersion) {
+      return createErrorResponse('Version not found', 404)
+    }
+
+    const diff = diffWorkflowStates(
+      fromVersion.state as WorkflowState,
+      toVersion.state as WorkflowState
+    )
+    return createSuccessResponse({ from, to, diff })
+  } catch (error: any) {
+    logger.error(`[${requestId}] Error diffing versions of workflow: ${id}`, error)
+    return createErrorResponse(error.message || 'Failed to diff versions', 500)
+  }
+}
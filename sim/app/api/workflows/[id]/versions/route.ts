@@ -0,0 +1,31 @@
+import type { NextRequest } from 'next/server'
+import { createLogger } from '@/lib/logs/console-logger'
+import { listDeploymentVersions } from '@/lib/workflows/versions'
+import { validateWorkflowPermission } from '../../middleware'
+import { createErrorResponse, createSuccessResponse } from '../../utils'
+
+const logger = createLogger('WorkflowVersionsAPI')
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+/**
+ * Lists the deployed versions of a workflow, newest first.
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const requestId = crypto.randomUUID().slice(0, 8)
+  const { id } = await params
+
+  try {
+    const access = await validateWorkflowPermission(request, id)
+    if (access.error) {
+      return access.error
+    }
+
+    const versions = await listDeploymentVersions(id)
+    return createSuccessResponse({ versions })
+  } catch (error: any) {
+    logger.error(`[${requestId}] Error listing versions of workflow: ${id}`, error)
+    return createErrorResponse(error.message || 'Failed to list versions', 500)
+  }
+}
@@ -0,0 +1,71 @@
+import { NextResponse } from 'next/server'
+import { env } from '@/lib/env'
+import { createLogger } from '@/lib/logs/console-logger'
+import { getExpiredApprovals, recordApprovalDecision } from '@/lib/workflows/approvals'
+import { queueRunAfterApprovals } from '@/lib/workflows/execution-resume'
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+const logger = createLogger('ApprovalExpiry')
+
+/**
+ * Applies the default action to approvals whose timeout has passed and queues the runs
+ * that no longer wait on anyone for the run worker.
+ */
+export async function GET(request: Request) {
+  const requestId = crypto.randomUUID().slice(0, 8)
+
+  try {
+    const authHeader = request.headers.get('authorization')
+
+    if (!env.CRON_SECRET) {
+      return new NextResponse('Configuration error: Cron secret is not set', { status: 500 })
+    }
+
+    if (!authHeader || authHeader !== `Bearer ${env.CRON_SECRET}`) {
+      logger.warn('Unauthorized access attempt to approval expiry endpoint')
+      return new NextResponse('Unauthorized', { status: 401 })
+    }
+
+    const expiredApprovals = await getExpiredApprovals()
+    logger.info(`[${requestId}] Found ${expiredApprovals.length} expired approvals`)
+
+    const runIds = new Set<string>()
+    for (const approval of expiredApprovals) {
+      const updated = await recordApprovalDecision(
+        approval.id,
+        {
+          action: approval.defaultAction === 'approve' ? 'approve' : 'reject',
+          comment: 'Approval timed out',
+          decidedBy: 'timeout',
+          decidedAt: new Date().toISOString(),
+        },
+        true
+      )
+      if (updated) {
+        runIds.add(approval.runId)
+      }
+    }
+
+    let queuedRuns = 0
+    for (const runId of runIds) {
+      try {
+        if (await queueRunAfterApprovals(runId, requestId)) {
+          queuedRuns++
+        }
+      } catch (error) {
+        logger.error(`[${requestId}] Error queueing run ${runId} after approval timeout`, error)
+      }
+    }
+
+    return NextResponse.json({
+      message: 'Expired approvals processed',
+      expiredApprovals: expiredApprovals.length,
+      queuedRuns,
+    })
+  } catch (error: any) {
+    logger.error(`[${requestId}] Error processing expired approvals`, error)
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+}
@@ -1,9 +1,13 @@
 import { eq } from 'drizzle-orm'
 import type { NextRequest } from 'next/server'
+import { getSession } from '@/lib/auth'
 import { createLogger } from '@/lib/logs/console-logger'
+import { getUserEntityPermissions } from '@/lib/permissions/utils'
+import { type DeploymentSlot, isSlotDeployed } from '@/lib/workflows/deployment-slots'
 import { getWorkflowById } from '@/lib/workflows/utils'
 import { db } from '@/db'
 import { apiKey } from '@/db/schema'
+import { createErrorResponse } from './utils'
 
 const logger = createLogger('WorkflowMiddleware')
 
@@ -15,7 +19,8 @@ export interface ValidationResult {
 export async function validateWorkflowAccess(
   request: NextRequest,
   workflowId: string,
-  requireDeployment = true
+  requireDeployment = true,
+  slot: DeploymentSlot = 'prod'
 ): Promise<ValidationResult> {
   try {
     const workflow = await getWorkflowById(workflowId)
@@ -29,10 +34,13 @@ export async function validateWorkflowAccess(
     }
 
     if (requireDeployment) {
-      if (!workflow.isDeployed) {
+      const isDeployed =
+        slot === 'prod' ? workflow.isDeployed : await isSlotDeployed(workflowId, slot)
+      if (!isDeployed) {
         return {
           error: {
-            message: 'Workflow is not deployed',
+            message:
+              slot === 'prod' ? 'Workflow is not deployed' : `Workflow is not deployed to ${slot}`,
             status: 403,
           },
         }
@@ -86,3 +94,39 @@ export async function validateWorkflowAccess(
     }
   }
 }
+
+/**
+ * Checks that the signed-in user owns the workflow or can access its workspace.
+ * Routes that change deployments, versions or test suites pass requireWrite, so
+ * workspace members need write or admin permission there.
+ */
+export async function validateWorkflowPermission(
+  request: NextRequest,
+  workflowId: string,
+  requireWrite = false
+) {
+  const session = await getSession()
+  if (!session?.user?.id) {
+    return { error: createErrorResponse('Unauthorized', 401) }
+  }
+
+  const validation = await validateWorkflowAccess(request, workflowId, false)
+  if (validation.error) {
+    return { error: createErrorResponse(validation.error.message, validation.error.status) }
+  }
+
+  const workflow = validation.workflow
+  if (workflow.userId !== session.user.id) {
+    const permission = workflow.workspaceId
+      ? await getUserEntityPermissions(session.user.id, 'workspace', workflow.workspaceId)
+      : null
+    const isAuthorized = requireWrite
+      ? permission === 'write' || permission === 'admin'
+      : permission !== null
+    if (!isAuthorized) {
+      return { error: createErrorResponse('Access denied', 403) }
+    }
+  }
+
+  return { workflow }
+}
@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server'
+import { env } from '@/lib/env'
+import { createLogger } from '@/lib/logs/console-logger'
+import { processQueuedRuns } from '@/lib/workflows/execution-resume'
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+export const maxDuration = 300 // Allow up to 5 minutes for executing queued runs
+
+const logger = createLogger('RunWorker')
+
+// Runs executed per invocation; the rest wait for the next one
+const MAX_RUNS_PER_INVOCATION = 10
+
+/**
+ * Executes queued runs: async API runs and runs whose approvals were all decided.
+ * Runs are claimed atomically, so overlapping invocations never execute the same run twice.
+ */
+export async function GET(request: Request) {
+  const requestId = crypto.randomUUID().slice(0, 8)
+
+  try {
+    const authHeader = request.headers.get('authorization')
+
+    if (!env.CRON_SECRET) {
+      return new NextResponse('Configuration error: Cron secret is not set', { status: 500 })
+    }
+
+    if (!authHeader || authHeader !== `Bearer ${env.CRON_SECRET}`) {
+      logger.warn('Unauthorized access attempt to run worker endpoint')
+      return new NextResponse('Unauthorized', { status: 401 })
+    }
+
+    const processedRuns = await processQueuedRuns(requestId, MAX_RUNS_PER_INVOCATION)
+    logger.info(`[${requestId}] Executed ${processedRuns} queued runs`)
+
+    return NextResponse.json({ message: 'Queued runs processed', processedRuns })
+  } catch (error: any) {
+    logger.error(`[${requestId}] Error processing queued runs`, error)
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+}
@@ -7,6 +7,10 @@ import { noop } from '@/lib/utils'
 import { getFormattedGitHubStars } from '@/app/(landing)/actions/github'
 import EmailAuth from './components/auth/email/email-auth'
 import PasswordAuth from './components/auth/password/password-auth'
+import {
+  type ChatConversationSummary,
+  ConversationSidebar,
+} from './components/conversation-sidebar/conversation-sidebar'
 import { ChatErrorState } from './components/error-state/error-state'
 import { ChatHeader } from './components/header/header'
 import { ChatInput } from './components/input/input'
@@ -68,6 +72,20 @@ function createAudioStreamHandler(
   }
 }
 
+function getWelcomeMessages(chatConfig: ChatConfig | null): ChatMessage[] {
+  if (!chatConfig?.customizations?.welcomeMessage) return []
+
+  return [
+    {
+      id: 'welcome',
+      content: chatConfig.customizations.welcomeMessage,
+      type: 'assistant',
+      timestamp: new Date(),
+      isInitialMessage: true,
+    },
+  ]
+}
+
 function throttle<T extends (...args: any[]) => any>(func: T, delay: number): T {
   let timeoutId: NodeJS.Timeout | null = null
   let lastExecTime = 0
@@ -101,6 +119,8 @@ export default function ChatClient({ subdomain }: { subdomain: string }) {
   const messagesContainerRef = useRef<HTMLDivElement>(null)
   const [starCount, setStarCount] = useState('3.4k')
   const [conversationId, setConversationId] = useState('')
+  const [conversations, setConversations] = useState<ChatConversationSummary[]>([])
+  const [isSidebarOpen, setIsSidebarOpen] = useState(false)
 
   const [showScrollButton, setShowScrollButton] = useState(false)
   const [userHasScrolled, setUserHasScrolled] = useState(false)
@@ -220,24 +240,100 @@ export default function ChatClient({ subdomain }: { subdomain: string }) {
       const data = await response.json()
 
       setChatConfig(data)
-
-      if (data?.customizations?.welcomeMessage) {
-        setMessages([
-          {
-            id: 'welcome',
-            content: data.customizations.welcomeMessage,
-            type: 'assistant',
-            timestamp: new Date(),
-            isInitialMessage: true,
-          },
-        ])
-      }
+      setMessages(getWelcomeMessages(data))
+      void fetchConversations()
     } catch (error) {
       logger.error('Error fetching chat config:', error)
       setError('This chat is currently unavailable. Please try again later.')
     }
   }
 
+  const fetchConversations = async () => {
+    try {
+      const response = await fetch(`/api/chat/${subdomain}/conversations`, {
+        credentials: 'same-origin',
+        headers: {
+          'X-Requested-With': 'XMLHttpRequest',
+        },
+      })
+
+      if (!response.ok) {
+        throw new Error(`Failed to load conversations: ${response.status}`)
+      }
+
+      const data = await response.json()
+      setConversations(data.conversations || [])
+    } catch (error) {
+      logger.error('Error fetching conversations:', error)
+    }
+  }
+
+  const startNewConversation = () => {
+    setConversationId(uuidv4())
+    setMessages(getWelcomeMessages(chatConfig))
+    setIsSidebarOpen(false)
+  }
+
+  // Resume a past conversation with its messages
+  const loadConversation = async (id: string) => {
+    if (id === conversationId) {
+      setIsSidebarOpen(false)
+      return
+    }
+
+    try {
+      const response = await fetch(`/api/chat/${subdomain}/conversations/${id}`, {
+        credentials: 'same-origin',
+        headers: {
+          'X-Requested-With': 'XMLHttpRequest',
+        },
+      })
+
+      if (!response.ok) {
+        throw new Error(`Failed to load conversation: ${response.status}`)
+      }
+
+      const data = await response.json()
+      setConversationId(id)
+      setMessages([
+        ...getWelcomeMessages(chatConfig),
+        ...data.messages.map((message: any) => ({
+          id: message.id,
+          content: message.content,
+          type: message.role === 'user' ? 'user' : 'assistant',
+          timestamp: new Date(message.createdAt),
+        })),
+      ])
+      setIsSidebarOpen(false)
+      setTimeout(scrollToBottom, 100)
+    } catch (error) {
+      logger.error('Error loading conversation:', error)
+    }
+  }
+
+  const deleteConversation = async (id: string) => {
+    try {
+      const response = await fetch(`/api/chat/${subdomain}/conversations/${id}`, {
+        method: 'DELETE',
+        credentials: 'same-origin',
+        headers: {
+          'X-Requested-With': 'XMLHttpRequest',
+        },
+      })
+
+      if (!response.ok) {
+        throw new Error(`Failed to delete conversation: ${response.status}`)
+      }
+
+      setConversations((prev) => prev.filter((conversation) => conversation.id !== id))
+      if (id === conversationId) {
+        startNewConversation()
+      }
+    } catch (error) {
+      logger.error('Error deleting conversation:', error)
+    }
+  }
+
   // Fetch chat config on mount and generate new conversation ID
   useEffect(() => {
     fetchChatConfig()
@@ -327,6 +423,12 @@ export default function ChatClient({ subdomain }: { subdomain: string }) {
         throw new Error('Response body is missing')
       }
 
+      // The server starts a conversation when the ID is new
+      const activeConversationId = response.headers.get('X-Conversation-Id')
+      if (activeConversationId) {
+        setConversationId(activeConversationId)
+      }
+
       const messageIdMap = new Map<string, string>()
 
       // Get reader with proper cleanup
@@ -374,6 +476,18 @@ export default function ChatClient({ subdomain }: { subdomain: string }) {
                   const { blockId, chunk: contentChunk, event: eventType } = json
 
                   if (eventType === 'final') {
+                    if (json.data?.status === 'paused') {
+                      setMessages((prev) => [
+                        ...prev,
+                        {
+                          id: crypto.randomUUID(),
+                          content:
+                            'This request is waiting for an approval. It will continue once the approval is decided.',
+                          type: 'assistant',
+                          timestamp: new Date(),
+                        },
+                      ])
+                    }
                     setIsLoading(false)
                     return
                   }
@@ -437,6 +551,7 @@ export default function ChatClient({ subdomain }: { subdomain: string }) {
       }
 
       await processStream()
+      void fetchConversations()
     } catch (error: any) {
       // Clear timeout in case of error
       clearTimeout(timeoutId)
@@ -558,33 +673,51 @@ export default function ChatClient({ subdomain }: { subdomain: string }) {
 
   // Standard text-based chat interface
   return (
-    <div className='fixed inset-0 z-[100] flex flex-col bg-background'>
-      {/* Header component */}
-      <ChatHeader chatConfig={chatConfig} starCount={starCount} />
-
-      {/* Message Container component */}
-      <ChatMessageContainer
-        messages={messages}
-        isLoading={isLoading}
-        showScrollButton={showScrollButton}
-        messagesContainerRef={messagesContainerRef as RefObject<HTMLDivElement>}
-        messagesEndRef={messagesEndRef as RefObject<HTMLDivElement>}
-        scrollToBottom={scrollToBottom}
-        scrollToMessage={scrollToMessage}
-        chatConfig={chatConfig}
+    <div className='fixed inset-0 z-[100] flex bg-background'>
+      {/* Past conversations of the visitor */}
+      <ConversationSidebar
+        conversations={conversations}
+        activeConversationId={conversationId}
+        isOpen={isSidebarOpen}
+        disabled={isLoading || isStreamingResponse}
+        onClose={() => setIsSidebarOpen(false)}
+        onSelect={(id) => void loadConversation(id)}
+        onNewConversation={startNewConversation}
+        onDelete={(id) => void deleteConversation(id)}
       />
 
-      {/* Input area (free-standing at the bottom) */}
-      <div className='relative p-3 pb-4 md:p-4 md:pb-6'>
-        <div className='relative mx-auto max-w-3xl md:max-w-[748px]'>
-          <ChatInput
-            onSubmit={(value, isVoiceInput) => {
-              void handleSendMessage(value, isVoiceInput)
-            }}
-            isStreaming={isStreamingResponse}
-            onStopStreaming={() => stopStreaming(setMessages)}
-            onVoiceStart={handleVoiceStart}
-          />
+      <div className='flex min-w-0 flex-1 flex-col'>
+        {/* Header component */}
+        <ChatHeader
+          chatConfig={chatConfig}
+          starCount={starCount}
+          onToggleConversations={() => setIsSidebarOpen((open) => !open)}
+        />
+
+        {/* Message Container component */}
+        <ChatMessageContainer
+          messages={messages}
+          isLoading={isLoading}
+          showScrollButton={showScrollButton}
+          messagesContainerRef={messagesContainerRef as RefObject<HTMLDivElement>}
+          messagesEndRef={messagesEndRef as RefObject<HTMLDivElement>}
+          scrollToBottom={scrollToBottom}
+          scrollToMessage={scrollToMessage}
+          chatConfig={chatConfig}
+        />
+
+        {/* Input area (free-standing at the bottom) */}
+        <div className='relative p-3 pb-4 md:p-4 md:pb-6'>
+          <div className='relative mx-auto max-w-3xl md:max-w-[748px]'>
+            <ChatInput
+              onSubmit={(value, isVoiceInput) => {
+                void handleSendMessage(value, isVoiceInput)
+              }}
+              isStreaming={isStreamingResponse}
+              onStopStreaming={() => stopStreaming(setMessages)}
+              onVoiceStart={handleVoiceStart}
+            />
+          </div>
         </div>
       </div>
     </div>
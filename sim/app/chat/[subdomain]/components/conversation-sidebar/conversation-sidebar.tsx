@@ -0,0 +1,97 @@
+'use client'
+
+import { MessageSquare, Plus, Trash2, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { cn } from '@/lib/utils'
+
+export interface ChatConversationSummary {
+  id: string
+  title: string
+  updatedAt: string
+}
+
+interface ConversationSidebarProps {
+  conversations: ChatConversationSummary[]
+  activeConversationId: string
+  isOpen: boolean
+  disabled?: boolean
+  onClose: () => void
+  onSelect: (conversationId: string) => void
+  onNewConversation: () => void
+  onDelete: (conversationId: string) => void
+}
+
+export function ConversationSidebar({
+  conversations,
+  activeConversationId,
+  isOpen,
+  disabled = false,
+  onClose,
+  onSelect,
+  onNewConversation,
+  onDelete,
+}: ConversationSidebarProps) {
+  if (!isOpen) return null
+
+  return (
+    <>
+      {/* Backdrop on small screens, where the sidebar covers the chat */}
+      <div className='fixed inset-0 z-[110] bg-black/20 md:hidden' onClick={onClose} />
+
+      <aside className='fixed inset-y-0 left-0 z-[120] flex w-72 flex-col border-r bg-background md:static md:z-auto md:w-64'>
+        <div className='flex items-center justify-between px-3 py-3'>
+          <Button
+            variant='outline'
+            size='sm'
+            className='flex-1 justify-start gap-2'
+            onClick={onNewConversation}
+            disabled={disabled}
+          >
+            <Plus className='h-4 w-4' />
+            New chat
+          </Button>
+          <Button variant='ghost' size='icon' className='ml-2 md:hidden' onClick={onClose}>
+            <X className='h-4 w-4' />
+            <span className='sr-only'>Close conversations</span>
+          </Button>
+        </div>
+
+        <div className='flex-1 overflow-y-auto px-2 pb-4'>
+          {conversations.length === 0 ? (
+            <p className='px-2 py-4 text-muted-foreground text-sm'>No conversations yet</p>
+          ) : (
+            conversations.map((conversation) => (
+              <div
+                key={conversation.id}
+                className={cn(
+                  'group flex items-center gap-2 rounded-md px-2 py-2 text-sm',
+                  conversation.id === activeConversationId ? 'bg-accent' : 'hover:bg-accent/50'
+                )}
+              >
+                <button
+                  type='button'
+                  className='flex min-w-0 flex-1 items-center gap-2 text-left disabled:cursor-not-allowed'
+                  onClick={() => onSelect(conversation.id)}
+                  disabled={disabled}
+                  title={conversation.title}
+                >
+                  <MessageSquare className='h-4 w-4 shrink-0 text-muted-foreground' />
+                  <span className='truncate'>{conversation.title}</span>
+                </button>
+                <button
+                  type='button'
+                  className='shrink-0 text-muted-foreground opacity-0 transition-opacity hover:text-foreground focus:opacity-100 disabled:cursor-not-allowed group-hover:opacity-100'
+                  onClick={() => onDelete(conversation.id)}
+                  disabled={disabled}
+                  aria-label={`Delete ${conversation.title}`}
+                >
+                  <Trash2 className='h-3.5 w-3.5' />
+                </button>
+              </div>
+            ))
+          )}
+        </div>
+      </aside>
+    </>
+  )
+}
@@ -1,5 +1,6 @@
 'use client'
 
+import { PanelLeft } from 'lucide-react'
 import { GithubIcon } from '@/components/icons'
 
 interface ChatHeaderProps {
@@ -12,14 +13,25 @@ interface ChatHeaderProps {
     }
   } | null
   starCount: string
+  onToggleConversations?: () => void
 }
 
-export function ChatHeader({ chatConfig, starCount }: ChatHeaderProps) {
+export function ChatHeader({ chatConfig, starCount, onToggleConversations }: ChatHeaderProps) {
   const primaryColor = chatConfig?.customizations?.primaryColor || '#701FFC'
 
   return (
     <div className='flex items-center justify-between bg-background/95 px-5 py-3 pt-4 backdrop-blur supports-[backdrop-filter]:bg-background/60 md:px-6 md:pt-3'>
       <div className='flex items-center gap-3'>
+        {onToggleConversations && (
+          <button
+            type='button'
+            onClick={onToggleConversations}
+            className='rounded-md p-1 text-foreground/80 transition-colors duration-200 hover:text-foreground/100'
+            aria-label='Toggle conversations'
+          >
+            <PanelLeft className='h-[18px] w-[18px]' />
+          </button>
+        )}
         {chatConfig?.customizations?.logoUrl && (
           <img
             src={chatConfig.customizations.logoUrl}
@@ -514,6 +514,7 @@ export function KnowledgeBase({
             chunkSize: knowledgeBase?.chunkingConfig?.maxSize || 1024,
             minCharactersPerChunk: knowledgeBase?.chunkingConfig?.minSize || 100,
             chunkOverlap: knowledgeBase?.chunkingConfig?.overlap || 200,
+            strategy: knowledgeBase?.chunkingConfig?.strategy,
             recipe: 'default',
             lang: 'en',
           },
@@ -733,6 +734,47 @@ export function KnowledgeBase({
     }
   }
 
+  const handleBulkRechunk = async () => {
+    const documentsToRechunk = documents.filter((doc) => selectedDocuments.has(doc.id))
+
+    if (documentsToRechunk.length === 0) return
+
+    try {
+      setIsBulkOperating(true)
+
+      const response = await fetch(`/api/knowledge/${id}/documents`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          operation: 'rechunk',
+          documentIds: documentsToRechunk.map((doc) => doc.id),
+        }),
+      })
+
+      if (!response.ok) {
+        throw new Error('Failed to re-chunk documents')
+      }
+
+      const result = await response.json()
+
+      if (result.success) {
+        logger.info(`Successfully started re-chunking ${result.data.successCount} documents`)
+      }
+
+      // Refresh documents list to show their processing status
+      await refreshDocuments()
+
+      // Clear selection after successful operation
+      setSelectedDocuments(new Set())
+    } catch (err) {
+      logger.error('Error re-chunking documents:', err)
+    } finally {
+      setIsBulkOperating(false)
+    }
+  }
+
   // Calculate bulk operation counts
   const selectedDocumentsList = documents.filter((doc) => selectedDocuments.has(doc.id))
   const enabledCount = selectedDocumentsList.filter((doc) => doc.enabled).length
@@ -1269,6 +1311,7 @@ export function KnowledgeBase({
         onEnable={disabledCount > 0 ? handleBulkEnable : undefined}
         onDisable={enabledCount > 0 ? handleBulkDisable : undefined}
         onDelete={handleBulkDelete}
+        onRechunk={handleBulkRechunk}
         enabledCount={enabledCount}
         disabledCount={disabledCount}
         isLoading={isBulkOperating}
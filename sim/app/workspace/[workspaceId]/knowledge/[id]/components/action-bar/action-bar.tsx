@@ -1,5 +1,5 @@
 import { motion } from 'framer-motion'
-import { Circle, CircleOff, Trash2 } from 'lucide-react'
+import { Circle, CircleOff, RefreshCw, Trash2 } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip'
 import { cn } from '@/lib/utils'
@@ -9,6 +9,7 @@ interface ActionBarProps {
   onEnable?: () => void
   onDisable?: () => void
   onDelete?: () => void
+  onRechunk?: () => void
   enabledCount?: number
   disabledCount?: number
   isLoading?: boolean
@@ -20,6 +21,7 @@ export function ActionBar({
   onEnable,
   onDisable,
   onDelete,
+  onRechunk,
   enabledCount = 0,
   disabledCount = 0,
   isLoading = false,
@@ -82,6 +84,23 @@ export function ActionBar({
             </Tooltip>
           )}
 
+          {onRechunk && (
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Button
+                  variant='ghost'
+                  size='sm'
+                  onClick={onRechunk}
+                  disabled={isLoading}
+                  className='text-gray-500 hover:text-gray-700'
+                >
+                  <RefreshCw className='h-4 w-4' />
+                </Button>
+              </TooltipTrigger>
+              <TooltipContent side='top'>Re-chunk items</TooltipContent>
+            </Tooltip>
+          )}
+
           {onDelete && (
             <Tooltip>
               <TooltipTrigger asChild>
@@ -10,9 +10,18 @@ import { Button } from '@/components/ui/button'
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
 import { Textarea } from '@/components/ui/textarea'
+import type { ChunkingStrategy } from '@/lib/documents/chunking'
 import { createLogger } from '@/lib/logs/console-logger'
 import { getDocumentIcon } from '@/app/workspace/[workspaceId]/knowledge/components/icons/document-icons'
+import { DEFAULT_EMBEDDING_MODEL, EMBEDDING_MODELS } from '@/providers/embeddings/models'
 import type { DocumentData, KnowledgeBaseData } from '@/stores/knowledge/store'
 import { useKnowledgeStore } from '@/stores/knowledge/store'
 
@@ -29,6 +38,14 @@ const ACCEPTED_FILE_TYPES = [
   'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
 ]
 
+const CHUNKING_STRATEGY_OPTIONS: Array<{ value: ChunkingStrategy; label: string }> = [
+  { value: 'recursive', label: 'Recursive' },
+  { value: 'markdown', label: 'Markdown sections' },
+  { value: 'sentence', label: 'Sentence windows' },
+  { value: 'token', label: 'Fixed tokens' },
+  { value: 'table', label: 'Table rows (CSV, Excel)' },
+]
+
 interface ProcessedDocumentResponse {
   documentId: string
   filename: string
@@ -86,6 +103,8 @@ export function CreateModal({ open, onOpenChange, onKnowledgeBaseCreated }: Crea
   const [fileError, setFileError] = useState<string | null>(null)
   const [isDragging, setIsDragging] = useState(false)
   const [dragCounter, setDragCounter] = useState(0) // Track drag events to handle nested elements
+  const [strategy, setStrategy] = useState<ChunkingStrategy>('recursive')
+  const [embeddingModel, setEmbeddingModel] = useState(DEFAULT_EMBEDDING_MODEL)
   const scrollContainerRef = useRef<HTMLDivElement>(null)
   const dropZoneRef = useRef<HTMLDivElement>(null)
 
@@ -257,10 +276,12 @@ export function CreateModal({ open, onOpenChange, onKnowledgeBaseCreated }: Crea
       const knowledgeBasePayload = {
         name: data.name,
         description: data.description || undefined,
+        embeddingModel,
         chunkingConfig: {
           maxSize: data.maxChunkSize,
           minSize: data.minChunkSize,
           overlap: data.overlapSize,
+          strategy,
         },
       }
 
@@ -378,6 +399,7 @@ export function CreateModal({ open, onOpenChange, onKnowledgeBaseCreated }: Crea
               chunkSize: data.maxChunkSize,
               minCharactersPerChunk: data.minChunkSize,
               chunkOverlap: data.overlapSize,
+              strategy,
               recipe: 'default',
               lang: 'en',
             },
@@ -434,6 +456,8 @@ export function CreateModal({ open, onOpenChange, onKnowledgeBaseCreated }: Crea
         maxChunkSize: 1024,
         overlapSize: 200,
       })
+      setStrategy('recursive')
+      setEmbeddingModel(DEFAULT_EMBEDDING_MODEL)
 
       // Clean up file previews
       files.forEach((file) => URL.revokeObjectURL(file.preview))
@@ -543,10 +567,47 @@ export function CreateModal({ open, onOpenChange, onKnowledgeBaseCreated }: Crea
                     )}
                   </div>
 
+                  {/* Embedding Model */}
+                  <div className='space-y-2'>
+                    <Label htmlFor='embeddingModel'>Embedding Model</Label>
+                    <Select value={embeddingModel} onValueChange={setEmbeddingModel}>
+                      <SelectTrigger id='embeddingModel'>
+                        <SelectValue placeholder='Select embedding model' />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {EMBEDDING_MODELS.map((model) => (
+                          <SelectItem key={model.id} value={model.id}>
+                            {model.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
                   {/* Chunk Configuration Section */}
                   <div className='space-y-4 rounded-lg border p-4'>
                     <h3 className='font-medium text-foreground text-sm'>Chunking Configuration</h3>
 
+                    {/* Chunking Strategy */}
+                    <div className='space-y-2'>
+                      <Label htmlFor='chunkingStrategy'>Strategy</Label>
+                      <Select
+                        value={strategy}
+                        onValueChange={(value) => setStrategy(value as ChunkingStrategy)}
+                      >
+                        <SelectTrigger id='chunkingStrategy'>
+                          <SelectValue placeholder='Select strategy' />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {CHUNKING_STRATEGY_OPTIONS.map((option) => (
+                            <SelectItem key={option.value} value={option.value}>
+                              {option.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+
                     {/* Min and Max Chunk Size Row */}
                     <div className='grid grid-cols-2 gap-4'>
                       <div className='space-y-2'>
@@ -0,0 +1,85 @@
+'use client'
+
+import { Fragment, useEffect, useMemo, useState } from 'react'
+import { MessageSquare } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { Separator } from '@/components/ui/separator'
+import { cn } from '@/lib/utils'
+import { getBlockThreads, useCommentsStore } from '@/stores/comments/store'
+import { useWorkflowStore } from '@/stores/workflows/workflow/store'
+import { useComments } from '../../hooks/use-comments'
+import { CommentComposer } from './comment-composer'
+import { CommentThreadView } from './comment-thread'
+
+interface BlockCommentsProps {
+  blockId: string
+}
+
+/**
+ * Comment indicator in the block header. Shown when the block has threads or while
+ * comment mode is on, and opens the block's threads in a popover.
+ */
+export function BlockComments({ blockId }: BlockCommentsProps) {
+  const threads = useCommentsStore((state) => state.threads)
+  const isCommentMode = useCommentsStore((state) => state.isCommentMode)
+  const activeThreadId = useCommentsStore((state) => state.activeThreadId)
+  const setActiveThread = useCommentsStore((state) => state.setActiveThread)
+  const { createThread } = useComments()
+
+  const [open, setOpen] = useState(false)
+
+  const blockThreads = useMemo(() => getBlockThreads(threads, blockId), [threads, blockId])
+  const unresolvedCount = blockThreads.filter((thread) => thread.resolvedAt === null).length
+  const hasActiveThread = blockThreads.some((thread) => thread.id === activeThreadId)
+
+  // Open when one of the block's threads is activated, e.g. from a mention email link
+  useEffect(() => {
+    if (hasActiveThread) setOpen(true)
+  }, [hasActiveThread])
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    setOpen(nextOpen)
+    if (!nextOpen && hasActiveThread) {
+      setActiveThread(null)
+    }
+  }
+
+  const handleCreateThread = (content: string, mentions: string[]) => {
+    const position = useWorkflowStore.getState().blocks[blockId]?.position ?? { x: 0, y: 0 }
+    createThread(blockId, position, content, mentions)
+  }
+
+  if (blockThreads.length === 0 && !isCommentMode) return null
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button
+          variant='ghost'
+          size='sm'
+          className={cn('h-7 gap-1 p-1 text-gray-500', unresolvedCount > 0 && 'text-[#701FFC]')}
+        >
+          <MessageSquare className='h-5 w-5' />
+          {unresolvedCount > 0 && <span className='font-medium text-xs'>{unresolvedCount}</span>}
+          <span className='sr-only'>Comments</span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent side='top' align='end' className='w-80 p-0'>
+        <div className='max-h-[420px] space-y-4 overflow-y-auto p-4'>
+          {blockThreads.map((thread) => (
+            <Fragment key={thread.id}>
+              <CommentThreadView thread={thread} />
+              <Separator />
+            </Fragment>
+          ))}
+          <CommentComposer
+            placeholder='Comment on this block... Use @ to mention'
+            autoFocus={blockThreads.length === 0}
+            onSubmit={handleCreateThread}
+          />
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
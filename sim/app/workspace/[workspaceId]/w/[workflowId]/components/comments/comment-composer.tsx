@@ -0,0 +1,193 @@
+'use client'
+
+import { type KeyboardEvent, useMemo, useRef, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  getMentionedUserIds,
+  getMentionQuery,
+  insertMention,
+  type MentionCandidate,
+  type MentionQuery,
+} from '@/lib/comments/mentions'
+import { cn } from '@/lib/utils'
+import { useWorkspacePermissionsContext } from '@/app/workspace/[workspaceId]/w/components/providers/workspace-permissions-provider'
+
+const MAX_SUGGESTIONS = 6
+
+interface MentionMember extends MentionCandidate {
+  email: string
+}
+
+/**
+ * Workspace members that can be mentioned in comments
+ */
+export function useMentionMembers(): MentionMember[] {
+  const { workspacePermissions } = useWorkspacePermissionsContext()
+
+  return useMemo(
+    () =>
+      (workspacePermissions?.users ?? []).map((user) => ({
+        userId: user.userId,
+        name: user.name || user.email,
+        email: user.email,
+      })),
+    [workspacePermissions]
+  )
+}
+
+interface CommentComposerProps {
+  placeholder?: string
+  submitLabel?: string
+  autoFocus?: boolean
+  onSubmit: (content: string, mentions: string[]) => void
+  onCancel?: () => void
+}
+
+export function CommentComposer({
+  placeholder = 'Add a comment... Use @ to mention',
+  submitLabel = 'Comment',
+  autoFocus = false,
+  onSubmit,
+  onCancel,
+}: CommentComposerProps) {
+  const members = useMentionMembers()
+  const textareaRef = useRef<HTMLTextAreaElement>(null)
+
+  const [value, setValue] = useState('')
+  const [mentionQuery, setMentionQuery] = useState<MentionQuery | null>(null)
+  const [mentioned, setMentioned] = useState<MentionCandidate[]>([])
+  const [highlightedIndex, setHighlightedIndex] = useState(0)
+
+  const suggestions = useMemo(() => {
+    if (!mentionQuery) return []
+
+    const query = mentionQuery.query.toLowerCase()
+    return members
+      .filter(
+        (member) =>
+          member.name.toLowerCase().includes(query) || member.email.toLowerCase().includes(query)
+      )
+      .slice(0, MAX_SUGGESTIONS)
+  }, [members, mentionQuery])
+
+  const updateMentionQuery = (text: string, caret: number) => {
+    setMentionQuery(getMentionQuery(text, caret))
+    setHighlightedIndex(0)
+  }
+
+  const selectMember = (member: MentionMember) => {
+    const textarea = textareaRef.current
+    if (!textarea || !mentionQuery) return
+
+    const result = insertMention(value, mentionQuery, textarea.selectionStart, member.name)
+    setValue(result.text)
+    setMentioned((current) =>
+      current.some((m) => m.userId === member.userId) ? current : [...current, member]
+    )
+    setMentionQuery(null)
+
+    // Restore the caret after React has applied the new value
+    setTimeout(() => {
+      textarea.focus()
+      textarea.setSelectionRange(result.caret, result.caret)
+    }, 0)
+  }
+
+  const submit = () => {
+    const content = value.trim()
+    if (!content) return
+
+    onSubmit(content, getMentionedUserIds(content, mentioned))
+    setValue('')
+    setMentioned([])
+    setMentionQuery(null)
+  }
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+    // Keep canvas shortcuts such as deleting the selected edge from firing while typing
+    e.stopPropagation()
+
+    if (suggestions.length > 0) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault()
+        const offset = e.key === 'ArrowDown' ? 1 : -1
+        setHighlightedIndex((index) => (index + offset + suggestions.length) % suggestions.length)
+        return
+      }
+      if (e.key === 'Enter' || e.key === 'Tab') {
+        e.preventDefault()
+        selectMember(suggestions[highlightedIndex])
+        return
+      }
+    }
+
+    if (e.key === 'Escape') {
+      e.preventDefault()
+      if (mentionQuery) {
+        setMentionQuery(null)
+      } else {
+        onCancel?.()
+      }
+      return
+    }
+
+    if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+      e.preventDefault()
+      submit()
+    }
+  }
+
+  return (
+    <div className='relative space-y-2'>
+      <Textarea
+        ref={textareaRef}
+        value={value}
+        placeholder={placeholder}
+        autoFocus={autoFocus}
+        rows={2}
+        className='min-h-[60px] resize-none text-sm'
+        onChange={(e) => {
+          setValue(e.target.value)
+          updateMentionQuery(e.target.value, e.target.selectionStart)
+        }}
+        onKeyDown={handleKeyDown}
+        onClick={(e) => updateMentionQuery(value, e.currentTarget.selectionStart)}
+        onBlur={() => setTimeout(() => setMentionQuery(null), 150)}
+      />
+
+      {suggestions.length > 0 && (
+        <div className='absolute top-full left-0 z-50 mt-1 w-full overflow-hidden rounded-md border bg-popover py-1 shadow-md'>
+          {suggestions.map((member, index) => (
+            <button
+              key={member.userId}
+              type='button'
+              className={cn(
+                'flex w-full flex-col px-3 py-1.5 text-left text-sm',
+                index === highlightedIndex ? 'bg-accent' : 'hover:bg-accent/50'
+              )}
+              onMouseDown={(e) => {
+                e.preventDefault()
+                selectMember(member)
+              }}
+            >
+              <span className='font-medium'>{member.name}</span>
+              <span className='text-muted-foreground text-xs'>{member.email}</span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className='flex justify-end gap-2'>
+        {onCancel && (
+          <Button variant='ghost' size='sm' onClick={onCancel}>
+            Cancel
+          </Button>
+        )}
+        <Button size='sm' onClick={submit} disabled={!value.trim()}>
+          {submitLabel}
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,121 @@
+'use client'
+
+import { useMemo } from 'react'
+import { MessageSquare } from 'lucide-react'
+import { useStore } from 'reactflow'
+import { Popover, PopoverAnchor, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { cn } from '@/lib/utils'
+import { useCommentsStore } from '@/stores/comments/store'
+import type { CommentThread } from '@/stores/comments/types'
+import { useComments } from '../../hooks/use-comments'
+import { CommentComposer } from './comment-composer'
+import { CommentThreadView } from './comment-thread'
+
+type Transform = [number, number, number]
+
+function toScreenPosition(position: { x: number; y: number }, [x, y, zoom]: Transform) {
+  return { left: position.x * zoom + x, top: position.y * zoom + y }
+}
+
+interface ThreadPinProps {
+  thread: CommentThread
+  transform: Transform
+  isOpen: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+function ThreadPin({ thread, transform, isOpen, onOpenChange }: ThreadPinProps) {
+  const isResolved = thread.resolvedAt !== null
+  const author = thread.comments[0]?.userName ?? ''
+
+  return (
+    <Popover open={isOpen} onOpenChange={onOpenChange}>
+      <PopoverTrigger asChild>
+        <button
+          type='button'
+          className={cn(
+            'pointer-events-auto absolute flex h-8 min-w-8 items-center justify-center gap-1 rounded-full rounded-bl-none border-2 px-2 font-medium text-xs shadow-md transition-transform hover:scale-110',
+            isResolved
+              ? 'border-gray-300 bg-gray-100 text-gray-500'
+              : 'border-white bg-[#701FFC] text-white'
+          )}
+          style={{ ...toScreenPosition(thread.position, transform), transform: 'translateY(-100%)' }}
+          title={author}
+        >
+          {author.charAt(0).toUpperCase() || <MessageSquare className='h-3 w-3' />}
+          {thread.comments.length > 1 && <span>{thread.comments.length}</span>}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent side='right' align='start' className='max-h-[420px] w-80 overflow-y-auto'>
+        <CommentThreadView thread={thread} />
+      </PopoverContent>
+    </Popover>
+  )
+}
+
+/**
+ * Pins for comment threads anchored to areas of the canvas, and the composer for a new
+ * one. Rendered inside ReactFlow so pins follow the viewport.
+ */
+export function CommentLayer() {
+  const transform = useStore((state) => state.transform)
+  const threads = useCommentsStore((state) => state.threads)
+  const isCommentMode = useCommentsStore((state) => state.isCommentMode)
+  const draftThread = useCommentsStore((state) => state.draftThread)
+  const activeThreadId = useCommentsStore((state) => state.activeThreadId)
+  const setDraftThread = useCommentsStore((state) => state.setDraftThread)
+  const setActiveThread = useCommentsStore((state) => state.setActiveThread)
+  const { createThread } = useComments()
+
+  // Resolved threads stay out of the way unless the user is reviewing comments
+  const areaThreads = useMemo(
+    () =>
+      Object.values(threads).filter(
+        (thread) => thread.blockId === null && (isCommentMode || thread.resolvedAt === null)
+      ),
+    [threads, isCommentMode]
+  )
+
+  const handleCreateThread = (content: string, mentions: string[]) => {
+    if (!draftThread) return
+
+    const threadId = createThread(null, draftThread.position, content, mentions)
+    if (threadId) {
+      setActiveThread(threadId)
+    } else {
+      setDraftThread(null)
+    }
+  }
+
+  return (
+    <div className='pointer-events-none absolute inset-0 z-[5] overflow-hidden'>
+      {areaThreads.map((thread) => (
+        <ThreadPin
+          key={thread.id}
+          thread={thread}
+          transform={transform}
+          isOpen={activeThreadId === thread.id}
+          onOpenChange={(open) => setActiveThread(open ? thread.id : null)}
+        />
+      ))}
+
+      {draftThread && (
+        <Popover open onOpenChange={(open) => !open && setDraftThread(null)}>
+          <PopoverAnchor asChild>
+            <div
+              className='absolute h-3 w-3 rounded-full border-2 border-white bg-[#701FFC] shadow-md'
+              style={toScreenPosition(draftThread.position, transform)}
+            />
+          </PopoverAnchor>
+          <PopoverContent side='right' align='start' className='w-80'>
+            <CommentComposer
+              autoFocus
+              onSubmit={handleCreateThread}
+              onCancel={() => setDraftThread(null)}
+            />
+          </PopoverContent>
+        </Popover>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,122 @@
+'use client'
+
+import { useMemo } from 'react'
+import { formatDistanceToNow } from 'date-fns'
+import { Check, RotateCcw, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { useSession } from '@/lib/auth-client'
+import { splitMentions } from '@/lib/comments/mentions'
+import type { CommentThread, WorkflowComment } from '@/lib/comments/types'
+import { cn } from '@/lib/utils'
+import { useComments } from '../../hooks/use-comments'
+import { CommentComposer, useMentionMembers } from './comment-composer'
+
+interface CommentItemProps {
+  comment: WorkflowComment
+  memberNames: string[]
+  canDelete: boolean
+  onDelete: () => void
+}
+
+function CommentItem({ comment, memberNames, canDelete, onDelete }: CommentItemProps) {
+  const segments = useMemo(
+    () => splitMentions(comment.content, memberNames),
+    [comment.content, memberNames]
+  )
+
+  return (
+    <div className='group/comment flex gap-2'>
+      <div className='flex h-6 w-6 flex-shrink-0 items-center justify-center rounded-full bg-primary/10 font-medium text-primary text-xs'>
+        {comment.userName.charAt(0).toUpperCase()}
+      </div>
+      <div className='min-w-0 flex-1'>
+        <div className='flex items-center gap-2'>
+          <span className='truncate font-medium text-sm'>{comment.userName}</span>
+          <span className='flex-shrink-0 text-muted-foreground text-xs'>
+            {formatDistanceToNow(new Date(comment.createdAt), { addSuffix: true })}
+          </span>
+          {canDelete && (
+            <Button
+              variant='ghost'
+              size='icon'
+              className='ml-auto h-5 w-5 opacity-0 group-hover/comment:opacity-100'
+              onClick={onDelete}
+            >
+              <Trash2 className='h-3 w-3' />
+              <span className='sr-only'>Delete comment</span>
+            </Button>
+          )}
+        </div>
+        <p className='whitespace-pre-wrap break-words text-sm'>
+          {segments.map((segment, index) =>
+            segment.isMention ? (
+              <span key={index} className='font-medium text-primary'>
+                {segment.text}
+              </span>
+            ) : (
+              <span key={index}>{segment.text}</span>
+            )
+          )}
+        </p>
+      </div>
+    </div>
+  )
+}
+
+interface CommentThreadViewProps {
+  thread: CommentThread
+  className?: string
+}
+
+/**
+ * The comments of a thread with a reply box and resolve controls
+ */
+export function CommentThreadView({ thread, className }: CommentThreadViewProps) {
+  const { data: session } = useSession()
+  const members = useMentionMembers()
+  const { reply, setResolved, deleteComment } = useComments()
+
+  const memberNames = useMemo(() => members.map((member) => member.name), [members])
+  const isResolved = thread.resolvedAt !== null
+
+  return (
+    <div className={cn('space-y-3', className)}>
+      <div className='flex items-center justify-between'>
+        <span className='text-muted-foreground text-xs'>
+          {isResolved
+            ? 'Resolved'
+            : `${thread.comments.length} ${thread.comments.length === 1 ? 'comment' : 'comments'}`}
+        </span>
+        <Button
+          variant='ghost'
+          size='sm'
+          className='h-6 gap-1 px-2 text-xs'
+          onClick={() => setResolved(thread.id, !isResolved)}
+        >
+          {isResolved ? <RotateCcw className='h-3 w-3' /> : <Check className='h-3 w-3' />}
+          {isResolved ? 'Reopen' : 'Resolve'}
+        </Button>
+      </div>
+
+      <div className={cn('space-y-3', isResolved && 'opacity-60')}>
+        {thread.comments.map((comment) => (
+          <CommentItem
+            key={comment.id}
+            comment={comment}
+            memberNames={memberNames}
+            canDelete={comment.userId === session?.user?.id}
+            onDelete={() => deleteComment(comment.id)}
+          />
+        ))}
+      </div>
+
+      {!isResolved && (
+        <CommentComposer
+          placeholder='Reply... Use @ to mention'
+          submitLabel='Reply'
+          onSubmit={(content, mentions) => reply(thread.id, content, mentions)}
+        />
+      )}
+    </div>
+  )
+}
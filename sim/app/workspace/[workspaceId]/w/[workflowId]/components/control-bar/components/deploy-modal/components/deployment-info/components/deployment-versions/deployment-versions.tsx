@@ -0,0 +1,143 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Loader2 } from 'lucide-react'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { createLogger } from '@/lib/logs/console-logger'
+import { useNotificationStore } from '@/stores/notifications/store'
+
+const logger = createLogger('DeploymentVersions')
+
+interface DeploymentVersionSummary {
+  version: number
+  label: string | null
+  createdAt: string
+  isLive: boolean
+}
+
+interface DeploymentVersionsProps {
+  workflowId: string
+  deployedAt?: string // Changes on every deploy or rollback, so the list is refetched
+  onRollback: () => Promise<void>
+}
+
+export function DeploymentVersions({
+  workflowId,
+  deployedAt,
+  onRollback,
+}: DeploymentVersionsProps) {
+  const { addNotification } = useNotificationStore()
+  const [versions, setVersions] = useState<DeploymentVersionSummary[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [rollingBackTo, setRollingBackTo] = useState<number | null>(null)
+
+  const fetchVersions = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/workflows/${workflowId}/versions`)
+      if (!response.ok) {
+        throw new Error('Failed to fetch versions')
+      }
+      const data = await response.json()
+      setVersions(data.versions || [])
+    } catch (error) {
+      logger.error('Error fetching deployment versions:', { error })
+    } finally {
+      setIsLoading(false)
+    }
+  }, [workflowId])
+
+  useEffect(() => {
+    fetchVersions()
+  }, [fetchVersions, deployedAt])
+
+  const handleRollback = async (version: number) => {
+    try {
+      setRollingBackTo(version)
+      const response = await fetch(`/api/workflows/${workflowId}/versions/${version}/rollback`, {
+        method: 'POST',
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || 'Failed to roll back deployment')
+      }
+
+      await onRollback()
+      await fetchVersions()
+      addNotification('info', `Rolled back to version ${version}`, workflowId)
+    } catch (error: any) {
+      logger.error('Error rolling back deployment:', { error })
+      addNotification('error', `Failed to roll back: ${error.message}`, workflowId)
+    } finally {
+      setRollingBackTo(null)
+    }
+  }
+
+  if (isLoading || versions.length === 0) {
+    return null
+  }
+
+  return (
+    <div className='space-y-1.5'>
+      <Label className='font-medium text-sm'>Versions</Label>
+      <div className='max-h-48 divide-y overflow-y-auto rounded-md border'>
+        {versions.map((version) => (
+          <div key={version.version} className='flex items-center justify-between gap-2 px-3 py-2'>
+            <div className='min-w-0'>
+              <div className='flex items-center gap-2'>
+                <span className='font-medium text-sm'>v{version.version}</span>
+                {version.label && (
+                  <span className='truncate text-muted-foreground text-sm'>{version.label}</span>
+                )}
+                {version.isLive && <Badge variant='secondary'>Live</Badge>}
+              </div>
+              <span className='text-muted-foreground text-xs'>
+                {new Date(version.createdAt).toLocaleString()}
+              </span>
+            </div>
+            {!version.isLive && (
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button variant='outline' size='sm' disabled={rollingBackTo !== null}>
+                    {rollingBackTo === version.version ? (
+                      <Loader2 className='mr-1.5 h-3.5 w-3.5 animate-spin' />
+                    ) : null}
+                    Rollback
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Roll back to v{version.version}</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      The API endpoint will immediately run version {version.version}. Your changes
+                      in the editor are kept and can be deployed again later.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                    <AlertDialogAction onClick={() => handleRollback(version.version)}>
+                      Rollback
+                    </AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
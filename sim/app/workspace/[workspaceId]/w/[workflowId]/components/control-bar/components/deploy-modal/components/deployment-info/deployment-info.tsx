@@ -18,6 +18,7 @@ import { Skeleton } from '@/components/ui/skeleton'
 import { ApiEndpoint } from '@/app/workspace/[workspaceId]/w/[workflowId]/components/control-bar/components/deploy-modal/components/deployment-info/components/api-endpoint/api-endpoint'
 import { ApiKey } from '@/app/workspace/[workspaceId]/w/[workflowId]/components/control-bar/components/deploy-modal/components/deployment-info/components/api-key/api-key'
 import { DeployStatus } from '@/app/workspace/[workspaceId]/w/[workflowId]/components/control-bar/components/deploy-modal/components/deployment-info/components/deploy-status/deploy-status'
+import { DeploymentVersions } from '@/app/workspace/[workspaceId]/w/[workflowId]/components/control-bar/components/deploy-modal/components/deployment-info/components/deployment-versions/deployment-versions'
 import { ExampleCommand } from '@/app/workspace/[workspaceId]/w/[workflowId]/components/control-bar/components/deploy-modal/components/deployment-info/components/example-command/example-command'
 import { useNotificationStore } from '@/stores/notifications/store'
 import type { WorkflowState } from '@/stores/workflows/workflow/types'
@@ -34,6 +35,7 @@ interface DeploymentInfoProps {
   } | null
   onRedeploy: () => void
   onUndeploy: () => void
+  onRollback: () => Promise<void>
   isSubmitting: boolean
   isUndeploying: boolean
   workflowId: string | null
@@ -46,6 +48,7 @@ export function DeploymentInfo({
   deploymentInfo,
   onRedeploy,
   onUndeploy,
+  onRollback,
   isSubmitting,
   isUndeploying,
   workflowId,
@@ -111,6 +114,13 @@ export function DeploymentInfo({
           <ApiEndpoint endpoint={deploymentInfo.endpoint} />
           <ApiKey apiKey={deploymentInfo.apiKey} />
           <ExampleCommand command={deploymentInfo.exampleCommand} apiKey={deploymentInfo.apiKey} />
+          {workflowId && (
+            <DeploymentVersions
+              workflowId={workflowId}
+              deployedAt={deploymentInfo.deployedAt}
+              onRollback={onRollback}
+            />
+          )}
         </div>
 
         <div className='mt-4 flex items-center justify-between pt-2'>
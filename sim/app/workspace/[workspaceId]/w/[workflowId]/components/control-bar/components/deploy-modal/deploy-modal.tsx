@@ -364,6 +364,22 @@ export function DeployModal({
     }
   }
 
+  // Refresh the deployment after an earlier version was made live again
+  const handleRollback = async () => {
+    if (!workflowId) return
+
+    const response = await fetch(`/api/workflows/${workflowId}/status`)
+    if (response.ok) {
+      const { deployedAt, needsRedeployment: hasChanges } = await response.json()
+
+      setDeploymentStatus(workflowId, true, deployedAt ? new Date(deployedAt) : undefined)
+      setNeedsRedeployment(hasChanges)
+      useWorkflowRegistry.getState().setWorkflowNeedsRedeployment(workflowId, hasChanges)
+    }
+
+    await refetchDeployedState()
+  }
+
   // Handle redeployment of workflow
   const handleRedeploy = async () => {
     if (!workflowId) {
@@ -623,6 +639,7 @@ export function DeployModal({
                       deploymentInfo={deploymentInfo}
                       onRedeploy={handleRedeploy}
                       onUndeploy={handleUndeploy}
+                      onRollback={handleRollback}
                       isSubmitting={isSubmitting}
                       isUndeploying={isUndeploying}
                       workflowId={workflowId}
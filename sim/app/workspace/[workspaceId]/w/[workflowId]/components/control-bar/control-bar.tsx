@@ -10,6 +10,7 @@ import {
   History,
   Layers,
   Loader2,
+  MessageSquare,
   Play,
   SkipForward,
   StepForward,
@@ -41,6 +42,7 @@ import { useSession } from '@/lib/auth-client'
 import { createLogger } from '@/lib/logs/console-logger'
 import { cn } from '@/lib/utils'
 import { useUserPermissionsContext } from '@/app/workspace/[workspaceId]/w/components/providers/workspace-permissions-provider'
+import { useCommentsStore } from '@/stores/comments/store'
 import { useExecutionStore } from '@/stores/execution/store'
 import { useFolderStore } from '@/stores/folders/store'
 import { useNotificationStore } from '@/stores/notifications/store'
@@ -123,6 +125,13 @@ export function ControlBar({ hasValidationErrors = false }: ControlBarProps) {
   const { isDebugging, pendingBlocks, handleStepDebug, handleCancelDebug, handleResumeDebug } =
     useWorkflowExecution()
 
+  // Comment mode state
+  const isCommentMode = useCommentsStore((state) => state.isCommentMode)
+  const setCommentMode = useCommentsStore((state) => state.setCommentMode)
+  const unresolvedCommentCount = useCommentsStore(
+    (state) => Object.values(state.threads).filter((thread) => thread.resolvedAt === null).length
+  )
+
   // Local state
   const [mounted, setMounted] = useState(false)
   const [, forceUpdate] = useState({})
@@ -983,6 +992,35 @@ export function ControlBar({ hasValidationErrors = false }: ControlBarProps) {
     )
   }
 
+  /**
+   * Render comment mode toggle
+   */
+  const renderCommentsButton = () => {
+    return (
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <Button
+            variant='ghost'
+            size='icon'
+            onClick={() => setCommentMode(!isCommentMode)}
+            className={cn('relative', isCommentMode && 'text-[#701FFC]')}
+          >
+            <MessageSquare className='h-5 w-5' />
+            {unresolvedCommentCount > 0 && (
+              <span className='absolute top-1 right-1 flex h-4 min-w-4 items-center justify-center rounded-full bg-[#701FFC] px-1 font-medium text-[10px] text-white'>
+                {unresolvedCommentCount}
+              </span>
+            )}
+            <span className='sr-only'>Toggle Comments</span>
+          </Button>
+        </TooltipTrigger>
+        <TooltipContent>
+          {isCommentMode ? 'Exit Comment Mode' : 'Comment Mode - click the canvas to comment'}
+        </TooltipContent>
+      </Tooltip>
+    )
+  }
+
   /**
    * Render debug mode controls
    */
@@ -1285,6 +1323,7 @@ export function ControlBar({ hasValidationErrors = false }: ControlBarProps) {
         {renderNotificationsDropdown()}
         {renderDuplicateButton()}
         {renderAutoLayoutButton()}
+        {renderCommentsButton()}
         {renderDebugModeToggle()}
         {/* {renderPublishButton()} */}
         {renderDeployButton()}
@@ -1,23 +1,95 @@
 'use client'
 
-import { useState } from 'react'
-import { MessageCircle, Send, X } from 'lucide-react'
+import { useMemo, useState } from 'react'
+import { Loader2, MessageCircle, Minus, Pencil, Plus, Send, X } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip'
+import type { CopilotChange } from '@/lib/copilot/types'
+import { cn } from '@/lib/utils'
+import { useUserPermissionsContext } from '@/app/workspace/[workspaceId]/w/components/providers/workspace-permissions-provider'
 import { useCopilotStore } from '@/stores/copilot/store'
+import { useWorkflowStore } from '@/stores/workflows/workflow/store'
+import { useCopilotProposal } from '../../hooks/use-copilot-proposal'
+
+interface ChangeDescription {
+  kind: 'add' | 'update' | 'remove'
+  label: string
+  details?: string
+}
+
+/**
+ * Describe proposed changes for the diff preview, naming blocks as they will be named
+ */
+function describeChanges(changes: CopilotChange[]): ChangeDescription[] {
+  const { blocks, edges } = useWorkflowStore.getState()
+  const names = new Map(Object.values(blocks).map((block) => [block.id, block.name]))
+  changes.forEach((change) => {
+    if (change.type === 'add-block') names.set(change.blockId, change.name)
+  })
+  const nameOf = (id: string) => names.get(id) ?? 'Unknown block'
+  const fieldList = (subBlocks: Record<string, any>) => {
+    const fields = Object.keys(subBlocks)
+    return fields.length > 0 ? `Sets ${fields.join(', ')}` : undefined
+  }
+
+  return changes.map((change): ChangeDescription => {
+    switch (change.type) {
+      case 'add-block':
+        return {
+          kind: 'add',
+          label: `Add ${change.name}${change.parentId ? ` in ${nameOf(change.parentId)}` : ''}`,
+          details: fieldList(change.subBlocks),
+        }
+      case 'update-block':
+        return {
+          kind: 'update',
+          label: `Update ${nameOf(change.blockId)}${change.name ? ` (rename to ${change.name})` : ''}`,
+          details: fieldList(change.subBlocks),
+        }
+      case 'remove-block':
+        return { kind: 'remove', label: `Remove ${nameOf(change.blockId)}` }
+      case 'add-edge':
+        return {
+          kind: 'add',
+          label: `Connect ${nameOf(change.edge.source)} → ${nameOf(change.edge.target)}`,
+        }
+      case 'remove-edge': {
+        const edge = edges.find((e) => e.id === change.edgeId)
+        return {
+          kind: 'remove',
+          label: edge
+            ? `Disconnect ${nameOf(edge.source)} → ${nameOf(edge.target)}`
+            : 'Remove a connection',
+        }
+      }
+    }
+  })
+}
+
+const CHANGE_ICONS = {
+  add: <Plus className='h-3 w-3 text-green-600' />,
+  update: <Pencil className='h-3 w-3 text-amber-500' />,
+  remove: <Minus className='h-3 w-3 text-red-500' />,
+}
 
 export function Copilot() {
-  const { sendMessage } = useCopilotStore()
+  const { sendMessage, messages, isProcessing, error } = useCopilotStore()
+  const { proposal, changes, accept, reject } = useCopilotProposal()
+  const userPermissions = useUserPermissionsContext()
   const [isOpen, setIsOpen] = useState(false)
   const [message, setMessage] = useState('')
 
+  const descriptions = useMemo(() => describeChanges(changes), [changes])
+  const lastReply = [...messages].reverse().find((msg) => msg.role === 'assistant')
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
-    if (!message.trim()) return
+    if (!message.trim() || isProcessing) return
 
-    await sendMessage(message)
+    const content = message
     setMessage('')
+    await sendMessage(content)
   }
 
   const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
@@ -46,8 +118,46 @@ export function Copilot() {
 
   return (
     <div className='-translate-x-1/2 fixed bottom-16 left-1/2 z-50 w-[50%] min-w-[280px] max-w-[500px] rounded-2xl border bg-background shadow-lg'>
+      {(lastReply || error || proposal) && (
+        <div className='max-h-[320px] space-y-3 overflow-y-auto border-b p-3'>
+          {lastReply && <p className='whitespace-pre-wrap text-sm'>{lastReply.content}</p>}
+          {error && <p className='text-red-500 text-sm'>{error}</p>}
+
+          {proposal && (
+            <div className='space-y-2 rounded-lg border bg-muted/30 p-2'>
+              <div className='space-y-1'>
+                {descriptions.map((description, index) => (
+                  <div key={index} className='flex gap-2 text-sm'>
+                    <span className='mt-1 flex-shrink-0'>{CHANGE_ICONS[description.kind]}</span>
+                    <div className='min-w-0'>
+                      <p className={cn(description.kind === 'remove' && 'line-through')}>
+                        {description.label}
+                      </p>
+                      {description.details && (
+                        <p className='truncate text-muted-foreground text-xs'>
+                          {description.details}
+                        </p>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+              <div className='flex justify-end gap-2'>
+                <Button variant='ghost' size='sm' onClick={reject}>
+                  Reject
+                </Button>
+                <Button size='sm' onClick={accept} disabled={!userPermissions.canEdit}>
+                  {userPermissions.canEdit ? 'Accept changes' : 'Edit permission required'}
+                </Button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
       <form onSubmit={handleSubmit} className='flex items-center gap-2 p-2'>
         <Button
+          type='button'
           variant='ghost'
           size='icon'
           onClick={() => setIsOpen(false)}
@@ -60,16 +170,21 @@ export function Copilot() {
           value={message}
           onChange={(e) => setMessage(e.target.value)}
           onKeyDown={handleKeyDown}
-          placeholder='Type your message...'
+          placeholder='Describe the workflow you want to build...'
           className='flex-1 rounded-xl border-0 text-foreground text-sm placeholder:text-muted-foreground/50 focus-visible:ring-0 focus-visible:ring-offset-0'
         />
         <Button
           type='submit'
           variant='ghost'
           size='icon'
+          disabled={isProcessing}
           className='h-8 w-8 rounded-full text-muted-foreground hover:bg-accent/50 hover:text-foreground'
         >
-          <Send className='h-4 w-4' />
+          {isProcessing ? (
+            <Loader2 className='h-4 w-4 animate-spin' />
+          ) : (
+            <Send className='h-4 w-4' />
+          )}
           <span className='sr-only'>Send message</span>
         </Button>
       </form>
@@ -4,6 +4,7 @@ import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip
 import { cn } from '@/lib/utils'
 import { useCollaborativeWorkflow } from '@/hooks/use-collaborative-workflow'
 import { useWorkflowStore } from '@/stores/workflows/workflow/store'
+import { RetryPolicyPopover } from '../retry-policy/retry-policy'
 
 interface ActionBarProps {
   blockId: string
@@ -24,6 +25,8 @@ export function ActionBar({ blockId, blockType, disabled = false }: ActionBarPro
   )
 
   const isStarterBlock = blockType === 'starter'
+  // Approval blocks wait on people, so retrying them makes no sense
+  const supportsRetryPolicy = !isStarterBlock && blockType !== 'approval'
 
   return (
     <div
@@ -120,6 +123,8 @@ export function ActionBar({ blockId, blockType, disabled = false }: ActionBarPro
         </TooltipContent>
       </Tooltip>
 
+      {supportsRetryPolicy && <RetryPolicyPopover blockId={blockId} disabled={disabled} />}
+
       {!isStarterBlock && (
         <Tooltip>
           <TooltipTrigger asChild>
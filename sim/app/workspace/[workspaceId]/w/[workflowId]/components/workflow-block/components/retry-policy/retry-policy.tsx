@@ -0,0 +1,204 @@
+import { useState } from 'react'
+import { RotateCcw } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Textarea } from '@/components/ui/textarea'
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip'
+import { cn } from '@/lib/utils'
+import { useCollaborativeWorkflow } from '@/hooks/use-collaborative-workflow'
+import { useWorkflowStore } from '@/stores/workflows/workflow/store'
+import type { BlockRetryPolicy } from '@/stores/workflows/workflow/types'
+
+interface RetryPolicyPopoverProps {
+  blockId: string
+  disabled?: boolean
+}
+
+const DEFAULT_POLICY: BlockRetryPolicy = {
+  maxRetries: 3,
+  backoff: 'exponential',
+  initialDelayMs: 1000,
+}
+
+export function RetryPolicyPopover({ blockId, disabled = false }: RetryPolicyPopoverProps) {
+  const { collaborativeSetBlockRetryPolicy } = useCollaborativeWorkflow()
+  const retryPolicy = useWorkflowStore((state) => state.blocks[blockId]?.retryPolicy)
+
+  const [open, setOpen] = useState(false)
+  const [maxRetries, setMaxRetries] = useState('')
+  const [backoff, setBackoff] = useState<BlockRetryPolicy['backoff']>('exponential')
+  const [initialDelayMs, setInitialDelayMs] = useState('')
+  const [retryOn, setRetryOn] = useState('')
+  const [timeoutSeconds, setTimeoutSeconds] = useState('')
+  const [fallbackOutput, setFallbackOutput] = useState('')
+  const [error, setError] = useState<string | null>(null)
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (isOpen) {
+      // Start from the stored policy every time the popover opens
+      const policy = retryPolicy || DEFAULT_POLICY
+      setMaxRetries(policy.maxRetries.toString())
+      setBackoff(policy.backoff)
+      setInitialDelayMs(policy.initialDelayMs.toString())
+      setRetryOn((policy.retryOn || []).join(', '))
+      setTimeoutSeconds(policy.timeoutMs ? (policy.timeoutMs / 1000).toString() : '')
+      setFallbackOutput(policy.fallbackOutput ? JSON.stringify(policy.fallbackOutput, null, 2) : '')
+      setError(null)
+    }
+    setOpen(isOpen)
+  }
+
+  const handleSave = () => {
+    const retries = Math.min(10, Math.max(0, Number.parseInt(maxRetries) || 0))
+    const delay = Math.max(0, Number.parseInt(initialDelayMs) || 0)
+    const timeout = Math.max(0, Number.parseInt(timeoutSeconds) || 0)
+
+    let fallback: Record<string, any> | undefined
+    if (fallbackOutput.trim()) {
+      try {
+        fallback = JSON.parse(fallbackOutput)
+      } catch {
+        setError('Fallback output must be valid JSON')
+        return
+      }
+      if (!fallback || typeof fallback !== 'object' || Array.isArray(fallback)) {
+        setError('Fallback output must be a JSON object')
+        return
+      }
+    }
+
+    const patterns = retryOn
+      .split(',')
+      .map((pattern) => pattern.trim())
+      .filter(Boolean)
+
+    collaborativeSetBlockRetryPolicy(blockId, {
+      maxRetries: retries,
+      backoff,
+      initialDelayMs: delay,
+      ...(patterns.length > 0 ? { retryOn: patterns } : {}),
+      ...(fallback ? { fallbackOutput: fallback } : {}),
+      ...(timeout > 0 ? { timeoutMs: timeout * 1000 } : {}),
+    })
+    setOpen(false)
+  }
+
+  const handleRemove = () => {
+    collaborativeSetBlockRetryPolicy(blockId, null)
+    setOpen(false)
+  }
+
+  return (
+    <Popover open={open} onOpenChange={(isOpen) => !disabled && handleOpenChange(isOpen)}>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <PopoverTrigger asChild>
+            <Button
+              variant='ghost'
+              size='sm'
+              className={cn(
+                retryPolicy ? 'text-primary' : 'text-gray-500',
+                disabled && 'cursor-not-allowed opacity-50'
+              )}
+              disabled={disabled}
+            >
+              <RotateCcw className='h-4 w-4' />
+            </Button>
+          </PopoverTrigger>
+        </TooltipTrigger>
+        <TooltipContent side='right'>
+          {disabled ? 'Read-only mode' : retryPolicy ? 'Edit Retry Policy' : 'Add Retry Policy'}
+        </TooltipContent>
+      </Tooltip>
+      <PopoverContent side='right' align='start' className='w-72 space-y-3 p-3'>
+        <div className='font-medium text-sm'>Retry Policy</div>
+
+        <div className='grid grid-cols-2 gap-2'>
+          <div className='space-y-1'>
+            <Label className='text-xs'>Retries</Label>
+            <Input
+              value={maxRetries}
+              onChange={(e) => setMaxRetries(e.target.value.replace(/[^0-9]/g, ''))}
+              className='h-8 text-sm'
+            />
+          </div>
+          <div className='space-y-1'>
+            <Label className='text-xs'>Initial delay (ms)</Label>
+            <Input
+              value={initialDelayMs}
+              onChange={(e) => setInitialDelayMs(e.target.value.replace(/[^0-9]/g, ''))}
+              className='h-8 text-sm'
+            />
+          </div>
+        </div>
+
+        <div className='space-y-1'>
+          <Label className='text-xs'>Backoff</Label>
+          <Select
+            value={backoff}
+            onValueChange={(value) => setBackoff(value as BlockRetryPolicy['backoff'])}
+          >
+            <SelectTrigger className='h-8 text-sm'>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value='exponential'>Exponential</SelectItem>
+              <SelectItem value='linear'>Linear</SelectItem>
+              <SelectItem value='fixed'>Fixed</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className='space-y-1'>
+          <Label className='text-xs'>Timeout per attempt (s)</Label>
+          <Input
+            value={timeoutSeconds}
+            onChange={(e) => setTimeoutSeconds(e.target.value.replace(/[^0-9]/g, ''))}
+            placeholder='No limit'
+            className='h-8 text-sm'
+          />
+        </div>
+
+        <div className='space-y-1'>
+          <Label className='text-xs'>Retry on</Label>
+          <Input
+            value={retryOn}
+            onChange={(e) => setRetryOn(e.target.value)}
+            placeholder='429, 5xx, timeout'
+            className='h-8 text-sm'
+          />
+        </div>
+
+        <div className='space-y-1'>
+          <Label className='text-xs'>Fallback output (JSON)</Label>
+          <Textarea
+            value={fallbackOutput}
+            onChange={(e) => setFallbackOutput(e.target.value)}
+            placeholder='{ "content": "Service unavailable" }'
+            className='min-h-[72px] font-mono text-xs'
+          />
+        </div>
+
+        {error && <div className='text-red-600 text-xs'>{error}</div>}
+
+        <div className='flex justify-between'>
+          <Button variant='ghost' size='sm' onClick={handleRemove} disabled={!retryPolicy}>
+            Remove
+          </Button>
+          <Button size='sm' onClick={handleSave}>
+            Save
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
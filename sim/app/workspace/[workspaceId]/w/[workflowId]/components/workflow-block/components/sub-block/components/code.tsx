@@ -3,6 +3,7 @@ import { useEffect, useMemo, useRef, useState } from 'react'
 import { Wand2 } from 'lucide-react'
 import { highlight, languages } from 'prismjs'
 import 'prismjs/components/prism-javascript'
+import 'prismjs/components/prism-python'
 import 'prismjs/themes/prism.css'
 
 import Editor from 'react-simple-code-editor'
@@ -14,7 +15,9 @@ import { cn } from '@/lib/utils'
 import { useCodeGeneration } from '@/app/workspace/[workspaceId]/w/[workflowId]/hooks/use-code-generation'
 import { useSubBlockStore } from '@/stores/workflows/subblock/store'
 import { CodePromptBar } from '../../../../code-prompt-bar/code-prompt-bar'
+import { useCollaborativeText } from '../hooks/use-collaborative-text'
 import { useSubBlockValue } from '../hooks/use-sub-block-value'
+import { RemoteTextCursors } from './remote-text-cursors'
 
 const logger = createLogger('Code')
 
@@ -53,7 +56,7 @@ export function Code({
   blockId,
   subBlockId,
   isConnecting,
-  placeholder = 'Write JavaScript...',
+  placeholder,
   language = 'javascript',
   generationType = 'javascript-function-body',
   value: propValue,
@@ -92,8 +95,31 @@ export function Code({
   const showCollapseButton =
     (subBlockId === 'responseFormat' || subBlockId === 'code') && code.split('\n').length > 5
 
+  // Function blocks pick the language of their code with a `language` sub-block
+  const selectedLanguage = useSubBlockStore((state) => state.getValue(blockId, 'language'))
+  const editorLanguage =
+    generationType === 'javascript-function-body' && selectedLanguage === 'python'
+      ? 'python'
+      : language
+  const editorPlaceholder =
+    placeholder ?? (editorLanguage === 'python' ? 'Write Python...' : 'Write JavaScript...')
+
   const editorRef = useRef<HTMLDivElement>(null)
 
+  // Edits go through the shared text document when collaborating, so concurrent typing merges
+  const { remoteCursors, setText, updateCursor } = useCollaborativeText(
+    blockId,
+    subBlockId,
+    () => editorRef.current?.querySelector('textarea') ?? null,
+    !isPreview && !disabled
+  )
+
+  const setValue = (newValue: string) => {
+    if (!setText(newValue)) {
+      setStoreValue(newValue)
+    }
+  }
+
   // Function to toggle collapsed state
   const toggleCollapsed = () => {
     setCollapsedValue(blockId, collapsedStateKey, !isCollapsed)
@@ -111,7 +137,7 @@ export function Code({
   const handleGeneratedContent = (generatedCode: string) => {
     setCode(generatedCode)
     if (!isPreview && !disabled) {
-      setStoreValue(generatedCode)
+      setValue(generatedCode)
     }
   }
 
@@ -120,7 +146,7 @@ export function Code({
     setCode((currentCode) => {
       const newCode = currentCode + chunk
       if (!isPreview && !disabled) {
-        setStoreValue(newCode)
+        setValue(newCode)
       }
       return newCode
     })
@@ -233,7 +259,7 @@ export function Code({
       const newValue = `${code.slice(0, dropPosition)}<${code.slice(dropPosition)}`
 
       setCode(newValue)
-      setStoreValue(newValue)
+      setValue(newValue)
       const newCursorPosition = dropPosition + 1
       setCursorPosition(newCursorPosition)
 
@@ -257,7 +283,7 @@ export function Code({
   const handleTagSelect = (newValue: string) => {
     if (!isPreview) {
       setCode(newValue)
-      setStoreValue(newValue)
+      setValue(newValue)
     }
     setShowTags(false)
     setActiveSourceBlockId(null)
@@ -270,7 +296,7 @@ export function Code({
   const handleEnvVarSelect = (newValue: string) => {
     if (!isPreview) {
       setCode(newValue)
-      setStoreValue(newValue)
+      setValue(newValue)
     }
     setShowEnvVars(false)
 
@@ -379,7 +405,7 @@ export function Code({
         >
           {code.length === 0 && !isCollapsed && (
             <div className='pointer-events-none absolute top-[12px] left-[42px] select-none text-muted-foreground/50'>
-              {placeholder}
+              {editorPlaceholder}
             </div>
           )}
 
@@ -388,7 +414,7 @@ export function Code({
             onValueChange={(newCode) => {
               if (!isCollapsed && !isAiStreaming && !isPreview && !disabled) {
                 setCode(newCode)
-                setStoreValue(newCode)
+                setValue(newCode)
 
                 const textarea = editorRef.current?.querySelector('textarea')
                 if (textarea) {
@@ -416,8 +442,11 @@ export function Code({
                 e.preventDefault()
               }
             }}
+            onKeyUp={() => updateCursor()}
+            onClick={() => updateCursor()}
+            onBlur={() => updateCursor(false)}
             highlight={(codeToHighlight) =>
-              highlight(codeToHighlight, languages[language], language)
+              highlight(codeToHighlight, languages[editorLanguage], editorLanguage)
             }
             padding={12}
             style={{
@@ -438,6 +467,14 @@ export function Code({
             )}
           />
 
+          {!isCollapsed && (
+            <RemoteTextCursors
+              text={code}
+              cursors={remoteCursors}
+              className='left-[30px] p-3 leading-[21px]'
+            />
+          )}
+
           {showEnvVars && !isCollapsed && !isAiStreaming && (
             <EnvVarDropdown
               visible={showEnvVars}
@@ -8,7 +8,9 @@ import { Textarea } from '@/components/ui/textarea'
 import { createLogger } from '@/lib/logs/console-logger'
 import { cn } from '@/lib/utils'
 import type { SubBlockConfig } from '@/blocks/types'
+import { useCollaborativeText } from '../hooks/use-collaborative-text'
 import { useSubBlockValue } from '../hooks/use-sub-block-value'
+import { RemoteTextCursors } from './remote-text-cursors'
 
 const logger = createLogger('LongInput')
 
@@ -54,6 +56,20 @@ export function LongInput({
   const [activeSourceBlockId, setActiveSourceBlockId] = useState<string | null>(null)
   const containerRef = useRef<HTMLDivElement>(null)
 
+  // Edits go through the shared text document when collaborating, so concurrent typing merges
+  const { remoteCursors, setText, updateCursor } = useCollaborativeText(
+    blockId,
+    subBlockId,
+    () => textareaRef.current,
+    !isPreview && !disabled && !onChange
+  )
+
+  const setValue = (newValue: string) => {
+    if (!setText(newValue)) {
+      setStoreValue(newValue)
+    }
+  }
+
   // Use preview value when in preview mode, otherwise use store value or prop value
   const value = isPreview ? previewValue : propValue !== undefined ? propValue : storeValue
 
@@ -93,7 +109,7 @@ export function LongInput({
       onChange(newValue)
     } else if (!isPreview) {
       // Only update store when not in preview mode
-      setStoreValue(newValue)
+      setValue(newValue)
     }
 
     setCursorPosition(newCursorPosition)
@@ -191,7 +207,7 @@ export function LongInput({
       // Update all state in a single batch
       Promise.resolve().then(() => {
         if (!isPreview) {
-          setStoreValue(newValue)
+          setValue(newValue)
         }
         setCursorPosition(dropPosition + 1)
         setShowTags(true)
@@ -288,11 +304,13 @@ export function LongInput({
         onScroll={handleScroll}
         onWheel={handleWheel}
         onKeyDown={handleKeyDown}
+        onSelect={() => updateCursor()}
         onFocus={() => {
           setShowEnvVars(false)
           setShowTags(false)
           setSearchTerm('')
         }}
+        onBlur={() => updateCursor(false)}
         disabled={isPreview || disabled}
         style={{
           fontFamily: 'inherit',
@@ -311,6 +329,11 @@ export function LongInput({
         }}
       >
         {formatDisplayText(value?.toString() ?? '', true)}
+        <RemoteTextCursors
+          text={value?.toString() ?? ''}
+          cursors={remoteCursors}
+          className='px-3 py-2 text-sm'
+        />
       </div>
 
       {/* Custom resize handle */}
@@ -330,7 +353,7 @@ export function LongInput({
           if (onChange) {
             onChange(newValue)
           } else if (!isPreview) {
-            setStoreValue(newValue)
+            setValue(newValue)
           }
         }}
         searchTerm={searchTerm}
@@ -347,7 +370,7 @@ export function LongInput({
           if (onChange) {
             onChange(newValue)
           } else if (!isPreview) {
-            setStoreValue(newValue)
+            setValue(newValue)
           }
         }}
         blockId={blockId}
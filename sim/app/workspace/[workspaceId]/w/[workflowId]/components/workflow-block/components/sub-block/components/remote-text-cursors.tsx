@@ -0,0 +1,72 @@
+import { cn } from '@/lib/utils'
+import type { RemoteTextCursor } from '../hooks/use-collaborative-text'
+
+interface RemoteTextCursorsProps {
+  text: string
+  cursors: RemoteTextCursor[]
+  className?: string
+}
+
+const CURSOR_COLORS = ['#4F46E5', '#C026D3', '#F97316', '#10B981', '#8B5CF6', '#F59E0B']
+
+/**
+ * Deterministic color for a collaborator, so their caret keeps its color across editors
+ */
+function getCursorColor(userId: string): string {
+  const hash = Math.abs(userId.split('').reduce((a, b) => a + b.charCodeAt(0), 0))
+  return CURSOR_COLORS[hash % CURSOR_COLORS.length]
+}
+
+/**
+ * Draws the carets and selections of other collaborators over a text editor.
+ * Each cursor is laid out on a transparent copy of the text, so the wrapper must match the
+ * editor's padding, font and wrapping through `className`.
+ */
+export function RemoteTextCursors({ text, cursors, className }: RemoteTextCursorsProps) {
+  if (cursors.length === 0) return null
+
+  return (
+    <>
+      {cursors.map(({ socketId, userId, userName, anchor, head }) => {
+        const color = getCursorColor(userId)
+        const start = Math.min(anchor, head, text.length)
+        const end = Math.min(Math.max(anchor, head), text.length)
+        const caretAtStart = head <= anchor
+
+        const caret = (
+          <span className='relative'>
+            <span
+              className='absolute top-0 left-0 h-[1.25em] w-[2px]'
+              style={{ backgroundColor: color }}
+            />
+            <span
+              className='-top-4 absolute left-0 whitespace-nowrap rounded px-1 text-[10px] text-white leading-4'
+              style={{ backgroundColor: color }}
+            >
+              {userName}
+            </span>
+          </span>
+        )
+
+        return (
+          <div
+            key={socketId}
+            aria-hidden='true'
+            className={cn(
+              'pointer-events-none absolute inset-0 whitespace-pre-wrap break-words text-transparent',
+              className
+            )}
+          >
+            {text.slice(0, start)}
+            {caretAtStart && caret}
+            {end > start && (
+              <span style={{ backgroundColor: `${color}33` }}>{text.slice(start, end)}</span>
+            )}
+            {!caretAtStart && caret}
+            {text.slice(end)}
+          </div>
+        )
+      })}
+    </>
+  )
+}
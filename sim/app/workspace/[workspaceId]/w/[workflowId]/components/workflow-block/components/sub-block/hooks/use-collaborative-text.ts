@@ -0,0 +1,406 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import type { Socket } from 'socket.io-client'
+import * as Y from 'yjs'
+import {
+  applyTextChange,
+  createTextCursor,
+  getSharedText,
+  isEmptyUpdate,
+  resolveTextCursor,
+  type TextCursor,
+  toUint8Array,
+} from '@/lib/collaboration/text-crdt'
+import { createLogger } from '@/lib/logs/console-logger'
+import { useSocket } from '@/contexts/socket-context'
+import { useWorkflowRegistry } from '@/stores/workflows/registry/store'
+import { useSubBlockStore } from '@/stores/workflows/subblock/store'
+import { useUndoRedoStore } from '@/stores/workflows/undo-redo/store'
+
+const logger = createLogger('CollaborativeText')
+
+// Transaction origins, used to tell local edits apart from updates received from the server.
+// Replayed changes, such as an undo of a block removal, are shared but not undoable as edits.
+const LOCAL_ORIGIN = 'local'
+const REMOTE_ORIGIN = 'remote'
+const REPLAY_ORIGIN = 'replay'
+
+// Minimum delay between two cursor broadcasts
+const CURSOR_THROTTLE_MS = 50
+
+export interface RemoteTextCursor {
+  socketId: string
+  userId: string
+  userName: string
+  anchor: number
+  head: number
+}
+
+interface CollaboratorCursor {
+  userId: string
+  userName: string
+  cursor: TextCursor
+}
+
+interface TextEditorBinding {
+  getTextarea: () => HTMLTextAreaElement | null
+  onChange: () => void
+}
+
+/**
+ * The Yjs document of a sub-block, shared by every editor showing that sub-block.
+ * Socket listeners are attached once per document rather than once per editor.
+ */
+interface SharedTextDocument {
+  doc: Y.Doc
+  undoManager: Y.UndoManager // Tracks the local user's edits only
+  synced: boolean
+  cursors: Map<string, CollaboratorCursor>
+  editors: Set<TextEditorBinding>
+  detach: () => void
+}
+
+const sharedDocuments = new Map<string, SharedTextDocument>()
+
+function notifyEditors(shared: SharedTextDocument) {
+  shared.editors.forEach((editor) => editor.onChange())
+}
+
+/**
+ * Keep the caret of focused editors in place while a remote change rewrites the text
+ */
+function applyRemoteUpdate(shared: SharedTextDocument, update: Uint8Array) {
+  const text = getSharedText(shared.doc)
+  const selections: { textarea: HTMLTextAreaElement; cursor: TextCursor }[] = []
+
+  shared.editors.forEach((editor) => {
+    const textarea = editor.getTextarea()
+    if (textarea && textarea === document.activeElement) {
+      selections.push({
+        textarea,
+        cursor: createTextCursor(text, textarea.selectionStart, textarea.selectionEnd),
+      })
+    }
+  })
+
+  Y.applyUpdate(shared.doc, update, REMOTE_ORIGIN)
+
+  if (selections.length > 0) {
+    setTimeout(() => {
+      selections.forEach(({ textarea, cursor }) => {
+        const range = resolveTextCursor(shared.doc, cursor)
+        if (range) {
+          textarea.setSelectionRange(range.anchor, range.head)
+        }
+      })
+    }, 0)
+  }
+}
+
+function attachDocument(
+  socket: Socket,
+  workflowId: string,
+  blockId: string,
+  subBlockId: string
+): SharedTextDocument {
+  const doc = new Y.Doc()
+  const text = getSharedText(doc)
+  const isTarget = (data: any) => data?.blockId === blockId && data?.subblockId === subBlockId
+
+  const shared: SharedTextDocument = {
+    doc,
+    // Every edit is its own step, so the undo history counts them one for one
+    undoManager: new Y.UndoManager(text, {
+      trackedOrigins: new Set([LOCAL_ORIGIN]),
+      captureTimeout: 0,
+    }),
+    synced: false,
+    cursors: new Map(),
+    editors: new Set(),
+    detach: () => {},
+  }
+
+  const requestSync = () => {
+    socket.emit('text-sync', {
+      blockId,
+      subblockId: subBlockId,
+      stateVector: Y.encodeStateVector(doc),
+    })
+  }
+
+  const handleSync = (data: any) => {
+    if (!isTarget(data)) return
+
+    Y.applyUpdate(doc, toUint8Array(data.update), REMOTE_ORIGIN)
+
+    // Send back any local edits the server has not seen yet
+    const missing = Y.encodeStateAsUpdate(doc, toUint8Array(data.stateVector))
+    if (!isEmptyUpdate(missing)) {
+      socket.emit('text-update', { blockId, subblockId: subBlockId, update: missing })
+    }
+
+    if (!shared.synced) {
+      shared.synced = true
+      logger.debug(`Synced text document ${blockId}.${subBlockId}`)
+    }
+    notifyEditors(shared)
+  }
+
+  const handleUpdate = (data: any) => {
+    if (!isTarget(data)) return
+    applyRemoteUpdate(shared, toUint8Array(data.update))
+  }
+
+  const handleCursor = (data: any) => {
+    if (!isTarget(data)) return
+
+    if (data.cursor) {
+      shared.cursors.set(data.socketId, {
+        userId: data.userId,
+        userName: data.userName,
+        cursor: data.cursor,
+      })
+    } else {
+      shared.cursors.delete(data.socketId)
+    }
+    notifyEditors(shared)
+  }
+
+  const handleLocalUpdate = (update: Uint8Array, origin: unknown) => {
+    if (origin === LOCAL_ORIGIN || origin === REPLAY_ORIGIN || origin === shared.undoManager) {
+      socket.emit('text-update', { blockId, subblockId: subBlockId, update })
+    }
+  }
+
+  // Mirror the document into the sub-block store so the rest of the app sees the merged text
+  const handleTextChange = () => {
+    if (useWorkflowRegistry.getState().activeWorkflowId !== workflowId) return
+
+    const value = text.toString()
+    const store = useSubBlockStore.getState()
+    if (store.getValue(blockId, subBlockId) !== value) {
+      store.setValue(blockId, subBlockId, value)
+    }
+    notifyEditors(shared)
+  }
+
+  socket.on('text-sync', handleSync)
+  socket.on('text-update', handleUpdate)
+  socket.on('text-cursor', handleCursor)
+  // Joining a room completes with the workflow state, so sync again after every (re)join
+  socket.on('workflow-state', requestSync)
+  doc.on('update', handleLocalUpdate)
+  text.observe(handleTextChange)
+
+  shared.detach = () => {
+    socket.off('text-sync', handleSync)
+    socket.off('text-update', handleUpdate)
+    socket.off('text-cursor', handleCursor)
+    socket.off('workflow-state', requestSync)
+    shared.undoManager.destroy()
+    doc.destroy()
+  }
+
+  requestSync()
+
+  return shared
+}
+
+/**
+ * Write a value into the shared document of a sub-block, so open editors stay in sync.
+ * Used for changes made outside the editor, such as undo or accepted copilot changes. They
+ * are not edits of the text, so undoing them sets the sub-block value instead.
+ * @returns Whether the sub-block has a synced document; otherwise callers should set the
+ * sub-block value directly
+ */
+export function setSharedTextValue(
+  workflowId: string,
+  blockId: string,
+  subBlockId: string,
+  value: string
+): boolean {
+  const shared = sharedDocuments.get(`${workflowId}:${blockId}:${subBlockId}`)
+  if (!shared?.synced) return false
+
+  applyTextChange(getSharedText(shared.doc), value, REPLAY_ORIGIN)
+  return true
+}
+
+/**
+ * Undo or redo the local user's most recent edits of a sub-block's shared text. Unlike
+ * writing back an earlier value, this keeps what collaborators typed in the meantime.
+ * @returns Whether the document still holds those edits; otherwise, e.g. after its editor
+ * was closed, callers should set the sub-block value directly
+ */
+export function replaySharedTextEdits(
+  workflowId: string,
+  blockId: string,
+  subBlockId: string,
+  edits: number,
+  direction: 'undo' | 'redo'
+): boolean {
+  const shared = sharedDocuments.get(`${workflowId}:${blockId}:${subBlockId}`)
+  if (!shared?.synced) return false
+
+  const { undoManager } = shared
+  const stack = direction === 'undo' ? undoManager.undoStack : undoManager.redoStack
+  if (stack.length < edits) return false
+
+  for (let i = 0; i < edits; i++) {
+    if (direction === 'undo') {
+      undoManager.undo()
+    } else {
+      undoManager.redo()
+    }
+  }
+  return true
+}
+
+/**
+ * Binds a text editor to the Yjs document of a sub-block so that concurrent edits merge
+ * instead of overwriting each other, and exposes the carets of other collaborators.
+ *
+ * Until the document has synced, `setText` returns false and callers should fall back to
+ * setting the sub-block value directly.
+ *
+ * @param blockId The ID of the block containing the sub-block
+ * @param subBlockId The ID of the sub-block
+ * @param getTextarea Returns the editor's textarea, used to read and restore the caret
+ * @param enabled Whether the editor is editable (false for previews and disabled editors)
+ */
+export function useCollaborativeText(
+  blockId: string,
+  subBlockId: string,
+  getTextarea: () => HTMLTextAreaElement | null,
+  enabled = true
+) {
+  const { socket, isConnected, currentWorkflowId, presenceUsers } = useSocket()
+  const activeWorkflowId = useWorkflowRegistry((state) => state.activeWorkflowId)
+
+  const [isSynced, setIsSynced] = useState(false)
+  const [remoteCursors, setRemoteCursors] = useState<RemoteTextCursor[]>([])
+
+  const sharedRef = useRef<SharedTextDocument | null>(null)
+  const getTextareaRef = useRef(getTextarea)
+  getTextareaRef.current = getTextarea
+  const lastCursorEmit = useRef(0)
+
+  const isActive =
+    enabled &&
+    !!socket &&
+    isConnected &&
+    !!currentWorkflowId &&
+    activeWorkflowId === currentWorkflowId
+
+  useEffect(() => {
+    if (!isActive || !socket || !currentWorkflowId) return
+
+    const key = `${currentWorkflowId}:${blockId}:${subBlockId}`
+    let shared = sharedDocuments.get(key)
+    if (!shared) {
+      shared = attachDocument(socket, currentWorkflowId, blockId, subBlockId)
+      sharedDocuments.set(key, shared)
+    }
+
+    const current = shared
+    const binding: TextEditorBinding = {
+      getTextarea: () => getTextareaRef.current(),
+      onChange: () => {
+        setIsSynced(current.synced)
+        const cursors: RemoteTextCursor[] = []
+        current.cursors.forEach(({ userId, userName, cursor }, socketId) => {
+          const range = resolveTextCursor(current.doc, cursor)
+          if (range) cursors.push({ socketId, userId, userName, ...range })
+        })
+        setRemoteCursors(cursors)
+      },
+    }
+
+    current.editors.add(binding)
+    sharedRef.current = current
+    binding.onChange()
+
+    return () => {
+      current.editors.delete(binding)
+      sharedRef.current = null
+      setIsSynced(false)
+      setRemoteCursors([])
+
+      if (current.editors.size === 0) {
+        current.detach()
+        sharedDocuments.delete(key)
+      }
+    }
+  }, [isActive, socket, currentWorkflowId, blockId, subBlockId])
+
+  // Drop the carets of collaborators who left the workflow
+  useEffect(() => {
+    const shared = sharedRef.current
+    if (!shared) return
+
+    const connected = new Set(presenceUsers.map((user) => user.socketId))
+    let changed = false
+    shared.cursors.forEach((_cursor, socketId) => {
+      if (!connected.has(socketId)) {
+        shared.cursors.delete(socketId)
+        changed = true
+      }
+    })
+    if (changed) notifyEditors(shared)
+  }, [presenceUsers])
+
+  /**
+   * Apply a new editor value as an edit of the shared text
+   * @returns Whether the edit went through the document
+   */
+  const setText = useCallback(
+    (value: string): boolean => {
+      const shared = sharedRef.current
+      if (!shared?.synced || !currentWorkflowId) return false
+
+      const text = getSharedText(shared.doc)
+      const before = text.toString()
+      if (applyTextChange(text, value, LOCAL_ORIGIN)) {
+        useUndoRedoStore.getState().record(currentWorkflowId, {
+          type: 'set-subblock',
+          blockId,
+          subBlockId,
+          before,
+          after: value,
+          textEdits: 1,
+        })
+      }
+      return true
+    },
+    [currentWorkflowId, blockId, subBlockId]
+  )
+
+  /**
+   * Share the editor's caret or selection, or clear it when the editor loses focus
+   */
+  const updateCursor = useCallback(
+    (focused = true) => {
+      const shared = sharedRef.current
+      if (!socket || !shared?.synced) return
+
+      const textarea = getTextareaRef.current()
+      if (focused && !textarea) return
+
+      const now = performance.now()
+      if (focused && now - lastCursorEmit.current < CURSOR_THROTTLE_MS) return
+      lastCursorEmit.current = now
+
+      let cursor: TextCursor | null = null
+      if (focused && textarea) {
+        const backward = textarea.selectionDirection === 'backward'
+        const anchor = backward ? textarea.selectionEnd : textarea.selectionStart
+        const head = backward ? textarea.selectionStart : textarea.selectionEnd
+        cursor = createTextCursor(getSharedText(shared.doc), anchor, head)
+      }
+
+      socket.emit('text-cursor', { blockId, subblockId: subBlockId, cursor })
+    },
+    [socket, blockId, subBlockId]
+  )
+
+  return { isSynced, remoteCursors, setText, updateCursor }
+}
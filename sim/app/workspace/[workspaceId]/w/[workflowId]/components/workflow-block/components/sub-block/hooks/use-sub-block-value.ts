@@ -2,7 +2,9 @@ import { useCallback, useEffect, useRef } from 'react'
 import { isEqual } from 'lodash'
 import { getProviderFromModel } from '@/providers/utils'
 import { useGeneralStore } from '@/stores/settings/general/store'
+import { useWorkflowRegistry } from '@/stores/workflows/registry/store'
 import { useSubBlockStore } from '@/stores/workflows/subblock/store'
+import { useUndoRedoStore } from '@/stores/workflows/undo-redo/store'
 import { useWorkflowStore } from '@/stores/workflows/workflow/store'
 
 // Helper function to dispatch collaborative subblock updates
@@ -228,9 +230,23 @@ export function useSubBlockValue<T = any>(
           storeApiKeyValue(blockId, blockType, modelValue, newValue, storeValue)
         }
 
+        const previousValue = useSubBlockStore.getState().getValue(blockId, subBlockId) ?? null
+
         // Update the subblock store directly
         useSubBlockStore.getState().setValue(blockId, subBlockId, valueCopy)
 
+        // Record the change in the user's undo history
+        const activeWorkflowId = useWorkflowRegistry.getState().activeWorkflowId
+        if (activeWorkflowId) {
+          useUndoRedoStore.getState().record(activeWorkflowId, {
+            type: 'set-subblock',
+            blockId,
+            subBlockId,
+            before: previousValue,
+            after: valueCopy,
+          })
+        }
+
         // Dispatch event to trigger socket emission only (not store update)
         const event = new CustomEvent('update-subblock-value', {
           detail: {
@@ -0,0 +1,136 @@
+'use client'
+
+import { useCallback, useEffect, useRef } from 'react'
+import { useSearchParams } from 'next/navigation'
+import { createLogger } from '@/lib/logs/console-logger'
+import { useSocket } from '@/contexts/socket-context'
+import { useCommentsStore } from '@/stores/comments/store'
+
+const logger = createLogger('Comments')
+
+/**
+ * Keeps the comments store in sync with the comment threads of the joined workflow.
+ * Mount once per workflow canvas.
+ */
+export function useCommentsSync() {
+  const { socket, isConnected, currentWorkflowId } = useSocket()
+  const searchParams = useSearchParams()
+  const linkedThreadId = searchParams.get('thread')
+  const hasOpenedLinkedThread = useRef(false)
+
+  useEffect(() => {
+    if (!socket) return
+
+    const requestThreads = () => socket.emit('comment-threads-request')
+
+    const handleThreads = (data: any) => {
+      const store = useCommentsStore.getState()
+      store.setThreads(data.workflowId, data.threads)
+
+      // Open the thread linked from a mention email, once
+      if (
+        linkedThreadId &&
+        !hasOpenedLinkedThread.current &&
+        data.threads.some((thread: any) => thread.id === linkedThreadId)
+      ) {
+        hasOpenedLinkedThread.current = true
+        store.setActiveThread(linkedThreadId)
+      }
+      logger.debug(`Loaded ${data.threads.length} comment threads`)
+    }
+
+    const handleThreadChanged = (data: any) => useCommentsStore.getState().upsertThread(data.thread)
+
+    const handleCommentCreated = (data: any) => useCommentsStore.getState().addComment(data.comment)
+
+    const handleCommentDeleted = (data: any) =>
+      useCommentsStore.getState().removeComment(data.commentId, data.threadId, data.threadDeleted)
+
+    // Joining a room completes with the workflow state, so load threads after every (re)join
+    socket.on('workflow-state', requestThreads)
+    socket.on('comment-threads', handleThreads)
+    socket.on('comment-thread-created', handleThreadChanged)
+    socket.on('comment-thread-updated', handleThreadChanged)
+    socket.on('comment-created', handleCommentCreated)
+    socket.on('comment-deleted', handleCommentDeleted)
+
+    return () => {
+      socket.off('workflow-state', requestThreads)
+      socket.off('comment-threads', handleThreads)
+      socket.off('comment-thread-created', handleThreadChanged)
+      socket.off('comment-thread-updated', handleThreadChanged)
+      socket.off('comment-created', handleCommentCreated)
+      socket.off('comment-deleted', handleCommentDeleted)
+    }
+  }, [socket, linkedThreadId])
+
+  // The workflow may have been joined before the listeners were attached
+  useEffect(() => {
+    if (socket && isConnected && currentWorkflowId) {
+      socket.emit('comment-threads-request')
+    }
+  }, [socket, isConnected, currentWorkflowId])
+
+  useEffect(() => {
+    return () => useCommentsStore.getState().reset()
+  }, [])
+}
+
+/**
+ * Actions on the comment threads of the joined workflow. Changes are applied once the
+ * server has persisted them and sent them back.
+ */
+export function useComments() {
+  const { socket } = useSocket()
+
+  const createThread = useCallback(
+    (
+      blockId: string | null,
+      position: { x: number; y: number },
+      content: string,
+      mentions: string[]
+    ) => {
+      if (!socket) return null
+
+      const threadId = crypto.randomUUID()
+      socket.emit('comment-thread-create', {
+        threadId,
+        blockId,
+        position,
+        commentId: crypto.randomUUID(),
+        content,
+        mentions,
+      })
+      return threadId
+    },
+    [socket]
+  )
+
+  const reply = useCallback(
+    (threadId: string, content: string, mentions: string[]) => {
+      socket?.emit('comment-create', {
+        threadId,
+        commentId: crypto.randomUUID(),
+        content,
+        mentions,
+      })
+    },
+    [socket]
+  )
+
+  const setResolved = useCallback(
+    (threadId: string, resolved: boolean) => {
+      socket?.emit('comment-thread-resolve', { threadId, resolved })
+    },
+    [socket]
+  )
+
+  const deleteComment = useCallback(
+    (commentId: string) => {
+      socket?.emit('comment-delete', { commentId })
+    },
+    [socket]
+  )
+
+  return { createThread, reply, setResolved, deleteComment }
+}
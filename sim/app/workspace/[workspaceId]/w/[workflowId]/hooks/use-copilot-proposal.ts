@@ -0,0 +1,221 @@
+'use client'
+
+import { useCallback, useEffect, useMemo, useRef } from 'react'
+import { buildChangePlan } from '@/lib/copilot/plan'
+import type { CopilotChange, SubflowSettings } from '@/lib/copilot/types'
+import { createLogger } from '@/lib/logs/console-logger'
+import { useCollaborativeWorkflow } from '@/hooks/use-collaborative-workflow'
+import { useCopilotStore } from '@/stores/copilot/store'
+import { useWorkflowRegistry } from '@/stores/workflows/registry/store'
+import { useSubBlockStore } from '@/stores/workflows/subblock/store'
+import { useUndoRedoStore } from '@/stores/workflows/undo-redo/store'
+import { mergeSubblockState } from '@/stores/workflows/utils'
+import { useWorkflowStore } from '@/stores/workflows/workflow/store'
+import { setSharedTextValue } from '../components/workflow-block/components/sub-block/hooks/use-collaborative-text'
+
+const logger = createLogger('CopilotProposal')
+
+/**
+ * The changes proposed by the copilot, resolved against the active workflow, and the actions
+ * to accept or reject them.
+ *
+ * Accepted changes are applied through the collaborative workflow operations, so
+ * collaborators see them like any other edit, and undo as a single step. A proposal only
+ * applies to the workflow it was made for; leaving that workflow ends the conversation.
+ */
+export function useCopilotProposal() {
+  const {
+    collaborativeAddBlock,
+    collaborativeRemoveBlock,
+    collaborativeUpdateBlockName,
+    collaborativeAddEdge,
+    collaborativeRemoveEdge,
+    collaborativeSetSubblockValue,
+    collaborativeUpdateLoopType,
+    collaborativeUpdateLoopCount,
+    collaborativeUpdateLoopCollection,
+    collaborativeUpdateParallelType,
+    collaborativeUpdateParallelCount,
+    collaborativeUpdateParallelCollection,
+  } = useCollaborativeWorkflow()
+
+  const proposal = useCopilotStore((state) => state.proposal)
+  const resolveProposal = useCopilotStore((state) => state.resolveProposal)
+  const clearCopilot = useCopilotStore((state) => state.clearCopilot)
+
+  const activeWorkflowId = useWorkflowRegistry((state) => state.activeWorkflowId)
+  const blocks = useWorkflowStore((state) => state.blocks)
+  const edges = useWorkflowStore((state) => state.edges)
+  // Read by mergeSubblockState, so changed values resolve the plan again
+  const subBlockValues = useSubBlockStore((state) =>
+    activeWorkflowId ? state.workflowValues[activeWorkflowId] : undefined
+  )
+
+  // The conversation and its proposal are about the workflow they started on
+  useEffect(() => () => clearCopilot(), [activeWorkflowId, clearCopilot])
+
+  // IDs of the new blocks and edges of the proposal, kept while the plan is resolved again
+  const generatedIds = useRef<{ proposalId: string; ids: string[] } | null>(null)
+
+  // Resolved again as the workflow changes, so the preview matches what accept applies
+  const changes = useMemo<CopilotChange[]>(() => {
+    if (!proposal || proposal.workflowId !== activeWorkflowId) return []
+
+    if (generatedIds.current?.proposalId !== proposal.id) {
+      generatedIds.current = { proposalId: proposal.id, ids: [] }
+    }
+    const { ids } = generatedIds.current
+    let next = 0
+    const createId = () => {
+      if (next === ids.length) ids.push(crypto.randomUUID())
+      return ids[next++]
+    }
+
+    return buildChangePlan(
+      proposal.operations,
+      { blocks: mergeSubblockState(blocks, activeWorkflowId), edges },
+      createId
+    )
+  }, [proposal, activeWorkflowId, blocks, edges, subBlockValues])
+
+  const setSubBlockValue = useCallback(
+    (workflowId: string, blockId: string, subBlockId: string, value: any) => {
+      // Text sub-blocks open in an editor go through their shared document to stay merged
+      if (typeof value === 'string') {
+        const before = useSubBlockStore.getState().getValue(blockId, subBlockId) ?? null
+        if (setSharedTextValue(workflowId, blockId, subBlockId, value)) {
+          useUndoRedoStore.getState().record(workflowId, {
+            type: 'set-subblock',
+            blockId,
+            subBlockId,
+            before,
+            after: value,
+          })
+          return
+        }
+      }
+      collaborativeSetSubblockValue(blockId, subBlockId, value)
+    },
+    [collaborativeSetSubblockValue]
+  )
+
+  const applySubflow = useCallback(
+    (blockId: string, blockType: string, subflow: SubflowSettings) => {
+      const { iterationType, count, collection } = subflow
+
+      if (blockType === 'loop') {
+        if (iterationType === 'for' || iterationType === 'forEach') {
+          collaborativeUpdateLoopType(blockId, iterationType)
+        }
+        if (count !== undefined) collaborativeUpdateLoopCount(blockId, count)
+        if (collection !== undefined) collaborativeUpdateLoopCollection(blockId, collection)
+      } else {
+        // Changing the parallel type resets its count and collection, so it goes first
+        if (iterationType === 'count' || iterationType === 'collection') {
+          collaborativeUpdateParallelType(blockId, iterationType)
+        }
+        if (count !== undefined) collaborativeUpdateParallelCount(blockId, count)
+        if (collection !== undefined) collaborativeUpdateParallelCollection(blockId, collection)
+      }
+    },
+    [
+      collaborativeUpdateLoopType,
+      collaborativeUpdateLoopCount,
+      collaborativeUpdateLoopCollection,
+      collaborativeUpdateParallelType,
+      collaborativeUpdateParallelCount,
+      collaborativeUpdateParallelCollection,
+    ]
+  )
+
+  const applyChange = useCallback(
+    (workflowId: string, change: CopilotChange) => {
+      const { blocks, edges } = useWorkflowStore.getState()
+
+      switch (change.type) {
+        case 'add-block': {
+          const { blockId, blockType, name, position, parentId, size } = change
+          if (blocks[blockId] || (parentId && !blocks[parentId])) return
+
+          const parentData = parentId ? { parentId, extent: 'parent' as const } : {}
+          if (size) {
+            collaborativeAddBlock(blockId, blockType, name, position, {
+              ...size,
+              type: blockType === 'loop' ? 'loopNode' : 'parallelNode',
+              ...parentData,
+            })
+          } else {
+            collaborativeAddBlock(blockId, blockType, name, position, parentData)
+          }
+
+          if (change.subflow) applySubflow(blockId, blockType, change.subflow)
+          Object.entries(change.subBlocks).forEach(([subBlockId, value]) =>
+            setSubBlockValue(workflowId, blockId, subBlockId, value)
+          )
+          return
+        }
+
+        case 'update-block': {
+          const block = blocks[change.blockId]
+          if (!block) return
+
+          if (change.name) collaborativeUpdateBlockName(change.blockId, change.name)
+          if (change.subflow) applySubflow(change.blockId, block.type, change.subflow)
+          Object.entries(change.subBlocks).forEach(([subBlockId, value]) =>
+            setSubBlockValue(workflowId, change.blockId, subBlockId, value)
+          )
+          return
+        }
+
+        case 'remove-block': {
+          if (blocks[change.blockId]) collaborativeRemoveBlock(change.blockId)
+          return
+        }
+
+        case 'add-edge': {
+          const { edge } = change
+          if (!blocks[edge.source] || !blocks[edge.target]) return
+          if (edges.some((e) => e.id === edge.id)) return
+
+          collaborativeAddEdge(edge)
+          return
+        }
+
+        case 'remove-edge': {
+          if (edges.some((e) => e.id === change.edgeId)) collaborativeRemoveEdge(change.edgeId)
+          return
+        }
+      }
+    },
+    [
+      collaborativeAddBlock,
+      collaborativeRemoveBlock,
+      collaborativeUpdateBlockName,
+      collaborativeAddEdge,
+      collaborativeRemoveEdge,
+      applySubflow,
+      setSubBlockValue,
+    ]
+  )
+
+  const accept = useCallback(() => {
+    const workflowId = useWorkflowRegistry.getState().activeWorkflowId
+    if (!proposal || !workflowId) return
+    if (proposal.workflowId !== workflowId) {
+      logger.warn(`Refused copilot changes proposed for workflow ${proposal.workflowId}`)
+      return
+    }
+
+    // Changes whose targets a collaborator removed in the meantime are skipped
+    useUndoRedoStore.getState().group(workflowId, () => {
+      changes.forEach((change) => applyChange(workflowId, change))
+    })
+
+    logger.info(`Applied ${changes.length} copilot changes`)
+    resolveProposal(true)
+  }, [proposal, changes, applyChange, resolveProposal])
+
+  const reject = useCallback(() => resolveProposal(false), [resolveProposal])
+
+  return { proposal, changes, accept, reject }
+}
@@ -0,0 +1,316 @@
+'use client'
+
+import { isEqual } from 'lodash'
+import { useCallback } from 'react'
+import { createLogger } from '@/lib/logs/console-logger'
+import { useCollaborativeWorkflow } from '@/hooks/use-collaborative-workflow'
+import { useWorkflowRegistry } from '@/stores/workflows/registry/store'
+import { useSubBlockStore } from '@/stores/workflows/subblock/store'
+import { useUndoRedoStore } from '@/stores/workflows/undo-redo/store'
+import type {
+  BlockFlag,
+  UndoableOperation,
+  UndoRedoDirection,
+} from '@/stores/workflows/undo-redo/types'
+import { createBlockSnapshot } from '@/stores/workflows/undo-redo/utils'
+import { useWorkflowStore } from '@/stores/workflows/workflow/store'
+import type { BlockState } from '@/stores/workflows/workflow/types'
+import {
+  replaySharedTextEdits,
+  setSharedTextValue,
+} from '../components/workflow-block/components/sub-block/hooks/use-collaborative-text'
+
+const logger = createLogger('UndoRedo')
+
+const BLOCK_FLAGS: BlockFlag[] = ['enabled', 'isWide', 'advancedMode', 'horizontalHandles']
+
+// Flag values of a freshly added block
+const DEFAULT_FLAGS: Record<BlockFlag, boolean> = {
+  enabled: true,
+  isWide: false,
+  advancedMode: false,
+  horizontalHandles: true,
+}
+
+/**
+ * Undo and redo the current user's own changes to the active workflow.
+ *
+ * Operations are replayed through the collaborative workflow operations, so collaborators see
+ * the undo like any other edit. Operations whose target a collaborator already removed are
+ * skipped, as are sub-block values a collaborator changed since. Edits of shared text are
+ * undone through the text's own history, which keeps what collaborators typed.
+ */
+export function useUndoRedo() {
+  const {
+    collaborativeAddBlock,
+    collaborativeRemoveBlock,
+    collaborativeUpdateBlockPosition,
+    collaborativeUpdateBlockName,
+    collaborativeUpdateParentId,
+    collaborativeToggleBlockEnabled,
+    collaborativeToggleBlockWide,
+    collaborativeToggleBlockAdvancedMode,
+    collaborativeToggleBlockHandles,
+    collaborativeSetBlockRetryPolicy,
+    collaborativeAddEdge,
+    collaborativeRemoveEdge,
+    collaborativeSetSubblockValue,
+    collaborativeUpdateLoopType,
+    collaborativeUpdateLoopCount,
+    collaborativeUpdateLoopCollection,
+    collaborativeUpdateParallelType,
+    collaborativeUpdateParallelCount,
+    collaborativeUpdateParallelCollection,
+  } = useCollaborativeWorkflow()
+
+  const activeWorkflowId = useWorkflowRegistry((state) => state.activeWorkflowId)
+  const canUndo = useUndoRedoStore((state) =>
+    activeWorkflowId ? (state.stacks[activeWorkflowId]?.undo.length ?? 0) > 0 : false
+  )
+  const canRedo = useUndoRedoStore((state) =>
+    activeWorkflowId ? (state.stacks[activeWorkflowId]?.redo.length ?? 0) > 0 : false
+  )
+
+  const setFlag = useCallback(
+    (blockId: string, flag: BlockFlag, value: boolean) => {
+      const block = useWorkflowStore.getState().blocks[blockId]
+      if (!block || (block[flag] ?? DEFAULT_FLAGS[flag]) === value) return
+
+      const toggles: Record<BlockFlag, (id: string) => void> = {
+        enabled: collaborativeToggleBlockEnabled,
+        isWide: collaborativeToggleBlockWide,
+        advancedMode: collaborativeToggleBlockAdvancedMode,
+        horizontalHandles: collaborativeToggleBlockHandles,
+      }
+      toggles[flag](blockId)
+    },
+    [
+      collaborativeToggleBlockEnabled,
+      collaborativeToggleBlockWide,
+      collaborativeToggleBlockAdvancedMode,
+      collaborativeToggleBlockHandles,
+    ]
+  )
+
+  const setSubBlockValue = useCallback(
+    (blockId: string, subBlockId: string, value: any) => {
+      // Text sub-blocks open in an editor go through their shared document to stay merged
+      const workflowId = useWorkflowRegistry.getState().activeWorkflowId
+      if (
+        workflowId &&
+        typeof value === 'string' &&
+        setSharedTextValue(workflowId, blockId, subBlockId, value)
+      ) {
+        return
+      }
+      collaborativeSetSubblockValue(blockId, subBlockId, value)
+    },
+    [collaborativeSetSubblockValue]
+  )
+
+  const restoreBlock = useCallback(
+    (block: BlockState) => {
+      collaborativeAddBlock(
+        block.id,
+        block.type,
+        block.name,
+        block.position,
+        block.data,
+        block.data?.parentId,
+        block.data?.extent
+      )
+      BLOCK_FLAGS.forEach((flag) => setFlag(block.id, flag, block[flag] ?? DEFAULT_FLAGS[flag]))
+      if (block.retryPolicy) {
+        collaborativeSetBlockRetryPolicy(block.id, block.retryPolicy)
+      }
+    },
+    [collaborativeAddBlock, collaborativeSetBlockRetryPolicy, setFlag]
+  )
+
+  const applyOperation = useCallback(
+    (operation: UndoableOperation, direction: UndoRedoDirection): UndoableOperation | null => {
+      const { blocks, edges } = useWorkflowStore.getState()
+
+      switch (operation.type) {
+        case 'add-block': {
+          const { snapshot } = operation
+          const [root] = snapshot.blocks
+          const parentId = root?.data?.parentId
+          if (!root || blocks[root.id] || (parentId && !blocks[parentId])) return null
+
+          snapshot.blocks.forEach(restoreBlock)
+          Object.entries(snapshot.subBlockValues).forEach(([blockId, values]) => {
+            Object.entries(values).forEach(([subBlockId, value]) => {
+              if (value !== null && value !== undefined) {
+                setSubBlockValue(blockId, subBlockId, value)
+              }
+            })
+          })
+
+          // Edges to blocks a collaborator removed in the meantime can't come back
+          const current = useWorkflowStore.getState()
+          snapshot.edges.forEach((edge) => {
+            if (
+              current.blocks[edge.source] &&
+              current.blocks[edge.target] &&
+              !current.edges.some((e) => e.id === edge.id)
+            ) {
+              collaborativeAddEdge(edge)
+            }
+          })
+          return operation
+        }
+
+        case 'remove-block': {
+          // Snapshot the block as it is now, so redo brings back collaborators' edits too
+          const rootId = operation.snapshot.blocks[0]?.id
+          const workflowId = useWorkflowRegistry.getState().activeWorkflowId
+          const values = workflowId ? useSubBlockStore.getState().workflowValues[workflowId] : {}
+          const snapshot = rootId ? createBlockSnapshot(rootId, blocks, edges, values ?? {}) : null
+          if (!snapshot) return null
+
+          collaborativeRemoveBlock(rootId)
+          return { type: 'remove-block', snapshot }
+        }
+
+        case 'add-edge': {
+          const { edge } = operation
+          if (!blocks[edge.source] || !blocks[edge.target]) return null
+          if (edges.some((e) => e.id === edge.id)) return null
+
+          collaborativeAddEdge(edge)
+          return operation
+        }
+
+        case 'remove-edge': {
+          if (!edges.some((e) => e.id === operation.edge.id)) return null
+
+          collaborativeRemoveEdge(operation.edge.id)
+          return operation
+        }
+
+        case 'update-position': {
+          if (!blocks[operation.blockId]) return null
+
+          collaborativeUpdateBlockPosition(operation.blockId, operation.after)
+          return operation
+        }
+
+        case 'update-name': {
+          if (!blocks[operation.blockId]) return null
+
+          collaborativeUpdateBlockName(operation.blockId, operation.after)
+          return operation
+        }
+
+        case 'update-parent': {
+          const { parentId, position } = operation.after
+          if (!blocks[operation.blockId] || (parentId && !blocks[parentId])) return null
+
+          collaborativeUpdateParentId(operation.blockId, parentId ?? '', 'parent')
+          collaborativeUpdateBlockPosition(operation.blockId, position)
+          return operation
+        }
+
+        case 'set-flag': {
+          if (!blocks[operation.blockId]) return null
+
+          setFlag(operation.blockId, operation.flag, operation.after)
+          return operation
+        }
+
+        case 'update-retry-policy': {
+          if (!blocks[operation.blockId]) return null
+
+          collaborativeSetBlockRetryPolicy(operation.blockId, operation.after)
+          return operation
+        }
+
+        case 'update-subflow': {
+          const { blockId, after } = operation
+          const block = blocks[blockId]
+          if (block?.type !== after.subflowType) return null
+
+          if (after.subflowType === 'loop') {
+            if (block.data?.loopType !== after.iterationType) {
+              collaborativeUpdateLoopType(blockId, after.iterationType as 'for' | 'forEach')
+            }
+            collaborativeUpdateLoopCount(blockId, after.count)
+            collaborativeUpdateLoopCollection(blockId, after.collection)
+          } else {
+            // Changing the parallel type resets its count and collection, so it goes first
+            if (block.data?.parallelType !== after.iterationType) {
+              collaborativeUpdateParallelType(
+                blockId,
+                after.iterationType as 'count' | 'collection'
+              )
+            }
+            collaborativeUpdateParallelCount(blockId, after.count)
+            collaborativeUpdateParallelCollection(blockId, after.collection)
+          }
+          return operation
+        }
+
+        case 'set-subblock': {
+          const { blockId, subBlockId, textEdits } = operation
+          if (!blocks[blockId]) return null
+
+          const workflowId = useWorkflowRegistry.getState().activeWorkflowId
+          if (
+            workflowId &&
+            textEdits &&
+            replaySharedTextEdits(workflowId, blockId, subBlockId, textEdits, direction)
+          ) {
+            return operation
+          }
+
+          // Setting the value would overwrite what a collaborator changed it to
+          const current = useSubBlockStore.getState().getValue(blockId, subBlockId)
+          if (!isEqual(current ?? null, operation.before ?? null)) return null
+
+          setSubBlockValue(blockId, subBlockId, operation.after)
+          // The text's own history no longer matches, so redo sets the value as well
+          return textEdits ? { ...operation, textEdits: undefined } : operation
+        }
+      }
+    },
+    [
+      restoreBlock,
+      setFlag,
+      setSubBlockValue,
+      collaborativeRemoveBlock,
+      collaborativeAddEdge,
+      collaborativeRemoveEdge,
+      collaborativeUpdateBlockPosition,
+      collaborativeUpdateBlockName,
+      collaborativeUpdateParentId,
+      collaborativeSetBlockRetryPolicy,
+      collaborativeUpdateLoopType,
+      collaborativeUpdateLoopCount,
+      collaborativeUpdateLoopCollection,
+      collaborativeUpdateParallelType,
+      collaborativeUpdateParallelCount,
+      collaborativeUpdateParallelCollection,
+    ]
+  )
+
+  const undo = useCallback(() => {
+    const workflowId = useWorkflowRegistry.getState().activeWorkflowId
+    if (!workflowId) return
+
+    if (!useUndoRedoStore.getState().undo(workflowId, applyOperation)) {
+      logger.debug('Nothing to undo')
+    }
+  }, [applyOperation])
+
+  const redo = useCallback(() => {
+    const workflowId = useWorkflowRegistry.getState().activeWorkflowId
+    if (!workflowId) return
+
+    if (!useUndoRedoStore.getState().redo(workflowId, applyOperation)) {
+      logger.debug('Nothing to redo')
+    }
+  }, [applyOperation])
+
+  return { undo, redo, canUndo, canRedo }
+}
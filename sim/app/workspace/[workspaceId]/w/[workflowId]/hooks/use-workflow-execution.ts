@@ -20,6 +20,25 @@ import { useWorkflowStore } from '@/stores/workflows/workflow/store'
 
 const logger = createLogger('useWorkflowExecution')
 
+/**
+ * Manual runs execute in the browser and have no run record to resume, so a run that
+ * pauses at an approval block stops there instead of reporting success.
+ */
+function stopAtApprovals(result: ExecutionResult): ExecutionResult {
+  if (!result.metadata?.isPaused) {
+    return result
+  }
+
+  const approvalBlocks = (result.metadata.pendingApprovals || [])
+    .map((approval) => approval.blockName || approval.blockId)
+    .join(', ')
+  return {
+    ...result,
+    success: false,
+    error: `Stopped at approval block ${approvalBlocks}: only deployed runs can wait for approvals`,
+  }
+}
+
 // Interface for executor options
 interface ExecutorOptions {
   workflow: SerializedWorkflow
@@ -399,7 +418,8 @@ export function useWorkflowExecution() {
     setExecutor(newExecutor)
 
     // Execute workflow
-    return newExecutor.execute(activeWorkflowId || '')
+    const result = await newExecutor.execute(activeWorkflowId || '')
+    return 'success' in result ? stopAtApprovals(result) : result
   }
 
   const handleExecutionError = (error: any) => {
@@ -13,6 +13,7 @@ import ReactFlow, {
 import 'reactflow/dist/style.css'
 import { createLogger } from '@/lib/logs/console-logger'
 import { ControlBar } from '@/app/workspace/[workspaceId]/w/[workflowId]/components/control-bar/control-bar'
+import { Copilot } from '@/app/workspace/[workspaceId]/w/[workflowId]/components/copilot/copilot'
 import { ErrorBoundary } from '@/app/workspace/[workspaceId]/w/[workflowId]/components/error/index'
 import { LoopNodeComponent } from '@/app/workspace/[workspaceId]/w/[workflowId]/components/loop-node/loop-node'
 import { NotificationList } from '@/app/workspace/[workspaceId]/w/[workflowId]/components/notifications/notifications'
@@ -25,6 +26,7 @@ import { getBlock } from '@/blocks'
 import { useSocket } from '@/contexts/socket-context'
 import { useCollaborativeWorkflow } from '@/hooks/use-collaborative-workflow'
 import { useWorkspacePermissions } from '@/hooks/use-workspace-permissions'
+import { useCommentsStore } from '@/stores/comments/store'
 import { useExecutionStore } from '@/stores/execution/store'
 import { useNotificationStore } from '@/stores/notifications/store'
 import { useVariablesStore } from '@/stores/panel/variables/store'
@@ -32,8 +34,11 @@ import { useGeneralStore } from '@/stores/settings/general/store'
 import { useSidebarStore } from '@/stores/sidebar/store'
 import { useWorkflowRegistry } from '@/stores/workflows/registry/store'
 import { useWorkflowStore } from '@/stores/workflows/workflow/store'
+import { CommentLayer } from './components/comments/comment-layer'
 import { WorkflowBlock } from './components/workflow-block/workflow-block'
 import { WorkflowEdge } from './components/workflow-edge/workflow-edge'
+import { useCommentsSync } from './hooks/use-comments'
+import { useUndoRedo } from './hooks/use-undo-redo'
 import {
   applyAutoLayoutSmooth,
   detectHandleOrientation,
@@ -90,7 +95,7 @@ const WorkflowContent = React.memo(() => {
   // Hooks
   const params = useParams()
   const router = useRouter()
-  const { project, getNodes, fitView } = useReactFlow()
+  const { project, screenToFlowPosition, getNodes, fitView } = useReactFlow()
 
   // Get workspace ID from the params
   const workspaceId = params.workspaceId as string
@@ -124,6 +129,10 @@ const WorkflowContent = React.memo(() => {
     currentWorkflowId,
   } = useCollaborativeWorkflow()
   const { emitSubblockUpdate } = useSocket()
+  const { undo, redo } = useUndoRedo()
+  const isCommentMode = useCommentsStore((state) => state.isCommentMode)
+  const setDraftThread = useCommentsStore((state) => state.setDraftThread)
+  useCommentsSync()
   const { markAllAsRead } = useNotificationStore()
   const { resetLoaded: resetVariablesLoaded } = useVariablesStore()
 
@@ -1373,10 +1382,19 @@ const WorkflowContent = React.memo(() => {
     ]
   )
 
-  // Update onPaneClick to only handle edge selection
-  const onPaneClick = useCallback(() => {
-    setSelectedEdgeInfo(null)
-  }, [])
+  // Clear edge selection, or start an area comment thread in comment mode
+  const onPaneClick = useCallback(
+    (event: React.MouseEvent) => {
+      setSelectedEdgeInfo(null)
+
+      if (isCommentMode) {
+        setDraftThread({
+          position: screenToFlowPosition({ x: event.clientX, y: event.clientY }),
+        })
+      }
+    },
+    [isCommentMode, setDraftThread, screenToFlowPosition]
+  )
 
   // Edge selection
   const onEdgeClick = useCallback(
@@ -1454,6 +1472,39 @@ const WorkflowContent = React.memo(() => {
     return () => window.removeEventListener('keydown', handleKeyDown)
   }, [selectedEdgeInfo, removeEdge])
 
+  // Undo and redo the user's own changes: Cmd/Ctrl+Z, Cmd/Ctrl+Shift+Z and Ctrl+Y
+  useEffect(() => {
+    if (!userPermissions.canEdit) return
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey) return
+
+      const key = event.key.toLowerCase()
+      const isUndo = key === 'z' && !event.shiftKey
+      const isRedo = (key === 'z' && event.shiftKey) || (key === 'y' && event.ctrlKey)
+      if (!isUndo && !isRedo) return
+
+      // Leave undo inside inputs to the browser
+      const activeElement = document.activeElement
+      const isEditableElement =
+        activeElement instanceof HTMLInputElement ||
+        activeElement instanceof HTMLTextAreaElement ||
+        activeElement?.hasAttribute('contenteditable')
+
+      if (isEditableElement) return
+
+      event.preventDefault()
+      if (isUndo) {
+        undo()
+      } else {
+        redo()
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [undo, redo, userPermissions.canEdit])
+
   // Handle sub-block value updates from custom events
   useEffect(() => {
     const handleSubBlockValueUpdate = (event: CustomEvent) => {
@@ -1515,6 +1566,7 @@ const WorkflowContent = React.memo(() => {
           <Panel />
           <NotificationList />
         </div>
+        <Copilot />
 
         <ReactFlow
           nodes={nodes}
@@ -1563,6 +1615,7 @@ const WorkflowContent = React.memo(() => {
           autoPanOnNodeDrag={userPermissions.canEdit}
         >
           <Background />
+          <CommentLayer />
         </ReactFlow>
       </div>
     </div>
@@ -86,6 +86,46 @@ export const AgentBlock: BlockConfig<AgentResponse> = {
       placeholder: 'Connect memory block output...',
       mode: 'advanced',
     },
+    {
+      id: 'memoryStrategy',
+      title: 'Conversation Memory',
+      type: 'dropdown',
+      layout: 'full',
+      options: [
+        { label: 'None', id: 'none' },
+        { label: 'Sliding window', id: 'window' },
+        { label: 'Rolling summary', id: 'summary' },
+        { label: 'Long-term (semantic)', id: 'semantic' },
+      ],
+      value: () => 'none',
+      mode: 'advanced',
+    },
+    {
+      id: 'conversationId',
+      title: 'Conversation ID',
+      type: 'short-input',
+      layout: 'half',
+      placeholder: 'End user or conversation ID',
+      mode: 'advanced',
+      condition: {
+        field: 'memoryStrategy',
+        value: 'none',
+        not: true,
+      },
+    },
+    {
+      id: 'memoryTokenBudget',
+      title: 'Memory Token Budget',
+      type: 'short-input',
+      layout: 'half',
+      placeholder: '4000',
+      mode: 'advanced',
+      condition: {
+        field: 'memoryStrategy',
+        value: 'none',
+        not: true,
+      },
+    },
     {
       id: 'model',
       title: 'Model',
@@ -278,6 +318,9 @@ export const AgentBlock: BlockConfig<AgentResponse> = {
     systemPrompt: { type: 'string', required: false },
     userPrompt: { type: 'string', required: false },
     memories: { type: 'json', required: false },
+    memoryStrategy: { type: 'string', required: false },
+    conversationId: { type: 'string', required: false },
+    memoryTokenBudget: { type: 'number', required: false },
     model: { type: 'string', required: true },
     apiKey: { type: 'string', required: true },
     azureEndpoint: { type: 'string', required: false },
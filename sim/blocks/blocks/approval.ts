@@ -0,0 +1,86 @@
+import { ApprovalIcon } from '@/components/icons'
+import type { BlockConfig } from '../types'
+
+interface ApprovalBlockOutput {
+  success: boolean
+  output: {
+    approved: boolean
+    status: string
+    data: any
+    comment: string
+    decidedBy: string
+    decidedAt: string
+  }
+}
+
+export const ApprovalBlock: BlockConfig<ApprovalBlockOutput> = {
+  type: 'approval',
+  name: 'Approval',
+  description: 'Wait for a human decision',
+  longDescription:
+    'Pause the workflow until a person approves, rejects or edits the data under review. Approved or edited data is passed to the next blocks, while a rejection fails the block. If nobody answers before the timeout, the default action is applied.',
+  category: 'blocks',
+  bgColor: '#E0A100',
+  icon: ApprovalIcon,
+  subBlocks: [
+    {
+      id: 'data',
+      title: 'Data to Review',
+      type: 'long-input',
+      layout: 'full',
+      placeholder: 'Reference the data that needs approval, e.g. <agent.response.content>',
+    },
+    {
+      id: 'instructions',
+      title: 'Instructions',
+      type: 'long-input',
+      layout: 'full',
+      placeholder: 'Explain what the approver should check',
+    },
+    {
+      id: 'timeoutMinutes',
+      title: 'Timeout (minutes)',
+      type: 'short-input',
+      layout: 'half',
+      placeholder: 'No timeout',
+    },
+    {
+      id: 'defaultAction',
+      title: 'On Timeout',
+      type: 'dropdown',
+      layout: 'half',
+      options: [
+        { label: 'Reject', id: 'reject' },
+        { label: 'Approve', id: 'approve' },
+      ],
+      value: () => 'reject',
+    },
+  ],
+  tools: { access: [] },
+  inputs: {
+    data: { type: 'json', required: true, description: 'Data submitted for review' },
+    instructions: { type: 'string', required: false, description: 'Guidance for the approver' },
+    timeoutMinutes: {
+      type: 'number',
+      required: false,
+      description: 'Minutes to wait before the default action is applied',
+    },
+    defaultAction: {
+      type: 'string',
+      required: false,
+      description: 'Action applied when the approval times out',
+    },
+  },
+  outputs: {
+    response: {
+      type: {
+        approved: 'boolean',
+        status: 'string',
+        data: 'json',
+        comment: 'string',
+        decidedBy: 'string',
+        decidedAt: 'string',
+      },
+    },
+  },
+}
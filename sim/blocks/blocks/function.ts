@@ -7,12 +7,23 @@ export const FunctionBlock: BlockConfig<CodeExecutionOutput> = {
   name: 'Function',
   description: 'Run custom logic',
   longDescription:
-    'Execute custom JavaScript or TypeScript code within your workflow to transform data or implement complex logic. Create reusable functions to process inputs and generate outputs for other blocks.',
+    'Execute custom JavaScript, TypeScript or Python code within your workflow to transform data or implement complex logic. Create reusable functions to process inputs and generate outputs for other blocks. JavaScript code can import the lodash, date-fns and zod packages, and Python code runs locally with the standard library.',
   docsLink: 'https://docs.simstudio.ai/blocks/function',
   category: 'blocks',
   bgColor: '#FF402F',
   icon: CodeIcon,
   subBlocks: [
+    {
+      id: 'language',
+      title: 'Language',
+      type: 'dropdown',
+      layout: 'half',
+      options: [
+        { label: 'JavaScript', id: 'javascript' },
+        { label: 'Python', id: 'python' },
+      ],
+      value: () => 'javascript',
+    },
     {
       id: 'code',
       type: 'code',
@@ -24,6 +35,7 @@ export const FunctionBlock: BlockConfig<CodeExecutionOutput> = {
   },
   inputs: {
     code: { type: 'string', required: false },
+    language: { type: 'string', required: false },
     timeout: { type: 'number', required: false },
   },
   outputs: {
@@ -6,7 +6,7 @@ export const KnowledgeBlock: BlockConfig = {
   name: 'Knowledge',
   description: 'Use vector search',
   longDescription:
-    'Perform semantic vector search across one or more knowledge bases or upload new chunks to documents. Uses advanced AI embeddings to understand meaning and context for search operations.',
+    'Perform semantic vector search, keyword search or hybrid search across one or more knowledge bases or upload new chunks to documents. Hybrid search combines AI embeddings that understand meaning with full-text matching of exact terms such as product codes and error messages, and results can optionally be reranked.',
   bgColor: '#00B0B0',
   icon: PackageSearchIcon,
   category: 'blocks',
@@ -32,6 +32,9 @@ export const KnowledgeBlock: BlockConfig = {
     knowledgeBaseId: { type: 'string', required: false },
     query: { type: 'string', required: false },
     topK: { type: 'number', required: false },
+    searchMode: { type: 'string', required: false },
+    rerank: { type: 'boolean', required: false },
+    filters: { type: 'json', required: false },
     documentId: { type: 'string', required: false },
     content: { type: 'string', required: false },
   },
@@ -90,6 +93,35 @@ export const KnowledgeBlock: BlockConfig = {
       placeholder: 'Enter number of results (default: 10)',
       condition: { field: 'operation', value: 'search' },
     },
+    {
+      id: 'searchMode',
+      title: 'Search Mode',
+      type: 'dropdown',
+      layout: 'half',
+      options: [
+        { label: 'Hybrid', id: 'hybrid' },
+        { label: 'Vector', id: 'vector' },
+        { label: 'Keyword', id: 'keyword' },
+      ],
+      value: () => 'hybrid',
+      condition: { field: 'operation', value: 'search' },
+    },
+    {
+      id: 'rerank',
+      title: 'Rerank Results',
+      type: 'switch',
+      layout: 'half',
+      condition: { field: 'operation', value: 'search' },
+    },
+    {
+      id: 'filters',
+      title: 'Tag Filters',
+      type: 'code',
+      layout: 'full',
+      language: 'json',
+      placeholder: '{"product": "pro", "publishedAt": {"gte": "2024-01-01"}}',
+      condition: { field: 'operation', value: 'search' },
+    },
     {
       id: 'documentId',
       title: 'Document',
@@ -61,8 +61,11 @@ export const MemoryBlock: BlockConfig = {
           throw new Error(`Memory Block Error: ${errors.join(', ')}`)
         }
 
-        // Base result object
+        // Base result object, scoped to a conversation when one is given
         const baseResult: Record<string, any> = {}
+        if (params.conversationId) {
+          baseResult.conversationId = params.conversationId
+        }
 
         // For add operation
         if (params.operation === 'add') {
@@ -103,6 +106,7 @@ export const MemoryBlock: BlockConfig = {
     id: { type: 'string', required: true },
     role: { type: 'string', required: false },
     content: { type: 'string', required: false },
+    conversationId: { type: 'string', required: false },
   },
   outputs: {
     response: {
@@ -186,5 +190,13 @@ export const MemoryBlock: BlockConfig = {
         value: 'add',
       },
     },
+    {
+      id: 'conversationId',
+      title: 'Conversation ID',
+      type: 'short-input',
+      layout: 'full',
+      placeholder: 'End user or conversation ID (optional)',
+      mode: 'advanced',
+    },
   ],
 }
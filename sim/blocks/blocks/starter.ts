@@ -40,6 +40,15 @@ export const StarterBlock: BlockConfig<StarterBlockOutput> = {
       mode: 'advanced',
       condition: { field: 'startWorkflow', value: 'manual' },
     },
+    // Wall-clock limit for a whole run, however it was triggered (advanced mode)
+    {
+      id: 'timeoutSeconds',
+      title: 'Run Timeout (seconds)',
+      type: 'short-input',
+      layout: 'full',
+      placeholder: 'No limit',
+      mode: 'advanced',
+    },
     // Webhook configuration
     {
       id: 'webhookProvider',
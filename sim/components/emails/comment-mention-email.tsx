@@ -0,0 +1,105 @@
+import {
+  Body,
+  Column,
+  Container,
+  Head,
+  Html,
+  Img,
+  Link,
+  Preview,
+  Row,
+  Section,
+  Text,
+} from '@react-email/components'
+import { env } from '@/lib/env'
+import { baseStyles } from './base-styles'
+import { EmailFooter } from './footer'
+
+interface CommentMentionEmailProps {
+  email: string
+  authorName: string
+  workflowName: string
+  blockName?: string
+  comment: string
+  threadLink: string
+  unsubscribeToken?: string
+}
+
+const baseUrl = env.NEXT_PUBLIC_APP_URL || 'https://simstudio.ai'
+
+export const CommentMentionEmail = ({
+  email,
+  authorName,
+  workflowName,
+  blockName,
+  comment,
+  threadLink,
+  unsubscribeToken,
+}: CommentMentionEmailProps) => {
+  const location = blockName ? `on "${blockName}" in "${workflowName}"` : `in "${workflowName}"`
+
+  return (
+    <Html>
+      <Head />
+      <Body style={baseStyles.main}>
+        <Preview>
+          {authorName} mentioned you {location}
+        </Preview>
+        <Container style={baseStyles.container}>
+          <Section style={{ padding: '30px 0', textAlign: 'center' }}>
+            <Row>
+              <Column style={{ textAlign: 'center' }}>
+                <Img
+                  src={`${baseUrl}/static/sim.png`}
+                  width='114'
+                  alt='Sim Studio'
+                  style={{
+                    margin: '0 auto',
+                  }}
+                />
+              </Column>
+            </Row>
+          </Section>
+
+          <Section style={baseStyles.sectionsBorders}>
+            <Row>
+              <Column style={baseStyles.sectionBorder} />
+              <Column style={baseStyles.sectionCenter} />
+              <Column style={baseStyles.sectionBorder} />
+            </Row>
+          </Section>
+
+          <Section style={baseStyles.content}>
+            <Text style={baseStyles.paragraph}>Hello,</Text>
+            <Text style={baseStyles.paragraph}>
+              {authorName} mentioned you in a comment {location}:
+            </Text>
+            <Text
+              style={{
+                ...baseStyles.paragraph,
+                padding: '12px 16px',
+                borderLeft: '3px solid #802FFF',
+                backgroundColor: '#f8f9fa',
+                whiteSpace: 'pre-wrap',
+              }}
+            >
+              {comment}
+            </Text>
+            <Link href={threadLink} style={{ textDecoration: 'none' }}>
+              <Text style={baseStyles.button}>View Comment</Text>
+            </Link>
+            <Text style={baseStyles.paragraph}>
+              Best regards,
+              <br />
+              The Sim Studio Team
+            </Text>
+          </Section>
+        </Container>
+
+        <EmailFooter baseUrl={baseUrl} unsubscribe={{ unsubscribeToken, email }} />
+      </Body>
+    </Html>
+  )
+}
+
+export default CommentMentionEmail
@@ -1,5 +1,6 @@
 import { render } from '@react-email/components'
 import { generateUnsubscribeToken } from '@/lib/email/unsubscribe'
+import { CommentMentionEmail } from './comment-mention-email'
 import { InvitationEmail } from './invitation-email'
 import { OTPVerificationEmail } from './otp-verification-email'
 import { ResetPasswordEmail } from './reset-password-email'
@@ -54,6 +55,28 @@ export async function renderWaitlistApprovalEmail(
   return await render(WaitlistApprovalEmail({ email, signupUrl, unsubscribeToken }))
 }
 
+export async function renderCommentMentionEmail(
+  email: string,
+  authorName: string,
+  workflowName: string,
+  comment: string,
+  threadLink: string,
+  blockName?: string
+): Promise<string> {
+  const unsubscribeToken = generateUnsubscribeToken(email, 'notifications')
+  return await render(
+    CommentMentionEmail({
+      email,
+      authorName,
+      workflowName,
+      blockName,
+      comment,
+      threadLink,
+      unsubscribeToken,
+    })
+  )
+}
+
 export function getEmailSubject(
   type:
     | 'sign-in'
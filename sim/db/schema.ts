@@ -124,6 +124,7 @@ export const workflow = pgTable('workflow', {
   isDeployed: boolean('is_deployed').notNull().default(false),
   deployedState: json('deployed_state'),
   deployedAt: timestamp('deployed_at'),
+  deployedVersion: integer('deployed_version'), // Deployment version currently live, if any
   collaborators: json('collaborators').notNull().default('[]'),
   runCount: integer('run_count').notNull().default(0),
   lastRunAt: timestamp('last_run_at'),
@@ -155,6 +156,7 @@ export const workflowBlocks = pgTable(
     horizontalHandles: boolean('horizontal_handles').notNull().default(true), // UI layout preference
     isWide: boolean('is_wide').notNull().default(false), // Whether block uses wide layout
     advancedMode: boolean('advanced_mode').notNull().default(false), // Whether block is in advanced mode
+    retryPolicy: jsonb('retry_policy'), // Retry and fallback settings applied by the executor
     height: decimal('height').notNull().default('0'), // Custom height override
 
     // Block data (keeping JSON for flexibility as current system does)
@@ -188,6 +190,25 @@ export const workflowBlocks = pgTable(
   })
 )
 
+export const workflowSubBlockCrdt = pgTable(
+  'workflow_subblock_crdt',
+  {
+    id: text('id').primaryKey(), // `${blockId}:${subBlockId}`
+    workflowId: text('workflow_id')
+      .notNull()
+      .references(() => workflow.id, { onDelete: 'cascade' }),
+    blockId: text('block_id')
+      .notNull()
+      .references(() => workflowBlocks.id, { onDelete: 'cascade' }),
+    subBlockId: text('sub_block_id').notNull(),
+    state: text('state').notNull(), // Base64-encoded Yjs document update
+    updatedAt: timestamp('updated_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    workflowIdIdx: index('workflow_subblock_crdt_workflow_id_idx').on(table.workflowId),
+  })
+)
+
 export const workflowEdges = pgTable(
   'workflow_edges',
   {
@@ -280,6 +301,180 @@ export const workflowLogs = pgTable('workflow_logs', {
   metadata: json('metadata'), // Optional JSON field for storing additional context like tool calls
 })
 
+export const workflowDeploymentVersion = pgTable(
+  'workflow_deployment_version',
+  {
+    id: text('id').primaryKey(),
+    workflowId: text('workflow_id')
+      .notNull()
+      .references(() => workflow.id, { onDelete: 'cascade' }),
+    version: integer('version').notNull(), // Sequential per workflow, starting at 1
+    label: text('label'), // Optional name, e.g. "Added retry to the API call"
+    state: json('state').notNull(), // Immutable snapshot of the deployed workflow state
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    workflowVersionIdx: uniqueIndex('deployment_version_workflow_version_idx').on(
+      table.workflowId,
+      table.version
+    ),
+  })
+)
+
+// Dev and staging deployments, plus per-slot environment variables. Prod is the deployment
+// stored on the workflow itself, so its row (if any) only holds variables.
+export const workflowDeploymentSlot = pgTable(
+  'workflow_deployment_slot',
+  {
+    id: text('id').primaryKey(),
+    workflowId: text('workflow_id')
+      .notNull()
+      .references(() => workflow.id, { onDelete: 'cascade' }),
+    slot: text('slot').notNull(), // 'dev', 'staging' or 'prod'
+    version: integer('version'), // Deployment version live in this slot, unused for prod
+    deployedAt: timestamp('deployed_at'),
+    variables: json('variables').notNull().default('{}'), // Encrypted, override the user's environment
+    updatedAt: timestamp('updated_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    workflowSlotIdx: uniqueIndex('deployment_slot_workflow_slot_idx').on(
+      table.workflowId,
+      table.slot
+    ),
+  })
+)
+
+export const workflowTestCase = pgTable(
+  'workflow_test_case',
+  {
+    id: text('id').primaryKey(),
+    workflowId: text('workflow_id')
+      .notNull()
+      .references(() => workflow.id, { onDelete: 'cascade' }),
+    name: text('name').notNull(),
+    description: text('description'),
+    input: json('input'), // Starter input fixture, sent like an API request body
+    mocks: json('mocks').notNull().default('{}'), // Block ID -> output replacing the block's execution
+    assertions: json('assertions').notNull().default('[]'), // Checks on block outputs or the final result
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+    updatedAt: timestamp('updated_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    workflowIdIdx: index('test_case_workflow_id_idx').on(table.workflowId),
+  })
+)
+
+export const workflowExecutionRun = pgTable(
+  'workflow_execution_run',
+  {
+    id: text('id').primaryKey(), // Same as the executionId written to workflow_logs
+    workflowId: text('workflow_id')
+      .notNull()
+      .references(() => workflow.id, { onDelete: 'cascade' }),
+    status: text('status').notNull().default('running'), // 'queued', 'running', 'paused', 'completed', 'failed', 'cancelled'
+    trigger: text('trigger').notNull(), // e.g. "api", "schedule", "webhook"
+    background: boolean('background').notNull().default(false), // Run by the run worker, which picks it up again if it stalls
+    slot: text('slot').notNull().default('prod'), // Deployment slot whose variables the run uses
+
+    // Everything needed to rebuild the executor for a resume
+    input: json('input'),
+    workflowState: json('workflow_state').notNull(), // Workflow state the run was started with
+
+    // Serialized ExecutionContext after the last completed layer
+    checkpoint: jsonb('checkpoint'),
+    completedLayers: integer('completed_layers').notNull().default(0),
+    resumeCount: integer('resume_count').notNull().default(0),
+    layerResumeCount: integer('layer_resume_count').notNull().default(0), // Resumes since the last completed layer
+    error: text('error'),
+    result: jsonb('result'), // Final ExecutionResult, served to async callers
+    callbackUrl: text('callback_url'), // Notified with the final result once the run finishes
+    recording: jsonb('recording'), // Tool and provider responses, when the run was recorded for replay
+
+    startedAt: timestamp('started_at').notNull().defaultNow(),
+    updatedAt: timestamp('updated_at').notNull().defaultNow(), // Bumped on every checkpoint and heartbeat
+    completedAt: timestamp('completed_at'),
+  },
+  (table) => ({
+    workflowIdIdx: index('execution_run_workflow_id_idx').on(table.workflowId),
+    workflowStatusIdx: index('execution_run_workflow_status_idx').on(
+      table.workflowId,
+      table.status
+    ),
+  })
+)
+
+export const workflowApproval = pgTable(
+  'workflow_approval',
+  {
+    id: text('id').primaryKey(),
+    runId: text('run_id')
+      .notNull()
+      .references(() => workflowExecutionRun.id, { onDelete: 'cascade' }),
+    workflowId: text('workflow_id')
+      .notNull()
+      .references(() => workflow.id, { onDelete: 'cascade' }),
+    blockId: text('block_id').notNull(), // Virtual block ID when requested inside a parallel
+    blockName: text('block_name'),
+    status: text('status').notNull().default('pending'), // 'pending', 'approved', 'rejected', 'edited', 'cancelled'
+    data: json('data'), // Data submitted for review
+    instructions: text('instructions'),
+    defaultAction: text('default_action').notNull().default('reject'), // Applied on timeout
+    expiresAt: timestamp('expires_at'),
+    decision: json('decision'), // ApprovalDecision handed to the executor on resume
+    decidedBy: text('decided_by'), // User ID, or 'timeout' when the default action was applied
+    decidedAt: timestamp('decided_at'),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    runIdIdx: index('approval_run_id_idx').on(table.runId),
+    workflowStatusIdx: index('approval_workflow_status_idx').on(table.workflowId, table.status),
+    statusExpiresAtIdx: index('approval_status_expires_at_idx').on(table.status, table.expiresAt),
+  })
+)
+
+export const workflowCommentThread = pgTable(
+  'workflow_comment_thread',
+  {
+    id: text('id').primaryKey(),
+    workflowId: text('workflow_id')
+      .notNull()
+      .references(() => workflow.id, { onDelete: 'cascade' }),
+    blockId: text('block_id'), // Null for threads on an area of the canvas
+    positionX: decimal('position_x').notNull(), // Canvas position, or offset from the block's corner
+    positionY: decimal('position_y').notNull(),
+    createdBy: text('created_by')
+      .notNull()
+      .references(() => user.id, { onDelete: 'cascade' }),
+    resolvedBy: text('resolved_by').references(() => user.id, { onDelete: 'set null' }),
+    resolvedAt: timestamp('resolved_at'),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+    updatedAt: timestamp('updated_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    workflowIdx: index('comment_thread_workflow_idx').on(table.workflowId, table.resolvedAt),
+  })
+)
+
+export const workflowComment = pgTable(
+  'workflow_comment',
+  {
+    id: text('id').primaryKey(),
+    threadId: text('thread_id')
+      .notNull()
+      .references(() => workflowCommentThread.id, { onDelete: 'cascade' }),
+    userId: text('user_id')
+      .notNull()
+      .references(() => user.id, { onDelete: 'cascade' }),
+    content: text('content').notNull(),
+    mentions: json('mentions').notNull().default('[]'), // IDs of the mentioned users
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+    updatedAt: timestamp('updated_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    threadIdx: index('comment_thread_idx').on(table.threadId, table.createdAt),
+  })
+)
+
 export const environment = pgTable('environment', {
   id: text('id').primaryKey(), // Use the user id as the key
   userId: text('user_id')
@@ -343,6 +538,7 @@ export const webhook = pgTable(
       .references(() => workflow.id, { onDelete: 'cascade' }),
     path: text('path').notNull(),
     provider: text('provider'), // e.g., "whatsapp", "github", etc.
+    slot: text('slot').notNull().default('prod'), // Deployment slot the webhook executes
     providerConfig: json('provider_config'), // Store provider-specific configuration
     isActive: boolean('is_active').notNull().default(true),
     createdAt: timestamp('created_at').notNull().defaultNow(),
@@ -442,6 +638,7 @@ export const chat = pgTable(
       .notNull()
       .references(() => user.id, { onDelete: 'cascade' }),
     subdomain: text('subdomain').notNull(),
+    slot: text('slot').notNull().default('prod'), // Deployment slot the chat executes
     title: text('title').notNull(),
     description: text('description'),
     isActive: boolean('is_active').notNull().default(true),
@@ -466,6 +663,47 @@ export const chat = pgTable(
   }
 )
 
+export const chatConversation = pgTable(
+  'chat_conversation',
+  {
+    id: text('id').primaryKey(), // Passed to the workflow as the conversationId
+    chatId: text('chat_id')
+      .notNull()
+      .references(() => chat.id, { onDelete: 'cascade' }),
+    visitorId: text('visitor_id').notNull(), // Anonymous visitor ID, kept in a cookie
+    title: text('title').notNull(),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+    updatedAt: timestamp('updated_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    chatVisitorIdx: index('chat_conversation_visitor_idx').on(
+      table.chatId,
+      table.visitorId,
+      table.updatedAt
+    ),
+  })
+)
+
+export const chatMessage = pgTable(
+  'chat_message',
+  {
+    id: text('id').primaryKey(),
+    conversationId: text('conversation_id')
+      .notNull()
+      .references(() => chatConversation.id, { onDelete: 'cascade' }),
+    role: text('role').notNull(), // 'user' or 'assistant'
+    content: text('content').notNull(),
+    blockId: text('block_id'), // Output block of assistant messages
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    conversationIdx: index('chat_message_conversation_idx').on(
+      table.conversationId,
+      table.createdAt
+    ),
+  })
+)
+
 export const organization = pgTable('organization', {
   id: text('id').primaryKey(),
   name: text('name').notNull(),
@@ -607,6 +845,8 @@ export const memory = pgTable(
   {
     id: text('id').primaryKey(),
     workflowId: text('workflow_id').references(() => workflow.id, { onDelete: 'cascade' }),
+    // End user or conversation the memory belongs to, empty for memories of the whole workflow
+    conversationId: text('conversation_id').notNull().default(''),
     key: text('key').notNull(), // Identifier for the memory within its context
     type: text('type').notNull(), // 'agent' or 'raw'
     data: json('data').notNull(), // Stores either agent message data or raw data
@@ -622,15 +862,41 @@ export const memory = pgTable(
       // Add index on workflowId for faster filtering
       workflowIdx: index('memory_workflow_idx').on(table.workflowId),
 
-      // Compound unique index to ensure keys are unique per workflow
+      // Compound unique index to ensure keys are unique per workflow and conversation
       uniqueKeyPerWorkflowIdx: uniqueIndex('memory_workflow_key_idx').on(
         table.workflowId,
+        table.conversationId,
         table.key
       ),
     }
   }
 )
 
+export const memoryEmbedding = pgTable(
+  'memory_embedding',
+  {
+    id: text('id').primaryKey(),
+    workflowId: text('workflow_id')
+      .notNull()
+      .references(() => workflow.id, { onDelete: 'cascade' }),
+    conversationId: text('conversation_id').notNull().default(''),
+    key: text('key').notNull(), // Key of the agent memory the messages were recorded in
+    // Position of the first embedded message in the agent memory
+    messageIndex: integer('message_index').notNull(),
+    content: text('content').notNull(),
+    embedding: vector('embedding', { dimensions: 1536 }).notNull(),
+    embeddingModel: text('embedding_model').notNull(),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    scopeIdx: index('memory_emb_scope_idx').on(table.workflowId, table.conversationId, table.key),
+    embeddingVectorHnswIdx: index('memory_emb_vector_hnsw_idx').using(
+      'hnsw',
+      table.embedding.op('vector_cosine_ops')
+    ),
+  })
+)
+
 export const knowledgeBase = pgTable(
   'knowledge_base',
   {
@@ -648,6 +914,8 @@ export const knowledgeBase = pgTable(
     // Embedding configuration
     embeddingModel: text('embedding_model').notNull().default('text-embedding-3-small'),
     embeddingDimension: integer('embedding_dimension').notNull().default(1536),
+    // Progress of a re-embedding with another model, null when none is running
+    embeddingMigration: jsonb('embedding_migration'),
 
     // Chunking configuration stored as JSON for flexibility
     chunkingConfig: json('chunking_config')
@@ -672,6 +940,42 @@ export const knowledgeBase = pgTable(
   })
 )
 
+export const knowledgeBaseSource = pgTable(
+  'knowledge_base_source',
+  {
+    id: text('id').primaryKey(),
+    knowledgeBaseId: text('knowledge_base_id')
+      .notNull()
+      .references(() => knowledgeBase.id, { onDelete: 'cascade' }),
+    userId: text('user_id')
+      .notNull()
+      .references(() => user.id, { onDelete: 'cascade' }),
+
+    // Connector and the OAuth credential it syncs with, null for crawled websites
+    provider: text('provider').notNull(), // 'google-drive', 'notion', 'confluence', 'website'
+    credentialId: text('credential_id').references(() => account.id, { onDelete: 'cascade' }),
+    // What to sync, e.g. { folderId } for Drive, { databaseId } for Notion, { domain, spaceId }
+    // for Confluence, { url, maxDepth, includePaths, excludePaths } for websites
+    config: jsonb('config').notNull(),
+
+    // Sync schedule and state
+    syncIntervalMinutes: integer('sync_interval_minutes').notNull().default(60),
+    enabled: boolean('enabled').notNull().default(true),
+    status: text('status').notNull().default('idle'), // 'idle', 'syncing', 'failed'
+    lastSyncedAt: timestamp('last_synced_at'),
+    nextSyncAt: timestamp('next_sync_at'),
+    lastError: text('last_error'),
+
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+    updatedAt: timestamp('updated_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    knowledgeBaseIdIdx: index('kb_source_kb_id_idx').on(table.knowledgeBaseId),
+    // Finding sources that are due for a sync
+    nextSyncAtIdx: index('kb_source_next_sync_at_idx').on(table.enabled, table.nextSyncAt),
+  })
+)
+
 export const document = pgTable(
   'document',
   {
@@ -701,6 +1005,15 @@ export const document = pgTable(
     enabled: boolean('enabled').notNull().default(true), // Enable/disable from knowledge base
     deletedAt: timestamp('deleted_at'), // Soft delete
 
+    // User-defined tags, e.g. { product: 'pro', language: 'en' }, copied to the document's chunks
+    tags: jsonb('tags').notNull().default('{}'),
+
+    // Origin of documents synced from a connected source, null for uploaded files
+    sourceId: text('source_id').references(() => knowledgeBaseSource.id, { onDelete: 'set null' }),
+    externalId: text('external_id'), // ID of the file or page in the source
+    externalUpdatedAt: timestamp('external_updated_at'), // Last modification in the source
+    contentHash: text('content_hash'), // SHA-256 of the synced content
+
     // Timestamps
     uploadedAt: timestamp('uploaded_at').notNull().defaultNow(),
   },
@@ -716,6 +1029,8 @@ export const document = pgTable(
       table.knowledgeBaseId,
       table.processingStatus
     ),
+    // Matching synced documents to the files and pages of their source
+    sourceExternalIdIdx: index('doc_source_external_id_idx').on(table.sourceId, table.externalId),
   })
 )
 
@@ -737,8 +1052,9 @@ export const embedding = pgTable(
     contentLength: integer('content_length').notNull(),
     tokenCount: integer('token_count').notNull(),
 
-    // Vector embeddings - optimized for text-embedding-3-small with HNSW support
-    embedding: vector('embedding', { dimensions: 1536 }), // For text-embedding-3-small
+    // Vector embeddings with HNSW support. Vectors of models with fewer dimensions are
+    // zero-padded to 1536, see providers/embeddings/models.ts
+    embedding: vector('embedding', { dimensions: 1536 }),
     embeddingModel: text('embedding_model').notNull().default('text-embedding-3-small'),
 
     // Chunk boundaries and overlap
@@ -748,6 +1064,9 @@ export const embedding = pgTable(
     // Rich metadata for advanced filtering
     metadata: jsonb('metadata').notNull().default('{}'),
 
+    // Tags inherited from the document, used to filter search results
+    tags: jsonb('tags').notNull().default('{}'),
+
     // Chunk state - enable/disable from knowledge base
     enabled: boolean('enabled').notNull().default(true),
 
@@ -788,6 +1107,9 @@ export const embedding = pgTable(
     // GIN index for JSONB metadata queries
     metadataGinIdx: index('emb_metadata_gin_idx').using('gin', table.metadata),
 
+    // GIN index for tag filters
+    tagsGinIdx: index('emb_tags_gin_idx').using('gin', table.tags),
+
     // Full-text search index
     contentFtsIdx: index('emb_content_fts_idx').using('gin', table.contentTsv),
 
@@ -35,6 +35,7 @@ export const setupHandlerMocks = () => {
     EvaluatorBlockHandler: createMockHandler('evaluator'),
     FunctionBlockHandler: createMockHandler('function'),
     ApiBlockHandler: createMockHandler('api'),
+    ApprovalBlockHandler: createMockHandler('approval'),
     LoopBlockHandler: createMockHandler('loop'),
     ParallelBlockHandler: createMockHandler('parallel'),
     WorkflowBlockHandler: createMockHandler('workflow'),
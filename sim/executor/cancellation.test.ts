@@ -0,0 +1,64 @@
+/**
+ * @vitest-environment node
+ *
+ * Execution Cancellation Unit Tests
+ *
+ * Tests for aborting block operations when a run is cancelled or exceeds its time limit.
+ */
+import { describe, expect, test, vi } from 'vitest'
+import type { SerializedWorkflow } from '@/serializer/types'
+import { ExecutionAbortedError, getWorkflowTimeoutMs, runWithAbortSignal } from './cancellation'
+
+const never = () => new Promise<never>(() => {})
+
+describe('execution cancellation', () => {
+  test('should reject with a timeout once the time limit passes', async () => {
+    const operation = vi.fn((_signal: AbortSignal) => never())
+
+    await expect(
+      runWithAbortSignal(operation, { timeoutMs: 10, timeoutMessage: 'Block exceeded its timeout' })
+    ).rejects.toMatchObject({ reason: 'timeout', message: 'Block exceeded its timeout' })
+    expect(operation.mock.calls[0][0].aborted).toBe(true)
+  })
+
+  test('should abort the operation when the parent signal aborts', async () => {
+    const parent = new AbortController()
+    let operationSignal: AbortSignal | undefined
+
+    const promise = runWithAbortSignal(
+      (signal) => {
+        operationSignal = signal
+        return never()
+      },
+      { signal: parent.signal }
+    )
+    parent.abort(new ExecutionAbortedError('cancelled', 'Workflow execution was cancelled'))
+
+    await expect(promise).rejects.toMatchObject({ reason: 'cancelled' })
+    expect(operationSignal?.aborted).toBe(true)
+  })
+
+  test('should not start operations for an already cancelled run', async () => {
+    const parent = new AbortController()
+    parent.abort()
+    const operation = vi.fn(async () => 'done')
+
+    await expect(runWithAbortSignal(operation, { signal: parent.signal })).rejects.toBeInstanceOf(
+      ExecutionAbortedError
+    )
+    expect(operation).not.toHaveBeenCalled()
+  })
+
+  test('should read the run timeout from the starter block', () => {
+    const workflow = (timeoutSeconds?: string) =>
+      ({
+        blocks: [
+          { id: 'start', metadata: { id: 'starter' }, config: { params: { timeoutSeconds } } },
+        ],
+      }) as unknown as SerializedWorkflow
+
+    expect(getWorkflowTimeoutMs(workflow('30'))).toBe(30000)
+    expect(getWorkflowTimeoutMs(workflow(''))).toBeUndefined()
+    expect(getWorkflowTimeoutMs(workflow())).toBeUndefined()
+  })
+})
@@ -0,0 +1,108 @@
+import type { SerializedWorkflow } from '@/serializer/types'
+import type { ExecutionAbortReason } from './types'
+
+/**
+ * Abort reason used when a run is cancelled or a run or block exceeds its time limit.
+ */
+export class ExecutionAbortedError extends Error {
+  reason: ExecutionAbortReason
+
+  constructor(reason: ExecutionAbortReason, message: string) {
+    super(message)
+    this.name = 'ExecutionAbortedError'
+    this.reason = reason
+  }
+}
+
+interface AbortOptions {
+  signal?: AbortSignal // Parent signal whose abort is forwarded
+  timeoutMs?: number // Aborts with a timeout reason once this many milliseconds have passed
+  timeoutMessage?: string
+}
+
+/**
+ * Returns why a signal was aborted. Reasons that did not come from the executor,
+ * such as a closed client connection, are treated as a cancellation.
+ */
+export function getAbortError(signal: AbortSignal): ExecutionAbortedError {
+  if (signal.reason instanceof ExecutionAbortedError) {
+    return signal.reason
+  }
+  return new ExecutionAbortedError('cancelled', 'Workflow execution was cancelled')
+}
+
+/**
+ * Reads the run time limit configured on the workflow's starter block.
+ */
+export function getWorkflowTimeoutMs(workflow: SerializedWorkflow): number | undefined {
+  const starter = workflow.blocks.find((block) => block.metadata?.id === 'starter')
+  const seconds = Number(starter?.config.params?.timeoutSeconds)
+  return Number.isFinite(seconds) && seconds > 0 ? seconds * 1000 : undefined
+}
+
+/**
+ * Creates a controller that aborts together with a parent signal or after a timeout.
+ * Call dispose once the controller is no longer needed to clear the timer and listener.
+ */
+export function createLinkedAbortController(options: AbortOptions = {}): {
+  controller: AbortController
+  dispose: () => void
+} {
+  const { signal: parent, timeoutMs, timeoutMessage } = options
+  const controller = new AbortController()
+
+  const forwardAbort = () => controller.abort(parent?.reason)
+  if (parent?.aborted) {
+    forwardAbort()
+  } else {
+    parent?.addEventListener('abort', forwardAbort, { once: true })
+  }
+
+  const timer =
+    timeoutMs && timeoutMs > 0
+      ? setTimeout(
+          () =>
+            controller.abort(
+              new ExecutionAbortedError(
+                'timeout',
+                timeoutMessage || `Execution exceeded its timeout of ${timeoutMs}ms`
+              )
+            ),
+          timeoutMs
+        )
+      : undefined
+
+  return {
+    controller,
+    dispose: () => {
+      if (timer) clearTimeout(timer)
+      parent?.removeEventListener('abort', forwardAbort)
+    },
+  }
+}
+
+/**
+ * Runs an operation with a signal that aborts with the parent signal or after the timeout.
+ * The returned promise rejects as soon as the signal aborts, so an operation that ignores
+ * its signal cannot keep the run waiting.
+ */
+export async function runWithAbortSignal<T>(
+  operation: (signal: AbortSignal) => Promise<T>,
+  options: AbortOptions = {}
+): Promise<T> {
+  const { controller, dispose } = createLinkedAbortController(options)
+
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const rejectOnAbort = () => reject(getAbortError(controller.signal))
+      if (controller.signal.aborted) {
+        rejectOnAbort()
+        return
+      }
+      controller.signal.addEventListener('abort', rejectOnAbort, { once: true })
+      operation(controller.signal).then(resolve, reject)
+    })
+  } finally {
+    dispose()
+  }
+}
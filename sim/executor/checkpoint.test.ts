@@ -0,0 +1,131 @@
+/**
+ * @vitest-environment node
+ *
+ * Execution Checkpoint Unit Tests
+ *
+ * Tests for serializing an ExecutionContext after a completed layer and
+ * restoring it into a fresh context when a run is resumed.
+ */
+import { describe, expect, test } from 'vitest'
+import { applyExecutionCheckpoint, createExecutionCheckpoint } from './checkpoint'
+import type { ExecutionContext } from './types'
+
+const createContext = (): ExecutionContext => ({
+  workflowId: 'workflow-1',
+  blockStates: new Map(),
+  blockLogs: [],
+  metadata: { startTime: '2025-01-01T00:00:00.000Z', duration: 0 },
+  environmentVariables: {},
+  decisions: { router: new Map(), condition: new Map() },
+  loopIterations: new Map(),
+  loopItems: new Map(),
+  completedLoops: new Set(),
+  executedBlocks: new Set(),
+  activeExecutionPath: new Set(),
+})
+
+describe('execution checkpoints', () => {
+  test('should round-trip maps and sets through JSON', () => {
+    const context = createContext()
+    context.blockStates.set('agent-1', {
+      output: { response: { content: 'Hello' } },
+      executed: true,
+      executionTime: 12,
+    })
+    context.blockLogs.push({
+      blockId: 'agent-1',
+      startedAt: '2025-01-01T00:00:00.000Z',
+      endedAt: '2025-01-01T00:00:01.000Z',
+      durationMs: 1000,
+      success: true,
+    })
+    context.decisions.router.set('router-1', 'agent-1')
+    context.decisions.condition.set('condition-1', 'if')
+    context.loopIterations.set('loop-1', 2)
+    context.completedLoops.add('loop-0')
+    context.executedBlocks.add('starter').add('agent-1')
+    context.activeExecutionPath.add('starter').add('agent-1').add('function-1')
+    context.loopExecutions = new Map([
+      [
+        'loop-1',
+        {
+          maxIterations: 3,
+          loopType: 'for',
+          executionResults: new Map([['iteration_0', { result: 1 }]]),
+          currentIteration: 2,
+        },
+      ],
+    ])
+    context.parallelExecutions = new Map([
+      [
+        'parallel-1',
+        {
+          parallelCount: 2,
+          distributionItems: ['a', 'b'],
+          completedExecutions: 1,
+          executionResults: new Map([['iteration_0', { result: 'a' }]]),
+          activeIterations: new Set([1]),
+          currentIteration: 1,
+          parallelType: 'collection',
+        },
+      ],
+    ])
+
+    const checkpoint = JSON.parse(JSON.stringify(createExecutionCheckpoint(context, 3)))
+    const restored = applyExecutionCheckpoint(createContext(), checkpoint)
+
+    expect(checkpoint.layer).toBe(3)
+    expect(restored.blockStates.get('agent-1')?.output.response.content).toBe('Hello')
+    expect(restored.blockLogs).toHaveLength(1)
+    expect(restored.decisions.router.get('router-1')).toBe('agent-1')
+    expect(restored.decisions.condition.get('condition-1')).toBe('if')
+    expect(restored.loopIterations.get('loop-1')).toBe(2)
+    expect(restored.completedLoops.has('loop-0')).toBe(true)
+    expect(restored.executedBlocks).toEqual(new Set(['starter', 'agent-1']))
+    expect(restored.activeExecutionPath.has('function-1')).toBe(true)
+    expect(restored.loopExecutions?.get('loop-1')?.executionResults.get('iteration_0')).toEqual({
+      result: 1,
+    })
+    expect(restored.parallelExecutions?.get('parallel-1')?.activeIterations).toEqual(new Set([1]))
+  })
+
+  test('should omit seeded block states that have not been executed', () => {
+    const context = createContext()
+    context.blockStates.set('api-1', {
+      output: { response: { headers: { Authorization: 'Bearer secret' } } },
+      executed: true,
+      executionTime: 0,
+    })
+    context.blockStates.set('agent-1', {
+      output: { response: { content: 'done' } },
+      executed: true,
+      executionTime: 5,
+    })
+    context.executedBlocks.add('agent-1')
+
+    const checkpoint = createExecutionCheckpoint(context, 1, new Set(['api-1', 'agent-1']))
+
+    expect(checkpoint.blockStates.map(([blockId]) => blockId)).toEqual(['agent-1'])
+  })
+
+  test('should keep runtime-only fields from the fresh context', () => {
+    const context = createContext()
+    context.executedBlocks.add('starter')
+    const checkpoint = createExecutionCheckpoint(context, 1)
+
+    const fresh = createContext()
+    fresh.environmentVariables = { API_KEY: 'fresh-key' }
+    const restored = applyExecutionCheckpoint(fresh, checkpoint)
+
+    expect(restored.environmentVariables).toEqual({ API_KEY: 'fresh-key' })
+    expect(restored.metadata.startTime).toBe('2025-01-01T00:00:00.000Z')
+  })
+
+  test('should reject unknown checkpoint versions', () => {
+    const checkpoint = { ...createExecutionCheckpoint(createContext(), 1), version: 2 } as any
+
+    expect(() => applyExecutionCheckpoint(createContext(), checkpoint)).toThrow(
+      'Unsupported execution checkpoint version: 2'
+    )
+  })
+})
@@ -0,0 +1,186 @@
+import type { BlockLog, BlockState, ExecutionContext } from './types'
+
+/**
+ * JSON-safe snapshot of an ExecutionContext taken after a completed execution layer.
+ * Maps and Sets are flattened into entry arrays so the snapshot can be stored in Postgres.
+ */
+export interface ExecutionCheckpoint {
+  version: 1
+  layer: number // Number of execution layers completed when the snapshot was taken
+  createdAt: string // ISO timestamp when the snapshot was taken
+  startTime?: string // ISO timestamp of the original execution start
+  blockStates: Array<[string, BlockState]>
+  blockLogs: BlockLog[]
+  decisions: {
+    router: Array<[string, string]>
+    condition: Array<[string, string]>
+  }
+  loopIterations: Array<[string, number]>
+  loopItems: Array<[string, any]>
+  completedLoops: string[]
+  parallelExecutions?: Array<
+    [
+      string,
+      {
+        parallelCount: number
+        distributionItems: any[] | Record<string, any> | null
+        completedExecutions: number
+        executionResults: Array<[string, any]>
+        activeIterations: number[]
+        currentIteration: number
+        parallelType?: 'count' | 'collection'
+      },
+    ]
+  >
+  loopExecutions?: Array<
+    [
+      string,
+      {
+        maxIterations: number
+        loopType: 'for' | 'forEach'
+        forEachItems?: any[] | Record<string, any> | null
+        executionResults: Array<[string, any]>
+        currentIteration: number
+      },
+    ]
+  >
+  parallelBlockMapping?: Array<
+    [string, { originalBlockId: string; parallelId: string; iterationIndex: number }]
+  >
+  executedBlocks: string[]
+  activeExecutionPath: string[]
+  recordedCalls?: number // Calls in the run's recording when the snapshot was taken, if it is recorded
+}
+
+/**
+ * Creates a checkpoint from the current execution context.
+ *
+ * Block states that were seeded from the initial block states (sub-block values with
+ * decrypted environment variables) and have not been executed are left out, so secrets
+ * are never written to the checkpoint. They are re-seeded when the run is resumed.
+ *
+ * @param context - Current execution context
+ * @param layer - Number of execution layers completed so far
+ * @param seededBlockIds - IDs of blocks whose state came from the initial block states
+ * @returns Serializable checkpoint
+ */
+export function createExecutionCheckpoint(
+  context: ExecutionContext,
+  layer: number,
+  seededBlockIds: Set<string> = new Set()
+): ExecutionCheckpoint {
+  const blockStates = Array.from(context.blockStates.entries()).filter(
+    ([blockId]) => context.executedBlocks.has(blockId) || !seededBlockIds.has(blockId)
+  )
+
+  return {
+    version: 1,
+    layer,
+    createdAt: new Date().toISOString(),
+    startTime: context.metadata.startTime,
+    blockStates,
+    blockLogs: [...context.blockLogs],
+    decisions: {
+      router: Array.from(context.decisions.router.entries()),
+      condition: Array.from(context.decisions.condition.entries()),
+    },
+    loopIterations: Array.from(context.loopIterations.entries()),
+    loopItems: Array.from(context.loopItems.entries()),
+    completedLoops: Array.from(context.completedLoops),
+    parallelExecutions: context.parallelExecutions
+      ? Array.from(context.parallelExecutions.entries()).map(([parallelId, state]) => [
+          parallelId,
+          {
+            ...state,
+            executionResults: Array.from(state.executionResults.entries()),
+            activeIterations: Array.from(state.activeIterations),
+          },
+        ])
+      : undefined,
+    loopExecutions: context.loopExecutions
+      ? Array.from(context.loopExecutions.entries()).map(([loopId, state]) => [
+          loopId,
+          {
+            ...state,
+            executionResults: Array.from(state.executionResults.entries()),
+          },
+        ])
+      : undefined,
+    parallelBlockMapping: context.parallelBlockMapping
+      ? Array.from(context.parallelBlockMapping.entries())
+      : undefined,
+    executedBlocks: Array.from(context.executedBlocks),
+    activeExecutionPath: Array.from(context.activeExecutionPath),
+    recordedCalls:
+      context.replay?.mode === 'record' ? context.replay.getRecording().calls.length : undefined,
+  }
+}
+
+/**
+ * Applies a checkpoint on top of a freshly created execution context.
+ * Runtime-only fields (environment variables, workflow reference, streaming callbacks)
+ * are kept from the fresh context.
+ *
+ * @param context - Freshly initialized execution context
+ * @param checkpoint - Checkpoint to restore
+ * @returns The same context, updated with the checkpointed state
+ */
+export function applyExecutionCheckpoint(
+  context: ExecutionContext,
+  checkpoint: ExecutionCheckpoint
+): ExecutionContext {
+  if (checkpoint.version !== 1) {
+    throw new Error(`Unsupported execution checkpoint version: ${checkpoint.version}`)
+  }
+
+  for (const [blockId, state] of checkpoint.blockStates) {
+    context.blockStates.set(blockId, state)
+  }
+
+  context.blockLogs = [...checkpoint.blockLogs]
+  if (checkpoint.startTime) {
+    context.metadata.startTime = checkpoint.startTime
+  }
+
+  context.decisions = {
+    router: new Map(checkpoint.decisions.router),
+    condition: new Map(checkpoint.decisions.condition),
+  }
+  context.loopIterations = new Map(checkpoint.loopIterations)
+  context.loopItems = new Map(checkpoint.loopItems)
+  context.completedLoops = new Set(checkpoint.completedLoops)
+
+  if (checkpoint.parallelExecutions) {
+    context.parallelExecutions = new Map(
+      checkpoint.parallelExecutions.map(([parallelId, state]) => [
+        parallelId,
+        {
+          ...state,
+          executionResults: new Map(state.executionResults),
+          activeIterations: new Set(state.activeIterations),
+        },
+      ])
+    )
+  }
+
+  if (checkpoint.loopExecutions) {
+    context.loopExecutions = new Map(
+      checkpoint.loopExecutions.map(([loopId, state]) => [
+        loopId,
+        {
+          ...state,
+          executionResults: new Map(state.executionResults),
+        },
+      ])
+    )
+  }
+
+  if (checkpoint.parallelBlockMapping) {
+    context.parallelBlockMapping = new Map(checkpoint.parallelBlockMapping)
+  }
+
+  context.executedBlocks = new Set(checkpoint.executedBlocks)
+  context.activeExecutionPath = new Set(checkpoint.activeExecutionPath)
+
+  return context
+}
@@ -8,7 +8,7 @@ import type { SerializedBlock } from '@/serializer/types'
 import { executeTool } from '@/tools'
 import { getTool, getToolAsync } from '@/tools/utils'
 import type { BlockHandler, ExecutionContext, StreamingExecution } from '../../types'
-import type { AgentInputs, Message, StreamingConfig, ToolInput } from './types'
+import type { AgentInputs, ConversationMemory, Message, StreamingConfig, ToolInput } from './types'
 
 const logger = createLogger('AgentBlockHandler')
 
@@ -16,6 +16,15 @@ const DEFAULT_MODEL = 'gpt-4o'
 const DEFAULT_FUNCTION_TIMEOUT = 5000
 const REQUEST_TIMEOUT = 120000
 const CUSTOM_TOOL_PREFIX = 'custom_'
+const MEMORY_REQUEST_TIMEOUT = 30000
+
+interface MemoryScope {
+  workflowId: string
+  conversationId: string
+  key: string
+  strategy: 'window' | 'summary' | 'semantic'
+  tokenBudget?: number
+}
 
 /**
  * Handler for Agent blocks that process LLM requests with optional tools.
@@ -28,16 +37,23 @@ export class AgentBlockHandler implements BlockHandler {
   async execute(
     block: SerializedBlock,
     inputs: AgentInputs,
-    context: ExecutionContext
+    context: ExecutionContext,
+    signal?: AbortSignal
   ): Promise<BlockOutput | StreamingExecution> {
     logger.info(`Executing agent block: ${block.id}`)
 
+    // Read the virtual ID before awaiting anything so parallel iterations record their calls apart
+    const replayBlockId = context.currentVirtualBlockId || block.id
     const responseFormat = this.parseResponseFormat(inputs.responseFormat)
     const model = inputs.model || DEFAULT_MODEL
     const providerId = getProviderFromModel(model)
     const formattedTools = await this.formatTools(inputs.tools || [], context)
     const streamingConfig = this.getStreamingConfig(block, context)
-    const messages = this.buildMessages(inputs)
+    const memoryScope = this.getMemoryScope(block, inputs, context)
+    const conversationMemory = memoryScope
+      ? await this.loadConversationMemory(memoryScope, inputs)
+      : null
+    const messages = this.buildMessages(inputs, conversationMemory)
 
     const providerRequest = this.buildProviderRequest({
       providerId,
@@ -52,7 +68,16 @@ export class AgentBlockHandler implements BlockHandler {
 
     this.logRequestDetails(providerRequest, messages, streamingConfig)
 
-    return this.executeProviderRequest(providerRequest, block, responseFormat, context)
+    const result = await this.executeProviderRequest(
+      providerRequest,
+      block,
+      responseFormat,
+      context,
+      replayBlockId,
+      signal
+    )
+
+    return memoryScope ? this.recordConversationMemory(memoryScope, inputs, result) : result
   }
 
   private parseResponseFormat(responseFormat?: string | object): any {
@@ -168,8 +193,11 @@ export class AgentBlockHandler implements BlockHandler {
     return { shouldUseStreaming, isBlockSelectedForOutput, hasOutgoingConnections }
   }
 
-  private buildMessages(inputs: AgentInputs): Message[] | undefined {
-    if (!inputs.memories && !(inputs.systemPrompt && inputs.userPrompt)) {
+  private buildMessages(
+    inputs: AgentInputs,
+    conversationMemory?: ConversationMemory | null
+  ): Message[] | undefined {
+    if (!inputs.memories && !conversationMemory && !(inputs.systemPrompt && inputs.userPrompt)) {
       return undefined
     }
 
@@ -183,6 +211,10 @@ export class AgentBlockHandler implements BlockHandler {
       this.addSystemPrompt(messages, inputs.systemPrompt)
     }
 
+    if (conversationMemory) {
+      this.addConversationMemory(messages, conversationMemory)
+    }
+
     if (inputs.userPrompt) {
       this.addUserPrompt(messages, inputs.userPrompt)
     }
@@ -255,15 +287,170 @@ export class AgentBlockHandler implements BlockHandler {
     }
   }
 
+  /**
+   * Summaries and retrieved turns go into the system prompt, since not every provider
+   * accepts system messages in the middle of a conversation
+   */
+  private addConversationMemory(messages: Message[], conversationMemory: ConversationMemory) {
+    if (conversationMemory.context) {
+      if (messages[0]?.role === 'system') {
+        messages[0] = {
+          ...messages[0],
+          content: `${messages[0].content}\n\n${conversationMemory.context}`,
+        }
+      } else {
+        messages.unshift({ role: 'system', content: conversationMemory.context })
+      }
+    }
+
+    messages.push(...conversationMemory.messages)
+  }
+
   private addUserPrompt(messages: Message[], userPrompt: any) {
-    let content = userPrompt
+    messages.push({ role: 'user', content: this.formatUserPrompt(userPrompt) })
+  }
+
+  private formatUserPrompt(userPrompt: any) {
     if (typeof userPrompt === 'object' && userPrompt.input) {
-      content = userPrompt.input
-    } else if (typeof userPrompt === 'object') {
-      content = JSON.stringify(userPrompt)
+      return userPrompt.input
+    }
+    if (typeof userPrompt === 'object') {
+      return JSON.stringify(userPrompt)
     }
+    return userPrompt
+  }
 
-    messages.push({ role: 'user', content })
+  private getMemoryScope(
+    block: SerializedBlock,
+    inputs: AgentInputs,
+    context: ExecutionContext
+  ): MemoryScope | null {
+    if (!inputs.memoryStrategy || inputs.memoryStrategy === 'none' || !context.workflowId) {
+      return null
+    }
+
+    // Replayed runs are served the recorded responses, so they neither read nor change the memory
+    if (context.replay?.mode === 'replay') {
+      return null
+    }
+
+    const tokenBudget = Number(inputs.memoryTokenBudget)
+
+    return {
+      workflowId: context.workflowId,
+      conversationId: inputs.conversationId ? String(inputs.conversationId).trim() : '',
+      key: `agent-${block.id}`,
+      strategy: inputs.memoryStrategy,
+      tokenBudget: Number.isFinite(tokenBudget) && tokenBudget > 0 ? tokenBudget : undefined,
+    }
+  }
+
+  /**
+   * Send a request to the memory API. In the browser the session authorizes it; server-side
+   * executions have no session and send an execution token for the workflow instead.
+   */
+  private async postMemoryRequest(path: string, body: Record<string, any>) {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+    if (typeof window === 'undefined') {
+      const { createExecutionToken } = await import('@/lib/workflows/execution-token')
+      headers.Authorization = `Bearer ${await createExecutionToken(body.workflowId)}`
+    }
+
+    const url = new URL(path, env.NEXT_PUBLIC_APP_URL || '')
+    const response = await fetch(url.toString(), {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(MEMORY_REQUEST_TIMEOUT),
+    })
+
+    const result = await response.json()
+    if (!response.ok || !result.success) {
+      throw new Error(
+        result.error?.message || `Memory request failed with status ${response.status}`
+      )
+    }
+    return result.data
+  }
+
+  /**
+   * Load the memory of the conversation. The agent still runs, without memory, when the
+   * memory cannot be loaded.
+   */
+  private async loadConversationMemory(
+    memoryScope: MemoryScope,
+    inputs: AgentInputs
+  ): Promise<ConversationMemory> {
+    try {
+      return await this.postMemoryRequest('/api/memory/agent/context', {
+        ...memoryScope,
+        query: inputs.userPrompt ? String(this.formatUserPrompt(inputs.userPrompt)) : undefined,
+      })
+    } catch (error) {
+      logger.error('Failed to load conversation memory:', { key: memoryScope.key, error })
+      return { context: null, messages: [] }
+    }
+  }
+
+  /**
+   * Record the user prompt and the response of the agent in the memory of the
+   * conversation. Streamed responses are recorded once the stream has been read.
+   */
+  private async recordConversationMemory(
+    memoryScope: MemoryScope,
+    inputs: AgentInputs,
+    result: BlockOutput | StreamingExecution
+  ): Promise<BlockOutput | StreamingExecution> {
+    if (!inputs.userPrompt) return result
+
+    const userContent = String(this.formatUserPrompt(inputs.userPrompt))
+    const record = async (assistantContent: string) => {
+      try {
+        await this.postMemoryRequest('/api/memory/agent', {
+          ...memoryScope,
+          messages: [
+            { role: 'user', content: userContent },
+            { role: 'assistant', content: assistantContent },
+          ],
+          model: inputs.model || DEFAULT_MODEL,
+          apiKey: inputs.apiKey,
+          azureEndpoint: inputs.azureEndpoint,
+          azureApiVersion: inputs.azureApiVersion,
+        })
+      } catch (error) {
+        logger.error('Failed to record conversation memory:', { key: memoryScope.key, error })
+      }
+    }
+
+    if (this.isStreamingExecution(result) || result instanceof ReadableStream) {
+      const streamingExec = result as StreamingExecution
+      const decoder = new TextDecoder()
+      let content = ''
+
+      streamingExec.stream = streamingExec.stream.pipeThrough(
+        new TransformStream<Uint8Array, Uint8Array>({
+          transform(chunk, controller) {
+            content += decoder.decode(chunk, { stream: true })
+            controller.enqueue(chunk)
+          },
+          async flush() {
+            content += decoder.decode()
+            await record(content)
+          },
+        })
+      )
+      return streamingExec
+    }
+
+    // Structured responses are recorded as JSON, without the metadata of the request
+    const { tokens, toolCalls, providerTiming, cost, ...response } = (result as Record<string, any>)
+      .response
+    await record(
+      typeof response.content === 'string' && 'model' in response
+        ? response.content
+        : JSON.stringify(response)
+    )
+    return result
   }
 
   private buildProviderRequest(config: {
@@ -346,7 +533,9 @@ export class AgentBlockHandler implements BlockHandler {
     providerRequest: any,
     block: SerializedBlock,
     responseFormat: any,
-    context: ExecutionContext
+    context: ExecutionContext,
+    replayBlockId: string,
+    signal?: AbortSignal
   ): Promise<BlockOutput | StreamingExecution> {
     const providerId = providerRequest.provider
     const model = providerRequest.model
@@ -363,7 +552,9 @@ export class AgentBlockHandler implements BlockHandler {
           block,
           responseFormat,
           context,
-          providerStartTime
+          providerStartTime,
+          replayBlockId,
+          signal
         )
       }
       return this.executeBrowserSide(
@@ -371,7 +562,8 @@ export class AgentBlockHandler implements BlockHandler {
         block,
         responseFormat,
         context,
-        providerStartTime
+        providerStartTime,
+        signal
       )
     } catch (error) {
       this.handleExecutionError(error, providerStartTime, providerId, model, context, block)
@@ -386,7 +578,9 @@ export class AgentBlockHandler implements BlockHandler {
     block: SerializedBlock,
     responseFormat: any,
     context: ExecutionContext,
-    providerStartTime: number
+    providerStartTime: number,
+    replayBlockId: string,
+    signal?: AbortSignal
   ) {
     logger.info('Using direct provider execution (server environment)')
 
@@ -407,6 +601,9 @@ export class AgentBlockHandler implements BlockHandler {
       stream: providerRequest.stream,
       messages: 'messages' in providerRequest ? providerRequest.messages : undefined,
       environmentVariables: context.environmentVariables || {},
+      abortSignal: signal,
+      blockId: replayBlockId,
+      replay: context.replay,
     })
 
     this.logExecutionSuccess(providerId, model, context, block, providerStartTime, response)
@@ -418,7 +615,8 @@ export class AgentBlockHandler implements BlockHandler {
     block: SerializedBlock,
     responseFormat: any,
     context: ExecutionContext,
-    providerStartTime: number
+    providerStartTime: number,
+    signal?: AbortSignal
   ) {
     logger.info('Using HTTP provider request (browser environment)')
 
@@ -427,7 +625,9 @@ export class AgentBlockHandler implements BlockHandler {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify(providerRequest),
-      signal: AbortSignal.timeout(REQUEST_TIMEOUT),
+      signal: signal
+        ? AbortSignal.any([signal, AbortSignal.timeout(REQUEST_TIMEOUT)])
+        : AbortSignal.timeout(REQUEST_TIMEOUT),
     })
 
     if (!response.ok) {
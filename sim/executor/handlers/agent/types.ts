@@ -5,6 +5,9 @@ export interface AgentInputs {
   systemPrompt?: string
   userPrompt?: string | object
   memories?: any
+  memoryStrategy?: 'none' | 'window' | 'summary' | 'semantic'
+  conversationId?: string
+  memoryTokenBudget?: number | string
   temperature?: number
   maxTokens?: number
   apiKey?: string
@@ -30,6 +33,11 @@ export interface Message {
   tool_calls?: any[]
 }
 
+export interface ConversationMemory {
+  context: string | null
+  messages: Message[]
+}
+
 export interface StreamingConfig {
   shouldUseStreaming: boolean
   isBlockSelectedForOutput: boolean
@@ -99,11 +99,17 @@ describe('ApiBlockHandler', () => {
     const result = await handler.execute(mockBlock, inputs, mockContext)
 
     expect(mockGetTool).toHaveBeenCalledWith('http_request')
-    expect(mockExecuteTool).toHaveBeenCalledWith('http_request', {
-      ...inputs,
-      body: { key: 'value' }, // Expect parsed body
-      _context: { workflowId: 'test-workflow-id' },
-    })
+    expect(mockExecuteTool).toHaveBeenCalledWith(
+      'http_request',
+      {
+        ...inputs,
+        body: { key: 'value' }, // Expect parsed body
+        _context: { workflowId: 'test-workflow-id', blockId: 'api-block-1' },
+      },
+      false,
+      false,
+      undefined
+    )
     expect(result).toEqual(expectedOutput)
   })
 
@@ -151,7 +157,10 @@ describe('ApiBlockHandler', () => {
 
     expect(mockExecuteTool).toHaveBeenCalledWith(
       'http_request',
-      expect.objectContaining({ body: expectedParsedBody })
+      expect.objectContaining({ body: expectedParsedBody }),
+      false,
+      false,
+      undefined
     )
   })
 
@@ -165,7 +174,10 @@ describe('ApiBlockHandler', () => {
 
     expect(mockExecuteTool).toHaveBeenCalledWith(
       'http_request',
-      expect.objectContaining({ body: 'This is plain text' })
+      expect.objectContaining({ body: 'This is plain text' }),
+      false,
+      false,
+      undefined
     )
   })
 
@@ -179,7 +191,10 @@ describe('ApiBlockHandler', () => {
 
     expect(mockExecuteTool).toHaveBeenCalledWith(
       'http_request',
-      expect.objectContaining({ body: undefined })
+      expect.objectContaining({ body: undefined }),
+      false,
+      false,
+      undefined
     )
   })
 
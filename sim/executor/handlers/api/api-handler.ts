@@ -18,7 +18,8 @@ export class ApiBlockHandler implements BlockHandler {
   async execute(
     block: SerializedBlock,
     inputs: Record<string, any>,
-    context: ExecutionContext
+    context: ExecutionContext,
+    signal?: AbortSignal
   ): Promise<BlockOutput> {
     const tool = getTool(block.config.tool)
     if (!tool) {
@@ -93,10 +94,20 @@ export class ApiBlockHandler implements BlockHandler {
         JSON.stringify(processedInputs.body, null, 2)
       )
 
-      const result = await executeTool(block.config.tool, {
-        ...processedInputs,
-        _context: { workflowId: context.workflowId },
-      })
+      const result = await executeTool(
+        block.config.tool,
+        {
+          ...processedInputs,
+          _context: {
+            workflowId: context.workflowId,
+            blockId: context.currentVirtualBlockId || block.id,
+            replay: context.replay,
+          },
+        },
+        false,
+        false,
+        signal
+      )
 
       if (!result.success) {
         const errorDetails = []
@@ -0,0 +1,144 @@
+import '../../__test-utils__/mock-dependencies'
+
+import { beforeEach, describe, expect, it } from 'vitest'
+import type { SerializedBlock } from '@/serializer/types'
+import type { ExecutionContext } from '../../types'
+import { ApprovalBlockHandler } from './approval-handler'
+
+describe('ApprovalBlockHandler', () => {
+  let handler: ApprovalBlockHandler
+  let mockBlock: SerializedBlock
+  let mockContext: ExecutionContext
+
+  beforeEach(() => {
+    handler = new ApprovalBlockHandler()
+
+    mockBlock = {
+      id: 'approval-block-1',
+      metadata: { id: 'approval', name: 'Manager Approval' },
+      position: { x: 60, y: 60 },
+      config: { tool: '', params: {} },
+      inputs: { data: 'json', instructions: 'string' },
+      outputs: {},
+      enabled: true,
+    }
+
+    mockContext = {
+      workflowId: 'test-workflow-id',
+      blockStates: new Map(),
+      blockLogs: [],
+      metadata: { duration: 0 },
+      environmentVariables: {},
+      decisions: { router: new Map(), condition: new Map() },
+      loopIterations: new Map(),
+      loopItems: new Map(),
+      executedBlocks: new Set(),
+      activeExecutionPath: new Set(),
+      completedLoops: new Set(),
+      approvalDecisions: new Map(),
+      pendingApprovals: new Map(),
+    }
+  })
+
+  it('should handle approval blocks', () => {
+    expect(handler.canHandle(mockBlock)).toBe(true)
+    expect(handler.canHandle({ ...mockBlock, metadata: { id: 'function' } })).toBe(false)
+  })
+
+  it('should register a pending approval when no decision exists', async () => {
+    const inputs = {
+      data: { amount: 1200 },
+      instructions: 'Check the refund amount',
+      timeoutMinutes: '30',
+      defaultAction: 'approve',
+    }
+
+    const result = await handler.execute(mockBlock, inputs, mockContext)
+
+    expect(result).toEqual({ response: { status: 'pending', data: { amount: 1200 } } })
+    expect(mockContext.pendingApprovals?.get('approval-block-1')).toMatchObject({
+      blockId: 'approval-block-1',
+      blockName: 'Manager Approval',
+      data: { amount: 1200 },
+      instructions: 'Check the refund amount',
+      timeoutMinutes: 30,
+      defaultAction: 'approve',
+    })
+  })
+
+  it('should default to rejecting when nobody answers', async () => {
+    await handler.execute(mockBlock, { data: 'draft' }, mockContext)
+
+    const pending = mockContext.pendingApprovals?.get('approval-block-1')
+    expect(pending?.defaultAction).toBe('reject')
+    expect(pending?.timeoutMinutes).toBeUndefined()
+  })
+
+  it('should key pending approvals by virtual block ID inside parallels', async () => {
+    mockContext.currentVirtualBlockId = 'approval-block-1_parallel_p1_iteration_2'
+
+    await handler.execute(mockBlock, { data: 'item' }, mockContext)
+
+    expect(mockContext.pendingApprovals?.has('approval-block-1_parallel_p1_iteration_2')).toBe(true)
+  })
+
+  it('should reject invalid timeouts', async () => {
+    await expect(
+      handler.execute(mockBlock, { data: 'x', timeoutMinutes: 'soon' }, mockContext)
+    ).rejects.toThrow('Invalid approval timeout: soon')
+  })
+
+  it('should pass the original data through when approved', async () => {
+    mockContext.approvalDecisions?.set('approval-block-1', {
+      action: 'approve',
+      decidedBy: 'user-1',
+      decidedAt: '2025-01-01T00:00:00.000Z',
+    })
+
+    const result = await handler.execute(mockBlock, { data: { amount: 1200 } }, mockContext)
+
+    expect(result).toEqual({
+      response: {
+        status: 'approved',
+        approved: true,
+        data: { amount: 1200 },
+        comment: '',
+        decidedBy: 'user-1',
+        decidedAt: '2025-01-01T00:00:00.000Z',
+      },
+    })
+    expect(mockContext.pendingApprovals?.size).toBe(0)
+    expect(mockContext.approvalDecisions?.has('approval-block-1')).toBe(false)
+  })
+
+  it('should pass the edited data through when edited', async () => {
+    mockContext.approvalDecisions?.set('approval-block-1', {
+      action: 'edit',
+      data: { amount: 1000 },
+      comment: 'Capped the refund',
+      decidedBy: 'user-1',
+      decidedAt: '2025-01-01T00:00:00.000Z',
+    })
+
+    const result = await handler.execute(mockBlock, { data: { amount: 1200 } }, mockContext)
+
+    expect((result as any).response).toMatchObject({
+      status: 'edited',
+      data: { amount: 1000 },
+      comment: 'Capped the refund',
+    })
+  })
+
+  it('should fail the block when rejected', async () => {
+    mockContext.approvalDecisions?.set('approval-block-1', {
+      action: 'reject',
+      comment: 'Not eligible',
+      decidedBy: 'timeout',
+      decidedAt: '2025-01-01T00:00:00.000Z',
+    })
+
+    await expect(handler.execute(mockBlock, { data: 'x' }, mockContext)).rejects.toThrow(
+      'Approval rejected by timeout: Not eligible'
+    )
+  })
+})
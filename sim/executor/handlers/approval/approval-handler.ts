@@ -0,0 +1,91 @@
+import { createLogger } from '@/lib/logs/console-logger'
+import type { BlockOutput } from '@/blocks/types'
+import type { SerializedBlock } from '@/serializer/types'
+import type { BlockHandler, ExecutionContext } from '../../types'
+
+const logger = createLogger('ApprovalBlockHandler')
+
+/**
+ * Handler for Approval blocks that suspend the execution until a person approves,
+ * rejects or edits the data under review.
+ *
+ * Without a decision the block registers a pending approval on the context and the
+ * executor pauses the run after the current layer. When the run is resumed with a
+ * decision, approvals pass the (possibly edited) data downstream and rejections fail
+ * the block so its error path is followed.
+ */
+export class ApprovalBlockHandler implements BlockHandler {
+  canHandle(block: SerializedBlock): boolean {
+    return block.metadata?.id === 'approval'
+  }
+
+  async execute(
+    block: SerializedBlock,
+    inputs: Record<string, any>,
+    context: ExecutionContext
+  ): Promise<BlockOutput> {
+    // Read the virtual ID before awaiting anything so parallel iterations stay distinct
+    const approvalId = context.currentVirtualBlockId || block.id
+    const decision = context.approvalDecisions?.get(approvalId)
+
+    if (!decision) {
+      const timeoutMinutes = this.parseTimeout(inputs.timeoutMinutes)
+
+      if (!context.pendingApprovals) {
+        context.pendingApprovals = new Map()
+      }
+      context.pendingApprovals.set(approvalId, {
+        blockId: approvalId,
+        blockName: block.metadata?.name,
+        data: inputs.data,
+        instructions: inputs.instructions || undefined,
+        timeoutMinutes,
+        defaultAction: inputs.defaultAction === 'approve' ? 'approve' : 'reject',
+        requestedAt: new Date().toISOString(),
+      })
+
+      logger.info(`Approval requested for block ${approvalId}`, { timeoutMinutes })
+
+      return {
+        response: {
+          status: 'pending',
+          data: inputs.data,
+        },
+      }
+    }
+
+    logger.info(`Applying ${decision.action} decision for approval block ${approvalId}`)
+
+    // A decision answers a single request; loop iterations must ask again
+    context.approvalDecisions?.delete(approvalId)
+
+    if (decision.action === 'reject') {
+      const reason = decision.comment ? `: ${decision.comment}` : ''
+      throw new Error(`Approval rejected by ${decision.decidedBy || 'approver'}${reason}`)
+    }
+
+    return {
+      response: {
+        status: decision.action === 'edit' ? 'edited' : 'approved',
+        approved: true,
+        data: decision.action === 'edit' ? decision.data : inputs.data,
+        comment: decision.comment || '',
+        decidedBy: decision.decidedBy || '',
+        decidedAt: decision.decidedAt,
+      },
+    }
+  }
+
+  private parseTimeout(value: any): number | undefined {
+    if (value === undefined || value === null || value === '') {
+      return undefined
+    }
+
+    const minutes = Number(value)
+    if (Number.isNaN(minutes) || minutes <= 0) {
+      throw new Error(`Invalid approval timeout: ${value}`)
+    }
+
+    return minutes
+  }
+}
@@ -83,7 +83,13 @@ describe('FunctionBlockHandler', () => {
 
     const result = await handler.execute(mockBlock, inputs, mockContext)
 
-    expect(mockExecuteTool).toHaveBeenCalledWith('function_execute', expectedToolParams)
+    expect(mockExecuteTool).toHaveBeenCalledWith(
+      'function_execute',
+      expectedToolParams,
+      false,
+      false,
+      undefined
+    )
     expect(result).toEqual(expectedOutput)
   })
 
@@ -106,7 +112,13 @@ describe('FunctionBlockHandler', () => {
 
     const result = await handler.execute(mockBlock, inputs, mockContext)
 
-    expect(mockExecuteTool).toHaveBeenCalledWith('function_execute', expectedToolParams)
+    expect(mockExecuteTool).toHaveBeenCalledWith(
+      'function_execute',
+      expectedToolParams,
+      false,
+      false,
+      undefined
+    )
     expect(result).toEqual(expectedOutput)
   })
 
@@ -121,7 +133,13 @@ describe('FunctionBlockHandler', () => {
 
     await handler.execute(mockBlock, inputs, mockContext)
 
-    expect(mockExecuteTool).toHaveBeenCalledWith('function_execute', expectedToolParams)
+    expect(mockExecuteTool).toHaveBeenCalledWith(
+      'function_execute',
+      expectedToolParams,
+      false,
+      false,
+      undefined
+    )
   })
 
   it('should handle execution errors from the tool', async () => {
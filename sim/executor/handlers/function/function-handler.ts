@@ -17,7 +17,8 @@ export class FunctionBlockHandler implements BlockHandler {
   async execute(
     block: SerializedBlock,
     inputs: Record<string, any>,
-    context: ExecutionContext
+    context: ExecutionContext,
+    signal?: AbortSignal
   ): Promise<BlockOutput> {
     const codeContent = Array.isArray(inputs.code)
       ? inputs.code.map((c: { content: string }) => c.content).join('\n')
@@ -25,12 +26,19 @@ export class FunctionBlockHandler implements BlockHandler {
 
     // Directly use the function_execute tool which calls the API route
     logger.info(`Executing function block via API route: ${block.id}`)
-    const result = await executeTool('function_execute', {
-      code: codeContent,
-      timeout: inputs.timeout || 5000,
-      envVars: context.environmentVariables || {},
-      _context: { workflowId: context.workflowId },
-    })
+    const result = await executeTool(
+      'function_execute',
+      {
+        code: codeContent,
+        language: inputs.language,
+        timeout: inputs.timeout || 5000,
+        envVars: context.environmentVariables || {},
+        _context: { workflowId: context.workflowId },
+      },
+      false,
+      false,
+      signal
+    )
 
     if (!result.success) {
       throw new Error(result.error || 'Function execution failed')
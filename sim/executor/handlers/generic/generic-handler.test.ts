@@ -86,17 +86,41 @@ describe('GenericBlockHandler', () => {
     const inputs = { param1: 'resolvedValue1' }
     const expectedToolParams = {
       ...inputs,
-      _context: { workflowId: mockContext.workflowId },
+      _context: { workflowId: mockContext.workflowId, blockId: mockBlock.id },
     }
     const expectedOutput: BlockOutput = { response: { customResult: 'OK' } }
 
     const result = await handler.execute(mockBlock, inputs, mockContext)
 
     expect(mockGetTool).toHaveBeenCalledWith('some_custom_tool')
-    expect(mockExecuteTool).toHaveBeenCalledWith('some_custom_tool', expectedToolParams)
+    expect(mockExecuteTool).toHaveBeenCalledWith(
+      'some_custom_tool',
+      expectedToolParams,
+      false,
+      false,
+      undefined
+    )
     expect(result).toEqual(expectedOutput)
   })
 
+  it('should pass the virtual block ID of a parallel iteration to the tool', async () => {
+    mockContext.currentVirtualBlockId = 'generic-block-1_parallel_parallel-1_iteration_2'
+
+    await handler.execute(mockBlock, { param1: 'value' }, mockContext)
+
+    expect(mockExecuteTool).toHaveBeenCalledWith(
+      'some_custom_tool',
+      expect.objectContaining({
+        _context: expect.objectContaining({
+          blockId: 'generic-block-1_parallel_parallel-1_iteration_2',
+        }),
+      }),
+      false,
+      false,
+      undefined
+    )
+  })
+
   it('should throw error if the associated tool is not found', async () => {
     const inputs = { param1: 'value' }
 
@@ -21,7 +21,8 @@ export class GenericBlockHandler implements BlockHandler {
   async execute(
     block: SerializedBlock,
     inputs: Record<string, any>,
-    context: ExecutionContext
+    context: ExecutionContext,
+    signal?: AbortSignal
   ): Promise<BlockOutput> {
     logger.info(`Executing block: ${block.id} (Type: ${block.metadata?.id})`)
     const tool = getTool(block.config.tool)
@@ -30,10 +31,20 @@ export class GenericBlockHandler implements BlockHandler {
     }
 
     try {
-      const result = await executeTool(block.config.tool, {
-        ...inputs,
-        _context: { workflowId: context.workflowId },
-      })
+      const result = await executeTool(
+        block.config.tool,
+        {
+          ...inputs,
+          _context: {
+            workflowId: context.workflowId,
+            blockId: context.currentVirtualBlockId || block.id,
+            replay: context.replay,
+          },
+        },
+        false,
+        false,
+        signal
+      )
 
       if (!result.success) {
         const errorDetails = []
@@ -1,5 +1,6 @@
 import { AgentBlockHandler } from './agent/agent-handler'
 import { ApiBlockHandler } from './api/api-handler'
+import { ApprovalBlockHandler } from './approval/approval-handler'
 import { ConditionBlockHandler } from './condition/condition-handler'
 import { EvaluatorBlockHandler } from './evaluator/evaluator-handler'
 import { FunctionBlockHandler } from './function/function-handler'
@@ -13,6 +14,7 @@ import { WorkflowBlockHandler } from './workflow/workflow-handler'
 export {
   AgentBlockHandler,
   ApiBlockHandler,
+  ApprovalBlockHandler,
   ConditionBlockHandler,
   EvaluatorBlockHandler,
   FunctionBlockHandler,
@@ -2,7 +2,9 @@ import { env } from '@/lib/env'
 import { createLogger } from '@/lib/logs/console-logger'
 import { generateRouterPrompt } from '@/blocks/blocks/router'
 import type { BlockOutput } from '@/blocks/types'
-import { calculateCost, getProviderFromModel } from '@/providers/utils'
+import { executeProviderRequest } from '@/providers'
+import type { ProviderResponse } from '@/providers/types'
+import { calculateCost, getApiKey, getProviderFromModel } from '@/providers/utils'
 import type { SerializedBlock } from '@/serializer/types'
 import type { PathTracker } from '../../path'
 import type { BlockHandler, ExecutionContext } from '../../types'
@@ -25,7 +27,8 @@ export class RouterBlockHandler implements BlockHandler {
   async execute(
     block: SerializedBlock,
     inputs: Record<string, any>,
-    context: ExecutionContext
+    context: ExecutionContext,
+    signal?: AbortSignal
   ): Promise<BlockOutput> {
     const targetBlocks = this.getTargetBlocks(block, context)
 
@@ -39,9 +42,6 @@ export class RouterBlockHandler implements BlockHandler {
     const providerId = getProviderFromModel(routerConfig.model)
 
     try {
-      const baseUrl = env.NEXT_PUBLIC_APP_URL || ''
-      const url = new URL('/api/providers', baseUrl)
-
       // Create the provider request with proper message formatting
       const messages = [{ role: 'user', content: routerConfig.prompt }]
       const systemPrompt = generateRouterPrompt(routerConfig.prompt, targetBlocks)
@@ -55,29 +55,16 @@ export class RouterBlockHandler implements BlockHandler {
         workflowId: context.workflowId,
       }
 
-      const response = await fetch(url.toString(), {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(providerRequest),
-      })
-
-      if (!response.ok) {
-        // Try to extract a helpful error message
-        let errorMessage = `Provider API request failed with status ${response.status}`
-        try {
-          const errorData = await response.json()
-          if (errorData.error) {
-            errorMessage = errorData.error
-          }
-        } catch (_e) {
-          // If JSON parsing fails, use the original error message
-        }
-        throw new Error(errorMessage)
-      }
-
-      const result = await response.json()
+      // Recorded and replayed runs call the provider in-process so the response goes through the replay
+      const result = context.replay
+        ? ((await executeProviderRequest(providerId, {
+            ...providerRequest,
+            apiKey: getApiKey(providerId, routerConfig.model, routerConfig.apiKey),
+            abortSignal: signal,
+            blockId: context.currentVirtualBlockId || block.id,
+            replay: context.replay,
+          })) as ProviderResponse)
+        : await this.fetchProviderResponse(providerRequest, signal)
 
       const chosenBlockId = result.content.trim().toLowerCase()
       const chosenBlock = targetBlocks?.find((b) => b.id === chosenBlockId)
@@ -127,6 +114,45 @@ export class RouterBlockHandler implements BlockHandler {
     }
   }
 
+  /**
+   * Sends the provider request through the providers API route.
+   *
+   * @param providerRequest - Request body for the providers API
+   * @param signal - Aborts the request when the run is cancelled
+   * @returns The provider response
+   * @throws Error with the API's error message if the request fails
+   */
+  private async fetchProviderResponse(
+    providerRequest: Record<string, any>,
+    signal?: AbortSignal
+  ): Promise<ProviderResponse> {
+    const url = new URL('/api/providers', env.NEXT_PUBLIC_APP_URL || '')
+    const response = await fetch(url.toString(), {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(providerRequest),
+      signal,
+    })
+
+    if (!response.ok) {
+      // Try to extract a helpful error message
+      let errorMessage = `Provider API request failed with status ${response.status}`
+      try {
+        const errorData = await response.json()
+        if (errorData.error) {
+          errorMessage = errorData.error
+        }
+      } catch (_e) {
+        // If JSON parsing fails, use the original error message
+      }
+      throw new Error(errorMessage)
+    }
+
+    return response.json()
+  }
+
   /**
    * Gets all potential target blocks for this router.
    *
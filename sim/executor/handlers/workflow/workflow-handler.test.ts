@@ -249,6 +249,24 @@ describe('WorkflowBlockHandler', () => {
       })
     })
 
+    it('should fail when the child workflow pauses for approvals', () => {
+      const childResult = {
+        success: true,
+        output: { response: { status: 'pending' } },
+        metadata: { isPaused: true, pendingApprovals: [{ blockId: 'approval-1' }] },
+      }
+
+      const result = (handler as any).mapChildOutputToParent(
+        childResult,
+        'child-id',
+        'Child Workflow',
+        100
+      )
+
+      expect(result.response.success).toBe(false)
+      expect(result.response.error).toContain('Approval blocks are not supported')
+    })
+
     it('should handle nested response structures', () => {
       const childResult = {
         response: { response: { nested: 'data' } },
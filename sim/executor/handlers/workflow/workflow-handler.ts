@@ -26,7 +26,8 @@ export class WorkflowBlockHandler implements BlockHandler {
   async execute(
     block: SerializedBlock,
     inputs: Record<string, any>,
-    context: ExecutionContext
+    context: ExecutionContext,
+    signal?: AbortSignal
   ): Promise<BlockOutput | StreamingExecution> {
     logger.info(`Executing workflow block: ${block.id}`)
 
@@ -86,6 +87,8 @@ export class WorkflowBlockHandler implements BlockHandler {
         workflow: childWorkflow.serializedState,
         workflowInput: childWorkflowInput,
         envVarValues: context.environmentVariables,
+        // Cancelling the parent run or timing out this block also stops the child workflow
+        contextExtensions: { abortSignal: signal },
       })
 
       const startTime = performance.now()
@@ -182,6 +185,18 @@ export class WorkflowBlockHandler implements BlockHandler {
   ): BlockOutput {
     const success = childResult.success !== false
 
+    // The child run has no run record of its own to resume, so it can't wait for approvals
+    if (childResult.metadata?.isPaused) {
+      logger.warn(`Child workflow ${childWorkflowName} paused at an approval block`)
+      return {
+        response: {
+          success: false,
+          childWorkflowName,
+          error: 'Approval blocks are not supported in workflows run by a workflow block',
+        },
+      } as Record<string, any>
+    }
+
     // If child workflow failed, return minimal output
     if (!success) {
       logger.warn(`Child workflow ${childWorkflowName} failed`)
@@ -287,6 +287,37 @@ describe('Executor', () => {
       expect(createContextSpy).toHaveBeenCalled()
       const contextArg = createContextSpy.mock.calls[0][2] // third argument is startTime, context is created internally
     })
+
+    test('should emit progress events through onEvent', async () => {
+      const workflow = createMinimalWorkflow()
+      const onEvent = vi.fn()
+
+      const executor = new Executor({ workflow, contextExtensions: { onEvent } })
+      const result = await executor.execute('test-workflow-id')
+
+      const events = onEvent.mock.calls.map(([event]) => event)
+      expect(events[0]).toMatchObject({ type: 'run_started', workflowId: 'test-workflow-id' })
+      expect(events[events.length - 1]).toMatchObject({
+        type: 'run_finished',
+        success: 'success' in result && result.success,
+      })
+      expect(events.every((event) => typeof event.timestamp === 'string')).toBe(true)
+    })
+
+    test('should use mocked block outputs instead of running their handlers', async () => {
+      const workflow = createMinimalWorkflow()
+      const mockedOutput = { response: { content: 'mocked' } }
+
+      const executor = new Executor({
+        workflow,
+        contextExtensions: { blockMocks: { block1: mockedOutput } },
+      })
+      const result = await executor.execute('test-workflow-id')
+
+      const executionResult = 'execution' in result ? result.execution : result
+      const blockLog = executionResult.logs?.find((log) => log.blockId === 'block1')
+      expect(blockLog?.output).toEqual(mockedOutput)
+    })
   })
 
   /**
@@ -7,6 +7,7 @@ import { useGeneralStore } from '@/stores/settings/general/store'
 import {
   AgentBlockHandler,
   ApiBlockHandler,
+  ApprovalBlockHandler,
   ConditionBlockHandler,
   EvaluatorBlockHandler,
   FunctionBlockHandler,
@@ -17,14 +18,31 @@ import {
   RouterBlockHandler,
   WorkflowBlockHandler,
 } from './handlers/index'
+import {
+  createLinkedAbortController,
+  ExecutionAbortedError,
+  getAbortError,
+  getWorkflowTimeoutMs,
+  runWithAbortSignal,
+} from './cancellation'
+import {
+  applyExecutionCheckpoint,
+  createExecutionCheckpoint,
+  type ExecutionCheckpoint,
+} from './checkpoint'
 import { LoopManager } from './loops'
 import { ParallelManager } from './parallels'
 import { PathTracker } from './path'
+import type { ExecutionReplay } from './replay'
 import { InputResolver } from './resolver'
+import { executeWithRetryPolicy, getBlockTimeoutMs, isRetryPolicyApplicable } from './retry'
 import type {
+  ApprovalDecision,
   BlockHandler,
   BlockLog,
   ExecutionContext,
+  ExecutionEvent,
+  ExecutionEventData,
   ExecutionResult,
   NormalizedBlockOutput,
   StreamingExecution,
@@ -67,6 +85,8 @@ export class Executor {
   private isDebugging = false
   private contextExtensions: any = {}
   private actualWorkflow: SerializedWorkflow
+  private resumeFrom?: ExecutionCheckpoint
+  private abortController?: AbortController
 
   constructor(
     private workflowParam:
@@ -82,7 +102,14 @@ export class Executor {
             selectedOutputIds?: string[]
             edges?: Array<{ source: string; target: string }>
             onStream?: (streamingExecution: StreamingExecution) => Promise<void>
+            onCheckpoint?: (checkpoint: ExecutionCheckpoint) => Promise<void>
+            approvalDecisions?: Record<string, ApprovalDecision>
+            abortSignal?: AbortSignal
+            onEvent?: (event: ExecutionEvent) => void
+            blockMocks?: Record<string, BlockOutput>
+            replay?: ExecutionReplay
           }
+          resumeFrom?: ExecutionCheckpoint
         },
     private initialBlockStates: Record<string, BlockOutput> = {},
     private environmentVariables: Record<string, string> = {},
@@ -97,6 +124,7 @@ export class Executor {
       this.environmentVariables = options.envVarValues || {}
       this.workflowInput = options.workflowInput || {}
       this.workflowVariables = options.workflowVariables || {}
+      this.resumeFrom = options.resumeFrom
 
       // Store context extensions for streaming and output selection
       if (options.contextExtensions) {
@@ -145,6 +173,7 @@ export class Executor {
       new LoopBlockHandler(this.resolver),
       new ParallelBlockHandler(this.resolver),
       new ResponseBlockHandler(),
+      new ApprovalBlockHandler(),
       new WorkflowBlockHandler(),
       new GenericBlockHandler(),
     ]
@@ -175,6 +204,24 @@ export class Executor {
 
     const context = this.createExecutionContext(workflowId, startTime)
 
+    // Continue from the last completed layer when resuming a checkpointed run
+    if (this.resumeFrom) {
+      applyExecutionCheckpoint(context, this.resumeFrom)
+      logger.info(`Resuming workflow ${workflowId} from layer ${this.resumeFrom.layer}`)
+    }
+
+    // Aborted when the caller cancels the run or the workflow's time limit is reached
+    const timeoutMs = getWorkflowTimeoutMs(this.actualWorkflow)
+    const { controller: abortController, dispose: disposeAbortController } =
+      createLinkedAbortController({
+        signal: this.contextExtensions.abortSignal,
+        timeoutMs,
+        timeoutMessage: `Workflow execution exceeded its timeout of ${Math.round((timeoutMs || 0) / 1000)}s`,
+      })
+    this.abortController = abortController
+
+    this.emitEvent({ type: 'run_started', workflowId })
+
     try {
       setIsExecuting(true)
 
@@ -183,10 +230,14 @@ export class Executor {
       }
 
       let hasMoreLayers = true
-      let iteration = 0
+      let iteration = this.resumeFrom?.layer ?? 0
       const maxIterations = 100 // Safety limit for infinite loops
 
       while (hasMoreLayers && iteration < maxIterations) {
+        if (abortController.signal.aborted) {
+          return this.createAbortedResult(context, finalOutput, startTime)
+        }
+
         const nextLayer = this.getNextExecutionLayer(context)
 
         if (this.isDebugging) {
@@ -302,6 +353,40 @@ export class Executor {
             // Process parallel iterations - similar to loops but conceptually for parallel execution
             await this.parallelManager.processParallelIterations(context)
 
+            // Persist the completed layer so the run can be resumed from here
+            await this.saveCheckpoint(context, iteration + 1)
+
+            // Suspend the run until every requested approval has a decision
+            if (context.pendingApprovals && context.pendingApprovals.size > 0) {
+              logger.info(
+                `Pausing workflow ${workflowId} for ${context.pendingApprovals.size} pending approval(s)`
+              )
+
+              this.emitEvent({
+                type: 'run_finished',
+                status: 'paused',
+                success: true,
+                output: finalOutput,
+                durationMs: Date.now() - startTime.getTime(),
+              })
+
+              return {
+                success: true,
+                output: finalOutput,
+                metadata: {
+                  duration: Date.now() - startTime.getTime(),
+                  startTime: context.metadata.startTime!,
+                  isPaused: true,
+                  pendingApprovals: Array.from(context.pendingApprovals.values()),
+                  workflowConnections: this.actualWorkflow.connections.map((conn: any) => ({
+                    source: conn.source,
+                    target: conn.target,
+                  })),
+                },
+                logs: context.blockLogs,
+              }
+            }
+
             // Continue execution for any newly activated paths
             // Only stop execution if there are no more blocks to execute
             const updatedNextLayer = this.getNextExecutionLayer(context)
@@ -314,6 +399,11 @@ export class Executor {
         iteration++
       }
 
+      // The last layer may have finished by failing its aborted blocks through their error paths
+      if (abortController.signal.aborted) {
+        return this.createAbortedResult(context, finalOutput, startTime)
+      }
+
       const endTime = new Date()
       context.metadata.endTime = endTime.toISOString()
       const duration = endTime.getTime() - startTime.getTime()
@@ -328,6 +418,14 @@ export class Executor {
         success: true,
       })
 
+      this.emitEvent({
+        type: 'run_finished',
+        status: 'completed',
+        success: true,
+        output: finalOutput,
+        durationMs: duration,
+      })
+
       return {
         success: true,
         output: finalOutput,
@@ -343,6 +441,10 @@ export class Executor {
         logs: context.blockLogs,
       }
     } catch (error: any) {
+      if (abortController.signal.aborted) {
+        return this.createAbortedResult(context, finalOutput, startTime)
+      }
+
       logger.error('Workflow execution failed:', this.sanitizeError(error))
 
       // Track workflow execution failure
@@ -354,6 +456,15 @@ export class Executor {
         blockLogs: context.blockLogs.length,
       })
 
+      this.emitEvent({
+        type: 'run_finished',
+        status: 'failed',
+        success: false,
+        output: finalOutput,
+        error: this.extractErrorMessage(error),
+        durationMs: Date.now() - startTime.getTime(),
+      })
+
       return {
         success: false,
         output: finalOutput,
@@ -361,12 +472,73 @@ export class Executor {
         logs: context.blockLogs,
       }
     } finally {
+      disposeAbortController()
       if (!this.isDebugging) {
         reset()
       }
     }
   }
 
+  /**
+   * Cancels a running execution. Blocks that are still running are aborted and no further
+   * layers are executed; the result contains the logs of every block that ran.
+   */
+  cancel(): void {
+    this.abortController?.abort(
+      new ExecutionAbortedError('cancelled', 'Workflow execution was cancelled')
+    )
+  }
+
+  /**
+   * Builds the result of an execution that was cancelled or ran out of time,
+   * keeping the logs of the blocks that ran before it stopped.
+   */
+  private createAbortedResult(
+    context: ExecutionContext,
+    finalOutput: NormalizedBlockOutput,
+    startTime: Date
+  ): ExecutionResult {
+    const abortError = getAbortError(this.abortController!.signal)
+    const endTime = new Date()
+    context.metadata.endTime = endTime.toISOString()
+
+    logger.warn(`Workflow ${context.workflowId} stopped early: ${abortError.message}`)
+
+    trackWorkflowTelemetry('workflow_execution_aborted', {
+      workflowId: context.workflowId,
+      duration: endTime.getTime() - startTime.getTime(),
+      reason: abortError.reason,
+      executedBlockCount: context.executedBlocks.size,
+    })
+
+    this.emitEvent({
+      type: 'run_finished',
+      status: abortError.reason,
+      success: false,
+      output: finalOutput,
+      error: abortError.message,
+      durationMs: endTime.getTime() - startTime.getTime(),
+    })
+
+    return {
+      success: false,
+      output: finalOutput,
+      error: abortError.message,
+      metadata: {
+        duration: endTime.getTime() - startTime.getTime(),
+        startTime: context.metadata.startTime!,
+        endTime: context.metadata.endTime,
+        isCancelled: abortError.reason === 'cancelled',
+        abortReason: abortError.reason,
+        workflowConnections: this.actualWorkflow.connections.map((conn: any) => ({
+          source: conn.source,
+          target: conn.target,
+        })),
+      },
+      logs: context.blockLogs,
+    }
+  }
+
   /**
    * Continues execution in debug mode from the current state.
    *
@@ -445,6 +617,50 @@ export class Executor {
     }
   }
 
+  /**
+   * Passes a checkpoint of the current context to the onCheckpoint extension, if registered.
+   * Checkpoint failures are logged but never interrupt the execution.
+   *
+   * @param context - Current execution context
+   * @param layer - Number of execution layers completed so far
+   */
+  private async saveCheckpoint(context: ExecutionContext, layer: number): Promise<void> {
+    const onCheckpoint = this.contextExtensions.onCheckpoint
+    if (!onCheckpoint) {
+      return
+    }
+
+    try {
+      const checkpoint = createExecutionCheckpoint(
+        context,
+        layer,
+        new Set(Object.keys(this.initialBlockStates))
+      )
+      await onCheckpoint(checkpoint)
+    } catch (error: any) {
+      logger.error('Failed to save execution checkpoint:', this.sanitizeError(error))
+    }
+  }
+
+  /**
+   * Passes a progress event to the onEvent extension, if registered.
+   * Listener errors are logged but never interrupt the execution.
+   *
+   * @param event - Event to emit, timestamped here
+   */
+  private emitEvent(event: ExecutionEventData): void {
+    const onEvent = this.contextExtensions.onEvent
+    if (!onEvent) {
+      return
+    }
+
+    try {
+      onEvent({ ...event, timestamp: new Date().toISOString() })
+    } catch (error: any) {
+      logger.error('Error in onEvent callback:', this.sanitizeError(error))
+    }
+  }
+
   /**
    * Validates that the workflow meets requirements for execution.
    * Checks for starter block, connections, and loop configurations.
@@ -538,6 +754,9 @@ export class Executor {
       selectedOutputIds: this.contextExtensions.selectedOutputIds || [],
       edges: this.contextExtensions.edges || [],
       onStream: this.contextExtensions.onStream,
+      approvalDecisions: new Map(Object.entries(this.contextExtensions.approvalDecisions || {})),
+      pendingApprovals: new Map(),
+      replay: this.contextExtensions.replay,
     }
 
     Object.entries(this.initialBlockStates).forEach(([blockId, output]) => {
@@ -1049,11 +1268,16 @@ export class Executor {
         blockIds.map((blockId) => this.executeBlock(blockId, context))
       )
 
-      blockIds.forEach((blockId) => {
+      // Blocks waiting on an approval stay unexecuted so they run again once a decision arrives
+      const completedBlockIds = blockIds.filter(
+        (blockId) => !context.pendingApprovals?.has(blockId)
+      )
+
+      completedBlockIds.forEach((blockId) => {
         context.executedBlocks.add(blockId)
       })
 
-      this.pathTracker.updateExecutionPaths(blockIds, context)
+      this.pathTracker.updateExecutionPaths(completedBlockIds, context)
 
       return results
     } catch (error) {
@@ -1119,6 +1343,13 @@ export class Executor {
       blockLog.blockName = `${block.metadata?.name || ''} (iteration ${parallelInfo.iterationIndex + 1})`
     }
 
+    this.emitEvent({
+      type: 'block_started',
+      blockId: blockLog.blockId,
+      blockName: blockLog.blockName,
+      blockType: blockLog.blockType,
+    })
+
     const addConsole = useConsoleStore.getState().addConsole
     const { setActiveBlocks } = useExecutionStore.getState()
 
@@ -1160,15 +1391,23 @@ export class Executor {
         startTime: new Date().toISOString(),
       })
 
+      // The loop handler advances this counter only when it starts a new iteration
+      const iterationsBefore = context.loopIterations.get(block.id)
+
       // Find the appropriate handler
       const handler = this.blockHandlers.find((h) => h.canHandle(block))
       if (!handler) {
         throw new Error(`No handler found for block type: ${block.metadata?.id}`)
       }
 
-      // Execute the block
+      // Execute the block, retrying it if it has a retry policy. Test suites can
+      // replace a block's output so it never calls its tools or provider.
       const startTime = performance.now()
-      const rawOutput = await handler.execute(block, inputs, context)
+      const mockedOutput: BlockOutput | undefined = this.contextExtensions.blockMocks?.[block.id]
+      const rawOutput =
+        mockedOutput !== undefined
+          ? structuredClone(mockedOutput)
+          : await this.executeHandler(handler, block, blockId, inputs, context, blockLog)
       const executionTime = performance.now() - startTime
 
       // Remove this block from active blocks immediately after execution
@@ -1195,6 +1434,11 @@ export class Executor {
         return { activeBlockIds: updatedActiveBlockIds }
       })
 
+      // The block requested an approval, so it has not produced its output yet
+      if (context.pendingApprovals?.has(blockId)) {
+        return rawOutput as NormalizedBlockOutput
+      }
+
       if (
         rawOutput &&
         typeof rawOutput === 'object' &&
@@ -1259,6 +1503,12 @@ export class Executor {
           success: true,
         })
 
+        this.emitBlockCompleted(
+          blockLog,
+          output,
+          context.loopIterations.get(block.id) !== iterationsBefore
+        )
+
         return streamingExec
       }
 
@@ -1322,6 +1572,12 @@ export class Executor {
         success: true,
       })
 
+      this.emitBlockCompleted(
+        blockLog,
+        output,
+        context.loopIterations.get(block.id) !== iterationsBefore
+      )
+
       return output
     } catch (error: any) {
       // Remove this block from active blocks if there's an error
@@ -1348,6 +1604,9 @@ export class Executor {
       })
 
       blockLog.success = false
+      if (error.attempts) {
+        blockLog.attempts = error.attempts
+      }
       blockLog.error =
         error.message ||
         `Error executing ${block.metadata?.id || 'unknown'} block: ${String(error)}`
@@ -1358,6 +1617,15 @@ export class Executor {
       // Log the error even if we'll continue execution through error path
       context.blockLogs.push(blockLog)
 
+      this.emitEvent({
+        type: 'block_error',
+        blockId: blockLog.blockId,
+        blockName: blockLog.blockName,
+        blockType: blockLog.blockType,
+        error: this.extractErrorMessage(error),
+        durationMs: blockLog.durationMs,
+      })
+
       // Skip console logging for infrastructure blocks like loops and parallels
       if (block.metadata?.id !== 'loop' && block.metadata?.id !== 'parallel') {
         addConsole({
@@ -1378,8 +1646,10 @@ export class Executor {
         })
       }
 
-      // Check for error connections and follow them if they exist
-      const hasErrorPath = this.activateErrorPath(actualBlockId, context)
+      // Check for error connections and follow them if they exist,
+      // unless the whole run was aborted and nothing else should execute
+      const hasErrorPath =
+        !this.abortController?.signal.aborted && this.activateErrorPath(actualBlockId, context)
 
       // Log the error for visibility
       logger.error(
@@ -1440,6 +1710,39 @@ export class Executor {
     }
   }
 
+  /**
+   * Emits the completion event of a block, plus an iteration event when a loop block
+   * starts its next iteration.
+   *
+   * @param blockLog - Log of the completed block
+   * @param output - Normalized output of the block
+   * @param startedIteration - Whether a loop block started a new iteration, rather than
+   * reporting that it reached its maximum
+   */
+  private emitBlockCompleted(
+    blockLog: BlockLog,
+    output: NormalizedBlockOutput,
+    startedIteration: boolean
+  ): void {
+    this.emitEvent({
+      type: 'block_completed',
+      blockId: blockLog.blockId,
+      blockName: blockLog.blockName,
+      blockType: blockLog.blockType,
+      output,
+      durationMs: blockLog.durationMs,
+    })
+
+    if (blockLog.blockType === 'loop' && startedIteration) {
+      this.emitEvent({
+        type: 'loop_iteration',
+        loopId: blockLog.blockId,
+        iteration: output.response.currentIteration,
+        maxIterations: output.response.maxIterations,
+      })
+    }
+  }
+
   /**
    * Activates error paths from a block that had an error.
    * Checks for connections from the block's "error" handle and adds them to the active execution path.
@@ -1632,6 +1935,56 @@ export class Executor {
     }
   }
 
+  /**
+   * Runs a block handler within the block's time limit, applying its retry policy when it
+   * has one. Every attempt is recorded on the block log.
+   */
+  private async executeHandler(
+    handler: BlockHandler,
+    block: SerializedBlock,
+    blockId: string,
+    inputs: Record<string, any>,
+    context: ExecutionContext,
+    blockLog: BlockLog
+  ): Promise<BlockOutput | StreamingExecution> {
+    const runSignal = this.abortController?.signal
+    const timeoutMs = getBlockTimeoutMs(block.metadata?.id, block.retryPolicy)
+
+    // Each attempt gets its own signal so a block timeout never aborts the rest of the run
+    const executeAttempt = () =>
+      runWithAbortSignal((signal) => handler.execute(block, inputs, context, signal), {
+        signal: runSignal,
+        timeoutMs,
+        timeoutMessage: `Block ${block.metadata?.name || blockId} exceeded its timeout of ${Math.round((timeoutMs || 0) / 1000)}s`,
+      })
+
+    if (!isRetryPolicyApplicable(block.metadata?.id, block.retryPolicy)) {
+      return executeAttempt()
+    }
+
+    const { output, attempts, usedFallback } = await executeWithRetryPolicy(
+      () => {
+        // Other parallel iterations may have run in between, so restore this block's virtual ID
+        if (context.parallelBlockMapping?.has(blockId)) {
+          context.currentVirtualBlockId = blockId
+        }
+        return executeAttempt()
+      },
+      block.retryPolicy,
+      runSignal
+    )
+
+    blockLog.attempts = attempts
+    if (usedFallback) {
+      blockLog.usedFallback = true
+      logger.warn(
+        `Block ${block.metadata?.name || blockId} failed after ${attempts.length} attempts, using fallback output`
+      )
+    }
+
+    return output as BlockOutput | StreamingExecution
+  }
+
   /**
    * Creates a new block log entry with initial values.
    *
@@ -0,0 +1,88 @@
+/**
+ * @vitest-environment node
+ *
+ * Execution Replay Unit Tests
+ *
+ * Tests for recording tool and provider responses during a run and
+ * serving them back in order when the run is replayed.
+ */
+import { describe, expect, test, vi } from 'vitest'
+import { ExecutionReplay } from './replay'
+
+describe('ExecutionReplay', () => {
+  test('should replay recorded responses in call order without calling the service', async () => {
+    const recorder = ExecutionReplay.record()
+    await recorder.run('tool', 'http_request', 'api-1', async () => ({ output: 'first' }))
+    await recorder.run('tool', 'http_request', 'api-1', async () => ({ output: 'second' }))
+    await recorder.run('provider', 'openai', 'agent-1', async () => ({ content: 'Hello' }))
+
+    const replay = ExecutionReplay.replay(JSON.parse(JSON.stringify(recorder.getRecording())))
+    const call = vi.fn()
+
+    expect(await replay.run('provider', 'openai', 'agent-1', call)).toEqual({ content: 'Hello' })
+    expect(await replay.run('tool', 'http_request', 'api-1', call)).toEqual({ output: 'first' })
+    expect(await replay.run('tool', 'http_request', 'api-1', call)).toEqual({ output: 'second' })
+    expect(call).not.toHaveBeenCalled()
+  })
+
+  test('should replay recorded errors', async () => {
+    const recorder = ExecutionReplay.record()
+    await expect(
+      recorder.run('provider', 'openai', 'agent-1', async () => {
+        throw new Error('Rate limit exceeded')
+      })
+    ).rejects.toThrow('Rate limit exceeded')
+
+    const replay = ExecutionReplay.replay(recorder.getRecording())
+    await expect(replay.run('provider', 'openai', 'agent-1', vi.fn())).rejects.toThrow(
+      'Rate limit exceeded'
+    )
+  })
+
+  test('should fail calls that are missing from the recording', async () => {
+    const replay = ExecutionReplay.replay({
+      version: 1,
+      recordedAt: '2025-01-01T00:00:00.000Z',
+      calls: [],
+    })
+    const call = vi.fn()
+
+    await expect(replay.run('tool', 'slack_message', 'slack-1', call)).rejects.toThrow(
+      'No recorded response for tool slack_message in block slack-1 (call 1)'
+    )
+    expect(call).not.toHaveBeenCalled()
+  })
+
+  test('should not record responses that cannot be stored', async () => {
+    const recorder = ExecutionReplay.record()
+    const stream = new ReadableStream()
+
+    const response = await recorder.run(
+      'provider',
+      'openai',
+      'agent-1',
+      async () => stream,
+      (result) => !(result instanceof ReadableStream)
+    )
+
+    expect(response).toBe(stream)
+    expect(recorder.getRecording().calls).toHaveLength(0)
+  })
+
+  test('should keep recording after the calls of a checkpoint', async () => {
+    const recorder = ExecutionReplay.record()
+    await recorder.run('tool', 'http_request', 'api-1', async () => ({ output: 'first' }))
+    await recorder.run('provider', 'openai', 'agent-1', async () => ({ content: 'Failed run' }))
+
+    // The agent call came after the checkpoint, so it is made again when the run resumes
+    const resumed = ExecutionReplay.continue(recorder.getRecording(), 1)
+    await resumed.run('tool', 'http_request', 'api-1', async () => ({ output: 'second' }))
+    await resumed.run('provider', 'openai', 'agent-1', async () => ({ content: 'Resumed run' }))
+
+    expect(resumed.getRecording().calls).toEqual([
+      expect.objectContaining({ id: 'http_request', sequence: 0, response: { output: 'first' } }),
+      expect.objectContaining({ id: 'http_request', sequence: 1, response: { output: 'second' } }),
+      expect.objectContaining({ id: 'openai', sequence: 0, response: { content: 'Resumed run' } }),
+    ])
+  })
+})
@@ -0,0 +1,170 @@
+import { createLogger } from '@/lib/logs/console-logger'
+
+const logger = createLogger('ExecutionReplay')
+
+// Tools that run the workflow's own code rather than calling an external service.
+// They always execute, so edited Function blocks take effect during a replay.
+const LIVE_TOOL_IDS = new Set(['function_execute'])
+
+export type RecordedCallKind = 'tool' | 'provider'
+
+function getSequenceKey(kind: RecordedCallKind, id: string, blockId: string | undefined): string {
+  return `${kind}:${id}:${blockId ?? ''}`
+}
+
+/**
+ * Response of a single tool or provider call made during a recorded run.
+ * Calls are matched on replay by kind, tool or provider ID, block and the
+ * position among that block's calls, so loop iterations replay in order. Parallel
+ * iterations are recorded under their virtual block IDs and never share calls.
+ */
+export interface RecordedCall {
+  kind: RecordedCallKind
+  id: string // Tool ID or provider ID
+  blockId?: string // Block that made the call, or its virtual ID inside a parallel
+  sequence: number // Zero-based position among the calls with the same kind, ID and block
+  response?: any
+  error?: string // Set when the call threw instead of returning
+}
+
+/**
+ * JSON-safe recording of the tool and provider I/O of a run.
+ */
+export interface ExecutionRecording {
+  version: 1
+  recordedAt: string // ISO timestamp when the recording started
+  calls: RecordedCall[]
+}
+
+/**
+ * Records the tool and provider responses of a run, or serves them back to a later run.
+ * An instance belongs to a single execution and is passed to executeTool through the
+ * params' _context and to executeProviderRequest on the request.
+ */
+export class ExecutionReplay {
+  private readonly recording: ExecutionRecording
+  private readonly sequences = new Map<string, number>()
+
+  private constructor(
+    readonly mode: 'record' | 'replay',
+    recording?: ExecutionRecording
+  ) {
+    this.recording = recording ?? {
+      version: 1,
+      recordedAt: new Date().toISOString(),
+      calls: [],
+    }
+  }
+
+  /**
+   * Starts an empty recording.
+   */
+  static record(): ExecutionReplay {
+    return new ExecutionReplay('record')
+  }
+
+  /**
+   * Keeps recording into an earlier recording, e.g. when a run resumes from a checkpoint.
+   * Calls after the first callCount are dropped, since the blocks that made them run again.
+   * Later calls of a block continue the sequence of its earlier ones.
+   *
+   * @param recording - Recording saved so far
+   * @param callCount - Number of calls recorded when the checkpoint was taken; all are kept if omitted
+   */
+  static continue(recording: ExecutionRecording, callCount?: number): ExecutionReplay {
+    const replay = new ExecutionReplay('record', {
+      ...recording,
+      calls: recording.calls.slice(0, callCount ?? recording.calls.length),
+    })
+    for (const call of replay.recording.calls) {
+      const key = getSequenceKey(call.kind, call.id, call.blockId)
+      replay.sequences.set(key, Math.max(replay.sequences.get(key) ?? 0, call.sequence + 1))
+    }
+    return replay
+  }
+
+  /**
+   * Serves the responses of an earlier recording. Calls missing from it fail
+   * instead of reaching the real service.
+   */
+  static replay(recording: ExecutionRecording): ExecutionReplay {
+    return new ExecutionReplay('replay', recording)
+  }
+
+  /**
+   * Whether calls to a tool go through the recording.
+   */
+  static isReplayableTool(toolId: string): boolean {
+    return !LIVE_TOOL_IDS.has(toolId)
+  }
+
+  getRecording(): ExecutionRecording {
+    return this.recording
+  }
+
+  /**
+   * Makes a call through the recording. In record mode the call runs and its response is
+   * stored; in replay mode the stored response is returned without running the call.
+   *
+   * @param kind - Whether the call goes to a tool or a provider
+   * @param id - Tool ID or provider ID
+   * @param blockId - Block that makes the call
+   * @param call - Makes the real call
+   * @param isRecordable - Returns false for responses that cannot be stored, e.g. streams
+   */
+  async run<T>(
+    kind: RecordedCallKind,
+    id: string,
+    blockId: string | undefined,
+    call: () => Promise<T>,
+    isRecordable: (response: T) => boolean = () => true
+  ): Promise<T> {
+    const key = getSequenceKey(kind, id, blockId)
+    const sequence = this.sequences.get(key) ?? 0
+    this.sequences.set(key, sequence + 1)
+
+    if (this.mode === 'replay') {
+      const recorded = this.recording.calls.find(
+        (entry) =>
+          entry.kind === kind &&
+          entry.id === id &&
+          entry.blockId === blockId &&
+          entry.sequence === sequence
+      )
+      if (!recorded) {
+        throw new Error(
+          `No recorded response for ${kind} ${id}${blockId ? ` in block ${blockId}` : ''} (call ${sequence + 1})`
+        )
+      }
+      if (recorded.error !== undefined) {
+        throw new Error(recorded.error)
+      }
+      return structuredClone(recorded.response) as T
+    }
+
+    try {
+      const response = await call()
+      if (isRecordable(response)) {
+        this.recording.calls.push({
+          kind,
+          id,
+          blockId,
+          sequence,
+          response: JSON.parse(JSON.stringify(response ?? null)),
+        })
+      } else {
+        logger.warn(`Response of ${kind} ${id} cannot be recorded and will be missing on replay`)
+      }
+      return response
+    } catch (error) {
+      this.recording.calls.push({
+        kind,
+        id,
+        blockId,
+        sequence,
+        error: error instanceof Error ? error.message : String(error),
+      })
+      throw error
+    }
+  }
+}
@@ -0,0 +1,110 @@
+/**
+ * @vitest-environment node
+ *
+ * Block Retry Policy Unit Tests
+ *
+ * Tests for matching retryable errors, recording attempts and falling back
+ * to a static output when every attempt fails.
+ */
+import { describe, expect, test, vi } from 'vitest'
+import type { BlockRetryPolicy } from '@/stores/workflows/workflow/types'
+import { executeWithRetryPolicy, isRetryPolicyApplicable, matchesRetryableError } from './retry'
+
+vi.mock('@/lib/logs/console-logger', () => ({
+  createLogger: vi.fn(() => ({
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  })),
+}))
+
+const httpError = (status: number, message = `Request failed (Status: ${status})`) =>
+  Object.assign(new Error(message), { status })
+
+const policy = (overrides: Partial<BlockRetryPolicy> = {}): BlockRetryPolicy => ({
+  maxRetries: 2,
+  backoff: 'fixed',
+  initialDelayMs: 0,
+  ...overrides,
+})
+
+describe('block retry policies', () => {
+  test('should match status codes, status classes and message fragments', () => {
+    expect(matchesRetryableError(httpError(429), ['429'])).toBe(true)
+    expect(matchesRetryableError(httpError(503), ['5xx'])).toBe(true)
+    expect(matchesRetryableError(httpError(404), ['429', '5xx'])).toBe(false)
+    expect(matchesRetryableError(new Error('Socket Timeout'), ['timeout'])).toBe(true)
+    expect(matchesRetryableError(new Error('API error (Status: 502)'), ['5xx'])).toBe(true)
+  })
+
+  test('should retry rate limits and server errors by default', () => {
+    expect(matchesRetryableError(httpError(429))).toBe(true)
+    expect(matchesRetryableError(httpError(500))).toBe(true)
+    expect(matchesRetryableError(httpError(400))).toBe(false)
+  })
+
+  test('should not apply to blocks that must only run once', () => {
+    expect(isRetryPolicyApplicable('api', policy())).toBe(true)
+    expect(isRetryPolicyApplicable('loop', policy())).toBe(false)
+    expect(isRetryPolicyApplicable('approval', policy())).toBe(false)
+    expect(isRetryPolicyApplicable('api', policy({ maxRetries: 0 }))).toBe(false)
+    expect(isRetryPolicyApplicable('api', undefined)).toBe(false)
+  })
+
+  test('should record every attempt until the block succeeds', async () => {
+    const operation = vi
+      .fn()
+      .mockRejectedValueOnce(httpError(503))
+      .mockResolvedValueOnce({ response: { data: 'ok' } })
+
+    const result = await executeWithRetryPolicy(operation, policy())
+
+    expect(result.output).toEqual({ response: { data: 'ok' } })
+    expect(result.usedFallback).toBe(false)
+    expect(result.attempts.map((attempt) => attempt.success)).toEqual([false, true])
+    expect(result.attempts[0].error).toContain('Status: 503')
+  })
+
+  test('should stop on errors that are not retryable', async () => {
+    const operation = vi.fn().mockRejectedValue(httpError(400))
+
+    await expect(executeWithRetryPolicy(operation, policy())).rejects.toMatchObject({
+      attempts: [expect.objectContaining({ attempt: 1, success: false })],
+    })
+    expect(operation).toHaveBeenCalledTimes(1)
+  })
+
+  test('should return the fallback output when every attempt fails', async () => {
+    const operation = vi.fn().mockRejectedValue(httpError(500))
+
+    const result = await executeWithRetryPolicy(
+      operation,
+      policy({ fallbackOutput: { content: 'Service unavailable' } })
+    )
+
+    expect(operation).toHaveBeenCalledTimes(3)
+    expect(result.usedFallback).toBe(true)
+    expect(result.output).toEqual({ response: { content: 'Service unavailable' } })
+    expect(result.attempts).toHaveLength(3)
+  })
+
+  test('should stop waiting for the next attempt once the run is aborted', async () => {
+    const controller = new AbortController()
+    const operation = vi.fn().mockRejectedValue(httpError(503))
+
+    const start = Date.now()
+    const result = executeWithRetryPolicy(
+      operation,
+      policy({ initialDelayMs: 60000, fallbackOutput: { content: 'unused' } }),
+      controller.signal
+    )
+    setTimeout(() => controller.abort(), 10)
+
+    await expect(result).rejects.toMatchObject({
+      attempts: [expect.objectContaining({ attempt: 1 })],
+    })
+    expect(operation).toHaveBeenCalledTimes(1)
+    expect(Date.now() - start).toBeLessThan(5000)
+  })
+})
@@ -0,0 +1,143 @@
+import { isRetryableError, retryWithExponentialBackoff } from '@/lib/documents/utils'
+import type { BlockRetryPolicy } from '@/stores/workflows/workflow/types'
+import type { BlockAttempt } from './types'
+
+// Block types whose handlers mutate execution state and must never run twice
+const NON_RETRYABLE_BLOCK_TYPES = new Set(['starter', 'loop', 'parallel', 'approval'])
+
+const DEFAULT_MAX_DELAY_MS = 30000
+
+export interface RetryExecutionResult<T> {
+  output: T
+  attempts: BlockAttempt[]
+  usedFallback: boolean
+}
+
+/**
+ * Whether a retry policy applies to a block of the given type.
+ */
+export function isRetryPolicyApplicable(
+  blockType: string | undefined,
+  policy: BlockRetryPolicy | undefined
+): policy is BlockRetryPolicy {
+  if (!policy || NON_RETRYABLE_BLOCK_TYPES.has(blockType || '')) {
+    return false
+  }
+  return policy.maxRetries > 0 || policy.fallbackOutput !== undefined
+}
+
+/**
+ * Time limit for each attempt at a block, if its policy sets one.
+ */
+export function getBlockTimeoutMs(
+  blockType: string | undefined,
+  policy: BlockRetryPolicy | undefined
+): number | undefined {
+  if (
+    !policy?.timeoutMs ||
+    policy.timeoutMs <= 0 ||
+    NON_RETRYABLE_BLOCK_TYPES.has(blockType || '')
+  ) {
+    return undefined
+  }
+  return policy.timeoutMs
+}
+
+function getErrorStatus(error: any): number | undefined {
+  const status = error?.status ?? error?.output?.status
+  if (typeof status === 'number') {
+    return status
+  }
+
+  const match = typeof error?.message === 'string' && error.message.match(/Status: (\d{3})/)
+  return match ? Number(match[1]) : undefined
+}
+
+/**
+ * Checks an error against the retry-on patterns of a policy.
+ * Patterns are exact status codes ("429"), status classes ("5xx") or case-insensitive
+ * message fragments ("timeout"). Without patterns, rate limits and 5xx errors are retried.
+ */
+export function matchesRetryableError(error: any, retryOn?: string[]): boolean {
+  const status = getErrorStatus(error)
+  const patterns = (retryOn || []).map((pattern) => pattern.trim()).filter(Boolean)
+
+  if (patterns.length === 0) {
+    return (status !== undefined && status >= 500) || isRetryableError(error)
+  }
+
+  const message = String(error?.message || error || '').toLowerCase()
+
+  return patterns.some((pattern) => {
+    if (/^\d{3}$/.test(pattern)) {
+      return status === Number(pattern)
+    }
+    if (/^\dxx$/i.test(pattern)) {
+      return status !== undefined && Math.floor(status / 100) === Number(pattern[0])
+    }
+    return message.includes(pattern.toLowerCase())
+  })
+}
+
+/**
+ * Runs a block operation under its retry policy, recording every attempt.
+ * When all attempts fail and the policy has a fallback output, the fallback is
+ * returned instead of the error. Once the run is aborted, nothing is retried and the
+ * fallback is not used, and a pending backoff delay ends at once.
+ *
+ * @param operation - Executes the block once
+ * @param policy - Retry policy configured on the block
+ * @param signal - Signal of the run the block belongs to
+ * @returns The output, the recorded attempts and whether the fallback was used
+ */
+export async function executeWithRetryPolicy<T>(
+  operation: () => Promise<T>,
+  policy: BlockRetryPolicy,
+  signal?: AbortSignal
+): Promise<RetryExecutionResult<T | Record<string, any>>> {
+  const attempts: BlockAttempt[] = []
+
+  const runAttempt = async () => {
+    const attempt: BlockAttempt = {
+      attempt: attempts.length + 1,
+      startedAt: new Date().toISOString(),
+      endedAt: '',
+      durationMs: 0,
+      success: false,
+    }
+    attempts.push(attempt)
+
+    const start = Date.now()
+    try {
+      const output = await operation()
+      attempt.success = true
+      return output
+    } catch (error: any) {
+      attempt.error = error?.message || String(error)
+      throw error
+    } finally {
+      attempt.durationMs = Date.now() - start
+      attempt.endedAt = new Date().toISOString()
+    }
+  }
+
+  try {
+    const output = await retryWithExponentialBackoff(runAttempt, {
+      maxRetries: Math.max(0, policy.maxRetries),
+      initialDelayMs: policy.initialDelayMs,
+      maxDelayMs: policy.maxDelayMs ?? DEFAULT_MAX_DELAY_MS,
+      backoffStrategy: policy.backoff,
+      retryCondition: (error) => !signal?.aborted && matchesRetryableError(error, policy.retryOn),
+      signal,
+    })
+    return { output, attempts, usedFallback: false }
+  } catch (error) {
+    if (policy.fallbackOutput === undefined || signal?.aborted) {
+      throw Object.assign(error instanceof Error ? error : new Error(String(error)), { attempts })
+    }
+    // Fallbacks are written as the block's response fields unless they are already wrapped
+    const fallback = policy.fallbackOutput
+    const output = 'response' in fallback ? fallback : { response: fallback }
+    return { output, attempts, usedFallback: true }
+  }
+}
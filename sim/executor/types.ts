@@ -1,5 +1,6 @@
 import type { BlockOutput } from '@/blocks/types'
 import type { SerializedBlock, SerializedWorkflow } from '@/serializer/types'
+import type { ExecutionReplay } from './replay'
 
 /**
  * Standardized block output format that ensures compatibility with the execution engine.
@@ -52,6 +53,20 @@ export interface BlockLog {
   output?: any // Output data from successful execution
   input?: any // Input data for the block execution
   error?: string // Error message if execution failed
+  attempts?: BlockAttempt[] // Individual attempts when the block has a retry policy
+  usedFallback?: boolean // Whether the retry policy's fallback output replaced a failure
+}
+
+/**
+ * A single attempt at executing a block under a retry policy.
+ */
+export interface BlockAttempt {
+  attempt: number // 1-based attempt number
+  startedAt: string // ISO timestamp when the attempt started
+  endedAt: string // ISO timestamp when the attempt finished
+  durationMs: number // Duration of the attempt in milliseconds
+  success: boolean // Whether the attempt succeeded
+  error?: string // Error message if the attempt failed
 }
 
 /**
@@ -65,6 +80,39 @@ export interface ExecutionMetadata {
   isDebugSession?: boolean // Whether the workflow is running in debug mode
   context?: ExecutionContext // Runtime context for the workflow
   workflowConnections?: Array<{ source: string; target: string }> // Connections between workflow blocks
+  isPaused?: boolean // Whether the execution is suspended waiting for approvals
+  pendingApprovals?: PendingApproval[] // Approvals the execution is waiting on
+  isCancelled?: boolean // Whether the execution was cancelled before it finished
+  abortReason?: ExecutionAbortReason // Why the execution was stopped early
+}
+
+/**
+ * Why an execution was stopped before it finished: cancelled on request or out of time.
+ */
+export type ExecutionAbortReason = 'cancelled' | 'timeout'
+
+/**
+ * Approval requested by a block that suspends the execution until a person decides.
+ */
+export interface PendingApproval {
+  blockId: string // ID of the approval block (virtual ID inside parallels)
+  blockName?: string // Display name of the approval block
+  data: any // Data submitted for review
+  instructions?: string // Guidance shown to the approver
+  timeoutMinutes?: number // Minutes to wait before the default action is applied
+  defaultAction: 'approve' | 'reject' // Action applied when nobody answers in time
+  requestedAt: string // ISO timestamp when the approval was requested
+}
+
+/**
+ * Decision submitted for a pending approval.
+ */
+export interface ApprovalDecision {
+  action: 'approve' | 'reject' | 'edit'
+  data?: any // Replacement data when the approver edited it
+  comment?: string // Optional note from the approver
+  decidedBy?: string // User who decided, or 'timeout' for default actions
+  decidedAt: string // ISO timestamp of the decision
 }
 
 /**
@@ -141,6 +189,12 @@ export interface ExecutionContext {
 
   workflow?: SerializedWorkflow // Reference to the workflow being executed
 
+  // Human-in-the-loop approvals
+  approvalDecisions?: Map<string, ApprovalDecision> // Decisions supplied when resuming a paused run
+  pendingApprovals?: Map<string, PendingApproval> // Approvals requested during the current layer
+
+  replay?: ExecutionReplay // Records or replays the run's tool and provider responses
+
   // Streaming support and output selection
   stream?: boolean // Whether to use streaming responses when available
   selectedOutputIds?: string[] // IDs of blocks selected for streaming output
@@ -170,6 +224,39 @@ export interface StreamingExecution {
   execution: ExecutionResult & { isStreaming?: boolean } // The complete execution data for logging purposes
 }
 
+/**
+ * Identifies the block an execution event refers to.
+ */
+interface BlockEventInfo {
+  blockId: string // Virtual block ID for parallel iterations
+  blockName?: string
+  blockType?: string
+}
+
+/**
+ * Progress event emitted through the onEvent context extension while a workflow executes.
+ */
+export type ExecutionEvent = ExecutionEventData & { timestamp: string } // ISO timestamp of the event
+
+export type ExecutionEventData =
+  | { type: 'run_started'; workflowId: string }
+  | ({ type: 'block_started' } & BlockEventInfo)
+  | ({
+      type: 'block_completed'
+      output: NormalizedBlockOutput
+      durationMs: number
+    } & BlockEventInfo)
+  | ({ type: 'block_error'; error: string; durationMs: number } & BlockEventInfo)
+  | { type: 'loop_iteration'; loopId: string; iteration: number; maxIterations: number }
+  | {
+      type: 'run_finished'
+      status: 'completed' | 'failed' | 'paused' | ExecutionAbortReason
+      success: boolean
+      output: NormalizedBlockOutput
+      error?: string
+      durationMs: number
+    }
+
 /**
  * Interface for a block executor component.
  */
@@ -208,12 +295,14 @@ export interface BlockHandler {
    * @param block - Block to execute
    * @param inputs - Resolved input parameters
    * @param context - Current execution context
+   * @param signal - Aborted when the run is cancelled or the block runs out of time
    * @returns Block execution output or StreamingExecution for streaming
    */
   execute(
     block: SerializedBlock,
     inputs: Record<string, any>,
-    context: ExecutionContext
+    context: ExecutionContext,
+    signal?: AbortSignal
   ): Promise<BlockOutput | StreamingExecution>
 }
 
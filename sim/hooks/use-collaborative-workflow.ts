@@ -6,11 +6,34 @@ import { resolveOutputType } from '@/blocks/utils'
 import { useSocket } from '@/contexts/socket-context'
 import { useWorkflowRegistry } from '@/stores/workflows/registry/store'
 import { useSubBlockStore } from '@/stores/workflows/subblock/store'
+import { useUndoRedoStore } from '@/stores/workflows/undo-redo/store'
+import type {
+  BlockFlag,
+  SubflowSettings,
+  UndoableOperation,
+} from '@/stores/workflows/undo-redo/types'
+import { createBlockSnapshot } from '@/stores/workflows/undo-redo/utils'
 import { useWorkflowStore } from '@/stores/workflows/workflow/store'
-import type { Position } from '@/stores/workflows/workflow/types'
+import type { BlockRetryPolicy, BlockState, Position } from '@/stores/workflows/workflow/types'
 
 const logger = createLogger('CollaborativeWorkflow')
 
+function getSubflowSettings(block: BlockState): SubflowSettings {
+  return block.type === 'loop'
+    ? {
+        subflowType: 'loop',
+        iterationType: block.data?.loopType || 'for',
+        count: block.data?.count || 5,
+        collection: block.data?.collection || '',
+      }
+    : {
+        subflowType: 'parallel',
+        iterationType: block.data?.parallelType || 'collection',
+        count: block.data?.count || 5,
+        collection: block.data?.collection || '',
+      }
+}
+
 export function useCollaborativeWorkflow() {
   const {
     isConnected,
@@ -63,6 +86,46 @@ export function useCollaborativeWorkflow() {
     })
   }, [isConnected, currentWorkflowId, activeWorkflowId, presenceUsers.length])
 
+  // Record a local change in the user's undo history
+  const recordOperation = useCallback((operation: UndoableOperation) => {
+    if (isApplyingRemoteChange.current) return
+
+    const workflowId = useWorkflowRegistry.getState().activeWorkflowId
+    if (workflowId) {
+      useUndoRedoStore.getState().record(workflowId, operation)
+    }
+  }, [])
+
+  const snapshotBlock = useCallback((id: string) => {
+    const workflowId = useWorkflowRegistry.getState().activeWorkflowId
+    const { blocks, edges } = useWorkflowStore.getState()
+    const values = workflowId ? useSubBlockStore.getState().workflowValues[workflowId] : undefined
+    return createBlockSnapshot(id, blocks, edges, values ?? {})
+  }, [])
+
+  const recordFlagChange = useCallback(
+    (id: string, flag: BlockFlag, before: boolean | undefined) => {
+      const after = useWorkflowStore.getState().blocks[id]?.[flag]
+      recordOperation({ type: 'set-flag', blockId: id, flag, before: !!before, after: !!after })
+    },
+    [recordOperation]
+  )
+
+  const recordSubflowChange = useCallback(
+    (id: string, before: SubflowSettings) => {
+      const block = useWorkflowStore.getState().blocks[id]
+      if (block) {
+        recordOperation({
+          type: 'update-subflow',
+          blockId: id,
+          before,
+          after: getSubflowSettings(block),
+        })
+      }
+    },
+    [recordOperation]
+  )
+
   // Handle incoming workflow operations from other users
   useEffect(() => {
     const handleWorkflowOperation = (data: any) => {
@@ -145,9 +208,12 @@ export function useCollaborativeWorkflow() {
               // For now, we'll use the existing toggle method
               workflowStore.toggleBlockAdvancedMode(payload.id)
               break
+            case 'update-retry-policy':
+              workflowStore.setBlockRetryPolicy(payload.id, payload.retryPolicy)
+              break
             case 'toggle-handles': {
               // Apply the handles toggle - we need to set the specific value to ensure consistency
-              const currentBlock = workflowStore.blocks[payload.id]
+              const currentBlock = useWorkflowStore.getState().blocks[payload.id]
               if (currentBlock && currentBlock.horizontalHandles !== payload.horizontalHandles) {
                 workflowStore.toggleBlockHandles(payload.id)
               }
@@ -311,6 +377,9 @@ export function useCollaborativeWorkflow() {
         // Apply locally first
         workflowStore.addBlock(id, type, name, position, data, parentId, extent)
 
+        const snapshot = snapshotBlock(id)
+        if (snapshot) recordOperation({ type: 'add-block', snapshot })
+
         // Then broadcast to other clients with complete block data
         if (!isApplyingRemoteChange.current) {
           emitWorkflowOperation('add', 'block', completeBlockData)
@@ -359,45 +428,70 @@ export function useCollaborativeWorkflow() {
       // Apply locally first
       workflowStore.addBlock(id, type, name, position, data, parentId, extent)
 
+      const snapshot = snapshotBlock(id)
+      if (snapshot) recordOperation({ type: 'add-block', snapshot })
+
       // Then broadcast to other clients with complete block data
       if (!isApplyingRemoteChange.current) {
         emitWorkflowOperation('add', 'block', completeBlockData)
       }
     },
-    [workflowStore, emitWorkflowOperation]
+    [workflowStore, emitWorkflowOperation, snapshotBlock, recordOperation]
   )
 
   const collaborativeRemoveBlock = useCallback(
     (id: string) => {
+      // Capture the block before it goes, so the removal can be undone
+      const snapshot = snapshotBlock(id)
+
       // Apply locally first
       workflowStore.removeBlock(id)
 
+      if (snapshot) recordOperation({ type: 'remove-block', snapshot })
+
       // Then broadcast to other clients
       if (!isApplyingRemoteChange.current) {
         emitWorkflowOperation('remove', 'block', { id })
       }
     },
-    [workflowStore, emitWorkflowOperation]
+    [workflowStore, emitWorkflowOperation, snapshotBlock, recordOperation]
   )
 
   const collaborativeUpdateBlockPosition = useCallback(
     (id: string, position: Position) => {
+      const before = useWorkflowStore.getState().blocks[id]?.position
+
       // Apply locally first
       workflowStore.updateBlockPosition(id, position)
 
+      if (before) {
+        recordOperation({
+          type: 'update-position',
+          blockId: id,
+          before: { ...before },
+          after: { ...position },
+        })
+      }
+
       // Then broadcast to other clients
       if (!isApplyingRemoteChange.current) {
         emitWorkflowOperation('update-position', 'block', { id, position })
       }
     },
-    [workflowStore, emitWorkflowOperation]
+    [workflowStore, emitWorkflowOperation, recordOperation]
   )
 
   const collaborativeUpdateBlockName = useCallback(
     (id: string, name: string) => {
+      const before = useWorkflowStore.getState().blocks[id]?.name
+
       // Apply locally first
       workflowStore.updateBlockName(id, name)
 
+      if (before !== undefined) {
+        recordOperation({ type: 'update-name', blockId: id, before, after: name })
+      }
+
       // Then broadcast to other clients
       if (!isApplyingRemoteChange.current) {
         emitWorkflowOperation('update-name', 'block', { id, name })
@@ -416,39 +510,54 @@ export function useCollaborativeWorkflow() {
         }
       }
     },
-    [workflowStore, emitWorkflowOperation, emitSubblockUpdate]
+    [workflowStore, emitWorkflowOperation, emitSubblockUpdate, recordOperation]
   )
 
   const collaborativeToggleBlockEnabled = useCallback(
     (id: string) => {
+      const before = useWorkflowStore.getState().blocks[id]?.enabled
+
       // Apply locally first
       workflowStore.toggleBlockEnabled(id)
+      recordFlagChange(id, 'enabled', before)
 
       // Then broadcast to other clients
       if (!isApplyingRemoteChange.current) {
         emitWorkflowOperation('toggle-enabled', 'block', { id })
       }
     },
-    [workflowStore, emitWorkflowOperation]
+    [workflowStore, emitWorkflowOperation, recordFlagChange]
   )
 
   const collaborativeUpdateParentId = useCallback(
     (id: string, parentId: string, extent: 'parent') => {
+      const block = useWorkflowStore.getState().blocks[id]
+
       // Apply locally first
       workflowStore.updateParentId(id, parentId, extent)
 
+      const updated = useWorkflowStore.getState().blocks[id]
+      if (block && updated) {
+        recordOperation({
+          type: 'update-parent',
+          blockId: id,
+          before: { parentId: block.data?.parentId ?? null, position: { ...block.position } },
+          after: { parentId: parentId || null, position: { ...updated.position } },
+        })
+      }
+
       // Then broadcast to other clients
       if (!isApplyingRemoteChange.current) {
         emitWorkflowOperation('update-parent', 'block', { id, parentId, extent })
       }
     },
-    [workflowStore, emitWorkflowOperation]
+    [workflowStore, emitWorkflowOperation, recordOperation]
   )
 
   const collaborativeToggleBlockWide = useCallback(
     (id: string) => {
       // Get the current state before toggling
-      const currentBlock = workflowStore.blocks[id]
+      const currentBlock = useWorkflowStore.getState().blocks[id]
       if (!currentBlock) return
 
       // Calculate the new isWide value
@@ -456,19 +565,20 @@ export function useCollaborativeWorkflow() {
 
       // Apply locally first
       workflowStore.toggleBlockWide(id)
+      recordFlagChange(id, 'isWide', currentBlock.isWide)
 
       // Emit with the calculated new value (don't rely on async state update)
       if (!isApplyingRemoteChange.current) {
         emitWorkflowOperation('update-wide', 'block', { id, isWide: newIsWide })
       }
     },
-    [workflowStore, emitWorkflowOperation]
+    [workflowStore, emitWorkflowOperation, recordFlagChange]
   )
 
   const collaborativeToggleBlockAdvancedMode = useCallback(
     (id: string) => {
       // Get the current state before toggling
-      const currentBlock = workflowStore.blocks[id]
+      const currentBlock = useWorkflowStore.getState().blocks[id]
       if (!currentBlock) return
 
       // Calculate the new advancedMode value
@@ -476,6 +586,7 @@ export function useCollaborativeWorkflow() {
 
       // Apply locally first
       workflowStore.toggleBlockAdvancedMode(id)
+      recordFlagChange(id, 'advancedMode', currentBlock.advancedMode)
 
       // Emit with the calculated new value (don't rely on async state update)
       if (!isApplyingRemoteChange.current) {
@@ -485,13 +596,36 @@ export function useCollaborativeWorkflow() {
         })
       }
     },
-    [workflowStore, emitWorkflowOperation]
+    [workflowStore, emitWorkflowOperation, recordFlagChange]
+  )
+
+  const collaborativeSetBlockRetryPolicy = useCallback(
+    (id: string, retryPolicy: BlockRetryPolicy | null) => {
+      const block = useWorkflowStore.getState().blocks[id]
+      if (!block) return
+
+      // Apply locally first
+      workflowStore.setBlockRetryPolicy(id, retryPolicy)
+
+      recordOperation({
+        type: 'update-retry-policy',
+        blockId: id,
+        before: block.retryPolicy ?? null,
+        after: retryPolicy,
+      })
+
+      // Then broadcast to other clients
+      if (!isApplyingRemoteChange.current) {
+        emitWorkflowOperation('update-retry-policy', 'block', { id, retryPolicy })
+      }
+    },
+    [workflowStore, emitWorkflowOperation, recordOperation]
   )
 
   const collaborativeToggleBlockHandles = useCallback(
     (id: string) => {
       // Get the current state before toggling
-      const currentBlock = workflowStore.blocks[id]
+      const currentBlock = useWorkflowStore.getState().blocks[id]
       if (!currentBlock) return
 
       // Calculate the new horizontalHandles value
@@ -499,6 +633,7 @@ export function useCollaborativeWorkflow() {
 
       // Apply locally first
       workflowStore.toggleBlockHandles(id)
+      recordFlagChange(id, 'horizontalHandles', currentBlock.horizontalHandles)
 
       // Emit with the calculated new value (don't rely on async state update)
       if (!isApplyingRemoteChange.current) {
@@ -508,12 +643,12 @@ export function useCollaborativeWorkflow() {
         })
       }
     },
-    [workflowStore, emitWorkflowOperation]
+    [workflowStore, emitWorkflowOperation, recordFlagChange]
   )
 
   const collaborativeDuplicateBlock = useCallback(
     (sourceId: string) => {
-      const sourceBlock = workflowStore.blocks[sourceId]
+      const sourceBlock = useWorkflowStore.getState().blocks[sourceId]
       if (!sourceBlock) return
 
       // Generate new ID and calculate position
@@ -574,45 +709,68 @@ export function useCollaborativeWorkflow() {
         }))
       }
 
+      const snapshot = snapshotBlock(newId)
+      if (snapshot) recordOperation({ type: 'add-block', snapshot })
+
       // Then broadcast to other clients
       if (!isApplyingRemoteChange.current) {
         emitWorkflowOperation('duplicate', 'block', duplicatedBlockData)
       }
     },
-    [workflowStore, emitWorkflowOperation]
+    [workflowStore, emitWorkflowOperation, snapshotBlock, recordOperation]
   )
 
   const collaborativeAddEdge = useCallback(
     (edge: Edge) => {
+      const exists = useWorkflowStore.getState().edges.some((e) => e.id === edge.id)
+
       // Apply locally first
       workflowStore.addEdge(edge)
 
+      if (!exists && useWorkflowStore.getState().edges.some((e) => e.id === edge.id)) {
+        recordOperation({ type: 'add-edge', edge: { ...edge } })
+      }
+
       // Then broadcast to other clients
       if (!isApplyingRemoteChange.current) {
         emitWorkflowOperation('add', 'edge', edge)
       }
     },
-    [workflowStore, emitWorkflowOperation]
+    [workflowStore, emitWorkflowOperation, recordOperation]
   )
 
   const collaborativeRemoveEdge = useCallback(
     (edgeId: string) => {
+      const edge = useWorkflowStore.getState().edges.find((e) => e.id === edgeId)
+
       // Apply locally first
       workflowStore.removeEdge(edgeId)
 
+      if (edge) recordOperation({ type: 'remove-edge', edge: { ...edge } })
+
       // Then broadcast to other clients
       if (!isApplyingRemoteChange.current) {
         emitWorkflowOperation('remove', 'edge', { id: edgeId })
       }
     },
-    [workflowStore, emitWorkflowOperation]
+    [workflowStore, emitWorkflowOperation, recordOperation]
   )
 
   const collaborativeSetSubblockValue = useCallback(
     (blockId: string, subblockId: string, value: any) => {
+      const before = useSubBlockStore.getState().getValue(blockId, subblockId) ?? null
+
       // Apply locally first - the store automatically uses the active workflow ID
       subBlockStore.setValue(blockId, subblockId, value)
 
+      recordOperation({
+        type: 'set-subblock',
+        blockId,
+        subBlockId: subblockId,
+        before,
+        after: value ?? null,
+      })
+
       // Then broadcast to other clients, but only if we have a valid workflow connection
       if (
         !isApplyingRemoteChange.current &&
@@ -631,18 +789,25 @@ export function useCollaborativeWorkflow() {
         })
       }
     },
-    [subBlockStore, emitSubblockUpdate, isConnected, currentWorkflowId, activeWorkflowId]
+    [
+      subBlockStore,
+      emitSubblockUpdate,
+      isConnected,
+      currentWorkflowId,
+      activeWorkflowId,
+      recordOperation,
+    ]
   )
 
   // Collaborative loop/parallel configuration updates
   const collaborativeUpdateLoopCount = useCallback(
     (loopId: string, count: number) => {
       // Get current state BEFORE making changes
-      const currentBlock = workflowStore.blocks[loopId]
+      const currentBlock = useWorkflowStore.getState().blocks[loopId]
       if (!currentBlock || currentBlock.type !== 'loop') return
 
       // Find child nodes before state changes
-      const childNodes = Object.values(workflowStore.blocks)
+      const childNodes = Object.values(useWorkflowStore.getState().blocks)
         .filter((b) => b.data?.parentId === loopId)
         .map((b) => b.id)
 
@@ -652,6 +817,7 @@ export function useCollaborativeWorkflow() {
 
       // Apply local change
       workflowStore.updateLoopCount(loopId, count)
+      recordSubflowChange(loopId, getSubflowSettings(currentBlock))
 
       // Emit subflow update operation with calculated values
       if (!isApplyingRemoteChange.current) {
@@ -670,17 +836,17 @@ export function useCollaborativeWorkflow() {
         })
       }
     },
-    [workflowStore, emitWorkflowOperation]
+    [workflowStore, emitWorkflowOperation, recordSubflowChange]
   )
 
   const collaborativeUpdateLoopType = useCallback(
     (loopId: string, loopType: 'for' | 'forEach') => {
       // Get current state BEFORE making changes
-      const currentBlock = workflowStore.blocks[loopId]
+      const currentBlock = useWorkflowStore.getState().blocks[loopId]
       if (!currentBlock || currentBlock.type !== 'loop') return
 
       // Find child nodes before state changes
-      const childNodes = Object.values(workflowStore.blocks)
+      const childNodes = Object.values(useWorkflowStore.getState().blocks)
         .filter((b) => b.data?.parentId === loopId)
         .map((b) => b.id)
 
@@ -690,6 +856,7 @@ export function useCollaborativeWorkflow() {
 
       // Apply local change
       workflowStore.updateLoopType(loopId, loopType)
+      recordSubflowChange(loopId, getSubflowSettings(currentBlock))
 
       // Emit subflow update operation with calculated values
       if (!isApplyingRemoteChange.current) {
@@ -708,17 +875,17 @@ export function useCollaborativeWorkflow() {
         })
       }
     },
-    [workflowStore, emitWorkflowOperation]
+    [workflowStore, emitWorkflowOperation, recordSubflowChange]
   )
 
   const collaborativeUpdateLoopCollection = useCallback(
     (loopId: string, collection: string) => {
       // Get current state BEFORE making changes
-      const currentBlock = workflowStore.blocks[loopId]
+      const currentBlock = useWorkflowStore.getState().blocks[loopId]
       if (!currentBlock || currentBlock.type !== 'loop') return
 
       // Find child nodes before state changes
-      const childNodes = Object.values(workflowStore.blocks)
+      const childNodes = Object.values(useWorkflowStore.getState().blocks)
         .filter((b) => b.data?.parentId === loopId)
         .map((b) => b.id)
 
@@ -728,6 +895,7 @@ export function useCollaborativeWorkflow() {
 
       // Apply local change
       workflowStore.updateLoopCollection(loopId, collection)
+      recordSubflowChange(loopId, getSubflowSettings(currentBlock))
 
       // Emit subflow update operation with calculated values
       if (!isApplyingRemoteChange.current) {
@@ -746,17 +914,17 @@ export function useCollaborativeWorkflow() {
         })
       }
     },
-    [workflowStore, emitWorkflowOperation]
+    [workflowStore, emitWorkflowOperation, recordSubflowChange]
   )
 
   const collaborativeUpdateParallelCount = useCallback(
     (parallelId: string, count: number) => {
       // Get current state BEFORE making changes
-      const currentBlock = workflowStore.blocks[parallelId]
+      const currentBlock = useWorkflowStore.getState().blocks[parallelId]
       if (!currentBlock || currentBlock.type !== 'parallel') return
 
       // Find child nodes before state changes
-      const childNodes = Object.values(workflowStore.blocks)
+      const childNodes = Object.values(useWorkflowStore.getState().blocks)
         .filter((b) => b.data?.parentId === parallelId)
         .map((b) => b.id)
 
@@ -766,6 +934,7 @@ export function useCollaborativeWorkflow() {
 
       // Apply local change
       workflowStore.updateParallelCount(parallelId, count)
+      recordSubflowChange(parallelId, getSubflowSettings(currentBlock))
 
       // Emit subflow update operation with calculated values
       if (!isApplyingRemoteChange.current) {
@@ -784,17 +953,17 @@ export function useCollaborativeWorkflow() {
         })
       }
     },
-    [workflowStore, emitWorkflowOperation]
+    [workflowStore, emitWorkflowOperation, recordSubflowChange]
   )
 
   const collaborativeUpdateParallelCollection = useCallback(
     (parallelId: string, collection: string) => {
       // Get current state BEFORE making changes
-      const currentBlock = workflowStore.blocks[parallelId]
+      const currentBlock = useWorkflowStore.getState().blocks[parallelId]
       if (!currentBlock || currentBlock.type !== 'parallel') return
 
       // Find child nodes before state changes
-      const childNodes = Object.values(workflowStore.blocks)
+      const childNodes = Object.values(useWorkflowStore.getState().blocks)
         .filter((b) => b.data?.parentId === parallelId)
         .map((b) => b.id)
 
@@ -804,6 +973,7 @@ export function useCollaborativeWorkflow() {
 
       // Apply local change
       workflowStore.updateParallelCollection(parallelId, collection)
+      recordSubflowChange(parallelId, getSubflowSettings(currentBlock))
 
       // Emit subflow update operation with calculated values
       if (!isApplyingRemoteChange.current) {
@@ -822,17 +992,17 @@ export function useCollaborativeWorkflow() {
         })
       }
     },
-    [workflowStore, emitWorkflowOperation]
+    [workflowStore, emitWorkflowOperation, recordSubflowChange]
   )
 
   const collaborativeUpdateParallelType = useCallback(
     (parallelId: string, parallelType: 'count' | 'collection') => {
       // Get current state BEFORE making changes
-      const currentBlock = workflowStore.blocks[parallelId]
+      const currentBlock = useWorkflowStore.getState().blocks[parallelId]
       if (!currentBlock || currentBlock.type !== 'parallel') return
 
       // Find child nodes before state changes
-      const childNodes = Object.values(workflowStore.blocks)
+      const childNodes = Object.values(useWorkflowStore.getState().blocks)
         .filter((b) => b.data?.parentId === parallelId)
         .map((b) => b.id)
 
@@ -853,6 +1023,7 @@ export function useCollaborativeWorkflow() {
       workflowStore.updateParallelType(parallelId, parallelType)
       workflowStore.updateParallelCount(parallelId, newCount)
       workflowStore.updateParallelCollection(parallelId, newDistribution)
+      recordSubflowChange(parallelId, getSubflowSettings(currentBlock))
 
       // Emit single subflow update with all changes
       if (!isApplyingRemoteChange.current) {
@@ -871,7 +1042,7 @@ export function useCollaborativeWorkflow() {
         })
       }
     },
-    [workflowStore, emitWorkflowOperation]
+    [workflowStore, emitWorkflowOperation, recordSubflowChange]
   )
 
   return {
@@ -893,6 +1064,7 @@ export function useCollaborativeWorkflow() {
     collaborativeUpdateParentId,
     collaborativeToggleBlockWide,
     collaborativeToggleBlockAdvancedMode,
+    collaborativeSetBlockRetryPolicy,
     collaborativeToggleBlockHandles,
     collaborativeDuplicateBlock,
     collaborativeAddEdge,
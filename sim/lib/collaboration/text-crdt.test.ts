@@ -0,0 +1,97 @@
+/**
+ * @vitest-environment node
+ *
+ * Collaborative Text Unit Tests
+ *
+ * Tests for merging concurrent edits of text sub-blocks through Yjs documents.
+ */
+import { describe, expect, it } from 'vitest'
+import * as Y from 'yjs'
+import {
+  applyTextChange,
+  createSeedUpdate,
+  createTextCursor,
+  getSharedText,
+  getTextFromUpdate,
+  isCollaborativeTextSubBlock,
+  isEmptyUpdate,
+  resolveTextCursor,
+} from './text-crdt'
+
+function createDoc(value: string): Y.Doc {
+  const doc = new Y.Doc()
+  Y.applyUpdate(doc, createSeedUpdate(value))
+  return doc
+}
+
+function sync(from: Y.Doc, to: Y.Doc) {
+  Y.applyUpdate(to, Y.encodeStateAsUpdate(from, Y.encodeStateVector(to)))
+}
+
+describe('Collaborative text', () => {
+  it('should only treat long inputs and code editors as collaborative text', () => {
+    expect(isCollaborativeTextSubBlock('long-input')).toBe(true)
+    expect(isCollaborativeTextSubBlock('code')).toBe(true)
+    expect(isCollaborativeTextSubBlock('short-input')).toBe(false)
+    expect(isCollaborativeTextSubBlock(undefined)).toBe(false)
+  })
+
+  it('should apply a new value as an edit of the changed range', () => {
+    const doc = createDoc('You are a helpful assistant.')
+    const text = getSharedText(doc)
+
+    expect(applyTextChange(text, 'You are a very helpful assistant.')).toBe(true)
+    expect(text.toString()).toBe('You are a very helpful assistant.')
+
+    expect(applyTextChange(text, 'You are a very helpful assistant.')).toBe(false)
+
+    applyTextChange(text, 'You are helpful.')
+    expect(text.toString()).toBe('You are helpful.')
+  })
+
+  it('should merge concurrent edits instead of overwriting them', () => {
+    const alice = createDoc('Answer briefly.')
+    const bob = createDoc('Answer briefly.')
+
+    applyTextChange(getSharedText(alice), 'Always answer briefly.')
+    applyTextChange(getSharedText(bob), 'Answer briefly and politely.')
+
+    sync(alice, bob)
+    sync(bob, alice)
+
+    expect(getSharedText(alice).toString()).toBe('Always answer briefly and politely.')
+    expect(getSharedText(bob).toString()).toBe('Always answer briefly and politely.')
+  })
+
+  it('should seed documents deterministically so that seeds from two nodes merge', () => {
+    const doc = new Y.Doc()
+    Y.applyUpdate(doc, createSeedUpdate('return input'))
+    Y.applyUpdate(doc, createSeedUpdate('return input'))
+
+    expect(getSharedText(doc).toString()).toBe('return input')
+    expect(getTextFromUpdate(Y.encodeStateAsUpdate(doc))).toBe('return input')
+  })
+
+  it('should keep collaborator cursors attached to their text across remote edits', () => {
+    const alice = createDoc('const a = 1')
+    const bob = createDoc('const a = 1')
+
+    // Alice's caret sits right before "a"
+    const cursor = createTextCursor(getSharedText(alice), 6, 6)
+
+    applyTextChange(getSharedText(bob), '// setup\nconst a = 1')
+    sync(bob, alice)
+
+    expect(resolveTextCursor(alice, cursor)).toEqual({ anchor: 15, head: 15 })
+  })
+
+  it('should detect updates that carry no changes', () => {
+    const doc = createDoc('hello')
+    const stateVector = Y.encodeStateVector(doc)
+
+    expect(isEmptyUpdate(Y.encodeStateAsUpdate(doc, stateVector))).toBe(true)
+
+    applyTextChange(getSharedText(doc), 'hell')
+    expect(isEmptyUpdate(Y.encodeStateAsUpdate(doc, stateVector))).toBe(false)
+  })
+})
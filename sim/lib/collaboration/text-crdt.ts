@@ -0,0 +1,149 @@
+import * as Y from 'yjs'
+
+/**
+ * Sub-block types whose text is edited collaboratively through a Yjs document rather than
+ * by broadcasting whole values, so concurrent edits merge instead of overwriting each other
+ */
+export const COLLABORATIVE_TEXT_SUBBLOCK_TYPES = ['long-input', 'code'] as const
+
+// Name of the shared text inside every sub-block document
+const TEXT_NAME = 'text'
+
+// Client ID used to seed documents from a stored value. Seeding is deterministic, so two
+// server nodes seeding the same value produce identical updates that merge into one.
+const SEED_CLIENT_ID = 0
+
+/**
+ * A position in a collaborative text, relative to the surrounding characters so it survives
+ * concurrent edits. Serialized form of a Yjs relative position.
+ */
+export type RelativeTextPosition = Record<string, unknown>
+
+/**
+ * A collaborator's caret or selection in a collaborative text
+ */
+export interface TextCursor {
+  anchor: RelativeTextPosition
+  head: RelativeTextPosition
+}
+
+export function isCollaborativeTextSubBlock(type: string | undefined): boolean {
+  return COLLABORATIVE_TEXT_SUBBLOCK_TYPES.includes(
+    type as (typeof COLLABORATIVE_TEXT_SUBBLOCK_TYPES)[number]
+  )
+}
+
+export function getSharedText(doc: Y.Doc): Y.Text {
+  return doc.getText(TEXT_NAME)
+}
+
+/**
+ * Apply a new value to a shared text as a single replacement of the changed range.
+ * Keeping the unchanged prefix and suffix lets concurrent edits elsewhere in the text merge.
+ * @returns Whether the text changed
+ */
+export function applyTextChange(text: Y.Text, newValue: string, origin?: unknown): boolean {
+  const oldValue = text.toString()
+  if (oldValue === newValue) return false
+
+  let start = 0
+  const maxStart = Math.min(oldValue.length, newValue.length)
+  while (start < maxStart && oldValue[start] === newValue[start]) {
+    start++
+  }
+
+  let oldEnd = oldValue.length
+  let newEnd = newValue.length
+  while (oldEnd > start && newEnd > start && oldValue[oldEnd - 1] === newValue[newEnd - 1]) {
+    oldEnd--
+    newEnd--
+  }
+
+  const apply = () => {
+    if (oldEnd > start) {
+      text.delete(start, oldEnd - start)
+    }
+    if (newEnd > start) {
+      text.insert(start, newValue.slice(start, newEnd))
+    }
+  }
+
+  if (text.doc) {
+    text.doc.transact(apply, origin)
+  } else {
+    apply()
+  }
+  return true
+}
+
+/**
+ * Create the initial document update for a sub-block value that has no stored document yet
+ */
+export function createSeedUpdate(value: string): Uint8Array {
+  const doc = new Y.Doc()
+  doc.clientID = SEED_CLIENT_ID
+  if (value) {
+    getSharedText(doc).insert(0, value)
+  }
+  const update = Y.encodeStateAsUpdate(doc)
+  doc.destroy()
+  return update
+}
+
+/**
+ * Read the text held by an encoded document update
+ */
+export function getTextFromUpdate(update: Uint8Array): string {
+  const doc = new Y.Doc()
+  Y.applyUpdate(doc, update)
+  const value = getSharedText(doc).toString()
+  doc.destroy()
+  return value
+}
+
+/**
+ * Whether an encoded update carries no changes (no new items and no deletions)
+ */
+export function isEmptyUpdate(update: Uint8Array): boolean {
+  const { structs, ds } = Y.decodeUpdate(update)
+  return structs.length === 0 && ds.clients.size === 0
+}
+
+/**
+ * Normalize binary payloads received over Socket.IO, which arrive as Buffer on the
+ * server and ArrayBuffer in the browser
+ */
+export function toUint8Array(data: ArrayBuffer | ArrayBufferView): Uint8Array {
+  if (data instanceof Uint8Array) return data
+  if (ArrayBuffer.isView(data)) {
+    return new Uint8Array(data.buffer, data.byteOffset, data.byteLength)
+  }
+  return new Uint8Array(data)
+}
+
+export function createTextCursor(text: Y.Text, anchor: number, head: number): TextCursor {
+  return {
+    anchor: Y.relativePositionToJSON(Y.createRelativePositionFromTypeIndex(text, anchor)),
+    head: Y.relativePositionToJSON(Y.createRelativePositionFromTypeIndex(text, head)),
+  }
+}
+
+/**
+ * Resolve a collaborator's cursor to indexes in the current text
+ * @returns The selection range, or null when the cursor refers to content this document lacks
+ */
+export function resolveTextCursor(
+  doc: Y.Doc,
+  cursor: TextCursor
+): { anchor: number; head: number } | null {
+  const anchor = Y.createAbsolutePositionFromRelativePosition(
+    Y.createRelativePositionFromJSON(cursor.anchor),
+    doc
+  )
+  const head = Y.createAbsolutePositionFromRelativePosition(
+    Y.createRelativePositionFromJSON(cursor.head),
+    doc
+  )
+  if (!anchor || !head) return null
+  return { anchor: anchor.index, head: head.index }
+}
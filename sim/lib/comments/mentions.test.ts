@@ -0,0 +1,78 @@
+/**
+ * @vitest-environment node
+ *
+ * Comment Mentions Unit Tests
+ *
+ * Tests for detecting, inserting and highlighting @mentions in comments.
+ */
+import { describe, expect, it } from 'vitest'
+import { getMentionedUserIds, getMentionQuery, insertMention, splitMentions } from './mentions'
+
+const ada = { userId: 'user-1', name: 'Ada Lovelace' }
+const alan = { userId: 'user-2', name: 'Alan Turing' }
+
+describe('getMentionQuery', () => {
+  it('should detect a mention being typed', () => {
+    expect(getMentionQuery('Hey @Ad', 7)).toEqual({ query: 'Ad', start: 4 })
+    expect(getMentionQuery('@', 1)).toEqual({ query: '', start: 0 })
+  })
+
+  it('should only look at the text before the caret', () => {
+    expect(getMentionQuery('Hey @Ad there', 7)).toEqual({ query: 'Ad', start: 4 })
+    expect(getMentionQuery('Hey @Ad there', 13)).toBeNull()
+  })
+
+  it('should ignore @ inside words such as email addresses', () => {
+    expect(getMentionQuery('mail ada@example', 16)).toBeNull()
+  })
+})
+
+describe('insertMention', () => {
+  it('should replace the typed query with the full name', () => {
+    const text = 'Hey @Ad, look'
+    const mention = getMentionQuery(text, 7)!
+
+    expect(insertMention(text, mention, 7, ada.name)).toEqual({
+      text: 'Hey @Ada Lovelace , look',
+      caret: 18,
+    })
+  })
+})
+
+describe('getMentionedUserIds', () => {
+  it('should return members whose mention is still in the text', () => {
+    const text = '@Ada Lovelace can you review this?'
+
+    expect(getMentionedUserIds(text, [ada, alan])).toEqual(['user-1'])
+  })
+
+  it('should not match names that only start with a mention', () => {
+    expect(getMentionedUserIds('@Ada Lovelaces', [ada])).toEqual([])
+  })
+
+  it('should return each member once', () => {
+    expect(getMentionedUserIds('@Ada Lovelace and @Ada Lovelace.', [ada, ada])).toEqual([
+      'user-1',
+    ])
+  })
+})
+
+describe('splitMentions', () => {
+  it('should split mentions from plain text', () => {
+    expect(splitMentions('Thanks @Alan Turing, merged', [ada.name, alan.name])).toEqual([
+      { text: 'Thanks ', isMention: false },
+      { text: '@Alan Turing', isMention: true },
+      { text: ', merged', isMention: false },
+    ])
+  })
+
+  it('should prefer the longest matching name', () => {
+    expect(splitMentions('@Ada Lovelace', ['Ada', ada.name])).toEqual([
+      { text: '@Ada Lovelace', isMention: true },
+    ])
+  })
+
+  it('should return the content as is without members', () => {
+    expect(splitMentions('Hi @Ada', [])).toEqual([{ text: 'Hi @Ada', isMention: false }])
+  })
+})
@@ -0,0 +1,87 @@
+export interface MentionCandidate {
+  userId: string
+  name: string
+}
+
+export interface MentionQuery {
+  query: string
+  start: number // Index of the "@"
+}
+
+export interface ContentSegment {
+  text: string
+  isMention: boolean
+}
+
+// "@" at the start of the text or after whitespace, followed by the name typed so far
+const MENTION_QUERY_PATTERN = /(^|\s)@([^\s@]*)$/
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * Get the mention being typed right before the caret, if any
+ */
+export function getMentionQuery(text: string, caret: number): MentionQuery | null {
+  const match = MENTION_QUERY_PATTERN.exec(text.slice(0, caret))
+  if (!match) return null
+
+  return { query: match[2], start: match.index + match[1].length }
+}
+
+/**
+ * Replace the mention being typed with the full name of the chosen member
+ * @returns The new text and the caret position after the inserted mention
+ */
+export function insertMention(
+  text: string,
+  mention: MentionQuery,
+  caret: number,
+  name: string
+): { text: string; caret: number } {
+  const inserted = `@${name} `
+  return {
+    text: text.slice(0, mention.start) + inserted + text.slice(caret),
+    caret: mention.start + inserted.length,
+  }
+}
+
+/**
+ * Get the members whose mention is still in the text, so that mentions deleted while
+ * editing don't notify anyone
+ */
+export function getMentionedUserIds(text: string, mentioned: MentionCandidate[]): string[] {
+  const userIds = mentioned
+    .filter(({ name }) => new RegExp(`(^|\\s)@${escapeRegExp(name)}(?=$|[\\s.,;:!?])`).test(text))
+    .map(({ userId }) => userId)
+
+  return Array.from(new Set(userIds))
+}
+
+/**
+ * Split comment content into plain text and mentions of the given names, for highlighting
+ */
+export function splitMentions(content: string, names: string[]): ContentSegment[] {
+  const escaped = names
+    .filter(Boolean)
+    .sort((a, b) => b.length - a.length) // Prefer the longest name when one is a prefix of another
+    .map(escapeRegExp)
+  if (escaped.length === 0) return [{ text: content, isMention: false }]
+
+  const pattern = new RegExp(`@(?:${escaped.join('|')})(?=$|[\\s.,;:!?])`, 'g')
+  const segments: ContentSegment[] = []
+  let lastIndex = 0
+
+  for (const match of content.matchAll(pattern)) {
+    const index = match.index ?? 0
+    if (index > 0 && !/\s/.test(content[index - 1])) continue
+
+    if (index > lastIndex) segments.push({ text: content.slice(lastIndex, index), isMention: false })
+    segments.push({ text: match[0], isMention: true })
+    lastIndex = index + match[0].length
+  }
+
+  if (lastIndex < content.length) segments.push({ text: content.slice(lastIndex), isMention: false })
+  return segments
+}
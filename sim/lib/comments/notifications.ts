@@ -0,0 +1,105 @@
+import { and, eq, inArray } from 'drizzle-orm'
+import { renderCommentMentionEmail } from '@/components/emails/render-email'
+import { sendEmail } from '@/lib/email/mailer'
+import { createLogger } from '@/lib/logs/console-logger'
+import { getBaseUrl } from '@/lib/urls/utils'
+import { db } from '@/db'
+import { permissions, user, workflow, workflowBlocks } from '@/db/schema'
+
+const logger = createLogger('CommentNotifications')
+
+interface MentionNotification {
+  workflowId: string
+  threadId: string
+  blockId: string | null
+  authorId: string
+  authorName: string
+  content: string
+  mentions: string[]
+}
+
+/**
+ * Email the members mentioned in a comment. Mentions of the author and of users who can't
+ * access the workflow are ignored.
+ */
+export async function sendMentionNotifications({
+  workflowId,
+  threadId,
+  blockId,
+  authorId,
+  authorName,
+  content,
+  mentions,
+}: MentionNotification): Promise<void> {
+  const mentionedIds = mentions.filter((id) => id !== authorId)
+  if (mentionedIds.length === 0) return
+
+  const [workflowData] = await db
+    .select({ name: workflow.name, userId: workflow.userId, workspaceId: workflow.workspaceId })
+    .from(workflow)
+    .where(eq(workflow.id, workflowId))
+    .limit(1)
+
+  if (!workflowData) return
+
+  const recipients = workflowData.workspaceId
+    ? await db
+        .selectDistinct({ id: user.id, email: user.email })
+        .from(permissions)
+        .innerJoin(user, eq(permissions.userId, user.id))
+        .where(
+          and(
+            eq(permissions.entityType, 'workspace'),
+            eq(permissions.entityId, workflowData.workspaceId),
+            inArray(permissions.userId, mentionedIds)
+          )
+        )
+    : await db
+        .select({ id: user.id, email: user.email })
+        .from(user)
+        .where(and(eq(user.id, workflowData.userId), inArray(user.id, mentionedIds)))
+
+  if (recipients.length === 0) return
+
+  let blockName: string | undefined
+  if (blockId) {
+    const [block] = await db
+      .select({ name: workflowBlocks.name })
+      .from(workflowBlocks)
+      .where(and(eq(workflowBlocks.id, blockId), eq(workflowBlocks.workflowId, workflowId)))
+      .limit(1)
+    blockName = block?.name
+  }
+
+  const threadLink = workflowData.workspaceId
+    ? `${getBaseUrl()}/workspace/${workflowData.workspaceId}/w/${workflowId}?thread=${threadId}`
+    : `${getBaseUrl()}/workspace`
+
+  await Promise.all(
+    recipients.map(async (recipient) => {
+      try {
+        const html = await renderCommentMentionEmail(
+          recipient.email,
+          authorName,
+          workflowData.name,
+          content,
+          threadLink,
+          blockName
+        )
+
+        const result = await sendEmail({
+          to: recipient.email,
+          subject: `${authorName} mentioned you in "${workflowData.name}"`,
+          html,
+          emailType: 'notifications',
+        })
+
+        if (!result.success) {
+          logger.warn(`Failed to send mention email to ${recipient.id}: ${result.message}`)
+        }
+      } catch (error) {
+        logger.error(`Error sending mention email to ${recipient.id}:`, error)
+      }
+    })
+  )
+}
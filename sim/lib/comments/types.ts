@@ -0,0 +1,27 @@
+export interface WorkflowComment {
+  id: string
+  threadId: string
+  userId: string
+  userName: string
+  content: string
+  mentions: string[] // IDs of the mentioned users
+  createdAt: string
+  updatedAt: string
+}
+
+/**
+ * A comment thread anchored to a block, or to a point on the canvas when `blockId` is null.
+ * For block threads the position is relative to the block, so the thread moves with it.
+ */
+export interface CommentThread {
+  id: string
+  workflowId: string
+  blockId: string | null
+  position: { x: number; y: number }
+  createdBy: string
+  resolvedBy: string | null
+  resolvedAt: string | null
+  createdAt: string
+  updatedAt: string
+  comments: WorkflowComment[]
+}
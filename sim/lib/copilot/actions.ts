@@ -0,0 +1,152 @@
+import { z } from 'zod'
+import { getAllBlockTypes } from '@/blocks'
+import { SUBFLOW_BLOCKS } from './catalog'
+
+const SubflowSchema = z.object({
+  iterationType: z.enum(['for', 'forEach', 'count', 'collection']).optional(),
+  count: z.number().optional(),
+  collection: z.string().optional(),
+})
+
+export const CopilotOperationSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('add_block'),
+    ref: z.string().min(1),
+    type: z.string(),
+    name: z.string().optional(),
+    parent: z.string().optional(),
+    subBlocks: z.record(z.any()).optional(),
+    subflow: SubflowSchema.optional(),
+  }),
+  z.object({
+    action: z.literal('update_block'),
+    id: z.string(),
+    name: z.string().optional(),
+    subBlocks: z.record(z.any()).optional(),
+    subflow: SubflowSchema.optional(),
+  }),
+  z.object({ action: z.literal('remove_block'), id: z.string() }),
+  z.object({
+    action: z.literal('add_edge'),
+    source: z.string(),
+    target: z.string(),
+    sourceHandle: z.string().optional(),
+  }),
+  z.object({ action: z.literal('remove_edge'), id: z.string() }),
+])
+
+export const ProposeChangesSchema = z.object({
+  summary: z.string(),
+  operations: z.array(CopilotOperationSchema).min(1),
+})
+
+export const GetBlockSchemasSchema = z.object({
+  types: z.array(z.string()).min(1),
+})
+
+const subflowParameters = {
+  type: 'object',
+  description: 'Iteration settings, only for loop and parallel blocks',
+  properties: {
+    iterationType: {
+      type: 'string',
+      enum: ['for', 'forEach', 'count', 'collection'],
+      description: 'Loops: "for" or "forEach". Parallels: "count" or "collection".',
+    },
+    count: { type: 'number', description: 'Number of iterations for "for" and "count"' },
+    collection: {
+      type: 'string',
+      description: 'Items to iterate over for "forEach" and "collection", e.g. <block.response>',
+    },
+  },
+}
+
+const subBlocksParameters = {
+  type: 'object',
+  description:
+    'Sub-block values by sub-block ID, as listed by getBlockSchemas. Conditions are a list of { title: "if" | "else if" | "else", value: "<expression>" }. Agent tools are a list of { type: "<tool block type>", operation?: "<operation>", params?: { ... } }.',
+  additionalProperties: true,
+}
+
+/**
+ * Functions the copilot calls to look up blocks and propose changes to the workflow
+ */
+export function getCopilotActions() {
+  const blockTypes = [
+    ...getAllBlockTypes().filter((type) => type !== 'starter'),
+    ...Object.keys(SUBFLOW_BLOCKS),
+  ]
+
+  return {
+    getBlockSchemas: {
+      description:
+        'Get the sub-blocks, tools and outputs of block types. Call it for every block type before adding or configuring blocks of that type.',
+      parameters: {
+        type: 'object',
+        required: ['types'],
+        properties: {
+          types: {
+            type: 'array',
+            items: { type: 'string', enum: blockTypes },
+          },
+        },
+      },
+    },
+    proposeChanges: {
+      description:
+        'Propose a set of changes to the workflow. The user reviews them as a diff and accepts or rejects them as a whole.',
+      parameters: {
+        type: 'object',
+        required: ['summary', 'operations'],
+        properties: {
+          summary: {
+            type: 'string',
+            description: 'Short description of the changes, shown to the user',
+          },
+          operations: {
+            type: 'array',
+            description: 'Operations applied in order',
+            items: {
+              type: 'object',
+              required: ['action'],
+              properties: {
+                action: {
+                  type: 'string',
+                  enum: ['add_block', 'update_block', 'remove_block', 'add_edge', 'remove_edge'],
+                },
+                ref: {
+                  type: 'string',
+                  description:
+                    'add_block: a new name such as "agent1" that later operations use to refer to the new block',
+                },
+                type: {
+                  type: 'string',
+                  enum: blockTypes,
+                  description: 'add_block: the type of block to add',
+                },
+                id: {
+                  type: 'string',
+                  description: 'update_block, remove_block and remove_edge: the ID to change',
+                },
+                name: { type: 'string', description: 'add_block and update_block: block name' },
+                parent: {
+                  type: 'string',
+                  description: 'add_block: ref or ID of the loop or parallel to place the block in',
+                },
+                subBlocks: subBlocksParameters,
+                subflow: subflowParameters,
+                source: { type: 'string', description: 'add_edge: ref or ID of the source block' },
+                target: { type: 'string', description: 'add_edge: ref or ID of the target block' },
+                sourceHandle: {
+                  type: 'string',
+                  description:
+                    'add_edge: "if", "else-if-<n>" or "else" for edges from condition blocks, "error" for the error path, omitted otherwise',
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  }
+}
@@ -0,0 +1,155 @@
+import { getAllBlocks, getBlock } from '@/blocks'
+import type { SubBlockConfig, SubBlockType } from '@/blocks/types'
+import { tools } from '@/tools/registry'
+
+/**
+ * Container blocks that aren't part of the block registry
+ */
+export const SUBFLOW_BLOCKS = {
+  loop:
+    'Runs the blocks placed inside it for a number of iterations ("for") or for each item of a collection ("forEach")',
+  parallel:
+    'Runs the blocks placed inside it concurrently, a number of times ("count") or once per item of a collection ("collection")',
+} as const
+
+/**
+ * Sub-block inputs the copilot leaves to the user, because they hold credentials or
+ * IDs picked from third-party services
+ */
+export const USER_CONFIGURED_SUB_BLOCKS: SubBlockType[] = [
+  'oauth-input',
+  'webhook-config',
+  'schedule-config',
+  'file-selector',
+  'project-selector',
+  'channel-selector',
+  'folder-selector',
+  'knowledge-base-selector',
+  'document-selector',
+  'file-upload',
+]
+
+export interface SubBlockSchema {
+  id: string
+  title?: string
+  type: SubBlockType
+  options?: string[]
+  condition?: SubBlockConfig['condition']
+  min?: number
+  max?: number
+  language?: string
+  configuredByUser?: boolean
+}
+
+export interface ToolSchema {
+  id: string
+  description: string
+  params: Record<string, { type: string; required: boolean; description?: string }>
+}
+
+export interface BlockSchema {
+  type: string
+  name: string
+  description: string
+  subBlocks: SubBlockSchema[]
+  tools: ToolSchema[]
+  outputs: string[]
+}
+
+/**
+ * Get the option IDs of a dropdown or combobox. Options computed from client state are
+ * skipped when they can't be resolved.
+ */
+export function getSubBlockOptions(subBlock: SubBlockConfig): string[] | undefined {
+  if (!subBlock.options) return undefined
+
+  try {
+    const options = typeof subBlock.options === 'function' ? subBlock.options() : subBlock.options
+    return options.map((option) => (typeof option === 'string' ? option : option.id))
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Get the sub-blocks of a block type, once per ID. Some blocks define a sub-block several
+ * times with different conditions, such as the temperature slider of the agent.
+ */
+export function getUniqueSubBlocks(type: string): SubBlockConfig[] {
+  const subBlocks = getBlock(type)?.subBlocks ?? []
+  return subBlocks.filter(
+    (subBlock, index) => subBlocks.findIndex((sb) => sb.id === subBlock.id) === index
+  )
+}
+
+/**
+ * Block types that can be attached to agents as tools
+ */
+export function getToolBlockTypes(): string[] {
+  return getAllBlocks()
+    .filter((block) => block.category === 'tools')
+    .map((block) => block.type)
+}
+
+/**
+ * One line per block type, for the copilot to pick blocks from
+ */
+export function getBlockCatalog(): string {
+  const blocks = getAllBlocks()
+    .filter((block) => block.type !== 'starter')
+    .map((block) => `- ${block.type} (${block.category}): ${block.description}`)
+  const subflows = Object.entries(SUBFLOW_BLOCKS).map(
+    ([type, description]) => `- ${type} (container): ${description}`
+  )
+
+  return [...blocks, ...subflows].join('\n')
+}
+
+/**
+ * Full schema of a block type: its inputs, the tools it calls with their parameters and its
+ * outputs
+ */
+export function getBlockSchema(type: string): BlockSchema | null {
+  const block = getBlock(type)
+  if (!block) return null
+
+  const subBlocks = getUniqueSubBlocks(type)
+    .filter((subBlock) => !subBlock.hidden)
+    .map((subBlock) => ({
+      id: subBlock.id,
+      title: subBlock.title,
+      type: subBlock.type,
+      options: getSubBlockOptions(subBlock),
+      condition: subBlock.condition,
+      min: subBlock.min,
+      max: subBlock.max,
+      language: subBlock.language,
+      ...(USER_CONFIGURED_SUB_BLOCKS.includes(subBlock.type) && { configuredByUser: true }),
+    }))
+
+  const blockTools = block.tools.access
+    .map((toolId) => tools[toolId])
+    .filter(Boolean)
+    .map((tool) => ({
+      id: tool.id,
+      description: tool.description,
+      params: Object.fromEntries(
+        Object.entries(tool.params).map(([id, param]) => [
+          id,
+          { type: param.type, required: !!param.required, description: param.description },
+        ])
+      ),
+    }))
+
+  const outputType = block.outputs.response?.type
+  const outputs = outputType && typeof outputType === 'object' ? Object.keys(outputType) : []
+
+  return {
+    type: block.type,
+    name: block.name,
+    description: block.longDescription || block.description,
+    subBlocks,
+    tools: blockTools,
+    outputs,
+  }
+}
@@ -0,0 +1,201 @@
+/**
+ * @vitest-environment node
+ *
+ * Copilot Change Plan Unit Tests
+ *
+ * Tests for resolving proposed operations into the changes applied to the workflow.
+ */
+import { describe, expect, it, vi } from 'vitest'
+import type { BlockState } from '@/stores/workflows/workflow/types'
+import { buildChangePlan } from './plan'
+import type { CopilotWorkflowState } from './types'
+
+vi.mock('@/blocks', () => {
+  // Mock block configurations with the sub-blocks the copilot fills in
+  const mockBlocks: Record<string, any> = {
+    starter: { type: 'starter', name: 'Starter', category: 'blocks', subBlocks: [] },
+    agent: {
+      type: 'agent',
+      name: 'Agent',
+      category: 'blocks',
+      subBlocks: [
+        { id: 'systemPrompt', type: 'long-input' },
+        { id: 'tools', type: 'tool-input' },
+      ],
+    },
+    condition: {
+      type: 'condition',
+      name: 'Condition',
+      category: 'blocks',
+      subBlocks: [{ id: 'conditions', type: 'condition-input' }],
+    },
+    function: {
+      type: 'function',
+      name: 'Function',
+      category: 'blocks',
+      subBlocks: [{ id: 'code', type: 'code' }],
+    },
+    router: { type: 'router', name: 'Router', category: 'blocks', subBlocks: [] },
+    slack: {
+      type: 'slack',
+      name: 'Slack',
+      category: 'tools',
+      subBlocks: [
+        { id: 'operation', type: 'dropdown', options: [{ label: 'Send', id: 'send' }] },
+        { id: 'credential', type: 'oauth-input' },
+        { id: 'text', type: 'long-input' },
+      ],
+    },
+  }
+
+  return {
+    getBlock: (type: string) => mockBlocks[type],
+    getAllBlocks: () => Object.values(mockBlocks),
+  }
+})
+
+vi.mock('@/tools/registry', () => ({ tools: {} }))
+
+const state: CopilotWorkflowState = {
+  blocks: {
+    start: {
+      id: 'start',
+      type: 'starter',
+      name: 'Start',
+      position: { x: 100, y: 200 },
+      subBlocks: {},
+      outputs: {},
+      enabled: true,
+    } as BlockState,
+  },
+  edges: [],
+}
+
+function createIds() {
+  let count = 0
+  return () => `id-${++count}`
+}
+
+describe('buildChangePlan', () => {
+  it('should replace refs with new IDs and place new blocks right of the workflow', () => {
+    const changes = buildChangePlan(
+      [
+        { action: 'add_block', ref: 'triage', type: 'agent' },
+        { action: 'add_block', ref: 'reply', type: 'function', name: 'Reply' },
+        { action: 'add_edge', source: 'start', target: 'triage' },
+        { action: 'add_edge', source: 'triage', target: 'reply' },
+      ],
+      state,
+      createIds()
+    )
+
+    expect(changes[0]).toMatchObject({
+      type: 'add-block',
+      blockId: 'id-1',
+      name: 'Agent 1',
+      position: { x: 550, y: 200 },
+    })
+    expect(changes[1]).toMatchObject({
+      blockId: 'id-2',
+      name: 'Reply',
+      position: { x: 1000, y: 200 },
+    })
+    expect(changes[3]).toEqual({
+      type: 'add-edge',
+      edge: {
+        id: 'id-4',
+        source: 'id-1',
+        target: 'id-2',
+        sourceHandle: 'source',
+        targetHandle: 'target',
+        type: 'workflowEdge',
+      },
+    })
+  })
+
+  it('should store conditions as JSON and connect their handles', () => {
+    const changes = buildChangePlan(
+      [
+        {
+          action: 'add_block',
+          ref: 'check',
+          type: 'condition',
+          subBlocks: {
+            conditions: [
+              { title: 'if', value: 'a' },
+              { title: 'else if', value: 'b' },
+              { title: 'else' },
+            ],
+          },
+        },
+        { action: 'add_block', ref: 'next', type: 'function' },
+        { action: 'add_edge', source: 'check', target: 'next', sourceHandle: 'else-if-1' },
+      ],
+      state,
+      createIds()
+    )
+
+    const addCondition = changes[0]
+    if (addCondition.type !== 'add-block') throw new Error('Expected a new block')
+    const conditions = JSON.parse(addCondition.subBlocks.conditions)
+    expect(conditions.map((condition: any) => condition.id)).toEqual([
+      'id-1-if',
+      'id-1-else-if-1',
+      'id-1-else',
+    ])
+
+    const edge = changes[2]
+    expect(edge.type === 'add-edge' && edge.edge.sourceHandle).toBe('condition-id-1-else-if-1')
+  })
+
+  it('should convert agent tools to tool inputs', () => {
+    const [change] = buildChangePlan(
+      [
+        {
+          action: 'add_block',
+          ref: 'agent',
+          type: 'agent',
+          subBlocks: { tools: [{ type: 'slack', operation: 'send', params: { text: 'hi' } }] },
+        },
+      ],
+      state,
+      createIds()
+    )
+
+    expect(change.type === 'add-block' && change.subBlocks.tools).toEqual([
+      {
+        type: 'slack',
+        title: 'Slack',
+        params: { text: 'hi' },
+        isExpanded: false,
+        operation: 'send',
+        usageControl: 'auto',
+      },
+    ])
+  })
+
+  it('should place blocks inside new containers and size them to fit', () => {
+    const changes = buildChangePlan(
+      [
+        { action: 'add_block', ref: 'loop', type: 'loop' },
+        { action: 'add_block', ref: 'first', type: 'agent', parent: 'loop' },
+        { action: 'add_block', ref: 'second', type: 'function', parent: 'loop' },
+        { action: 'add_edge', source: 'loop', target: 'first' },
+        { action: 'add_edge', source: 'first', target: 'second' },
+      ],
+      state,
+      createIds()
+    )
+
+    expect(changes[0]).toMatchObject({
+      blockId: 'id-1',
+      name: 'Loop 1',
+      size: { width: 950, height: 300 },
+    })
+    expect(changes[1]).toMatchObject({ parentId: 'id-1', position: { x: 50, y: 80 } })
+    expect(changes[2]).toMatchObject({ parentId: 'id-1', position: { x: 500, y: 80 } })
+    expect(changes[3].type === 'add-edge' && changes[3].edge.sourceHandle).toBe(
+      'loop-start-source'
+    )
+  })
+})
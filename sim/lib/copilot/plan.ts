@@ -0,0 +1,259 @@
+import type { Edge } from 'reactflow'
+import { getBlock } from '@/blocks'
+import type { Position } from '@/stores/workflows/workflow/types'
+import { getUniqueSubBlocks } from './catalog'
+import type { CopilotChange, CopilotOperation, CopilotWorkflowState } from './types'
+import { isSubflowType } from './validation'
+
+// Layout of new blocks, in canvas units
+const COLUMN_WIDTH = 450
+const ROW_HEIGHT = 220
+const CONTAINER_PADDING = { x: 50, y: 80 }
+const MIN_CONTAINER_SIZE = { width: 500, height: 300 }
+
+/**
+ * Convert a value given by the copilot to what the sub-block's input stores
+ */
+export function toSubBlockValue(blockId: string, type: string, subBlockId: string, value: any) {
+  const subBlock = getUniqueSubBlocks(type).find((sb) => sb.id === subBlockId)
+
+  switch (subBlock?.type) {
+    case 'condition-input': {
+      // Stored as JSON, with IDs that name the condition handles
+      let elseIfCount = 0
+      const conditions = (value as { title: string; value?: string }[]).map((condition) => {
+        const suffix = condition.title === 'else if' ? `else-if-${++elseIfCount}` : condition.title
+        return {
+          id: `${blockId}-${suffix}`,
+          title: condition.title,
+          value: condition.value ?? '',
+          showTags: false,
+          showEnvVars: false,
+          searchTerm: '',
+          cursorPosition: 0,
+          activeSourceBlockId: null,
+        }
+      })
+      return JSON.stringify(conditions)
+    }
+
+    case 'tool-input':
+      return (value as { type: string; operation?: string; params?: Record<string, any> }[]).map(
+        (tool) => ({
+          type: tool.type,
+          title: getBlock(tool.type)?.name ?? tool.type,
+          params: tool.params ?? {},
+          isExpanded: false,
+          ...(tool.operation && { operation: tool.operation }),
+          usageControl: 'auto',
+        })
+      )
+
+    default:
+      return value
+  }
+}
+
+/**
+ * Get the handle an edge leaves its source block from
+ */
+function getSourceHandle(
+  sourceId: string,
+  sourceType: string,
+  targetParentId: string | undefined,
+  handle: string | undefined
+): string {
+  if (sourceType === 'condition' && handle) {
+    return handle.startsWith('condition-') ? handle : `condition-${sourceId}-${handle}`
+  }
+  if (isSubflowType(sourceType)) {
+    // Blocks inside a container start from it; blocks outside run after it
+    return targetParentId === sourceId ? `${sourceType}-start-source` : `${sourceType}-end-source`
+  }
+  return handle ?? 'source'
+}
+
+/**
+ * Get the column of each new block, one past the furthest new block it is connected from
+ * within the same container
+ */
+function getColumns(
+  operations: CopilotOperation[],
+  newRefs: Set<string>,
+  parents: Map<string, string | undefined>
+): Map<string, number> {
+  const columns = new Map<string, number>()
+  const edges = operations.filter(
+    (op): op is Extract<CopilotOperation, { action: 'add_edge' }> =>
+      op.action === 'add_edge' && parents.get(op.source) === parents.get(op.target)
+  )
+
+  newRefs.forEach((ref) => columns.set(ref, 0))
+
+  // Relax edges until stable, bounded by the number of blocks in case of cycles
+  for (let pass = 0; pass < newRefs.size; pass++) {
+    let changed = false
+    for (const { source, target } of edges) {
+      if (!newRefs.has(source) || !newRefs.has(target)) continue
+
+      const column = (columns.get(source) ?? 0) + 1
+      if (column > (columns.get(target) ?? 0)) {
+        columns.set(target, column)
+        changed = true
+      }
+    }
+    if (!changed) break
+  }
+
+  return columns
+}
+
+/**
+ * Resolve proposed operations against the workflow into concrete changes: new blocks get IDs
+ * and positions right of the existing blocks, and refs are replaced with those IDs
+ * @param createId Generates IDs for new blocks and edges
+ */
+export function buildChangePlan(
+  operations: CopilotOperation[],
+  state: CopilotWorkflowState,
+  createId: () => string = () => crypto.randomUUID()
+): CopilotChange[] {
+  const ids = new Map<string, string>()
+  const resolve = (refOrId: string) => ids.get(refOrId) ?? refOrId
+
+  const addOperations = operations.filter(
+    (op): op is Extract<CopilotOperation, { action: 'add_block' }> => op.action === 'add_block'
+  )
+  addOperations.forEach((op) => ids.set(op.ref, createId()))
+
+  // Types and parents of all blocks, as they are once the new blocks are added
+  const blockTypes = new Map(Object.values(state.blocks).map((block) => [block.id, block.type]))
+  const parents = new Map<string, string | undefined>(
+    Object.values(state.blocks).map((block) => [block.id, block.data?.parentId])
+  )
+  addOperations.forEach((op) => {
+    blockTypes.set(resolve(op.ref), op.type)
+    parents.set(resolve(op.ref), op.parent ? resolve(op.parent) : undefined)
+  })
+
+  // Lay out new blocks in columns following their connections, per container
+  const refParents = new Map<string, string | undefined>(
+    addOperations.map((op) => [op.ref, op.parent ? resolve(op.parent) : undefined])
+  )
+  const columns = getColumns(operations, new Set(addOperations.map((op) => op.ref)), refParents)
+  const positions = new Map<string, Position>()
+  const containerSizes = new Map<string, { width: number; height: number }>()
+  const rowsByColumn = new Map<string, number>()
+
+  // Children first, so containers are sized before being placed
+  const ordered = [
+    ...addOperations.filter((op) => op.parent),
+    ...addOperations.filter((op) => !op.parent),
+  ]
+
+  const topLevelBlocks = Object.values(state.blocks).filter((block) => !block.data?.parentId)
+  const origin = topLevelBlocks.length
+    ? {
+        x: Math.max(...topLevelBlocks.map((block) => block.position.x)) + COLUMN_WIDTH,
+        y: Math.min(...topLevelBlocks.map((block) => block.position.y)),
+      }
+    : { x: 100, y: 100 }
+
+  for (const op of ordered) {
+    const column = columns.get(op.ref) ?? 0
+    const parentId = op.parent ? resolve(op.parent) : undefined
+    const rowKey = `${parentId ?? ''}:${column}`
+    const offset = rowsByColumn.get(rowKey) ?? 0
+    const height = containerSizes.get(resolve(op.ref))?.height ?? ROW_HEIGHT
+
+    const position = parentId
+      ? { x: CONTAINER_PADDING.x + column * COLUMN_WIDTH, y: CONTAINER_PADDING.y + offset }
+      : { x: origin.x + column * COLUMN_WIDTH, y: origin.y + offset }
+    positions.set(op.ref, position)
+    rowsByColumn.set(rowKey, offset + Math.max(height, ROW_HEIGHT))
+
+    if (parentId) {
+      const size = containerSizes.get(parentId) ?? { ...MIN_CONTAINER_SIZE }
+      containerSizes.set(parentId, {
+        width: Math.max(size.width, position.x + COLUMN_WIDTH),
+        height: Math.max(size.height, position.y + ROW_HEIGHT),
+      })
+    }
+  }
+
+  const toSubBlocks = (blockId: string, type: string, values?: Record<string, any>) =>
+    Object.fromEntries(
+      Object.entries(values ?? {}).map(([subBlockId, value]) => [
+        subBlockId,
+        toSubBlockValue(blockId, type, subBlockId, value),
+      ])
+    )
+
+  const blockNames = new Set(Object.values(state.blocks).map((block) => block.name))
+  const getDefaultName = (type: string) => {
+    const baseName = getBlock(type)?.name ?? (type === 'loop' ? 'Loop' : 'Parallel')
+    let number = 1
+    while (blockNames.has(`${baseName} ${number}`)) number++
+    return `${baseName} ${number}`
+  }
+
+  return operations.map((op): CopilotChange => {
+    switch (op.action) {
+      case 'add_block': {
+        const blockId = resolve(op.ref)
+        const name = op.name || getDefaultName(op.type)
+        blockNames.add(name)
+
+        return {
+          type: 'add-block',
+          blockId,
+          blockType: op.type,
+          name,
+          position: positions.get(op.ref) ?? origin,
+          ...(op.parent && { parentId: resolve(op.parent) }),
+          ...(isSubflowType(op.type) && {
+            size: containerSizes.get(blockId) ?? { ...MIN_CONTAINER_SIZE },
+          }),
+          subBlocks: toSubBlocks(blockId, op.type, op.subBlocks),
+          ...(op.subflow && { subflow: op.subflow }),
+        }
+      }
+
+      case 'update_block': {
+        const blockId = resolve(op.id)
+        return {
+          type: 'update-block',
+          blockId,
+          ...(op.name && { name: op.name }),
+          subBlocks: toSubBlocks(blockId, blockTypes.get(blockId) ?? '', op.subBlocks),
+          ...(op.subflow && { subflow: op.subflow }),
+        }
+      }
+
+      case 'remove_block':
+        return { type: 'remove-block', blockId: resolve(op.id) }
+
+      case 'add_edge': {
+        const source = resolve(op.source)
+        const target = resolve(op.target)
+        const edge: Edge = {
+          id: createId(),
+          source,
+          target,
+          sourceHandle: getSourceHandle(
+            source,
+            blockTypes.get(source) ?? '',
+            parents.get(target),
+            op.sourceHandle
+          ),
+          targetHandle: 'target',
+          type: 'workflowEdge',
+        }
+        return { type: 'add-edge', edge }
+      }
+
+      case 'remove_edge':
+        return { type: 'remove-edge', edgeId: op.id }
+    }
+  })
+}
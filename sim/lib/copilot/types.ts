@@ -0,0 +1,77 @@
+import type { Edge } from 'reactflow'
+import type { BlockState, Position } from '@/stores/workflows/workflow/types'
+
+/**
+ * Iteration settings of a loop ('for' or 'forEach') or parallel ('count' or 'collection')
+ */
+export interface SubflowSettings {
+  iterationType?: 'for' | 'forEach' | 'count' | 'collection'
+  count?: number
+  collection?: string
+}
+
+/**
+ * A change proposed by the copilot. New blocks are given a `ref` that later operations use
+ * in place of a block ID; existing blocks are referenced by ID.
+ */
+export type CopilotOperation =
+  | {
+      action: 'add_block'
+      ref: string
+      type: string
+      name?: string
+      parent?: string // Loop or parallel the block is placed in
+      subBlocks?: Record<string, any>
+      subflow?: SubflowSettings
+    }
+  | {
+      action: 'update_block'
+      id: string
+      name?: string
+      subBlocks?: Record<string, any>
+      subflow?: SubflowSettings
+    }
+  | { action: 'remove_block'; id: string }
+  | { action: 'add_edge'; source: string; target: string; sourceHandle?: string }
+  | { action: 'remove_edge'; id: string }
+
+export interface CopilotProposal {
+  id: string
+  summary: string
+  operations: CopilotOperation[]
+}
+
+/**
+ * The workflow the copilot works on, with sub-block values merged into the blocks
+ */
+export interface CopilotWorkflowState {
+  blocks: Record<string, BlockState>
+  edges: Edge[]
+}
+
+/**
+ * A proposed operation resolved against the workflow: refs replaced with block IDs, new
+ * blocks positioned and sub-block values converted to what their inputs store
+ */
+export type CopilotChange =
+  | {
+      type: 'add-block'
+      blockId: string
+      blockType: string
+      name: string
+      position: Position
+      parentId?: string
+      size?: { width: number; height: number } // Loops and parallels
+      subBlocks: Record<string, any>
+      subflow?: SubflowSettings
+    }
+  | {
+      type: 'update-block'
+      blockId: string
+      name?: string
+      subBlocks: Record<string, any>
+      subflow?: SubflowSettings
+    }
+  | { type: 'remove-block'; blockId: string }
+  | { type: 'add-edge'; edge: Edge }
+  | { type: 'remove-edge'; edgeId: string }
@@ -0,0 +1,192 @@
+/**
+ * @vitest-environment node
+ *
+ * Copilot Validation Unit Tests
+ *
+ * Tests for checking proposed operations against the block registry and the workflow.
+ */
+import { describe, expect, it, vi } from 'vitest'
+import type { BlockState } from '@/stores/workflows/workflow/types'
+import type { CopilotOperation, CopilotWorkflowState } from './types'
+import { validateOperations } from './validation'
+
+vi.mock('@/blocks', () => {
+  // Mock block configurations with the sub-blocks the copilot fills in
+  const mockBlocks: Record<string, any> = {
+    starter: { type: 'starter', name: 'Starter', category: 'blocks', subBlocks: [] },
+    agent: {
+      type: 'agent',
+      name: 'Agent',
+      category: 'blocks',
+      subBlocks: [
+        { id: 'systemPrompt', type: 'long-input' },
+        { id: 'tools', type: 'tool-input' },
+      ],
+    },
+    condition: {
+      type: 'condition',
+      name: 'Condition',
+      category: 'blocks',
+      subBlocks: [{ id: 'conditions', type: 'condition-input' }],
+    },
+    function: {
+      type: 'function',
+      name: 'Function',
+      category: 'blocks',
+      subBlocks: [{ id: 'code', type: 'code' }],
+    },
+    router: { type: 'router', name: 'Router', category: 'blocks', subBlocks: [] },
+    slack: {
+      type: 'slack',
+      name: 'Slack',
+      category: 'tools',
+      subBlocks: [
+        { id: 'operation', type: 'dropdown', options: [{ label: 'Send', id: 'send' }] },
+        { id: 'credential', type: 'oauth-input' },
+        { id: 'text', type: 'long-input' },
+      ],
+    },
+  }
+
+  return {
+    getBlock: (type: string) => mockBlocks[type],
+    getAllBlocks: () => Object.values(mockBlocks),
+  }
+})
+
+vi.mock('@/tools/registry', () => ({ tools: {} }))
+
+function createBlock(id: string, type: string): BlockState {
+  return {
+    id,
+    type,
+    name: id,
+    position: { x: 0, y: 0 },
+    subBlocks: {},
+    outputs: {},
+    enabled: true,
+  }
+}
+
+const state: CopilotWorkflowState = {
+  blocks: { start: createBlock('start', 'starter') },
+  edges: [],
+}
+
+describe('validateOperations', () => {
+  it('should accept new blocks connected by their refs', () => {
+    const operations: CopilotOperation[] = [
+      {
+        action: 'add_block',
+        ref: 'triage',
+        type: 'agent',
+        subBlocks: {
+          systemPrompt: 'Classify the message',
+          tools: [{ type: 'slack', operation: 'send' }],
+        },
+      },
+      {
+        action: 'add_block',
+        ref: 'route',
+        type: 'condition',
+        subBlocks: {
+          conditions: [
+            { title: 'if', value: '<triage.response.content> === "urgent"' },
+            { title: 'else', value: '' },
+          ],
+        },
+      },
+      { action: 'add_edge', source: 'start', target: 'triage' },
+      { action: 'add_edge', source: 'triage', target: 'route' },
+      { action: 'add_block', ref: 'notify', type: 'slack' },
+      { action: 'add_edge', source: 'route', target: 'notify', sourceHandle: 'if' },
+    ]
+
+    expect(validateOperations(operations, state)).toEqual([])
+  })
+
+  it('should reject unknown block types and sub-blocks', () => {
+    const errors = validateOperations(
+      [
+        { action: 'add_block', ref: 'a', type: 'teleporter' },
+        { action: 'add_block', ref: 'b', type: 'agent', subBlocks: { colour: 'blue' } },
+      ],
+      state
+    )
+
+    expect(errors).toEqual([
+      'Operation 0: unknown block type "teleporter"',
+      'Operation 1: Block type "agent" has no sub-block "colour"',
+    ])
+  })
+
+  it('should leave credentials to the user', () => {
+    const errors = validateOperations(
+      [{ action: 'add_block', ref: 'a', type: 'slack', subBlocks: { credential: 'abc' } }],
+      state
+    )
+
+    expect(errors).toEqual([
+      'Operation 0: Sub-block "credential" of "slack" must be configured by the user',
+    ])
+  })
+
+  it('should reject tools that are not tool blocks', () => {
+    const errors = validateOperations(
+      [
+        {
+          action: 'add_block',
+          ref: 'a',
+          type: 'agent',
+          subBlocks: { tools: [{ type: 'router' }] },
+        },
+      ],
+      state
+    )
+
+    expect(errors).toHaveLength(1)
+    expect(errors[0]).toContain('unknown tool "router"')
+  })
+
+  it('should require a branch for edges from condition blocks', () => {
+    const errors = validateOperations(
+      [
+        { action: 'add_block', ref: 'check', type: 'condition' },
+        { action: 'add_block', ref: 'next', type: 'function' },
+        { action: 'add_edge', source: 'check', target: 'next' },
+      ],
+      state
+    )
+
+    expect(errors).toHaveLength(1)
+    expect(errors[0]).toContain('need a sourceHandle')
+  })
+
+  it('should only place blocks inside loops and parallels', () => {
+    const errors = validateOperations(
+      [
+        { action: 'add_block', ref: 'loop1', type: 'loop', subflow: { iterationType: 'forEach' } },
+        { action: 'add_block', ref: 'inner', type: 'agent', parent: 'loop1' },
+        { action: 'add_block', ref: 'nested', type: 'function', parent: 'inner' },
+      ],
+      state
+    )
+
+    expect(errors).toEqual([
+      'Operation 2: blocks can only be placed inside a loop or parallel',
+    ])
+  })
+
+  it('should not refer to blocks removed earlier in the proposal', () => {
+    const errors = validateOperations(
+      [
+        { action: 'add_block', ref: 'a', type: 'function' },
+        { action: 'remove_block', id: 'a' },
+        { action: 'add_edge', source: 'start', target: 'a' },
+      ],
+      state
+    )
+
+    expect(errors).toEqual(['Operation 2: block "a" does not exist'])
+  })
+})
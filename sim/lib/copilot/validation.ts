@@ -0,0 +1,213 @@
+import { getBlock } from '@/blocks'
+import {
+  getSubBlockOptions,
+  getToolBlockTypes,
+  getUniqueSubBlocks,
+  SUBFLOW_BLOCKS,
+  USER_CONFIGURED_SUB_BLOCKS,
+} from './catalog'
+import type { CopilotOperation, CopilotWorkflowState, SubflowSettings } from './types'
+
+// Handles of a condition block are named after its conditions: if, else-if-<n> and else
+export const CONDITION_HANDLE_PATTERN = /^(if|else|else-if-\d+)$/
+
+const SUBFLOW_ITERATION_TYPES: Record<string, string[]> = {
+  loop: ['for', 'forEach'],
+  parallel: ['count', 'collection'],
+}
+
+export function isSubflowType(type: string): type is keyof typeof SUBFLOW_BLOCKS {
+  return type in SUBFLOW_BLOCKS
+}
+
+function validateConditions(value: unknown): string | null {
+  if (!Array.isArray(value) || value.length < 2) {
+    return 'must be a list of at least an "if" and an "else" condition'
+  }
+
+  const titles = value.map((condition) => condition?.title)
+  const isValid =
+    titles[0] === 'if' &&
+    titles[titles.length - 1] === 'else' &&
+    titles.slice(1, -1).every((title) => title === 'else if') &&
+    value.every((condition) => typeof condition.value === 'string' || condition.title === 'else')
+
+  return isValid
+    ? null
+    : 'must start with "if", end with "else" and have "else if" conditions in between'
+}
+
+function validateTools(value: unknown): string | null {
+  if (!Array.isArray(value)) return 'must be a list of tools'
+
+  const toolTypes = getToolBlockTypes()
+  for (const tool of value) {
+    if (!toolTypes.includes(tool?.type)) {
+      return `has unknown tool "${tool?.type}", use one of the blocks in the "tools" category`
+    }
+  }
+  return null
+}
+
+function validateSubBlocks(type: string, values: Record<string, any>): string[] {
+  const subBlocks = getUniqueSubBlocks(type)
+  const errors: string[] = []
+
+  for (const [subBlockId, value] of Object.entries(values)) {
+    const subBlock = subBlocks.find((sb) => sb.id === subBlockId)
+    if (!subBlock) {
+      errors.push(`Block type "${type}" has no sub-block "${subBlockId}"`)
+      continue
+    }
+
+    if (USER_CONFIGURED_SUB_BLOCKS.includes(subBlock.type)) {
+      errors.push(`Sub-block "${subBlockId}" of "${type}" must be configured by the user`)
+      continue
+    }
+
+    let error: string | null = null
+    if (subBlock.type === 'condition-input') {
+      error = validateConditions(value)
+    } else if (subBlock.type === 'tool-input') {
+      error = validateTools(value)
+    } else if (subBlock.type === 'dropdown') {
+      const options = getSubBlockOptions(subBlock)
+      if (options && !options.includes(value)) {
+        error = `must be one of ${options.map((option) => `"${option}"`).join(', ')}`
+      }
+    }
+
+    if (error) errors.push(`Sub-block "${subBlockId}" of "${type}" ${error}`)
+  }
+
+  return errors
+}
+
+function validateSubflow(type: string, subflow: SubflowSettings): string | null {
+  const iterationTypes = SUBFLOW_ITERATION_TYPES[type]
+  if (!iterationTypes) return `Only loop and parallel blocks have iteration settings`
+
+  if (subflow.iterationType && !iterationTypes.includes(subflow.iterationType)) {
+    return `The iteration type of a ${type} must be ${iterationTypes.map((t) => `"${t}"`).join(' or ')}`
+  }
+  if (subflow.count !== undefined && (!Number.isInteger(subflow.count) || subflow.count < 1)) {
+    return `The iteration count of a ${type} must be a positive integer`
+  }
+  return null
+}
+
+/**
+ * Check proposed operations against the block registry and the workflow they apply to
+ * @returns Errors to report back to the model; empty when the operations can be applied
+ */
+export function validateOperations(
+  operations: CopilotOperation[],
+  state: CopilotWorkflowState
+): string[] {
+  const errors: string[] = []
+  // Block types by ID or ref, as they are after the operations so far
+  const blockTypes = new Map(Object.values(state.blocks).map((block) => [block.id, block.type]))
+  const edgeIds = new Set(state.edges.map((edge) => edge.id))
+
+  const requireBlock = (index: number, id: string): string | undefined => {
+    const type = blockTypes.get(id)
+    if (!type) errors.push(`Operation ${index}: block "${id}" does not exist`)
+    return type
+  }
+
+  operations.forEach((operation, index) => {
+    switch (operation.action) {
+      case 'add_block': {
+        const { ref, type, parent, subBlocks, subflow } = operation
+
+        if (blockTypes.has(ref)) {
+          errors.push(`Operation ${index}: "${ref}" is already used, give each new block a new ref`)
+          return
+        }
+        if (type === 'starter') {
+          errors.push(`Operation ${index}: a workflow has a single starter block`)
+          return
+        }
+        if (!getBlock(type) && !isSubflowType(type)) {
+          errors.push(`Operation ${index}: unknown block type "${type}"`)
+          return
+        }
+
+        if (parent) {
+          const parentType = requireBlock(index, parent)
+          if (parentType && !isSubflowType(parentType)) {
+            errors.push(`Operation ${index}: blocks can only be placed inside a loop or parallel`)
+          }
+          if (isSubflowType(type)) {
+            errors.push(`Operation ${index}: loops and parallels can't be nested`)
+          }
+        }
+
+        if (subBlocks) {
+          errors.push(...validateSubBlocks(type, subBlocks).map((e) => `Operation ${index}: ${e}`))
+        }
+        if (subflow) {
+          const error = validateSubflow(type, subflow)
+          if (error) errors.push(`Operation ${index}: ${error}`)
+        }
+
+        blockTypes.set(ref, type)
+        return
+      }
+
+      case 'update_block': {
+        const type = requireBlock(index, operation.id)
+        if (!type) return
+
+        if (operation.subBlocks) {
+          errors.push(
+            ...validateSubBlocks(type, operation.subBlocks).map((e) => `Operation ${index}: ${e}`)
+          )
+        }
+        if (operation.subflow) {
+          const error = validateSubflow(type, operation.subflow)
+          if (error) errors.push(`Operation ${index}: ${error}`)
+        }
+        return
+      }
+
+      case 'remove_block': {
+        if (requireBlock(index, operation.id)) {
+          blockTypes.delete(operation.id)
+        }
+        return
+      }
+
+      case 'add_edge': {
+        const { source, target, sourceHandle } = operation
+        const sourceType = requireBlock(index, source)
+        const targetType = requireBlock(index, target)
+        if (!sourceType || !targetType) return
+
+        if (source === target) {
+          errors.push(`Operation ${index}: a block can't connect to itself`)
+        } else if (targetType === 'starter') {
+          errors.push(`Operation ${index}: nothing can connect into the starter block`)
+        } else if (sourceType === 'condition') {
+          if (!sourceHandle || !CONDITION_HANDLE_PATTERN.test(sourceHandle)) {
+            errors.push(
+              `Operation ${index}: edges from a condition block need a sourceHandle of "if", "else-if-<n>" or "else"`
+            )
+          }
+        } else if (sourceHandle && sourceHandle !== 'source' && sourceHandle !== 'error') {
+          errors.push(`Operation ${index}: sourceHandle must be "source" or "error"`)
+        }
+        return
+      }
+
+      case 'remove_edge': {
+        if (!edgeIds.delete(operation.id)) {
+          errors.push(`Operation ${index}: edge "${operation.id}" does not exist`)
+        }
+        return
+      }
+    }
+  })
+
+  return errors
+}
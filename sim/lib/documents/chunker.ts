@@ -21,6 +21,10 @@ export interface Chunk {
   metadata: {
     startIndex: number
     endIndex: number
+    headingPath?: string[] // Headings above a Markdown section
+    sheet?: string // Worksheet of a table chunk
+    rowStart?: number // First data row of a table chunk
+    rowEnd?: number // Last data row of a table chunk
   }
 }
 
@@ -0,0 +1,167 @@
+/**
+ * @vitest-environment node
+ *
+ * Chunking Strategy Unit Tests
+ *
+ * Tests for the strategies that split knowledge base documents into chunks.
+ */
+import { describe, expect, it } from 'vitest'
+import { TextChunker } from './chunker'
+import {
+  createChunker,
+  MarkdownChunker,
+  SentenceChunker,
+  TableChunker,
+  TokenChunker,
+} from './chunking'
+import { countTokens } from './tokenizer'
+
+describe('createChunker', () => {
+  it('should create the chunker of a strategy', () => {
+    expect(createChunker({ strategy: 'markdown' })).toBeInstanceOf(MarkdownChunker)
+    expect(createChunker({ strategy: 'sentence' })).toBeInstanceOf(SentenceChunker)
+    expect(createChunker({ strategy: 'token' })).toBeInstanceOf(TokenChunker)
+    expect(createChunker({})).toBeInstanceOf(TextChunker)
+  })
+
+  it('should only chunk tabular files by rows', () => {
+    expect(createChunker({ strategy: 'table' }, 'prices.csv')).toBeInstanceOf(TableChunker)
+    expect(createChunker({ strategy: 'table' }, 'Prices.XLSX')).toBeInstanceOf(TableChunker)
+    expect(createChunker({ strategy: 'table' }, 'notes.pdf')).toBeInstanceOf(TextChunker)
+  })
+})
+
+describe('MarkdownChunker', () => {
+  it('should prefix each section with its heading path', async () => {
+    const markdown = [
+      '# Guide',
+      'Intro text.',
+      '',
+      '## Install',
+      '```',
+      '# a comment, not a heading',
+      '```',
+      '',
+      '### Linux',
+      'Use apt.',
+      '',
+      '## Usage',
+      'Run it.',
+    ].join('\n')
+
+    const chunks = await new MarkdownChunker({ chunkSize: 100 }).chunk(markdown)
+
+    expect(chunks.map((chunk) => chunk.text)).toEqual([
+      'Guide\n\nIntro text.',
+      'Guide > Install\n\n```\n# a comment, not a heading\n```',
+      'Guide > Install > Linux\n\nUse apt.',
+      'Guide > Usage\n\nRun it.',
+    ])
+    expect(chunks[2].metadata.headingPath).toEqual(['Guide', 'Install', 'Linux'])
+    expect(markdown.slice(chunks[2].metadata.startIndex, chunks[2].metadata.endIndex)).toBe(
+      'Use apt.'
+    )
+  })
+})
+
+describe('SentenceChunker', () => {
+  it('should keep sentences whole and overlap chunks by whole sentences', async () => {
+    const text =
+      'The first sentence is here. The second one follows it. A third sentence comes next. The fourth one ends the text.'
+
+    const chunks = await new SentenceChunker({ chunkSize: 14, overlap: 7 }).chunk(text)
+
+    expect(chunks.map((chunk) => chunk.text)).toEqual([
+      'The first sentence is here. The second one follows it.',
+      'The second one follows it. A third sentence comes next.',
+      'A third sentence comes next. The fourth one ends the text.',
+    ])
+    chunks.forEach((chunk) => expect(chunk.tokenCount).toBeLessThanOrEqual(14))
+  })
+})
+
+describe('TokenChunker', () => {
+  it('should split text into overlapping windows of tokens', async () => {
+    const text = Array.from({ length: 50 }, (_, i) => `word${i}`).join(' ')
+
+    const chunks = await new TokenChunker({ chunkSize: 20, overlap: 5 }).chunk(text)
+
+    expect(chunks.length).toBeGreaterThan(1)
+    chunks.slice(0, -1).forEach((chunk) => expect(chunk.tokenCount).toBe(20))
+    expect(chunks.reduce((sum, chunk) => sum + chunk.tokenCount, 0)).toBe(
+      countTokens(text) + 5 * (chunks.length - 1)
+    )
+    expect(text.slice(chunks[1].metadata.startIndex, chunks[1].metadata.endIndex).trim()).toBe(
+      chunks[1].text
+    )
+  })
+})
+
+describe('TableChunker', () => {
+  it('should repeat the header row in every chunk of a CSV file', async () => {
+    const csv = 'name, price\nApple, 1\nBanana, 2\nCherry, 3\n'
+
+    const chunks = await new TableChunker({ chunkSize: 12 }).chunk(csv)
+
+    expect(chunks.length).toBeGreaterThan(1)
+    chunks.forEach((chunk) => expect(chunk.text.startsWith('name, price\n')).toBe(true))
+    expect(chunks[0].metadata.rowStart).toBe(1)
+    expect(chunks[chunks.length - 1].metadata.rowEnd).toBe(3)
+  })
+
+  it('should keep quoted cells that span several lines in their row', async () => {
+    const parsedTable = {
+      headers: ['name', 'notes'],
+      rows: [
+        { name: 'Apple', notes: 'Red\nor green' },
+        { name: 'Banana', notes: 'Yellow' },
+      ],
+    }
+    const content = 'name, notes\nApple, Red\nor green\nBanana, Yellow\n'
+
+    const chunks = await new TableChunker({ chunkSize: 10 }, parsedTable).chunk(content)
+
+    expect(chunks.map((chunk) => chunk.text)).toEqual([
+      'name, notes\nApple, Red\nor green',
+      'name, notes\nBanana, Yellow',
+    ])
+    expect(chunks[1].metadata).toEqual(
+      expect.objectContaining({ rowStart: 2, rowEnd: 2, startIndex: 32 })
+    )
+    expect(content.slice(chunks[1].metadata.startIndex, chunks[1].metadata.endIndex)).toBe(
+      'Banana, Yellow'
+    )
+  })
+
+  it('should chunk each sheet of a workbook with its own header', async () => {
+    const workbook = [
+      'Sheet: Orders',
+      '=============',
+      '',
+      'id\tamount',
+      '1\t20',
+      '2\t30',
+      '',
+      'Sheet: Empty',
+      '============',
+      '',
+      '[Empty sheet]',
+      '',
+      'Sheet: Customers',
+      '================',
+      '',
+      'id\tname',
+      '7\tAda',
+    ].join('\n')
+
+    const chunks = await new TableChunker({ chunkSize: 100 }).chunk(workbook)
+
+    expect(chunks.map((chunk) => chunk.text)).toEqual([
+      'Sheet: Orders\nid\tamount\n1\t20\n2\t30',
+      'Sheet: Customers\nid\tname\n7\tAda',
+    ])
+    expect(chunks[1].metadata).toEqual(
+      expect.objectContaining({ sheet: 'Customers', rowStart: 1, rowEnd: 1 })
+    )
+  })
+})
@@ -0,0 +1,442 @@
+import { type Chunk, type ChunkerOptions, TextChunker } from '@/lib/documents/chunker'
+import { countTokens, decodeTokens, encodeTokens } from '@/lib/documents/tokenizer'
+
+/**
+ * How documents are split into chunks:
+ * - recursive: hierarchical separator splitting, the default
+ * - markdown: one chunk per heading section, prefixed with the heading path for context
+ * - sentence: windows of whole sentences that overlap by whole sentences
+ * - token: fixed windows of tokens, counted with the embedding model's tokenizer
+ * - table: groups of rows that repeat the header row, for CSV and Excel files
+ */
+export const CHUNKING_STRATEGIES = ['recursive', 'markdown', 'sentence', 'token', 'table'] as const
+
+export type ChunkingStrategy = (typeof CHUNKING_STRATEGIES)[number]
+
+export interface ChunkingOptions extends ChunkerOptions {
+  strategy?: ChunkingStrategy
+}
+
+export interface DocumentChunker {
+  chunk(text: string): Promise<Chunk[]>
+}
+
+/**
+ * Records of a table as parsed by its file parser, e.g. the `headers` and `rawData`
+ * metadata of the CSV parser. Cells may contain line breaks.
+ */
+export interface ParsedTable {
+  headers: string[]
+  rows: Record<string, unknown>[]
+}
+
+// File extensions whose parsed content is a table
+const TABULAR_EXTENSIONS = ['csv', 'xlsx', 'xls']
+
+/**
+ * Create the chunker of a strategy. The table strategy only applies to tabular files,
+ * so other files fall back to recursive chunking. Tables parsed into records are chunked
+ * by their records instead of by the lines of their content.
+ */
+export function createChunker(
+  options: ChunkingOptions,
+  filename?: string,
+  parsedTable?: ParsedTable
+): DocumentChunker {
+  switch (options.strategy) {
+    case 'markdown':
+      return new MarkdownChunker(options)
+    case 'sentence':
+      return new SentenceChunker(options)
+    case 'token':
+      return new TokenChunker(options)
+    case 'table': {
+      const extension = filename?.split('.').pop()?.toLowerCase() ?? ''
+      return TABULAR_EXTENSIONS.includes(extension)
+        ? new TableChunker(options, parsedTable)
+        : new TextChunker(options)
+    }
+    default:
+      return new TextChunker(options)
+  }
+}
+
+function normalizeLineEndings(text: string): string {
+  return text.replace(/\r\n?/g, '\n')
+}
+
+function createChunk(
+  text: string,
+  startIndex: number,
+  endIndex: number,
+  context: Omit<Chunk['metadata'], 'startIndex' | 'endIndex'> = {}
+): Chunk {
+  return {
+    text,
+    tokenCount: countTokens(text),
+    metadata: { startIndex, endIndex, ...context },
+  }
+}
+
+/**
+ * Fixed-size token windows. Consecutive windows share `overlap` tokens.
+ */
+export class TokenChunker implements DocumentChunker {
+  private readonly chunkSize: number
+  private readonly overlap: number
+
+  constructor(options: ChunkerOptions = {}) {
+    this.chunkSize = options.chunkSize ?? 512
+    this.overlap = Math.min(options.overlap ?? 0, Math.floor(this.chunkSize / 2))
+  }
+
+  async chunk(text: string): Promise<Chunk[]> {
+    return this.chunkFrom(normalizeLineEndings(text), 0)
+  }
+
+  /**
+   * Chunk text that starts at `offset` in the document
+   */
+  chunkFrom(text: string, offset: number): Chunk[] {
+    const tokens = encodeTokens(text)
+    const step = this.chunkSize - this.overlap
+    const chunks: Chunk[] = []
+
+    let startIndex = offset
+    let previousStart = 0
+    for (let start = 0; start < tokens.length; start += step) {
+      startIndex += decodeTokens(tokens.slice(previousStart, start)).length
+      previousStart = start
+
+      const window = tokens.slice(start, start + this.chunkSize)
+      const windowText = decodeTokens(window)
+      if (windowText.trim()) {
+        chunks.push({
+          text: windowText.trim(),
+          tokenCount: window.length,
+          metadata: { startIndex, endIndex: startIndex + windowText.length },
+        })
+      }
+
+      if (start + this.chunkSize >= tokens.length) break
+    }
+
+    return chunks
+  }
+}
+
+// A sentence ends with terminal punctuation, possibly followed by closing quotes or
+// brackets, and whitespace. Paragraph breaks end a sentence too.
+const SENTENCE_BOUNDARY = /[.!?]+["'\u201d)\]]*\s+|\n\s*\n/g
+
+function splitSentences(text: string): Array<{ start: number; end: number }> {
+  const sentences: Array<{ start: number; end: number }> = []
+  let start = 0
+
+  for (const match of text.matchAll(SENTENCE_BOUNDARY)) {
+    const end = (match.index ?? 0) + match[0].length
+    if (text.slice(start, end).trim()) sentences.push({ start, end })
+    start = end
+  }
+  if (text.slice(start).trim()) sentences.push({ start, end: text.length })
+
+  return sentences
+}
+
+/**
+ * Groups whole sentences into chunks of up to `chunkSize` tokens. Each chunk starts with
+ * the last sentences of the previous one, up to `overlap` tokens, so that no sentence
+ * loses its neighbours. Sentences longer than a chunk are split into token windows.
+ */
+export class SentenceChunker implements DocumentChunker {
+  private readonly chunkSize: number
+  private readonly overlap: number
+
+  constructor(options: ChunkerOptions = {}) {
+    this.chunkSize = options.chunkSize ?? 512
+    this.overlap = Math.min(options.overlap ?? 0, Math.floor(this.chunkSize / 2))
+  }
+
+  async chunk(text: string): Promise<Chunk[]> {
+    const source = normalizeLineEndings(text)
+    const sentences = splitSentences(source).map((sentence) => ({
+      ...sentence,
+      tokens: countTokens(source.slice(sentence.start, sentence.end)),
+    }))
+
+    const chunks: Chunk[] = []
+    const emit = (window: typeof sentences) => {
+      const start = window[0].start
+      const end = window[window.length - 1].end
+      chunks.push(createChunk(source.slice(start, end).trim(), start, end))
+    }
+
+    let window: typeof sentences = []
+    let windowTokens = 0
+    let hasNewSentences = false
+
+    for (const sentence of sentences) {
+      if (sentence.tokens > this.chunkSize) {
+        if (hasNewSentences) emit(window)
+        chunks.push(
+          ...new TokenChunker({ chunkSize: this.chunkSize, overlap: this.overlap }).chunkFrom(
+            source.slice(sentence.start, sentence.end),
+            sentence.start
+          )
+        )
+        window = []
+        windowTokens = 0
+        hasNewSentences = false
+        continue
+      }
+
+      if (windowTokens + sentence.tokens > this.chunkSize && hasNewSentences) {
+        emit(window)
+
+        // Carry the trailing sentences that fit into the overlap over to the next chunk
+        const carried: typeof sentences = []
+        let carriedTokens = 0
+        for (let i = window.length - 1; i > 0; i--) {
+          if (carriedTokens + window[i].tokens > this.overlap) break
+          carried.unshift(window[i])
+          carriedTokens += window[i].tokens
+        }
+        while (carried.length > 0 && carriedTokens + sentence.tokens > this.chunkSize) {
+          carriedTokens -= carried.shift()!.tokens
+        }
+
+        window = carried
+        windowTokens = carriedTokens
+      }
+
+      window.push(sentence)
+      windowTokens += sentence.tokens
+      hasNewSentences = true
+    }
+
+    if (hasNewSentences) emit(window)
+
+    return chunks
+  }
+}
+
+interface MarkdownSection {
+  headingPath: string[]
+  start: number
+  end: number
+}
+
+/**
+ * Splits Markdown into heading sections and prefixes each chunk with the path of headings
+ * above it, e.g. "Installation > Linux", so that a chunk keeps its context on its own.
+ * Sections that exceed the chunk size are split further with the recursive chunker.
+ */
+export class MarkdownChunker implements DocumentChunker {
+  private readonly options: ChunkerOptions
+  private readonly chunkSize: number
+
+  constructor(options: ChunkerOptions = {}) {
+    this.options = options
+    this.chunkSize = options.chunkSize ?? 512
+  }
+
+  private parseSections(source: string): MarkdownSection[] {
+    const sections: MarkdownSection[] = []
+    const headings: Array<{ level: number; title: string }> = []
+    let current: MarkdownSection = { headingPath: [], start: 0, end: 0 }
+    let fence: string | null = null
+    let offset = 0
+
+    for (const line of source.split('\n')) {
+      const lineStart = offset
+      offset += line.length + 1
+
+      // Headings inside fenced code blocks are code, not structure
+      const fenceMatch = line.match(/^\s*(```|~~~)/)
+      if (fenceMatch) {
+        fence = fence === null ? fenceMatch[1] : fence === fenceMatch[1] ? null : fence
+        continue
+      }
+      if (fence !== null) continue
+
+      const heading = line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/)
+      if (!heading) continue
+
+      current.end = lineStart
+      sections.push(current)
+
+      const level = heading[1].length
+      while (headings.length > 0 && headings[headings.length - 1].level >= level) {
+        headings.pop()
+      }
+      headings.push({ level, title: heading[2] })
+
+      current = {
+        headingPath: headings.map((item) => item.title),
+        start: Math.min(offset, source.length),
+        end: source.length,
+      }
+    }
+
+    current.end = source.length
+    sections.push(current)
+
+    return sections
+  }
+
+  async chunk(text: string): Promise<Chunk[]> {
+    const source = normalizeLineEndings(text)
+    const chunks: Chunk[] = []
+
+    for (const section of this.parseSections(source)) {
+      const body = source.slice(section.start, section.end)
+      if (!body.trim()) continue
+
+      const prefix = section.headingPath.length > 0 ? `${section.headingPath.join(' > ')}\n\n` : ''
+      const context = { headingPath: section.headingPath }
+      const bodyStart = section.start + (body.length - body.trimStart().length)
+
+      if (countTokens(prefix + body.trim()) <= this.chunkSize) {
+        chunks.push(
+          createChunk(prefix + body.trim(), bodyStart, bodyStart + body.trim().length, context)
+        )
+        continue
+      }
+
+      const pieces = await new TextChunker({
+        ...this.options,
+        chunkSize: Math.max(this.chunkSize - countTokens(prefix), 1),
+      }).chunk(body)
+
+      for (const piece of pieces) {
+        chunks.push(
+          createChunk(
+            prefix + piece.text,
+            bodyStart + piece.metadata.startIndex,
+            bodyStart + piece.metadata.endIndex,
+            context
+          )
+        )
+      }
+    }
+
+    return chunks
+  }
+}
+
+interface Table {
+  sheet?: string
+  start: number
+  rows: Array<{ text: string; start: number; end: number }>
+}
+
+/**
+ * Chunks the parsed content of CSV and Excel files by rows. Every chunk starts with the
+ * header row of its table, and with the sheet name for workbooks, and rows are never split.
+ * Given the parsed records of a table, rows are taken from them rather than from the lines
+ * of the content, which would split quoted cells that span several lines.
+ */
+export class TableChunker implements DocumentChunker {
+  private readonly chunkSize: number
+  private readonly parsedTable?: ParsedTable
+
+  constructor(options: ChunkerOptions = {}, parsedTable?: ParsedTable) {
+    this.chunkSize = options.chunkSize ?? 512
+    this.parsedTable = parsedTable
+  }
+
+  // Rows are formatted as the CSV parser writes its content, so offsets point into it
+  private tableFromRecords({ headers, rows }: ParsedTable): Table {
+    const table: Table = { start: 0, rows: [] }
+    let offset = 0
+    const addRow = (text: string) => {
+      table.rows.push({ text, start: offset, end: offset + text.length })
+      offset += text.length + 1
+    }
+
+    addRow(headers.join(', '))
+    for (const row of rows) {
+      addRow(Object.values(row).join(', '))
+    }
+    return table
+  }
+
+  private parseTables(source: string): Table[] {
+    const tables: Table[] = []
+    let table: Table = { start: 0, rows: [] }
+    let offset = 0
+    const lines = source.split('\n')
+
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i]
+      const lineStart = offset
+      offset += line.length + 1
+
+      // The Excel parser writes each sheet as "Sheet: <name>" underlined with "="
+      const sheet = line.match(/^Sheet: (.+)$/)
+      if (sheet && /^=+$/.test(lines[i + 1] ?? '')) {
+        if (table.rows.length > 0) tables.push(table)
+        table = { sheet: sheet[1], start: lineStart, rows: [] }
+        offset += lines[i + 1].length + 1
+        i++
+        continue
+      }
+
+      if (line.trim() && line.trim() !== '[Empty sheet]') {
+        table.rows.push({ text: line, start: lineStart, end: lineStart + line.length })
+      }
+    }
+
+    if (table.rows.length > 0) tables.push(table)
+    return tables
+  }
+
+  async chunk(text: string): Promise<Chunk[]> {
+    const tables =
+      this.parsedTable && this.parsedTable.headers.length > 0
+        ? [this.tableFromRecords(this.parsedTable)]
+        : this.parseTables(normalizeLineEndings(text))
+    const chunks: Chunk[] = []
+
+    for (const table of tables) {
+      const [header, ...rows] = table.rows
+      const heading = `${table.sheet ? `Sheet: ${table.sheet}\n` : ''}${header.text}`
+      const headingTokens = countTokens(heading)
+
+      if (rows.length === 0) {
+        chunks.push(createChunk(heading, header.start, header.end, { sheet: table.sheet }))
+        continue
+      }
+
+      let batch: typeof rows = []
+      let batchTokens = headingTokens
+      let firstRow = 1
+
+      const emit = () => {
+        const chunkText = `${heading}\n${batch.map((row) => row.text).join('\n')}`
+        chunks.push(
+          createChunk(chunkText, batch[0].start, batch[batch.length - 1].end, {
+            sheet: table.sheet,
+            rowStart: firstRow,
+            rowEnd: firstRow + batch.length - 1,
+          })
+        )
+        firstRow += batch.length
+        batch = []
+        batchTokens = headingTokens
+      }
+
+      for (const row of rows) {
+        const rowTokens = countTokens(row.text) + 1
+        if (batch.length > 0 && batchTokens + rowTokens > this.chunkSize) {
+          emit()
+        }
+        batch.push(row)
+        batchTokens += rowTokens
+      }
+      emit()
+    }
+
+    return chunks
+  }
+}
@@ -1,6 +1,7 @@
-import { type Chunk, TextChunker } from '@/lib/documents/chunker'
+import type { Chunk } from '@/lib/documents/chunker'
+import { type ChunkingStrategy, createChunker, type ParsedTable } from '@/lib/documents/chunking'
 import { env } from '@/lib/env'
-import { parseBuffer, parseFile } from '@/lib/file-parsers'
+import { type FileParseResult, parseBuffer, parseFile } from '@/lib/file-parsers'
 import { createLogger } from '@/lib/logs/console-logger'
 import { getPresignedUrlWithConfig, getStorageProvider, uploadFile } from '@/lib/uploads'
 import { BLOB_KB_CONFIG, S3_KB_CONFIG } from '@/lib/uploads/setup'
@@ -53,16 +54,7 @@ class APIError extends Error {
   }
 }
 
-/**
- * Process a document by parsing it and chunking the content
- */
-export async function processDocument(
-  fileUrl: string,
-  filename: string,
-  mimeType: string,
-  chunkSize = 1000,
-  chunkOverlap = 200
-): Promise<{
+interface ProcessedDocument {
   chunks: Chunk[]
   metadata: {
     filename: string
@@ -71,42 +63,44 @@ export async function processDocument(
     chunkCount: number
     tokenCount: number
     characterCount: number
-    processingMethod: 'file-parser' | 'mistral-ocr'
+    processingMethod: 'file-parser' | 'mistral-ocr' | 'content'
     cloudUrl?: string
   }
-}> {
+}
+
+/**
+ * Process a document by parsing it and chunking the content
+ */
+export async function processDocument(
+  fileUrl: string,
+  filename: string,
+  mimeType: string,
+  chunkSize = 1000,
+  chunkOverlap = 200,
+  strategy: ChunkingStrategy = 'recursive'
+): Promise<ProcessedDocument> {
   logger.info(`Processing document: ${filename}`)
 
   try {
     // Parse the document
-    const { content, processingMethod, cloudUrl } = await parseDocument(fileUrl, filename, mimeType)
+    const { content, processingMethod, cloudUrl, parsedTable } = await parseDocument(
+      fileUrl,
+      filename,
+      mimeType
+    )
 
-    // Create chunker and process content
-    const chunker = new TextChunker({
+    const processed = await chunkContent(
+      content,
+      filename,
       chunkSize,
-      overlap: chunkOverlap,
-    })
-
-    const chunks = await chunker.chunk(content)
-
-    // Calculate metadata
-    const characterCount = content.length
-    const tokenCount = chunks.reduce((sum: number, chunk: Chunk) => sum + chunk.tokenCount, 0)
-
-    logger.info(`Document processed successfully: ${chunks.length} chunks, ${tokenCount} tokens`)
+      chunkOverlap,
+      strategy,
+      parsedTable
+    )
 
     return {
-      chunks,
-      metadata: {
-        filename,
-        fileSize: content.length, // Using content length as file size approximation
-        mimeType,
-        chunkCount: chunks.length,
-        tokenCount,
-        characterCount,
-        processingMethod,
-        cloudUrl,
-      },
+      chunks: processed.chunks,
+      metadata: { ...processed.metadata, mimeType, processingMethod, cloudUrl },
     }
   } catch (error) {
     logger.error(`Error processing document ${filename}:`, error)
@@ -114,6 +108,63 @@ export async function processDocument(
   }
 }
 
+/**
+ * Process a document whose text content is already known, such as a page synced from
+ * a connected source, by chunking the content without downloading a file
+ */
+export async function processDocumentContent(
+  content: string,
+  filename: string,
+  mimeType: string,
+  chunkSize = 1000,
+  chunkOverlap = 200,
+  strategy: ChunkingStrategy = 'recursive'
+): Promise<ProcessedDocument> {
+  logger.info(`Processing document content: ${filename}`)
+
+  const processed = await chunkContent(content, filename, chunkSize, chunkOverlap, strategy)
+
+  return {
+    chunks: processed.chunks,
+    metadata: { ...processed.metadata, mimeType, processingMethod: 'content' },
+  }
+}
+
+async function chunkContent(
+  content: string,
+  filename: string,
+  chunkSize: number,
+  chunkOverlap: number,
+  strategy: ChunkingStrategy,
+  parsedTable?: ParsedTable
+) {
+  // Create the chunker of the knowledge base's strategy and process content
+  const chunker = createChunker(
+    { chunkSize, overlap: chunkOverlap, strategy },
+    filename,
+    parsedTable
+  )
+
+  const chunks = await chunker.chunk(content)
+
+  // Calculate metadata
+  const characterCount = content.length
+  const tokenCount = chunks.reduce((sum: number, chunk: Chunk) => sum + chunk.tokenCount, 0)
+
+  logger.info(`Document processed successfully: ${chunks.length} chunks, ${tokenCount} tokens`)
+
+  return {
+    chunks,
+    metadata: {
+      filename,
+      fileSize: content.length, // Using content length as file size approximation
+      chunkCount: chunks.length,
+      tokenCount,
+      characterCount,
+    },
+  }
+}
+
 /**
  * Parse a document from a URL or file path
  */
@@ -125,6 +176,7 @@ async function parseDocument(
   content: string
   processingMethod: 'file-parser' | 'mistral-ocr'
   cloudUrl?: string
+  parsedTable?: ParsedTable
 }> {
   // Check if we should use Mistral OCR for PDFs
   const shouldUseMistralOCR = mimeType === 'application/pdf' && env.MISTRAL_API_KEY
@@ -324,6 +376,14 @@ async function parseWithMistralOCR(
   }
 }
 
+/**
+ * Records of the tabular content that a file parser returned, such as the rows of a CSV file
+ */
+function getParsedTable(result: FileParseResult): ParsedTable | undefined {
+  const { headers, rawData } = result.metadata ?? {}
+  return Array.isArray(headers) && Array.isArray(rawData) ? { headers, rows: rawData } : undefined
+}
+
 /**
  * Parse document using standard file parser
  */
@@ -335,9 +395,10 @@ async function parseWithFileParser(
   content: string
   processingMethod: 'file-parser' | 'mistral-ocr'
   cloudUrl?: string
+  parsedTable?: ParsedTable
 }> {
   try {
-    let content: string
+    let result: FileParseResult
 
     if (fileUrl.startsWith('http://') || fileUrl.startsWith('https://')) {
       // Download and parse remote file with timeout
@@ -360,8 +421,7 @@ async function parseWithFileParser(
           throw new Error(`Could not determine file extension from filename: ${filename}`)
         }
 
-        const result = await parseBuffer(buffer, extension)
-        content = result.content
+        result = await parseBuffer(buffer, extension)
       } catch (error) {
         clearTimeout(timeoutId)
         if (error instanceof Error && error.name === 'AbortError') {
@@ -371,17 +431,17 @@ async function parseWithFileParser(
       }
     } else {
       // Parse local file
-      const result = await parseFile(fileUrl)
-      content = result.content
+      result = await parseFile(fileUrl)
     }
 
-    if (!content.trim()) {
+    if (!result.content.trim()) {
       throw new Error('File parser returned empty content')
     }
 
     return {
-      content,
+      content: result.content,
       processingMethod: 'file-parser',
+      parsedTable: getParsedTable(result),
     }
   } catch (error) {
     logger.error(`File parser failed for ${filename}:`, error)
@@ -0,0 +1,33 @@
+import { Tiktoken } from 'js-tiktoken/lite'
+import cl100kBase from 'js-tiktoken/ranks/cl100k_base'
+
+// cl100k_base is the encoding of the text-embedding-3 models
+let encoder: Tiktoken | null = null
+
+function getEncoder(): Tiktoken {
+  if (!encoder) {
+    encoder = new Tiktoken(cl100kBase)
+  }
+  return encoder
+}
+
+/**
+ * Encode text into the tokens the embedding model sees
+ */
+export function encodeTokens(text: string): number[] {
+  return getEncoder().encode(text)
+}
+
+/**
+ * Decode tokens back into text
+ */
+export function decodeTokens(tokens: number[]): string {
+  return getEncoder().decode(tokens)
+}
+
+/**
+ * Count the tokens of a text exactly, rather than estimating them
+ */
+export function countTokens(text: string): number {
+  return text ? encodeTokens(text).length : 0
+}
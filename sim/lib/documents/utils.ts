@@ -9,12 +9,16 @@ interface HTTPError extends Error {
 
 type RetryableError = HTTPError | Error | { status?: number; message?: string }
 
+export type BackoffStrategy = 'exponential' | 'linear' | 'fixed'
+
 export interface RetryOptions {
   maxRetries?: number
   initialDelayMs?: number
   maxDelayMs?: number
   backoffMultiplier?: number
+  backoffStrategy?: BackoffStrategy
   retryCondition?: (error: RetryableError) => boolean
+  signal?: AbortSignal // Stops waiting for the next attempt once aborted
 }
 
 export interface RetryResult<T> {
@@ -61,7 +65,28 @@ export function isRetryableError(error: RetryableError): boolean {
 }
 
 /**
- * Executes a function with exponential backoff retry logic
+ * Waits for the given delay, or until the signal aborts
+ */
+function waitForRetry(delayMs: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) {
+      resolve()
+      return
+    }
+    const onAbort = () => {
+      clearTimeout(timer)
+      resolve()
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, delayMs)
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+/**
+ * Executes a function with backoff retry logic (exponential unless another strategy is given)
  */
 export async function retryWithExponentialBackoff<T>(
   operation: () => Promise<T>,
@@ -72,7 +97,9 @@ export async function retryWithExponentialBackoff<T>(
     initialDelayMs = 1000,
     maxDelayMs = 30000,
     backoffMultiplier = 2,
+    backoffStrategy = 'exponential',
     retryCondition = isRetryableError,
+    signal,
   } = options
 
   let lastError: Error | undefined
@@ -112,10 +139,18 @@ export async function retryWithExponentialBackoff<T>(
         `Retrying in ${Math.round(actualDelay)}ms (attempt ${attempt + 1}/${maxRetries + 1})`
       )
 
-      await new Promise((resolve) => setTimeout(resolve, actualDelay))
+      await waitForRetry(actualDelay, signal)
 
-      // Exponential backoff
-      delay = Math.min(delay * backoffMultiplier, maxDelayMs)
+      if (signal?.aborted) {
+        logger.warn('Operation aborted while waiting to retry')
+        throw lastError
+      }
+
+      if (backoffStrategy === 'exponential') {
+        delay = Math.min(delay * backoffMultiplier, maxDelayMs)
+      } else if (backoffStrategy === 'linear') {
+        delay = Math.min(initialDelayMs * (attempt + 2), maxDelayMs)
+      }
     }
   }
 
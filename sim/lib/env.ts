@@ -32,6 +32,8 @@ export const env = createEnv({
     OPENAI_API_KEY_2: z.string().min(1).optional(),
     OPENAI_API_KEY_3: z.string().min(1).optional(),
     MISTRAL_API_KEY: z.string().min(1).optional(),
+    FIRECRAWL_API_KEY: z.string().min(1).optional(), // Reads crawled pages, Jina Reader otherwise
+    JINA_API_KEY: z.string().min(1).optional(),
     ANTHROPIC_API_KEY_1: z.string().min(1).optional(),
     ANTHROPIC_API_KEY_2: z.string().min(1).optional(),
     ANTHROPIC_API_KEY_3: z.string().min(1).optional(),
@@ -71,6 +73,7 @@ export const env = createEnv({
     ELEVENLABS_API_KEY: z.string().min(1).optional(),
     AZURE_OPENAI_ENDPOINT: z.string().url().optional(),
     AZURE_OPENAI_API_VERSION: z.string().optional(),
+    AZURE_OPENAI_API_KEY: z.string().optional(),
 
     // OAuth blocks (all optional)
     GOOGLE_CLIENT_ID: z.string().optional(),
@@ -0,0 +1,121 @@
+import { z } from 'zod'
+import { getConfluenceCloudId } from '@/tools/confluence/utils'
+import {
+  type KnowledgeSourceConnector,
+  MAX_SOURCE_DOCUMENTS,
+  SourceAPIError,
+  type SourceDocument,
+} from './types'
+
+const ConfluenceSourceConfigSchema = z.object({
+  domain: z.string().min(1, 'Domain is required'), // e.g. your-team.atlassian.net
+  spaceId: z.string().min(1, 'Space ID is required'),
+})
+
+type ConfluenceSourceConfig = z.infer<typeof ConfluenceSourceConfigSchema>
+
+// Cloud IDs of Confluence sites by domain, which do not change
+const cloudIds = new Map<string, string>()
+
+async function getApiUrl(domain: string, accessToken: string): Promise<string> {
+  let cloudId = cloudIds.get(domain)
+  if (!cloudId) {
+    cloudId = await getConfluenceCloudId(domain, accessToken)
+    cloudIds.set(domain, cloudId)
+  }
+  return `https://api.atlassian.com/ex/confluence/${cloudId}`
+}
+
+async function confluenceRequest(url: string, accessToken: string): Promise<any> {
+  const response = await fetch(url, {
+    headers: { Accept: 'application/json', Authorization: `Bearer ${accessToken}` },
+  })
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}))
+    throw new SourceAPIError(
+      `Confluence API error: ${error.message || response.statusText}`,
+      response.status
+    )
+  }
+
+  return response.json()
+}
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+}
+
+/**
+ * Convert a page in Confluence's storage format (XHTML) to Markdown-like text that keeps
+ * its headings, list items and paragraphs
+ */
+export function storageFormatToText(html: string): string {
+  return html
+    .replace(/<h([1-6])[^>]*>/gi, (_, level) => `\n\n${'#'.repeat(Number(level))} `)
+    .replace(/<li[^>]*>/gi, '\n- ')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|h[1-6]|tr|table|ul|ol|pre|blockquote)>/gi, '\n\n')
+    .replace(/<\/t[dh]>/gi, '\t')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&(#\d+|#x[\da-f]+|[a-z]+);/gi, (entity, code: string) => {
+      if (code.startsWith('#x') || code.startsWith('#X')) {
+        return String.fromCodePoint(Number.parseInt(code.slice(2), 16))
+      }
+      if (code.startsWith('#')) return String.fromCodePoint(Number(code.slice(1)))
+      return HTML_ENTITIES[code.toLowerCase()] ?? entity
+    })
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+}
+
+/**
+ * Syncs the current pages of a Confluence space
+ */
+export const confluenceConnector: KnowledgeSourceConnector<ConfluenceSourceConfig> = {
+  id: 'confluence',
+  name: 'Confluence',
+  requiresCredential: true,
+  configSchema: ConfluenceSourceConfigSchema,
+
+  async listDocuments(accessToken, config) {
+    const apiUrl = await getApiUrl(config.domain, accessToken)
+    const documents: SourceDocument[] = []
+    let nextUrl: string | undefined =
+      `${apiUrl}/wiki/api/v2/spaces/${encodeURIComponent(config.spaceId)}/pages?status=current&limit=250`
+
+    while (nextUrl && documents.length < MAX_SOURCE_DOCUMENTS) {
+      const data = await confluenceRequest(nextUrl, accessToken)
+
+      for (const page of data.results ?? []) {
+        documents.push({
+          externalId: page.id,
+          filename: page.title,
+          url: `https://${config.domain}/wiki${page._links?.webui ?? `/pages/${page.id}`}`,
+          mimeType: 'text/markdown',
+          updatedAt: new Date(page.version?.createdAt ?? page.createdAt),
+        })
+      }
+
+      // The next link is relative to the API's base URL
+      nextUrl = data._links?.next ? `${apiUrl}${data._links.next}` : undefined
+    }
+
+    return documents.slice(0, MAX_SOURCE_DOCUMENTS)
+  },
+
+  async fetchContent(accessToken, config, document) {
+    const apiUrl = await getApiUrl(config.domain, accessToken)
+    const page = await confluenceRequest(
+      `${apiUrl}/wiki/api/v2/pages/${encodeURIComponent(document.externalId)}?body-format=storage`,
+      accessToken
+    )
+    return storageFormatToText(page.body?.storage?.value ?? '')
+  },
+}
@@ -0,0 +1,144 @@
+import { z } from 'zod'
+import { parseBuffer } from '@/lib/file-parsers'
+import {
+  type KnowledgeSourceConnector,
+  MAX_SOURCE_DOCUMENTS,
+  SourceAPIError,
+  type SourceDocument,
+} from './types'
+
+const DRIVE_FILES_URL = 'https://www.googleapis.com/drive/v3/files'
+
+const FOLDER_MIME_TYPE = 'application/vnd.google-apps.folder'
+
+// Google Workspace files are exported as text, with the extension of the export format
+const EXPORT_FORMATS: Record<string, { mimeType: string; extension: string }> = {
+  'application/vnd.google-apps.document': { mimeType: 'text/plain', extension: 'txt' },
+  'application/vnd.google-apps.spreadsheet': { mimeType: 'text/csv', extension: 'csv' },
+  'application/vnd.google-apps.presentation': { mimeType: 'text/plain', extension: 'txt' },
+}
+
+// Uploaded files that the file parsers can read
+const PARSEABLE_EXTENSIONS: Record<string, string> = {
+  'application/pdf': 'pdf',
+  'text/plain': 'txt',
+  'text/markdown': 'md',
+  'text/csv': 'csv',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': 'xlsx',
+  'application/vnd.ms-excel': 'xls',
+}
+
+const GoogleDriveSourceConfigSchema = z.object({
+  folderId: z.string().min(1, 'Folder ID is required'),
+})
+
+type GoogleDriveSourceConfig = z.infer<typeof GoogleDriveSourceConfigSchema>
+
+interface DriveFile {
+  id: string
+  name: string
+  mimeType: string
+  modifiedTime: string
+  webViewLink?: string
+}
+
+async function driveRequest(url: string, accessToken: string): Promise<Response> {
+  const response = await fetch(url, { headers: { Authorization: `Bearer ${accessToken}` } })
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}))
+    throw new SourceAPIError(
+      `Google Drive API error: ${error.error?.message || response.statusText}`,
+      response.status
+    )
+  }
+
+  return response
+}
+
+function toFilename(file: DriveFile): string {
+  const exportFormat = EXPORT_FORMATS[file.mimeType]
+  return exportFormat ? `${file.name}.${exportFormat.extension}` : file.name
+}
+
+/**
+ * Syncs the files of a Drive folder and its subfolders. Google Docs, Sheets and Slides
+ * are exported as text; other files are downloaded and parsed if their type is supported.
+ */
+export const googleDriveConnector: KnowledgeSourceConnector<GoogleDriveSourceConfig> = {
+  id: 'google-drive',
+  name: 'Google Drive',
+  requiresCredential: true,
+  configSchema: GoogleDriveSourceConfigSchema,
+
+  async listDocuments(accessToken, config) {
+    const documents: SourceDocument[] = []
+    const folders = [config.folderId]
+    const visited = new Set<string>()
+
+    while (folders.length > 0 && documents.length < MAX_SOURCE_DOCUMENTS) {
+      const folderId = folders.shift()!
+      if (visited.has(folderId)) continue
+      visited.add(folderId)
+
+      let pageToken: string | undefined
+      do {
+        const params = new URLSearchParams({
+          q: `'${folderId.replace(/'/g, "\\'")}' in parents and trashed=false`,
+          fields: 'nextPageToken,files(id,name,mimeType,modifiedTime,webViewLink)',
+          pageSize: '1000',
+        })
+        if (pageToken) params.set('pageToken', pageToken)
+
+        const response = await driveRequest(`${DRIVE_FILES_URL}?${params}`, accessToken)
+        const data: { files?: DriveFile[]; nextPageToken?: string } = await response.json()
+
+        for (const file of data.files ?? []) {
+          if (file.mimeType === FOLDER_MIME_TYPE) {
+            folders.push(file.id)
+          } else if (EXPORT_FORMATS[file.mimeType] || PARSEABLE_EXTENSIONS[file.mimeType]) {
+            documents.push({
+              externalId: file.id,
+              filename: toFilename(file),
+              url: file.webViewLink || `https://drive.google.com/file/d/${file.id}/view`,
+              mimeType: EXPORT_FORMATS[file.mimeType]?.mimeType ?? file.mimeType,
+              updatedAt: new Date(file.modifiedTime),
+            })
+          }
+        }
+
+        pageToken = data.nextPageToken
+      } while (pageToken && documents.length < MAX_SOURCE_DOCUMENTS)
+    }
+
+    return documents.slice(0, MAX_SOURCE_DOCUMENTS)
+  },
+
+  async fetchContent(accessToken, _config, document) {
+    const fileUrl = `${DRIVE_FILES_URL}/${encodeURIComponent(document.externalId)}`
+    const extension = document.filename.split('.').pop()?.toLowerCase() ?? ''
+
+    // Exported Google Workspace files keep their native type in Drive
+    const metadata = await driveRequest(`${fileUrl}?fields=mimeType`, accessToken)
+    const { mimeType } = await metadata.json()
+
+    const exportFormat = EXPORT_FORMATS[mimeType]
+    if (exportFormat) {
+      const response = await driveRequest(
+        `${fileUrl}/export?mimeType=${encodeURIComponent(exportFormat.mimeType)}`,
+        accessToken
+      )
+      return response.text()
+    }
+
+    const response = await driveRequest(`${fileUrl}?alt=media`, accessToken)
+    if (extension === 'txt' || extension === 'md') {
+      return response.text()
+    }
+
+    const buffer = Buffer.from(await response.arrayBuffer())
+    const parsed = await parseBuffer(buffer, PARSEABLE_EXTENSIONS[mimeType] ?? extension)
+    return parsed.content
+  },
+}
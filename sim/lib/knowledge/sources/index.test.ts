@@ -0,0 +1,270 @@
+/**
+ * @vitest-environment node
+ *
+ * Knowledge Source Connector Unit Tests
+ */
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+vi.mock('@/lib/env', () => ({ env: {} }))
+
+vi.mock('@/lib/file-parsers', () => ({
+  parseBuffer: vi.fn().mockResolvedValue({ content: 'parsed pdf' }),
+}))
+
+// The crawler's requests go through safeFetch, which checks the addresses of real hosts
+vi.mock('@/lib/urls/safe-fetch', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/urls/safe-fetch')>()),
+  assertPublicUrl: vi.fn().mockResolvedValue(undefined),
+  safeFetch: (...args: unknown[]) => mockFetch(...args),
+}))
+
+import { storageFormatToText } from './confluence'
+import { getKnowledgeSourceConnector } from './index'
+import { isPageInScope } from './website'
+
+const mockFetch = vi.fn()
+vi.stubGlobal('fetch', mockFetch)
+
+function jsonResponse(body: unknown) {
+  return Promise.resolve({ ok: true, json: () => Promise.resolve(body) })
+}
+
+function htmlResponse(html: string, headers: Record<string, string> = {}) {
+  return Promise.resolve({
+    ok: true,
+    headers: new Headers({ 'content-type': 'text/html; charset=utf-8', ...headers }),
+    text: () => Promise.resolve(html),
+  })
+}
+
+describe('Google Drive connector', () => {
+  beforeEach(() => {
+    mockFetch.mockReset()
+  })
+
+  it('should list supported files of a folder and its subfolders', async () => {
+    mockFetch.mockImplementation((url: string) => {
+      const query = new URL(url).searchParams.get('q')
+      if (query?.startsWith("'root-folder'")) {
+        return jsonResponse({
+          files: [
+            {
+              id: 'doc-1',
+              name: 'Handbook',
+              mimeType: 'application/vnd.google-apps.document',
+              modifiedTime: '2025-01-01T00:00:00.000Z',
+            },
+            { id: 'sub', name: 'Sub', mimeType: 'application/vnd.google-apps.folder' },
+            { id: 'img', name: 'logo.png', mimeType: 'image/png', modifiedTime: '2025-01-01' },
+          ],
+        })
+      }
+      return jsonResponse({
+        files: [
+          {
+            id: 'sheet-1',
+            name: 'Prices',
+            mimeType: 'application/vnd.google-apps.spreadsheet',
+            modifiedTime: '2025-02-01T00:00:00.000Z',
+          },
+        ],
+      })
+    })
+
+    const documents = await getKnowledgeSourceConnector('google-drive').listDocuments('token', {
+      folderId: 'root-folder',
+    })
+
+    expect(documents.map((doc) => [doc.filename, doc.mimeType])).toEqual([
+      ['Handbook.txt', 'text/plain'],
+      ['Prices.csv', 'text/csv'],
+    ])
+    expect(documents[0].updatedAt).toEqual(new Date('2025-01-01T00:00:00.000Z'))
+  })
+})
+
+describe('Notion connector', () => {
+  beforeEach(() => {
+    mockFetch.mockReset()
+  })
+
+  it('should render pages and their nested blocks as Markdown', async () => {
+    mockFetch.mockImplementation((url: string) => {
+      if (url.includes('/blocks/page-1/children')) {
+        return jsonResponse({
+          results: [
+            {
+              id: 'b1',
+              type: 'heading_1',
+              heading_1: { rich_text: [{ plain_text: 'Setup' }] },
+            },
+            {
+              id: 'b2',
+              type: 'toggle',
+              has_children: true,
+              toggle: { rich_text: [{ plain_text: 'Details' }] },
+            },
+            { id: 'b3', type: 'child_page', has_children: true, child_page: { title: 'Other' } },
+          ],
+          has_more: false,
+        })
+      }
+      return jsonResponse({
+        results: [
+          {
+            id: 'b4',
+            type: 'paragraph',
+            paragraph: { rich_text: [{ plain_text: 'Nested ' }, { plain_text: 'text' }] },
+          },
+        ],
+        has_more: false,
+      })
+    })
+
+    const content = await getKnowledgeSourceConnector('notion').fetchContent(
+      'token',
+      { databaseId: 'db-1' },
+      {
+        externalId: 'page-1',
+        filename: 'Setup',
+        url: '',
+        mimeType: 'text/markdown',
+        updatedAt: new Date(),
+      }
+    )
+
+    expect(content).toBe('# Setup\n\n- Details\n\nNested text')
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+  })
+})
+
+describe('Confluence connector', () => {
+  beforeEach(() => {
+    mockFetch.mockReset()
+  })
+
+  it('should follow the next links of a space', async () => {
+    mockFetch.mockImplementation((url: string) => {
+      if (url.includes('accessible-resources')) {
+        return jsonResponse([{ id: 'cloud-1', url: 'https://team.atlassian.net' }])
+      }
+      if (url.includes('cursor=2')) {
+        return jsonResponse({
+          results: [{ id: '2', title: 'Two', version: { createdAt: '2025-01-02' } }],
+          _links: {},
+        })
+      }
+      return jsonResponse({
+        results: [
+          {
+            id: '1',
+            title: 'One',
+            version: { createdAt: '2025-01-01' },
+            _links: { webui: '/spaces/ENG/pages/1' },
+          },
+        ],
+        _links: { next: '/wiki/api/v2/spaces/42/pages?cursor=2' },
+      })
+    })
+
+    const documents = await getKnowledgeSourceConnector('confluence').listDocuments('token', {
+      domain: 'team.atlassian.net',
+      spaceId: '42',
+    })
+
+    expect(documents.map((doc) => doc.externalId)).toEqual(['1', '2'])
+    expect(documents[0].url).toBe('https://team.atlassian.net/wiki/spaces/ENG/pages/1')
+    expect(mockFetch).toHaveBeenLastCalledWith(
+      'https://api.atlassian.com/ex/confluence/cloud-1/wiki/api/v2/spaces/42/pages?cursor=2',
+      expect.anything()
+    )
+  })
+
+  it('should convert the storage format to text', () => {
+    const html =
+      '<h2>Deploy</h2><p>Run <code>make</code> &amp; wait.</p><ul><li>One</li><li>Two</li></ul>'
+
+    expect(storageFormatToText(html)).toBe('## Deploy\n\nRun make & wait.\n\n- One\n- Two')
+  })
+})
+
+describe('Website connector', () => {
+  const config = {
+    url: 'https://docs.example.com/guide/',
+    maxDepth: 1,
+    maxPages: 200,
+    includePaths: [],
+    excludePaths: ['/guide/changelog*'],
+    useSitemap: true,
+  }
+
+  beforeEach(() => {
+    mockFetch.mockReset()
+  })
+
+  it('should crawl the sitemap and the links of the start page within scope', async () => {
+    mockFetch.mockImplementation((url: string) => {
+      if (url === 'https://docs.example.com/sitemap.xml') {
+        return Promise.resolve({
+          ok: true,
+          headers: new Headers({ 'content-type': 'application/xml' }),
+          text: () =>
+            Promise.resolve(
+              '<urlset><url><loc>https://docs.example.com/guide/install</loc><lastmod>2025-03-01</lastmod></url><url><loc>https://docs.example.com/blog/news</loc></url></urlset>'
+            ),
+        })
+      }
+      if (url === 'https://docs.example.com/guide') {
+        return htmlResponse(
+          '<a href="/guide/usage#top">Usage</a><a href="changelog">Changes</a><a href="https://other.com/guide/x">Other</a>'
+        )
+      }
+      return htmlResponse('<a href="/guide/deeper">Too deep</a>')
+    })
+
+    const documents = await getKnowledgeSourceConnector('website').listDocuments('', config)
+
+    expect(documents.map((doc) => doc.url)).toEqual([
+      'https://docs.example.com/guide/install',
+      'https://docs.example.com/guide',
+      'https://docs.example.com/guide/usage',
+    ])
+    expect(documents[0].updatedAt).toEqual(new Date('2025-03-01'))
+    expect(documents[0].filename).toBe('docs.example.com/guide/install')
+  })
+
+  it('should read pages as Markdown with Jina Reader', async () => {
+    mockFetch.mockReturnValue(
+      Promise.resolve({ ok: true, text: () => Promise.resolve('# Install') })
+    )
+
+    const content = await getKnowledgeSourceConnector('website').fetchContent('', config, {
+      externalId: 'https://docs.example.com/guide/install',
+      filename: 'docs.example.com/guide/install',
+      url: 'https://docs.example.com/guide/install',
+      mimeType: 'text/markdown',
+      updatedAt: new Date(),
+    })
+
+    expect(content).toBe('# Install')
+    expect(mockFetch.mock.calls[0][0]).toBe(
+      'https://r.jina.ai/https://docs.example.com/guide/install'
+    )
+  })
+
+  it('should keep pages to the include and exclude patterns', () => {
+    const scoped = { ...config, includePaths: ['/guide/api/*'] }
+
+    expect(isPageInScope(new URL('https://docs.example.com/guide/api/users'), scoped)).toBe(true)
+    expect(isPageInScope(new URL('https://docs.example.com/guide/usage'), scoped)).toBe(false)
+    expect(isPageInScope(new URL('https://docs.example.com/guide/changelog/1'), config)).toBe(false)
+  })
+
+  it('should not crawl private addresses', () => {
+    const result = getKnowledgeSourceConnector('website').configSchema.safeParse({
+      url: 'http://169.254.169.254/latest/meta-data',
+    })
+
+    expect(result.success).toBe(false)
+  })
+})
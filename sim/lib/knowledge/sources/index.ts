@@ -0,0 +1,25 @@
+import { confluenceConnector } from './confluence'
+import { googleDriveConnector } from './google-drive'
+import { notionConnector } from './notion'
+import type { KnowledgeSourceConnector, KnowledgeSourceProvider } from './types'
+import { websiteConnector } from './website'
+
+export * from './types'
+
+export const knowledgeSourceConnectors: Record<KnowledgeSourceProvider, KnowledgeSourceConnector> =
+  {
+    'google-drive': googleDriveConnector,
+    notion: notionConnector,
+    confluence: confluenceConnector,
+    website: websiteConnector,
+  }
+
+export function getKnowledgeSourceConnector(
+  provider: KnowledgeSourceProvider
+): KnowledgeSourceConnector {
+  const connector = knowledgeSourceConnectors[provider]
+  if (!connector) {
+    throw new Error(`Unknown knowledge source provider: ${provider}`)
+  }
+  return connector
+}
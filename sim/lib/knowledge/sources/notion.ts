@@ -0,0 +1,156 @@
+import { z } from 'zod'
+import {
+  type KnowledgeSourceConnector,
+  MAX_SOURCE_DOCUMENTS,
+  SourceAPIError,
+  type SourceDocument,
+} from './types'
+
+const NOTION_API_URL = 'https://api.notion.com/v1'
+const NOTION_VERSION = '2022-06-28'
+
+// Levels of nested blocks, such as toggles and list items, whose children are read
+const MAX_BLOCK_DEPTH = 3
+
+const NotionSourceConfigSchema = z.object({
+  databaseId: z.string().min(1, 'Database ID is required'),
+})
+
+type NotionSourceConfig = z.infer<typeof NotionSourceConfigSchema>
+
+async function notionRequest(
+  path: string,
+  accessToken: string,
+  body?: Record<string, unknown>
+): Promise<any> {
+  const response = await fetch(`${NOTION_API_URL}${path}`, {
+    method: body ? 'POST' : 'GET',
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      'Notion-Version': NOTION_VERSION,
+      'Content-Type': 'application/json',
+    },
+    body: body ? JSON.stringify(body) : undefined,
+  })
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}))
+    throw new SourceAPIError(
+      `Notion API error: ${error.message || response.statusText}`,
+      response.status
+    )
+  }
+
+  return response.json()
+}
+
+function plainText(richText: Array<{ plain_text?: string }> | undefined): string {
+  return (richText ?? []).map((text) => text.plain_text ?? '').join('')
+}
+
+function getPageTitle(page: any): string {
+  const titleProperty = Object.values(page.properties ?? {}).find(
+    (property: any) => property.type === 'title'
+  ) as { title?: Array<{ plain_text?: string }> } | undefined
+  return plainText(titleProperty?.title) || 'Untitled'
+}
+
+/**
+ * Render a block as a line of Markdown, so that the markdown chunking strategy can
+ * follow the headings of Notion pages
+ */
+function blockToMarkdown(block: any): string {
+  const value = block[block.type] ?? {}
+  const text = plainText(value.rich_text)
+
+  switch (block.type) {
+    case 'heading_1':
+      return `# ${text}`
+    case 'heading_2':
+      return `## ${text}`
+    case 'heading_3':
+      return `### ${text}`
+    case 'bulleted_list_item':
+    case 'toggle':
+      return `- ${text}`
+    case 'numbered_list_item':
+      return `1. ${text}`
+    case 'to_do':
+      return `- [${value.checked ? 'x' : ' '}] ${text}`
+    case 'quote':
+    case 'callout':
+      return `> ${text}`
+    case 'code':
+      return `\`\`\`${value.language ?? ''}\n${text}\n\`\`\``
+    default:
+      return text
+  }
+}
+
+async function readBlocks(blockId: string, accessToken: string, depth = 0): Promise<string[]> {
+  const lines: string[] = []
+  let cursor: string | undefined
+
+  do {
+    const params = new URLSearchParams({ page_size: '100' })
+    if (cursor) params.set('start_cursor', cursor)
+
+    const data = await notionRequest(`/blocks/${blockId}/children?${params}`, accessToken)
+
+    for (const block of data.results ?? []) {
+      const line = blockToMarkdown(block)
+      if (line.trim()) lines.push(line)
+
+      // Child pages and databases are documents of their own, not part of this page
+      if (block.has_children && depth < MAX_BLOCK_DEPTH && !block.type.startsWith('child_')) {
+        lines.push(...(await readBlocks(block.id, accessToken, depth + 1)))
+      }
+    }
+
+    cursor = data.has_more ? data.next_cursor : undefined
+  } while (cursor)
+
+  return lines
+}
+
+/**
+ * Syncs the pages of a Notion database, rendered as Markdown
+ */
+export const notionConnector: KnowledgeSourceConnector<NotionSourceConfig> = {
+  id: 'notion',
+  name: 'Notion',
+  requiresCredential: true,
+  configSchema: NotionSourceConfigSchema,
+
+  async listDocuments(accessToken, config) {
+    const documents: SourceDocument[] = []
+    let cursor: string | undefined
+
+    do {
+      const data = await notionRequest(`/databases/${config.databaseId}/query`, accessToken, {
+        page_size: 100,
+        ...(cursor ? { start_cursor: cursor } : {}),
+      })
+
+      for (const page of data.results ?? []) {
+        if (page.archived) continue
+        documents.push({
+          externalId: page.id,
+          filename: getPageTitle(page),
+          url: page.url,
+          mimeType: 'text/markdown',
+          updatedAt: new Date(page.last_edited_time),
+        })
+      }
+
+      cursor = data.has_more ? data.next_cursor : undefined
+    } while (cursor && documents.length < MAX_SOURCE_DOCUMENTS)
+
+    return documents.slice(0, MAX_SOURCE_DOCUMENTS)
+  },
+
+  async fetchContent(accessToken, _config, document) {
+    const lines = await readBlocks(document.externalId, accessToken)
+    return lines.join('\n\n')
+  },
+}
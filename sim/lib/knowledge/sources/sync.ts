@@ -0,0 +1,336 @@
+import crypto from 'crypto'
+import { and, eq, inArray, isNull, lt, lte, ne, or, sql } from 'drizzle-orm'
+import { createLogger } from '@/lib/logs/console-logger'
+import { refreshAccessTokenIfNeeded } from '@/app/api/auth/oauth/utils'
+import type { DocumentTags } from '@/app/api/knowledge/tags'
+import { type KnowledgeBaseChunkingConfig, processDocumentAsync } from '@/app/api/knowledge/utils'
+import { db } from '@/db'
+import { document, embedding, knowledgeBase, knowledgeBaseSource } from '@/db/schema'
+import { getKnowledgeSourceConnector } from './index'
+import type { KnowledgeSourceProvider, SourceDocument } from './types'
+
+const logger = createLogger('KnowledgeSourceSync')
+
+// Sources synced per run of the sync job
+const SOURCES_PER_RUN = 10
+
+// A sync that has not made progress in this time is assumed to have died with its process
+const STALE_SYNC_MS = 30 * 60 * 1000
+
+/**
+ * Whether a source is free to sync: not syncing, or syncing without progress for so long
+ * that its process must have stopped
+ */
+function isClaimable(now: Date) {
+  return or(
+    ne(knowledgeBaseSource.status, 'syncing'),
+    lt(knowledgeBaseSource.updatedAt, new Date(now.getTime() - STALE_SYNC_MS))
+  )
+}
+
+export interface SourceSyncResult {
+  added: number
+  updated: number
+  unchanged: number
+  deleted: number
+  failed: number
+}
+
+function hashContent(content: string): string {
+  return crypto.createHash('sha256').update(content).digest('hex')
+}
+
+/**
+ * Bring the documents of a knowledge base in line with its source: new files and pages
+ * are added, changed ones are processed again and ones removed from the source are
+ * deleted. Documents whose modification time and content did not change are skipped,
+ * and changed documents reuse the embeddings of their unchanged chunks.
+ *
+ * @returns The counts of synced documents, or null if the source is already syncing
+ */
+export async function syncKnowledgeSource(
+  sourceId: string,
+  requestId: string
+): Promise<SourceSyncResult | null> {
+  const now = new Date()
+
+  // Claim the source so that the schedule and a manual sync cannot run it twice
+  const claimed = await db
+    .update(knowledgeBaseSource)
+    .set({ status: 'syncing', updatedAt: now })
+    .where(
+and(eq(knowledgeBaseSource.id, sourceId), isClaimable(now))
+    )
+    .returning()
+
+  if (claimed.length === 0) {
+    logger.info(`[${requestId}] Source ${sourceId} is already syncing, skipping`)
+    return null
+  }
+
+  const source = claimed[0]
+
+  try {
+    const kb = await db
+      .select({ chunkingConfig: knowledgeBase.chunkingConfig })
+      .from(knowledgeBase)
+      .where(and(eq(knowledgeBase.id, source.knowledgeBaseId), isNull(knowledgeBase.deletedAt)))
+      .limit(1)
+
+    if (kb.length === 0) {
+      throw new Error('Knowledge base not found')
+    }
+
+    const connector = getKnowledgeSourceConnector(source.provider as KnowledgeSourceProvider)
+    const config = connector.configSchema.parse(source.config)
+
+    let accessToken = ''
+    if (connector.requiresCredential) {
+      const token = source.credentialId
+        ? await refreshAccessTokenIfNeeded(source.credentialId, source.userId, requestId)
+        : null
+      if (!token) {
+        throw new Error(`Failed to obtain a valid ${connector.name} access token`)
+      }
+      accessToken = token
+    }
+
+    const listed = await connector.listDocuments(accessToken, config)
+
+    const existing = await db
+      .select({
+        id: document.id,
+        externalId: document.externalId,
+        externalUpdatedAt: document.externalUpdatedAt,
+        contentHash: document.contentHash,
+        processingStatus: document.processingStatus,
+        tokenCount: document.tokenCount,
+        tags: document.tags,
+      })
+      .from(document)
+      .where(and(eq(document.sourceId, source.id), isNull(document.deletedAt)))
+    const existingByExternalId = new Map(existing.map((doc) => [doc.externalId, doc]))
+
+    const chunkingConfig = kb[0].chunkingConfig as KnowledgeBaseChunkingConfig
+    const processingOptions = {
+      chunkSize: chunkingConfig.maxSize,
+      minCharactersPerChunk: chunkingConfig.minSize,
+      chunkOverlap: chunkingConfig.overlap,
+      strategy: chunkingConfig.strategy,
+      recipe: 'default',
+      lang: 'en',
+    }
+
+    const result: SourceSyncResult = { added: 0, updated: 0, unchanged: 0, deleted: 0, failed: 0 }
+
+    // One document at a time, like re-chunking, to stay within the APIs' rate limits
+    for (const listedDoc of listed) {
+      const existingDoc = existingByExternalId.get(listedDoc.externalId)
+      const failedBefore = existingDoc?.processingStatus === 'failed'
+
+      if (
+        existingDoc &&
+        !failedBefore &&
+        existingDoc.externalUpdatedAt?.getTime() === listedDoc.updatedAt.getTime()
+      ) {
+        result.unchanged++
+        continue
+      }
+
+      try {
+        const content = await connector.fetchContent(accessToken, config, listedDoc)
+        const contentHash = hashContent(content)
+
+        // Metadata changes such as a rename or a touch do not need processing
+        if (existingDoc && !failedBefore && existingDoc.contentHash === contentHash) {
+          await db
+            .update(document)
+            .set({ filename: listedDoc.filename, externalUpdatedAt: listedDoc.updatedAt })
+            .where(eq(document.id, existingDoc.id))
+          result.unchanged++
+          continue
+        }
+
+        const documentId = existingDoc?.id ?? crypto.randomUUID()
+        await saveSourceDocument(source, documentId, listedDoc, content, contentHash, !existingDoc)
+
+        await processDocumentAsync(
+          source.knowledgeBaseId,
+          documentId,
+          {
+            filename: listedDoc.filename,
+            fileUrl: listedDoc.url,
+            fileSize: Buffer.byteLength(content),
+            mimeType: listedDoc.mimeType,
+            tags: (existingDoc?.tags ?? {}) as DocumentTags,
+            content,
+          },
+          processingOptions
+        )
+
+        if (existingDoc) {
+          result.updated++
+        } else {
+          result.added++
+        }
+
+        // Progress keeps a long sync from being taken for one that died
+        await db
+          .update(knowledgeBaseSource)
+          .set({ updatedAt: new Date() })
+          .where(eq(knowledgeBaseSource.id, source.id))
+      } catch (error) {
+        logger.error(
+          `[${requestId}] Failed to sync ${listedDoc.filename} from source ${source.id}:`,
+          error
+        )
+        result.failed++
+      }
+    }
+
+    // Documents that are gone from the source are deleted along with their chunks, which
+    // would otherwise still be found by searches, and their tokens
+    const listedIds = new Set(listed.map((doc) => doc.externalId))
+    const removed = existing.filter((doc) => doc.externalId && !listedIds.has(doc.externalId))
+    if (removed.length > 0) {
+      await deleteSourceDocuments(source.knowledgeBaseId, removed)
+      result.deleted = removed.length
+    }
+
+    const finishedAt = new Date()
+    await db
+      .update(knowledgeBaseSource)
+      .set({
+        status: 'idle',
+        lastSyncedAt: finishedAt,
+        nextSyncAt: new Date(finishedAt.getTime() + source.syncIntervalMinutes * 60 * 1000),
+        lastError: null,
+        updatedAt: finishedAt,
+      })
+      .where(eq(knowledgeBaseSource.id, source.id))
+
+    logger.info(`[${requestId}] Synced source ${source.id}`, result)
+    return result
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    logger.error(`[${requestId}] Failed to sync source ${source.id}:`, error)
+
+    const failedAt = new Date()
+    await db
+      .update(knowledgeBaseSource)
+      .set({
+        status: 'failed',
+        lastError: errorMessage,
+        nextSyncAt: new Date(failedAt.getTime() + source.syncIntervalMinutes * 60 * 1000),
+        updatedAt: failedAt,
+      })
+      .where(eq(knowledgeBaseSource.id, source.id))
+
+    throw error
+  }
+}
+
+/**
+ * Create or update the document record of a file or page before it is processed
+ */
+async function saveSourceDocument(
+  source: typeof knowledgeBaseSource.$inferSelect,
+  documentId: string,
+  listedDoc: SourceDocument,
+  content: string,
+  contentHash: string,
+  isNew: boolean
+): Promise<void> {
+  const values = {
+    filename: listedDoc.filename,
+    fileUrl: listedDoc.url,
+    fileSize: Buffer.byteLength(content),
+    mimeType: listedDoc.mimeType,
+    externalUpdatedAt: listedDoc.updatedAt,
+    contentHash,
+    processingStatus: 'pending',
+  }
+
+  if (isNew) {
+    await db.insert(document).values({
+      id: documentId,
+      knowledgeBaseId: source.knowledgeBaseId,
+      sourceId: source.id,
+      externalId: listedDoc.externalId,
+      uploadedAt: new Date(),
+      ...values,
+    })
+  } else {
+    await db.update(document).set(values).where(eq(document.id, documentId))
+  }
+}
+
+/**
+ * Soft delete documents that were removed from their source, remove their chunks and take
+ * their tokens off the knowledge base
+ */
+async function deleteSourceDocuments(
+  knowledgeBaseId: string,
+  documents: Array<{ id: string; tokenCount: number }>
+): Promise<void> {
+  const ids = documents.map((doc) => doc.id)
+  const removedTokens = documents.reduce((sum, doc) => sum + doc.tokenCount, 0)
+  const now = new Date()
+
+  await db.transaction(async (tx) => {
+    await tx.delete(embedding).where(inArray(embedding.documentId, ids))
+
+    await tx
+      .update(document)
+      .set({ deletedAt: now, chunkCount: 0, tokenCount: 0, characterCount: 0 })
+      .where(inArray(document.id, ids))
+
+    await tx
+      .update(knowledgeBase)
+      .set({
+        tokenCount: sql`greatest(${knowledgeBase.tokenCount} - ${removedTokens}, 0)`,
+        updatedAt: now,
+      })
+      .where(eq(knowledgeBase.id, knowledgeBaseId))
+  })
+}
+
+/**
+ * Sync the enabled sources whose next sync is due, one at a time. Sources whose sync
+ * stopped making progress are synced again.
+ */
+export async function syncDueKnowledgeSources(requestId: string): Promise<{
+  total: number
+  synced: number
+  failed: number
+}> {
+  const now = new Date()
+  const dueSources = await db
+    .select({ id: knowledgeBaseSource.id })
+    .from(knowledgeBaseSource)
+    .where(
+      and(
+        eq(knowledgeBaseSource.enabled, true),
+        isClaimable(now),
+        or(isNull(knowledgeBaseSource.nextSyncAt), lte(knowledgeBaseSource.nextSyncAt, now))
+      )
+    )
+    .limit(SOURCES_PER_RUN)
+
+  logger.info(`[${requestId}] Found ${dueSources.length} knowledge sources due for a sync`)
+
+  let synced = 0
+  let failed = 0
+
+  for (const source of dueSources) {
+    try {
+      const result = await syncKnowledgeSource(source.id, requestId)
+      if (result) synced++
+    } catch {
+      // The error is recorded on the source
+      failed++
+    }
+  }
+
+  return { total: dueSources.length, synced, failed }
+}
@@ -0,0 +1,57 @@
+import type { z } from 'zod'
+
+/**
+ * Services a knowledge base can sync documents from. Except for crawled websites, each is
+ * also the ID of the OAuth provider whose credentials the connector uses.
+ */
+export const KNOWLEDGE_SOURCE_PROVIDERS = [
+  'google-drive',
+  'notion',
+  'confluence',
+  'website',
+] as const
+
+export type KnowledgeSourceProvider = (typeof KNOWLEDGE_SOURCE_PROVIDERS)[number]
+
+// Documents synced per source at most, so that a large drive cannot flood a knowledge base
+export const MAX_SOURCE_DOCUMENTS = 1000
+
+/**
+ * A file or page of a source, as listed before its content is fetched
+ */
+export interface SourceDocument {
+  externalId: string
+  filename: string
+  url: string
+  mimeType: string
+  updatedAt: Date
+}
+
+export interface KnowledgeSourceConnector<Config = any> {
+  id: KnowledgeSourceProvider
+  name: string
+  // Whether the source syncs with an OAuth credential of the provider
+  requiresCredential: boolean
+  // What a source links, e.g. a folder, database or space
+  configSchema: z.ZodType<Config, z.ZodTypeDef, unknown>
+
+  /**
+   * List the documents the source currently contains
+   */
+  listDocuments(accessToken: string, config: Config): Promise<SourceDocument[]>
+
+  /**
+   * Fetch the text content of a listed document
+   */
+  fetchContent(accessToken: string, config: Config, document: SourceDocument): Promise<string>
+}
+
+export class SourceAPIError extends Error {
+  public status: number
+
+  constructor(message: string, status: number) {
+    super(message)
+    this.name = 'SourceAPIError'
+    this.status = status
+  }
+}
@@ -0,0 +1,301 @@
+import { isIP } from 'net'
+import { z } from 'zod'
+import { env } from '@/lib/env'
+import { assertPublicUrl, isPublicAddress, safeFetch } from '@/lib/urls/safe-fetch'
+import { scrapeTool } from '@/tools/firecrawl/scrape'
+import { readUrlTool } from '@/tools/jina/read_url'
+import type { ToolConfig, ToolResponse } from '@/tools/types'
+import {
+  type KnowledgeSourceConnector,
+  MAX_SOURCE_DOCUMENTS,
+  SourceAPIError,
+  type SourceDocument,
+} from './types'
+
+// Time allowed for fetching a page or sitemap while crawling
+const CRAWL_REQUEST_TIMEOUT_MS = 15000
+
+// Time allowed for Firecrawl or Jina Reader to convert a page to Markdown
+const PAGE_READ_TIMEOUT_MS = 60000
+
+// Redirects followed while crawling; each hop must be public as well
+const MAX_CRAWL_REDIRECTS = 5
+
+const WebsiteSourceConfigSchema = z.object({
+  url: z
+    .string()
+    .url('A valid URL is required')
+    .refine((url) => isCrawlableUrl(new URL(url)), 'Only public http(s) URLs can be crawled'),
+  // Links followed from the start page; 0 only reads the start page and the sitemap
+  maxDepth: z.number().int().min(0).max(5).default(2),
+  maxPages: z.number().int().min(1).max(MAX_SOURCE_DOCUMENTS).default(200),
+  // Path patterns such as "/docs/*"; "*" matches any characters
+  includePaths: z.array(z.string()).default([]),
+  excludePaths: z.array(z.string()).default([]),
+  useSitemap: z.boolean().default(true),
+})
+
+type WebsiteSourceConfig = z.infer<typeof WebsiteSourceConfigSchema>
+
+/**
+ * A quick check of the configured URL. Hostnames are resolved, and every address and
+ * redirect checked, when the site is crawled.
+ */
+function isCrawlableUrl(url: URL): boolean {
+  const hostname = url.hostname.replace(/^\[(.*)\]$/, '$1')
+  return (
+    (url.protocol === 'http:' || url.protocol === 'https:') &&
+    (!isIP(hostname) || isPublicAddress(hostname))
+  )
+}
+
+function pathPatternToRegExp(pattern: string): RegExp {
+  const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*')
+  return new RegExp(`^${escaped}$`)
+}
+
+/**
+ * Whether a page belongs to the crawl: it must be on the site of the start URL and below
+ * its path, match an include pattern if there are any, and match no exclude pattern
+ */
+export function isPageInScope(url: URL, config: WebsiteSourceConfig): boolean {
+  const start = new URL(config.url)
+  // The directory of the start page, without a trailing slash
+  const basePath = start.pathname.slice(0, start.pathname.lastIndexOf('/'))
+  const inBasePath = url.pathname === basePath || url.pathname.startsWith(`${basePath}/`)
+
+  if (url.origin !== start.origin || !inBasePath) return false
+  if (!isCrawlableUrl(url)) return false
+
+  const matches = (patterns: string[]) =>
+    patterns.some((pattern) => pathPatternToRegExp(pattern).test(url.pathname))
+
+  if (config.includePaths.length > 0 && !matches(config.includePaths)) return false
+  return !matches(config.excludePaths)
+}
+
+/**
+ * Normalize a URL so that the same page is only crawled once
+ */
+function normalizeUrl(href: string, base: string): URL | null {
+  try {
+    const url = new URL(href, base)
+    url.hash = ''
+    if (url.pathname.length > 1 && url.pathname.endsWith('/')) {
+      url.pathname = url.pathname.slice(0, -1)
+    }
+    return url
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Fetch a page or sitemap of the crawled site, refusing hosts that resolve to private
+ * networks at every redirect hop. Reading the body counts toward the timeout.
+ *
+ * @param contentType - Content type the response must have, if any
+ * @returns The body and modification time, or null if the request failed
+ */
+async function fetchFromSite(
+  url: string,
+  headers: Record<string, string> = {},
+  contentType?: string
+): Promise<{ text: string; lastModified: string | null } | null> {
+  const controller = new AbortController()
+  const timeoutId = setTimeout(() => controller.abort(), CRAWL_REQUEST_TIMEOUT_MS)
+
+  try {
+    const response = await safeFetch(url, {
+      headers,
+      signal: controller.signal,
+      maxRedirects: MAX_CRAWL_REDIRECTS,
+    })
+
+    const type = response.headers.get('content-type') ?? ''
+    if (!response.ok || (contentType && !type.includes(contentType))) {
+      await response.body?.cancel()
+      return null
+    }
+
+    return { text: await response.text(), lastModified: response.headers.get('last-modified') }
+  } catch {
+    return null
+  } finally {
+    clearTimeout(timeoutId)
+  }
+}
+
+function extractLinks(html: string): string[] {
+  return Array.from(html.matchAll(/<a\s[^>]*href\s*=\s*["']([^"'#][^"']*)["']/gi), (match) =>
+    match[1].replace(/&amp;/g, '&')
+  )
+}
+
+/**
+ * Read the pages listed by the sitemap of a site, following one level of sitemap indexes
+ */
+async function readSitemap(origin: string): Promise<Array<{ url: string; lastModified?: Date }>> {
+  const pages: Array<{ url: string; lastModified?: Date }> = []
+  const sitemaps = [`${origin}/sitemap.xml`]
+
+  for (let i = 0; i < sitemaps.length && i <= 10; i++) {
+    const sitemap = await fetchFromSite(sitemaps[i])
+    if (!sitemap) continue
+
+    const xml = sitemap.text
+    for (const entry of xml.matchAll(/<(url|sitemap)>([\s\S]*?)<\/\1>/g)) {
+      const loc = entry[2].match(/<loc>\s*([^<\s]+)\s*<\/loc>/)?.[1]
+      if (!loc) continue
+
+      if (entry[1] === 'sitemap') {
+        if (i === 0) sitemaps.push(loc)
+        continue
+      }
+
+      const lastmod = entry[2].match(/<lastmod>\s*([^<\s]+)\s*<\/lastmod>/)?.[1]
+      const lastModified = lastmod ? new Date(lastmod) : undefined
+      pages.push({
+        url: loc,
+        lastModified:
+          lastModified && !Number.isNaN(lastModified.getTime()) ? lastModified : undefined,
+      })
+    }
+  }
+
+  return pages
+}
+
+/**
+ * Send the request of a tool, the way its block would, within the page read timeout
+ */
+async function requestTool<P, R extends ToolResponse>(
+  tool: ToolConfig<P, R>,
+  params: P
+): Promise<R> {
+  const { request } = tool
+  const url = typeof request.url === 'function' ? request.url(params) : request.url
+
+  const controller = new AbortController()
+  const timeoutId = setTimeout(() => controller.abort(), PAGE_READ_TIMEOUT_MS)
+
+  try {
+    const response = await fetch(url, {
+      method: request.method,
+      headers: request.headers(params),
+      body: request.body ? JSON.stringify(request.body(params)) : undefined,
+      signal: controller.signal,
+    })
+
+    if (!response.ok) {
+      throw new SourceAPIError(`${tool.name} error: ${response.statusText}`, response.status)
+    }
+
+    if (!tool.transformResponse) {
+      throw new Error(`${tool.name} has no response transformer`)
+    }
+    return await tool.transformResponse(response, params)
+  } catch (error) {
+    if (error instanceof Error && error.name === 'AbortError') {
+      throw new Error(`${tool.name} timed out after ${PAGE_READ_TIMEOUT_MS}ms`)
+    }
+    throw error
+  } finally {
+    clearTimeout(timeoutId)
+  }
+}
+
+/**
+ * Convert a page to Markdown with the Firecrawl tool if it is configured, or with the
+ * Jina Reader tool
+ */
+async function readPage(url: string): Promise<string> {
+  if (env.FIRECRAWL_API_KEY) {
+    const result = await requestTool(scrapeTool, {
+      apiKey: env.FIRECRAWL_API_KEY,
+      url,
+      scrapeOptions: { formats: ['markdown'] },
+    })
+    return result.output.markdown ?? ''
+  }
+
+  const result = await requestTool(readUrlTool, { url, apiKey: env.JINA_API_KEY })
+  return result.output.content
+}
+
+/**
+ * Crawls a website from a start URL, following links up to a depth and reading the
+ * site's sitemap, and syncs its pages as Markdown. Pages without a known modification
+ * time are read on every sync, and only processed again when their content changed.
+ */
+export const websiteConnector: KnowledgeSourceConnector<WebsiteSourceConfig> = {
+  id: 'website',
+  name: 'Website',
+  requiresCredential: false,
+  configSchema: WebsiteSourceConfigSchema,
+
+  async listDocuments(_accessToken, config) {
+    // Fails the sync with a clear error, before any request, if the site became private
+    await assertPublicUrl(config.url)
+
+    const crawledAt = new Date()
+    const pages = new Map<string, Date>()
+
+    const addPage = (url: URL, lastModified?: Date) => {
+      if (pages.size >= config.maxPages || !isPageInScope(url, config)) return false
+      if (!pages.has(url.href)) pages.set(url.href, lastModified ?? crawledAt)
+      return true
+    }
+
+    if (config.useSitemap) {
+      for (const page of await readSitemap(new URL(config.url).origin)) {
+        const url = normalizeUrl(page.url, config.url)
+        if (url) addPage(url, page.lastModified)
+      }
+    }
+
+    // Breadth-first crawl of the links from the start page
+    let frontier = [normalizeUrl(config.url, config.url)!]
+    const visited = new Set<string>()
+
+    for (let depth = 0; depth <= config.maxDepth && frontier.length > 0; depth++) {
+      const next: URL[] = []
+
+      for (const url of frontier) {
+        if (visited.has(url.href) || pages.size >= config.maxPages) continue
+        visited.add(url.href)
+
+        const page = await fetchFromSite(url.href, { Accept: 'text/html' }, 'text/html')
+        if (!page) continue
+
+        if (!pages.has(url.href) && isPageInScope(url, config)) {
+          addPage(url, page.lastModified ? new Date(page.lastModified) : undefined)
+        }
+
+        if (depth < config.maxDepth) {
+          for (const href of extractLinks(page.text)) {
+            const link = normalizeUrl(href, url.href)
+            if (link && !visited.has(link.href) && isPageInScope(link, config)) next.push(link)
+          }
+        }
+      }
+
+      frontier = next
+    }
+
+    return Array.from(pages, ([url, updatedAt]): SourceDocument => {
+      const { hostname, pathname } = new URL(url)
+      return {
+        externalId: url,
+        filename: `${hostname}${pathname === '/' ? '' : pathname}`,
+        url,
+        mimeType: 'text/markdown',
+        updatedAt,
+      }
+    })
+  },
+
+  async fetchContent(_accessToken, _config, document) {
+    return readPage(document.url)
+  },
+}
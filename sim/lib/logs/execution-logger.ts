@@ -713,14 +713,20 @@ export async function persistExecutionLogs(
       }
     }
 
-    // Log the final execution result
+    // Log the final execution result. Cancelled runs keep the logs of the blocks that ran
+    // and record how long they ran before they were stopped.
+    const isCancelled = !!result.metadata?.isCancelled
     await persistLog({
       id: uuidv4(),
       workflowId,
       executionId,
-      level: result.success ? 'info' : 'error',
-      message: result.success ? successMessage : `${errorPrefix} execution failed: ${result.error}`,
-      duration: result.success ? `${actualDuration}ms` : 'NA',
+      level: result.success ? 'info' : isCancelled ? 'warn' : 'error',
+      message: result.success
+        ? successMessage
+        : isCancelled
+          ? `${errorPrefix} execution cancelled`
+          : `${errorPrefix} execution failed: ${result.error}`,
+      duration: result.success || isCancelled ? `${actualDuration}ms` : 'NA',
       trigger: triggerType,
       createdAt: new Date(),
       metadata: workflowMetadata,
@@ -253,6 +253,21 @@ export function buildTraceSpans(result: ExecutionResult): {
       }
     }
 
+    // Show each attempt of a retried block as its own child span
+    if (log.attempts && log.attempts.length > 1) {
+      const attemptSpans: TraceSpan[] = log.attempts.map((attempt) => ({
+        id: `${spanId}-attempt-${attempt.attempt}`,
+        name: `Attempt ${attempt.attempt}${attempt.error ? `: ${attempt.error}` : ''}`,
+        type: 'attempt',
+        duration: attempt.durationMs,
+        startTime: attempt.startedAt,
+        endTime: attempt.endedAt,
+        status: attempt.success ? 'success' : 'error',
+        children: [],
+      }))
+      span.children = [...attemptSpans, ...(span.children || [])]
+    }
+
     // Store in map
     spanMap.set(spanId, span)
   })
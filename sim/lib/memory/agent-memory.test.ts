@@ -0,0 +1,223 @@
+/**
+ * @vitest-environment node
+ *
+ * Agent Memory Unit Tests
+ *
+ * Tests for the sliding window, rolling summary and semantic memory of Agent blocks.
+ */
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+const selectResults: unknown[][] = []
+const insertedValues: any[] = []
+const upsertedData: unknown[] = []
+const mockUpdate = vi.fn()
+const mockDelete = vi.fn()
+
+const selectChain: any = {
+  from: () => selectChain,
+  where: () => selectChain,
+  orderBy: () => selectChain,
+  limit: () => Promise.resolve(selectResults.shift() ?? []),
+}
+
+vi.mock('@/db', () => ({
+  db: {
+    select: vi.fn(() => selectChain),
+    insert: vi.fn(() => ({
+      values: vi.fn((values) => {
+        insertedValues.push(values)
+        return {
+          onConflictDoUpdate: vi.fn(() =>
+            Object.assign(Promise.resolve(undefined), {
+              returning: () => Promise.resolve([{ data: upsertedData.shift() }]),
+            })
+          ),
+        }
+      }),
+    })),
+    update: (...args: unknown[]) => {
+      mockUpdate(...args)
+      return { set: () => ({ where: () => Promise.resolve() }) }
+    },
+    delete: (...args: unknown[]) => {
+      mockDelete(...args)
+      return { where: () => Promise.resolve() }
+    },
+  },
+}))
+
+const mockExecuteProviderRequest = vi.fn()
+vi.mock('@/providers', () => ({
+  executeProviderRequest: (...args: unknown[]) => mockExecuteProviderRequest(...args),
+}))
+
+vi.mock('@/providers/utils', () => ({
+  getProviderFromModel: () => 'openai',
+}))
+
+const mockGenerateEmbeddings = vi.fn()
+vi.mock('@/providers/embeddings', () => ({
+  DEFAULT_EMBEDDING_MODEL: 'text-embedding-3-small',
+  generateEmbeddings: (...args: unknown[]) => mockGenerateEmbeddings(...args),
+}))
+
+import {
+  type AgentMemoryMessage,
+  loadAgentMemory,
+  recordAgentMemory,
+  selectWindow,
+} from './agent-memory'
+
+const scope = { workflowId: 'workflow-1', conversationId: 'user-1', key: 'agent-block-1' }
+
+function turns(count: number): AgentMemoryMessage[] {
+  return Array.from({ length: count }, (_, i) => ({
+    role: i % 2 === 0 ? ('user' as const) : ('assistant' as const),
+    content: `message number ${i} of the conversation`,
+  }))
+}
+
+describe('Agent memory', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    selectResults.length = 0
+    insertedValues.length = 0
+    upsertedData.length = 0
+  })
+
+  describe('selectWindow', () => {
+    it('should keep the most recent messages that fit in the token budget', () => {
+      const messages = turns(10)
+
+      const window = selectWindow(messages, 40)
+
+      expect(window.length).toBeGreaterThan(0)
+      expect(window.length).toBeLessThan(messages.length)
+      expect(window).toEqual(messages.slice(messages.length - window.length))
+    })
+
+    it('should return no messages when even the last one does not fit', () => {
+      expect(selectWindow(turns(2), 1)).toEqual([])
+    })
+  })
+
+  describe('loadAgentMemory', () => {
+    it('should return the summary with the messages it does not cover', async () => {
+      const conversation = turns(6)
+      selectResults.push(
+        [{ data: conversation }],
+        [{ data: { content: 'The user likes tea.', summarizedCount: 4 } }]
+      )
+
+      const memory = await loadAgentMemory(scope, 'summary', 4000)
+
+      expect(memory.context).toContain('The user likes tea.')
+      expect(memory.messages).toEqual(conversation.slice(4))
+    })
+
+    it('should retrieve earlier turns that fall outside the window', async () => {
+      selectResults.push([{ data: turns(10) }], [{ content: 'User: my name is Ada' }])
+      mockGenerateEmbeddings.mockResolvedValue([[0.1, 0.2]])
+
+      const memory = await loadAgentMemory(scope, 'semantic', 40, 'What is my name?')
+
+      expect(mockGenerateEmbeddings).toHaveBeenCalledWith(
+        ['What is my name?'],
+        'text-embedding-3-small'
+      )
+      expect(memory.context).toContain('User: my name is Ada')
+      expect(memory.messages.length).toBeLessThan(10)
+    })
+
+    it('should not search for earlier turns while the whole conversation fits', async () => {
+      selectResults.push([{ data: turns(2) }])
+
+      const memory = await loadAgentMemory(scope, 'semantic', 4000, 'Hello')
+
+      expect(mockGenerateEmbeddings).not.toHaveBeenCalled()
+      expect(memory).toEqual({ context: null, messages: turns(2) })
+    })
+  })
+
+  describe('recordAgentMemory', () => {
+    it('should fold older messages into the summary once they exceed the budget', async () => {
+      upsertedData.push([...turns(10), ...turns(2)])
+      selectResults.push([])
+      mockExecuteProviderRequest.mockResolvedValue({ content: 'A summary.' })
+
+      await recordAgentMemory(scope, turns(2), 'summary', 60, { model: 'gpt-4o', apiKey: 'key' })
+
+      expect(insertedValues[0]).toMatchObject({ key: 'agent-block-1', type: 'agent' })
+      expect(insertedValues[0].data).toEqual(turns(2))
+
+      const request = mockExecuteProviderRequest.mock.calls[0][1]
+      expect(request).toMatchObject({ model: 'gpt-4o', apiKey: 'key' })
+      expect(request.messages[0].content).toContain('User: message number 0')
+
+      const summary = insertedValues[1]
+      expect(summary).toMatchObject({ key: 'agent-block-1:summary', type: 'summary' })
+      expect(summary.data.content).toBe('A summary.')
+      expect(summary.data.summarizedCount).toBeGreaterThan(0)
+      expect(summary.data.summarizedCount).toBeLessThan(12)
+    })
+
+    it('should embed each recorded turn for semantic retrieval', async () => {
+      const messages: AgentMemoryMessage[] = [
+        { role: 'user', content: 'My name is Ada' },
+        { role: 'assistant', content: 'Nice to meet you, Ada' },
+      ]
+      upsertedData.push([...turns(4), ...messages])
+      mockGenerateEmbeddings.mockResolvedValue([[0.3, 0.4]])
+
+      await recordAgentMemory(scope, messages, 'semantic', 4000, { model: 'gpt-4o' })
+
+      expect(insertedValues[1]).toMatchObject({
+        ...scope,
+        messageIndex: 4,
+        content: 'User: My name is Ada\nAssistant: Nice to meet you, Ada',
+        embedding: [0.3, 0.4],
+      })
+    })
+
+    it('should clear the summary and embeddings of a conversation that starts over', async () => {
+      upsertedData.push(turns(2))
+      selectResults.push([])
+
+      await recordAgentMemory(scope, turns(2), 'summary', 4000, { model: 'gpt-4o' })
+
+      expect(mockUpdate).toHaveBeenCalledTimes(1)
+      expect(mockDelete).toHaveBeenCalledTimes(1)
+    })
+
+    it('should keep the summary and embeddings while the conversation goes on', async () => {
+      upsertedData.push(turns(4))
+      selectResults.push([])
+
+      await recordAgentMemory(scope, turns(2), 'summary', 4000, { model: 'gpt-4o' })
+
+      expect(mockUpdate).not.toHaveBeenCalled()
+      expect(mockDelete).not.toHaveBeenCalled()
+    })
+
+    it('should keep the recorded messages when the summary fails', async () => {
+      upsertedData.push(turns(12))
+      selectResults.push([])
+      mockExecuteProviderRequest.mockRejectedValue(new Error('Rate limited'))
+
+      await expect(
+        recordAgentMemory(scope, turns(2), 'summary', 60, { model: 'gpt-4o', apiKey: 'key' })
+      ).resolves.toBeUndefined()
+      expect(insertedValues).toHaveLength(1)
+    })
+
+    it('should not summarize without an API key', async () => {
+      upsertedData.push(turns(12))
+      selectResults.push([])
+
+      await recordAgentMemory(scope, turns(2), 'summary', 60, { model: 'gpt-4o' })
+
+      expect(mockExecuteProviderRequest).not.toHaveBeenCalled()
+      expect(insertedValues).toHaveLength(1)
+    })
+  })
+})
@@ -0,0 +1,399 @@
+import { and, eq, isNull, lt, sql } from 'drizzle-orm'
+import { countTokens } from '@/lib/documents/tokenizer'
+import { createLogger } from '@/lib/logs/console-logger'
+import { db } from '@/db'
+import { memory, memoryEmbedding } from '@/db/schema'
+import { executeProviderRequest } from '@/providers'
+import { DEFAULT_EMBEDDING_MODEL, generateEmbeddings } from '@/providers/embeddings'
+import type { ProviderResponse } from '@/providers/types'
+import { getProviderFromModel } from '@/providers/utils'
+
+const logger = createLogger('AgentMemory')
+
+/**
+ * How an Agent block remembers earlier turns of a conversation:
+ * - window: the most recent messages that fit in the token budget
+ * - summary: a rolling summary of older messages, followed by the most recent ones
+ * - semantic: the earlier turns most similar to the new message, followed by the most
+ *   recent messages
+ */
+export const AGENT_MEMORY_STRATEGIES = ['window', 'summary', 'semantic'] as const
+
+export type AgentMemoryStrategy = (typeof AGENT_MEMORY_STRATEGIES)[number]
+
+export const DEFAULT_MEMORY_TOKEN_BUDGET = 4000
+
+// Earlier turns retrieved by the semantic strategy
+const RETRIEVED_MEMORIES = 5
+
+// Cosine distance above which a retrieved turn is considered unrelated
+const RETRIEVAL_DISTANCE_THRESHOLD = 0.6
+
+const SUMMARY_PROMPT =
+  'You maintain the memory of a conversation between a user and an assistant. Update the existing summary with the new messages. Keep facts about the user, their preferences, decisions made and open questions. Write the summary in the third person and reply with the summary only.'
+
+export interface AgentMemoryMessage {
+  role: 'system' | 'user' | 'assistant'
+  content: string
+}
+
+/**
+ * Where the memory of an agent is stored. Conversations are kept apart by conversation ID,
+ * which is empty for a memory shared by every run of the workflow.
+ */
+export interface AgentMemoryScope {
+  workflowId: string
+  conversationId: string
+  key: string
+}
+
+/**
+ * The memory given to the model: context for the system prompt, such as a summary or
+ * retrieved turns, and the most recent messages of the conversation
+ */
+export interface AgentMemoryContext {
+  context: string | null
+  messages: AgentMemoryMessage[]
+}
+
+/**
+ * The model that writes summaries, normally the model of the agent itself
+ */
+export interface SummaryModelConfig {
+  model: string
+  apiKey?: string
+  azureEndpoint?: string
+  azureApiVersion?: string
+}
+
+interface ConversationSummary {
+  content: string
+  // Number of messages, from the start of the conversation, covered by the summary
+  summarizedCount: number
+}
+
+function getSummaryKey(key: string): string {
+  return `${key}:summary`
+}
+
+function messageTokens(message: AgentMemoryMessage): number {
+  // A few tokens of overhead per message for the role
+  return countTokens(message.content) + 4
+}
+
+/**
+ * The most recent messages whose tokens fit in the budget, in conversation order
+ */
+export function selectWindow(
+  messages: AgentMemoryMessage[],
+  tokenBudget: number
+): AgentMemoryMessage[] {
+  let tokens = 0
+  let start = messages.length
+
+  while (start > 0) {
+    const next = messageTokens(messages[start - 1])
+    if (tokens + next > tokenBudget) break
+    tokens += next
+    start--
+  }
+
+  return messages.slice(start)
+}
+
+function formatTranscript(messages: AgentMemoryMessage[]): string {
+  return messages
+    .map((message) => `${message.role === 'user' ? 'User' : 'Assistant'}: ${message.content}`)
+    .join('\n')
+}
+
+function scopeConditions(table: typeof memory | typeof memoryEmbedding, scope: AgentMemoryScope) {
+  return [
+    eq(table.workflowId, scope.workflowId),
+    eq(table.conversationId, scope.conversationId),
+    eq(table.key, scope.key),
+  ]
+}
+
+async function getMemoryData(scope: AgentMemoryScope, key: string): Promise<unknown> {
+  const rows = await db
+    .select({ data: memory.data })
+    .from(memory)
+    .where(and(...scopeConditions(memory, { ...scope, key }), isNull(memory.deletedAt)))
+    .limit(1)
+
+  return rows.length > 0 ? rows[0].data : null
+}
+
+async function getConversation(scope: AgentMemoryScope): Promise<AgentMemoryMessage[]> {
+  const data = await getMemoryData(scope, scope.key)
+  return Array.isArray(data) ? (data as AgentMemoryMessage[]) : []
+}
+
+async function getSummary(scope: AgentMemoryScope): Promise<ConversationSummary | null> {
+  return (await getMemoryData(scope, getSummaryKey(scope.key))) as ConversationSummary | null
+}
+
+async function saveMemoryData(
+  scope: AgentMemoryScope,
+  key: string,
+  type: string,
+  data: unknown
+): Promise<void> {
+  const now = new Date()
+  await db
+    .insert(memory)
+    .values({
+      id: `mem_${crypto.randomUUID().replace(/-/g, '')}`,
+      workflowId: scope.workflowId,
+      conversationId: scope.conversationId,
+      key,
+      type,
+      data,
+      createdAt: now,
+      updatedAt: now,
+    })
+    .onConflictDoUpdate({
+      target: [memory.workflowId, memory.conversationId, memory.key],
+      set: { data, type, updatedAt: now, deletedAt: null },
+    })
+}
+
+/**
+ * Append messages to the conversation in a single statement, so that concurrent turns
+ * do not overwrite each other's messages. Returns the whole conversation.
+ */
+async function appendToConversation(
+  scope: AgentMemoryScope,
+  messages: AgentMemoryMessage[]
+): Promise<AgentMemoryMessage[]> {
+  const now = new Date()
+  const appended = JSON.stringify(messages)
+  const rows = await db
+    .insert(memory)
+    .values({
+      id: `mem_${crypto.randomUUID().replace(/-/g, '')}`,
+      workflowId: scope.workflowId,
+      conversationId: scope.conversationId,
+      key: scope.key,
+      type: 'agent',
+      data: messages,
+      createdAt: now,
+      updatedAt: now,
+    })
+    .onConflictDoUpdate({
+      target: [memory.workflowId, memory.conversationId, memory.key],
+      set: {
+        // A deleted conversation starts over
+        data: sql`case when ${memory.deletedAt} is null and json_typeof(${memory.data}) = 'array'
+          then (${memory.data}::jsonb || ${appended}::jsonb)::json
+          else ${appended}::json end`,
+        type: 'agent',
+        updatedAt: now,
+        deletedAt: null,
+      },
+    })
+    .returning({ data: memory.data })
+
+  const data = rows[0]?.data
+  return Array.isArray(data) ? (data as AgentMemoryMessage[]) : messages
+}
+
+/**
+ * Remove what was derived from a conversation, its summary and the embeddings of its
+ * turns, once the conversation is deleted or starts over. A new conversation under the
+ * same key would otherwise be summarized on top of, or retrieve turns of, the old one.
+ */
+export async function clearDerivedAgentMemory(scope: AgentMemoryScope): Promise<void> {
+  const now = new Date()
+  await Promise.all([
+    db
+      .update(memory)
+      .set({ deletedAt: now, updatedAt: now })
+      .where(
+        and(
+          ...scopeConditions(memory, { ...scope, key: getSummaryKey(scope.key) }),
+          isNull(memory.deletedAt)
+        )
+      ),
+    db.delete(memoryEmbedding).where(and(...scopeConditions(memoryEmbedding, scope))),
+  ])
+}
+
+/**
+ * Retrieve the earlier turns most similar to the query, leaving out the ones from
+ * `beforeIndex` on, which the model already sees as recent messages
+ */
+async function retrieveMemories(
+  scope: AgentMemoryScope,
+  query: string,
+  beforeIndex: number
+): Promise<string[]> {
+  const [queryEmbedding] = await generateEmbeddings([query], DEFAULT_EMBEDDING_MODEL)
+  const queryVector = JSON.stringify(queryEmbedding)
+
+  const results = await db
+    .select({ content: memoryEmbedding.content })
+    .from(memoryEmbedding)
+    .where(
+      and(
+        ...scopeConditions(memoryEmbedding, scope),
+        eq(memoryEmbedding.embeddingModel, DEFAULT_EMBEDDING_MODEL),
+        lt(memoryEmbedding.messageIndex, beforeIndex),
+        sql`${memoryEmbedding.embedding} <=> ${queryVector}::vector < ${RETRIEVAL_DISTANCE_THRESHOLD}`
+      )
+    )
+    .orderBy(sql`${memoryEmbedding.embedding} <=> ${queryVector}::vector`)
+    .limit(RETRIEVED_MEMORIES)
+
+  return results.map((result) => result.content)
+}
+
+/**
+ * Load the memory of an agent for a new turn of the conversation
+ *
+ * @param query - The new user message, used by the semantic strategy to find related turns
+ */
+export async function loadAgentMemory(
+  scope: AgentMemoryScope,
+  strategy: AgentMemoryStrategy,
+  tokenBudget: number,
+  query?: string
+): Promise<AgentMemoryContext> {
+  const conversation = await getConversation(scope)
+
+  if (strategy === 'summary') {
+    const summary = await getSummary(scope)
+    const recent = conversation.slice(summary?.summarizedCount ?? 0)
+    return {
+      context: summary?.content ? `Summary of the earlier conversation:\n${summary.content}` : null,
+      messages: selectWindow(recent, tokenBudget),
+    }
+  }
+
+  const messages = selectWindow(conversation, tokenBudget)
+
+  if (strategy === 'semantic' && query) {
+    const windowStart = conversation.length - messages.length
+    const memories = windowStart > 0 ? await retrieveMemories(scope, query, windowStart) : []
+    return {
+      context:
+        memories.length > 0
+          ? `Relevant parts of the earlier conversation:\n\n${memories.join('\n\n')}`
+          : null,
+      messages,
+    }
+  }
+
+  return { context: null, messages }
+}
+
+async function summarize(
+  previousSummary: string | undefined,
+  messages: AgentMemoryMessage[],
+  summaryModel: SummaryModelConfig
+): Promise<string> {
+  const providerId = getProviderFromModel(summaryModel.model)
+  // The memory API can be called without a run of the agent, so it never falls back to
+  // the hosted keys
+  if (!summaryModel.apiKey && providerId !== 'ollama') {
+    throw new Error(`An API key is required to summarize with ${summaryModel.model}`)
+  }
+  const transcript = formatTranscript(messages)
+
+  const response = (await executeProviderRequest(providerId, {
+    model: summaryModel.model,
+    systemPrompt: SUMMARY_PROMPT,
+    messages: [
+      {
+        role: 'user',
+        content: previousSummary
+          ? `Existing summary:\n${previousSummary}\n\nNew messages:\n${transcript}`
+          : `New messages:\n${transcript}`,
+      },
+    ],
+    temperature: 0,
+    apiKey: summaryModel.apiKey ?? '',
+    azureEndpoint: summaryModel.azureEndpoint,
+    azureApiVersion: summaryModel.azureApiVersion,
+  })) as ProviderResponse
+
+  if (!response.content?.trim()) {
+    throw new Error('The model returned an empty summary')
+  }
+
+  return response.content.trim()
+}
+
+/**
+ * Fold the oldest unsummarized messages into the summary once they no longer fit in the
+ * token budget. Half of the budget stays with the most recent messages so that the
+ * summary is not rewritten on every turn.
+ */
+async function updateSummary(
+  scope: AgentMemoryScope,
+  conversation: AgentMemoryMessage[],
+  tokenBudget: number,
+  summaryModel: SummaryModelConfig
+): Promise<void> {
+  const summary = await getSummary(scope)
+  const summarizedCount = summary?.summarizedCount ?? 0
+  const unsummarized = conversation.slice(summarizedCount)
+
+  const unsummarizedTokens = unsummarized.reduce((sum, message) => sum + messageTokens(message), 0)
+  if (unsummarizedTokens <= tokenBudget) return
+
+  const kept = selectWindow(unsummarized, Math.floor(tokenBudget / 2))
+  const older = unsummarized.slice(0, unsummarized.length - kept.length)
+  if (older.length === 0) return
+
+  const content = await summarize(summary?.content, older, summaryModel)
+  await saveMemoryData(scope, getSummaryKey(scope.key), 'summary', {
+    content,
+    summarizedCount: summarizedCount + older.length,
+  } satisfies ConversationSummary)
+}
+
+/**
+ * Record a turn of the conversation in the memory of an agent. The summary strategy
+ * updates the rolling summary and the semantic strategy embeds the turn for retrieval.
+ * Failures are logged, since the messages themselves are already saved: a failed summary
+ * is retried with the next turn, while a turn whose embedding failed is left out of
+ * retrieval and only reaches the model through the window of recent messages.
+ */
+export async function recordAgentMemory(
+  scope: AgentMemoryScope,
+  messages: AgentMemoryMessage[],
+  strategy: AgentMemoryStrategy,
+  tokenBudget: number,
+  summaryModel: SummaryModelConfig
+): Promise<void> {
+  const conversation = await appendToConversation(scope, messages)
+  const messageIndex = conversation.length - messages.length
+
+  try {
+    // The conversation is new or was deleted, so nothing derived from earlier turns applies
+    if (messageIndex === 0) {
+      await clearDerivedAgentMemory(scope)
+    }
+
+    if (strategy === 'summary') {
+      await updateSummary(scope, conversation, tokenBudget, summaryModel)
+    }
+
+    if (strategy === 'semantic') {
+      const content = formatTranscript(messages)
+      const [vector] = await generateEmbeddings([content], DEFAULT_EMBEDDING_MODEL)
+      await db.insert(memoryEmbedding).values({
+        id: crypto.randomUUID(),
+        ...scope,
+        messageIndex,
+        content,
+        embedding: vector,
+        embeddingModel: DEFAULT_EMBEDDING_MODEL,
+      })
+    }
+  } catch (error) {
+    logger.error(`Failed to update the ${strategy} memory of ${scope.key}`, error)
+  }
+}
@@ -0,0 +1,126 @@
+/**
+ * Source of the sandbox process that runs Function block code. It is evaluated as a
+ * CommonJS script, so it is kept as plain JavaScript instead of being bundled.
+ *
+ * The user code runs in a vm context without `process` or `require`, and code
+ * generation from strings is disabled both in that context and, once the allow-listed
+ * packages are loaded, in the process itself. A vm context is not a security boundary
+ * though: objects of the process, such as `fetch` errors, lead back to its globals.
+ * That is why the code runs in its own process, which holds nothing but its input.
+ */
+export const JAVASCRIPT_WORKER_SOURCE = `
+const vm = require('node:vm')
+
+const send = (message) => process.send(message)
+
+// Errors come from the context's realm, so they are recognised by shape rather than instanceof
+const isError = (arg) => !!arg && typeof arg.message === 'string' && typeof arg.name === 'string'
+const format = (args) =>
+  args
+    .map((arg) =>
+      typeof arg === 'object' && !isError(arg) ? JSON.stringify(arg) : String(arg)
+    )
+    .join(' ')
+
+const loadModules = (packages) => {
+  const modules = {}
+  for (const [name, entryPath] of Object.entries(packages)) {
+    modules[name] = require(entryPath)
+  }
+  if (modules.lodash) {
+    // Templates compile strings into functions of the process
+    const unavailable = () => {
+      throw new Error('lodash.template is not available in the sandbox')
+    }
+    modules.lodash.template = unavailable
+    modules.lodash.runInContext = unavailable
+  }
+  return modules
+}
+
+const lockDownProcess = () => {
+  for (const fn of [function () {}, async function () {}, function* () {}, async function* () {}]) {
+    Object.defineProperty(Object.getPrototypeOf(fn), 'constructor', { value: undefined })
+  }
+  globalThis.eval = undefined
+  process.binding = undefined
+  process._linkedBinding = undefined
+  process.dlopen = undefined
+  // Signals could reach other processes of the same user, such as the app itself
+  process.kill = undefined
+  process._kill = undefined
+}
+
+const run = ({ code, params, envVars, isCustomTool, packages, timeout }) => {
+  const modules = loadModules(packages)
+  lockDownProcess()
+
+  const context = vm.createContext(
+    {
+      params,
+      environmentVariables: envVars,
+      fetch: globalThis.fetch,
+      setTimeout,
+      clearTimeout,
+      URL,
+      URLSearchParams,
+      TextEncoder,
+      TextDecoder,
+      require: (name) => {
+        if (!(name in modules)) {
+          throw new Error('Package "' + name + '" is not available in the sandbox')
+        }
+        return modules[name]
+      },
+      console: {
+        log: (...args) => send({ type: 'log', message: format(args) + '\\n' }),
+        error: (...args) => send({ type: 'log', message: 'ERROR: ' + format(args) + '\\n' }),
+      },
+    },
+    { codeGeneration: { strings: false, wasm: false } }
+  )
+
+  const parameterDeclarations = isCustomTool
+    ? Object.keys(params)
+        .map((key) => 'const ' + key + ' = params.' + key + ';')
+        .join('\\n')
+    : ''
+
+  const script = new vm.Script(
+    '(async () => {\\n' +
+      'try {\\n' +
+      parameterDeclarations +
+      '\\n' +
+      code +
+      '\\n} catch (error) {\\n' +
+      'console.error(error);\\n' +
+      'throw error;\\n' +
+      '}\\n' +
+      '})()',
+    { filename: 'function.js' }
+  )
+
+  // The vm timeout stops synchronous loops; the host kills the process for everything else
+  send({ type: 'started' })
+  return script.runInContext(context, { timeout, displayErrors: true })
+}
+
+process.once('message', (data) => {
+  // Lets the process exit once the code is done, also while it awaits a promise that never
+  // settles, which the host reports as such
+  process.channel.unref()
+
+  Promise.resolve()
+    .then(() => run(data))
+    .then((result) => {
+      const json = JSON.stringify(result)
+      send({ type: 'result', result: json === undefined ? undefined : JSON.parse(json) })
+    })
+    .catch((error) => {
+      send({
+        type: 'error',
+        error: error && error.message ? error.message : String(error),
+      })
+    })
+})
+`
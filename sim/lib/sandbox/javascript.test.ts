@@ -0,0 +1,121 @@
+/**
+ * @vitest-environment node
+ *
+ * JavaScript Sandbox Unit Tests
+ *
+ * Tests for running Function block code in a separate process with limits,
+ * without access to the host, and with allow-listed package imports.
+ */
+import { describe, expect, it } from 'vitest'
+import { executeJavaScript, resolvePackageImports } from './javascript'
+
+describe('resolvePackageImports', () => {
+  it('should turn imports of allow-listed packages into require calls', () => {
+    const { code, packages } = resolvePackageImports(
+      "import _ from 'lodash'\nimport { format as formatDate } from 'date-fns'\nimport * as z from 'zod'"
+    )
+
+    expect(code).toBe(
+      [
+        'const _ = ((m) => m.default ?? m)(require("lodash"));',
+        'const { format: formatDate } = require("date-fns");',
+        'const z = require("zod");',
+      ].join('\n')
+    )
+    expect(packages).toEqual(['lodash', 'date-fns', 'zod'])
+  })
+
+  it('should reject packages that are not allow-listed', () => {
+    expect(() => resolvePackageImports("import fs from 'fs'")).toThrow(
+      'Package "fs" is not available'
+    )
+    expect(() => resolvePackageImports("const cp = require('child_process')")).toThrow(
+      'Package "child_process" is not available'
+    )
+  })
+})
+
+describe('executeJavaScript', () => {
+  it('should return the result and console output of the code', async () => {
+    const result = await executeJavaScript({
+      code: 'console.log("sum", { a: params.a }); return params.a + 1',
+      params: { a: 1 },
+      timeout: 1000,
+    })
+
+    expect(result).toEqual({ success: true, result: 2, stdout: 'sum {"a":1}\n' })
+  })
+
+  it('should run code that uses allow-listed packages', async () => {
+    const result = await executeJavaScript({
+      code: "import { chunk } from 'lodash'\nreturn chunk([1, 2, 3], 2)",
+      timeout: 2000,
+    })
+
+    expect(result.success).toBe(true)
+    expect(result.result).toEqual([[1, 2], [3]])
+  })
+
+  it('should not expose the host to the code', async () => {
+    const globals = await executeJavaScript({
+      code: 'return [typeof process, typeof require("lodash")]',
+      timeout: 2000,
+    })
+    expect(globals.result).toEqual(['undefined', 'function'])
+
+    const escape = await executeJavaScript({
+      code: 'return fetch.constructor.constructor("return process")().env',
+      timeout: 1000,
+    })
+    expect(escape.success).toBe(false)
+
+    const evaluation = await executeJavaScript({ code: 'return eval("1 + 1")', timeout: 1000 })
+    expect(evaluation.success).toBe(false)
+  })
+
+  it('should keep code that escapes the vm context away from the host', async () => {
+    // Errors created by the process' fetch lead, through their stack trace call sites,
+    // to the globals of the process running the code
+    const result = await executeJavaScript({
+      code: [
+        "import _ from 'lodash'",
+        "const fetchError = await fetch('not a url').catch((error) => error)",
+        'const HostError = Object.getPrototypeOf(fetchError.constructor)',
+        'HostError.prepareStackTrace = (_error, callSites) => callSites.map((site) => site.getThis())',
+        'const frames = _.map([1], () => new HostError().stack)[0]',
+        'const host = frames.find((value) => value && value.process)',
+        'const load = (name) => host.process.getBuiltinModule?.(name) ?? host.require(name)',
+        'const attempt = (fn) => { try { return fn() } catch (error) { return error.code } }',
+        'return {',
+        '  env: Object.keys(host.process.env),',
+        "  exec: attempt(() => load('child_process').execSync('id').toString()),",
+        "  read: attempt(() => load('fs').readFileSync('/etc/passwd', 'utf8')),",
+        "  write: attempt(() => load('fs').writeFileSync('/tmp/sandbox-escape', 'x')),",
+        '}',
+      ].join('\n'),
+      timeout: 5000,
+    })
+
+    expect(result.error).toBeUndefined()
+    expect(result.result).toEqual({
+      env: [],
+      exec: 'ERR_ACCESS_DENIED',
+      read: 'ERR_ACCESS_DENIED',
+      write: 'ERR_ACCESS_DENIED',
+    })
+  })
+
+  it('should report code that awaits a promise that never settles', async () => {
+    const result = await executeJavaScript({ code: 'await new Promise(() => {})', timeout: 2000 })
+
+    expect(result.success).toBe(false)
+    expect(result.error).toContain('never settles')
+  })
+
+  it('should stop code that runs past its timeout', async () => {
+    const result = await executeJavaScript({ code: 'while (true) {}', timeout: 200 })
+
+    expect(result.success).toBe(false)
+    expect(result.error).toContain('timed out')
+  })
+})
@@ -0,0 +1,99 @@
+import { JAVASCRIPT_WORKER_SOURCE } from './javascript-worker'
+import { resolvePackage, runSandboxProcess } from './process'
+import type { SandboxOptions, SandboxResult } from './worker'
+
+// Packages Function blocks can import. They are installed with the app.
+export const SANDBOX_PACKAGES = ['lodash', 'date-fns', 'zod'] as const
+
+export const DEFAULT_MEMORY_LIMIT_MB = 128
+
+// Time the process gets to start and load packages on top of the code's own timeout
+const PROCESS_STARTUP_GRACE_MS = 2000
+
+/**
+ * Turns the import statements of allow-listed packages into require calls, since the
+ * code runs as the body of a function. Other packages and Node builtins are rejected.
+ *
+ * @returns The code to run and the packages it uses
+ * @throws Error if the code imports a package that is not allow-listed
+ */
+export function resolvePackageImports(code: string): { code: string; packages: string[] } {
+  const packages = new Set<string>()
+  const usePackage = (name: string) => {
+    if (!(SANDBOX_PACKAGES as readonly string[]).includes(name)) {
+      throw new Error(
+        `Package "${name}" is not available. Available packages: ${SANDBOX_PACKAGES.join(', ')}`
+      )
+    }
+    packages.add(name)
+    return `require(${JSON.stringify(name)})`
+  }
+
+  const importDeclaration = (clause: string, source: string): string => {
+    const required = usePackage(source)
+    const declarations: string[] = []
+
+    for (const part of clause.split(/,(?![^{]*\})/).map((item) => item.trim())) {
+      if (part.startsWith('* as ')) {
+        declarations.push(`const ${part.slice(5).trim()} = ${required};`)
+      } else if (part.startsWith('{')) {
+        const bindings = part.replace(/\s+as\s+/g, ': ')
+        declarations.push(`const ${bindings} = ${required};`)
+      } else if (part) {
+        declarations.push(`const ${part} = ((m) => m.default ?? m)(${required});`)
+      }
+    }
+
+    return declarations.join(' ')
+  }
+
+  const resolvedCode = code
+    .replace(
+      /^[ \t]*import\s+([\w$*{}\s,]+?)\s+from\s+['"]([^'"]+)['"];?/gm,
+      (_match, clause: string, source: string) => importDeclaration(clause, source)
+    )
+    .replace(/^[ \t]*import\s+['"]([^'"]+)['"];?/gm, (_match, source: string) => {
+      return `${usePackage(source)};`
+    })
+
+  // Also validate require calls written directly in the code
+  for (const match of resolvedCode.matchAll(/\brequire\(\s*['"]([^'"]+)['"]\s*\)/g)) {
+    usePackage(match[1])
+  }
+
+  return { code: resolvedCode, packages: Array.from(packages) }
+}
+
+/**
+ * Runs Function block code in a separate process with a heap limit and a timeout.
+ * The code cannot reach `process`, the filesystem or the host's environment variables,
+ * and can only import the allow-listed packages.
+ */
+export async function executeJavaScript(options: SandboxOptions): Promise<SandboxResult> {
+  let resolved: { code: string; packages: string[] }
+  try {
+    resolved = resolvePackageImports(options.code)
+  } catch (error: any) {
+    return { success: false, error: error.message, stdout: '' }
+  }
+
+  const packages = resolved.packages.map((name) => ({ name, ...resolvePackage(name) }))
+
+  return runSandboxProcess(
+    JAVASCRIPT_WORKER_SOURCE,
+    {
+      code: resolved.code,
+      params: options.params ?? {},
+      envVars: options.envVars ?? {},
+      isCustomTool: options.isCustomTool ?? false,
+      packages: Object.fromEntries(packages.map(({ name, entryPath }) => [name, entryPath])),
+      timeout: options.timeout,
+    },
+    {
+      timeout: options.timeout,
+      startupGraceMs: PROCESS_STARTUP_GRACE_MS,
+      memoryLimitMb: options.memoryLimitMb ?? DEFAULT_MEMORY_LIMIT_MB,
+      readablePaths: packages.map(({ directory }) => directory),
+    }
+  )
+}
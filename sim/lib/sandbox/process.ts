@@ -0,0 +1,88 @@
+import { type SpawnOptions, spawn } from 'node:child_process'
+import { createRequire } from 'node:module'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import { type SandboxLimits, type SandboxResult, trackSandboxRun } from './worker'
+
+// Keeps the end of the process' stderr, which explains crashes such as running out of memory
+const MAX_STDERR_LENGTH = 10000
+
+/**
+ * Finds the entry file and the directory of a package the sandbox loads. The sandbox process
+ * requires the entry file and may only read the directory.
+ */
+export function resolvePackage(name: string): { entryPath: string; directory: string } {
+  const appRequire = createRequire(path.join(process.cwd(), 'package.json'))
+  return {
+    entryPath: appRequire.resolve(name),
+    directory: path.dirname(appRequire.resolve(`${name}/package.json`)),
+  }
+}
+
+/**
+ * Runs a sandbox script in a separate Node.js process and collects the messages it sends
+ * over IPC, see trackSandboxRun. The script receives its data as the first IPC message.
+ *
+ * Nothing of the host is shared with the process: it gets an empty environment, and Node's
+ * permission model denies it the filesystem apart from `readablePaths`, child processes and
+ * worker threads. Code that escapes its vm context only reaches this process.
+ *
+ * @param source - CommonJS source of the script
+ * @param data - Data sent to the script
+ * @param limits - Run time limit, time the process may take to start, memory limit and
+ * the directories the process may read
+ */
+export function runSandboxProcess(
+  source: string,
+  data: Record<string, any>,
+  limits: SandboxLimits & { readablePaths: string[] }
+): Promise<SandboxResult> {
+  const options: SpawnOptions = {
+    cwd: tmpdir(),
+    env: {} as NodeJS.ProcessEnv, // None of the app's environment variables
+    stdio: ['ignore', 'ignore', 'pipe', 'ipc'],
+  }
+  const child = spawn(
+    process.execPath,
+    [
+      '--experimental-permission',
+      ...limits.readablePaths.map((readablePath) => `--allow-fs-read=${readablePath}`),
+      `--max-old-space-size=${limits.memoryLimitMb}`,
+      '--no-warnings',
+      '--eval',
+      source,
+    ],
+    options
+  )
+
+  const run = trackSandboxRun(limits, () => {
+    child.kill('SIGKILL')
+  })
+
+  let stderr = ''
+  child.stderr?.on('data', (chunk: Buffer) => {
+    stderr = (stderr + chunk).slice(-MAX_STDERR_LENGTH)
+  })
+
+  child.on('message', run.handleMessage)
+
+  child.on('error', (error) => {
+    run.settle({ success: false, error: error.message })
+  })
+
+  // Unlike 'exit', 'close' follows every message the process sent
+  child.on('close', (exitCode) => {
+    run.settle({
+      success: false,
+      error: stderr.includes('heap out of memory')
+        ? `Execution exceeded the memory limit of ${limits.memoryLimitMb}MB`
+        : exitCode === 0
+          ? 'Execution ended before the code returned, e.g. while awaiting a promise that never settles'
+          : `Execution stopped unexpectedly (exit code ${exitCode})`,
+    })
+  })
+
+  child.send(data)
+
+  return run.promise
+}
@@ -0,0 +1,150 @@
+/**
+ * Python module that runs Function block code inside Pyodide. The code is compiled as the
+ * body of an async function, so it can `return` its result like JavaScript code does.
+ * `true`, `false` and `null` are defined because resolved block references are JSON.
+ */
+export const PYTHON_RUNNER_SOURCE = `
+import ast
+import json
+
+FILENAME = "<function>"
+
+
+def compile_function(source):
+    module = ast.parse(source, filename=FILENAME)
+    main = ast.AsyncFunctionDef(
+        name="__sim_main__",
+        args=ast.arguments(posonlyargs=[], args=[], kwonlyargs=[], kw_defaults=[], defaults=[]),
+        body=module.body or [ast.Pass()],
+        decorator_list=[],
+        returns=None,
+        type_params=[],
+    )
+    wrapper = ast.Module(body=[main], type_ignores=[])
+    ast.fix_missing_locations(wrapper)
+    return compile(wrapper, FILENAME, "exec")
+
+
+def format_error(error):
+    import traceback
+
+    message = f"{type(error).__name__}: {error}" if str(error) else type(error).__name__
+    frames = [
+        frame for frame in traceback.extract_tb(error.__traceback__) if frame.filename == FILENAME
+    ]
+    if frames and not isinstance(error, SyntaxError):
+        message += f" (line {frames[-1].lineno})"
+    return message
+
+
+async def run(code, params_json, env_vars_json, is_custom_tool):
+    params = json.loads(params_json)
+    namespace = {
+        "__name__": "__main__",
+        "params": params,
+        "environmentVariables": json.loads(env_vars_json),
+        "true": True,
+        "false": False,
+        "null": None,
+    }
+    if is_custom_tool:
+        namespace.update(params)
+
+    try:
+        exec(compile_function(code), namespace)
+        result = await namespace["__sim_main__"]()
+        return json.dumps({"success": True, "result": result}, default=str, allow_nan=False)
+    except BaseException as error:
+        message = format_error(error)
+        print(message, file=__import__("sys").stderr)
+        return json.dumps({"success": False, "error": message})
+`
+
+/**
+ * Source of the sandbox process that runs Python Function block code with Pyodide.
+ * It is evaluated as a CommonJS script, so it is kept as plain JavaScript.
+ *
+ * Pyodide gets an empty `js` module, so Python code cannot reach the process' globals,
+ * and its WebAssembly memory is capped because it lives outside the process' heap limit.
+ */
+export const PYTHON_WORKER_SOURCE = `
+const send = (message) => process.send(message)
+
+const capMemory = (memoryLimitMb) => {
+  const maxMemoryBytes = memoryLimitMb * 1024 * 1024
+  const grow = WebAssembly.Memory.prototype.grow
+  WebAssembly.Memory.prototype.grow = function (delta) {
+    // A failed grow makes Python raise MemoryError
+    if (this.buffer.byteLength + delta * 65536 > maxMemoryBytes) {
+      throw new RangeError('Maximum memory size exceeded')
+    }
+    return grow.call(this, delta)
+  }
+}
+
+const lockDownProcess = (pyodide) => {
+  pyodide.unregisterJsModule('pyodide_js')
+  // Also drop the already imported copies, which give access to Pyodide's JavaScript API
+  pyodide.runPython(
+    'import sys; [sys.modules.pop(m) for m in list(sys.modules) if m.split(".")[0] == "pyodide_js"]'
+  )
+  for (const fn of [function () {}, async function () {}, function* () {}, async function* () {}]) {
+    Object.defineProperty(Object.getPrototypeOf(fn), 'constructor', { value: undefined })
+  }
+  globalThis.eval = undefined
+  process.binding = undefined
+  process._linkedBinding = undefined
+  process.dlopen = undefined
+  // Signals could reach other processes of the same user, such as the app itself
+  process.kill = undefined
+  process._kill = undefined
+}
+
+const run = async ({ code, params, envVars, isCustomTool, memoryLimitMb, runner, pyodidePath }) => {
+  capMemory(memoryLimitMb)
+  // The permission model denies process.binding, which Pyodide only uses for the fs flags
+  process.binding = (name) => {
+    if (name !== 'constants') {
+      throw new Error('process.binding is not available in the sandbox')
+    }
+    return { fs: require('node:fs').constants }
+  }
+
+  const { loadPyodide } = require(pyodidePath)
+  const pyodide = await loadPyodide({
+    jsglobals: {},
+    stdout: (line) => send({ type: 'log', message: line + '\\n' }),
+    stderr: (line) => send({ type: 'log', message: 'ERROR: ' + line + '\\n' }),
+  })
+  lockDownProcess(pyodide)
+
+  pyodide.runPython(runner)
+  const runCode = pyodide.globals.get('run')
+
+  send({ type: 'started' })
+  return JSON.parse(
+    await runCode(code, JSON.stringify(params), JSON.stringify(envVars), isCustomTool)
+  )
+}
+
+process.once('message', (data) => {
+  // Lets the process exit once the code is done, which the host reports if it never returned
+  process.channel.unref()
+
+  Promise.resolve()
+    .then(() => run(data))
+    .then((output) => {
+      send(
+        output.success
+          ? { type: 'result', result: output.result }
+          : { type: 'error', error: output.error }
+      )
+    })
+    .catch((error) => {
+      send({
+        type: 'error',
+        error: error && error.message ? error.message : String(error),
+      })
+    })
+})
+`
@@ -0,0 +1,66 @@
+/**
+ * @vitest-environment node
+ *
+ * Python Sandbox Unit Tests
+ *
+ * Tests for running Python Function block code with Pyodide in a sandbox process.
+ * Each run loads the interpreter, so the tests get a longer timeout.
+ */
+import { describe, expect, it } from 'vitest'
+import { executePython } from './python'
+
+const PYODIDE_TEST_TIMEOUT = 60000
+
+describe('executePython', () => {
+  it(
+    'should return the result and stdout of the code',
+    async () => {
+      const result = await executePython({
+        code: 'print("Hello", params["name"])\nreturn {"enabled": true, "missing": null, "sum": 1 + 2}',
+        params: { name: 'Sim' },
+        timeout: 5000,
+      })
+
+      expect(result).toEqual({
+        success: true,
+        result: { enabled: true, missing: null, sum: 3 },
+        stdout: 'Hello Sim\n',
+      })
+    },
+    PYODIDE_TEST_TIMEOUT
+  )
+
+  it(
+    'should report errors with the line they were raised on',
+    async () => {
+      const result = await executePython({
+        code: 'x = 1\nreturn x / 0',
+        timeout: 5000,
+      })
+
+      expect(result.success).toBe(false)
+      expect(result.error).toBe('ZeroDivisionError: division by zero (line 2)')
+    },
+    PYODIDE_TEST_TIMEOUT
+  )
+
+  it(
+    'should not give the code access to the JavaScript host',
+    async () => {
+      const result = await executePython({
+        code: 'import js\nreturn [hasattr(js, name) for name in ("process", "require", "fetch")]',
+        timeout: 5000,
+      })
+      const functionConstructor = await executePython({
+        code: 'import js\nreturn js.constructor.constructor("return process")()',
+        timeout: 5000,
+      })
+
+      expect(result).toEqual(
+        expect.objectContaining({ success: true, result: [false, false, false] })
+      )
+      expect(functionConstructor.success).toBe(false)
+    },
+    PYODIDE_TEST_TIMEOUT
+  )
+})
@@ -0,0 +1,38 @@
+import { PYTHON_RUNNER_SOURCE, PYTHON_WORKER_SOURCE } from './python-worker'
+import { resolvePackage, runSandboxProcess } from './process'
+import type { SandboxOptions, SandboxResult } from './worker'
+
+export const DEFAULT_PYTHON_MEMORY_LIMIT_MB = 256
+
+// Loading the interpreter takes a few seconds and does not count towards the code's timeout
+const PYODIDE_STARTUP_GRACE_MS = 30000
+
+/**
+ * Runs Python Function block code with Pyodide in a separate process, which may only read
+ * the Pyodide package. The interpreter runs locally as WebAssembly, with the standard
+ * library only and no network access. `params` and `environmentVariables` are available
+ * as dicts, like in JavaScript.
+ */
+export async function executePython(options: SandboxOptions): Promise<SandboxResult> {
+  const memoryLimitMb = options.memoryLimitMb ?? DEFAULT_PYTHON_MEMORY_LIMIT_MB
+  const pyodide = resolvePackage('pyodide')
+
+  return runSandboxProcess(
+    PYTHON_WORKER_SOURCE,
+    {
+      code: options.code,
+      params: options.params ?? {},
+      envVars: options.envVars ?? {},
+      isCustomTool: options.isCustomTool ?? false,
+      memoryLimitMb,
+      runner: PYTHON_RUNNER_SOURCE,
+      pyodidePath: pyodide.entryPath,
+    },
+    {
+      timeout: options.timeout,
+      startupGraceMs: PYODIDE_STARTUP_GRACE_MS,
+      memoryLimitMb,
+      readablePaths: [pyodide.directory],
+    }
+  )
+}
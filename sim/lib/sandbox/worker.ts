@@ -0,0 +1,69 @@
+export type SandboxLanguage = 'javascript' | 'python'
+
+export interface SandboxOptions {
+  code: string
+  params?: Record<string, any>
+  envVars?: Record<string, string>
+  isCustomTool?: boolean // Declares each param as a variable of the same name
+  timeout: number // Milliseconds the code may run
+  memoryLimitMb?: number // Memory limit of the sandbox process
+}
+
+export interface SandboxResult {
+  success: boolean
+  result?: any
+  error?: string
+  stdout: string
+}
+
+export interface SandboxLimits {
+  timeout: number // Milliseconds the code may run
+  startupGraceMs: number // Time the sandbox may take to start on top of the timeout
+  memoryLimitMb: number
+}
+
+/**
+ * Settles a sandbox run from the messages its process sends: `log` messages are
+ * appended to stdout, `started` marks the start of the code once the sandbox has loaded,
+ * and the first `result` or `error` message settles the run. The run also settles with an
+ * error once it exceeds its time limit.
+ *
+ * @param limits - Run time limit and time the sandbox may take to start
+ * @param stop - Stops the process once the run has settled
+ */
+export function trackSandboxRun(limits: SandboxLimits, stop: () => void) {
+  let stdout = ''
+  let isSettled = false
+  let resolveRun: (result: SandboxResult) => void
+  const promise = new Promise<SandboxResult>((resolve) => {
+    resolveRun = resolve
+  })
+
+  const settle = (result: Omit<SandboxResult, 'stdout'>) => {
+    if (isSettled) return
+    isSettled = true
+    clearTimeout(timer)
+    resolveRun({ ...result, stdout })
+    stop()
+  }
+
+  const timeOut = () => {
+    settle({ success: false, error: `Execution timed out after ${limits.timeout}ms` })
+  }
+  let timer = setTimeout(timeOut, limits.timeout + limits.startupGraceMs)
+
+  const handleMessage = (message: any) => {
+    if (message.type === 'started') {
+      clearTimeout(timer)
+      timer = setTimeout(timeOut, limits.timeout)
+    } else if (message.type === 'log') {
+      stdout += message.message
+    } else if (message.type === 'result') {
+      settle({ success: true, result: message.result })
+    } else if (message.type === 'error') {
+      settle({ success: false, error: message.error })
+    }
+  }
+
+  return { promise, settle, handleMessage }
+}
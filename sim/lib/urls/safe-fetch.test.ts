@@ -0,0 +1,68 @@
+/**
+ * @vitest-environment node
+ *
+ * Safe Fetch Unit Tests
+ *
+ * Tests for keeping requests to user-supplied URLs off private networks.
+ */
+import { describe, expect, it } from 'vitest'
+import { assertPublicUrl, isPublicAddress, safeFetch, UnsafeUrlError } from './safe-fetch'
+
+describe('isPublicAddress', () => {
+  it.each([
+    '127.0.0.1',
+    '10.1.2.3',
+    '172.20.0.1',
+    '192.168.1.1',
+    '169.254.169.254',
+    '100.64.0.1',
+    '0.0.0.0',
+    '::1',
+    '::',
+    'fd00::1',
+    'fe80::1',
+    '::ffff:127.0.0.1',
+    '::ffff:7f00:1',
+    '::ffff:a9fe:a9fe',
+  ])('should reject %s', (address) => {
+    expect(isPublicAddress(address)).toBe(false)
+  })
+
+  it.each(['8.8.8.8', '1.1.1.1', '2606:4700:4700::1111'])('should accept %s', (address) => {
+    expect(isPublicAddress(address)).toBe(true)
+  })
+
+  it('should reject hostnames', () => {
+    expect(isPublicAddress('example.com')).toBe(false)
+  })
+})
+
+describe('safeFetch', () => {
+  it.each([
+    'http://127.0.0.1:3000/',
+    'http://169.254.169.254/latest/meta-data/',
+    'http://[::ffff:7f00:1]/',
+    'http://[::1]/',
+    'http://0x7f.1/',
+  ])('should refuse to connect to %s', async (url) => {
+    await expect(safeFetch(url)).rejects.toBeInstanceOf(UnsafeUrlError)
+  })
+
+  it('should refuse hostnames that resolve to private addresses', async () => {
+    await expect(safeFetch('http://localhost:3000/')).rejects.toBeInstanceOf(UnsafeUrlError)
+  })
+
+  it('should refuse other protocols', async () => {
+    await expect(safeFetch('file:///etc/passwd')).rejects.toBeInstanceOf(UnsafeUrlError)
+  })
+})
+
+describe('assertPublicUrl', () => {
+  it('should reject hostnames that resolve to private addresses', async () => {
+    await expect(assertPublicUrl('http://localhost/')).rejects.toBeInstanceOf(UnsafeUrlError)
+  })
+
+  it('should reject private IP literals', async () => {
+    await expect(assertPublicUrl('https://10.0.0.1/hook')).rejects.toBeInstanceOf(UnsafeUrlError)
+  })
+})
@@ -0,0 +1,178 @@
+import dns from 'dns'
+import http from 'http'
+import https from 'https'
+import { BlockList, isIP, type LookupFunction } from 'net'
+import { Readable } from 'stream'
+
+// Addresses server-side requests to user-supplied URLs must never reach: loopback,
+// private networks, link-local (cloud metadata), carrier-grade NAT, multicast and reserved
+// ranges. IPv4-mapped IPv6 addresses are matched against the IPv4 ranges.
+const BLOCKED_ADDRESSES = new BlockList()
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4')
+}
+for (const [network, prefix] of [
+  ['::', 127], // Unspecified and loopback
+  ['64:ff9b::', 96], // NAT64, which can reach IPv4 private networks
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6')
+}
+
+// Statuses whose responses never have a body
+const NULL_BODY_STATUSES = new Set([101, 204, 205, 304])
+
+export class UnsafeUrlError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'UnsafeUrlError'
+  }
+}
+
+export interface SafeFetchOptions {
+  method?: string
+  headers?: Record<string, string>
+  body?: string
+  signal?: AbortSignal
+  maxRedirects?: number // Redirects followed for GET and HEAD requests, none by default
+}
+
+/**
+ * Whether an IP address is on the public internet.
+ */
+export function isPublicAddress(address: string): boolean {
+  const family = isIP(address)
+  if (family === 0) return false
+  return !BLOCKED_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4')
+}
+
+/**
+ * Resolves hostnames like dns.lookup, but fails when any address of the host is not public.
+ * Used as the socket lookup, so the checked address is the one connected to.
+ */
+const publicLookup = ((hostname: string, options: dns.LookupOptions, callback: any) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error)
+
+    if (addresses.length === 0 || addresses.some(({ address }) => !isPublicAddress(address))) {
+      return callback(new UnsafeUrlError(`${hostname} does not resolve to a public address`))
+    }
+
+    if (options.all) return callback(null, addresses)
+    callback(null, addresses[0].address, addresses[0].family)
+  })
+}) as LookupFunction
+
+function getHostname(url: URL): string {
+  return url.hostname.replace(/^\[(.*)\]$/, '$1')
+}
+
+function assertHttpUrl(url: URL): void {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new UnsafeUrlError(`Only http and https URLs are allowed, got ${url.protocol}`)
+  }
+
+  const hostname = getHostname(url)
+  if (isIP(hostname) && !isPublicAddress(hostname)) {
+    throw new UnsafeUrlError(`${hostname} is not a public address`)
+  }
+}
+
+/**
+ * Checks ahead of time that a URL points to a public host, to reject it when it is submitted.
+ * Requests must still go through safeFetch, since DNS answers can change in the meantime.
+ */
+export async function assertPublicUrl(input: string | URL): Promise<void> {
+  const url = new URL(input)
+  assertHttpUrl(url)
+
+  const hostname = getHostname(url)
+  if (isIP(hostname)) return
+
+  const addresses = await dns.promises.lookup(hostname, { all: true }).catch(() => {
+    throw new UnsafeUrlError(`${hostname} could not be resolved`)
+  })
+  if (addresses.some(({ address }) => !isPublicAddress(address))) {
+    throw new UnsafeUrlError(`${hostname} does not resolve to a public address`)
+  }
+}
+
+function requestOnce(url: URL, options: SafeFetchOptions): Promise<Response> {
+  assertHttpUrl(url)
+
+  const request = url.protocol === 'https:' ? https.request : http.request
+  const method = options.method ?? 'GET'
+
+  return new Promise((resolve, reject) => {
+    const req = request(
+      url,
+      { method, headers: options.headers, signal: options.signal, lookup: publicLookup },
+      (res) => {
+        const headers = new Headers()
+        for (const [name, value] of Object.entries(res.headers)) {
+          for (const item of Array.isArray(value) ? value : value ? [value] : []) {
+            headers.append(name, item)
+          }
+        }
+
+        const status = res.statusCode ?? 502
+        const hasBody = method !== 'HEAD' && !NULL_BODY_STATUSES.has(status)
+        if (!hasBody) res.resume()
+
+        resolve(
+          new Response(hasBody ? (Readable.toWeb(res) as ReadableStream<Uint8Array>) : null, {
+            status,
+            statusText: res.statusMessage,
+            headers,
+          })
+        )
+      }
+    )
+
+    req.on('error', reject)
+    if (options.body !== undefined) req.write(options.body)
+    req.end()
+  })
+}
+
+/**
+ * Fetches a user-supplied URL without letting it reach the server's own network.
+ * Every address the host resolves to, and every redirect hop, must be public.
+ *
+ * @returns The response; redirects that aren't followed are returned as is
+ */
+export async function safeFetch(
+  input: string | URL,
+  options: SafeFetchOptions = {}
+): Promise<Response> {
+  const { maxRedirects = 0, ...requestOptions } = options
+  const followsRedirects = !requestOptions.method || ['GET', 'HEAD'].includes(requestOptions.method)
+  let url = new URL(input)
+
+  for (let redirects = 0; ; redirects++) {
+    const response = await requestOnce(url, requestOptions)
+    const location = response.headers.get('location')
+
+    const isRedirect = response.status >= 300 && response.status < 400 && location
+    if (!isRedirect || !followsRedirects || redirects >= maxRedirects) {
+      return response
+    }
+
+    await response.body?.cancel()
+    url = new URL(location, url)
+  }
+}
@@ -6,6 +6,14 @@ import { persistExecutionError, persistExecutionLogs } from '@/lib/logs/executio
 import { buildTraceSpans } from '@/lib/logs/trace-spans'
 import { hasProcessedMessage, markMessageAsProcessed } from '@/lib/redis'
 import { decryptSecret } from '@/lib/utils'
+import { pauseExecutionRun } from '@/lib/workflows/approvals'
+import {
+  type DeploymentSlot,
+  getSlotDeployedState,
+  getSlotVariables,
+} from '@/lib/workflows/deployment-slots'
+import { trackExecutionRun } from '@/lib/workflows/execution-cancellation'
+import { createExecutionRun, finishExecutionRun } from '@/lib/workflows/execution-runs'
 import { updateWorkflowRunCounts } from '@/lib/workflows/utils'
 import { getOAuthToken } from '@/app/api/auth/oauth/utils'
 import { db } from '@/db'
@@ -418,13 +426,15 @@ export function formatWebhookInput(
 }
 
 /**
- * Execute workflow with the provided input
+ * Execute workflow with the provided input. Webhooks of the dev and staging slots run
+ * the version deployed in their slot with the slot's environment variables.
  */
 export async function executeWorkflowFromPayload(
   foundWorkflow: any,
   input: any,
   executionId: string,
-  requestId: string
+  requestId: string,
+  slot: DeploymentSlot = 'prod'
 ): Promise<void> {
   // Add log at the beginning of this function for clarity
   logger.info(`[${requestId}] Preparing to execute workflow`, {
@@ -473,17 +483,29 @@ export async function executeWorkflowFromPayload(
     airtableChangesCount: input?.airtableChanges?.length || 0,
   })
 
+  // Lets the cancel endpoint stop this run while it executes
+  const runTracking = trackExecutionRun(executionId)
+
   // Returns void as errors are handled internally
   try {
     // Get the workflow state
-    if (!foundWorkflow.state) {
-      logger.error(`[${requestId}] TRACE: Missing workflow state`, {
-        workflowId: foundWorkflow.id,
-        hasState: false,
-      })
-      throw new Error(`Workflow ${foundWorkflow.id} has no state`)
+    let state: WorkflowState
+    if (slot !== 'prod') {
+      const slotDeployment = await getSlotDeployedState(foundWorkflow.id, slot)
+      if (!slotDeployment) {
+        throw new Error(`Workflow ${foundWorkflow.id} is not deployed to ${slot}`)
+      }
+      state = slotDeployment.state
+    } else {
+      if (!foundWorkflow.state) {
+        logger.error(`[${requestId}] TRACE: Missing workflow state`, {
+          workflowId: foundWorkflow.id,
+          hasState: false,
+        })
+        throw new Error(`Workflow ${foundWorkflow.id} has no state`)
+      }
+      state = foundWorkflow.state as WorkflowState
     }
-    const state = foundWorkflow.state as WorkflowState
     const { blocks, edges, loops, parallels } = state
 
     // DEBUG: Log state information
@@ -512,10 +534,15 @@ export async function executeWorkflowFromPayload(
       .from(environment)
       .where(eq(environment.userId, foundWorkflow.userId))
       .limit(1)
+    const slotVariables = await getSlotVariables(foundWorkflow.id, slot)
     let decryptedEnvVars: Record<string, string> = {}
-    if (userEnv) {
-      // Decryption logic
-      const decryptionPromises = Object.entries(userEnv.variables as Record<string, string>).map(
+    if (userEnv || Object.keys(slotVariables).length > 0) {
+      // Decryption logic, slot variables win over the user's
+      const encryptedVariables = {
+        ...((userEnv?.variables as Record<string, string> | undefined) ?? {}),
+        ...slotVariables,
+      }
+      const decryptionPromises = Object.entries(encryptedVariables).map(
         async ([key, encryptedValue]) => {
           try {
             const { decrypted } = await decryptSecret(encryptedValue)
@@ -670,13 +697,27 @@ export async function executeWorkflowFromPayload(
       timestamp: new Date().toISOString(),
     })
 
-    const executor = new Executor(
-      serializedWorkflow,
-      processedBlockStates,
-      decryptedEnvVars,
+    // Record the run so it can be checkpointed, resumed and cancelled
+    await createExecutionRun({
+      id: executionId,
+      workflowId: foundWorkflow.id,
+      trigger: 'webhook',
+      slot,
       input,
-      workflowVariables
-    )
+      workflowState: state,
+    })
+
+    const executor = new Executor({
+      workflow: serializedWorkflow,
+      currentBlockStates: processedBlockStates,
+      envVarValues: decryptedEnvVars,
+      workflowInput: input,
+      workflowVariables,
+      contextExtensions: {
+        onCheckpoint: runTracking.onCheckpoint,
+        abortSignal: runTracking.abortSignal,
+      },
+    })
 
     // Log workflow execution start time for tracking
     const executionStartTime = Date.now()
@@ -728,6 +769,17 @@ export async function executeWorkflowFromPayload(
       actualDurationMs: executionDuration,
     })
 
+    // Logs are written once the run finishes, after its approvals have been decided
+    if (executionResult.metadata?.isPaused) {
+      logger.info(`[${requestId}] Webhook workflow paused for approvals: ${foundWorkflow.id}`)
+      await pauseExecutionRun(
+        executionId,
+        foundWorkflow.id,
+        executionResult.metadata.pendingApprovals || []
+      )
+      return
+    }
+
     // Update counts and stats if successful
     if (executionResult.success) {
       await updateWorkflowRunCounts(foundWorkflow.id)
@@ -752,6 +804,7 @@ export async function executeWorkflowFromPayload(
 
     // Persist logs for this execution using the standard 'webhook' trigger type
     await persistExecutionLogs(foundWorkflow.id, executionId, enrichedResult, 'webhook')
+    await finishExecutionRun(executionId, executionResult)
 
     // DEBUG: Final success log
     logger.info(`[${requestId}] TRACE: Execution logs persisted successfully`, {
@@ -778,8 +831,11 @@ export async function executeWorkflowFromPayload(
     })
     // Persist the error for this execution using the standard 'webhook' trigger type
     await persistExecutionError(foundWorkflow.id, executionId, error, 'webhook')
+    await finishExecutionRun(executionId, { success: false, error: error.message })
     // Re-throw the error so the caller knows it failed
     throw error
+  } finally {
+    runTracking.release()
   }
 }
 
@@ -1303,7 +1359,13 @@ export async function fetchAndProcessAirtablePayloads(
 
         // Execute using the original requestId as the executionId
         // This is the exact point in the old code where execution happens - we're matching it exactly
-        await executeWorkflowFromPayload(workflowData, input, requestId, requestId)
+        await executeWorkflowFromPayload(
+          workflowData,
+          input,
+          requestId,
+          requestId,
+          webhookData.slot
+        )
 
         // COMPLETION LOG - This will only appear if execution succeeds
         logger.info(`[${requestId}] CRITICAL_TRACE: Workflow execution completed successfully`, {
@@ -1406,7 +1468,13 @@ export async function processWebhook(
       `[${requestId}] Executing workflow ${foundWorkflow.id} for webhook ${foundWebhook.id} (Execution: ${executionId})`
     )
     // Call the refactored execution function
-    await executeWorkflowFromPayload(foundWorkflow, input, executionId, requestId)
+    await executeWorkflowFromPayload(
+      foundWorkflow,
+      input,
+      executionId,
+      requestId,
+      foundWebhook.slot
+    )
 
     // Since executeWorkflowFromPayload handles logging and errors internally,
     // we just need to return a standard success response for synchronous webhooks.
@@ -0,0 +1,180 @@
+import { and, asc, eq, gt, isNotNull, isNull, lte, or } from 'drizzle-orm'
+import { createLogger } from '@/lib/logs/console-logger'
+import { db } from '@/db'
+import { workflowApproval, workflowExecutionRun } from '@/db/schema'
+import type { ApprovalDecision, PendingApproval } from '@/executor/types'
+
+const logger = createLogger('WorkflowApprovals')
+
+export type ApprovalStatus = 'pending' | 'approved' | 'rejected' | 'edited' | 'cancelled'
+
+export type WorkflowApproval = typeof workflowApproval.$inferSelect
+
+const DECISION_STATUS: Record<ApprovalDecision['action'], ApprovalStatus> = {
+  approve: 'approved',
+  reject: 'rejected',
+  edit: 'edited',
+}
+
+/**
+ * Marks a run as paused and stores the approvals it is waiting on.
+ */
+export async function pauseExecutionRun(
+  runId: string,
+  workflowId: string,
+  pendingApprovals: PendingApproval[]
+): Promise<WorkflowApproval[]> {
+  const now = new Date()
+
+  return db.transaction(async (tx) => {
+    await tx
+      .update(workflowExecutionRun)
+      .set({ status: 'paused', error: null, updatedAt: now })
+      .where(eq(workflowExecutionRun.id, runId))
+
+    if (pendingApprovals.length === 0) {
+      return []
+    }
+
+    return tx
+      .insert(workflowApproval)
+      .values(
+        pendingApprovals.map((approval) => ({
+          id: crypto.randomUUID(),
+          runId,
+          workflowId,
+          blockId: approval.blockId,
+          blockName: approval.blockName ?? null,
+          status: 'pending',
+          data: approval.data ?? null,
+          instructions: approval.instructions ?? null,
+          defaultAction: approval.defaultAction,
+          expiresAt: approval.timeoutMinutes
+            ? new Date(now.getTime() + approval.timeoutMinutes * 60 * 1000)
+            : null,
+          createdAt: now,
+        }))
+      )
+      .returning()
+  })
+}
+
+export async function getApproval(approvalId: string): Promise<WorkflowApproval | undefined> {
+  const approvals = await db
+    .select()
+    .from(workflowApproval)
+    .where(eq(workflowApproval.id, approvalId))
+    .limit(1)
+  return approvals[0]
+}
+
+export async function getPendingApprovals(workflowId: string): Promise<WorkflowApproval[]> {
+  return db
+    .select()
+    .from(workflowApproval)
+    .where(and(eq(workflowApproval.workflowId, workflowId), eq(workflowApproval.status, 'pending')))
+    .orderBy(asc(workflowApproval.createdAt))
+}
+
+/**
+ * Collects the decisions a paused run needs to continue, keyed by block ID.
+ * Only the latest request per block counts, so an approval block inside a loop
+ * never reuses the decision made for an earlier iteration.
+ */
+export async function getApprovalDecisionsForRun(
+  runId: string
+): Promise<Record<string, ApprovalDecision>> {
+  const approvals = await db
+    .select()
+    .from(workflowApproval)
+    .where(eq(workflowApproval.runId, runId))
+    .orderBy(asc(workflowApproval.createdAt))
+
+  const latestByBlock = new Map<string, WorkflowApproval>()
+  for (const approval of approvals) {
+    latestByBlock.set(approval.blockId, approval)
+  }
+
+  const decisions: Record<string, ApprovalDecision> = {}
+  for (const [blockId, approval] of latestByBlock) {
+    if (approval.status !== 'pending' && approval.decision) {
+      decisions[blockId] = approval.decision as ApprovalDecision
+    }
+  }
+  return decisions
+}
+
+/**
+ * Stores a decision for a pending approval. Approvals whose timeout has passed only take
+ * the timeout decision, even before the expiry job has recorded it.
+ *
+ * @param isTimeout - Whether the decision is the default action of an expired approval
+ * @returns The updated approval, or undefined if it was already decided or has expired
+ */
+export async function recordApprovalDecision(
+  approvalId: string,
+  decision: ApprovalDecision,
+  isTimeout = false
+): Promise<WorkflowApproval | undefined> {
+  const now = new Date()
+  const [updated] = await db
+    .update(workflowApproval)
+    .set({
+      status: DECISION_STATUS[decision.action],
+      decision,
+      decidedBy: decision.decidedBy ?? null,
+      decidedAt: new Date(decision.decidedAt),
+    })
+    .where(
+      and(
+        eq(workflowApproval.id, approvalId),
+        eq(workflowApproval.status, 'pending'),
+        isTimeout
+          ? undefined
+          : or(isNull(workflowApproval.expiresAt), gt(workflowApproval.expiresAt, now))
+      )
+    )
+    .returning()
+
+  if (updated) {
+    logger.info(`Recorded ${decision.action} decision for approval ${approvalId}`)
+  }
+
+  return updated
+}
+
+/**
+ * Withdraws the pending approvals of a run that was cancelled, so nobody can decide them.
+ */
+export async function cancelPendingApprovals(runId: string): Promise<void> {
+  await db
+    .update(workflowApproval)
+    .set({ status: 'cancelled' })
+    .where(and(eq(workflowApproval.runId, runId), eq(workflowApproval.status, 'pending')))
+}
+
+export async function hasPendingApprovals(runId: string): Promise<boolean> {
+  const approvals = await db
+    .select({ id: workflowApproval.id })
+    .from(workflowApproval)
+    .where(and(eq(workflowApproval.runId, runId), eq(workflowApproval.status, 'pending')))
+    .limit(1)
+  return approvals.length > 0
+}
+
+/**
+ * Returns pending approvals whose timeout has passed.
+ */
+export async function getExpiredApprovals(now = new Date()): Promise<WorkflowApproval[]> {
+  return db
+    .select()
+    .from(workflowApproval)
+    .where(
+      and(
+        eq(workflowApproval.status, 'pending'),
+        isNotNull(workflowApproval.expiresAt),
+        lte(workflowApproval.expiresAt, now)
+      )
+    )
+    .orderBy(asc(workflowApproval.expiresAt))
+}
@@ -61,6 +61,7 @@ export async function loadWorkflowFromNormalizedTables(
         horizontalHandles: block.horizontalHandles,
         isWide: block.isWide,
         advancedMode: block.advancedMode,
+        ...(block.retryPolicy ? { retryPolicy: block.retryPolicy } : {}),
         height: Number(block.height),
         subBlocks: block.subBlocks || {},
         outputs: block.outputs || {},
@@ -154,6 +155,7 @@ export async function saveWorkflowToNormalizedTables(
           enabled: block.enabled ?? true,
           horizontalHandles: block.horizontalHandles ?? true,
           isWide: block.isWide ?? false,
+          retryPolicy: block.retryPolicy || null,
           height: String(block.height || 0),
           subBlocks: block.subBlocks || {},
           outputs: block.outputs || {},
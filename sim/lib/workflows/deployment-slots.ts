@@ -0,0 +1,196 @@
+import { and, eq } from 'drizzle-orm'
+import { v4 as uuidv4 } from 'uuid'
+import { db } from '@/db'
+import { workflow, workflowDeploymentSlot } from '@/db/schema'
+import type { WorkflowState } from '@/stores/workflows/workflow/types'
+import { getDeploymentVersion, rollbackToDeploymentVersion } from './versions'
+
+export const DEPLOYMENT_SLOTS = ['dev', 'staging', 'prod'] as const
+
+export type DeploymentSlot = (typeof DEPLOYMENT_SLOTS)[number]
+
+export interface SlotDeployment {
+  slot: DeploymentSlot
+  isDeployed: boolean
+  version: number | null
+  deployedAt: Date | null
+}
+
+export function isDeploymentSlot(value: unknown): value is DeploymentSlot {
+  return DEPLOYMENT_SLOTS.includes(value as DeploymentSlot)
+}
+
+async function getSlotRecord(workflowId: string, slot: DeploymentSlot) {
+  const records = await db
+    .select()
+    .from(workflowDeploymentSlot)
+    .where(
+      and(eq(workflowDeploymentSlot.workflowId, workflowId), eq(workflowDeploymentSlot.slot, slot))
+    )
+    .limit(1)
+  return records[0]
+}
+
+/**
+ * Lists what is deployed in every slot of a workflow. Prod is the deployment stored
+ * on the workflow record, so existing endpoints, webhooks and chats keep serving it.
+ */
+export async function listSlotDeployments(workflowId: string): Promise<SlotDeployment[]> {
+  const [records, workflows] = await Promise.all([
+    db
+      .select()
+      .from(workflowDeploymentSlot)
+      .where(eq(workflowDeploymentSlot.workflowId, workflowId)),
+    db
+      .select({
+        isDeployed: workflow.isDeployed,
+        deployedAt: workflow.deployedAt,
+        deployedVersion: workflow.deployedVersion,
+      })
+      .from(workflow)
+      .where(eq(workflow.id, workflowId))
+      .limit(1),
+  ])
+
+  return DEPLOYMENT_SLOTS.map((slot) => {
+    if (slot === 'prod') {
+      const isDeployed = !!workflows[0]?.isDeployed
+      return {
+        slot,
+        isDeployed,
+        version: isDeployed ? (workflows[0].deployedVersion ?? null) : null,
+        deployedAt: isDeployed ? workflows[0].deployedAt : null,
+      }
+    }
+
+    const record = records.find((candidate) => candidate.slot === slot)
+    return {
+      slot,
+      isDeployed: record?.version != null,
+      version: record?.version ?? null,
+      deployedAt: record?.deployedAt ?? null,
+    }
+  })
+}
+
+export async function isSlotDeployed(
+  workflowId: string,
+  slot: Exclude<DeploymentSlot, 'prod'>
+): Promise<boolean> {
+  const record = await getSlotRecord(workflowId, slot)
+  return record?.version != null
+}
+
+/**
+ * Returns the workflow state deployed in a dev or staging slot.
+ * Prod callers read the deployed state from the workflow record instead.
+ */
+export async function getSlotDeployedState(
+  workflowId: string,
+  slot: Exclude<DeploymentSlot, 'prod'>
+): Promise<{ version: number; state: WorkflowState } | undefined> {
+  const record = await getSlotRecord(workflowId, slot)
+  if (record?.version == null) {
+    return undefined
+  }
+
+  const deployed = await getDeploymentVersion(workflowId, record.version)
+  return deployed && { version: deployed.version, state: deployed.state as WorkflowState }
+}
+
+/**
+ * Makes an existing deployment version live in a slot.
+ *
+ * @returns The version number, or undefined if the version does not exist
+ */
+export async function deployVersionToSlot(
+  workflowId: string,
+  slot: DeploymentSlot,
+  version: number
+): Promise<number | undefined> {
+  if (slot === 'prod') {
+    const target = await rollbackToDeploymentVersion(workflowId, version)
+    return target?.version
+  }
+
+  const target = await getDeploymentVersion(workflowId, version)
+  if (!target) {
+    return undefined
+  }
+
+  const now = new Date()
+  await db
+    .insert(workflowDeploymentSlot)
+    .values({ id: uuidv4(), workflowId, slot, version, deployedAt: now })
+    .onConflictDoUpdate({
+      target: [workflowDeploymentSlot.workflowId, workflowDeploymentSlot.slot],
+      set: { version, deployedAt: now, updatedAt: now },
+    })
+
+  return target.version
+}
+
+/**
+ * Copies the version deployed in one slot to another, e.g. a tested staging
+ * version to prod. Each slot keeps its own environment variables.
+ *
+ * @returns The promoted version, or undefined if nothing is deployed in the source slot
+ */
+export async function promoteDeployment(
+  workflowId: string,
+  from: DeploymentSlot,
+  to: DeploymentSlot
+): Promise<number | undefined> {
+  const source = (await listSlotDeployments(workflowId)).find(
+    (deployment) => deployment.slot === from
+  )
+  if (source?.version == null) {
+    return undefined
+  }
+
+  return deployVersionToSlot(workflowId, to, source.version)
+}
+
+/**
+ * Removes the deployment from a dev or staging slot. Its variables are kept.
+ */
+export async function undeploySlot(
+  workflowId: string,
+  slot: Exclude<DeploymentSlot, 'prod'>
+): Promise<void> {
+  await db
+    .update(workflowDeploymentSlot)
+    .set({ version: null, deployedAt: null, updatedAt: new Date() })
+    .where(
+      and(eq(workflowDeploymentSlot.workflowId, workflowId), eq(workflowDeploymentSlot.slot, slot))
+    )
+}
+
+/**
+ * Returns the encrypted environment variables of a slot. They are merged over the
+ * user's environment when the slot executes.
+ */
+export async function getSlotVariables(
+  workflowId: string,
+  slot: DeploymentSlot
+): Promise<Record<string, string>> {
+  const record = await getSlotRecord(workflowId, slot)
+  return (record?.variables as Record<string, string> | undefined) ?? {}
+}
+
+/**
+ * Replaces the encrypted environment variables of a slot.
+ */
+export async function setSlotVariables(
+  workflowId: string,
+  slot: DeploymentSlot,
+  variables: Record<string, string>
+): Promise<void> {
+  await db
+    .insert(workflowDeploymentSlot)
+    .values({ id: uuidv4(), workflowId, slot, variables })
+    .onConflictDoUpdate({
+      target: [workflowDeploymentSlot.workflowId, workflowDeploymentSlot.slot],
+      set: { variables, updatedAt: new Date() },
+    })
+}
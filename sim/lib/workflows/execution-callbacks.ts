@@ -0,0 +1,61 @@
+import { retryWithExponentialBackoff } from '@/lib/documents/utils'
+import { createLogger } from '@/lib/logs/console-logger'
+import { safeFetch, UnsafeUrlError } from '@/lib/urls/safe-fetch'
+import type { ExecutionRun } from './execution-runs'
+
+const logger = createLogger('ExecutionCallbacks')
+
+const CALLBACK_TIMEOUT_MS = 10000
+
+/**
+ * Posts the final state of a finished run to the callback URL it was started with.
+ * The URL is user-supplied, so it must resolve to a public address and redirects are not
+ * followed. Server errors and timeouts are retried with backoff; failures are logged and
+ * swallowed since the caller can still poll the run's result endpoint.
+ */
+export async function sendExecutionCallback(run: ExecutionRun): Promise<void> {
+  if (!run.callbackUrl) return
+
+  const body = JSON.stringify({
+    runId: run.id,
+    workflowId: run.workflowId,
+    status: run.status,
+    error: run.error,
+    result: run.result,
+    finishedAt: run.updatedAt,
+  })
+
+  try {
+    await retryWithExponentialBackoff(
+      async () => {
+        const response = await safeFetch(run.callbackUrl!, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body,
+          signal: AbortSignal.timeout(CALLBACK_TIMEOUT_MS),
+        })
+        await response.body?.cancel()
+
+        if (!response.ok) {
+          throw Object.assign(new Error(`Callback responded with HTTP ${response.status}`), {
+            status: response.status,
+          })
+        }
+      },
+      {
+        maxRetries: 3,
+        // Network errors, timeouts, rate limits and server errors are worth another attempt,
+        // URLs that point to a private network are not
+        retryCondition: (error) =>
+          !(error instanceof UnsafeUrlError) &&
+          (!('status' in error) ||
+            error.status === undefined ||
+            error.status === 429 ||
+            error.status >= 500),
+      }
+    )
+    logger.info(`Sent completion callback for run ${run.id}`)
+  } catch (error) {
+    logger.error(`Failed to send completion callback for run ${run.id}`, error)
+  }
+}
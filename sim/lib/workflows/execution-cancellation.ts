@@ -0,0 +1,133 @@
+import { createLogger } from '@/lib/logs/console-logger'
+import { persistExecutionLogs } from '@/lib/logs/execution-logger'
+import { buildTraceSpans } from '@/lib/logs/trace-spans'
+import { cancelPendingApprovals } from '@/lib/workflows/approvals'
+import {
+  type ExecutionRun,
+  finishExecutionRun,
+  isExecutionRunResumable,
+  markExecutionRunCancelled,
+  RUN_HEARTBEAT_INTERVAL_MS,
+  saveExecutionCheckpoint,
+  touchExecutionRun,
+} from '@/lib/workflows/execution-runs'
+import { ExecutionAbortedError } from '@/executor/cancellation'
+import type { ExecutionCheckpoint } from '@/executor/checkpoint'
+import type { ExecutionResult } from '@/executor/types'
+
+const logger = createLogger('ExecutionCancellation')
+
+const CANCELLED_MESSAGE = 'Workflow execution was cancelled'
+
+type ExecutionTrigger = 'api' | 'webhook' | 'schedule' | 'manual' | 'chat'
+
+// Runs executing in this process, keyed by run ID
+const activeRuns = new Map<string, AbortController>()
+
+/**
+ * Registers a run that is about to execute in this process so it can be cancelled.
+ *
+ * Runs cancelled from this process are aborted immediately. Runs cancelled from another
+ * process are aborted after their next completed layer, when the checkpoint write sees
+ * the cancelled status. Until it is released, the run sends heartbeats so that a layer
+ * running longer than the stale threshold is not resumed by another process.
+ *
+ * @param runId - ID of the execution run
+ * @returns The executor extensions for the run and a release function to call once it ends
+ */
+export function trackExecutionRun(runId: string): {
+  abortSignal: AbortSignal
+  onCheckpoint: (checkpoint: ExecutionCheckpoint) => Promise<void>
+  release: () => void
+} {
+  const controller = new AbortController()
+  activeRuns.set(runId, controller)
+
+  const heartbeat = setInterval(() => {
+    touchExecutionRun(runId).catch((error) => {
+      logger.error(`Failed to send the heartbeat of run ${runId}`, error)
+    })
+  }, RUN_HEARTBEAT_INTERVAL_MS)
+  heartbeat.unref?.()
+
+  return {
+    abortSignal: controller.signal,
+    onCheckpoint: async (checkpoint) => {
+      const status = await saveExecutionCheckpoint(runId, checkpoint)
+      if (status === 'cancelled' && !controller.signal.aborted) {
+        logger.info(`Run ${runId} was cancelled from another process, stopping it`)
+        controller.abort(new ExecutionAbortedError('cancelled', CANCELLED_MESSAGE))
+      }
+    },
+    release: () => {
+      clearInterval(heartbeat)
+      if (activeRuns.get(runId) === controller) {
+        activeRuns.delete(runId)
+      }
+    },
+  }
+}
+
+/**
+ * Cancels a queued, running or paused run.
+ *
+ * A run that is still executing stops its running blocks and writes its own cancelled
+ * log. Queued and paused runs and runs whose process has died have nobody left to do that, so their
+ * cancelled log and result are written here from the blocks recorded in their last checkpoint.
+ *
+ * @param run - Run to cancel
+ * @returns The cancelled run, or undefined if it had already finished
+ */
+export async function cancelExecutionRun(run: ExecutionRun): Promise<ExecutionRun | undefined> {
+  const cancelled = await markExecutionRunCancelled(run.id, CANCELLED_MESSAGE)
+  if (!cancelled) {
+    return undefined
+  }
+
+  const controller = activeRuns.get(run.id)
+  if (controller) {
+    controller.abort(new ExecutionAbortedError('cancelled', CANCELLED_MESSAGE))
+    logger.info(`Aborted run ${run.id} executing in this process`)
+    return cancelled
+  }
+
+  if (run.status === 'paused') {
+    await cancelPendingApprovals(run.id)
+  }
+
+  if (run.status === 'paused' || run.status === 'queued' || isExecutionRunResumable(run)) {
+    await persistCancelledRun(run)
+  }
+
+  return cancelled
+}
+
+async function persistCancelledRun(run: ExecutionRun): Promise<void> {
+  const checkpoint = run.checkpoint as ExecutionCheckpoint | null
+  const startTime = checkpoint?.startTime || new Date(run.startedAt).toISOString()
+  const endTime = new Date().toISOString()
+
+  const result: ExecutionResult = {
+    success: false,
+    output: { response: {} },
+    error: CANCELLED_MESSAGE,
+    logs: checkpoint?.blockLogs || [],
+    metadata: {
+      duration: new Date(endTime).getTime() - new Date(startTime).getTime(),
+      startTime,
+      endTime,
+      isCancelled: true,
+      abortReason: 'cancelled',
+    },
+  }
+
+  const { traceSpans, totalDuration } = buildTraceSpans(result)
+  const enrichedResult = { ...result, traceSpans, totalDuration }
+  await persistExecutionLogs(
+    run.workflowId,
+    run.id,
+    enrichedResult,
+    run.trigger as ExecutionTrigger
+  )
+  await finishExecutionRun(run.id, result)
+}
@@ -0,0 +1,183 @@
+import { eq } from 'drizzle-orm'
+import { z } from 'zod'
+import { createLogger } from '@/lib/logs/console-logger'
+import { decryptSecret } from '@/lib/utils'
+import { db } from '@/db'
+import { environment } from '@/db/schema'
+import { Serializer } from '@/serializer'
+import type { SerializedWorkflow } from '@/serializer/types'
+import { mergeSubblockState } from '@/stores/workflows/server-utils'
+import type { WorkflowState } from '@/stores/workflows/workflow/types'
+import { type DeploymentSlot, getSlotVariables } from './deployment-slots'
+
+const logger = createLogger('WorkflowExecutionPreparation')
+
+// Define the schema for environment variables
+const EnvVarsSchema = z.record(z.string())
+
+export interface PreparedWorkflowExecution {
+  serializedWorkflow: SerializedWorkflow
+  processedBlockStates: Record<string, Record<string, any>>
+  decryptedEnvVars: Record<string, string>
+  workflowVariables: Record<string, any>
+}
+
+/**
+ * Builds everything the Executor needs to run a workflow state on the server:
+ * the serialized workflow, block states with environment variables substituted,
+ * the decrypted environment variables and the parsed workflow variables.
+ *
+ * @param workflow - Workflow record (needs id, userId and variables)
+ * @param state - Workflow state to execute (usually the deployed state)
+ * @param requestId - Request ID used to correlate log lines
+ * @param slot - Deployment slot whose environment variables override the user's
+ */
+export async function prepareWorkflowExecution(
+  workflow: { id: string; userId: string; variables?: unknown },
+  state: WorkflowState,
+  requestId: string,
+  slot: DeploymentSlot = 'prod'
+): Promise<PreparedWorkflowExecution> {
+  const workflowId = workflow.id
+  const { blocks, edges, loops, parallels } = state
+
+  // Use the same execution flow as in scheduled executions
+  const mergedStates = mergeSubblockState(blocks)
+
+  // Fetch the user's environment variables (if any)
+  const [userEnv] = await db
+    .select()
+    .from(environment)
+    .where(eq(environment.userId, workflow.userId))
+    .limit(1)
+
+  if (!userEnv) {
+    logger.debug(
+      `[${requestId}] No environment record found for user ${workflow.userId}. Proceeding with empty variables.`
+    )
+  }
+
+  // Parse and validate environment variables. Slot variables win over the user's.
+  const variables = EnvVarsSchema.parse({
+    ...((userEnv?.variables as Record<string, string> | undefined) ?? {}),
+    ...(await getSlotVariables(workflowId, slot)),
+  })
+
+  // Replace environment variables in the block states
+  const currentBlockStates = await Object.entries(mergedStates).reduce(
+    async (accPromise, [id, block]) => {
+      const acc = await accPromise
+      acc[id] = await Object.entries(block.subBlocks).reduce(
+        async (subAccPromise, [key, subBlock]) => {
+          const subAcc = await subAccPromise
+          let value = subBlock.value
+
+          // If the value is a string and contains environment variable syntax
+          if (typeof value === 'string' && value.includes('{{') && value.includes('}}')) {
+            const matches = value.match(/{{([^}]+)}}/g)
+            if (matches) {
+              // Process all matches sequentially
+              for (const match of matches) {
+                const varName = match.slice(2, -2) // Remove {{ and }}
+                const encryptedValue = variables[varName]
+                if (!encryptedValue) {
+                  throw new Error(`Environment variable "${varName}" was not found`)
+                }
+
+                try {
+                  const { decrypted } = await decryptSecret(encryptedValue)
+                  value = (value as string).replace(match, decrypted)
+                } catch (error: any) {
+                  logger.error(
+                    `[${requestId}] Error decrypting environment variable "${varName}"`,
+                    error
+                  )
+                  throw new Error(
+                    `Failed to decrypt environment variable "${varName}": ${error.message}`
+                  )
+                }
+              }
+            }
+          }
+
+          subAcc[key] = value
+          return subAcc
+        },
+        Promise.resolve({} as Record<string, any>)
+      )
+      return acc
+    },
+    Promise.resolve({} as Record<string, Record<string, any>>)
+  )
+
+  // Create a map of decrypted environment variables
+  const decryptedEnvVars: Record<string, string> = {}
+  for (const [key, encryptedValue] of Object.entries(variables)) {
+    try {
+      const { decrypted } = await decryptSecret(encryptedValue)
+      decryptedEnvVars[key] = decrypted
+    } catch (error: any) {
+      logger.error(`[${requestId}] Failed to decrypt environment variable "${key}"`, error)
+      throw new Error(`Failed to decrypt environment variable "${key}": ${error.message}`)
+    }
+  }
+
+  // Process the block states to ensure response formats are properly parsed
+  const processedBlockStates = Object.entries(currentBlockStates).reduce(
+    (acc, [blockId, blockState]) => {
+      // Check if this block has a responseFormat that needs to be parsed
+      if (blockState.responseFormat && typeof blockState.responseFormat === 'string') {
+        try {
+          logger.debug(`[${requestId}] Parsing responseFormat for block ${blockId}`)
+          // Attempt to parse the responseFormat if it's a string
+          const parsedResponseFormat = JSON.parse(blockState.responseFormat)
+
+          acc[blockId] = {
+            ...blockState,
+            responseFormat: parsedResponseFormat,
+          }
+        } catch (error) {
+          logger.warn(`[${requestId}] Failed to parse responseFormat for block ${blockId}`, error)
+          acc[blockId] = blockState
+        }
+      } else {
+        acc[blockId] = blockState
+      }
+      return acc
+    },
+    {} as Record<string, Record<string, any>>
+  )
+
+  // Get workflow variables
+  let workflowVariables = {}
+  if (workflow.variables) {
+    try {
+      // Parse workflow variables if they're stored as a string
+      if (typeof workflow.variables === 'string') {
+        workflowVariables = JSON.parse(workflow.variables)
+      } else {
+        // Otherwise use as is (already parsed JSON)
+        workflowVariables = workflow.variables
+      }
+      logger.debug(
+        `[${requestId}] Loaded ${Object.keys(workflowVariables).length} workflow variables for: ${workflowId}`
+      )
+    } catch (error) {
+      logger.error(`[${requestId}] Failed to parse workflow variables: ${workflowId}`, error)
+      // Continue execution even if variables can't be parsed
+    }
+  } else {
+    logger.debug(`[${requestId}] No workflow variables found for: ${workflowId}`)
+  }
+
+  // Serialize the workflow
+  logger.debug(`[${requestId}] Serializing workflow: ${workflowId}`)
+  const serializedWorkflow = new Serializer().serializeWorkflow(
+    mergedStates,
+    edges,
+    loops,
+    parallels
+  )
+
+  return { serializedWorkflow, processedBlockStates, decryptedEnvVars, workflowVariables }
+}
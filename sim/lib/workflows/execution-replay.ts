@@ -0,0 +1,51 @@
+import { createLogger } from '@/lib/logs/console-logger'
+import { Executor } from '@/executor'
+import { type ExecutionRecording, ExecutionReplay } from '@/executor/replay'
+import type { ExecutionResult } from '@/executor/types'
+import type { WorkflowState } from '@/stores/workflows/workflow/types'
+import type { DeploymentSlot } from './deployment-slots'
+import { prepareWorkflowExecution } from './execution-preparation'
+import type { ExecutionRun } from './execution-runs'
+
+const logger = createLogger('ExecutionReplay')
+
+/**
+ * Re-runs a recorded run with its original input, serving the recorded tool and provider
+ * responses instead of calling the real services. Function and Condition blocks run for
+ * real, so changes to them can be checked against the production data. Like test runs,
+ * replays are not persisted: there are no logs, run records or usage stats.
+ *
+ * @param workflow - Workflow record (needs id, userId and variables)
+ * @param state - Workflow state to replay, usually the editor state
+ * @param run - Recorded run
+ * @param requestId - Request ID used to correlate log lines
+ * @throws Error if the run has no recording
+ */
+export async function replayExecutionRun(
+  workflow: { id: string; userId: string; variables?: unknown },
+  state: WorkflowState,
+  run: ExecutionRun,
+  requestId: string
+): Promise<ExecutionResult> {
+  if (!run.recording) {
+    throw new Error(`Run ${run.id} was not recorded`)
+  }
+
+  const { serializedWorkflow, processedBlockStates, decryptedEnvVars, workflowVariables } =
+    await prepareWorkflowExecution(workflow, state, requestId, run.slot as DeploymentSlot)
+
+  logger.info(`[${requestId}] Replaying run ${run.id} of workflow ${workflow.id}`)
+  const executor = new Executor({
+    workflow: serializedWorkflow,
+    currentBlockStates: processedBlockStates,
+    envVarValues: decryptedEnvVars,
+    workflowInput: run.input ?? {},
+    workflowVariables,
+    contextExtensions: {
+      replay: ExecutionReplay.replay(run.recording as ExecutionRecording),
+    },
+  })
+
+  const execution = await executor.execute(workflow.id)
+  return 'stream' in execution && 'execution' in execution ? execution.execution : execution
+}
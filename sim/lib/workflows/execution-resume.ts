@@ -0,0 +1,200 @@
+import { createLogger } from '@/lib/logs/console-logger'
+import { persistExecutionError, persistExecutionLogs } from '@/lib/logs/execution-logger'
+import { buildTraceSpans } from '@/lib/logs/trace-spans'
+import {
+  getApprovalDecisionsForRun,
+  hasPendingApprovals,
+  pauseExecutionRun,
+} from '@/lib/workflows/approvals'
+import type { DeploymentSlot } from '@/lib/workflows/deployment-slots'
+import { trackExecutionRun } from '@/lib/workflows/execution-cancellation'
+import { prepareWorkflowExecution } from '@/lib/workflows/execution-preparation'
+import {
+  claimExecutionRunForResume,
+  type ExecutionRun,
+  finishExecutionRun,
+  getQueuedExecutionRuns,
+  MAX_LAYER_RESUMES,
+  queueExecutionRun,
+  saveExecutionRecording,
+} from '@/lib/workflows/execution-runs'
+import { getWorkflowById, updateWorkflowRunCounts } from '@/lib/workflows/utils'
+import { saveChatRunAnswers } from '@/app/api/chat/conversations'
+import { Executor } from '@/executor'
+import type { ExecutionCheckpoint } from '@/executor/checkpoint'
+import { type ExecutionRecording, ExecutionReplay } from '@/executor/replay'
+import type { ExecutionResult } from '@/executor/types'
+import type { WorkflowState } from '@/stores/workflows/workflow/types'
+
+const logger = createLogger('ExecutionResume')
+
+type ExecutionTrigger = 'api' | 'webhook' | 'schedule' | 'manual' | 'chat'
+
+/**
+ * Continues a claimed run from its last checkpoint, handing it every approval decision
+ * recorded so far. The run is re-executed against the workflow state it was started with,
+ * not the current deployment, so a resume never mixes two versions of the graph.
+ *
+ * Logs are only persisted once the run finishes; a run that pauses again for further
+ * approvals just records the new requests. Queued runs that have not started yet are
+ * executed from the beginning, and recorded if they were queued with a recording. Recorded
+ * runs that resume keep appending to their recording.
+ *
+ * @param run - Run that was claimed with claimExecutionRunForResume
+ * @param workflow - Workflow record the run belongs to
+ * @param requestId - Request ID used to correlate log lines
+ */
+export async function resumeExecutionRun(
+  run: ExecutionRun,
+  workflow: { id: string; userId: string; variables?: unknown },
+  requestId: string
+): Promise<ExecutionResult> {
+  const workflowId = workflow.id
+  const trigger = run.trigger as ExecutionTrigger
+  const checkpoint = (run.checkpoint as ExecutionCheckpoint | null) ?? undefined
+  logger.info(
+    `[${requestId}] Resuming run ${run.id} of workflow ${workflowId} from layer ${checkpoint?.layer ?? 0}`
+  )
+
+  const runTracking = trackExecutionRun(run.id)
+  // A run that starts over records from scratch; a resumed run continues its recording
+  const replay = run.recording
+    ? ExecutionReplay.continue(
+        run.recording as ExecutionRecording,
+        checkpoint ? checkpoint.recordedCalls : 0
+      )
+    : undefined
+
+  try {
+    const { serializedWorkflow, processedBlockStates, decryptedEnvVars, workflowVariables } =
+      await prepareWorkflowExecution(
+        workflow,
+        run.workflowState as WorkflowState,
+        requestId,
+        run.slot as DeploymentSlot
+      )
+
+    const executor = new Executor({
+      workflow: serializedWorkflow,
+      currentBlockStates: processedBlockStates,
+      envVarValues: decryptedEnvVars,
+      workflowInput: run.input,
+      workflowVariables,
+      contextExtensions: {
+        onCheckpoint: runTracking.onCheckpoint,
+        abortSignal: runTracking.abortSignal,
+        approvalDecisions: await getApprovalDecisionsForRun(run.id),
+        replay,
+      },
+      resumeFrom: checkpoint,
+    })
+
+    const result = await executor.execute(workflowId)
+    const executionResult = 'stream' in result && 'execution' in result ? result.execution : result
+
+    if (executionResult.metadata?.isPaused) {
+      logger.info(`[${requestId}] Run ${run.id} paused again for approvals`)
+      await pauseExecutionRun(run.id, workflowId, executionResult.metadata.pendingApprovals || [])
+      return executionResult
+    }
+
+    if (executionResult.success) {
+      await updateWorkflowRunCounts(workflowId)
+    }
+
+    const { traceSpans, totalDuration } = buildTraceSpans(executionResult)
+    const enrichedResult = { ...executionResult, traceSpans, totalDuration }
+    await persistExecutionLogs(workflowId, run.id, enrichedResult, trigger)
+    await finishExecutionRun(run.id, executionResult)
+
+    // Chat runs that paused answer the conversation once they finish here
+    const conversationId = (run.input as { conversationId?: string } | null)?.conversationId
+    if (trigger === 'chat' && conversationId) {
+      try {
+        await saveChatRunAnswers(conversationId, executionResult.logs || [])
+      } catch (error) {
+        logger.error(`[${requestId}] Failed to save the answers of chat run ${run.id}`, error)
+      }
+    }
+
+    return executionResult
+  } catch (error: any) {
+    await persistExecutionError(workflowId, run.id, error, trigger)
+    await finishExecutionRun(run.id, { success: false, error: error.message })
+    throw error
+  } finally {
+    if (replay) {
+      await saveExecutionRecording(run.id, replay.getRecording())
+    }
+    runTracking.release()
+  }
+}
+
+/**
+ * Queues a paused run for the run worker once every approval it waits on has been decided.
+ * The run continues in the worker rather than in the request that decided the approval,
+ * which could time out long before the run finishes.
+ *
+ * @returns Whether the run was queued; false if it still waits on other approvals or
+ * was already queued by another caller
+ */
+export async function queueRunAfterApprovals(runId: string, requestId: string): Promise<boolean> {
+  if (await hasPendingApprovals(runId)) {
+    logger.info(`[${requestId}] Run ${runId} is still waiting on approvals`)
+    return false
+  }
+
+  const queued = await queueExecutionRun(runId)
+  if (queued) {
+    logger.info(`[${requestId}] Queued run ${runId} to resume after its approvals`)
+  }
+  return queued
+}
+
+/**
+ * Executes the runs waiting in the queue, one after another. A run whose worker stopped
+ * before it finished is picked up again from its last checkpoint, unless it already stalled
+ * at that layer MAX_LAYER_RESUMES times, e.g. because the layer outlasts the worker.
+ *
+ * @returns The number of runs that were executed
+ */
+export async function processQueuedRuns(requestId: string, limit: number): Promise<number> {
+  const runs = await getQueuedExecutionRuns(limit)
+  let processedRuns = 0
+
+  for (const run of runs) {
+    const workflow = await getWorkflowById(run.workflowId)
+    if (!workflow) {
+      logger.warn(
+        `[${requestId}] Workflow ${run.workflowId} of queued run ${run.id} no longer exists`
+      )
+      await finishExecutionRun(run.id, { success: false, error: 'Workflow no longer exists' })
+      continue
+    }
+
+    if (run.status === 'running' && run.layerResumeCount >= MAX_LAYER_RESUMES) {
+      const error = new Error(
+        `Run stalled ${run.layerResumeCount + 1} times at layer ${run.completedLayers + 1}`
+      )
+      logger.warn(`[${requestId}] Failing run ${run.id}: ${error.message}`)
+      await persistExecutionError(run.workflowId, run.id, error, run.trigger as ExecutionTrigger)
+      await finishExecutionRun(run.id, { success: false, error: error.message })
+      continue
+    }
+
+    const claimedRun = await claimExecutionRunForResume(run)
+    if (!claimedRun) {
+      logger.info(`[${requestId}] Run ${run.id} was already picked up by another worker`)
+      continue
+    }
+
+    try {
+      await resumeExecutionRun(claimedRun, workflow, requestId)
+      processedRuns++
+    } catch (error) {
+      logger.error(`[${requestId}] Error executing queued run ${run.id}`, error)
+    }
+  }
+
+  return processedRuns
+}
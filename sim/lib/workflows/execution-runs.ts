@@ -0,0 +1,284 @@
+import { and, eq, inArray, lt, notInArray, or, sql } from 'drizzle-orm'
+import { createLogger } from '@/lib/logs/console-logger'
+import { db } from '@/db'
+import { workflowExecutionRun } from '@/db/schema'
+import type { ExecutionCheckpoint } from '@/executor/checkpoint'
+import type { ExecutionRecording } from '@/executor/replay'
+import type { ExecutionResult } from '@/executor/types'
+import { sendExecutionCallback } from './execution-callbacks'
+
+const logger = createLogger('ExecutionRuns')
+
+// A running run that has not checkpointed for this long is assumed to have lost its process
+export const STALE_RUN_THRESHOLD_MS = 10 * 60 * 1000
+
+// How often a run executing in a process shows it is still alive, well within the threshold
+export const RUN_HEARTBEAT_INTERVAL_MS = 60 * 1000
+
+// Resumes of the same layer after which a run that keeps stalling is failed instead
+export const MAX_LAYER_RESUMES = 3
+
+export type ExecutionRunStatus =
+  | 'queued'
+  | 'running'
+  | 'paused'
+  | 'completed'
+  | 'failed'
+  | 'cancelled'
+
+export type ExecutionRun = typeof workflowExecutionRun.$inferSelect
+
+/**
+ * Records the start of a workflow execution so it can later be checkpointed and resumed.
+ * Failures are logged and swallowed: a missing run record must never block an execution.
+ * Queued runs are left for the run worker to execute, so callers must check the result.
+ *
+ * @returns Whether the run was recorded
+ */
+export async function createExecutionRun(run: {
+  id: string
+  workflowId: string
+  trigger: string
+  slot?: string
+  input?: any
+  workflowState: any
+  callbackUrl?: string
+  queued?: boolean // Executed by the run worker instead of the caller
+  recording?: ExecutionRecording // Empty recording, for queued runs that should be recorded
+}): Promise<boolean> {
+  try {
+    await db.insert(workflowExecutionRun).values({
+      id: run.id,
+      workflowId: run.workflowId,
+      trigger: run.trigger,
+      slot: run.slot ?? 'prod',
+      input: run.input ?? null,
+      workflowState: run.workflowState,
+      callbackUrl: run.callbackUrl ?? null,
+      recording: run.recording ?? null,
+      status: run.queued ? 'queued' : 'running',
+      background: run.queued ?? false,
+    })
+    return true
+  } catch (error) {
+    logger.error(`Failed to create execution run ${run.id}`, error)
+    return false
+  }
+}
+
+/**
+ * Stores the checkpoint taken after a completed execution layer.
+ *
+ * @returns The current status of the run, so the caller notices a cancellation
+ */
+export async function saveExecutionCheckpoint(
+  runId: string,
+  checkpoint: ExecutionCheckpoint
+): Promise<ExecutionRunStatus | undefined> {
+  const [run] = await db
+    .update(workflowExecutionRun)
+    .set({
+      checkpoint,
+      completedLayers: checkpoint.layer,
+      layerResumeCount: 0,
+      updatedAt: new Date(),
+    })
+    .where(eq(workflowExecutionRun.id, runId))
+    .returning({ status: workflowExecutionRun.status })
+
+  return run?.status as ExecutionRunStatus | undefined
+}
+
+/**
+ * Shows that a run is still executing, so long layers are not mistaken for stalled runs.
+ */
+export async function touchExecutionRun(runId: string): Promise<void> {
+  await db
+    .update(workflowExecutionRun)
+    .set({ updatedAt: new Date() })
+    .where(and(eq(workflowExecutionRun.id, runId), eq(workflowExecutionRun.status, 'running')))
+}
+
+/**
+ * Marks a run as finished. Failed runs keep their last checkpoint so they can be resumed.
+ * The final ExecutionResult is stored for async callers and sent to the run's callback URL.
+ */
+export async function finishExecutionRun(
+  runId: string,
+  result:
+    | ExecutionResult
+    | { success: boolean; error?: string; metadata?: { isCancelled?: boolean } }
+): Promise<void> {
+  let finishedRun: ExecutionRun | undefined
+
+  try {
+    const now = new Date()
+    const [run] = await db
+      .update(workflowExecutionRun)
+      .set({
+        status: result.success
+          ? 'completed'
+          : result.metadata?.isCancelled
+            ? 'cancelled'
+            : 'failed',
+        error: result.success ? null : result.error || 'Workflow execution failed',
+        result: 'output' in result ? result : null,
+        updatedAt: now,
+        completedAt: result.success ? now : null,
+      })
+      .where(eq(workflowExecutionRun.id, runId))
+      .returning()
+    finishedRun = run
+  } catch (error) {
+    logger.error(`Failed to finish execution run ${runId}`, error)
+  }
+
+  if (finishedRun?.callbackUrl) {
+    await sendExecutionCallback(finishedRun)
+  }
+}
+
+/**
+ * Stores the tool and provider responses recorded during a run, so it can be replayed.
+ * Failures are logged and swallowed like the run record itself.
+ */
+export async function saveExecutionRecording(
+  runId: string,
+  recording: ExecutionRecording
+): Promise<void> {
+  try {
+    await db
+      .update(workflowExecutionRun)
+      .set({ recording })
+      .where(eq(workflowExecutionRun.id, runId))
+  } catch (error) {
+    logger.error(`Failed to save the recording of execution run ${runId}`, error)
+  }
+}
+
+export async function getExecutionRun(runId: string): Promise<ExecutionRun | undefined> {
+  const runs = await db
+    .select()
+    .from(workflowExecutionRun)
+    .where(eq(workflowExecutionRun.id, runId))
+    .limit(1)
+  return runs[0]
+}
+
+/**
+ * Determines whether a run can be resumed: failed runs, and running runs once they stopped
+ * checkpointing. Paused runs resume through their approvals and queued runs through the
+ * run worker.
+ */
+export function isExecutionRunResumable(run: ExecutionRun, now = Date.now()): boolean {
+  if (run.status === 'failed') {
+    return true
+  }
+
+  if (run.status === 'running') {
+    return now - new Date(run.updatedAt).getTime() > STALE_RUN_THRESHOLD_MS
+  }
+
+  return false
+}
+
+/**
+ * Atomically moves a run back to "running" for a resume attempt.
+ *
+ * @returns The claimed run, or undefined if another caller completed or claimed it first
+ */
+export async function claimExecutionRunForResume(
+  run: ExecutionRun
+): Promise<ExecutionRun | undefined> {
+  const [claimed] = await db
+    .update(workflowExecutionRun)
+    .set({
+      status: 'running',
+      error: null,
+      result: null,
+      resumeCount: sql`${workflowExecutionRun.resumeCount} + 1`,
+      layerResumeCount: sql`${workflowExecutionRun.layerResumeCount} + 1`,
+      updatedAt: new Date(),
+    })
+    .where(
+      and(
+        eq(workflowExecutionRun.id, run.id),
+        notInArray(workflowExecutionRun.status, ['completed', 'cancelled']),
+        eq(workflowExecutionRun.updatedAt, run.updatedAt)
+      )
+    )
+    .returning()
+
+  return claimed
+}
+
+/**
+ * Hands a paused run to the run worker, once every approval it waited on was decided.
+ *
+ * @returns Whether the run was queued; false if it was no longer paused
+ */
+export async function queueExecutionRun(runId: string): Promise<boolean> {
+  const [queued] = await db
+    .update(workflowExecutionRun)
+    .set({
+      status: 'queued',
+      background: true,
+      updatedAt: new Date(),
+    })
+    .where(and(eq(workflowExecutionRun.id, runId), eq(workflowExecutionRun.status, 'paused')))
+    .returning({ id: workflowExecutionRun.id })
+
+  return !!queued
+}
+
+/**
+ * Runs the run worker should execute: queued runs, and background runs whose worker
+ * stopped checkpointing and sending heartbeats, oldest first.
+ */
+export async function getQueuedExecutionRuns(
+  limit: number,
+  now = Date.now()
+): Promise<ExecutionRun[]> {
+  return db
+    .select()
+    .from(workflowExecutionRun)
+    .where(
+      or(
+        eq(workflowExecutionRun.status, 'queued'),
+        and(
+          eq(workflowExecutionRun.status, 'running'),
+          eq(workflowExecutionRun.background, true),
+          lt(workflowExecutionRun.updatedAt, new Date(now - STALE_RUN_THRESHOLD_MS))
+        )
+      )
+    )
+    .orderBy(workflowExecutionRun.updatedAt)
+    .limit(limit)
+}
+
+/**
+ * Atomically marks a queued, running or paused run as cancelled.
+ *
+ * @returns The cancelled run, or undefined if it had already finished
+ */
+export async function markExecutionRunCancelled(
+  runId: string,
+  reason: string
+): Promise<ExecutionRun | undefined> {
+  const [cancelled] = await db
+    .update(workflowExecutionRun)
+    .set({
+      status: 'cancelled',
+      error: reason,
+      updatedAt: new Date(),
+    })
+    .where(
+      and(
+        eq(workflowExecutionRun.id, runId),
+        inArray(workflowExecutionRun.status, ['queued', 'running', 'paused'])
+      )
+    )
+    .returning()
+
+  return cancelled
+}
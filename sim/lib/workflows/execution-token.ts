@@ -0,0 +1,34 @@
+import { jwtVerify, SignJWT } from 'jose'
+import { env } from '@/lib/env'
+
+const TOKEN_TYPE = 'workflow-execution'
+
+// Long enough for the slowest block of a run
+const TOKEN_EXPIRATION = '1h'
+
+const getSecret = () => new TextEncoder().encode(env.BETTER_AUTH_SECRET)
+
+/**
+ * Create a token with which a server-side execution of a workflow calls the app's own
+ * routes for that workflow, such as the memory of its agents. Unlike runs in the editor,
+ * these executions have no session.
+ */
+export async function createExecutionToken(workflowId: string): Promise<string> {
+  return new SignJWT({ workflowId, type: TOKEN_TYPE })
+    .setProtectedHeader({ alg: 'HS256' })
+    .setIssuedAt()
+    .setExpirationTime(TOKEN_EXPIRATION)
+    .sign(getSecret())
+}
+
+/**
+ * Whether a token was created for an execution of the workflow and has not expired
+ */
+export async function verifyExecutionToken(token: string, workflowId: string): Promise<boolean> {
+  try {
+    const { payload } = await jwtVerify(token, getSecret())
+    return payload.type === TOKEN_TYPE && payload.workflowId === workflowId
+  } catch {
+    return false
+  }
+}
@@ -0,0 +1,158 @@
+/**
+ * @vitest-environment node
+ *
+ * Workflow Test Suites Unit Tests
+ *
+ * Tests for evaluating test case assertions against execution results and for
+ * finding blocks that would have real side effects during a test run.
+ */
+import { describe, expect, it, vi } from 'vitest'
+import type { ExecutionResult } from '@/executor/types'
+import type { BlockState, WorkflowState } from '@/stores/workflows/workflow/types'
+import { evaluateAssertion, findUnmockedBlocks } from './test-suites'
+
+vi.mock('@/db', () => ({ db: {} }))
+vi.mock('@/blocks', () => ({
+  getBlock: (type: string) =>
+    ({
+      starter: { tools: { access: [] } },
+      condition: { tools: { access: [] } },
+      agent: { tools: { access: ['openai_chat'] } },
+      slack: { tools: { access: ['slack_message'] } },
+    })[type],
+}))
+
+const createResult = (overrides: Partial<ExecutionResult> = {}): ExecutionResult => ({
+  success: true,
+  output: { response: { content: 'Hello world' } },
+  logs: [
+    {
+      blockId: 'agent',
+      blockType: 'agent',
+      startedAt: '2025-01-01T00:00:00.000Z',
+      endedAt: '2025-01-01T00:00:01.000Z',
+      durationMs: 1000,
+      success: true,
+      output: { response: { content: 'Hello world', tokens: { total: 42 } } },
+    },
+  ],
+  ...overrides,
+})
+
+describe('evaluateAssertion', () => {
+  it('should check values on the final result', () => {
+    const result = createResult()
+
+    expect(
+      evaluateAssertion(result, {
+        target: 'result',
+        path: 'success',
+        operator: 'equals',
+        expected: true,
+      }).passed
+    ).toBe(true)
+    expect(
+      evaluateAssertion(result, {
+        target: 'result',
+        path: 'output.response.content',
+        operator: 'contains',
+        expected: 'world',
+      }).passed
+    ).toBe(true)
+  })
+
+  it('should check values on block outputs', () => {
+    const assertion = evaluateAssertion(createResult(), {
+      target: 'agent',
+      path: 'response.tokens.total',
+      operator: 'lessThan',
+      expected: 10,
+    })
+
+    expect(assertion.passed).toBe(false)
+    expect(assertion.actual).toBe(42)
+    expect(assertion.message).toBe('Expected response.tokens.total lessThan 10')
+  })
+
+  it('should fail assertions on blocks that did not run', () => {
+    const assertion = evaluateAssertion(createResult(), {
+      target: 'router',
+      operator: 'exists',
+    })
+
+    expect(assertion.passed).toBe(false)
+    expect(assertion.message).toBe('Block router did not run')
+  })
+
+  it('should fail instead of throwing on invalid patterns', () => {
+    const assertion = evaluateAssertion(createResult(), {
+      target: 'agent',
+      path: 'response.content',
+      operator: 'matches',
+      expected: '(',
+    })
+
+    expect(assertion.passed).toBe(false)
+    expect(assertion.message).toBeDefined()
+  })
+
+  it('should stop patterns that backtrack for too long', () => {
+    const assertion = evaluateAssertion(
+      createResult({
+        logs: [
+          {
+            blockId: 'agent',
+            blockType: 'agent',
+            startedAt: '2025-01-01T00:00:00.000Z',
+            endedAt: '2025-01-01T00:00:01.000Z',
+            durationMs: 1000,
+            success: true,
+            output: { response: { content: `${'a'.repeat(40)}b` } },
+          },
+        ],
+      }),
+      { target: 'agent', path: 'response.content', operator: 'matches', expected: '^(a+)+$' }
+    )
+
+    expect(assertion.passed).toBe(false)
+    expect(assertion.message).toContain('took longer than')
+  })
+
+  it('should reject overly long patterns', () => {
+    const assertion = evaluateAssertion(createResult(), {
+      target: 'agent',
+      path: 'response.content',
+      operator: 'matches',
+      expected: 'a'.repeat(2000),
+    })
+
+    expect(assertion.passed).toBe(false)
+    expect(assertion.message).toContain('at most')
+  })
+})
+
+describe('findUnmockedBlocks', () => {
+  const createBlock = (id: string, type: string, enabled = true) =>
+    ({ id, type, name: id, enabled }) as BlockState
+
+  const state = {
+    blocks: {
+      start: createBlock('start', 'starter'),
+      check: createBlock('check', 'condition'),
+      agent: createBlock('agent', 'agent'),
+      notify: createBlock('notify', 'slack'),
+      disabled: createBlock('disabled', 'slack', false),
+    },
+    edges: [],
+    loops: {},
+    parallels: {},
+  } as WorkflowState
+
+  it('should return blocks that call tools without a mock', () => {
+    expect(findUnmockedBlocks(state, { agent: {} }).map((block) => block.id)).toEqual(['notify'])
+  })
+
+  it('should return nothing once every tool block is mocked', () => {
+    expect(findUnmockedBlocks(state, { agent: {}, notify: {} })).toEqual([])
+  })
+})
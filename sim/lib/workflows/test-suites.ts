@@ -0,0 +1,283 @@
+import vm from 'vm'
+import { eq } from 'drizzle-orm'
+import { z } from 'zod'
+import { createLogger } from '@/lib/logs/console-logger'
+import { getBlock } from '@/blocks'
+import { db } from '@/db'
+import { workflowTestCase } from '@/db/schema'
+import { Executor } from '@/executor'
+import type { BlockLog, ExecutionResult } from '@/executor/types'
+import type { BlockState, WorkflowState } from '@/stores/workflows/workflow/types'
+import { prepareWorkflowExecution } from './execution-preparation'
+
+const logger = createLogger('WorkflowTestSuites')
+
+// Target of an assertion on the final ExecutionResult instead of a block output
+export const RESULT_TARGET = 'result'
+
+// Patterns of "matches" assertions are user-supplied and can backtrack for a very long
+// time, so they are size-limited and interrupted after a short time
+const MAX_PATTERN_LENGTH = 1000
+const MAX_MATCH_INPUT_LENGTH = 100000
+const MATCH_TIMEOUT_MS = 100
+
+export const TestAssertionSchema = z.object({
+  target: z.string().min(1), // 'result' or a block ID
+  path: z.string().optional(), // Dot path into the target, e.g. "response.content"
+  operator: z.enum([
+    'equals',
+    'notEquals',
+    'contains',
+    'matches',
+    'exists',
+    'notExists',
+    'greaterThan',
+    'lessThan',
+  ]),
+  expected: z.any().optional(),
+})
+
+export const TestCaseSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(200),
+  description: z.string().nullable().optional(),
+  input: z.any().optional(),
+  mocks: z.record(z.any()).default({}),
+  assertions: z.array(TestAssertionSchema).default([]),
+})
+
+export type TestAssertion = z.infer<typeof TestAssertionSchema>
+
+export type WorkflowTestCase = typeof workflowTestCase.$inferSelect
+
+export interface TestAssertionResult extends TestAssertion {
+  passed: boolean
+  actual?: any
+  message?: string
+}
+
+export interface TestCaseResult {
+  testCaseId: string
+  name: string
+  passed: boolean
+  durationMs: number
+  error?: string // Set when the workflow could not be executed at all
+  assertions: TestAssertionResult[]
+  result?: ExecutionResult
+}
+
+export async function listTestCases(workflowId: string): Promise<WorkflowTestCase[]> {
+  return db
+    .select()
+    .from(workflowTestCase)
+    .where(eq(workflowTestCase.workflowId, workflowId))
+    .orderBy(workflowTestCase.createdAt)
+}
+
+/**
+ * Reads a value from a nested object with a dot path. Array indexes are
+ * written as path segments, e.g. "response.toolCalls.list.0.name".
+ */
+function getValueAtPath(value: any, path?: string): any {
+  if (!path) return value
+  return path
+    .split('.')
+    .reduce((current, key) => (current == null ? undefined : current[key]), value)
+}
+
+/**
+ * Returns the target of an assertion: the final result or the latest output of a block.
+ * Loop iterations and parallel copies log the same block more than once.
+ */
+function resolveAssertionTarget(result: ExecutionResult, target: string) {
+  if (target === RESULT_TARGET) {
+    return { found: true, value: result }
+  }
+
+  const logs = (result.logs || []).filter(
+    (log: BlockLog) => log.blockId === target || log.blockId.startsWith(`${target}_parallel_`)
+  )
+  const log = logs[logs.length - 1]
+  return { found: !!log, value: log?.success ? log.output : undefined }
+}
+
+/**
+ * Tests a user-supplied regular expression in a separate context that is stopped
+ * once it runs longer than MATCH_TIMEOUT_MS.
+ */
+function matchesPattern(actual: string, pattern: string): boolean {
+  if (pattern.length > MAX_PATTERN_LENGTH) {
+    throw new Error(`Patterns can be at most ${MAX_PATTERN_LENGTH} characters long`)
+  }
+  if (actual.length > MAX_MATCH_INPUT_LENGTH) {
+    throw new Error(`Values longer than ${MAX_MATCH_INPUT_LENGTH} characters cannot be matched`)
+  }
+
+  try {
+    return vm.runInNewContext(
+      'new RegExp(pattern).test(text)',
+      { pattern, text: actual },
+      { timeout: MATCH_TIMEOUT_MS }
+    )
+  } catch (error: any) {
+    if (error.code === 'ERR_SCRIPT_EXECUTION_TIMEOUT') {
+      throw new Error(`Pattern took longer than ${MATCH_TIMEOUT_MS}ms to match`)
+    }
+    throw error
+  }
+}
+
+function compareValues(operator: TestAssertion['operator'], actual: any, expected: any): boolean {
+  switch (operator) {
+    case 'equals':
+      return JSON.stringify(actual) === JSON.stringify(expected)
+    case 'notEquals':
+      return JSON.stringify(actual) !== JSON.stringify(expected)
+    case 'contains':
+      if (typeof actual === 'string') return actual.includes(String(expected))
+      if (Array.isArray(actual)) {
+        return actual.some((item) => JSON.stringify(item) === JSON.stringify(expected))
+      }
+      return false
+    case 'matches':
+      return typeof actual === 'string' && matchesPattern(actual, String(expected))
+    case 'exists':
+      return actual !== undefined && actual !== null
+    case 'notExists':
+      return actual === undefined || actual === null
+    case 'greaterThan':
+      return Number(actual) > Number(expected)
+    case 'lessThan':
+      return Number(actual) < Number(expected)
+  }
+}
+
+/**
+ * Checks a single assertion against an execution result.
+ */
+export function evaluateAssertion(
+  result: ExecutionResult,
+  assertion: TestAssertion
+): TestAssertionResult {
+  const target = resolveAssertionTarget(result, assertion.target)
+  if (!target.found) {
+    return { ...assertion, passed: false, message: `Block ${assertion.target} did not run` }
+  }
+
+  const actual = getValueAtPath(target.value, assertion.path)
+  try {
+    const passed = compareValues(assertion.operator, actual, assertion.expected)
+    return {
+      ...assertion,
+      passed,
+      actual,
+      message: passed
+        ? undefined
+        : `Expected ${assertion.path || assertion.target} ${assertion.operator}${
+            assertion.expected === undefined ? '' : ` ${JSON.stringify(assertion.expected)}`
+          }`,
+    }
+  } catch (error: any) {
+    // e.g. an invalid or too slow regular expression
+    return { ...assertion, passed: false, actual, message: error.message }
+  }
+}
+
+/**
+ * Returns the enabled blocks that would call a tool or provider because the test case
+ * has no mock for them. Test runs must never have real side effects.
+ */
+export function findUnmockedBlocks(
+  state: WorkflowState,
+  mocks: Record<string, unknown>
+): BlockState[] {
+  return Object.values(state.blocks).filter((block) => {
+    if (!block.enabled || block.id in mocks) return false
+    const tools = getBlock(block.type)?.tools?.access ?? []
+    return tools.length > 0
+  })
+}
+
+/**
+ * Runs a test case with the real Executor in sandbox mode: mocked blocks return their
+ * fixture output instead of calling tools or providers, and nothing is persisted, so
+ * there are no logs, run records or usage stats. Every block that calls a tool or
+ * provider must be mocked, otherwise the case fails without running.
+ *
+ * @param workflow - Workflow record (needs id, userId and variables)
+ * @param state - Workflow state under test, usually the editor state
+ * @param testCase - Test case to run
+ * @param requestId - Request ID used to correlate log lines
+ */
+export async function runWorkflowTestCase(
+  workflow: { id: string; userId: string; variables?: unknown },
+  state: WorkflowState,
+  testCase: Pick<WorkflowTestCase, 'id' | 'name' | 'input' | 'mocks' | 'assertions'>,
+  requestId: string
+): Promise<TestCaseResult> {
+  const startTime = Date.now()
+  const assertions = (testCase.assertions as TestAssertion[]) || []
+  const mocks = (testCase.mocks as Record<string, any>) || {}
+
+  try {
+    const unmockedBlocks = findUnmockedBlocks(state, mocks)
+    if (unmockedBlocks.length > 0) {
+      throw new Error(
+        `Mock every block that calls a tool or provider; missing mocks for ${unmockedBlocks
+          .map((block) => block.name)
+          .join(', ')}`
+      )
+    }
+
+    const { serializedWorkflow, processedBlockStates, decryptedEnvVars, workflowVariables } =
+      await prepareWorkflowExecution(workflow, state, requestId)
+
+    // Fixtures are structured like an API request body
+    const input = testCase.input
+    const hasContent = input !== null && input !== undefined && Object.keys(input).length > 0
+    const executor = new Executor({
+      workflow: serializedWorkflow,
+      currentBlockStates: processedBlockStates,
+      envVarValues: decryptedEnvVars,
+      workflowInput: hasContent ? { input } : {},
+      workflowVariables,
+      contextExtensions: {
+        blockMocks: mocks,
+      },
+    })
+
+    const execution = await executor.execute(workflow.id)
+    const result =
+      'stream' in execution && 'execution' in execution ? execution.execution : execution
+
+    const assertionResults = assertions.map((assertion) => evaluateAssertion(result, assertion))
+    if (result.metadata?.isPaused) {
+      assertionResults.push({
+        target: RESULT_TARGET,
+        operator: 'notExists',
+        path: 'metadata.pendingApprovals',
+        passed: false,
+        actual: result.metadata.pendingApprovals,
+        message: 'The workflow paused for approvals; mock the approval blocks to test past them',
+      })
+    }
+
+    return {
+      testCaseId: testCase.id,
+      name: testCase.name,
+      passed: assertionResults.every((assertion) => assertion.passed),
+      durationMs: Date.now() - startTime,
+      assertions: assertionResults,
+      result,
+    }
+  } catch (error: any) {
+    logger.warn(`[${requestId}] Test case ${testCase.id} could not be executed`, error)
+    return {
+      testCaseId: testCase.id,
+      name: testCase.name,
+      passed: false,
+      durationMs: Date.now() - startTime,
+      error: error.message || 'Failed to execute workflow',
+      assertions: assertions.map((assertion) => ({ ...assertion, passed: false })),
+    }
+  }
+}
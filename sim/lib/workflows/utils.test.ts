@@ -0,0 +1,92 @@
+/**
+ * @vitest-environment node
+ *
+ * Workflow Utils Unit Tests
+ *
+ * Tests for the structural diff between two workflow states.
+ */
+import { describe, expect, it, vi } from 'vitest'
+import type { WorkflowState } from '@/stores/workflows/workflow/types'
+import { diffWorkflowStates } from './utils'
+
+vi.mock('@/db', () => ({ db: {} }))
+
+const createState = (overrides: Partial<WorkflowState> = {}): WorkflowState => ({
+  blocks: {
+    start: {
+      id: 'start',
+      type: 'starter',
+      name: 'Start',
+      position: { x: 0, y: 0 },
+      subBlocks: {},
+      outputs: {},
+      enabled: true,
+    },
+    agent: {
+      id: 'agent',
+      type: 'agent',
+      name: 'Agent',
+      position: { x: 200, y: 0 },
+      subBlocks: { model: { id: 'model', type: 'dropdown', value: 'gpt-4o' } },
+      outputs: {},
+      enabled: true,
+    },
+  },
+  edges: [{ id: 'e1', source: 'start', target: 'agent' }],
+  loops: {},
+  parallels: {},
+  ...overrides,
+})
+
+describe('diffWorkflowStates', () => {
+  it('should report no changes when only positions differ', () => {
+    const from = createState()
+    const to = createState()
+    to.blocks.agent = { ...to.blocks.agent, position: { x: 500, y: 300 } }
+
+    const diff = diffWorkflowStates(from, to)
+
+    expect(diff.hasChanges).toBe(false)
+    expect(diff.blocks.changed).toEqual([])
+  })
+
+  it('should report changed sub-block values and block properties', () => {
+    const from = createState()
+    const to = createState()
+    to.blocks.agent = {
+      ...to.blocks.agent,
+      name: 'Writer',
+      subBlocks: { model: { id: 'model', type: 'dropdown', value: 'claude-3-7-sonnet' } },
+    }
+
+    const diff = diffWorkflowStates(from, to)
+
+    expect(diff.hasChanges).toBe(true)
+    expect(diff.blocks.changed).toEqual([
+      {
+        id: 'agent',
+        name: 'Writer',
+        type: 'agent',
+        properties: [{ key: 'name', from: 'Agent', to: 'Writer' }],
+        subBlocks: [{ key: 'model', from: 'gpt-4o', to: 'claude-3-7-sonnet' }],
+      },
+    ])
+  })
+
+  it('should report added and removed blocks, edges and loops', () => {
+    const from = createState()
+    const to = createState({
+      blocks: { start: createState().blocks.start },
+      edges: [],
+      loops: { loop1: { id: 'loop1', nodes: [], iterations: 3, loopType: 'for' } },
+    })
+
+    const diff = diffWorkflowStates(from, to)
+
+    expect(diff.blocks.removed).toEqual([{ id: 'agent', name: 'Agent', type: 'agent' }])
+    expect(diff.edges.removed).toEqual([
+      { source: 'start', sourceHandle: null, target: 'agent', targetHandle: null },
+    ])
+    expect(diff.loops.added).toEqual(['loop1'])
+  })
+})
@@ -1,6 +1,7 @@
 import { eq } from 'drizzle-orm'
 import { NextResponse } from 'next/server'
 import { createLogger } from '@/lib/logs/console-logger'
+import { getBaseUrl } from '@/lib/urls/utils'
 import { db } from '@/db'
 import { userStats, workflow as workflowTable } from '@/db/schema'
 import type { ExecutionResult } from '@/executor/types'
@@ -316,6 +317,158 @@ export function hasWorkflowChanged(
   return false
 }
 
+export interface WorkflowEdgeRef {
+  source: string
+  sourceHandle?: string | null
+  target: string
+  targetHandle?: string | null
+}
+
+export interface WorkflowValueChange {
+  key: string // Block property or sub-block ID
+  from: any
+  to: any
+}
+
+export interface WorkflowBlockDiff {
+  id: string
+  name: string
+  type: string
+  properties: WorkflowValueChange[] // Changed block properties such as name or enabled
+  subBlocks: WorkflowValueChange[] // Changed sub-block values
+}
+
+export interface WorkflowSubflowDiff {
+  added: string[]
+  removed: string[]
+  changed: Array<{ id: string; from: any; to: any }>
+}
+
+/**
+ * Structural differences between two workflow states.
+ */
+export interface WorkflowDiff {
+  hasChanges: boolean
+  blocks: {
+    added: Array<{ id: string; name: string; type: string }>
+    removed: Array<{ id: string; name: string; type: string }>
+    changed: WorkflowBlockDiff[]
+  }
+  edges: {
+    added: WorkflowEdgeRef[]
+    removed: WorkflowEdgeRef[]
+  }
+  loops: WorkflowSubflowDiff
+  parallels: WorkflowSubflowDiff
+}
+
+// Block properties that only affect the layout on the canvas
+const LAYOUT_BLOCK_PROPERTIES = new Set(['id', 'position', 'height', 'subBlocks'])
+
+function diffValues(from: Record<string, any>, to: Record<string, any>): WorkflowValueChange[] {
+  const keys = [...new Set([...Object.keys(from), ...Object.keys(to)])].sort()
+  return keys
+    .filter(
+      (key) => normalizedStringify(from[key] ?? null) !== normalizedStringify(to[key] ?? null)
+    )
+    .map((key) => ({ key, from: from[key] ?? null, to: to[key] ?? null }))
+}
+
+function diffSubflows(
+  from: Record<string, any> = {},
+  to: Record<string, any> = {}
+): WorkflowSubflowDiff {
+  return {
+    added: Object.keys(to).filter((id) => !(id in from)),
+    removed: Object.keys(from).filter((id) => !(id in to)),
+    changed: Object.keys(to)
+      .filter((id) => id in from && normalizedStringify(from[id]) !== normalizedStringify(to[id]))
+      .map((id) => ({ id, from: from[id], to: to[id] })),
+  }
+}
+
+/**
+ * Computes the structural differences between two workflow states: added, removed and
+ * changed blocks (including sub-block values), edges, loops and parallels.
+ * Like hasWorkflowChanged, block positions are ignored.
+ *
+ * @param fromState - The older state, e.g. a previous deployment version
+ * @param toState - The newer state
+ */
+export function diffWorkflowStates(fromState: WorkflowState, toState: WorkflowState): WorkflowDiff {
+  const fromBlocks = fromState.blocks || {}
+  const toBlocks = toState.blocks || {}
+  const describeBlock = (block: WorkflowState['blocks'][string]) => ({
+    id: block.id,
+    name: block.name,
+    type: block.type,
+  })
+
+  const changedBlocks: WorkflowBlockDiff[] = []
+  for (const [blockId, toBlock] of Object.entries(toBlocks)) {
+    const fromBlock = fromBlocks[blockId]
+    if (!fromBlock) continue
+
+    const pickProperties = (block: Record<string, any>) =>
+      Object.fromEntries(Object.entries(block).filter(([key]) => !LAYOUT_BLOCK_PROPERTIES.has(key)))
+    const pickValues = (block: WorkflowState['blocks'][string]) =>
+      Object.fromEntries(
+        Object.entries(block.subBlocks || {}).map(([id, subBlock]) => [id, subBlock?.value])
+      )
+
+    const properties = diffValues(pickProperties(fromBlock), pickProperties(toBlock))
+    const subBlocks = diffValues(pickValues(fromBlock), pickValues(toBlock))
+    if (properties.length > 0 || subBlocks.length > 0) {
+      changedBlocks.push({ ...describeBlock(toBlock), properties, subBlocks })
+    }
+  }
+
+  const edgeKey = (edge: WorkflowEdgeRef) =>
+    `${edge.source}:${edge.sourceHandle ?? ''}->${edge.target}:${edge.targetHandle ?? ''}`
+  const toEdgeRef = (edge: WorkflowEdgeRef): WorkflowEdgeRef => ({
+    source: edge.source,
+    sourceHandle: edge.sourceHandle ?? null,
+    target: edge.target,
+    targetHandle: edge.targetHandle ?? null,
+  })
+  const fromEdges = new Map((fromState.edges || []).map((edge) => [edgeKey(edge), edge]))
+  const toEdges = new Map((toState.edges || []).map((edge) => [edgeKey(edge), edge]))
+
+  const diff: WorkflowDiff = {
+    hasChanges: false,
+    blocks: {
+      added: Object.values(toBlocks)
+        .filter((block) => !fromBlocks[block.id])
+        .map(describeBlock),
+      removed: Object.values(fromBlocks)
+        .filter((block) => !toBlocks[block.id])
+        .map(describeBlock),
+      changed: changedBlocks,
+    },
+    edges: {
+      added: [...toEdges].filter(([key]) => !fromEdges.has(key)).map(([, edge]) => toEdgeRef(edge)),
+      removed: [...fromEdges]
+        .filter(([key]) => !toEdges.has(key))
+        .map(([, edge]) => toEdgeRef(edge)),
+    },
+    loops: diffSubflows(fromState.loops, toState.loops),
+    parallels: diffSubflows(fromState.parallels, toState.parallels),
+  }
+
+  diff.hasChanges =
+    diff.blocks.added.length > 0 ||
+    diff.blocks.removed.length > 0 ||
+    diff.blocks.changed.length > 0 ||
+    diff.edges.added.length > 0 ||
+    diff.edges.removed.length > 0 ||
+    [diff.loops, diff.parallels].some(
+      (subflows) =>
+        subflows.added.length > 0 || subflows.removed.length > 0 || subflows.changed.length > 0
+    )
+
+  return diff
+}
+
 export function stripCustomToolPrefix(name: string) {
   return name.startsWith('custom_') ? name.replace('custom_', '') : name
 }
@@ -352,3 +505,41 @@ export const createHttpResponseFromBlock = (executionResult: ExecutionResult): N
     headers: responseHeaders,
   })
 }
+
+/**
+ * Builds the 202 response returned when a run pauses to wait for approvals.
+ */
+export const createPausedExecutionResponse = (
+  executionResult: ExecutionResult,
+  runId: string
+): NextResponse => {
+  return NextResponse.json(
+    {
+      success: true,
+      status: 'paused',
+      runId,
+      pendingApprovals: executionResult.metadata?.pendingApprovals || [],
+    },
+    { status: 202 }
+  )
+}
+
+/**
+ * Builds the 202 response returned when a run is queued in async mode, pointing the
+ * caller at the endpoints it can poll for progress and the final result.
+ */
+export const createAsyncExecutionResponse = (workflowId: string, runId: string): NextResponse => {
+  const runUrl = `${getBaseUrl()}/api/workflows/${workflowId}/runs/${runId}`
+
+  return NextResponse.json(
+    {
+      success: true,
+      status: 'queued',
+      runId,
+      statusUrl: runUrl,
+      blocksUrl: `${runUrl}/blocks`,
+      resultUrl: `${runUrl}/result`,
+    },
+    { status: 202 }
+  )
+}
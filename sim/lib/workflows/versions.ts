@@ -0,0 +1,176 @@
+import { and, desc, eq, max } from 'drizzle-orm'
+import { v4 as uuidv4 } from 'uuid'
+import { db } from '@/db'
+import { workflow, workflowDeploymentSlot, workflowDeploymentVersion } from '@/db/schema'
+import type { WorkflowState } from '@/stores/workflows/workflow/types'
+import type { DeploymentSlot } from './deployment-slots'
+
+export type DeploymentVersion = typeof workflowDeploymentVersion.$inferSelect
+
+export type DeploymentVersionSummary = Omit<DeploymentVersion, 'state'> & { isLive: boolean }
+
+/**
+ * Deploys a workflow state as a new immutable version and makes it live in a slot.
+ * Version numbers are assigned sequentially per workflow inside the same transaction,
+ * so two concurrent deploys can never receive the same number.
+ *
+ * @param workflowId - Workflow being deployed
+ * @param state - Workflow state to snapshot
+ * @param label - Optional name for the version
+ * @param slot - Deployment slot that runs the new version
+ * @returns The created version
+ */
+export async function createDeploymentVersion(
+  workflowId: string,
+  state: WorkflowState,
+  label?: string | null,
+  slot: DeploymentSlot = 'prod'
+): Promise<DeploymentVersion> {
+  return db.transaction(async (tx) => {
+    // Lock the workflow row so version numbers are assigned one deploy at a time
+    await tx
+      .select({ id: workflow.id })
+      .from(workflow)
+      .where(eq(workflow.id, workflowId))
+      .for('update')
+
+    const [{ latest }] = await tx
+      .select({ latest: max(workflowDeploymentVersion.version) })
+      .from(workflowDeploymentVersion)
+      .where(eq(workflowDeploymentVersion.workflowId, workflowId))
+
+    const [created] = await tx
+      .insert(workflowDeploymentVersion)
+      .values({
+        id: uuidv4(),
+        workflowId,
+        version: (latest ?? 0) + 1,
+        label: label || null,
+        state,
+      })
+      .returning()
+
+    if (slot === 'prod') {
+      await tx
+        .update(workflow)
+        .set({
+          isDeployed: true,
+          deployedAt: created.createdAt,
+          deployedState: state,
+          deployedVersion: created.version,
+        })
+        .where(eq(workflow.id, workflowId))
+    } else {
+      await tx
+        .insert(workflowDeploymentSlot)
+        .values({
+          id: uuidv4(),
+          workflowId,
+          slot,
+          version: created.version,
+          deployedAt: created.createdAt,
+        })
+        .onConflictDoUpdate({
+          target: [workflowDeploymentSlot.workflowId, workflowDeploymentSlot.slot],
+          set: { version: created.version, deployedAt: created.createdAt, updatedAt: new Date() },
+        })
+    }
+
+    return created
+  })
+}
+
+/**
+ * Lists every deployed version of a workflow, newest first, without their states.
+ */
+export async function listDeploymentVersions(
+  workflowId: string
+): Promise<DeploymentVersionSummary[]> {
+  const [versions, workflows] = await Promise.all([
+    db
+      .select({
+        id: workflowDeploymentVersion.id,
+        workflowId: workflowDeploymentVersion.workflowId,
+        version: workflowDeploymentVersion.version,
+        label: workflowDeploymentVersion.label,
+        createdAt: workflowDeploymentVersion.createdAt,
+      })
+      .from(workflowDeploymentVersion)
+      .where(eq(workflowDeploymentVersion.workflowId, workflowId))
+      .orderBy(desc(workflowDeploymentVersion.version)),
+    db
+      .select({ isDeployed: workflow.isDeployed, deployedVersion: workflow.deployedVersion })
+      .from(workflow)
+      .where(eq(workflow.id, workflowId))
+      .limit(1),
+  ])
+
+  const liveVersion = workflows[0]?.isDeployed ? workflows[0].deployedVersion : null
+  return versions.map((version) => ({ ...version, isLive: version.version === liveVersion }))
+}
+
+export async function getDeploymentVersion(
+  workflowId: string,
+  version: number
+): Promise<DeploymentVersion | undefined> {
+  const versions = await db
+    .select()
+    .from(workflowDeploymentVersion)
+    .where(
+      and(
+        eq(workflowDeploymentVersion.workflowId, workflowId),
+        eq(workflowDeploymentVersion.version, version)
+      )
+    )
+    .limit(1)
+  return versions[0]
+}
+
+/**
+ * Renames a version. The label is the only part of a version that can change.
+ */
+export async function updateDeploymentVersionLabel(
+  workflowId: string,
+  version: number,
+  label: string | null
+): Promise<DeploymentVersion | undefined> {
+  const [updated] = await db
+    .update(workflowDeploymentVersion)
+    .set({ label })
+    .where(
+      and(
+        eq(workflowDeploymentVersion.workflowId, workflowId),
+        eq(workflowDeploymentVersion.version, version)
+      )
+    )
+    .returning()
+  return updated
+}
+
+/**
+ * Makes an earlier version the live deployment again. No new version is created;
+ * the next deploy continues numbering after the latest version.
+ *
+ * @returns The version that is now live, or undefined if it does not exist
+ */
+export async function rollbackToDeploymentVersion(
+  workflowId: string,
+  version: number
+): Promise<DeploymentVersion | undefined> {
+  const target = await getDeploymentVersion(workflowId, version)
+  if (!target) {
+    return undefined
+  }
+
+  await db
+    .update(workflow)
+    .set({
+      isDeployed: true,
+      deployedAt: new Date(),
+      deployedState: target.state,
+      deployedVersion: target.version,
+    })
+    .where(eq(workflow.id, workflowId))
+
+  return target
+}
@@ -271,10 +271,13 @@ ${fieldDescriptions}
       const providerStartTimeISO = new Date(providerStartTime).toISOString()
 
       // Create a streaming request
-      const streamResponse: any = await anthropic.messages.create({
-        ...payload,
-        stream: true,
-      })
+      const streamResponse: any = await anthropic.messages.create(
+        {
+          ...payload,
+          stream: true,
+        },
+        { signal: request.abortSignal }
+      )
 
       // Start collecting token usage
       const tokenUsage = {
@@ -345,7 +348,9 @@ ${fieldDescriptions}
       const forcedTools = preparedTools?.forcedTools || []
       let usedForcedTools: string[] = []
 
-      let currentResponse = await anthropic.messages.create(payload)
+      let currentResponse = await anthropic.messages.create(payload, {
+        signal: request.abortSignal,
+      })
       const firstResponseTime = Date.now() - initialCallTime
 
       let content = ''
@@ -457,7 +462,13 @@ ${fieldDescriptions}
                 ...(request.workflowId ? { _context: { workflowId: request.workflowId } } : {}),
                 ...(request.environmentVariables ? { envVars: request.environmentVariables } : {}),
               }
-              const result = await executeTool(toolName, mergedArgs, true)
+              const result = await executeTool(
+                toolName,
+                mergedArgs,
+                true,
+                false,
+                request.abortSignal
+              )
               const toolCallEndTime = Date.now()
               const toolCallDuration = toolCallEndTime - toolCallStartTime
 
@@ -555,7 +566,9 @@ ${fieldDescriptions}
           const nextModelStartTime = Date.now()
 
           // Make the next request
-          currentResponse = await anthropic.messages.create(nextPayload)
+          currentResponse = await anthropic.messages.create(nextPayload, {
+            signal: request.abortSignal,
+          })
 
           // Check if any forced tools were used in this response
           checkForForcedToolUsage(currentResponse, nextPayload.tool_choice)
@@ -633,7 +646,9 @@ ${fieldDescriptions}
         // Remove the tool_choice parameter as Anthropic doesn't accept 'none' as a string value
         streamingPayload.tool_choice = undefined
 
-        const streamResponse: any = await anthropic.messages.create(streamingPayload)
+        const streamResponse: any = await anthropic.messages.create(streamingPayload, {
+          signal: request.abortSignal,
+        })
 
         // Create a StreamingExecution response with all collected data
         const streamingResult = {
@@ -192,11 +192,14 @@ export const azureOpenAIProvider: ProviderConfig = {
         logger.info('Using streaming response for Azure OpenAI request')
 
         // Create a streaming request with token usage tracking
-        const streamResponse = await azureOpenAI.chat.completions.create({
-          ...payload,
-          stream: true,
-          stream_options: { include_usage: true },
-        })
+        const streamResponse = await azureOpenAI.chat.completions.create(
+          {
+            ...payload,
+            stream: true,
+            stream_options: { include_usage: true },
+          },
+          { signal: request.abortSignal }
+        )
 
         // Start collecting token usage from the stream
         const tokenUsage = {
@@ -312,7 +315,9 @@ export const azureOpenAIProvider: ProviderConfig = {
         }
       }
 
-      let currentResponse = await azureOpenAI.chat.completions.create(payload)
+      let currentResponse = await azureOpenAI.chat.completions.create(payload, {
+        signal: request.abortSignal,
+      })
       const firstResponseTime = Date.now() - initialCallTime
 
       let content = currentResponse.choices[0]?.message?.content || ''
@@ -382,7 +387,7 @@ export const azureOpenAIProvider: ProviderConfig = {
               ...(request.environmentVariables ? { envVars: request.environmentVariables } : {}),
             }
 
-            const result = await executeTool(toolName, mergedArgs, true)
+            const result = await executeTool(toolName, mergedArgs, true, false, request.abortSignal)
             const toolCallEndTime = Date.now()
             const toolCallDuration = toolCallEndTime - toolCallStartTime
 
@@ -469,7 +474,9 @@ export const azureOpenAIProvider: ProviderConfig = {
         const nextModelStartTime = Date.now()
 
         // Make the next request
-        currentResponse = await azureOpenAI.chat.completions.create(nextPayload)
+        currentResponse = await azureOpenAI.chat.completions.create(nextPayload, {
+          signal: request.abortSignal,
+        })
 
         // Check if any forced tools were used in this response
         checkForForcedToolUsage(currentResponse, nextPayload.tool_choice)
@@ -518,7 +525,9 @@ export const azureOpenAIProvider: ProviderConfig = {
           stream_options: { include_usage: true },
         }
 
-        const streamResponse = await azureOpenAI.chat.completions.create(streamingPayload)
+        const streamResponse = await azureOpenAI.chat.completions.create(streamingPayload, {
+          signal: request.abortSignal,
+        })
 
         // Create the StreamingExecution object with all collected data
         let _streamContent = ''
@@ -139,10 +139,13 @@ export const cerebrasProvider: ProviderConfig = {
       // EARLY STREAMING: if streaming requested and no tools to execute, stream directly
       if (request.stream && (!tools || tools.length === 0)) {
         logger.info('Using streaming response for Cerebras request (no tools)')
-        const streamResponse: any = await client.chat.completions.create({
-          ...payload,
-          stream: true,
-        })
+        const streamResponse: any = await client.chat.completions.create(
+          {
+            ...payload,
+            stream: true,
+          },
+          { signal: request.abortSignal }
+        )
 
         // Start collecting token usage
         const tokenUsage = {
@@ -201,7 +204,9 @@ export const cerebrasProvider: ProviderConfig = {
       // Make the initial API request
       const initialCallTime = Date.now()
 
-      let currentResponse = (await client.chat.completions.create(payload)) as CerebrasResponse
+      let currentResponse = (await client.chat.completions.create(payload, {
+        signal: request.abortSignal,
+      })) as CerebrasResponse
       const firstResponseTime = Date.now() - initialCallTime
 
       let content = currentResponse.choices[0]?.message?.content || ''
@@ -288,7 +293,13 @@ export const cerebrasProvider: ProviderConfig = {
                 ...toolArgs,
                 ...(request.workflowId ? { _context: { workflowId: request.workflowId } } : {}),
               }
-              const result = await executeTool(toolName, mergedArgs, true)
+              const result = await executeTool(
+                toolName,
+                mergedArgs,
+                true,
+                false,
+                request.abortSignal
+              )
               const toolCallEndTime = Date.now()
               const toolCallDuration = toolCallEndTime - toolCallStartTime
 
@@ -357,9 +368,9 @@ export const cerebrasProvider: ProviderConfig = {
             // Use tool_choice: 'none' for the final response to avoid an infinite loop
             finalPayload.tool_choice = 'none'
 
-            const finalResponse = (await client.chat.completions.create(
-              finalPayload
-            )) as CerebrasResponse
+            const finalResponse = (await client.chat.completions.create(finalPayload, {
+              signal: request.abortSignal,
+            })) as CerebrasResponse
 
             const nextModelEndTime = Date.now()
             const thisModelTime = nextModelEndTime - nextModelStartTime
@@ -402,9 +413,9 @@ export const cerebrasProvider: ProviderConfig = {
             const nextModelStartTime = Date.now()
 
             // Make the next request
-            currentResponse = (await client.chat.completions.create(
-              nextPayload
-            )) as CerebrasResponse
+            currentResponse = (await client.chat.completions.create(nextPayload, {
+              signal: request.abortSignal,
+            })) as CerebrasResponse
 
             const nextModelEndTime = Date.now()
             const thisModelTime = nextModelEndTime - nextModelStartTime
@@ -453,7 +464,9 @@ export const cerebrasProvider: ProviderConfig = {
           stream: true,
         }
 
-        const streamResponse: any = await client.chat.completions.create(streamingPayload)
+        const streamResponse: any = await client.chat.completions.create(streamingPayload, {
+          signal: request.abortSignal,
+        })
 
         // Create a StreamingExecution response with all collected data
         const streamingResult = {
@@ -133,10 +133,13 @@ export const deepseekProvider: ProviderConfig = {
       if (request.stream && (!tools || tools.length === 0)) {
         logger.info('Using streaming response for DeepSeek request (no tools)')
 
-        const streamResponse = await deepseek.chat.completions.create({
-          ...payload,
-          stream: true,
-        })
+        const streamResponse = await deepseek.chat.completions.create(
+          {
+            ...payload,
+            stream: true,
+          },
+          { signal: request.abortSignal }
+        )
 
         // Start collecting token usage
         const tokenUsage = {
@@ -202,7 +205,9 @@ export const deepseekProvider: ProviderConfig = {
       const forcedTools = preparedTools?.forcedTools || []
       let usedForcedTools: string[] = []
 
-      let currentResponse = await deepseek.chat.completions.create(payload)
+      let currentResponse = await deepseek.chat.completions.create(payload, {
+        signal: request.abortSignal,
+      })
       const firstResponseTime = Date.now() - initialCallTime
 
       let content = currentResponse.choices[0]?.message?.content || ''
@@ -291,7 +296,13 @@ export const deepseekProvider: ProviderConfig = {
                 ...(request.workflowId ? { _context: { workflowId: request.workflowId } } : {}),
                 ...(request.environmentVariables ? { envVars: request.environmentVariables } : {}),
               }
-              const result = await executeTool(toolName, mergedArgs, true)
+              const result = await executeTool(
+                toolName,
+                mergedArgs,
+                true,
+                false,
+                request.abortSignal
+              )
               const toolCallEndTime = Date.now()
               const toolCallDuration = toolCallEndTime - toolCallStartTime
 
@@ -379,7 +390,9 @@ export const deepseekProvider: ProviderConfig = {
           const nextModelStartTime = Date.now()
 
           // Make the next request
-          currentResponse = await deepseek.chat.completions.create(nextPayload)
+          currentResponse = await deepseek.chat.completions.create(nextPayload, {
+            signal: request.abortSignal,
+          })
 
           // Check if any forced tools were used in this response
           if (
@@ -453,7 +466,9 @@ export const deepseekProvider: ProviderConfig = {
           stream: true,
         }
 
-        const streamResponse = await deepseek.chat.completions.create(streamingPayload)
+        const streamResponse = await deepseek.chat.completions.create(streamingPayload, {
+          signal: request.abortSignal,
+        })
 
         // Create a StreamingExecution response with all collected data
         const streamingResult = {
@@ -0,0 +1,44 @@
+import { env } from '@/lib/env'
+import { parseOpenAIEmbeddingResponse } from './openai'
+import type { EmbeddingProvider } from './types'
+
+/**
+ * Embeddings from an Azure OpenAI resource. The model name is used as the deployment name,
+ * so deployments must be named after the models they serve.
+ */
+export const azureOpenAIEmbeddingProvider: EmbeddingProvider = {
+  id: 'azure-openai',
+  name: 'Azure OpenAI',
+  maxBatchSize: 16,
+
+  embed: async (texts, model, signal) => {
+    const endpoint = env.AZURE_OPENAI_ENDPOINT
+    const apiKey = env.AZURE_OPENAI_API_KEY
+    if (!endpoint || !apiKey) {
+      throw new Error('AZURE_OPENAI_ENDPOINT and AZURE_OPENAI_API_KEY must be configured')
+    }
+
+    const apiVersion = env.AZURE_OPENAI_API_VERSION || '2024-07-01-preview'
+    const url = new URL(
+      `/openai/deployments/${encodeURIComponent(model.model)}/embeddings`,
+      endpoint
+    )
+    url.searchParams.set('api-version', apiVersion)
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'api-key': apiKey,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        input: texts,
+        encoding_format: 'float',
+        ...(model.supportsDimensions ? { dimensions: model.dimensions } : {}),
+      }),
+      signal,
+    })
+
+    return parseOpenAIEmbeddingResponse(response, 'Azure OpenAI')
+  },
+}
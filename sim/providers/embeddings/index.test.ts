@@ -0,0 +1,119 @@
+/**
+ * @vitest-environment node
+ *
+ * Embedding Provider Unit Tests
+ */
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+vi.mock('@/lib/env', () => ({
+  env: {
+    OPENAI_API_KEY: 'openai-key',
+    AZURE_OPENAI_ENDPOINT: 'https://example.openai.azure.com',
+    AZURE_OPENAI_API_KEY: 'azure-key',
+    OLLAMA_URL: 'http://ollama:11434',
+  },
+}))
+
+vi.mock('@/lib/documents/utils', () => ({
+  retryWithExponentialBackoff: (fn: () => Promise<unknown>) => fn(),
+}))
+
+import { EMBEDDING_STORAGE_DIMENSIONS, generateEmbeddings, toStoredEmbedding } from './index'
+
+const mockFetch = vi.fn()
+vi.stubGlobal('fetch', mockFetch)
+
+function jsonResponse(body: unknown) {
+  return Promise.resolve({ ok: true, json: () => Promise.resolve(body) })
+}
+
+describe('generateEmbeddings', () => {
+  beforeEach(() => {
+    mockFetch.mockReset()
+  })
+
+  it('should request shortened OpenAI embeddings in input order', async () => {
+    mockFetch.mockReturnValue(
+      jsonResponse({
+        data: [
+          { embedding: [0.3], index: 1 },
+          { embedding: [0.1], index: 0 },
+        ],
+      })
+    )
+
+    const embeddings = await generateEmbeddings(['a', 'b'], 'text-embedding-3-large')
+
+    const [url, init] = mockFetch.mock.calls[0]
+    expect(url).toBe('https://api.openai.com/v1/embeddings')
+    expect(JSON.parse(init.body)).toMatchObject({
+      model: 'text-embedding-3-large',
+      dimensions: 1536,
+    })
+    expect(embeddings.map((vector) => vector[0])).toEqual([0.1, 0.3])
+  })
+
+  it('should call the Azure OpenAI deployment named after the model', async () => {
+    mockFetch.mockReturnValue(jsonResponse({ data: [{ embedding: [0.1], index: 0 }] }))
+
+    await generateEmbeddings(['a'], 'azure/text-embedding-3-small')
+
+    const [url, init] = mockFetch.mock.calls[0]
+    expect(String(url)).toBe(
+      'https://example.openai.azure.com/openai/deployments/text-embedding-3-small/embeddings?api-version=2024-07-01-preview'
+    )
+    expect(init.headers['api-key']).toBe('azure-key')
+  })
+
+  it('should embed with a local Ollama model and pad its vectors', async () => {
+    const vector = new Array(768).fill(0.5)
+    mockFetch.mockReturnValue(jsonResponse({ embeddings: [vector] }))
+
+    const [embedding] = await generateEmbeddings(['a'], 'ollama/nomic-embed-text')
+
+    const [url, init] = mockFetch.mock.calls[0]
+    expect(url).toBe('http://ollama:11434/api/embed')
+    expect(JSON.parse(init.body)).toEqual({ model: 'nomic-embed-text', input: ['a'] })
+    expect(embedding).toHaveLength(EMBEDDING_STORAGE_DIMENSIONS)
+    expect(embedding.slice(0, 768)).toEqual(vector)
+    expect(embedding.slice(768).every((value) => value === 0)).toBe(true)
+  })
+
+  it('should split texts into batches the provider accepts', async () => {
+    mockFetch.mockImplementation((_url: string, init: { body: string }) =>
+      jsonResponse({
+        embeddings: JSON.parse(init.body).input.map(() => [0.1]),
+      })
+    )
+
+    const texts = Array.from({ length: 40 }, (_, i) => `text ${i}`)
+    const embeddings = await generateEmbeddings(texts, 'ollama/all-minilm')
+
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+    expect(embeddings).toHaveLength(40)
+  })
+
+  it('should reject unknown models', async () => {
+    await expect(generateEmbeddings(['a'], 'unknown-model')).rejects.toThrow(
+      'Unknown embedding model: unknown-model'
+    )
+  })
+})
+
+describe('toStoredEmbedding', () => {
+  it('should keep cosine similarity when padding vectors', () => {
+    const a = [1, 2, 3]
+    const b = [3, 2, 1]
+    const cosine = (x: number[], y: number[]) => {
+      const dot = x.reduce((sum, value, i) => sum + value * y[i], 0)
+      const norm = (v: number[]) => Math.sqrt(v.reduce((sum, value) => sum + value * value, 0))
+      return dot / (norm(x) * norm(y))
+    }
+
+    expect(cosine(toStoredEmbedding(a), toStoredEmbedding(b))).toBeCloseTo(cosine(a, b))
+  })
+
+  it('should reject vectors with more dimensions than are stored', () => {
+    expect(() => toStoredEmbedding(new Array(EMBEDDING_STORAGE_DIMENSIONS + 1).fill(0))).toThrow()
+  })
+})
@@ -0,0 +1,96 @@
+import { retryWithExponentialBackoff } from '@/lib/documents/utils'
+import { createLogger } from '@/lib/logs/console-logger'
+import { azureOpenAIEmbeddingProvider } from './azure-openai'
+import { EMBEDDING_STORAGE_DIMENSIONS, getEmbeddingModel } from './models'
+import { ollamaEmbeddingProvider } from './ollama'
+import { openaiEmbeddingProvider } from './openai'
+import type { EmbeddingProvider, EmbeddingProviderId } from './types'
+
+export {
+  DEFAULT_EMBEDDING_MODEL,
+  EMBEDDING_MODEL_IDS,
+  EMBEDDING_MODELS,
+  EMBEDDING_STORAGE_DIMENSIONS,
+  getEmbeddingModel,
+} from './models'
+export type { EmbeddingModelDefinition, EmbeddingProvider, EmbeddingProviderId } from './types'
+
+const logger = createLogger('EmbeddingProviders')
+
+// Timeout of each batch request
+const EMBEDDING_REQUEST_TIMEOUT_MS = 60000
+
+export const embeddingProviders: Record<EmbeddingProviderId, EmbeddingProvider> = {
+  openai: openaiEmbeddingProvider,
+  'azure-openai': azureOpenAIEmbeddingProvider,
+  ollama: ollamaEmbeddingProvider,
+}
+
+/**
+ * Pad a vector with zeros to the stored dimensions. Zero padding changes neither dot
+ * products nor norms, so cosine distances between vectors of the same model are kept.
+ */
+export function toStoredEmbedding(vector: number[]): number[] {
+  if (vector.length > EMBEDDING_STORAGE_DIMENSIONS) {
+    throw new Error(
+      `Embeddings with ${vector.length} dimensions exceed the supported ${EMBEDDING_STORAGE_DIMENSIONS}`
+    )
+  }
+  if (vector.length === EMBEDDING_STORAGE_DIMENSIONS) {
+    return vector
+  }
+  return [...vector, ...new Array(EMBEDDING_STORAGE_DIMENSIONS - vector.length).fill(0)]
+}
+
+/**
+ * Generate embeddings with a model of any embedding provider. Texts are sent in batches
+ * the provider accepts, rate-limited batches are retried, and the vectors are returned
+ * padded to the stored dimensions.
+ */
+export async function generateEmbeddings(texts: string[], modelId: string): Promise<number[][]> {
+  const model = getEmbeddingModel(modelId)
+  const provider = embeddingProviders[model.provider]
+  const embeddings: number[][] = []
+
+  for (let i = 0; i < texts.length; i += provider.maxBatchSize) {
+    const batch = texts.slice(i, i + provider.maxBatchSize)
+
+    logger.info(
+      `Generating ${modelId} embeddings for batch ${Math.floor(i / provider.maxBatchSize) + 1} (${batch.length} texts)`
+    )
+
+    const batchEmbeddings = await retryWithExponentialBackoff(
+      async () => {
+        const controller = new AbortController()
+        const timeoutId = setTimeout(() => controller.abort(), EMBEDDING_REQUEST_TIMEOUT_MS)
+
+        try {
+          return await provider.embed(batch, model, controller.signal)
+        } catch (error) {
+          if (error instanceof Error && error.name === 'AbortError') {
+            throw new Error(`${provider.name} embeddings request timed out`)
+          }
+          throw error
+        } finally {
+          clearTimeout(timeoutId)
+        }
+      },
+      {
+        maxRetries: 5,
+        initialDelayMs: 1000,
+        maxDelayMs: 60000, // Max 1 minute delay for embeddings
+        backoffMultiplier: 2,
+      }
+    )
+
+    if (batchEmbeddings.length !== batch.length) {
+      throw new Error(
+        `${provider.name} returned ${batchEmbeddings.length} embeddings for ${batch.length} texts`
+      )
+    }
+
+    embeddings.push(...batchEmbeddings.map(toStoredEmbedding))
+  }
+
+  return embeddings
+}
@@ -0,0 +1,93 @@
+import type { EmbeddingModelDefinition } from './types'
+
+/**
+ * Dimensions of the stored embedding vectors. Models with fewer dimensions are padded with
+ * zeros, which leaves cosine distances unchanged, so that all models share one HNSW index.
+ */
+export const EMBEDDING_STORAGE_DIMENSIONS = 1536
+
+export const DEFAULT_EMBEDDING_MODEL = 'text-embedding-3-small'
+
+export const EMBEDDING_MODELS: EmbeddingModelDefinition[] = [
+  {
+    id: 'text-embedding-3-small',
+    provider: 'openai',
+    model: 'text-embedding-3-small',
+    name: 'OpenAI text-embedding-3-small',
+    dimensions: 1536,
+    supportsDimensions: true,
+  },
+  {
+    // Shortened from 3072 dimensions, which OpenAI supports without retraining
+    id: 'text-embedding-3-large',
+    provider: 'openai',
+    model: 'text-embedding-3-large',
+    name: 'OpenAI text-embedding-3-large',
+    dimensions: 1536,
+    supportsDimensions: true,
+  },
+  {
+    id: 'text-embedding-ada-002',
+    provider: 'openai',
+    model: 'text-embedding-ada-002',
+    name: 'OpenAI text-embedding-ada-002',
+    dimensions: 1536,
+  },
+  {
+    id: 'azure/text-embedding-3-small',
+    provider: 'azure-openai',
+    model: 'text-embedding-3-small',
+    name: 'Azure OpenAI text-embedding-3-small',
+    dimensions: 1536,
+    supportsDimensions: true,
+  },
+  {
+    id: 'azure/text-embedding-3-large',
+    provider: 'azure-openai',
+    model: 'text-embedding-3-large',
+    name: 'Azure OpenAI text-embedding-3-large',
+    dimensions: 1536,
+    supportsDimensions: true,
+  },
+  {
+    id: 'ollama/nomic-embed-text',
+    provider: 'ollama',
+    model: 'nomic-embed-text',
+    name: 'Ollama nomic-embed-text (local)',
+    dimensions: 768,
+  },
+  {
+    id: 'ollama/mxbai-embed-large',
+    provider: 'ollama',
+    model: 'mxbai-embed-large',
+    name: 'Ollama mxbai-embed-large (local)',
+    dimensions: 1024,
+  },
+  {
+    id: 'ollama/bge-m3',
+    provider: 'ollama',
+    model: 'bge-m3',
+    name: 'Ollama bge-m3 (local)',
+    dimensions: 1024,
+  },
+  {
+    id: 'ollama/all-minilm',
+    provider: 'ollama',
+    model: 'all-minilm',
+    name: 'Ollama all-minilm (local)',
+    dimensions: 384,
+  },
+]
+
+export const EMBEDDING_MODEL_IDS = EMBEDDING_MODELS.map((model) => model.id) as [
+  string,
+  ...string[],
+]
+
+export function getEmbeddingModel(modelId: string): EmbeddingModelDefinition {
+  const model = EMBEDDING_MODELS.find((definition) => definition.id === modelId)
+  if (!model) {
+    throw new Error(`Unknown embedding model: ${modelId}`)
+  }
+  return model
+}
@@ -0,0 +1,38 @@
+import { env } from '@/lib/env'
+import { EmbeddingAPIError, type EmbeddingProvider } from './types'
+
+const OLLAMA_HOST = env.OLLAMA_URL || 'http://localhost:11434'
+
+/**
+ * Embeddings from a local Ollama server, so that documents never leave the deployment.
+ * The model must have been pulled on the server, e.g. `ollama pull nomic-embed-text`.
+ */
+export const ollamaEmbeddingProvider: EmbeddingProvider = {
+  id: 'ollama',
+  name: 'Ollama',
+  maxBatchSize: 32,
+
+  embed: async (texts, model, signal) => {
+    const response = await fetch(`${OLLAMA_HOST}/api/embed`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ model: model.model, input: texts }),
+      signal,
+    })
+
+    if (!response.ok) {
+      const errorText = await response.text()
+      throw new EmbeddingAPIError(
+        `Ollama API error: ${response.status} ${response.statusText} - ${errorText}`,
+        response.status
+      )
+    }
+
+    const data: { embeddings?: number[][] } = await response.json()
+    if (!Array.isArray(data.embeddings)) {
+      throw new Error('Invalid response format from Ollama embeddings API')
+    }
+
+    return data.embeddings
+  },
+}
@@ -0,0 +1,67 @@
+import { env } from '@/lib/env'
+import { EmbeddingAPIError, type EmbeddingProvider } from './types'
+
+export interface OpenAIEmbeddingResponse {
+  data: Array<{
+    embedding: number[]
+    index: number
+  }>
+  model: string
+  usage: {
+    prompt_tokens: number
+    total_tokens: number
+  }
+}
+
+/**
+ * Read the vectors of an OpenAI-compatible embeddings response, in input order
+ */
+export async function parseOpenAIEmbeddingResponse(
+  response: Response,
+  providerName: string
+): Promise<number[][]> {
+  if (!response.ok) {
+    const errorText = await response.text()
+    throw new EmbeddingAPIError(
+      `${providerName} API error: ${response.status} ${response.statusText} - ${errorText}`,
+      response.status
+    )
+  }
+
+  const data: OpenAIEmbeddingResponse = await response.json()
+  if (!Array.isArray(data.data)) {
+    throw new Error(`Invalid response format from ${providerName} embeddings API`)
+  }
+
+  return [...data.data].sort((a, b) => a.index - b.index).map((item) => item.embedding)
+}
+
+export const openaiEmbeddingProvider: EmbeddingProvider = {
+  id: 'openai',
+  name: 'OpenAI',
+  maxBatchSize: 100,
+
+  embed: async (texts, model, signal) => {
+    const apiKey = env.OPENAI_API_KEY
+    if (!apiKey) {
+      throw new Error('OPENAI_API_KEY not configured')
+    }
+
+    const response = await fetch('https://api.openai.com/v1/embeddings', {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        input: texts,
+        model: model.model,
+        encoding_format: 'float',
+        ...(model.supportsDimensions ? { dimensions: model.dimensions } : {}),
+      }),
+      signal,
+    })
+
+    return parseOpenAIEmbeddingResponse(response, 'OpenAI')
+  },
+}
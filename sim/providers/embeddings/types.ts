@@ -0,0 +1,31 @@
+export type EmbeddingProviderId = 'openai' | 'azure-openai' | 'ollama'
+
+export interface EmbeddingModelDefinition {
+  id: string // Model ID stored on knowledge bases and chunks, e.g. 'ollama/nomic-embed-text'
+  provider: EmbeddingProviderId
+  model: string // Model name sent to the provider (the deployment name for Azure OpenAI)
+  name: string
+  dimensions: number // Dimensions of the vectors the model returns
+  supportsDimensions?: boolean // Whether the provider can shorten vectors to `dimensions`
+}
+
+export interface EmbeddingProvider {
+  id: EmbeddingProviderId
+  name: string
+  maxBatchSize: number
+  embed: (
+    texts: string[],
+    model: EmbeddingModelDefinition,
+    signal: AbortSignal
+  ) => Promise<number[][]>
+}
+
+export class EmbeddingAPIError extends Error {
+  public status: number
+
+  constructor(message: string, status: number) {
+    super(message)
+    this.name = 'EmbeddingAPIError'
+    this.status = status
+  }
+}
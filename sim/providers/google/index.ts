@@ -184,6 +184,7 @@ export const googleProvider: ProviderConfig = {
 
       const response = await fetch(endpoint, {
         method: 'POST',
+        signal: request.abortSignal,
         headers: {
           'Content-Type': 'application/json',
         },
@@ -378,7 +379,13 @@ export const googleProvider: ProviderConfig = {
                 hasRequiredParams: Object.keys(requiredToolCallParams).length > 0,
                 requiredParamKeys: Object.keys(requiredToolCallParams),
               })
-              const result = await executeTool(toolName, mergedArgs, true)
+              const result = await executeTool(
+                toolName,
+                mergedArgs,
+                true,
+                false,
+                request.abortSignal
+              )
               const toolCallEndTime = Date.now()
               const toolCallDuration = toolCallEndTime - toolCallStartTime
 
@@ -485,6 +492,7 @@ export const googleProvider: ProviderConfig = {
                     `https://generativelanguage.googleapis.com/v1beta/models/${requestedModel}:generateContent?key=${request.apiKey}&alt=sse`,
                     {
                       method: 'POST',
+                      signal: request.abortSignal,
                       headers: {
                         'Content-Type': 'application/json',
                       },
@@ -574,6 +582,7 @@ export const googleProvider: ProviderConfig = {
                   `https://generativelanguage.googleapis.com/v1beta/models/${requestedModel}:generateContent?key=${request.apiKey}`,
                   {
                     method: 'POST',
+                    signal: request.abortSignal,
                     headers: {
                       'Content-Type': 'application/json',
                     },
@@ -135,10 +135,13 @@ export const groqProvider: ProviderConfig = {
       const providerStartTime = Date.now()
       const providerStartTimeISO = new Date(providerStartTime).toISOString()
 
-      const streamResponse = await groq.chat.completions.create({
-        ...payload,
-        stream: true,
-      })
+      const streamResponse = await groq.chat.completions.create(
+        {
+          ...payload,
+          stream: true,
+        },
+        { signal: request.abortSignal }
+      )
 
       // Start collecting token usage
       const tokenUsage = {
@@ -201,7 +204,9 @@ export const groqProvider: ProviderConfig = {
       // Make the initial API request
       const initialCallTime = Date.now()
 
-      let currentResponse = await groq.chat.completions.create(payload)
+      let currentResponse = await groq.chat.completions.create(payload, {
+        signal: request.abortSignal,
+      })
       const firstResponseTime = Date.now() - initialCallTime
 
       let content = currentResponse.choices[0]?.message?.content || ''
@@ -259,7 +264,13 @@ export const groqProvider: ProviderConfig = {
                 ...toolArgs,
                 ...(request.workflowId ? { _context: { workflowId: request.workflowId } } : {}),
               }
-              const result = await executeTool(toolName, mergedArgs, true)
+              const result = await executeTool(
+                toolName,
+                mergedArgs,
+                true,
+                false,
+                request.abortSignal
+              )
               const toolCallEndTime = Date.now()
               const toolCallDuration = toolCallEndTime - toolCallStartTime
 
@@ -324,7 +335,9 @@ export const groqProvider: ProviderConfig = {
           const nextModelStartTime = Date.now()
 
           // Make the next request
-          currentResponse = await groq.chat.completions.create(nextPayload)
+          currentResponse = await groq.chat.completions.create(nextPayload, {
+            signal: request.abortSignal,
+          })
 
           const nextModelEndTime = Date.now()
           const thisModelTime = nextModelEndTime - nextModelStartTime
@@ -372,7 +385,9 @@ export const groqProvider: ProviderConfig = {
           stream: true,
         }
 
-        const streamResponse = await groq.chat.completions.create(streamingPayload)
+        const streamResponse = await groq.chat.completions.create(streamingPayload, {
+          signal: request.abortSignal,
+        })
 
         // Create a StreamingExecution response with all collected data
         const streamingResult = {
@@ -29,9 +29,31 @@ function isReadableStream(response: any): response is ReadableStream {
   return response instanceof ReadableStream
 }
 
+/**
+ * Executes a request with a provider. A replay on the request records the response,
+ * or serves a recorded one without calling the provider.
+ */
 export async function executeProviderRequest(
   providerId: string,
   request: ProviderRequest
+): Promise<ProviderResponse | ReadableStream | StreamingExecution> {
+  const { replay, blockId, ...providerRequest } = request
+  if (!replay) {
+    return executeLiveProviderRequest(providerId, providerRequest)
+  }
+
+  return replay.run(
+    'provider',
+    providerId,
+    blockId,
+    () => executeLiveProviderRequest(providerId, providerRequest),
+    (response) => !isStreamingExecution(response) && !isReadableStream(response)
+  )
+}
+
+async function executeLiveProviderRequest(
+  providerId: string,
+  request: ProviderRequest
 ): Promise<ProviderResponse | ReadableStream | StreamingExecution> {
   logger.info(`Executing request with provider: ${providerId}`, {
     hasResponseFormat: !!request.responseFormat,
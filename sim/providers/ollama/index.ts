@@ -129,7 +129,9 @@ export const ollamaProvider: ProviderConfig = {
       // Track the original tool_choice for forced tool tracking
       const _originalToolChoice = payload.tool_choice
 
-      let currentResponse = await ollama.chat.completions.create(payload)
+      let currentResponse = await ollama.chat.completions.create(payload, {
+        signal: request.abortSignal,
+      })
       const firstResponseTime = Date.now() - startTime
 
       let content = currentResponse.choices[0]?.message?.content || ''
@@ -194,7 +196,13 @@ export const ollamaProvider: ProviderConfig = {
                 ...toolArgs,
                 ...(request.workflowId ? { _context: { workflowId: request.workflowId } } : {}),
               }
-              const result = await executeTool(toolName, mergedArgs, true)
+              const result = await executeTool(
+                toolName,
+                mergedArgs,
+                true,
+                false,
+                request.abortSignal
+              )
               const toolCallEndTime = Date.now()
               const toolCallDuration = toolCallEndTime - toolCallStartTime
 
@@ -259,7 +267,9 @@ export const ollamaProvider: ProviderConfig = {
           const nextModelStartTime = Date.now()
 
           // Make the next request
-          currentResponse = await ollama.chat.completions.create(nextPayload)
+          currentResponse = await ollama.chat.completions.create(nextPayload, {
+            signal: request.abortSignal,
+          })
 
           const nextModelEndTime = Date.now()
           const thisModelTime = nextModelEndTime - nextModelStartTime
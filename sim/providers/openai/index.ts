@@ -174,11 +174,14 @@ export const openaiProvider: ProviderConfig = {
         logger.info('Using streaming response for OpenAI request')
 
         // Create a streaming request with token usage tracking
-        const streamResponse = await openai.chat.completions.create({
-          ...payload,
-          stream: true,
-          stream_options: { include_usage: true },
-        })
+        const streamResponse = await openai.chat.completions.create(
+          {
+            ...payload,
+            stream: true,
+            stream_options: { include_usage: true },
+          },
+          { signal: request.abortSignal }
+        )
 
         // Start collecting token usage from the stream
         const tokenUsage = {
@@ -294,7 +297,9 @@ export const openaiProvider: ProviderConfig = {
         }
       }
 
-      let currentResponse = await openai.chat.completions.create(payload)
+      let currentResponse = await openai.chat.completions.create(payload, {
+        signal: request.abortSignal,
+      })
       const firstResponseTime = Date.now() - initialCallTime
 
       let content = currentResponse.choices[0]?.message?.content || ''
@@ -364,7 +369,7 @@ export const openaiProvider: ProviderConfig = {
               ...(request.environmentVariables ? { envVars: request.environmentVariables } : {}),
             }
 
-            const result = await executeTool(toolName, mergedArgs, true)
+            const result = await executeTool(toolName, mergedArgs, true, false, request.abortSignal)
             const toolCallEndTime = Date.now()
             const toolCallDuration = toolCallEndTime - toolCallStartTime
 
@@ -451,7 +456,9 @@ export const openaiProvider: ProviderConfig = {
         const nextModelStartTime = Date.now()
 
         // Make the next request
-        currentResponse = await openai.chat.completions.create(nextPayload)
+        currentResponse = await openai.chat.completions.create(nextPayload, {
+          signal: request.abortSignal,
+        })
 
         // Check if any forced tools were used in this response
         checkForForcedToolUsage(currentResponse, nextPayload.tool_choice)
@@ -500,7 +507,9 @@ export const openaiProvider: ProviderConfig = {
           stream_options: { include_usage: true },
         }
 
-        const streamResponse = await openai.chat.completions.create(streamingPayload)
+        const streamResponse = await openai.chat.completions.create(streamingPayload, {
+          signal: request.abortSignal,
+        })
 
         // Create the StreamingExecution object with all collected data
         let _streamContent = ''
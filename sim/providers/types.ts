@@ -1,3 +1,4 @@
+import type { ExecutionReplay } from '@/executor/replay'
 import type { StreamingExecution } from '@/executor/types'
 
 export type ProviderId =
@@ -149,6 +150,9 @@ export interface ProviderRequest {
   workflowId?: string // Optional workflow ID for authentication context
   stream?: boolean
   environmentVariables?: Record<string, string> // Environment variables for tool execution
+  abortSignal?: AbortSignal // Aborts the model calls and tool calls of this request
+  blockId?: string // Block that makes the request, used to match recorded responses
+  replay?: ExecutionReplay // Records the response, or serves a recorded one instead
   // Azure OpenAI specific parameters
   azureEndpoint?: string
   azureApiVersion?: string
@@ -154,7 +154,9 @@ export const xAIProvider: ProviderConfig = {
         streamingPayload.stream = true
       }
 
-      const streamResponse = await xai.chat.completions.create(streamingPayload)
+      const streamResponse = await xai.chat.completions.create(streamingPayload, {
+        signal: request.abortSignal,
+      })
 
       // Start collecting token usage
       const tokenUsage = {
@@ -240,7 +242,9 @@ export const xAIProvider: ProviderConfig = {
         Object.assign(initialPayload, responseFormatPayload)
       }
 
-      let currentResponse = await xai.chat.completions.create(initialPayload)
+      let currentResponse = await xai.chat.completions.create(initialPayload, {
+        signal: request.abortSignal,
+      })
       const firstResponseTime = Date.now() - initialCallTime
 
       let content = currentResponse.choices[0]?.message?.content || ''
@@ -326,7 +330,13 @@ export const xAIProvider: ProviderConfig = {
                 ...toolArgs,
                 ...(request.workflowId ? { _context: { workflowId: request.workflowId } } : {}),
               }
-              const result = await executeTool(toolName, mergedArgs, true)
+              const result = await executeTool(
+                toolName,
+                mergedArgs,
+                true,
+                false,
+                request.abortSignal
+              )
               const toolCallEndTime = Date.now()
               const toolCallDuration = toolCallEndTime - toolCallStartTime
 
@@ -443,7 +453,9 @@ export const xAIProvider: ProviderConfig = {
           // Time the next model call
           const nextModelStartTime = Date.now()
 
-          currentResponse = await xai.chat.completions.create(nextPayload)
+          currentResponse = await xai.chat.completions.create(nextPayload, {
+            signal: request.abortSignal,
+          })
 
           // Check if any forced tools were used in this response
           if (nextPayload.tool_choice && typeof nextPayload.tool_choice === 'object') {
@@ -506,7 +518,9 @@ export const xAIProvider: ProviderConfig = {
           }
         }
 
-        const streamResponse = await xai.chat.completions.create(finalStreamingPayload)
+        const streamResponse = await xai.chat.completions.create(finalStreamingPayload, {
+          signal: request.abortSignal,
+        })
 
         // Create a StreamingExecution response with all collected data
         const streamingResult = {
@@ -133,6 +133,7 @@ export class Serializer {
         color: blockConfig.bgColor,
       },
       enabled: block.enabled,
+      ...(block.retryPolicy ? { retryPolicy: block.retryPolicy } : {}),
     }
   }
 
@@ -235,6 +236,7 @@ export class Serializer {
       subBlocks,
       outputs: serializedBlock.outputs,
       enabled: true,
+      ...(serializedBlock.retryPolicy ? { retryPolicy: serializedBlock.retryPolicy } : {}),
     }
   }
 }
@@ -1,5 +1,5 @@
 import type { BlockOutput, ParamType } from '@/blocks/types'
-import type { Position } from '@/stores/workflows/workflow/types'
+import type { BlockRetryPolicy, Position } from '@/stores/workflows/workflow/types'
 
 export interface SerializedWorkflow {
   version: string
@@ -38,6 +38,7 @@ export interface SerializedBlock {
     color?: string
   }
   enabled: boolean
+  retryPolicy?: BlockRetryPolicy
 }
 
 export interface SerializedLoop {
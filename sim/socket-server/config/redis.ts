@@ -0,0 +1,39 @@
+import type Redis from 'ioredis'
+import { env } from '../../lib/env'
+import { createLogger } from '../../lib/logs/console-logger'
+import { getRedisClient } from '../../lib/redis'
+
+const logger = createLogger('SocketRedisConfig')
+
+export interface SocketRedisClients {
+  pubClient: Redis
+  subClient: Redis
+}
+
+/**
+ * Create the Redis clients used to cluster socket server replicas.
+ * Clustering is opt-in: without REDIS_URL the server keeps all room state in process.
+ * @returns Publisher and subscriber clients, or null when clustering is disabled
+ */
+export function createSocketRedisClients(): SocketRedisClients | null {
+  if (!env.REDIS_URL) {
+    logger.info('REDIS_URL not set, running socket server as a single node')
+    return null
+  }
+
+  const pubClient = getRedisClient()
+  if (!pubClient) {
+    logger.warn('Redis client unavailable, running socket server as a single node')
+    return null
+  }
+
+  // Subscribed connections cannot issue regular commands, so pub/sub needs its own connection
+  const subClient = pubClient.duplicate()
+  subClient.on('error', (error) => {
+    logger.error('Redis subscriber connection error:', error)
+  })
+
+  logger.info('Socket server clustering enabled via Redis')
+
+  return { pubClient, subClient }
+}
@@ -1,6 +1,8 @@
 import type { Server as HttpServer } from 'http'
+import { createAdapter } from '@socket.io/redis-adapter'
 import { Server } from 'socket.io'
 import { createLogger } from '../../lib/logs/console-logger'
+import type { SocketRedisClients } from './redis'
 
 const logger = createLogger('SocketIOConfig')
 
@@ -24,11 +26,21 @@ function getAllowedOrigins(): string[] {
 /**
  * Create and configure a Socket.IO server instance
  * @param httpServer - The HTTP server instance to attach Socket.IO to
+ * @param redisClients - Optional Redis clients; when present, rooms and broadcasts span all replicas
  * @returns Configured Socket.IO server instance
  */
-export function createSocketIOServer(httpServer: HttpServer): Server {
+export function createSocketIOServer(
+  httpServer: HttpServer,
+  redisClients?: SocketRedisClients | null
+): Server {
   const allowedOrigins = getAllowedOrigins()
 
+  // Long-polling ties a session to the node that issued its handshake, which would require
+  // sticky sessions in front of the replicas. Clustered nodes only accept WebSocket connections.
+  const transports: ('websocket' | 'polling')[] = redisClients
+    ? ['websocket']
+    : ['websocket', 'polling']
+
   const io = new Server(httpServer, {
     cors: {
       origin: allowedOrigins,
@@ -36,7 +48,7 @@ export function createSocketIOServer(httpServer: HttpServer): Server {
       allowedHeaders: ['Content-Type', 'Authorization', 'Cookie', 'socket.io'],
       credentials: true, // Enable credentials to accept cookies
     },
-    transports: ['websocket', 'polling'], // WebSocket first, polling as fallback
+    transports, // WebSocket first, polling as fallback on single-node deployments
     allowEIO3: true, // Keep legacy support for compatibility
     pingTimeout: 60000, // Back to original conservative setting
     pingInterval: 25000, // Back to original interval
@@ -50,9 +62,14 @@ export function createSocketIOServer(httpServer: HttpServer): Server {
     },
   })
 
+  if (redisClients) {
+    io.adapter(createAdapter(redisClients.pubClient, redisClients.subClient))
+  }
+
   logger.info('Socket.IO server configured with:', {
     allowedOrigins: allowedOrigins.length,
-    transports: ['websocket', 'polling'],
+    transports,
+    redisAdapter: !!redisClients,
     pingTimeout: 60000,
     pingInterval: 25000,
     maxHttpBufferSize: 1e6,
@@ -1,8 +1,20 @@
-import { and, eq, or } from 'drizzle-orm'
+import { and, asc, eq, inArray, or } from 'drizzle-orm'
 import { drizzle } from 'drizzle-orm/postgres-js'
 import postgres from 'postgres'
+import * as Y from 'yjs'
 import * as schema from '../../db/schema'
-import { workflow, workflowBlocks, workflowEdges, workflowSubflows } from '../../db/schema'
+import {
+  user,
+  workflow,
+  workflowBlocks,
+  workflowComment,
+  workflowCommentThread,
+  workflowEdges,
+  workflowSubBlockCrdt,
+  workflowSubflows,
+} from '../../db/schema'
+import { getTextFromUpdate } from '../../lib/collaboration/text-crdt'
+import type { CommentThread, WorkflowComment } from '../../lib/comments/types'
 import { env } from '../../lib/env'
 import { createLogger } from '../../lib/logs/console-logger'
 import { loadWorkflowFromNormalizedTables } from '../../lib/workflows/db-helpers'
@@ -193,6 +205,313 @@ export async function persistWorkflowOperation(workflowId: string, operation: an
   }
 }
 
+export interface StoredTextDocument {
+  subBlockType: string | null
+  value: string
+  state: Uint8Array | null
+}
+
+const textDocumentId = (blockId: string, subBlockId: string) => `${blockId}:${subBlockId}`
+
+// Load the collaborative text document of a sub-block along with its current value
+export async function loadTextDocument(
+  workflowId: string,
+  blockId: string,
+  subBlockId: string
+): Promise<StoredTextDocument | null> {
+  const [block] = await db
+    .select({ subBlocks: workflowBlocks.subBlocks })
+    .from(workflowBlocks)
+    .where(and(eq(workflowBlocks.id, blockId), eq(workflowBlocks.workflowId, workflowId)))
+    .limit(1)
+
+  if (!block) return null
+
+  const subBlock = (block.subBlocks as any)?.[subBlockId]
+  const [stored] = await db
+    .select({ state: workflowSubBlockCrdt.state })
+    .from(workflowSubBlockCrdt)
+    .where(eq(workflowSubBlockCrdt.id, textDocumentId(blockId, subBlockId)))
+    .limit(1)
+
+  return {
+    subBlockType: subBlock?.type ?? null,
+    value: typeof subBlock?.value === 'string' ? subBlock.value : '',
+    state: stored ? new Uint8Array(Buffer.from(stored.state, 'base64')) : null,
+  }
+}
+
+// Persist a collaborative text document and write its text back as the sub-block value.
+// The update is merged with the stored document so that replicas never overwrite each other.
+export async function persistTextDocument(
+  workflowId: string,
+  blockId: string,
+  subBlockId: string,
+  update: Uint8Array
+): Promise<boolean> {
+  return db.transaction(async (tx) => {
+    const [block] = await tx
+      .select({ subBlocks: workflowBlocks.subBlocks })
+      .from(workflowBlocks)
+      .where(and(eq(workflowBlocks.id, blockId), eq(workflowBlocks.workflowId, workflowId)))
+      .for('update')
+      .limit(1)
+
+    if (!block) {
+      logger.debug(`Skipping text persistence for deleted block: ${workflowId}/${blockId}`)
+      return false
+    }
+
+    const id = textDocumentId(blockId, subBlockId)
+    const [stored] = await tx
+      .select({ state: workflowSubBlockCrdt.state })
+      .from(workflowSubBlockCrdt)
+      .where(eq(workflowSubBlockCrdt.id, id))
+      .limit(1)
+
+    const merged = stored
+      ? Y.mergeUpdates([new Uint8Array(Buffer.from(stored.state, 'base64')), update])
+      : update
+    const state = Buffer.from(merged).toString('base64')
+    const now = new Date()
+
+    await tx
+      .insert(workflowSubBlockCrdt)
+      .values({ id, workflowId, blockId, subBlockId, state, updatedAt: now })
+      .onConflictDoUpdate({
+        target: workflowSubBlockCrdt.id,
+        set: { state, updatedAt: now },
+      })
+
+    const subBlocks = (block.subBlocks as any) || {}
+    subBlocks[subBlockId] = {
+      ...(subBlocks[subBlockId] ?? { id: subBlockId, type: 'unknown' }),
+      value: getTextFromUpdate(merged),
+    }
+
+    await tx
+      .update(workflowBlocks)
+      .set({ subBlocks, updatedAt: now })
+      .where(and(eq(workflowBlocks.id, blockId), eq(workflowBlocks.workflowId, workflowId)))
+
+    return true
+  })
+}
+
+type CommentRow = typeof workflowComment.$inferSelect & { userName: string | null }
+
+function toComment(row: CommentRow): WorkflowComment {
+  return {
+    id: row.id,
+    threadId: row.threadId,
+    userId: row.userId,
+    userName: row.userName || 'Unknown user',
+    content: row.content,
+    mentions: (row.mentions as string[]) || [],
+    createdAt: row.createdAt.toISOString(),
+    updatedAt: row.updatedAt.toISOString(),
+  }
+}
+
+function toCommentThread(
+  row: typeof workflowCommentThread.$inferSelect,
+  comments: WorkflowComment[]
+): CommentThread {
+  return {
+    id: row.id,
+    workflowId: row.workflowId,
+    blockId: row.blockId,
+    position: { x: Number(row.positionX), y: Number(row.positionY) },
+    createdBy: row.createdBy,
+    resolvedBy: row.resolvedBy,
+    resolvedAt: row.resolvedAt?.toISOString() ?? null,
+    createdAt: row.createdAt.toISOString(),
+    updatedAt: row.updatedAt.toISOString(),
+    comments,
+  }
+}
+
+async function selectComments(dbOrTx: any, threadIds: string[]): Promise<WorkflowComment[]> {
+  if (threadIds.length === 0) return []
+
+  const rows: CommentRow[] = await dbOrTx
+    .select({
+      id: workflowComment.id,
+      threadId: workflowComment.threadId,
+      userId: workflowComment.userId,
+      userName: user.name,
+      content: workflowComment.content,
+      mentions: workflowComment.mentions,
+      createdAt: workflowComment.createdAt,
+      updatedAt: workflowComment.updatedAt,
+    })
+    .from(workflowComment)
+    .leftJoin(user, eq(workflowComment.userId, user.id))
+    .where(inArray(workflowComment.threadId, threadIds))
+    .orderBy(asc(workflowComment.createdAt))
+
+  return rows.map(toComment)
+}
+
+// Load every comment thread of a workflow, oldest comment first within each thread
+export async function loadCommentThreads(workflowId: string): Promise<CommentThread[]> {
+  const threads = await db
+    .select()
+    .from(workflowCommentThread)
+    .where(eq(workflowCommentThread.workflowId, workflowId))
+    .orderBy(asc(workflowCommentThread.createdAt))
+
+  const comments = await selectComments(db, threads.map((thread) => thread.id))
+
+  return threads.map((thread) =>
+    toCommentThread(thread, comments.filter((comment) => comment.threadId === thread.id))
+  )
+}
+
+export interface NewComment {
+  id: string
+  userId: string
+  content: string
+  mentions: string[]
+}
+
+// Create a thread along with its first comment
+export async function createCommentThread(
+  workflowId: string,
+  thread: {
+    id: string
+    blockId: string | null
+    position: { x: number; y: number }
+    comment: NewComment
+  }
+): Promise<CommentThread> {
+  return db.transaction(async (tx) => {
+    const now = new Date()
+
+    const [created] = await tx
+      .insert(workflowCommentThread)
+      .values({
+        id: thread.id,
+        workflowId,
+        blockId: thread.blockId,
+        positionX: String(thread.position.x),
+        positionY: String(thread.position.y),
+        createdBy: thread.comment.userId,
+        createdAt: now,
+        updatedAt: now,
+      })
+      .returning()
+
+    await tx.insert(workflowComment).values({
+      ...thread.comment,
+      threadId: thread.id,
+      createdAt: now,
+      updatedAt: now,
+    })
+
+    return toCommentThread(created, await selectComments(tx, [thread.id]))
+  })
+}
+
+// Add a reply to a thread of the workflow, returning it with the block the thread is on
+// Returns null if the thread doesn't exist in this workflow
+export async function addComment(
+  workflowId: string,
+  threadId: string,
+  comment: NewComment
+): Promise<{ comment: WorkflowComment; blockId: string | null } | null> {
+  return db.transaction(async (tx) => {
+    const now = new Date()
+
+    const [thread] = await tx
+      .update(workflowCommentThread)
+      .set({ updatedAt: now })
+      .where(
+        and(
+          eq(workflowCommentThread.id, threadId),
+          eq(workflowCommentThread.workflowId, workflowId)
+        )
+      )
+      .returning({ blockId: workflowCommentThread.blockId })
+
+    if (!thread) return null
+
+    await tx
+      .insert(workflowComment)
+      .values({ ...comment, threadId, createdAt: now, updatedAt: now })
+
+    const comments = await selectComments(tx, [threadId])
+    const created = comments.find((c) => c.id === comment.id)
+    return created ? { comment: created, blockId: thread.blockId } : null
+  })
+}
+
+// Resolve or reopen a thread of the workflow
+// Returns null if the thread doesn't exist in this workflow
+export async function setCommentThreadResolved(
+  workflowId: string,
+  threadId: string,
+  userId: string,
+  resolved: boolean
+): Promise<CommentThread | null> {
+  const now = new Date()
+
+  const [thread] = await db
+    .update(workflowCommentThread)
+    .set({
+      resolvedBy: resolved ? userId : null,
+      resolvedAt: resolved ? now : null,
+      updatedAt: now,
+    })
+    .where(
+      and(eq(workflowCommentThread.id, threadId), eq(workflowCommentThread.workflowId, workflowId))
+    )
+    .returning()
+
+  if (!thread) return null
+
+  return toCommentThread(thread, await selectComments(db, [threadId]))
+}
+
+// Delete a comment written by the user, along with its thread if it was the last comment
+// Returns null if the comment doesn't exist in this workflow or belongs to someone else
+export async function deleteComment(
+  workflowId: string,
+  commentId: string,
+  userId: string
+): Promise<{ threadId: string; threadDeleted: boolean } | null> {
+  return db.transaction(async (tx) => {
+    const [comment] = await tx
+      .select({ threadId: workflowComment.threadId })
+      .from(workflowComment)
+      .innerJoin(workflowCommentThread, eq(workflowComment.threadId, workflowCommentThread.id))
+      .where(
+        and(
+          eq(workflowComment.id, commentId),
+          eq(workflowComment.userId, userId),
+          eq(workflowCommentThread.workflowId, workflowId)
+        )
+      )
+      .limit(1)
+
+    if (!comment) return null
+
+    await tx.delete(workflowComment).where(eq(workflowComment.id, commentId))
+
+    const [remaining] = await tx
+      .select({ id: workflowComment.id })
+      .from(workflowComment)
+      .where(eq(workflowComment.threadId, comment.threadId))
+      .limit(1)
+
+    if (!remaining) {
+      await tx.delete(workflowCommentThread).where(eq(workflowCommentThread.id, comment.threadId))
+    }
+
+    return { threadId: comment.threadId, threadDeleted: !remaining }
+  })
+}
+
 // Block operations
 async function handleBlockOperationTx(
   tx: any,
@@ -530,6 +849,28 @@ async function handleBlockOperationTx(
       break
     }
 
+    case 'update-retry-policy': {
+      if (!payload.id || payload.retryPolicy === undefined) {
+        throw new Error('Missing required fields for update retry policy operation')
+      }
+
+      const updateResult = await tx
+        .update(workflowBlocks)
+        .set({
+          retryPolicy: payload.retryPolicy,
+          updatedAt: new Date(),
+        })
+        .where(and(eq(workflowBlocks.id, payload.id), eq(workflowBlocks.workflowId, workflowId)))
+        .returning({ id: workflowBlocks.id })
+
+      if (updateResult.length === 0) {
+        throw new Error(`Block ${payload.id} not found in workflow ${workflowId}`)
+      }
+
+      logger.debug(`Updated block retry policy: ${payload.id}`)
+      break
+    }
+
     case 'toggle-handles': {
       if (!payload.id || payload.horizontalHandles === undefined) {
         throw new Error('Missing required fields for toggle handles operation')
@@ -0,0 +1,195 @@
+import { ZodError } from 'zod'
+import { sendMentionNotifications } from '../../lib/comments/notifications'
+import { createLogger } from '../../lib/logs/console-logger'
+import {
+  addComment,
+  createCommentThread,
+  deleteComment,
+  loadCommentThreads,
+  setCommentThreadResolved,
+} from '../database/operations'
+import type { AuthenticatedSocket } from '../middleware/auth'
+import type { RoomManager } from '../rooms/manager'
+import {
+  CommentCreateSchema,
+  CommentDeleteSchema,
+  CommentThreadCreateSchema,
+  CommentThreadResolveSchema,
+} from '../validation/schemas'
+import type { HandlerDependencies } from './workflow'
+
+const logger = createLogger('CommentHandlers')
+
+/**
+ * Handlers for comment threads anchored to blocks or areas of the canvas.
+ *
+ * Every collaborator in a workflow can comment, including read-only reviewers. Changes are
+ * persisted first and then sent to the whole room, the sender included.
+ */
+export function setupCommentHandlers(
+  socket: AuthenticatedSocket,
+  deps: HandlerDependencies | RoomManager
+) {
+  const roomManager =
+    deps instanceof Object && 'roomManager' in deps ? deps.roomManager : (deps as RoomManager)
+
+  const getContext = () => {
+    const workflowId = roomManager.getWorkflowIdForSocket(socket.id)
+    const session = roomManager.getUserSession(socket.id)
+
+    if (!workflowId || !session) {
+      socket.emit('error', {
+        type: 'NOT_JOINED',
+        message: 'Not joined to any workflow',
+      })
+      return null
+    }
+
+    const userPresence = roomManager.getWorkflowRoom(workflowId)?.users.get(socket.id)
+    if (userPresence) {
+      userPresence.lastActivity = Date.now()
+    }
+
+    return { workflowId, session }
+  }
+
+  const emitToRoom = (workflowId: string, event: string, data: unknown) => {
+    socket.emit(event, data)
+    socket.to(workflowId).emit(event, data)
+  }
+
+  const emitError = (operation: string, type: string, error: unknown) => {
+    socket.emit('operation-error', {
+      type: error instanceof ZodError ? 'VALIDATION_ERROR' : type,
+      message: error instanceof Error ? error.message : 'Comment operation failed',
+      operation,
+      target: 'comment',
+    })
+  }
+
+  const notifyMentions = (
+    workflowId: string,
+    threadId: string,
+    blockId: string | null,
+    session: { userId: string; userName: string },
+    content: string,
+    mentions: string[]
+  ) => {
+    sendMentionNotifications({
+      workflowId,
+      threadId,
+      blockId,
+      authorId: session.userId,
+      authorName: session.userName,
+      content,
+      mentions,
+    }).catch((error) => {
+      logger.error(`Failed to send mention notifications for thread ${threadId}:`, error)
+    })
+  }
+
+  socket.on('comment-threads-request', async () => {
+    const context = getContext()
+    if (!context) return
+
+    try {
+      const threads = await loadCommentThreads(context.workflowId)
+      socket.emit('comment-threads', { workflowId: context.workflowId, threads })
+    } catch (error) {
+      logger.error('Error loading comment threads:', error)
+      emitError('comment-threads-request', 'COMMENTS_LOAD_FAILED', error)
+    }
+  })
+
+  socket.on('comment-thread-create', async (data) => {
+    const context = getContext()
+    if (!context) return
+    const { workflowId, session } = context
+
+    try {
+      const { threadId, blockId, position, commentId, content, mentions } =
+        CommentThreadCreateSchema.parse(data)
+
+      const thread = await createCommentThread(workflowId, {
+        id: threadId,
+        blockId,
+        position,
+        comment: { id: commentId, userId: session.userId, content, mentions },
+      })
+
+      emitToRoom(workflowId, 'comment-thread-created', { thread })
+      notifyMentions(workflowId, threadId, blockId, session, content, mentions)
+
+      logger.debug(`Comment thread ${threadId} created in workflow ${workflowId}`)
+    } catch (error) {
+      logger.error('Error creating comment thread:', error)
+      emitError('comment-thread-create', 'COMMENT_FAILED', error)
+    }
+  })
+
+  socket.on('comment-create', async (data) => {
+    const context = getContext()
+    if (!context) return
+    const { workflowId, session } = context
+
+    try {
+      const { threadId, commentId, content, mentions } = CommentCreateSchema.parse(data)
+
+      const result = await addComment(workflowId, threadId, {
+        id: commentId,
+        userId: session.userId,
+        content,
+        mentions,
+      })
+      if (!result) {
+        throw new Error(`Comment thread ${threadId} not found`)
+      }
+
+      emitToRoom(workflowId, 'comment-created', { comment: result.comment })
+      notifyMentions(workflowId, threadId, result.blockId, session, content, mentions)
+    } catch (error) {
+      logger.error('Error adding comment:', error)
+      emitError('comment-create', 'COMMENT_FAILED', error)
+    }
+  })
+
+  socket.on('comment-thread-resolve', async (data) => {
+    const context = getContext()
+    if (!context) return
+    const { workflowId, session } = context
+
+    try {
+      const { threadId, resolved } = CommentThreadResolveSchema.parse(data)
+
+      const thread = await setCommentThreadResolved(workflowId, threadId, session.userId, resolved)
+      if (!thread) {
+        throw new Error(`Comment thread ${threadId} not found`)
+      }
+
+      emitToRoom(workflowId, 'comment-thread-updated', { thread })
+    } catch (error) {
+      logger.error('Error resolving comment thread:', error)
+      emitError('comment-thread-resolve', 'COMMENT_FAILED', error)
+    }
+  })
+
+  socket.on('comment-delete', async (data) => {
+    const context = getContext()
+    if (!context) return
+    const { workflowId, session } = context
+
+    try {
+      const { commentId } = CommentDeleteSchema.parse(data)
+
+      const result = await deleteComment(workflowId, commentId, session.userId)
+      if (!result) {
+        throw new Error('Comment not found or written by another user')
+      }
+
+      emitToRoom(workflowId, 'comment-deleted', { commentId, ...result })
+    } catch (error) {
+      logger.error('Error deleting comment:', error)
+      emitError('comment-delete', 'COMMENT_FAILED', error)
+    }
+  })
+}
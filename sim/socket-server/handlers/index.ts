@@ -1,9 +1,11 @@
 import type { AuthenticatedSocket } from '../middleware/auth'
 import type { RoomManager, UserPresence, WorkflowRoom } from '../rooms/manager'
+import { setupCommentHandlers } from './comments'
 import { setupConnectionHandlers } from './connection'
 import { setupOperationsHandlers } from './operations'
 import { setupPresenceHandlers } from './presence'
 import { setupSubblocksHandlers } from './subblocks'
+import { setupTextHandlers } from './text'
 import { setupWorkflowHandlers } from './workflow'
 
 export type { UserPresence, WorkflowRoom }
@@ -17,6 +19,8 @@ export function setupAllHandlers(socket: AuthenticatedSocket, roomManager: RoomM
   setupWorkflowHandlers(socket, roomManager)
   setupOperationsHandlers(socket, roomManager)
   setupSubblocksHandlers(socket, roomManager)
+  setupTextHandlers(socket, roomManager)
+  setupCommentHandlers(socket, roomManager)
   setupPresenceHandlers(socket, roomManager)
   setupConnectionHandlers(socket, roomManager)
 }
@@ -25,6 +29,8 @@ export {
   setupWorkflowHandlers,
   setupOperationsHandlers,
   setupSubblocksHandlers,
+  setupTextHandlers,
+  setupCommentHandlers,
   setupPresenceHandlers,
   setupConnectionHandlers,
 }
@@ -48,6 +48,7 @@ export function setupPresenceHandlers(
     if (userPresence) {
       userPresence.selection = selection
       userPresence.lastActivity = Date.now()
+      roomManager.trackPresence(userPresence)
     }
 
     socket.to(workflowId).emit('selection-update', {
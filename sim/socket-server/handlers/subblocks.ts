@@ -117,6 +117,23 @@ export function setupSubblocksHandlers(
           senderId: socket.id,
           userId: session.userId,
         })
+
+        // Clients editing this field through its text document need the change as a CRDT update
+        if (typeof value === 'string') {
+          const update = roomManager
+            .getTextDocuments()
+            .applyValue(workflowId, blockId, subblockId, value)
+          if (update) {
+            socket.to(workflowId).emit('text-update', {
+              blockId,
+              subblockId,
+              update,
+              senderId: socket.id,
+              userId: session.userId,
+            })
+            roomManager.relayTextUpdate(workflowId, blockId, subblockId, update)
+          }
+        }
       }
 
       logger.debug(`Subblock update in workflow ${workflowId}: ${blockId}.${subblockId}`)
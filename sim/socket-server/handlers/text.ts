@@ -0,0 +1,132 @@
+import * as Y from 'yjs'
+import { ZodError } from 'zod'
+import { toUint8Array } from '../../lib/collaboration/text-crdt'
+import { createLogger } from '../../lib/logs/console-logger'
+import type { AuthenticatedSocket } from '../middleware/auth'
+import type { RoomManager } from '../rooms/manager'
+import { TextCursorSchema, TextSyncSchema, TextUpdateSchema } from '../validation/schemas'
+import type { HandlerDependencies } from './workflow'
+
+const logger = createLogger('TextHandlers')
+
+/**
+ * Handlers for collaboratively edited text sub-blocks (long inputs and code editors).
+ *
+ * Clients sync a Yjs document per sub-block: `text-sync` exchanges missing state,
+ * `text-update` carries incremental edits and `text-cursor` shares carets and selections.
+ */
+export function setupTextHandlers(
+  socket: AuthenticatedSocket,
+  deps: HandlerDependencies | RoomManager
+) {
+  const roomManager =
+    deps instanceof Object && 'roomManager' in deps ? deps.roomManager : (deps as RoomManager)
+  const textDocuments = roomManager.getTextDocuments()
+
+  socket.on('text-sync', async (data) => {
+    const workflowId = roomManager.getWorkflowIdForSocket(socket.id)
+    const session = roomManager.getUserSession(socket.id)
+
+    if (!workflowId || !session) {
+      socket.emit('error', {
+        type: 'NOT_JOINED',
+        message: 'Not joined to any workflow',
+      })
+      return
+    }
+
+    try {
+      const { blockId, subblockId, stateVector } = TextSyncSchema.parse(data)
+
+      const doc = await textDocuments.getDocument(workflowId, blockId, subblockId)
+      if (!doc) {
+        socket.emit('operation-error', {
+          type: 'TEXT_SYNC_FAILED',
+          message: `Sub-block ${blockId}.${subblockId} is not collaborative text`,
+          operation: 'text-sync',
+          target: 'subblock',
+        })
+        return
+      }
+
+      socket.emit('text-sync', {
+        blockId,
+        subblockId,
+        update: Y.encodeStateAsUpdate(doc, stateVector ? toUint8Array(stateVector) : undefined),
+        stateVector: Y.encodeStateVector(doc),
+      })
+    } catch (error) {
+      logger.error('Error handling text sync:', error)
+      socket.emit('operation-error', {
+        type: error instanceof ZodError ? 'VALIDATION_ERROR' : 'TEXT_SYNC_FAILED',
+        message: error instanceof Error ? error.message : 'Failed to sync text',
+        operation: 'text-sync',
+        target: 'subblock',
+      })
+    }
+  })
+
+  socket.on('text-update', async (data) => {
+    const workflowId = roomManager.getWorkflowIdForSocket(socket.id)
+    const session = roomManager.getUserSession(socket.id)
+
+    if (!workflowId || !session) return
+
+    try {
+      const { blockId, subblockId, update: rawUpdate } = TextUpdateSchema.parse(data)
+      const update = toUint8Array(rawUpdate)
+
+      const applied = await textDocuments.applyUpdate(
+        workflowId,
+        blockId,
+        subblockId,
+        update,
+        socket.id
+      )
+      if (!applied) {
+        logger.debug(`Ignoring text update for missing sub-block ${blockId}.${subblockId}`)
+        return
+      }
+
+      const room = roomManager.getWorkflowRoom(workflowId)
+      const userPresence = room?.users.get(socket.id)
+      if (userPresence) {
+        userPresence.lastActivity = Date.now()
+      }
+
+      socket.to(workflowId).emit('text-update', {
+        blockId,
+        subblockId,
+        update,
+        senderId: socket.id,
+        userId: session.userId,
+      })
+      roomManager.relayTextUpdate(workflowId, blockId, subblockId, update)
+    } catch (error) {
+      logger.error('Error handling text update:', error)
+      socket.emit('operation-error', {
+        type: error instanceof ZodError ? 'VALIDATION_ERROR' : 'TEXT_UPDATE_FAILED',
+        message: error instanceof Error ? error.message : 'Failed to apply text update',
+        operation: 'text-update',
+        target: 'subblock',
+      })
+    }
+  })
+
+  socket.on('text-cursor', (data) => {
+    const workflowId = roomManager.getWorkflowIdForSocket(socket.id)
+    const session = roomManager.getUserSession(socket.id)
+
+    if (!workflowId || !session) return
+
+    const parsed = TextCursorSchema.safeParse(data)
+    if (!parsed.success) return
+
+    socket.to(workflowId).emit('text-cursor', {
+      ...parsed.data,
+      socketId: socket.id,
+      userId: session.userId,
+      userName: session.userName,
+    })
+  })
+}
@@ -90,12 +90,13 @@ export function setupWorkflowHandlers(
       room.users.set(socket.id, userPresence)
       roomManager.setWorkflowForSocket(socket.id, workflowId)
       roomManager.setUserSession(socket.id, { userId, userName })
+      await roomManager.trackPresence(userPresence)
 
       const workflowState = await getWorkflowState(workflowId)
       socket.emit('workflow-state', workflowState)
 
       // Broadcast updated presence list to all users in the room
-      roomManager.broadcastPresenceUpdate(workflowId)
+      await roomManager.broadcastPresenceUpdate(workflowId)
 
       const uniqueUserCount = roomManager.getUniqueUserCount(workflowId)
       logger.info(
@@ -1,5 +1,6 @@
 import { createServer } from 'http'
 import { createLogger } from '../lib/logs/console-logger'
+import { createSocketRedisClients } from './config/redis'
 import { createSocketIOServer } from './config/socket'
 import { setupAllHandlers } from './handlers'
 import { type AuthenticatedSocket, authenticateSocket } from './middleware/auth'
@@ -11,10 +12,16 @@ const logger = createLogger('CollaborativeSocketServer')
 // Enhanced server configuration - HTTP server will be configured with handler after all dependencies are set up
 const httpServer = createServer()
 
-const io = createSocketIOServer(httpServer)
+// Redis is optional: with it, room membership, presence and broadcasts span every replica
+const redisClients = createSocketRedisClients()
+
+const io = createSocketIOServer(httpServer, redisClients)
 
 // Initialize room manager after io is created
-const roomManager = new RoomManager(io)
+const roomManager = new RoomManager(io, redisClients?.pubClient)
+roomManager.start().catch((error) => {
+  logger.error('Failed to join socket cluster:', error)
+})
 
 io.use(authenticateSocket)
 
@@ -82,6 +89,8 @@ logger.info('Starting Socket.IO server...', {
   nodeEnv: process.env.NODE_ENV,
   hasDatabase: !!process.env.DATABASE_URL,
   hasAuth: !!process.env.BETTER_AUTH_SECRET,
+  clustered: roomManager.isClustered(),
+  nodeId: roomManager.getNodeId(),
 })
 
 httpServer.listen(PORT, '0.0.0.0', () => {
@@ -94,18 +103,15 @@ httpServer.on('error', (error) => {
   process.exit(1)
 })
 
-process.on('SIGINT', () => {
+const shutdown = async () => {
   logger.info('Shutting down Socket.IO server...')
+  await roomManager.shutdown()
   httpServer.close(() => {
     logger.info('Socket.IO server closed')
     process.exit(0)
   })
-})
+}
 
-process.on('SIGTERM', () => {
-  logger.info('Shutting down Socket.IO server...')
-  httpServer.close(() => {
-    logger.info('Socket.IO server closed')
-    process.exit(0)
-  })
-})
+process.on('SIGINT', shutdown)
+
+process.on('SIGTERM', shutdown)
@@ -100,6 +100,7 @@ export async function verifyOperationPermission(
         'update-parent',
         'update-wide',
         'update-advanced-mode',
+        'update-retry-policy',
         'toggle-handles',
         'duplicate',
       ],
@@ -113,6 +114,7 @@ export async function verifyOperationPermission(
         'update-parent',
         'update-wide',
         'update-advanced-mode',
+        'update-retry-policy',
         'toggle-handles',
         'duplicate',
       ],
@@ -126,6 +128,7 @@ export async function verifyOperationPermission(
         'update-parent',
         'update-wide',
         'update-advanced-mode',
+        'update-retry-policy',
         'toggle-handles',
         'duplicate',
       ],
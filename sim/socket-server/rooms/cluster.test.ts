@@ -0,0 +1,153 @@
+/**
+ * Tests for the Redis-backed cluster presence registry
+ *
+ * @vitest-environment node
+ */
+import type Redis from 'ioredis'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { ClusterPresence } from './cluster'
+import type { UserPresence } from './manager'
+
+vi.mock('../../lib/redis', () => ({
+  acquireLock: vi.fn().mockResolvedValue(true),
+}))
+
+/**
+ * Minimal in-memory stand-in for the ioredis commands the registry uses
+ */
+function createFakeRedis() {
+  const strings = new Map<string, string>()
+  const hashes = new Map<string, Map<string, string>>()
+  const sets = new Map<string, Set<string>>()
+
+  const commands = {
+    set: async (key: string, value: string) => {
+      strings.set(key, value)
+      return 'OK'
+    },
+    exists: async (key: string) => (strings.has(key) ? 1 : 0),
+    del: async (...keys: string[]) => {
+      keys.forEach((key) => {
+        strings.delete(key)
+        hashes.delete(key)
+        sets.delete(key)
+      })
+      return keys.length
+    },
+    hset: async (key: string, field: string, value: string) => {
+      if (!hashes.has(key)) hashes.set(key, new Map())
+      hashes.get(key)!.set(field, value)
+      return 1
+    },
+    hdel: async (key: string, field: string) => (hashes.get(key)?.delete(field) ? 1 : 0),
+    hgetall: async (key: string) => Object.fromEntries(hashes.get(key) ?? new Map()),
+    sadd: async (key: string, member: string) => {
+      if (!sets.has(key)) sets.set(key, new Set())
+      sets.get(key)!.add(member)
+      return 1
+    },
+    srem: async (key: string, member: string) => (sets.get(key)?.delete(member) ? 1 : 0),
+    smembers: async (key: string) => Array.from(sets.get(key) ?? []),
+  }
+
+  const multi = () => {
+    const queued: (() => Promise<unknown>)[] = []
+    const pipeline: any = {
+      exec: async () => {
+        const results = []
+        for (const run of queued) results.push([null, await run()])
+        return results
+      },
+    }
+    for (const [name, command] of Object.entries(commands)) {
+      pipeline[name] = (...args: any[]) => {
+        queued.push(() => (command as any)(...args))
+        return pipeline
+      }
+    }
+    return pipeline
+  }
+
+  return { ...commands, multi } as unknown as Redis
+}
+
+const createPresence = (workflowId: string, socketId: string, userId: string): UserPresence => ({
+  userId,
+  workflowId,
+  userName: `User ${userId}`,
+  socketId,
+  joinedAt: Date.now(),
+  lastActivity: Date.now(),
+})
+
+describe('ClusterPresence', () => {
+  let redis: ReturnType<typeof createFakeRedis>
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    redis = createFakeRedis()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('should share room presence between nodes', async () => {
+    const nodeA = new ClusterPresence(redis)
+    const nodeB = new ClusterPresence(redis)
+
+    await nodeA.addPresence(createPresence('workflow-1', 'socket-a', 'user-a'))
+    await nodeB.addPresence(createPresence('workflow-1', 'socket-b', 'user-b'))
+
+    const presence = await nodeA.getRoomPresence('workflow-1')
+    expect(presence.map((p) => p.socketId).sort()).toEqual(['socket-a', 'socket-b'])
+    expect(presence[0]).not.toHaveProperty('nodeId')
+  })
+
+  it('should remove a single socket from the room', async () => {
+    const node = new ClusterPresence(redis)
+
+    await node.addPresence(createPresence('workflow-1', 'socket-a', 'user-a'))
+    await node.addPresence(createPresence('workflow-1', 'socket-b', 'user-b'))
+    await node.removePresence('workflow-1', 'socket-a')
+
+    const presence = await node.getRoomPresence('workflow-1')
+    expect(presence.map((p) => p.socketId)).toEqual(['socket-b'])
+  })
+
+  it('should remove its own presence when stopped', async () => {
+    const nodeA = new ClusterPresence(redis)
+    const nodeB = new ClusterPresence(redis)
+    await nodeA.start(vi.fn())
+    await nodeB.start(vi.fn())
+
+    await nodeA.addPresence(createPresence('workflow-1', 'socket-a', 'user-a'))
+    await nodeB.addPresence(createPresence('workflow-1', 'socket-b', 'user-b'))
+
+    const affected = await nodeA.stop()
+    await nodeB.stop()
+
+    expect(affected).toEqual(['workflow-1'])
+    expect(await redis.hgetall('socket:room:workflow-1:presence')).toEqual({})
+  })
+
+  it('should reap presence of nodes that stop heartbeating', async () => {
+    const deadNode = new ClusterPresence(redis)
+    const liveNode = new ClusterPresence(redis)
+    const onRoomsOrphaned = vi.fn()
+
+    // A crashed node stays registered but its heartbeat key has expired
+    await redis.sadd('socket:nodes', deadNode.nodeId)
+    await deadNode.addPresence(createPresence('workflow-1', 'socket-dead', 'user-a'))
+    await liveNode.start(onRoomsOrphaned)
+    await liveNode.addPresence(createPresence('workflow-1', 'socket-live', 'user-b'))
+
+    await vi.advanceTimersByTimeAsync(10_000)
+
+    expect(onRoomsOrphaned).toHaveBeenCalledWith(['workflow-1'])
+    const presence = await liveNode.getRoomPresence('workflow-1')
+    expect(presence.map((p) => p.socketId)).toEqual(['socket-live'])
+
+    await liveNode.stop()
+  })
+})
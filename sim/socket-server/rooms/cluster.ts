@@ -0,0 +1,166 @@
+import { randomUUID } from 'crypto'
+import { hostname } from 'os'
+import type Redis from 'ioredis'
+import { createLogger } from '../../lib/logs/console-logger'
+import { acquireLock } from '../../lib/redis'
+import type { UserPresence } from './manager'
+
+const logger = createLogger('ClusterPresence')
+
+const KEY_PREFIX = 'socket'
+const NODES_KEY = `${KEY_PREFIX}:nodes`
+const NODE_TTL_SECONDS = 30
+const HEARTBEAT_INTERVAL_MS = 10_000
+
+const nodeKey = (nodeId: string) => `${KEY_PREFIX}:node:${nodeId}`
+const nodeSocketsKey = (nodeId: string) => `${KEY_PREFIX}:node:${nodeId}:sockets`
+const roomPresenceKey = (workflowId: string) => `${KEY_PREFIX}:room:${workflowId}:presence`
+const reapLockKey = (nodeId: string) => `${KEY_PREFIX}:reap:${nodeId}`
+
+// Members of a node's socket set encode both ids so a dead node's presence can be reaped
+const SOCKET_REF_SEPARATOR = '|'
+
+interface ClusterPresenceEntry extends UserPresence {
+  nodeId: string
+}
+
+/**
+ * Shared presence registry for socket server replicas.
+ *
+ * Every node writes the presence of its own sockets to a per-room Redis hash and keeps a
+ * heartbeat key alive. When a node stops heartbeating (crash, eviction), a surviving node
+ * reaps its presence entries so collaborators reconnecting elsewhere are not shown twice.
+ */
+export class ClusterPresence {
+  readonly nodeId = `${hostname()}-${process.pid}-${randomUUID().slice(0, 8)}`
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null
+
+  constructor(private redis: Redis) {}
+
+  /**
+   * Start heartbeating and reaping dead nodes
+   * @param onRoomsOrphaned - Called with the workflow ids that lost presence entries to a dead node
+   */
+  async start(onRoomsOrphaned: (workflowIds: string[]) => void): Promise<void> {
+    await this.heartbeat()
+
+    this.heartbeatTimer = setInterval(async () => {
+      try {
+        await this.heartbeat()
+        const workflowIds = await this.reapDeadNodes()
+        if (workflowIds.length > 0) {
+          onRoomsOrphaned(workflowIds)
+        }
+      } catch (error) {
+        logger.error('Cluster heartbeat failed:', error)
+      }
+    }, HEARTBEAT_INTERVAL_MS)
+    this.heartbeatTimer.unref?.()
+
+    logger.info(`Socket node ${this.nodeId} joined the cluster`)
+  }
+
+  /**
+   * Stop heartbeating and remove every presence entry owned by this node
+   * @returns The workflow ids whose presence changed
+   */
+  async stop(): Promise<string[]> {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer)
+      this.heartbeatTimer = null
+    }
+
+    const workflowIds = await this.removeNode(this.nodeId)
+    logger.info(`Socket node ${this.nodeId} left the cluster`)
+    return workflowIds
+  }
+
+  async addPresence(presence: UserPresence): Promise<void> {
+    const entry: ClusterPresenceEntry = { ...presence, nodeId: this.nodeId }
+
+    await this.redis
+      .multi()
+      .hset(roomPresenceKey(presence.workflowId), presence.socketId, JSON.stringify(entry))
+      .sadd(nodeSocketsKey(this.nodeId), this.socketRef(presence.workflowId, presence.socketId))
+      .exec()
+  }
+
+  async removePresence(workflowId: string, socketId: string): Promise<void> {
+    await this.redis
+      .multi()
+      .hdel(roomPresenceKey(workflowId), socketId)
+      .srem(nodeSocketsKey(this.nodeId), this.socketRef(workflowId, socketId))
+      .exec()
+  }
+
+  /**
+   * Get the presence of every socket in a workflow room, across all nodes
+   */
+  async getRoomPresence(workflowId: string): Promise<UserPresence[]> {
+    const entries = await this.redis.hgetall(roomPresenceKey(workflowId))
+
+    return Object.values(entries).flatMap((raw) => {
+      try {
+        const { nodeId: _nodeId, ...presence } = JSON.parse(raw) as ClusterPresenceEntry
+        return [presence]
+      } catch {
+        return []
+      }
+    })
+  }
+
+  async removeRoom(workflowId: string): Promise<void> {
+    await this.redis.del(roomPresenceKey(workflowId))
+  }
+
+  private socketRef(workflowId: string, socketId: string): string {
+    return `${workflowId}${SOCKET_REF_SEPARATOR}${socketId}`
+  }
+
+  private async heartbeat(): Promise<void> {
+    await this.redis
+      .multi()
+      .set(nodeKey(this.nodeId), Date.now().toString(), 'EX', NODE_TTL_SECONDS)
+      .sadd(NODES_KEY, this.nodeId)
+      .exec()
+  }
+
+  private async reapDeadNodes(): Promise<string[]> {
+    const nodeIds = await this.redis.smembers(NODES_KEY)
+    const orphaned = new Set<string>()
+
+    for (const nodeId of nodeIds) {
+      if (nodeId === this.nodeId) continue
+      if (await this.redis.exists(nodeKey(nodeId))) continue
+
+      // Only one surviving node should reap a given dead node
+      const acquired = await acquireLock(reapLockKey(nodeId), this.nodeId, NODE_TTL_SECONDS)
+      if (!acquired) continue
+
+      logger.warn(`Socket node ${nodeId} stopped heartbeating, reaping its presence`)
+      for (const workflowId of await this.removeNode(nodeId)) {
+        orphaned.add(workflowId)
+      }
+    }
+
+    return Array.from(orphaned)
+  }
+
+  private async removeNode(nodeId: string): Promise<string[]> {
+    const refs = await this.redis.smembers(nodeSocketsKey(nodeId))
+    const workflowIds = new Set<string>()
+    const pipeline = this.redis.multi()
+
+    for (const ref of refs) {
+      const separatorIndex = ref.lastIndexOf(SOCKET_REF_SEPARATOR)
+      const workflowId = ref.slice(0, separatorIndex)
+      const socketId = ref.slice(separatorIndex + 1)
+      pipeline.hdel(roomPresenceKey(workflowId), socketId)
+      workflowIds.add(workflowId)
+    }
+
+    await pipeline.del(nodeSocketsKey(nodeId), nodeKey(nodeId)).srem(NODES_KEY, nodeId).exec()
+
+    return Array.from(workflowIds)
+  }
+}
@@ -1,11 +1,14 @@
 import { and, eq, isNull } from 'drizzle-orm'
 import { drizzle } from 'drizzle-orm/postgres-js'
+import type Redis from 'ioredis'
 import postgres from 'postgres'
 import type { Server } from 'socket.io'
 import * as schema from '../../db/schema'
 import { workflowBlocks, workflowEdges } from '../../db/schema'
 import { env } from '../../lib/env'
 import { createLogger } from '../../lib/logs/console-logger'
+import { ClusterPresence } from './cluster'
+import { TextDocumentManager } from './text-documents'
 
 // Create dedicated database connection for room manager
 const connectionString = env.POSTGRES_URL ?? env.DATABASE_URL
@@ -22,6 +25,12 @@ const db = drizzle(
 
 const logger = createLogger('RoomManager')
 
+// Server-side event used to tell every replica to drop a deleted workflow's room
+const WORKFLOW_ROOM_DELETED_EVENT = 'workflow-room-deleted'
+
+// Server-side event used to keep text documents loaded on other replicas up to date
+const TEXT_UPDATE_RELAY_EVENT = 'text-update-relay'
+
 export interface UserPresence {
   userId: string
   workflowId: string
@@ -40,14 +49,72 @@ export interface WorkflowRoom {
   activeConnections: number
 }
 
+/**
+ * Tracks workflow rooms, socket sessions and presence.
+ *
+ * The maps hold the sockets connected to this node. When constructed with a Redis client,
+ * presence is also shared through a {@link ClusterPresence} registry so that users connected
+ * to different replicas see each other, and broadcasts go through the Socket.IO Redis adapter.
+ */
 export class RoomManager {
   private workflowRooms = new Map<string, WorkflowRoom>()
   private socketToWorkflow = new Map<string, string>()
   private userSessions = new Map<string, { userId: string; userName: string }>()
+  private textDocuments = new TextDocumentManager()
   private io: Server
+  private cluster: ClusterPresence | null
 
-  constructor(io: Server) {
+  constructor(io: Server, redis?: Redis | null) {
     this.io = io
+    this.cluster = redis ? new ClusterPresence(redis) : null
+
+    if (this.cluster) {
+      this.io.on(WORKFLOW_ROOM_DELETED_EVENT, (workflowId: string) => {
+        this.cleanupLocalWorkflowRoom(workflowId)
+      })
+      this.io.on(
+        TEXT_UPDATE_RELAY_EVENT,
+        (workflowId: string, blockId: string, subBlockId: string, update: Uint8Array) => {
+          this.textDocuments.applyRelayedUpdate(workflowId, blockId, subBlockId, update)
+        }
+      )
+    }
+  }
+
+  /**
+   * Join the cluster, if clustering is enabled. Rooms that lose users to a dead
+   * replica get a fresh presence broadcast so the stale users disappear.
+   */
+  async start(): Promise<void> {
+    if (!this.cluster) return
+
+    await this.cluster.start((workflowIds) => {
+      workflowIds.forEach((workflowId) => this.broadcastPresenceUpdate(workflowId))
+    })
+  }
+
+  /**
+   * Leave the cluster, removing this node's presence entries
+   */
+  async shutdown(): Promise<void> {
+    await this.textDocuments.closeAll()
+
+    if (!this.cluster) return
+
+    try {
+      const workflowIds = await this.cluster.stop()
+      await Promise.all(workflowIds.map((workflowId) => this.broadcastPresenceUpdate(workflowId)))
+    } catch (error) {
+      logger.error('Error leaving socket cluster:', error)
+    }
+  }
+
+  isClustered(): boolean {
+    return this.cluster !== null
+  }
+
+  getNodeId(): string | undefined {
+    return this.cluster?.nodeId
   }
 
   createWorkflowRoom(workflowId: string): WorkflowRoom {
@@ -67,12 +134,32 @@ export class RoomManager {
 
       if (room.activeConnections === 0) {
         this.workflowRooms.delete(workflowId)
+        this.textDocuments.closeWorkflow(workflowId).catch((error) => {
+          logger.error(`Failed to close text documents for workflow ${workflowId}:`, error)
+        })
         logger.info(`Cleaned up empty workflow room: ${workflowId}`)
       }
     }
 
     this.socketToWorkflow.delete(socketId)
     this.userSessions.delete(socketId)
+
+    this.cluster?.removePresence(workflowId, socketId).catch((error) => {
+      logger.error(`Failed to remove cluster presence for socket ${socketId}:`, error)
+    })
+  }
+
+  /**
+   * Publish a socket's presence to the other replicas. No-op on a single node.
+   */
+  async trackPresence(presence: UserPresence): Promise<void> {
+    if (!this.cluster) return
+
+    try {
+      await this.cluster.addPresence(presence)
+    } catch (error) {
+      logger.error(`Failed to publish cluster presence for socket ${presence.socketId}:`, error)
+    }
   }
 
   // This would be used if we implement operation queuing
@@ -80,11 +167,38 @@ export class RoomManager {
     logger.debug(`Cleared pending operations for socket ${socketId}`)
   }
 
+  /**
+   * Forward a text document update to the other replicas. No-op on a single node.
+   */
+  relayTextUpdate(workflowId: string, blockId: string, subBlockId: string, update: Uint8Array) {
+    if (this.cluster) {
+      this.io.serverSideEmit(TEXT_UPDATE_RELAY_EVENT, workflowId, blockId, subBlockId, update)
+    }
+  }
+
+  getTextDocuments(): TextDocumentManager {
+    return this.textDocuments
+  }
+
   handleWorkflowDeletion(workflowId: string) {
     logger.info(`Handling workflow deletion notification for ${workflowId}`)
 
-    const room = this.workflowRooms.get(workflowId)
-    if (!room) {
+    // Other replicas may hold sockets for this workflow even when this node has none
+    if (this.cluster) {
+      this.io.to(workflowId).emit('workflow-deleted', {
+        workflowId,
+        message: 'This workflow has been deleted',
+        timestamp: Date.now(),
+      })
+      this.io.serverSideEmit(WORKFLOW_ROOM_DELETED_EVENT, workflowId)
+      this.cluster.removeRoom(workflowId).catch((error) => {
+        logger.error(`Failed to remove cluster presence for workflow ${workflowId}:`, error)
+      })
+      this.cleanupLocalWorkflowRoom(workflowId)
+      return
+    }
+
+    if (!this.workflowRooms.has(workflowId)) {
       logger.debug(`No active room found for deleted workflow ${workflowId}`)
       return
     }
@@ -95,6 +209,18 @@ export class RoomManager {
       timestamp: Date.now(),
     })
 
+    this.cleanupLocalWorkflowRoom(workflowId)
+  }
+
+  private cleanupLocalWorkflowRoom(workflowId: string) {
+    this.textDocuments.discardWorkflow(workflowId)
+
+    const room = this.workflowRooms.get(workflowId)
+    if (!room) {
+      logger.debug(`No active room found for deleted workflow ${workflowId}`)
+      return
+    }
+
     const socketsToDisconnect: string[] = []
     room.users.forEach((_presence, socketId) => {
       socketsToDisconnect.push(socketId)
@@ -189,12 +315,29 @@ export class RoomManager {
     )
   }
 
-  broadcastPresenceUpdate(workflowId: string): void {
+  async broadcastPresenceUpdate(workflowId: string): Promise<void> {
     const room = this.workflowRooms.get(workflowId)
-    if (room) {
-      const roomPresence = Array.from(room.users.values())
-      this.io.to(workflowId).emit('presence-update', roomPresence)
+    const localPresence = room ? Array.from(room.users.values()) : []
+
+    if (!this.cluster) {
+      if (room) {
+        this.io.to(workflowId).emit('presence-update', localPresence)
+      }
+      return
+    }
+
+    // Merge presence from every replica; local entries are the most recent for their sockets
+    const roomPresence = new Map<string, UserPresence>()
+    try {
+      for (const presence of await this.cluster.getRoomPresence(workflowId)) {
+        roomPresence.set(presence.socketId, presence)
+      }
+    } catch (error) {
+      logger.error(`Failed to load cluster presence for workflow ${workflowId}:`, error)
     }
+    localPresence.forEach((presence) => roomPresence.set(presence.socketId, presence))
+
+    this.io.to(workflowId).emit('presence-update', Array.from(roomPresence.values()))
   }
 
   /**
@@ -0,0 +1,203 @@
+import * as Y from 'yjs'
+import {
+  applyTextChange,
+  createSeedUpdate,
+  getSharedText,
+  isCollaborativeTextSubBlock,
+} from '../../lib/collaboration/text-crdt'
+import { createLogger } from '../../lib/logs/console-logger'
+import { loadTextDocument, persistTextDocument } from '../database/operations'
+
+const logger = createLogger('TextDocuments')
+
+// Delay between the last edit of a document and writing it to the database
+const PERSIST_DEBOUNCE_MS = 1000
+
+// Transaction origin for changes made by the server itself
+const SERVER_ORIGIN = 'server'
+
+interface TextDocumentEntry {
+  workflowId: string
+  blockId: string
+  subBlockId: string
+  doc: Y.Doc
+  persistTimer: ReturnType<typeof setTimeout> | null
+}
+
+const documentKey = (workflowId: string, blockId: string, subBlockId: string) =>
+  `${workflowId}:${blockId}:${subBlockId}`
+
+/**
+ * Server-side Yjs documents for collaboratively edited text sub-blocks.
+ *
+ * Documents are loaded on the first sync request for a sub-block, merged with every update
+ * sent by clients, and written back to the database shortly after edits stop.
+ */
+export class TextDocumentManager {
+  private documents = new Map<string, TextDocumentEntry>()
+  private loading = new Map<string, Promise<TextDocumentEntry | null>>()
+
+  /**
+   * Get the document of a sub-block, loading it from the database if needed
+   * @returns The document, or null if the block is gone or the sub-block is not collaborative text
+   */
+  async getDocument(workflowId: string, blockId: string, subBlockId: string): Promise<Y.Doc | null> {
+    const entry = await this.getEntry(workflowId, blockId, subBlockId)
+    return entry?.doc ?? null
+  }
+
+  /**
+   * Apply a client update to a sub-block document
+   * @returns Whether the document exists and the update was applied
+   */
+  async applyUpdate(
+    workflowId: string,
+    blockId: string,
+    subBlockId: string,
+    update: Uint8Array,
+    origin: unknown = null
+  ): Promise<boolean> {
+    const entry = await this.getEntry(workflowId, blockId, subBlockId)
+    if (!entry) return false
+
+    Y.applyUpdate(entry.doc, update, origin)
+    return true
+  }
+
+  /**
+   * Apply an update relayed from another replica. Documents that are not loaded here are
+   * skipped; they pick up the change from the database when they are next loaded.
+   */
+  applyRelayedUpdate(workflowId: string, blockId: string, subBlockId: string, update: Uint8Array) {
+    const entry = this.documents.get(documentKey(workflowId, blockId, subBlockId))
+    if (entry) {
+      Y.applyUpdate(entry.doc, update, SERVER_ORIGIN)
+    }
+  }
+
+  /**
+   * Bring a loaded document in line with a value written outside the CRDT,
+   * such as a whole-value sub-block update
+   * @returns The update to send to clients, or null if the document is not loaded or unchanged
+   */
+  applyValue(
+    workflowId: string,
+    blockId: string,
+    subBlockId: string,
+    value: string
+  ): Uint8Array | null {
+    const entry = this.documents.get(documentKey(workflowId, blockId, subBlockId))
+    if (!entry) return null
+
+    const stateVector = Y.encodeStateVector(entry.doc)
+    if (!applyTextChange(getSharedText(entry.doc), value, SERVER_ORIGIN)) return null
+
+    return Y.encodeStateAsUpdate(entry.doc, stateVector)
+  }
+
+  /**
+   * Persist and unload every document of a workflow, e.g. when its room empties
+   */
+  async closeWorkflow(workflowId: string): Promise<void> {
+    const entries = Array.from(this.documents.values()).filter(
+      (entry) => entry.workflowId === workflowId
+    )
+    await Promise.all(entries.map((entry) => this.closeEntry(entry)))
+  }
+
+  /**
+   * Unload every document of a deleted workflow without persisting it
+   */
+  discardWorkflow(workflowId: string): void {
+    for (const [key, entry] of this.documents) {
+      if (entry.workflowId !== workflowId) continue
+      if (entry.persistTimer) clearTimeout(entry.persistTimer)
+      entry.doc.destroy()
+      this.documents.delete(key)
+    }
+  }
+
+  /**
+   * Persist and unload every document, e.g. on shutdown
+   */
+  async closeAll(): Promise<void> {
+    await Promise.all(Array.from(this.documents.values()).map((entry) => this.closeEntry(entry)))
+  }
+
+  private async getEntry(
+    workflowId: string,
+    blockId: string,
+    subBlockId: string
+  ): Promise<TextDocumentEntry | null> {
+    const key = documentKey(workflowId, blockId, subBlockId)
+
+    const existing = this.documents.get(key)
+    if (existing) return existing
+
+    let loading = this.loading.get(key)
+    if (!loading) {
+      loading = this.loadEntry(workflowId, blockId, subBlockId).finally(() => {
+        this.loading.delete(key)
+      })
+      this.loading.set(key, loading)
+    }
+    return loading
+  }
+
+  private async loadEntry(
+    workflowId: string,
+    blockId: string,
+    subBlockId: string
+  ): Promise<TextDocumentEntry | null> {
+    const stored = await loadTextDocument(workflowId, blockId, subBlockId)
+    if (!stored || !isCollaborativeTextSubBlock(stored.subBlockType ?? undefined)) {
+      return null
+    }
+
+    const doc = new Y.Doc()
+    Y.applyUpdate(doc, stored.state ?? createSeedUpdate(stored.value), SERVER_ORIGIN)
+
+    const entry: TextDocumentEntry = { workflowId, blockId, subBlockId, doc, persistTimer: null }
+    doc.on('update', () => this.schedulePersist(entry))
+
+    // The value may have been saved outside the CRDT since the document was last stored
+    if (stored.state) {
+      applyTextChange(getSharedText(doc), stored.value, SERVER_ORIGIN)
+    }
+
+    this.documents.set(documentKey(workflowId, blockId, subBlockId), entry)
+    logger.debug(`Loaded text document ${workflowId}/${blockId}.${subBlockId}`)
+
+    return entry
+  }
+
+  private schedulePersist(entry: TextDocumentEntry) {
+    if (entry.persistTimer) clearTimeout(entry.persistTimer)
+
+    entry.persistTimer = setTimeout(() => {
+      entry.persistTimer = null
+      this.persist(entry)
+    }, PERSIST_DEBOUNCE_MS)
+  }
+
+  private async persist(entry: TextDocumentEntry): Promise<void> {
+    const { workflowId, blockId, subBlockId, doc } = entry
+    try {
+      await persistTextDocument(workflowId, blockId, subBlockId, Y.encodeStateAsUpdate(doc))
+    } catch (error) {
+      logger.error(`Failed to persist text document ${workflowId}/${blockId}.${subBlockId}:`, error)
+    }
+  }
+
+  private async closeEntry(entry: TextDocumentEntry): Promise<void> {
+    this.documents.delete(documentKey(entry.workflowId, entry.blockId, entry.subBlockId))
+
+    if (entry.persistTimer) {
+      clearTimeout(entry.persistTimer)
+      entry.persistTimer = null
+      await this.persist(entry)
+    }
+
+    entry.doc.destroy()
+  }
+}
@@ -24,6 +24,7 @@ export function createHttpHandler(roomManager: RoomManager, logger: Logger) {
           status: 'ok',
           timestamp: new Date().toISOString(),
           connections: roomManager.getTotalActiveConnections(),
+          nodeId: roomManager.getNodeId(),
         })
       )
       return
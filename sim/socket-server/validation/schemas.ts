@@ -15,6 +15,7 @@ export const BlockOperationSchema = z.object({
     'update-parent',
     'update-wide',
     'update-advanced-mode',
+    'update-retry-policy',
     'toggle-handles',
     'duplicate',
   ]),
@@ -34,6 +35,18 @@ export const BlockOperationSchema = z.object({
     horizontalHandles: z.boolean().optional(),
     isWide: z.boolean().optional(),
     advancedMode: z.boolean().optional(),
+    retryPolicy: z
+      .object({
+        maxRetries: z.number().int().min(0).max(10),
+        backoff: z.enum(['exponential', 'linear', 'fixed']),
+        initialDelayMs: z.number().min(0),
+        maxDelayMs: z.number().min(0).optional(),
+        retryOn: z.array(z.string()).optional(),
+        fallbackOutput: z.record(z.any()).optional(),
+        timeoutMs: z.number().int().min(0).optional(),
+      })
+      .nullable()
+      .optional(),
     height: z.number().optional(),
   }),
   timestamp: z.number(),
@@ -69,4 +82,64 @@ export const WorkflowOperationSchema = z.union([
   SubflowOperationSchema,
 ])
 
+// Yjs updates and state vectors arrive as Buffer on the server
+const BinarySchema = z.custom<Uint8Array>(
+  (value) => value instanceof Uint8Array || value instanceof ArrayBuffer,
+  { message: 'Expected binary data' }
+)
+
+const RelativeTextPositionSchema = z.record(z.unknown())
+
+export const TextSyncSchema = z.object({
+  blockId: z.string(),
+  subblockId: z.string(),
+  stateVector: BinarySchema.optional(),
+})
+
+export const TextUpdateSchema = z.object({
+  blockId: z.string(),
+  subblockId: z.string(),
+  update: BinarySchema,
+})
+
+export const TextCursorSchema = z.object({
+  blockId: z.string(),
+  subblockId: z.string(),
+  cursor: z
+    .object({
+      anchor: RelativeTextPositionSchema,
+      head: RelativeTextPositionSchema,
+    })
+    .nullable(),
+})
+
+const CommentContentSchema = z.string().trim().min(1).max(5000)
+
+const MentionsSchema = z.array(z.string()).max(50).default([])
+
+export const CommentThreadCreateSchema = z.object({
+  threadId: z.string(),
+  blockId: z.string().nullable(),
+  position: PositionSchema,
+  commentId: z.string(),
+  content: CommentContentSchema,
+  mentions: MentionsSchema,
+})
+
+export const CommentCreateSchema = z.object({
+  threadId: z.string(),
+  commentId: z.string(),
+  content: CommentContentSchema,
+  mentions: MentionsSchema,
+})
+
+export const CommentThreadResolveSchema = z.object({
+  threadId: z.string(),
+  resolved: z.boolean(),
+})
+
+export const CommentDeleteSchema = z.object({
+  commentId: z.string(),
+})
+
 export { PositionSchema }
@@ -0,0 +1,108 @@
+import { create } from 'zustand'
+import { devtools } from 'zustand/middleware'
+import type { CommentsState, CommentsStore, CommentThread } from './types'
+
+const initialState: CommentsState = {
+  workflowId: null,
+  threads: {},
+  isCommentMode: false,
+  draftThread: null,
+  activeThreadId: null,
+}
+
+/**
+ * Comment threads of the active workflow, kept in sync through the socket server
+ */
+export const useCommentsStore = create<CommentsStore>()(
+  devtools(
+    (set) => ({
+      ...initialState,
+
+      setThreads: (workflowId, threads) => {
+        set({
+          ...initialState,
+          workflowId,
+          threads: Object.fromEntries(threads.map((thread) => [thread.id, thread])),
+        })
+      },
+
+      upsertThread: (thread) => {
+        set((state) =>
+          state.workflowId === thread.workflowId
+            ? { threads: { ...state.threads, [thread.id]: thread } }
+            : {}
+        )
+      },
+
+      addComment: (comment) => {
+        set((state) => {
+          const thread = state.threads[comment.threadId]
+          if (!thread || thread.comments.some((c) => c.id === comment.id)) return {}
+
+          return {
+            threads: {
+              ...state.threads,
+              [thread.id]: {
+                ...thread,
+                comments: [...thread.comments, comment],
+                updatedAt: comment.createdAt,
+              },
+            },
+          }
+        })
+      },
+
+      removeComment: (commentId, threadId, threadDeleted) => {
+        set((state) => {
+          const thread = state.threads[threadId]
+          if (!thread) return {}
+
+          const { [threadId]: _removed, ...threads } = state.threads
+          if (threadDeleted) {
+            return {
+              threads,
+              activeThreadId: state.activeThreadId === threadId ? null : state.activeThreadId,
+            }
+          }
+
+          return {
+            threads: {
+              ...state.threads,
+              [threadId]: {
+                ...thread,
+                comments: thread.comments.filter((comment) => comment.id !== commentId),
+              },
+            },
+          }
+        })
+      },
+
+      setCommentMode: (enabled) => {
+        set({ isCommentMode: enabled, draftThread: null })
+      },
+
+      setDraftThread: (draft) => {
+        set({ draftThread: draft, activeThreadId: null })
+      },
+
+      setActiveThread: (threadId) => {
+        set({ activeThreadId: threadId, draftThread: null })
+      },
+
+      reset: () => set(initialState),
+    }),
+    { name: 'comments-store' }
+  )
+)
+
+/**
+ * Threads anchored to a block, resolved ones included, oldest first
+ */
+export function getBlockThreads(
+  threads: Record<string, CommentThread>,
+  blockId: string
+): CommentThread[] {
+  return Object.values(threads)
+    .filter((thread) => thread.blockId === blockId)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+}
@@ -0,0 +1,31 @@
+import type { CommentThread, WorkflowComment } from '@/lib/comments/types'
+
+export type { CommentThread, WorkflowComment }
+
+/**
+ * A new area thread being written, before its first comment is posted
+ */
+export interface DraftCommentThread {
+  position: { x: number; y: number }
+}
+
+export interface CommentsState {
+  workflowId: string | null
+  threads: Record<string, CommentThread>
+  isCommentMode: boolean // Clicking the canvas starts an area thread
+  draftThread: DraftCommentThread | null
+  activeThreadId: string | null // Thread whose popover is open
+}
+
+export interface CommentsActions {
+  setThreads: (workflowId: string, threads: CommentThread[]) => void
+  upsertThread: (thread: CommentThread) => void
+  addComment: (comment: WorkflowComment) => void
+  removeComment: (commentId: string, threadId: string, threadDeleted: boolean) => void
+  setCommentMode: (enabled: boolean) => void
+  setDraftThread: (draft: DraftCommentThread | null) => void
+  setActiveThread: (threadId: string | null) => void
+  reset: () => void
+}
+
+export type CommentsStore = CommentsState & CommentsActions
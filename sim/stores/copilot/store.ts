@@ -2,9 +2,10 @@ import { create } from 'zustand'
 import { devtools } from 'zustand/middleware'
 import { createLogger } from '@/lib/logs/console-logger'
 import { useEnvironmentStore } from '../settings/environment/store'
+import { useWorkflowRegistry } from '../workflows/registry/store'
+import { mergeSubblockState } from '../workflows/utils'
 import { useWorkflowStore } from '../workflows/workflow/store'
 import type { CopilotMessage, CopilotStore } from './types'
-import { calculateBlockPosition, getNextBlockNumber } from './utils'
 
 const logger = createLogger('CopilotStore')
 
@@ -14,12 +15,15 @@ export const useCopilotStore = create<CopilotStore>()(
       messages: [],
       isProcessing: false,
       error: null,
+      proposal: null,
 
       sendMessage: async (content: string) => {
         try {
-          set({ isProcessing: true, error: null })
+          // A new request replaces the changes awaiting review
+          set({ isProcessing: true, error: null, proposal: null })
 
           const workflowStore = useWorkflowStore.getState()
+          const workflowId = useWorkflowRegistry.getState().activeWorkflowId
           const apiKey = useEnvironmentStore.getState().getVariable('OPENAI_API_KEY')
 
           if (!apiKey) {
@@ -62,7 +66,7 @@ export const useCopilotStore = create<CopilotStore>()(
             body: JSON.stringify({
               messages: formattedMessages,
               workflowState: {
-                blocks: workflowStore.blocks,
+                blocks: mergeSubblockState(workflowStore.blocks, workflowId ?? undefined),
                 edges: workflowStore.edges,
               },
             }),
@@ -74,51 +78,15 @@ export const useCopilotStore = create<CopilotStore>()(
 
           const data = await response.json()
 
-          // Handle any actions returned from the API
-          if (data.actions) {
-            // Process all block additions first to properly calculate positions
-            const blockActions = data.actions.filter((action: any) => action.name === 'addBlock')
-
-            blockActions.forEach((action: any, index: number) => {
-              const { type, name } = action.parameters
-              const id = crypto.randomUUID()
-
-              // Calculate position based on current blocks and action index
-              const position = calculateBlockPosition(workflowStore.blocks, index)
-
-              // Generate name if not provided
-              const blockName = name || `${type} ${getNextBlockNumber(workflowStore.blocks, type)}`
-
-              workflowStore.addBlock(id, type, blockName, position)
-            })
-
-            // Handle other actions (edges, removals, etc.)
-            const otherActions = data.actions.filter((action: any) => action.name !== 'addBlock')
-
-            otherActions.forEach((action: any) => {
-              switch (action.name) {
-                case 'addEdge': {
-                  const { sourceId, targetId, sourceHandle, targetHandle } = action.parameters
-                  workflowStore.addEdge({
-                    id: crypto.randomUUID(),
-                    source: sourceId,
-                    target: targetId,
-                    sourceHandle,
-                    targetHandle,
-                    type: 'custom',
-                  })
-                  break
-                }
-                case 'removeBlock': {
-                  workflowStore.removeBlock(action.parameters.id)
-                  break
-                }
-                case 'removeEdge': {
-                  workflowStore.removeEdge(action.parameters.id)
-                  break
-                }
-              }
-            })
+          // The reply is about a workflow the user has since left
+          if (!workflowId || useWorkflowRegistry.getState().activeWorkflowId !== workflowId) {
+            logger.info('Dropped a copilot reply for a workflow that is no longer active')
+            return
+          }
+
+          // Proposed changes are previewed and applied once the user accepts them
+          if (data.proposal) {
+            set({ proposal: { ...data.proposal, workflowId } })
           }
 
           // Add assistant's response to chat
@@ -145,7 +113,27 @@ export const useCopilotStore = create<CopilotStore>()(
         }
       },
 
-      clearCopilot: () => set({ messages: [], error: null }),
+      resolveProposal: (accepted) => {
+        const { proposal } = get()
+        if (!proposal) return
+
+        set((state) => ({
+          proposal: null,
+          messages: [
+            ...state.messages,
+            {
+              id: crypto.randomUUID(),
+              role: 'system',
+              content: accepted
+                ? `The user applied the proposed changes: ${proposal.summary}`
+                : `The user rejected the proposed changes: ${proposal.summary}`,
+              timestamp: Date.now(),
+            },
+          ],
+        }))
+      },
+
+      clearCopilot: () => set({ messages: [], error: null, proposal: null }),
       setError: (error) => set({ error }),
     }),
     { name: 'copilot-store' }
@@ -1,3 +1,5 @@
+import type { CopilotProposal } from '@/lib/copilot/types'
+
 export interface CopilotMessage {
   id: string
   role: 'user' | 'assistant' | 'system'
@@ -9,11 +11,17 @@ export interface CopilotState {
   messages: CopilotMessage[]
   isProcessing: boolean
   error: string | null
+  proposal: WorkflowProposal | null // Changes awaiting review
+}
+
+export interface WorkflowProposal extends CopilotProposal {
+  workflowId: string // The workflow the changes were proposed for
 }
 
 export interface CopilotActions {
   sendMessage: (content: string) => Promise<void>
   clearCopilot: () => void
+  resolveProposal: (accepted: boolean) => void
   setError: (error: string | null) => void
 }
 
@@ -11,6 +11,7 @@ import { useVariablesStore } from './panel/variables/store'
 import { useEnvironmentStore } from './settings/environment/store'
 import { useWorkflowRegistry } from './workflows/registry/store'
 import { useSubBlockStore } from './workflows/subblock/store'
+import { useUndoRedoStore } from './workflows/undo-redo/store'
 import { useWorkflowStore } from './workflows/workflow/store'
 
 const logger = createLogger('Stores')
@@ -223,6 +224,7 @@ export const resetAllStores = () => {
   useWorkflowStore.getState().clear()
   useSubBlockStore.getState().clear()
   useSubBlockStore.getState().clearToolParams()
+  useUndoRedoStore.getState().clear()
   useNotificationStore.setState({ notifications: [] })
   useEnvironmentStore.setState({
     variables: {},
@@ -231,7 +233,7 @@ export const resetAllStores = () => {
   })
   useExecutionStore.getState().reset()
   useConsoleStore.setState({ entries: [], isOpen: false })
-  useCopilotStore.setState({ messages: [], isProcessing: false, error: null })
+  useCopilotStore.setState({ messages: [], isProcessing: false, error: null, proposal: null })
   useCustomToolsStore.setState({ tools: {} })
   useVariablesStore.getState().resetLoaded() // Reset variables store tracking
 }
@@ -1,4 +1,5 @@
 import { create } from 'zustand'
+import type { ChunkingStrategy } from '@/lib/documents/chunking'
 import { createLogger } from '@/lib/logs/console-logger'
 
 const logger = createLogger('KnowledgeStore')
@@ -8,7 +9,7 @@ export interface ChunkingConfig {
   minCharactersPerChunk?: number
   recipe?: string
   lang?: string
-  strategy?: 'recursive' | 'semantic' | 'sentence' | 'paragraph'
+  strategy?: ChunkingStrategy
   [key: string]: unknown
 }
 
@@ -19,6 +20,13 @@ export interface KnowledgeBaseData {
   tokenCount: number
   embeddingModel: string
   embeddingDimension: number
+  embeddingMigration?: {
+    targetModel: string
+    status: 'running' | 'failed'
+    processedChunks: number
+    totalChunks: number
+    error?: string
+  } | null
   chunkingConfig: ChunkingConfig
   createdAt: string
   updatedAt: string
@@ -40,6 +48,7 @@ export interface DocumentData {
   processingCompletedAt?: string | null
   processingError?: string | null
   enabled: boolean
+  tags?: Record<string, string | number | boolean>
   uploadedAt: string
 }
 
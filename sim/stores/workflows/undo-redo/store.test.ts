@@ -0,0 +1,234 @@
+/**
+ * @vitest-environment node
+ *
+ * Undo/Redo Store Unit Tests
+ *
+ * Tests for the per-user operation log: inverting operations, merging streams of updates
+ * and skipping operations whose target a collaborator removed.
+ */
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import type { BlockState } from '../workflow/types'
+import { useUndoRedoStore } from './store'
+import type { UndoableOperation } from './types'
+import { createBlockSnapshot } from './utils'
+
+const WORKFLOW_ID = 'workflow-1'
+
+function createBlock(id: string, parentId?: string): BlockState {
+  return {
+    id,
+    type: parentId ? 'agent' : 'loop',
+    name: id,
+    position: { x: 0, y: 0 },
+    subBlocks: {},
+    outputs: {},
+    enabled: true,
+    data: parentId ? { parentId, extent: 'parent' } : {},
+  }
+}
+
+/**
+ * Minimal workflow the applier works on: block positions and sub-block values
+ */
+function createWorkflow() {
+  const positions = new Map<string, { x: number; y: number }>()
+  const values = new Map<string, any>()
+
+  const apply = vi.fn((operation: UndoableOperation): UndoableOperation | null => {
+    switch (operation.type) {
+      case 'update-position':
+        if (!positions.has(operation.blockId)) return null
+        positions.set(operation.blockId, operation.after)
+        return operation
+      case 'set-subblock':
+        values.set(`${operation.blockId}.${operation.subBlockId}`, operation.after)
+        return operation
+      default:
+        return null
+    }
+  })
+
+  return { positions, values, apply }
+}
+
+function move(blockId: string, before: number, after: number): UndoableOperation {
+  return {
+    type: 'update-position',
+    blockId,
+    before: { x: before, y: 0 },
+    after: { x: after, y: 0 },
+  }
+}
+
+describe('Undo/redo store', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    useUndoRedoStore.getState().clear()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('should undo and redo an operation through its inverse', () => {
+    const { positions, apply } = createWorkflow()
+    positions.set('block-1', { x: 100, y: 0 })
+
+    const store = useUndoRedoStore.getState()
+    store.record(WORKFLOW_ID, move('block-1', 0, 100))
+
+    expect(store.undo(WORKFLOW_ID, apply)).toBe(true)
+    expect(positions.get('block-1')).toEqual({ x: 0, y: 0 })
+    expect(store.canUndo(WORKFLOW_ID)).toBe(false)
+    expect(store.canRedo(WORKFLOW_ID)).toBe(true)
+
+    expect(store.redo(WORKFLOW_ID, apply)).toBe(true)
+    expect(positions.get('block-1')).toEqual({ x: 100, y: 0 })
+    expect(store.canRedo(WORKFLOW_ID)).toBe(false)
+  })
+
+  it('should merge a stream of updates to the same value into one step', () => {
+    const { values, apply } = createWorkflow()
+    const store = useUndoRedoStore.getState()
+
+    const type = (before: string, after: string): UndoableOperation => ({
+      type: 'set-subblock',
+      blockId: 'agent-1',
+      subBlockId: 'systemPrompt',
+      before,
+      after,
+    })
+
+    store.record(WORKFLOW_ID, type('', 'H'))
+    vi.advanceTimersByTime(200)
+    store.record(WORKFLOW_ID, type('H', 'Hi'))
+    vi.advanceTimersByTime(5000)
+    store.record(WORKFLOW_ID, type('Hi', 'Hi!'))
+
+    expect(useUndoRedoStore.getState().stacks[WORKFLOW_ID].undo).toHaveLength(2)
+
+    store.undo(WORKFLOW_ID, apply)
+    expect(values.get('agent-1.systemPrompt')).toBe('Hi')
+    store.undo(WORKFLOW_ID, apply)
+    expect(values.get('agent-1.systemPrompt')).toBe('')
+  })
+
+  it('should count the text edits folded into a step and pass the direction', () => {
+    const { apply } = createWorkflow()
+    const store = useUndoRedoStore.getState()
+
+    const edit = (before: string, after: string): UndoableOperation => ({
+      type: 'set-subblock',
+      blockId: 'agent-1',
+      subBlockId: 'systemPrompt',
+      before,
+      after,
+      textEdits: 1,
+    })
+
+    store.record(WORKFLOW_ID, edit('', 'H'))
+    store.record(WORKFLOW_ID, edit('H', ''))
+    store.record(WORKFLOW_ID, edit('', 'Hi'))
+
+    // Edits that cancel out still belong to the text's history
+    const [entry] = useUndoRedoStore.getState().stacks[WORKFLOW_ID].undo
+    expect(entry.operations).toEqual([{ ...edit('', 'Hi'), textEdits: 3 }])
+
+    store.undo(WORKFLOW_ID, apply)
+    expect(apply).toHaveBeenLastCalledWith({ ...edit('Hi', ''), textEdits: 3 }, 'undo')
+    store.redo(WORKFLOW_ID, apply)
+    expect(apply).toHaveBeenLastCalledWith({ ...edit('', 'Hi'), textEdits: 3 }, 'redo')
+  })
+
+  it('should drop a merged step that ends where it started', () => {
+    const store = useUndoRedoStore.getState()
+
+    store.record(WORKFLOW_ID, move('block-1', 0, 50))
+    store.record(WORKFLOW_ID, move('block-1', 50, 0))
+
+    expect(store.canUndo(WORKFLOW_ID)).toBe(false)
+  })
+
+  it('should skip steps whose block a collaborator removed', () => {
+    const { positions, apply } = createWorkflow()
+    positions.set('block-1', { x: 10, y: 0 })
+
+    const store = useUndoRedoStore.getState()
+    store.record(WORKFLOW_ID, move('block-1', 0, 10))
+    vi.advanceTimersByTime(5000)
+    store.record(WORKFLOW_ID, move('block-2', 0, 20))
+
+    // block-2 was deleted by someone else, so undo reverts the previous step instead
+    expect(store.undo(WORKFLOW_ID, apply)).toBe(true)
+    expect(positions.get('block-1')).toEqual({ x: 0, y: 0 })
+    expect(store.canUndo(WORKFLOW_ID)).toBe(false)
+  })
+
+  it('should not record the operations performed by an undo', () => {
+    const { positions } = createWorkflow()
+    positions.set('block-1', { x: 10, y: 0 })
+
+    const store = useUndoRedoStore.getState()
+    store.record(WORKFLOW_ID, move('block-1', 0, 10))
+
+    // Undo goes through the same code path as a regular edit, which records it
+    store.undo(WORKFLOW_ID, (operation) => {
+      store.record(WORKFLOW_ID, operation)
+      return operation
+    })
+
+    expect(store.canUndo(WORKFLOW_ID)).toBe(false)
+    expect(store.canRedo(WORKFLOW_ID)).toBe(true)
+  })
+
+  it('should clear redo steps when a new change is recorded', () => {
+    const { positions, apply } = createWorkflow()
+    positions.set('block-1', { x: 10, y: 0 })
+
+    const store = useUndoRedoStore.getState()
+    store.record(WORKFLOW_ID, move('block-1', 0, 10))
+    store.undo(WORKFLOW_ID, apply)
+    store.record(WORKFLOW_ID, move('block-1', 0, 30))
+
+    expect(store.canRedo(WORKFLOW_ID)).toBe(false)
+  })
+
+  it('should undo the operations of a group in one step', () => {
+    const { positions, apply } = createWorkflow()
+    positions.set('block-1', { x: 10, y: 0 })
+    positions.set('block-2', { x: 20, y: 0 })
+
+    const store = useUndoRedoStore.getState()
+    store.record(WORKFLOW_ID, move('block-1', 0, 5))
+    store.group(WORKFLOW_ID, () => {
+      store.record(WORKFLOW_ID, move('block-1', 5, 10))
+      store.record(WORKFLOW_ID, move('block-2', 0, 20))
+    })
+
+    expect(useUndoRedoStore.getState().stacks[WORKFLOW_ID].undo).toHaveLength(2)
+
+    store.undo(WORKFLOW_ID, apply)
+    expect(positions.get('block-1')).toEqual({ x: 5, y: 0 })
+    expect(positions.get('block-2')).toEqual({ x: 0, y: 0 })
+  })
+
+  it('should snapshot a block with its children, edges and sub-block values', () => {
+    const blocks = {
+      loop: createBlock('loop'),
+      child: createBlock('child', 'loop'),
+      other: createBlock('other'),
+    }
+    const edges = [
+      { id: 'e1', source: 'other', target: 'child' },
+      { id: 'e2', source: 'other', target: 'other' },
+    ]
+    const values = { child: { systemPrompt: 'Be brief' }, other: { code: 'return 1' } }
+
+    const snapshot = createBlockSnapshot('loop', blocks, edges, values)
+
+    expect(snapshot?.blocks.map((block) => block.id)).toEqual(['loop', 'child'])
+    expect(snapshot?.edges.map((edge) => edge.id)).toEqual(['e1'])
+    expect(snapshot?.subBlockValues).toEqual({ child: { systemPrompt: 'Be brief' } })
+    expect(createBlockSnapshot('missing', blocks, edges, values)).toBeNull()
+  })
+})
@@ -0,0 +1,181 @@
+import { create } from 'zustand'
+import { devtools } from 'zustand/middleware'
+import type {
+  OperationApplier,
+  UndoableOperation,
+  UndoEntry,
+  UndoRedoDirection,
+  UndoRedoStore,
+  WorkflowUndoStacks,
+} from './types'
+import { invertOperation, isNoopOperation, mergeIntoEntry } from './utils'
+
+// Maximum number of undo steps kept per workflow
+const MAX_UNDO_ENTRIES = 100
+
+// Updates of the same value closer together than this become one undo step
+const MERGE_WINDOW_MS = 1000
+
+const EMPTY_STACKS: WorkflowUndoStacks = { undo: [], redo: [] }
+
+// Set while an undo or redo is being applied, so the operations it performs aren't recorded
+let isReplaying = false
+
+// Operations recorded inside group(), which become a single undo step
+let openGroup: { workflowId: string; operations: UndoableOperation[] } | null = null
+
+/**
+ * Apply operations in order, dropping those the applier skips, e.g. because a collaborator
+ * removed their target
+ * @returns The operations that were applied
+ */
+function replay(
+  operations: UndoableOperation[],
+  apply: OperationApplier,
+  direction: UndoRedoDirection
+): UndoableOperation[] {
+  const applied: UndoableOperation[] = []
+
+  isReplaying = true
+  try {
+    for (const operation of operations) {
+      const result = apply(operation, direction)
+      if (result) applied.push(result)
+    }
+  } finally {
+    isReplaying = false
+  }
+
+  return applied
+}
+
+/**
+ * Per-user undo and redo history of workflow edits.
+ *
+ * Only changes made by the local user are recorded, each with enough state to invert it, so
+ * undo reverts your own edits without touching what collaborators did in the meantime.
+ * Undo and redo are applied through the same collaborative operations as regular edits,
+ * which shares them with everyone in the workflow.
+ */
+export const useUndoRedoStore = create<UndoRedoStore>()(
+  devtools((set, get) => ({
+    stacks: {},
+
+    record: (workflowId, operation) => {
+      if (isReplaying || isNoopOperation(operation)) return
+
+      if (openGroup?.workflowId === workflowId) {
+        openGroup.operations.push(operation)
+        return
+      }
+
+      const { undo } = get().stacks[workflowId] ?? EMPTY_STACKS
+      const now = Date.now()
+      const last = undo[undo.length - 1]
+      const merged = last ? mergeIntoEntry(last, operation, now, MERGE_WINDOW_MS) : null
+
+      let nextUndo: UndoEntry[]
+      if (merged) {
+        nextUndo = undo.slice(0, -1)
+        if (merged.operations.length > 0) nextUndo.push(merged)
+      } else {
+        nextUndo = [...undo, { operations: [operation], updatedAt: now }].slice(-MAX_UNDO_ENTRIES)
+      }
+
+      set((state) => ({
+        stacks: { ...state.stacks, [workflowId]: { undo: nextUndo, redo: [] } },
+      }))
+    },
+
+    group: (workflowId, change) => {
+      if (openGroup) {
+        change()
+        return
+      }
+
+      const group = { workflowId, operations: [] as UndoableOperation[] }
+      openGroup = group
+      try {
+        change()
+      } finally {
+        openGroup = null
+      }
+
+      if (group.operations.length === 0) return
+
+      const { undo } = get().stacks[workflowId] ?? EMPTY_STACKS
+      // updatedAt 0 keeps the next edit from merging into the group
+      const entry: UndoEntry = { operations: group.operations, updatedAt: 0 }
+
+      set((state) => ({
+        stacks: {
+          ...state.stacks,
+          [workflowId]: { undo: [...undo, entry].slice(-MAX_UNDO_ENTRIES), redo: [] },
+        },
+      }))
+    },
+
+    undo: (workflowId, apply) => {
+      const { undo, redo } = get().stacks[workflowId] ?? EMPTY_STACKS
+      const nextUndo = [...undo]
+      const nextRedo = [...redo]
+      let didUndo = false
+
+      // Entries whose targets are all gone are dropped rather than making undo a no-op
+      while (!didUndo && nextUndo.length > 0) {
+        const entry = nextUndo.pop()!
+        const applied = replay(
+          [...entry.operations].reverse().map(invertOperation),
+          apply,
+          'undo'
+        )
+
+        if (applied.length > 0) {
+          nextRedo.push({ operations: applied.reverse().map(invertOperation), updatedAt: 0 })
+          didUndo = true
+        }
+      }
+
+      set((state) => ({
+        stacks: { ...state.stacks, [workflowId]: { undo: nextUndo, redo: nextRedo } },
+      }))
+      return didUndo
+    },
+
+    redo: (workflowId, apply) => {
+      const { undo, redo } = get().stacks[workflowId] ?? EMPTY_STACKS
+      const nextUndo = [...undo]
+      const nextRedo = [...redo]
+      let didRedo = false
+
+      while (!didRedo && nextRedo.length > 0) {
+        const entry = nextRedo.pop()!
+        const applied = replay(entry.operations, apply, 'redo')
+
+        if (applied.length > 0) {
+          // updatedAt 0 keeps the next edit from merging into a redone step
+          nextUndo.push({ operations: applied, updatedAt: 0 })
+          didRedo = true
+        }
+      }
+
+      set((state) => ({
+        stacks: { ...state.stacks, [workflowId]: { undo: nextUndo, redo: nextRedo } },
+      }))
+      return didRedo
+    },
+
+    canUndo: (workflowId) => (get().stacks[workflowId]?.undo.length ?? 0) > 0,
+
+    canRedo: (workflowId) => (get().stacks[workflowId]?.redo.length ?? 0) > 0,
+
+    clearWorkflow: (workflowId) => {
+      set((state) => {
+        const { [workflowId]: _removed, ...stacks } = state.stacks
+        return { stacks }
+      })
+    },
+
+    clear: () => set({ stacks: {} }),
+  }))
+)
@@ -0,0 +1,98 @@
+import type { Edge } from 'reactflow'
+import type { BlockRetryPolicy, BlockState, Position } from '../workflow/types'
+
+/**
+ * Everything needed to put a block back after it was removed: the block itself, the blocks
+ * nested inside it (parents before children), the edges touching any of them and their
+ * sub-block values.
+ */
+export interface BlockSnapshot {
+  blocks: BlockState[]
+  edges: Edge[]
+  subBlockValues: Record<string, Record<string, any>>
+}
+
+export type BlockFlag = 'enabled' | 'isWide' | 'advancedMode' | 'horizontalHandles'
+
+export interface SubflowSettings {
+  subflowType: 'loop' | 'parallel'
+  iterationType: string // loopType for loops, parallelType for parallels
+  count: number
+  collection: string
+}
+
+export interface ParentSettings {
+  parentId: string | null
+  position: Position
+}
+
+/**
+ * A change made by the local user, described well enough to apply it again or to invert it
+ */
+export type UndoableOperation =
+  | { type: 'add-block'; snapshot: BlockSnapshot }
+  | { type: 'remove-block'; snapshot: BlockSnapshot }
+  | { type: 'add-edge'; edge: Edge }
+  | { type: 'remove-edge'; edge: Edge }
+  | { type: 'update-position'; blockId: string; before: Position; after: Position }
+  | { type: 'update-name'; blockId: string; before: string; after: string }
+  | { type: 'update-parent'; blockId: string; before: ParentSettings; after: ParentSettings }
+  | { type: 'set-flag'; blockId: string; flag: BlockFlag; before: boolean; after: boolean }
+  | {
+      type: 'update-retry-policy'
+      blockId: string
+      before: BlockRetryPolicy | null
+      after: BlockRetryPolicy | null
+    }
+  | { type: 'update-subflow'; blockId: string; before: SubflowSettings; after: SubflowSettings }
+  | {
+      type: 'set-subblock'
+      blockId: string
+      subBlockId: string
+      before: any
+      after: any
+      // Number of edits made through the sub-block's shared text document, which undo and
+      // redo replay through its Y.UndoManager to keep collaborators' edits
+      textEdits?: number
+    }
+
+/**
+ * One undo step: operations applied in order, undone in reverse order
+ */
+export interface UndoEntry {
+  operations: UndoableOperation[]
+  updatedAt: number
+}
+
+export interface WorkflowUndoStacks {
+  undo: UndoEntry[]
+  redo: UndoEntry[]
+}
+
+export type UndoRedoDirection = 'undo' | 'redo'
+
+/**
+ * Applies an operation to the workflow and shares it with collaborators. Undo passes the
+ * inverted operations of an entry.
+ * @returns The operation as it was applied (e.g. with a fresh snapshot), or null if it was
+ * skipped because a collaborator already changed or removed its target
+ */
+export type OperationApplier = (
+  operation: UndoableOperation,
+  direction: UndoRedoDirection
+) => UndoableOperation | null
+
+export interface UndoRedoState {
+  stacks: Record<string, WorkflowUndoStacks> // Per workflow ID
+}
+
+export interface UndoRedoStore extends UndoRedoState {
+  record: (workflowId: string, operation: UndoableOperation) => void
+  group: (workflowId: string, change: () => void) => void // Record a change as one undo step
+  undo: (workflowId: string, apply: OperationApplier) => boolean
+  redo: (workflowId: string, apply: OperationApplier) => boolean
+  canUndo: (workflowId: string) => boolean
+  canRedo: (workflowId: string) => boolean
+  clearWorkflow: (workflowId: string) => void
+  clear: () => void
+}
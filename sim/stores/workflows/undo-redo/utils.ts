@@ -0,0 +1,134 @@
+import { isEqual } from 'lodash'
+import type { Edge } from 'reactflow'
+import type { BlockState } from '../workflow/types'
+import type { BlockSnapshot, UndoableOperation, UndoEntry } from './types'
+
+/**
+ * Capture a block together with everything that is removed along with it
+ * @param blockId The block about to be removed
+ * @param blocks Blocks of the workflow
+ * @param edges Edges of the workflow
+ * @param values Sub-block values of the workflow, by block ID
+ */
+export function createBlockSnapshot(
+  blockId: string,
+  blocks: Record<string, BlockState>,
+  edges: Edge[],
+  values: Record<string, Record<string, any>>
+): BlockSnapshot | null {
+  const root = blocks[blockId]
+  if (!root) return null
+
+  // Breadth-first, so every parent is restored before its children
+  const snapshotBlocks: BlockState[] = [root]
+  for (let i = 0; i < snapshotBlocks.length; i++) {
+    const parentId = snapshotBlocks[i].id
+    Object.values(blocks).forEach((block) => {
+      if (block.data?.parentId === parentId) snapshotBlocks.push(block)
+    })
+  }
+
+  const blockIds = new Set(snapshotBlocks.map((block) => block.id))
+  const subBlockValues: Record<string, Record<string, any>> = {}
+  blockIds.forEach((id) => {
+    if (values[id]) subBlockValues[id] = values[id]
+  })
+
+  return JSON.parse(
+    JSON.stringify({
+      blocks: snapshotBlocks,
+      edges: edges.filter((edge) => blockIds.has(edge.source) || blockIds.has(edge.target)),
+      subBlockValues,
+    })
+  )
+}
+
+/**
+ * Get the operation that reverts an operation
+ */
+export function invertOperation(operation: UndoableOperation): UndoableOperation {
+  switch (operation.type) {
+    case 'add-block':
+      return { type: 'remove-block', snapshot: operation.snapshot }
+    case 'remove-block':
+      return { type: 'add-block', snapshot: operation.snapshot }
+    case 'add-edge':
+      return { type: 'remove-edge', edge: operation.edge }
+    case 'remove-edge':
+      return { type: 'add-edge', edge: operation.edge }
+    default:
+      return { ...operation, before: operation.after, after: operation.before } as UndoableOperation
+  }
+}
+
+/**
+ * Whether an operation changes nothing, e.g. a block dropped where it was picked up
+ */
+export function isNoopOperation(operation: UndoableOperation): boolean {
+  // Text edits that cancel out are kept, so undo stays in step with the text's own history
+  if (operation.type === 'set-subblock' && operation.textEdits) return false
+  return 'before' in operation && isEqual(operation.before, operation.after)
+}
+
+/**
+ * Key identifying the value an update operation changes. Streams of updates to the same value,
+ * such as drag moves or keystrokes, fold into one operation. Structural changes have no key.
+ */
+function getUpdateKey(operation: UndoableOperation): string | null {
+  switch (operation.type) {
+    case 'update-position':
+    case 'update-name':
+    case 'update-parent':
+    case 'update-subflow':
+      return `${operation.type}:${operation.blockId}`
+    case 'set-subblock': {
+      // Text edits are undone differently from values set directly, so they don't fold together
+      const key = `${operation.type}:${operation.blockId}:${operation.subBlockId}`
+      return operation.textEdits ? `${key}:text` : key
+    }
+    default:
+      return null
+  }
+}
+
+function getBlockId(operation: UndoableOperation): string | null {
+  return 'blockId' in operation ? operation.blockId : null
+}
+
+function foldUpdate(existing: UndoableOperation, operation: UndoableOperation): UndoableOperation {
+  const folded = { ...existing, after: (operation as { after: unknown }).after } as UndoableOperation
+  if (folded.type === 'set-subblock' && operation.type === 'set-subblock' && folded.textEdits) {
+    folded.textEdits += operation.textEdits ?? 0
+  }
+  return folded
+}
+
+/**
+ * Fold an update into the most recent entry if it continues an edit of the same block,
+ * e.g. the next position of a drag or the next keystroke in a sub-block
+ * @returns The updated entry, or null if the operation should start a new entry
+ */
+export function mergeIntoEntry(
+  entry: UndoEntry,
+  operation: UndoableOperation,
+  now: number,
+  windowMs: number
+): UndoEntry | null {
+  if (now - entry.updatedAt > windowMs) return null
+
+  const key = getUpdateKey(operation)
+  if (!key || entry.operations.some((existing) => getUpdateKey(existing) === null)) return null
+
+  const blockId = getBlockId(operation)
+  if (!entry.operations.some((existing) => getBlockId(existing) === blockId)) return null
+
+  const operations = entry.operations
+    .map((existing) => (getUpdateKey(existing) === key ? foldUpdate(existing, operation) : existing))
+    .filter((existing) => !isNoopOperation(existing))
+
+  if (!entry.operations.some((existing) => getUpdateKey(existing) === key)) {
+    operations.push(operation)
+  }
+
+  return { operations, updatedAt: now }
+}
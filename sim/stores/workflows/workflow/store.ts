@@ -8,7 +8,7 @@ import { useWorkflowRegistry } from '../registry/store'
 import { useSubBlockStore } from '../subblock/store'
 // import { markWorkflowsDirty, workflowSync } from '../sync' // Disabled for socket-based sync
 import { mergeSubblockState } from '../utils'
-import type { Position, SubBlockState, SyncControl, WorkflowState } from './types'
+import type { BlockRetryPolicy, Position, SubBlockState, SyncControl, WorkflowState } from './types'
 import { generateLoopBlocks, generateParallelBlocks } from './utils'
 
 const initialState = {
@@ -702,6 +702,23 @@ export const useWorkflowStore = create<WorkflowStoreWithHistory>()(
         // Note: Socket.IO handles real-time sync automatically
       },
 
+      setBlockRetryPolicy: (id: string, retryPolicy: BlockRetryPolicy | null) => {
+        const block = get().blocks[id]
+        if (!block) return
+
+        const { retryPolicy: _previous, ...rest } = block
+        set((state) => ({
+          blocks: {
+            ...state.blocks,
+            [id]: retryPolicy ? { ...rest, retryPolicy } : rest,
+          },
+          edges: [...state.edges],
+          loops: { ...state.loops },
+        }))
+        get().updateLastSaved()
+        // Note: Socket.IO handles real-time sync automatically
+      },
+
       updateBlockHeight: (id: string, height: number) => {
         set((state) => ({
           blocks: {
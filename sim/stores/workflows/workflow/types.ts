@@ -74,9 +74,24 @@ export interface BlockState {
   isWide?: boolean
   height?: number
   advancedMode?: boolean
+  retryPolicy?: BlockRetryPolicy
   data?: BlockData
 }
 
+/**
+ * How the executor retries a failing block before taking its error path,
+ * and how long each attempt may take.
+ */
+export interface BlockRetryPolicy {
+  maxRetries: number // Retries after the first attempt
+  backoff: 'exponential' | 'linear' | 'fixed'
+  initialDelayMs: number
+  maxDelayMs?: number
+  retryOn?: string[] // Status codes ("429", "5xx") or message fragments; defaults to rate limits and 5xx
+  fallbackOutput?: Record<string, any> // Response fields used when every attempt fails
+  timeoutMs?: number // Time limit for each attempt; a timed out attempt fails with a "timeout" error
+}
+
 export interface SubBlockState {
   id: string
   type: SubBlockType
@@ -193,6 +208,7 @@ export interface WorkflowActions {
   setWebhookStatus: (hasActiveWebhook: boolean) => void
   revertToDeployedState: (deployedState: WorkflowState) => void
   toggleBlockAdvancedMode: (id: string) => void
+  setBlockRetryPolicy: (id: string, retryPolicy: BlockRetryPolicy | null) => void
 
   // Add the sync control methods to the WorkflowActions interface
   sync: SyncControl
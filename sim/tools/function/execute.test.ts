@@ -49,6 +49,7 @@ describe('Function Execute Tool', () => {
 
       expect(body).toEqual({
         code: 'return 42',
+        language: 'javascript',
         envVars: {},
         isCustomTool: false,
         timeout: 5000,
@@ -71,6 +72,7 @@ describe('Function Execute Tool', () => {
 
       expect(body).toEqual({
         code: 'const x = 40;\nconst y = 2;\nreturn x + y;',
+        language: 'javascript',
         timeout: 10000,
         envVars: {},
         isCustomTool: false,
@@ -85,12 +87,22 @@ describe('Function Execute Tool', () => {
 
       expect(body).toEqual({
         code: 'return 42',
+        language: 'javascript',
         timeout: 10000,
         envVars: {},
         isCustomTool: false,
         workflowId: undefined,
       })
     })
+
+    test('should pass the language of the code', () => {
+      const body = tester.getRequestBody({
+        code: 'return 42',
+        language: 'python',
+      })
+
+      expect(body.language).toBe('python')
+    })
   })
 
   describe('Response Handling', () => {
@@ -7,7 +7,7 @@ export const functionExecuteTool: ToolConfig<CodeExecutionInput, CodeExecutionOu
   id: 'function_execute',
   name: 'Function Execute',
   description:
-    'Execute JavaScript code in a secure, sandboxed environment with proper isolation and resource limits.',
+    'Execute JavaScript or Python code in a secure, sandboxed environment with proper isolation and resource limits.',
   version: '1.0.0',
 
   params: {
@@ -16,6 +16,12 @@ export const functionExecuteTool: ToolConfig<CodeExecutionInput, CodeExecutionOu
       required: true,
       description: 'The code to execute',
     },
+    language: {
+      type: 'string',
+      required: false,
+      description: 'Language of the code: javascript or python',
+      default: 'javascript',
+    },
     timeout: {
       type: 'number',
       required: false,
@@ -43,6 +49,7 @@ export const functionExecuteTool: ToolConfig<CodeExecutionInput, CodeExecutionOu
 
       return {
         code: codeContent,
+        language: params.language || 'javascript',
         timeout: params.timeout || DEFAULT_TIMEOUT,
         envVars: params.envVars || {},
         workflowId: params._context?.workflowId,
@@ -2,6 +2,7 @@ import type { ToolResponse } from '../types'
 
 export interface CodeExecutionInput {
   code: Array<{ content: string; id: string }> | string
+  language?: 'javascript' | 'python'
   timeout?: number
   memoryLimit?: number
   envVars?: Record<string, string>
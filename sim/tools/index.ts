@@ -1,16 +1,43 @@
 import { env } from '@/lib/env'
 import { createLogger } from '@/lib/logs/console-logger'
+import { ExecutionReplay } from '@/executor/replay'
 import type { OAuthTokenPayload, ToolConfig, ToolResponse } from './types'
 import { formatRequestParams, getTool, getToolAsync, validateToolRequest } from './utils'
 
 const logger = createLogger('Tools')
 
-// Execute a tool by calling either the proxy for external APIs or directly for internal routes
+// Execute a tool by calling either the proxy for external APIs or directly for internal routes.
+// The optional signal aborts the tool's outgoing requests when the run is cancelled or times out.
+// A replay in the params' _context records the response, or serves a recorded one instead.
 export async function executeTool(
   toolId: string,
   params: Record<string, any>,
   skipProxy = false,
-  skipPostProcess = false
+  skipPostProcess = false,
+  signal?: AbortSignal
+): Promise<ToolResponse> {
+  const replay: ExecutionReplay | undefined = params._context?.replay
+  if (!replay) {
+    return executeToolRequest(toolId, params, skipProxy, skipPostProcess, signal)
+  }
+
+  // The replay must not be sent along with the tool's params
+  const { replay: _replay, ...context } = params._context
+  const toolParams = { ...params, _context: context }
+  const execute = () => executeToolRequest(toolId, toolParams, skipProxy, skipPostProcess, signal)
+
+  if (!ExecutionReplay.isReplayableTool(toolId)) {
+    return execute()
+  }
+  return replay.run('tool', toolId, context.blockId, execute)
+}
+
+async function executeToolRequest(
+  toolId: string,
+  params: Record<string, any>,
+  skipProxy: boolean,
+  skipPostProcess: boolean,
+  signal?: AbortSignal
 ): Promise<ToolResponse> {
   // Capture start time for precise timing
   const startTime = new Date()
@@ -71,6 +98,7 @@ export async function executeTool(
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify(tokenPayload),
+          signal,
         })
 
         if (!response.ok) {
@@ -152,7 +180,7 @@ export async function executeTool(
 
     // For internal routes or when skipProxy is true, call the API directly
     if (tool.request.isInternalRoute || skipProxy) {
-      const result = await handleInternalRequest(toolId, tool, contextParams)
+      const result = await handleInternalRequest(toolId, tool, contextParams, signal)
 
       // Apply post-processing if available and not skipped
       if (tool.postProcess && result.success && !skipPostProcess) {
@@ -205,7 +233,7 @@ export async function executeTool(
 
     // For external APIs, use the proxy
     logger.info(`[executeTool] Using handleProxyRequest for toolId=${toolId}`)
-    const result = await handleProxyRequest(toolId, contextParams)
+    const result = await handleProxyRequest(toolId, contextParams, signal)
 
     // Apply post-processing if available and not skipped
     if (tool.postProcess && result.success && !skipPostProcess) {
@@ -334,7 +362,8 @@ export async function executeTool(
 async function handleInternalRequest(
   toolId: string,
   tool: ToolConfig,
-  params: Record<string, any>
+  params: Record<string, any>,
+  signal?: AbortSignal
 ): Promise<ToolResponse> {
   // Format the request parameters
   const requestParams = formatRequestParams(tool, params)
@@ -365,6 +394,7 @@ async function handleInternalRequest(
       method: requestParams.method,
       headers: new Headers(requestParams.headers),
       body: requestParams.body,
+      signal,
     }
 
     const response = await fetch(fullUrl, requestOptions)
@@ -543,7 +573,8 @@ function validateClientSideParams(
  */
 async function handleProxyRequest(
   toolId: string,
-  params: Record<string, any>
+  params: Record<string, any>,
+  signal?: AbortSignal
 ): Promise<ToolResponse> {
   logger.info(`[handleProxyRequest] Entry: toolId=${toolId}`)
   const baseUrl = env.NEXT_PUBLIC_APP_URL
@@ -557,6 +588,7 @@ async function handleProxyRequest(
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({ toolId, params }),
+      signal,
     })
 
     if (!response.ok) {
@@ -42,7 +42,11 @@ export const readUrlTool: ToolConfig<ReadUrlParams, ReadUrlResponse> = {
       // Start with base headers
       const headers: Record<string, string> = {
         Accept: params.jsonResponse ? 'application/json' : 'text/plain',
-        Authorization: `Bearer ${params.apiKey}`,
+      }
+
+      // Jina Reader also serves requests without a key, at a lower rate limit
+      if (params.apiKey) {
+        headers.Authorization = `Bearer ${params.apiKey}`
       }
 
       // Add conditional headers based on boolean values
@@ -4,7 +4,8 @@ import type { KnowledgeSearchResponse } from './types'
 export const knowledgeSearchTool: ToolConfig<any, KnowledgeSearchResponse> = {
   id: 'knowledge_search',
   name: 'Knowledge Search',
-  description: 'Search for similar content in one or more knowledge bases using vector similarity',
+  description:
+    'Search for relevant content in one or more knowledge bases using vector similarity, keyword matching or both',
   version: '1.0.0',
   params: {
     knowledgeBaseIds: {
@@ -23,6 +24,23 @@ export const knowledgeSearchTool: ToolConfig<any, KnowledgeSearchResponse> = {
       required: false,
       description: 'Number of most similar results to return (1-100)',
     },
+    searchMode: {
+      type: 'string',
+      required: false,
+      description:
+        'How to find results: vector (semantic similarity), keyword (full-text matching) or hybrid (both, fused by rank)',
+    },
+    rerank: {
+      type: 'boolean',
+      required: false,
+      description: 'Whether to reorder the results by relevance to the query with a language model',
+    },
+    filters: {
+      type: 'json',
+      required: false,
+      description:
+        'Document tags the results must have, e.g. {"product": "pro", "publishedAt": {"gte": "2024-01-01"}, "language": {"in": ["en", "de"]}}',
+    },
   },
   request: {
     url: () => '/api/knowledge/search',
@@ -43,12 +61,25 @@ export const knowledgeSearchTool: ToolConfig<any, KnowledgeSearchResponse> = {
           .filter((id) => id.length > 0)
       }
 
+      // Filters from the block editor arrive as a JSON string
+      let filters = params.filters
+      if (typeof filters === 'string') {
+        try {
+          filters = filters.trim() ? JSON.parse(filters) : undefined
+        } catch {
+          throw new Error('Tag filters must be valid JSON')
+        }
+      }
+
       const requestBody = {
         knowledgeBaseIds,
         query: params.query,
         topK: params.topK
           ? Math.max(1, Math.min(100, Number.parseInt(params.topK.toString()) || 10))
           : 10,
+        searchMode: params.searchMode || 'vector',
+        rerank: params.rerank === true || params.rerank === 'true',
+        ...(filters && Object.keys(filters).length > 0 && { filters }),
         ...(workflowId && { workflowId }),
       }
 
@@ -4,7 +4,9 @@ export interface KnowledgeSearchResult {
   documentId: string
   chunkIndex: number
   metadata: Record<string, any>
-  similarity: number
+  tags: Record<string, string | number | boolean>
+  similarity: number | null
+  score: number
 }
 
 export interface KnowledgeSearchResponse {
@@ -21,6 +23,9 @@ export interface KnowledgeSearchParams {
   knowledgeBaseIds: string | string[]
   query: string
   topK?: number
+  searchMode?: 'vector' | 'keyword' | 'hybrid'
+  rerank?: boolean
+  filters?: Record<string, any>
 }
 
 export interface KnowledgeUploadChunkResult {
@@ -23,6 +23,12 @@ export const memoryAddTool: ToolConfig<any, MemoryResponse> = {
       required: true,
       description: 'Content for agent memory',
     },
+    conversationId: {
+      type: 'string',
+      required: false,
+      description:
+        'End user or conversation ID the memory belongs to. Leave empty for memories shared by the whole workflow.',
+    },
   },
   request: {
     url: '/api/memory',
@@ -55,6 +61,10 @@ export const memoryAddTool: ToolConfig<any, MemoryResponse> = {
         workflowId,
       }
 
+      if (params.conversationId) {
+        body.conversationId = params.conversationId
+      }
+
       // Validate and set data
       if (!params.role || !params.content) {
         return {
@@ -12,6 +12,12 @@ export const memoryGetTool: ToolConfig<any, MemoryResponse> = {
       required: true,
       description: 'Identifier for the memory to retrieve',
     },
+    conversationId: {
+      type: 'string',
+      required: false,
+      description:
+        'End user or conversation ID the memory belongs to. Leave empty for memories shared by the whole workflow.',
+    },
   },
   request: {
     url: (params): any => {
@@ -32,8 +38,10 @@ export const memoryGetTool: ToolConfig<any, MemoryResponse> = {
         }
       }
 
-      // Append workflowId as query parameter
-      return `/api/memory/${encodeURIComponent(params.id)}?workflowId=${encodeURIComponent(workflowId)}`
+      // Append workflowId and the optional conversationId as query parameters
+      const query = new URLSearchParams({ workflowId })
+      if (params.conversationId) query.set('conversationId', params.conversationId)
+      return `/api/memory/${encodeURIComponent(params.id)}?${query.toString()}`
     },
     method: 'GET',
     headers: () => ({
@@ -6,7 +6,13 @@ export const memoryGetAllTool: ToolConfig<any, MemoryResponse> = {
   name: 'Get All Memories',
   description: 'Retrieve all memories from the database',
   version: '1.0.0',
-  params: {},
+  params: {
+    conversationId: {
+      type: 'string',
+      required: false,
+      description: 'Only retrieve the memories of this end user or conversation ID',
+    },
+  },
   request: {
     url: (params): any => {
       // Get workflowId from context (set by workflow execution)
@@ -26,8 +32,10 @@ export const memoryGetAllTool: ToolConfig<any, MemoryResponse> = {
         }
       }
 
-      // Append workflowId as query parameter
-      return `/api/memory?workflowId=${encodeURIComponent(workflowId)}`
+      // Append workflowId and the optional conversationId as query parameters
+      const query = new URLSearchParams({ workflowId })
+      if (params.conversationId) query.set('conversationId', params.conversationId)
+      return `/api/memory?${query.toString()}`
     },
     method: 'GET',
     headers: () => ({
@@ -21,6 +21,7 @@ export interface MemoryRecord {
   updatedAt: string
   workflowId?: string
   workspaceId?: string
+  conversationId?: string
 }
 
 export interface MemoryError {